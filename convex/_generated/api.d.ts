@@ -9,25 +9,42 @@
  */
 
 import type * as admin from "../admin.js";
+import type * as agentPersonas from "../agentPersonas.js";
 import type * as aiTools from "../aiTools.js";
 import type * as aiUsage from "../aiUsage.js";
 import type * as analytics from "../analytics.js";
 import type * as api_adminHelpers from "../api/adminHelpers.js";
 import type * as api_auth from "../api/auth.js";
 import type * as api_helpers from "../api/helpers.js";
+import type * as api_idempotency from "../api/idempotency.js";
 import type * as api_mutations from "../api/mutations.js";
+import type * as api_planning from "../api/planning.js";
 import type * as apiKeys from "../apiKeys.js";
 import type * as auth from "../auth.js";
 import type * as budgetItems from "../budgetItems.js";
+import type * as conversations from "../conversations.js";
+import type * as crons from "../crons.js";
+import type * as directoryImport from "../directoryImport.js";
 import type * as eventApplications from "../eventApplications.js";
+import type * as eventCollaborators from "../eventCollaborators.js";
 import type * as eventSponsors from "../eventSponsors.js";
 import type * as eventTasks from "../eventTasks.js";
 import type * as eventVendors from "../eventVendors.js";
 import type * as events from "../events.js";
+import type * as exchangeRates from "../exchangeRates.js";
+import type * as housekeeping from "../housekeeping.js";
 import type * as http from "../http.js";
+import type * as idempotencyKeys from "../idempotencyKeys.js";
 import type * as inquiries from "../inquiries.js";
+import type * as inquiryMessages from "../inquiryMessages.js";
+import type * as invitations from "../invitations.js";
+import type * as invoices from "../invoices.js";
+import type * as lib_agent_eval from "../lib/agent/eval.js";
+import type * as lib_agent_evalCases from "../lib/agent/evalCases.js";
 import type * as lib_agent_handlers from "../lib/agent/handlers.js";
 import type * as lib_agent_index from "../lib/agent/index.js";
+import type * as lib_agent_personas from "../lib/agent/personas.js";
+import type * as lib_agent_plan from "../lib/agent/plan.js";
 import type * as lib_agent_tools from "../lib/agent/tools.js";
 import type * as lib_agent_types from "../lib/agent/types.js";
 import type * as lib_ai_factory from "../lib/ai/factory.js";
@@ -35,16 +52,36 @@ import type * as lib_ai_index from "../lib/ai/index.js";
 import type * as lib_ai_providers_openai from "../lib/ai/providers/openai.js";
 import type * as lib_ai_types from "../lib/ai/types.js";
 import type * as lib_auth from "../lib/auth.js";
+import type * as lib_currency from "../lib/currency.js";
+import type * as lib_directoryImport from "../lib/directoryImport.js";
+import type * as lib_email_index from "../lib/email/index.js";
+import type * as lib_email_templates from "../lib/email/templates.js";
+import type * as lib_email_transports from "../lib/email/transports.js";
+import type * as lib_email_types from "../lib/email/types.js";
 import type * as lib_errors from "../lib/errors.js";
+import type * as lib_eventPlanning from "../lib/eventPlanning.js";
+import type * as lib_inquiryThreads from "../lib/inquiryThreads.js";
+import type * as lib_invoices from "../lib/invoices.js";
+import type * as lib_notifications from "../lib/notifications.js";
+import type * as lib_organizations from "../lib/organizations.js";
+import type * as lib_planningImport from "../lib/planningImport.js";
+import type * as lib_revenue from "../lib/revenue.js";
+import type * as lib_search from "../lib/search.js";
+import type * as lib_timezones from "../lib/timezones.js";
 import type * as moderation from "../moderation.js";
 import type * as mutations_events from "../mutations/events.js";
 import type * as mutations_superadmin from "../mutations/superadmin.js";
+import type * as notifications from "../notifications.js";
+import type * as organizations from "../organizations.js";
 import type * as organizerProfiles from "../organizerProfiles.js";
 import type * as publicApplications from "../publicApplications.js";
 import type * as queries_auth from "../queries/auth.js";
 import type * as queries_dashboard from "../queries/dashboard.js";
+import type * as revenueItems from "../revenueItems.js";
+import type * as sponsorPortal from "../sponsorPortal.js";
 import type * as sponsors from "../sponsors.js";
 import type * as users from "../users.js";
+import type * as vendorPortal from "../vendorPortal.js";
 import type * as vendors from "../vendors.js";
 import type * as webhooks from "../webhooks.js";
 
@@ -56,25 +93,42 @@ import type {
 
 declare const fullApi: ApiFromModules<{
   admin: typeof admin;
+  agentPersonas: typeof agentPersonas;
   aiTools: typeof aiTools;
   aiUsage: typeof aiUsage;
   analytics: typeof analytics;
   "api/adminHelpers": typeof api_adminHelpers;
   "api/auth": typeof api_auth;
   "api/helpers": typeof api_helpers;
+  "api/idempotency": typeof api_idempotency;
   "api/mutations": typeof api_mutations;
+  "api/planning": typeof api_planning;
   apiKeys: typeof apiKeys;
   auth: typeof auth;
   budgetItems: typeof budgetItems;
+  conversations: typeof conversations;
+  crons: typeof crons;
+  directoryImport: typeof directoryImport;
   eventApplications: typeof eventApplications;
+  eventCollaborators: typeof eventCollaborators;
   eventSponsors: typeof eventSponsors;
   eventTasks: typeof eventTasks;
   eventVendors: typeof eventVendors;
   events: typeof events;
+  exchangeRates: typeof exchangeRates;
+  housekeeping: typeof housekeeping;
   http: typeof http;
+  idempotencyKeys: typeof idempotencyKeys;
   inquiries: typeof inquiries;
+  inquiryMessages: typeof inquiryMessages;
+  invitations: typeof invitations;
+  invoices: typeof invoices;
+  "lib/agent/eval": typeof lib_agent_eval;
+  "lib/agent/evalCases": typeof lib_agent_evalCases;
   "lib/agent/handlers": typeof lib_agent_handlers;
   "lib/agent/index": typeof lib_agent_index;
+  "lib/agent/personas": typeof lib_agent_personas;
+  "lib/agent/plan": typeof lib_agent_plan;
   "lib/agent/tools": typeof lib_agent_tools;
   "lib/agent/types": typeof lib_agent_types;
   "lib/ai/factory": typeof lib_ai_factory;
@@ -82,16 +136,36 @@ declare const fullApi: ApiFromModules<{
   "lib/ai/providers/openai": typeof lib_ai_providers_openai;
   "lib/ai/types": typeof lib_ai_types;
   "lib/auth": typeof lib_auth;
+  "lib/currency": typeof lib_currency;
+  "lib/directoryImport": typeof lib_directoryImport;
+  "lib/email/index": typeof lib_email_index;
+  "lib/email/templates": typeof lib_email_templates;
+  "lib/email/transports": typeof lib_email_transports;
+  "lib/email/types": typeof lib_email_types;
   "lib/errors": typeof lib_errors;
+  "lib/eventPlanning": typeof lib_eventPlanning;
+  "lib/inquiryThreads": typeof lib_inquiryThreads;
+  "lib/invoices": typeof lib_invoices;
+  "lib/notifications": typeof lib_notifications;
+  "lib/organizations": typeof lib_organizations;
+  "lib/planningImport": typeof lib_planningImport;
+  "lib/revenue": typeof lib_revenue;
+  "lib/search": typeof lib_search;
+  "lib/timezones": typeof lib_timezones;
   moderation: typeof moderation;
   "mutations/events": typeof mutations_events;
   "mutations/superadmin": typeof mutations_superadmin;
+  notifications: typeof notifications;
+  organizations: typeof organizations;
   organizerProfiles: typeof organizerProfiles;
   publicApplications: typeof publicApplications;
   "queries/auth": typeof queries_auth;
   "queries/dashboard": typeof queries_dashboard;
+  revenueItems: typeof revenueItems;
+  sponsorPortal: typeof sponsorPortal;
   sponsors: typeof sponsors;
   users: typeof users;
+  vendorPortal: typeof vendorPortal;
   vendors: typeof vendors;
   webhooks: typeof webhooks;
 }>;
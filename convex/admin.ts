@@ -6,6 +6,7 @@
  */
 
 import { v } from 'convex/values'
+import { paginationOptsValidator } from 'convex/server'
 import { mutation, query } from './_generated/server'
 import { assertRole, ROLE_HIERARCHY } from './lib/auth'
 
@@ -130,66 +131,74 @@ export const getUserCounts = query({
 })
 
 /**
- * List all users with pagination
+ * List all users with cursor pagination (newest first)
  * Accessible by admin and superadmin
+ *
+ * Each email is listed once, on the row deduplicateUsers would keep, so
+ * duplicates from auth sync issues never show up across pages.
  */
 export const listAllUsersPaginated = query({
   args: {
-    role: v.optional(v.union(v.literal('admin'), v.literal('organizer'), v.literal('superadmin'))),
+    role: v.optional(
+      v.union(
+        v.literal('admin'),
+        v.literal('organizer'),
+        v.literal('superadmin'),
+        v.literal('vendor'),
+        v.literal('sponsor')
+      )
+    ),
     status: v.optional(
       v.union(v.literal('active'), v.literal('suspended'), v.literal('pending'))
     ),
-    limit: v.optional(v.number()),
-    offset: v.optional(v.number()),
+    paginationOpts: paginationOptsValidator,
   },
   handler: async (ctx, args) => {
     await assertRole(ctx, 'admin')
 
-    let users
-
     // Filter by role if specified
-    if (args.role) {
-      users = await ctx.db
-        .query('users')
-        .withIndex('by_role', (q) => q.eq('role', args.role))
-        .collect()
-    } else {
-      users = await ctx.db.query('users').collect()
-    }
+    const usersQuery = args.role
+      ? ctx.db.query('users').withIndex('by_role', (q) => q.eq('role', args.role))
+      : ctx.db.query('users')
+
+    const result = await usersQuery
+      .order('desc')
+      .filter((q) => {
+        if (!args.status) return true
+        // Users without a status are active
+        return args.status === 'active'
+          ? q.or(q.eq(q.field('status'), 'active'), q.eq(q.field('status'), undefined))
+          : q.eq(q.field('status'), args.status)
+      })
+      .paginate(args.paginationOpts)
 
     // Deduplicate by email
-    let deduplicatedUsers = deduplicateUsers(users)
-
-    // Filter by status in memory if specified
-    if (args.status) {
-      deduplicatedUsers = deduplicatedUsers.filter(
-        (u) => (u.status || 'active') === args.status
-      )
-    }
-
-    // Sort by creation date (newest first)
-    deduplicatedUsers.sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0))
-
-    // Apply pagination
-    const limit = args.limit || 20
-    const offset = args.offset || 0
-    const paginatedUsers = deduplicatedUsers.slice(offset, offset + limit)
-    const hasMore = offset + limit < deduplicatedUsers.length
+    const keep = await Promise.all(
+      result.page.map(async (user) => {
+        if (!user.email) return false
+        const sameEmail = await ctx.db
+          .query('users')
+          .withIndex('email', (q) => q.eq('email', user.email))
+          .collect()
+        return deduplicateUsers(sameEmail)[0]?._id === user._id
+      })
+    )
 
     return {
-      items: paginatedUsers.map((user) => ({
-        _id: user._id,
-        name: user.name,
-        email: user.email,
-        role: user.role || 'organizer',
-        status: user.status || 'active',
-        createdAt: user.createdAt,
-        updatedAt: user.updatedAt,
-        suspendedAt: user.suspendedAt,
-        suspendedReason: user.suspendedReason,
-      })),
-      hasMore,
-      totalCount: deduplicatedUsers.length,
+      ...result,
+      page: result.page
+        .filter((_, i) => keep[i])
+        .map((user) => ({
+          _id: user._id,
+          name: user.name,
+          email: user.email,
+          role: user.role || 'organizer',
+          status: user.status || 'active',
+          createdAt: user.createdAt,
+          updatedAt: user.updatedAt,
+          suspendedAt: user.suspendedAt,
+          suspendedReason: user.suspendedReason,
+        })),
     }
   },
 })
@@ -203,7 +212,15 @@ export const listAllUsersPaginated = query({
  */
 export const listAllUsers = query({
   args: {
-    role: v.optional(v.union(v.literal('admin'), v.literal('organizer'), v.literal('superadmin'))),
+    role: v.optional(
+      v.union(
+        v.literal('admin'),
+        v.literal('organizer'),
+        v.literal('superadmin'),
+        v.literal('vendor'),
+        v.literal('sponsor')
+      )
+    ),
     status: v.optional(
       v.union(v.literal('active'), v.literal('suspended'), v.literal('pending'))
     ),
@@ -0,0 +1,356 @@
+import { v } from 'convex/values'
+import { query, mutation, internalMutation, internalQuery } from './_generated/server'
+import type { MutationCtx, QueryCtx } from './_generated/server'
+import type { Doc, Id } from './_generated/dataModel'
+import { assertRole, getCurrentUser, isAdminRole } from './lib/auth'
+import { getActiveMembership } from './lib/organizations'
+import {
+  BUILT_IN_PERSONAS,
+  DEFAULT_PERSONA_KEY,
+  getDefaultPersona,
+  normalizePersonaKey,
+  normalizePersonaPrompt,
+} from './lib/agent/personas'
+
+const NAME_MAX_LENGTH = 60
+const DESCRIPTION_MAX_LENGTH = 200
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Validate and normalize a persona name
+ */
+function normalizeName(name: string): string {
+  const trimmed = name.trim()
+  if (!trimmed) throw new Error('Persona name cannot be empty')
+  if (trimmed.length > NAME_MAX_LENGTH) {
+    throw new Error(`Persona name must be ${NAME_MAX_LENGTH} characters or less`)
+  }
+  return trimmed
+}
+
+/**
+ * Validate a persona description. Blank clears it.
+ */
+function normalizeDescription(description: string | undefined): string | undefined {
+  const trimmed = description?.trim()
+  if (!trimmed) return undefined
+  if (trimmed.length > DESCRIPTION_MAX_LENGTH) {
+    throw new Error(`Description must be ${DESCRIPTION_MAX_LENGTH} characters or less`)
+  }
+  return trimmed
+}
+
+/**
+ * Get one saved version of a persona's prompt
+ */
+async function getVersion(ctx: QueryCtx | MutationCtx, personaId: Id<'agentPersonas'>, version: number) {
+  return ctx.db
+    .query('agentPersonaVersions')
+    .withIndex('by_persona_version', (q) => q.eq('personaId', personaId).eq('version', version))
+    .first()
+}
+
+/**
+ * Save a new prompt version and make it the persona's current one
+ */
+async function addVersion(
+  ctx: MutationCtx,
+  persona: Doc<'agentPersonas'>,
+  prompt: string,
+  note: string | undefined,
+  userId?: Id<'users'>
+) {
+  const now = Date.now()
+  const version = persona.currentVersion + 1
+  await ctx.db.insert('agentPersonaVersions', {
+    personaId: persona._id,
+    version,
+    prompt,
+    note: note?.trim() || undefined,
+    createdBy: userId,
+    createdAt: now,
+  })
+  await ctx.db.patch(persona._id, { currentVersion: version, updatedAt: now })
+  return version
+}
+
+/**
+ * Insert a persona with its first prompt version
+ */
+async function insertPersona(
+  ctx: MutationCtx,
+  input: { key: string; name: string; description?: string; prompt: string },
+  userId?: Id<'users'>
+) {
+  const key = normalizePersonaKey(input.key)
+  const existing = await ctx.db
+    .query('agentPersonas')
+    .withIndex('by_key', (q) => q.eq('key', key))
+    .first()
+  if (existing) throw new Error(`A persona with the key "${key}" already exists`)
+
+  const now = Date.now()
+  const personaId = await ctx.db.insert('agentPersonas', {
+    key,
+    name: normalizeName(input.name),
+    description: normalizeDescription(input.description),
+    currentVersion: 1,
+    createdBy: userId,
+    createdAt: now,
+  })
+  await ctx.db.insert('agentPersonaVersions', {
+    personaId,
+    version: 1,
+    prompt: normalizePersonaPrompt(input.prompt),
+    note: 'Created',
+    createdBy: userId,
+    createdAt: now,
+  })
+  return personaId
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Personas a workspace can pick from
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return []
+
+    const personas = await ctx.db.query('agentPersonas').collect()
+    return personas
+      .filter((p) => !p.isArchived)
+      .map((p) => ({
+        _id: p._id,
+        key: p.key,
+        name: p.name,
+        description: p.description,
+        currentVersion: p.currentVersion,
+        isDefault: p.key === DEFAULT_PERSONA_KEY,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  },
+})
+
+/**
+ * All personas with their current prompt (admin only)
+ */
+export const listForAdmin = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx)
+    if (!user || !isAdminRole(user.role)) return []
+
+    const personas = await ctx.db.query('agentPersonas').collect()
+    const withPrompts = await Promise.all(
+      personas.map(async (p) => {
+        const current = await getVersion(ctx, p._id, p.currentVersion)
+        return { ...p, prompt: current?.prompt ?? '', isDefault: p.key === DEFAULT_PERSONA_KEY }
+      })
+    )
+    return withPrompts.sort((a, b) => a.name.localeCompare(b.name))
+  },
+})
+
+/**
+ * A persona's prompt history, newest first (admin only)
+ */
+export const listVersions = query({
+  args: { id: v.id('agentPersonas') },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user || !isAdminRole(user.role)) return []
+
+    return ctx.db
+      .query('agentPersonaVersions')
+      .withIndex('by_persona_version', (q) => q.eq('personaId', args.id))
+      .order('desc')
+      .collect()
+  },
+})
+
+// ============================================================================
+// Admin Mutations
+// ============================================================================
+
+/**
+ * Create a persona (admin only)
+ */
+export const create = mutation({
+  args: {
+    key: v.string(),
+    name: v.string(),
+    description: v.optional(v.string()),
+    prompt: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const admin = await assertRole(ctx, 'admin')
+    return insertPersona(ctx, args, admin._id)
+  },
+})
+
+/**
+ * Edit a persona (admin only). A changed prompt is saved as a new version;
+ * conversations already started keep the version they began with.
+ */
+export const update = mutation({
+  args: {
+    id: v.id('agentPersonas'),
+    name: v.optional(v.string()),
+    description: v.optional(v.string()),
+    prompt: v.optional(v.string()),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const admin = await assertRole(ctx, 'admin')
+
+    const persona = await ctx.db.get(args.id)
+    if (!persona) throw new Error('Persona not found')
+
+    const updates: Partial<Doc<'agentPersonas'>> = {}
+    if (args.name !== undefined) updates.name = normalizeName(args.name)
+    if (args.description !== undefined) updates.description = normalizeDescription(args.description)
+    if (Object.keys(updates).length > 0) {
+      await ctx.db.patch(args.id, { ...updates, updatedAt: Date.now() })
+    }
+
+    let version = persona.currentVersion
+    if (args.prompt !== undefined) {
+      const prompt = normalizePersonaPrompt(args.prompt)
+      const current = await getVersion(ctx, persona._id, persona.currentVersion)
+      if (prompt !== current?.prompt) {
+        version = await addVersion(ctx, persona, prompt, args.note, admin._id)
+      }
+    }
+
+    return { success: true, version }
+  },
+})
+
+/**
+ * Bring back an earlier prompt as a new version (admin only)
+ */
+export const restoreVersion = mutation({
+  args: {
+    id: v.id('agentPersonas'),
+    version: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const admin = await assertRole(ctx, 'admin')
+
+    const persona = await ctx.db.get(args.id)
+    if (!persona) throw new Error('Persona not found')
+
+    const previous = await getVersion(ctx, args.id, args.version)
+    if (!previous) throw new Error('Version not found')
+    if (args.version === persona.currentVersion) {
+      throw new Error('This is already the current version')
+    }
+
+    const version = await addVersion(ctx, persona, previous.prompt, `Restored version ${args.version}`, admin._id)
+    return { success: true, version }
+  },
+})
+
+/**
+ * Archive or unarchive a persona (admin only). Workspaces using an archived
+ * persona fall back to the default one.
+ */
+export const setArchived = mutation({
+  args: {
+    id: v.id('agentPersonas'),
+    archived: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    await assertRole(ctx, 'admin')
+
+    const persona = await ctx.db.get(args.id)
+    if (!persona) throw new Error('Persona not found')
+
+    await ctx.db.patch(args.id, { isArchived: args.archived || undefined, updatedAt: Date.now() })
+    return { success: true }
+  },
+})
+
+/**
+ * Load the built-in personas that aren't in the database yet:
+ *   npx convex run agentPersonas:seed
+ */
+export const seed = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    let imported = 0
+    for (const persona of BUILT_IN_PERSONAS) {
+      const existing = await ctx.db
+        .query('agentPersonas')
+        .withIndex('by_key', (q) => q.eq('key', persona.key))
+        .first()
+      if (existing) continue
+
+      await insertPersona(ctx, persona)
+      imported++
+    }
+
+    return { imported }
+  },
+})
+
+// ============================================================================
+// Internal Queries
+// ============================================================================
+
+/**
+ * Pick the persona prompt for a chat request. A resumed conversation keeps
+ * the version it started with; a new one uses the active workspace's
+ * persona (or the default) at its current version. The workspace's own
+ * instructions always apply.
+ */
+export const resolveForChat = internalQuery({
+  args: {
+    userId: v.id('users'),
+    conversationId: v.optional(v.id('conversations')),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId)
+    const membership = user ? await getActiveMembership(ctx, user) : null
+    const organization = membership ? await ctx.db.get(membership.organizationId) : null
+    const instructions = organization?.agentInstructions
+
+    const conversation = args.conversationId ? await ctx.db.get(args.conversationId) : null
+    if (conversation?.personaId && conversation.personaVersion !== undefined) {
+      const recorded = await getVersion(ctx, conversation.personaId, conversation.personaVersion)
+      if (recorded) {
+        return {
+          personaId: conversation.personaId,
+          personaVersion: recorded.version,
+          prompt: recorded.prompt,
+          instructions,
+        }
+      }
+    }
+
+    let persona = organization?.agentPersonaId ? await ctx.db.get(organization.agentPersonaId) : null
+    if (!persona || persona.isArchived) {
+      persona = await ctx.db
+        .query('agentPersonas')
+        .withIndex('by_key', (q) => q.eq('key', DEFAULT_PERSONA_KEY))
+        .first()
+      if (persona?.isArchived) persona = null
+    }
+
+    const current = persona ? await getVersion(ctx, persona._id, persona.currentVersion) : null
+    if (!persona || !current) {
+      return { personaId: undefined, personaVersion: undefined, prompt: getDefaultPersona().prompt, instructions }
+    }
+
+    return { personaId: persona._id, personaVersion: current.version, prompt: current.prompt, instructions }
+  },
+})
@@ -1,6 +1,9 @@
 import { v } from 'convex/values'
 import { query } from './_generated/server'
+import type { Doc } from './_generated/dataModel'
 import { getCurrentUser, isAdminRole } from './lib/auth'
+import { canAccessEvent } from './lib/organizations'
+import { MAX_SEARCH_RESULTS, normalizeSearchQuery } from './lib/search'
 
 /**
  * AI Tools for Vendor & Sponsor Management
@@ -51,15 +54,32 @@ export const searchVendors = query({
     const user = await getCurrentUser(ctx)
     if (!user) return { vendors: [], total: 0 }
 
-    // Start with all vendors
-    let vendors = await ctx.db.query('vendors').collect()
-
     // Filter by status (default to approved for non-admins)
-    if (args.status) {
-      vendors = vendors.filter(v => v.status === args.status)
-    } else if (!isAdminRole(user.role)) {
-      vendors = vendors.filter(v => v.status === 'approved')
-    }
+    const status = (args.status ?? (isAdminRole(user.role) ? undefined : 'approved')) as
+      | Doc<'vendors'>['status']
+      | undefined
+    const searchQuery = normalizeSearchQuery(args.searchQuery)
+
+    // A search query (name, description, category, services) uses the search index,
+    // ranked by relevance with the exact-match filters applied inside the index
+    let vendors = searchQuery
+      ? await ctx.db
+          .query('vendors')
+          .withSearchIndex('search_text', (q) => {
+            let query = q.search('searchText', searchQuery)
+            if (status) query = query.eq('status', status)
+            if (args.category) query = query.eq('category', args.category.toLowerCase())
+            if (args.priceRange) query = query.eq('priceRange', args.priceRange)
+            if (args.verified !== undefined) query = query.eq('verified', args.verified)
+            return query
+          })
+          .take(MAX_SEARCH_RESULTS)
+      : status
+        ? await ctx.db
+            .query('vendors')
+            .withIndex('by_status', (q) => q.eq('status', status))
+            .collect()
+        : await ctx.db.query('vendors').collect()
 
     // Filter by category
     if (args.category) {
@@ -95,16 +115,6 @@ export const searchVendors = query({
       vendors = vendors.filter(v => v.verified === args.verified)
     }
 
-    // Search by query (name, description, services)
-    if (args.searchQuery) {
-      const queryLower = args.searchQuery.toLowerCase()
-      vendors = vendors.filter(v =>
-        v.name.toLowerCase().includes(queryLower) ||
-        v.description?.toLowerCase().includes(queryLower) ||
-        v.services?.some(s => s.toLowerCase().includes(queryLower))
-      )
-    }
-
     // Filter by services offered
     if (args.services && args.services.length > 0) {
       const servicesLower = args.services.map(s => s.toLowerCase())
@@ -309,14 +319,31 @@ export const searchSponsors = query({
     const user = await getCurrentUser(ctx)
     if (!user) return { sponsors: [], total: 0 }
 
-    let sponsors = await ctx.db.query('sponsors').collect()
-
-    // Filter by status
-    if (args.status) {
-      sponsors = sponsors.filter(s => s.status === args.status)
-    } else if (!isAdminRole(user.role)) {
-      sponsors = sponsors.filter(s => s.status === 'approved')
-    }
+    // Filter by status (default to approved for non-admins)
+    const status = (args.status ?? (isAdminRole(user.role) ? undefined : 'approved')) as
+      | Doc<'sponsors'>['status']
+      | undefined
+    const searchQuery = normalizeSearchQuery(args.searchQuery)
+
+    // A search query (name, description, industry) uses the search index,
+    // ranked by relevance with the exact-match filters applied inside the index
+    let sponsors = searchQuery
+      ? await ctx.db
+          .query('sponsors')
+          .withSearchIndex('search_text', (q) => {
+            let query = q.search('searchText', searchQuery)
+            if (status) query = query.eq('status', status)
+            if (args.industry) query = query.eq('industry', args.industry.toLowerCase())
+            if (args.verified !== undefined) query = query.eq('verified', args.verified)
+            return query
+          })
+          .take(MAX_SEARCH_RESULTS)
+      : status
+        ? await ctx.db
+            .query('sponsors')
+            .withIndex('by_status', (q) => q.eq('status', status))
+            .collect()
+        : await ctx.db.query('sponsors').collect()
 
     // Filter by industry
     if (args.industry) {
@@ -375,16 +402,6 @@ export const searchSponsors = query({
       )
     }
 
-    // Search query
-    if (args.searchQuery) {
-      const queryLower = args.searchQuery.toLowerCase()
-      sponsors = sponsors.filter(s =>
-        s.name.toLowerCase().includes(queryLower) ||
-        s.description?.toLowerCase().includes(queryLower) ||
-        s.industry.toLowerCase().includes(queryLower)
-      )
-    }
-
     // Exclusivity filter
     if (args.requiresExclusivity !== undefined) {
       sponsors = sponsors.filter(s =>
@@ -527,7 +544,7 @@ export const matchVendorsToEvent = query({
     if (!event) return { matches: [], event: null }
 
     // Check access
-    if (event.organizerId !== user._id && !isAdminRole(user.role)) {
+    if (!(await canAccessEvent(ctx, event, user._id, 'viewer')) && !isAdminRole(user.role)) {
       return { matches: [], event: null }
     }
 
@@ -667,7 +684,7 @@ export const matchSponsorsToEvent = query({
     if (!event) return { matches: [], event: null }
 
     // Check access
-    if (event.organizerId !== user._id && !isAdminRole(user.role)) {
+    if (!(await canAccessEvent(ctx, event, user._id, 'viewer')) && !isAdminRole(user.role)) {
       return { matches: [], event: null }
     }
 
@@ -855,7 +872,7 @@ export const getEventContext = query({
     if (!event) return null
 
     // Check access
-    if (event.organizerId !== user._id && !isAdminRole(user.role)) {
+    if (!(await canAccessEvent(ctx, event, user._id, 'viewer')) && !isAdminRole(user.role)) {
       return null
     }
 
@@ -1,6 +1,7 @@
 import { v } from 'convex/values'
-import { query, mutation, internalMutation } from './_generated/server'
+import { query, mutation, internalMutation, internalQuery } from './_generated/server'
 import { getCurrentUser, isAdminRole } from './lib/auth'
+import { getActiveMembership } from './lib/organizations'
 import type { Id } from './_generated/dataModel'
 
 // ============================================================================
@@ -19,6 +20,9 @@ export const RATE_LIMIT_CONFIG = {
   CRITICAL_THRESHOLD: 0.9, // 90% - show red warning
 } as const
 
+// Providers an admin can pin a user or organization to
+const providerValidator = v.union(v.literal('openai'), v.literal('anthropic'), v.literal('groq'))
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -26,7 +30,7 @@ export const RATE_LIMIT_CONFIG = {
 /**
  * Get today's date string in YYYY-MM-DD format (UTC)
  */
-function getTodayDateString(): string {
+export function getTodayDateString(): string {
   return new Date().toISOString().split('T')[0]
 }
 
@@ -499,6 +503,11 @@ export const getAllUsageStats = query({
           status: getUsageStatus(todayCount, dailyLimit),
           lastUsedAt: usage.updatedAt,
           lastResetDate: usage.lastResetDate,
+          pinnedProvider: usage.pinnedProvider,
+          pinnedModel: usage.pinnedModel,
+          lastProvider: usage.lastProvider,
+          lastModel: usage.lastModel,
+          failoverCount: usage.failoverCount ?? 0,
         }
       })
     )
@@ -628,6 +637,12 @@ export const getUserUsage = query({
         hasCustomLimit: usage.dailyLimit !== undefined,
         lastUsedAt: usage.updatedAt,
         createdAt: usage.createdAt,
+        pinnedProvider: usage.pinnedProvider,
+        pinnedModel: usage.pinnedModel,
+        lastProvider: usage.lastProvider,
+        lastModel: usage.lastModel,
+        providerCounts: usage.providerCounts ?? {},
+        failoverCount: usage.failoverCount ?? 0,
       },
     }
   },
@@ -823,3 +838,297 @@ export const removeCustomLimit = mutation({
     }
   },
 })
+
+// ============================================================================
+// Provider Selection - Pins & Usage Recording
+// ============================================================================
+
+/**
+ * Internal: Resolve the pinned provider for a user (user pin wins over the pin
+ * on their active workspace)
+ */
+export const getProviderPreference = internalQuery({
+  args: {
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    const usage = await ctx.db
+      .query('aiUsage')
+      .withIndex('by_user', (q) => q.eq('userId', args.userId))
+      .first()
+
+    if (usage?.pinnedProvider) {
+      return {
+        provider: usage.pinnedProvider,
+        model: usage.pinnedModel,
+        source: 'user' as const,
+      }
+    }
+
+    const user = await ctx.db.get(args.userId)
+    const membership = user ? await getActiveMembership(ctx, user) : null
+
+    if (membership) {
+      const pin = await ctx.db
+        .query('aiProviderPins')
+        .withIndex('by_organization', (q) => q.eq('organizationId', membership.organizationId))
+        .first()
+
+      if (pin) {
+        return {
+          provider: pin.provider,
+          model: pin.model,
+          source: 'organization' as const,
+        }
+      }
+    }
+
+    return null
+  },
+})
+
+/**
+ * Internal: Record which provider/model served a chat request
+ */
+export const recordProviderUsage = internalMutation({
+  args: {
+    userId: v.id('users'),
+    provider: v.string(),
+    model: v.string(),
+    failovers: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now()
+
+    const usage = await ctx.db
+      .query('aiUsage')
+      .withIndex('by_user', (q) => q.eq('userId', args.userId))
+      .first()
+
+    if (!usage) {
+      // Admins aren't rate limited, so they may not have a usage record yet
+      await ctx.db.insert('aiUsage', {
+        userId: args.userId,
+        promptCount: 0,
+        lastResetDate: getTodayDateString(),
+        totalPrompts: 0,
+        lastProvider: args.provider,
+        lastModel: args.model,
+        providerCounts: { [args.provider]: 1 },
+        failoverCount: args.failovers ?? 0,
+        createdAt: now,
+        updatedAt: now,
+      })
+      return
+    }
+
+    const providerCounts = { ...(usage.providerCounts ?? {}) }
+    providerCounts[args.provider] = (providerCounts[args.provider] ?? 0) + 1
+
+    await ctx.db.patch(usage._id, {
+      lastProvider: args.provider,
+      lastModel: args.model,
+      providerCounts,
+      failoverCount: (usage.failoverCount ?? 0) + (args.failovers ?? 0),
+    })
+  },
+})
+
+/**
+ * Admin: Pin a user to a provider (and optionally a model)
+ */
+export const setUserProvider = mutation({
+  args: {
+    userId: v.id('users'),
+    provider: providerValidator,
+    model: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const admin = await getCurrentUser(ctx)
+    if (!admin || !isAdminRole(admin.role)) {
+      throw new Error('Unauthorized: Admin access required')
+    }
+
+    const user = await ctx.db.get(args.userId)
+    if (!user) {
+      throw new Error('User not found')
+    }
+
+    const model = args.model?.trim() || undefined
+    if (model && model.length > 100) {
+      throw new Error('Model name must be 100 characters or less')
+    }
+
+    const usage = await ctx.db
+      .query('aiUsage')
+      .withIndex('by_user', (q) => q.eq('userId', args.userId))
+      .first()
+
+    const now = Date.now()
+
+    if (!usage) {
+      await ctx.db.insert('aiUsage', {
+        userId: args.userId,
+        promptCount: 0,
+        lastResetDate: getTodayDateString(),
+        totalPrompts: 0,
+        pinnedProvider: args.provider,
+        pinnedModel: model,
+        pinnedBy: admin._id,
+        createdAt: now,
+        updatedAt: now,
+      })
+    } else {
+      await ctx.db.patch(usage._id, {
+        pinnedProvider: args.provider,
+        pinnedModel: model,
+        pinnedBy: admin._id,
+        updatedAt: now,
+      })
+    }
+
+    return {
+      success: true,
+      userId: args.userId,
+      provider: args.provider,
+      model,
+    }
+  },
+})
+
+/**
+ * Admin: Remove a user's provider pin
+ */
+export const clearUserProvider = mutation({
+  args: {
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    const admin = await getCurrentUser(ctx)
+    if (!admin || !isAdminRole(admin.role)) {
+      throw new Error('Unauthorized: Admin access required')
+    }
+
+    const usage = await ctx.db
+      .query('aiUsage')
+      .withIndex('by_user', (q) => q.eq('userId', args.userId))
+      .first()
+
+    if (!usage?.pinnedProvider) {
+      return {
+        success: true,
+        message: 'No provider pin found',
+      }
+    }
+
+    await ctx.db.patch(usage._id, {
+      pinnedProvider: undefined,
+      pinnedModel: undefined,
+      pinnedBy: undefined,
+      updatedAt: Date.now(),
+    })
+
+    return {
+      success: true,
+      userId: args.userId,
+    }
+  },
+})
+
+/**
+ * Admin: List organization provider pins
+ */
+export const listOrganizationProviders = query({
+  args: {},
+  handler: async (ctx) => {
+    const admin = await getCurrentUser(ctx)
+    if (!admin || !isAdminRole(admin.role)) {
+      throw new Error('Unauthorized: Admin access required')
+    }
+
+    const pins = await ctx.db.query('aiProviderPins').collect()
+    return await Promise.all(
+      pins.map(async (pin) => {
+        const organization = await ctx.db.get(pin.organizationId)
+        return { ...pin, organizationName: organization?.name ?? 'Deleted workspace' }
+      })
+    )
+  },
+})
+
+/**
+ * Admin: Pin an organization to a provider (and optionally a model)
+ */
+export const setOrganizationProvider = mutation({
+  args: {
+    organizationId: v.id('organizations'),
+    provider: providerValidator,
+    model: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const admin = await getCurrentUser(ctx)
+    if (!admin || !isAdminRole(admin.role)) {
+      throw new Error('Unauthorized: Admin access required')
+    }
+
+    const organization = await ctx.db.get(args.organizationId)
+    if (!organization) {
+      throw new Error('Organization not found')
+    }
+
+    const model = args.model?.trim() || undefined
+    if (model && model.length > 100) {
+      throw new Error('Model name must be 100 characters or less')
+    }
+
+    const existing = await ctx.db
+      .query('aiProviderPins')
+      .withIndex('by_organization', (q) => q.eq('organizationId', args.organizationId))
+      .first()
+
+    const now = Date.now()
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        provider: args.provider,
+        model,
+        pinnedBy: admin._id,
+        updatedAt: now,
+      })
+      return { success: true, id: existing._id }
+    }
+
+    const id = await ctx.db.insert('aiProviderPins', {
+      organizationId: args.organizationId,
+      provider: args.provider,
+      model,
+      pinnedBy: admin._id,
+      createdAt: now,
+    })
+
+    return { success: true, id }
+  },
+})
+
+/**
+ * Admin: Remove an organization's provider pin
+ */
+export const clearOrganizationProvider = mutation({
+  args: {
+    id: v.id('aiProviderPins'),
+  },
+  handler: async (ctx, args) => {
+    const admin = await getCurrentUser(ctx)
+    if (!admin || !isAdminRole(admin.role)) {
+      throw new Error('Unauthorized: Admin access required')
+    }
+
+    const pin = await ctx.db.get(args.id)
+    if (!pin) {
+      throw new Error('Provider pin not found')
+    }
+
+    await ctx.db.delete(args.id)
+    return { success: true }
+  },
+})
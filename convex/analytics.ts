@@ -5,7 +5,19 @@
 
 import { v } from 'convex/values'
 import { query, internalQuery } from './_generated/server'
+import type { QueryCtx } from './_generated/server'
+import type { Doc, Id } from './_generated/dataModel'
 import { getCurrentUser } from './lib/auth'
+import {
+  convertAmount,
+  convertBudgetItems,
+  createRateResolver,
+  getEventCurrency,
+  getReportingCurrency,
+  normalizeCurrency,
+} from './lib/currency'
+import { getActiveMembership, listWorkspaceEvents } from './lib/organizations'
+import { summarizeEventProfitAndLoss } from './lib/revenue'
 
 // ============================================================================
 // Helper Functions
@@ -67,6 +79,128 @@ function groupByPeriod<T>(
   return grouped
 }
 
+/**
+ * Budget totals and per-event profit & loss for a set of events in one currency
+ * Event budgets convert at today's rate and paid items at their paid-date rate;
+ * byCurrency keeps each event's own currency.
+ */
+async function computeBudgetAnalytics(ctx: QueryCtx, events: Doc<'events'>[], currency: string) {
+  const getRate = createRateResolver(ctx)
+  const missing = new Set<string>()
+
+  let totalBudget = 0
+  let totalSpent = 0
+  let budgetItemsCount = 0
+  let eventsWithBudget = 0
+  const byCurrency: Record<string, { budget: number; spent: number; count: number }> = {}
+  const profitAndLoss = {
+    incomeCommitted: 0,
+    incomeReceived: 0,
+    costsEstimated: 0,
+    costsPaid: 0,
+    projectedProfit: 0,
+    realizedProfit: 0,
+    sponsorshipByTier: {} as Record<string, { committed: number; received: number; count: number }>,
+    events: [] as Array<{
+      eventId: Id<'events'>
+      title: string
+      status: string
+      startDate: number
+      income: { committed: number; received: number }
+      costs: { estimated: number; paid: number }
+      projectedProfit: number
+      realizedProfit: number
+      projectedMargin: number
+    }>,
+  }
+
+  for (const event of events) {
+    const eventCurrency = getEventCurrency(event)
+    const items = await ctx.db
+      .query('budgetItems')
+      .withIndex('by_event', (q) => q.eq('eventId', event._id))
+      .collect()
+    budgetItemsCount += items.length
+
+    const inEventCurrency = await convertBudgetItems(items, eventCurrency, eventCurrency, getRate)
+    const inReporting = await convertBudgetItems(items, eventCurrency, currency, getRate)
+    inEventCurrency.missingRates.forEach((pair) => missing.add(pair))
+    inReporting.missingRates.forEach((pair) => missing.add(pair))
+
+    totalSpent += inReporting.items.reduce((sum, bi) => sum + (bi.actualAmount || 0), 0)
+
+    if (event.budget && event.budget > 0) {
+      eventsWithBudget += 1
+      const budget = await convertAmount(event.budget, eventCurrency, currency, getRate)
+      if (budget === null) {
+        missing.add(`${eventCurrency}→${currency}`)
+      } else {
+        totalBudget += budget
+      }
+
+      if (!byCurrency[eventCurrency]) {
+        byCurrency[eventCurrency] = { budget: 0, spent: 0, count: 0 }
+      }
+      byCurrency[eventCurrency].budget += event.budget
+      byCurrency[eventCurrency].count += 1
+      byCurrency[eventCurrency].spent += inEventCurrency.items.reduce(
+        (sum, bi) => sum + (bi.actualAmount || 0),
+        0
+      )
+    }
+
+    const pnl = await summarizeEventProfitAndLoss(ctx, event, currency, getRate)
+    pnl.missingRates.forEach((pair) => missing.add(pair))
+    profitAndLoss.incomeCommitted += pnl.income.totalCommitted
+    profitAndLoss.incomeReceived += pnl.income.totalReceived
+    profitAndLoss.costsEstimated += pnl.costs.estimated
+    profitAndLoss.costsPaid += pnl.costs.paid
+    profitAndLoss.projectedProfit += pnl.projectedProfit
+    profitAndLoss.realizedProfit += pnl.realizedProfit
+    for (const [tier, totals] of Object.entries(pnl.income.sponsorship.byTier)) {
+      const byTier = (profitAndLoss.sponsorshipByTier[tier] ??= { committed: 0, received: 0, count: 0 })
+      byTier.committed += totals.committed
+      byTier.received += totals.received
+      byTier.count += totals.count
+    }
+    profitAndLoss.events.push({
+      eventId: event._id,
+      title: event.title,
+      status: event.status,
+      startDate: event.startDate,
+      income: { committed: pnl.income.totalCommitted, received: pnl.income.totalReceived },
+      costs: { estimated: pnl.costs.estimated, paid: pnl.costs.paid },
+      projectedProfit: pnl.projectedProfit,
+      realizedProfit: pnl.realizedProfit,
+      projectedMargin: pnl.projectedMargin,
+    })
+  }
+
+  const budgetUtilization = totalBudget > 0 ? (totalSpent / totalBudget) * 100 : 0
+
+  return {
+    currency,
+    totalBudget: Math.round(totalBudget * 100) / 100,
+    totalSpent: Math.round(totalSpent * 100) / 100,
+    budgetUtilization: Math.round(budgetUtilization * 100) / 100,
+    eventsWithBudget,
+    averageBudget: eventsWithBudget > 0 ? Math.round(totalBudget / eventsWithBudget) : 0,
+    byCurrency,
+    budgetItemsCount,
+    profitAndLoss: {
+      ...profitAndLoss,
+      incomeCommitted: Math.round(profitAndLoss.incomeCommitted * 100) / 100,
+      incomeReceived: Math.round(profitAndLoss.incomeReceived * 100) / 100,
+      costsEstimated: Math.round(profitAndLoss.costsEstimated * 100) / 100,
+      costsPaid: Math.round(profitAndLoss.costsPaid * 100) / 100,
+      projectedProfit: Math.round(profitAndLoss.projectedProfit * 100) / 100,
+      realizedProfit: Math.round(profitAndLoss.realizedProfit * 100) / 100,
+    },
+    // Currency pairs with no rate; amounts needing them are left out of the totals
+    missingRates: [...missing],
+  }
+}
+
 // ============================================================================
 // Event Analytics
 // ============================================================================
@@ -95,11 +229,8 @@ export const getEventTrends = query({
     const startDate = args.startDate || now - 365 * 24 * 60 * 60 * 1000 // Default: 1 year ago
     const endDate = args.endDate || now
 
-    // Get all events for this organizer
-    const allEvents = await ctx.db
-      .query('events')
-      .withIndex('by_organizer', (q) => q.eq('organizerId', user._id))
-      .collect()
+    // Get all events in the user's workspace
+    const allEvents = await listWorkspaceEvents(ctx, user)
 
     // Filter by date range
     const eventsInRange = allEvents.filter(
@@ -160,11 +291,8 @@ export const getEventPerformance = query({
     const startDate = args.startDate || now - 365 * 24 * 60 * 60 * 1000 // Default: 1 year ago
     const endDate = args.endDate || now
 
-    // Get all events
-    const allEvents = await ctx.db
-      .query('events')
-      .withIndex('by_organizer', (q) => q.eq('organizerId', user._id))
-      .collect()
+    // Get all events in the user's workspace
+    const allEvents = await listWorkspaceEvents(ctx, user)
 
     // Filter by date range
     const eventsInRange = allEvents.filter(
@@ -298,11 +426,8 @@ export const getComparativeAnalytics = query({
       }
     }
 
-    // Get all events
-    const allEvents = await ctx.db
-      .query('events')
-      .withIndex('by_organizer', (q) => q.eq('organizerId', user._id))
-      .collect()
+    // Get all events in the user's workspace
+    const allEvents = await listWorkspaceEvents(ctx, user)
 
     // Filter to current and previous periods
     const currentEvents = allEvents.filter(
@@ -364,6 +489,8 @@ export const getBudgetAnalytics = query({
   args: {
     startDate: v.optional(v.number()),
     endDate: v.optional(v.number()),
+    // Defaults to the active workspace's reporting currency
+    currency: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const user = await getCurrentUser(ctx)
@@ -373,64 +500,20 @@ export const getBudgetAnalytics = query({
     const startDate = args.startDate || now - 365 * 24 * 60 * 60 * 1000
     const endDate = args.endDate || now
 
-    // Get all events
-    const allEvents = await ctx.db
-      .query('events')
-      .withIndex('by_organizer', (q) => q.eq('organizerId', user._id))
-      .collect()
+    // Get all events in the user's workspace
+    const allEvents = await listWorkspaceEvents(ctx, user)
 
     // Filter by date range
     const eventsInRange = allEvents.filter(
       (e) => e.createdAt >= startDate && e.createdAt <= endDate
     )
 
-    // Get budget items if they exist
-    const eventIds = new Set(eventsInRange.map((e) => e._id))
-    const allBudgetItems = await ctx.db.query('budgetItems').collect()
-    const budgetItems = allBudgetItems.filter((bi) => eventIds.has(bi.eventId))
-
-    // Calculate budget metrics
-    const totalBudget = eventsInRange.reduce((sum, e) => sum + (e.budget || 0), 0)
-    const eventsWithBudget = eventsInRange.filter((e) => e.budget && e.budget > 0).length
-
-    // Calculate actual spending from budget items
-    const totalSpent = budgetItems.reduce((sum, bi) => sum + (bi.actualAmount || 0), 0)
-    const budgetUtilization = totalBudget > 0 ? (totalSpent / totalBudget) * 100 : 0
+    const membership = await getActiveMembership(ctx, user)
+    const currency = args.currency
+      ? normalizeCurrency(args.currency)
+      : await getReportingCurrency(ctx, membership?.organizationId)
 
-    // Group by currency
-    const byCurrency: Record<string, { budget: number; spent: number; count: number }> = {}
-    for (const event of eventsInRange) {
-      if (event.budget && event.budget > 0) {
-        const currency = event.budgetCurrency || 'USD'
-        if (!byCurrency[currency]) {
-          byCurrency[currency] = { budget: 0, spent: 0, count: 0 }
-        }
-        byCurrency[currency].budget += event.budget
-        byCurrency[currency].count += 1
-      }
-    }
-
-    // Add spent amounts by currency (assuming budget items have currency)
-    for (const item of budgetItems) {
-      // Note: budgetItems schema may need currency field - for now assume same as event
-      const event = eventsInRange.find((e) => e._id === item.eventId)
-      if (event) {
-        const currency = event.budgetCurrency || 'USD'
-        if (byCurrency[currency]) {
-          byCurrency[currency].spent += item.actualAmount || 0
-        }
-      }
-    }
-
-    return {
-      totalBudget,
-      totalSpent,
-      budgetUtilization: Math.round(budgetUtilization * 100) / 100,
-      eventsWithBudget,
-      averageBudget: eventsWithBudget > 0 ? Math.round(totalBudget / eventsWithBudget) : 0,
-      byCurrency,
-      budgetItemsCount: budgetItems.length,
-    }
+    return computeBudgetAnalytics(ctx, eventsInRange, currency)
   },
 })
 
@@ -450,11 +533,8 @@ export const getEngagementAnalytics = query({
     const startDate = args.startDate || now - 365 * 24 * 60 * 60 * 1000
     const endDate = args.endDate || now
 
-    // Get all events
-    const allEvents = await ctx.db
-      .query('events')
-      .withIndex('by_organizer', (q) => q.eq('organizerId', user._id))
-      .collect()
+    // Get all events in the user's workspace
+    const allEvents = await listWorkspaceEvents(ctx, user)
 
     // Filter by date range
     const eventsInRange = allEvents.filter(
@@ -788,6 +868,7 @@ export const getBudgetAnalyticsInternal = internalQuery({
     userId: v.id('users'),
     startDate: v.optional(v.number()),
     endDate: v.optional(v.number()),
+    currency: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const now = Date.now()
@@ -803,47 +884,13 @@ export const getBudgetAnalyticsInternal = internalQuery({
       (e) => e.createdAt >= startDate && e.createdAt <= endDate
     )
 
-    const eventIds = new Set(eventsInRange.map((e) => e._id))
-    const allBudgetItems = await ctx.db.query('budgetItems').collect()
-    const budgetItems = allBudgetItems.filter((bi) => eventIds.has(bi.eventId))
+    const user = await ctx.db.get(args.userId)
+    const membership = user ? await getActiveMembership(ctx, user) : null
+    const currency = args.currency
+      ? normalizeCurrency(args.currency)
+      : await getReportingCurrency(ctx, membership?.organizationId)
 
-    const totalBudget = eventsInRange.reduce((sum, e) => sum + (e.budget || 0), 0)
-    const eventsWithBudget = eventsInRange.filter((e) => e.budget && e.budget > 0).length
-
-    const totalSpent = budgetItems.reduce((sum, bi) => sum + (bi.actualAmount || 0), 0)
-    const budgetUtilization = totalBudget > 0 ? (totalSpent / totalBudget) * 100 : 0
-
-    const byCurrency: Record<string, { budget: number; spent: number; count: number }> = {}
-    for (const event of eventsInRange) {
-      if (event.budget && event.budget > 0) {
-        const currency = event.budgetCurrency || 'USD'
-        if (!byCurrency[currency]) {
-          byCurrency[currency] = { budget: 0, spent: 0, count: 0 }
-        }
-        byCurrency[currency].budget += event.budget
-        byCurrency[currency].count += 1
-      }
-    }
-
-    for (const item of budgetItems) {
-      const event = eventsInRange.find((e) => e._id === item.eventId)
-      if (event) {
-        const currency = event.budgetCurrency || 'USD'
-        if (byCurrency[currency]) {
-          byCurrency[currency].spent += item.actualAmount || 0
-        }
-      }
-    }
-
-    return {
-      totalBudget,
-      totalSpent,
-      budgetUtilization: Math.round(budgetUtilization * 100) / 100,
-      eventsWithBudget,
-      averageBudget: eventsWithBudget > 0 ? Math.round(totalBudget / eventsWithBudget) : 0,
-      byCurrency,
-      budgetItemsCount: budgetItems.length,
-    }
+    return computeBudgetAnalytics(ctx, eventsInRange, currency)
   },
 })
 
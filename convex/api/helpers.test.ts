@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import {
+  BUDGET_ITEM_BODY_FIELDS,
+  TASK_BODY_FIELDS,
+  cursorPaginationMeta,
+  getListPagination,
+  getPagination,
+  parseEventDate,
+  pickBodyFields,
+} from './helpers'
+
+const url = (query: string) => new URL(`https://example.convex.site/api/v1/events${query}`)
+
+describe('getListPagination', () => {
+  it('uses cursor mode when a cursor is passed, empty for the first page', () => {
+    expect(getListPagination(url('?cursor='))).toEqual({ mode: 'cursor', cursor: null, limit: 20 })
+    expect(getListPagination(url('?cursor=abc&limit=5'))).toEqual({
+      mode: 'cursor',
+      cursor: 'abc',
+      limit: 5,
+    })
+    expect(getListPagination(url('?page=3&cursor=abc')).mode).toBe('cursor')
+  })
+
+  it('uses offset mode by default', () => {
+    expect(getListPagination(url(''))).toEqual({ mode: 'offset', page: 1, limit: 20, offset: 0 })
+    expect(getListPagination(url('?limit=5')).mode).toBe('offset')
+    expect(getListPagination(url('?page=3&limit=10'))).toEqual({
+      mode: 'offset',
+      page: 3,
+      limit: 10,
+      offset: 20,
+    })
+  })
+
+  it('clamps bad limits', () => {
+    expect(getListPagination(url('?cursor=&limit=500')).limit).toBe(100)
+    expect(getListPagination(url('?cursor=&limit=abc')).limit).toBe(20)
+    expect(getPagination(url('?page=abc'))).toEqual({ page: 1, limit: 20, offset: 0 })
+  })
+})
+
+describe('cursorPaginationMeta', () => {
+  it('only returns a next cursor while there are more pages', () => {
+    expect(cursorPaginationMeta({ continueCursor: 'next', isDone: false }, 20)).toEqual({
+      limit: 20,
+      nextCursor: 'next',
+      hasMore: true,
+    })
+    expect(cursorPaginationMeta({ continueCursor: 'end', isDone: true }, 20)).toEqual({
+      limit: 20,
+      nextCursor: null,
+      hasMore: false,
+    })
+  })
+})
+
+describe('parseEventDate', () => {
+  it('accepts timestamps and local date/time strings', () => {
+    expect(parseEventDate(1741942800000)).toEqual({ timestamp: 1741942800000 })
+    expect(parseEventDate(' 2025-03-14T09:00 ')).toEqual({ local: '2025-03-14T09:00' })
+    expect(parseEventDate(undefined)).toEqual({})
+  })
+
+  it('rejects other values', () => {
+    expect(parseEventDate('')).toBeNull()
+    expect(parseEventDate(Number.NaN)).toBeNull()
+    expect(parseEventDate({ date: '2025-03-14' })).toBeNull()
+  })
+})
+
+describe('pickBodyFields', () => {
+  it('ignores IDs a client puts in the body', () => {
+    const body = JSON.parse(
+      '{"title": "Book venue", "userId": "other_user", "eventId": "other_event", "taskId": "other_task"}'
+    ) as Record<string, unknown>
+    expect(pickBodyFields(body, TASK_BODY_FIELDS)).toEqual({ title: 'Book venue' })
+  })
+
+  it('keeps the allowed budget fields that were sent', () => {
+    const body: Record<string, unknown> = { name: 'Venue', estimatedAmount: 500, itemId: 'other_item', userId: 'other_user' }
+    expect(pickBodyFields(body, BUDGET_ITEM_BODY_FIELDS)).toEqual({ name: 'Venue', estimatedAmount: 500 })
+  })
+})
@@ -8,7 +8,7 @@
 export const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, POST, PATCH, PUT, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key, Idempotency-Key',
 }
 
 // ----------------------------------------------------------------------------
@@ -120,6 +120,21 @@ export const ApiErrors = {
   notFound: (resource: string = 'Resource') =>
     apiError('NOT_FOUND', `${resource} not found`, 404),
 
+  // Idempotency
+  idempotencyKeyReused: () =>
+    apiError(
+      'IDEMPOTENCY_KEY_REUSED',
+      'This Idempotency-Key was already used with a different request',
+      422
+    ),
+
+  idempotencyKeyInUse: () =>
+    apiError(
+      'IDEMPOTENCY_KEY_IN_USE',
+      'A request with this Idempotency-Key is still being processed. Retry shortly.',
+      409
+    ),
+
   // Rate limiting
   rateLimitExceeded: (retryAfter: number) =>
     apiError(
@@ -155,6 +170,14 @@ export async function parseBody<T>(request: Request): Promise<T | null> {
   }
 }
 
+function getLimit(url: URL): number {
+  const limit = parseInt(url.searchParams.get('limit') || '20')
+  return Math.min(
+    100, // Max limit
+    Math.max(1, Number.isNaN(limit) ? 20 : limit)
+  )
+}
+
 /**
  * Extract pagination parameters from URL
  * @param url - The request URL
@@ -165,11 +188,8 @@ export function getPagination(url: URL): {
   limit: number
   offset: number
 } {
-  const page = Math.max(1, parseInt(url.searchParams.get('page') || '1'))
-  const limit = Math.min(
-    100, // Max limit
-    Math.max(1, parseInt(url.searchParams.get('limit') || '20'))
-  )
+  const page = Math.max(1, parseInt(url.searchParams.get('page') || '1') || 1)
+  const limit = getLimit(url)
   const offset = (page - 1) * limit
 
   return { page, limit, offset }
@@ -192,6 +212,42 @@ export function paginationMeta(
   }
 }
 
+export type ListPagination =
+  | { mode: 'offset'; page: number; limit: number; offset: number }
+  | { mode: 'cursor'; cursor: string | null; limit: number }
+
+/**
+ * Pick the pagination mode for a list endpoint.
+ * Passing ?cursor= opts into cursor pagination (an empty cursor asks for the
+ * first page); without it lists keep the original offset mode, so existing
+ * clients that never sent ?page= still get totals.
+ */
+export function getListPagination(url: URL): ListPagination {
+  if (!url.searchParams.has('cursor')) {
+    return { mode: 'offset', ...getPagination(url) }
+  }
+
+  return {
+    mode: 'cursor',
+    cursor: url.searchParams.get('cursor') || null,
+    limit: getLimit(url),
+  }
+}
+
+/**
+ * Create cursor pagination metadata from a paginate() result
+ */
+export function cursorPaginationMeta(
+  result: { continueCursor: string; isDone: boolean },
+  limit: number
+): Record<string, unknown> {
+  return {
+    limit,
+    nextCursor: result.isDone ? null : result.continueCursor,
+    hasMore: !result.isDone,
+  }
+}
+
 /**
  * Extract path parameter from URL
  * e.g., extractPathParam('/api/v1/events/abc123', '/api/v1/events/:id') => 'abc123'
@@ -212,6 +268,15 @@ export function extractPathParam(
   return null
 }
 
+/**
+ * Get the path segments after a route prefix
+ * e.g., getPathSegments('/api/v1/events/abc123/tasks', '/api/v1/events/') => ['abc123', 'tasks']
+ */
+export function getPathSegments(pathname: string, prefix: string): string[] {
+  if (!pathname.startsWith(prefix)) return []
+  return pathname.slice(prefix.length).split('/').filter(Boolean)
+}
+
 /**
  * Get the last path segment (useful for getting IDs from paths like /api/v1/events/:id)
  */
@@ -220,6 +285,90 @@ export function getLastPathSegment(pathname: string): string | null {
   return parts[parts.length - 1] || null
 }
 
+// ----------------------------------------------------------------------------
+// Request Bodies
+// ----------------------------------------------------------------------------
+
+// Fields an API client may set on an event, task or budget item. IDs that come
+// from the API key or the URL (userId, eventId, taskId, itemId) are never read
+// from a body. Event dates are parsed separately (see parseEventDate).
+export const EVENT_BODY_FIELDS = [
+  'title',
+  'description',
+  'eventType',
+  'status',
+  'locationType',
+  'venueName',
+  'venueAddress',
+  'virtualPlatform',
+  'expectedAttendees',
+  'budget',
+  'budgetCurrency',
+  'timezone',
+] as const
+
+export const TASK_BODY_FIELDS = [
+  'title',
+  'description',
+  'category',
+  'priority',
+  'status',
+  'dueDate',
+  'assignedTo',
+  'linkedVendorId',
+  'linkedSponsorId',
+  'linkedBudgetItemId',
+  'notes',
+] as const
+
+export const BUDGET_ITEM_BODY_FIELDS = [
+  'category',
+  'name',
+  'description',
+  'estimatedAmount',
+  'actualAmount',
+  'currency',
+  'status',
+  'vendorId',
+  'sponsorId',
+  'paidAt',
+  'paidMethod',
+  'invoiceNumber',
+  'receiptUrl',
+  'notes',
+] as const
+
+/**
+ * Copy only the listed fields from a parsed request body, dropping anything
+ * else the client sent
+ */
+export function pickBodyFields<T extends object, K extends keyof T>(
+  body: T,
+  fields: readonly K[]
+): Pick<T, K> {
+  const picked = {} as Pick<T, K>
+  for (const field of fields) {
+    if (body[field] !== undefined) picked[field] = body[field]
+  }
+  return picked
+}
+
+// ----------------------------------------------------------------------------
+// Event Dates
+// ----------------------------------------------------------------------------
+
+/**
+ * Read an event startDate/endDate from a request body: a Unix timestamp, or a
+ * local date/time string (e.g. "2025-03-14T09:00") that the mutation reads in
+ * the event's time zone. Returns null for any other type.
+ */
+export function parseEventDate(value: unknown): { timestamp?: number; local?: string } | null {
+  if (value === undefined) return {}
+  if (typeof value === 'number' && Number.isFinite(value)) return { timestamp: value }
+  if (typeof value === 'string' && value.trim()) return { local: value.trim() }
+  return null
+}
+
 // ----------------------------------------------------------------------------
 // CORS Preflight Handler
 // ----------------------------------------------------------------------------
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { ActionCtx } from '../_generated/server'
+import type { Id } from '../_generated/dataModel'
+import type { ApiKeyInfo } from './auth'
+import { hashIdempotentRequest, withIdempotency } from './idempotency'
+
+const keyInfo: ApiKeyInfo = {
+  keyId: 'key1' as Id<'apiKeys'>,
+  userId: 'user1' as Id<'users'>,
+  permissions: ['*'],
+  rateLimit: 1000,
+}
+
+function postRequest(body: string, key?: string) {
+  return new Request('https://example.convex.site/api/v1/events', {
+    method: 'POST',
+    headers: key ? { 'Idempotency-Key': key } : {},
+    body,
+  })
+}
+
+// The first mutation call is the claim; later calls (complete/release) return nothing
+function fakeCtx(claim: unknown) {
+  const runMutation = vi.fn().mockResolvedValueOnce(claim).mockResolvedValue(undefined)
+  return { ctx: { runMutation } as unknown as ActionCtx, runMutation }
+}
+
+describe('hashIdempotentRequest', () => {
+  it('changes when the body changes', async () => {
+    const a = await hashIdempotentRequest('POST', '/api/v1/events', '{"title":"A"}')
+    const b = await hashIdempotentRequest('POST', '/api/v1/events', '{"title":"B"}')
+    expect(a).toHaveLength(64)
+    expect(a).not.toBe(b)
+  })
+})
+
+describe('withIdempotency', () => {
+  it('runs the handler directly without a key', async () => {
+    const { ctx, runMutation } = fakeCtx(undefined)
+    const handler = vi.fn(async () => new Response('{}', { status: 201 }))
+
+    const response = await withIdempotency(ctx, postRequest('{}'), keyInfo, handler)
+
+    expect(response.status).toBe(201)
+    expect(handler).toHaveBeenCalledOnce()
+    expect(runMutation).not.toHaveBeenCalled()
+  })
+
+  it('stores the response of a claimed request', async () => {
+    const { ctx, runMutation } = fakeCtx({ status: 'claimed', claimId: 'claim1' })
+    const handler = async () => new Response('{"success":true}', { status: 201 })
+
+    const response = await withIdempotency(ctx, postRequest('{}', 'abc'), keyInfo, handler)
+
+    expect(response.status).toBe(201)
+    expect(runMutation).toHaveBeenLastCalledWith(expect.anything(), {
+      claimId: 'claim1',
+      responseStatus: 201,
+      responseBody: '{"success":true}',
+    })
+  })
+
+  it('replays a stored response without running the handler', async () => {
+    const { ctx } = fakeCtx({ status: 'replay', responseStatus: 201, responseBody: '{"stored":true}' })
+    const handler = vi.fn()
+
+    const response = await withIdempotency(ctx, postRequest('{}', 'abc'), keyInfo, handler)
+
+    expect(handler).not.toHaveBeenCalled()
+    expect(response.status).toBe(201)
+    expect(response.headers.get('Idempotent-Replayed')).toBe('true')
+    expect(await response.text()).toBe('{"stored":true}')
+  })
+
+  it('rejects a reused key with a different body', async () => {
+    const { ctx } = fakeCtx({ status: 'mismatch' })
+
+    const response = await withIdempotency(ctx, postRequest('{}', 'abc'), keyInfo, vi.fn())
+
+    expect(response.status).toBe(422)
+    expect((await response.json()).error.code).toBe('IDEMPOTENCY_KEY_REUSED')
+  })
+
+  it('releases the key when the request fails server-side', async () => {
+    const { ctx, runMutation } = fakeCtx({ status: 'claimed', claimId: 'claim1' })
+    const handler = async () => new Response('{}', { status: 500 })
+
+    await withIdempotency(ctx, postRequest('{}', 'abc'), keyInfo, handler)
+
+    expect(runMutation).toHaveBeenLastCalledWith(expect.anything(), { claimId: 'claim1' })
+  })
+})
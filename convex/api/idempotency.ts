@@ -0,0 +1,104 @@
+// ============================================================================
+// API Idempotency Middleware
+// ============================================================================
+// Lets clients retry a write safely by sending an Idempotency-Key header.
+// The first request runs and its response is stored for 24 hours; a retry
+// with the same key and body gets that response back without running again.
+
+import type { ActionCtx } from '../_generated/server'
+import { internal } from '../_generated/api'
+import type { ApiKeyInfo } from './auth'
+import { ApiErrors, corsHeaders } from './helpers'
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key'
+
+// Set on responses that were replayed from a stored result
+export const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed'
+
+const MAX_KEY_LENGTH = 255
+
+// ----------------------------------------------------------------------------
+// Request Fingerprint
+// ----------------------------------------------------------------------------
+
+/**
+ * Hash the parts of a request that must match for a stored response to be replayed
+ */
+export async function hashIdempotentRequest(method: string, path: string, body: string): Promise<string> {
+  const data = new TextEncoder().encode(`${method}\n${path}\n${body}`)
+  const hashBuffer = await crypto.subtle.digest('SHA-256', data)
+  const hashArray = Array.from(new Uint8Array(hashBuffer))
+  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+// ----------------------------------------------------------------------------
+// Middleware
+// ----------------------------------------------------------------------------
+
+/**
+ * Run a write handler at most once per Idempotency-Key
+ * Requests without the header run as usual. Server errors (5xx) are not
+ * stored, so the client can retry them with the same key.
+ */
+export async function withIdempotency(
+  ctx: ActionCtx,
+  request: Request,
+  keyInfo: ApiKeyInfo,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const key = request.headers.get(IDEMPOTENCY_HEADER)?.trim()
+  if (!key) {
+    return handler()
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return ApiErrors.badRequest(`${IDEMPOTENCY_HEADER} must be at most ${MAX_KEY_LENGTH} characters`)
+  }
+
+  // Read a copy so the handler can still parse the body
+  const url = new URL(request.url)
+  const body = await request.clone().text()
+  const requestHash = await hashIdempotentRequest(request.method, url.pathname, body)
+
+  const claim = await ctx.runMutation(internal.idempotencyKeys.claim, {
+    apiKeyId: keyInfo.keyId,
+    key,
+    requestHash,
+  })
+
+  switch (claim.status) {
+    case 'mismatch':
+      return ApiErrors.idempotencyKeyReused()
+    case 'in_progress':
+      return ApiErrors.idempotencyKeyInUse()
+    case 'replay':
+      return new Response(claim.responseBody, {
+        status: claim.responseStatus,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+          [IDEMPOTENT_REPLAY_HEADER]: 'true',
+        },
+      })
+  }
+
+  let response: Response
+  try {
+    response = await handler()
+  } catch (error) {
+    await ctx.runMutation(internal.idempotencyKeys.release, { claimId: claim.claimId })
+    throw error
+  }
+
+  if (response.status >= 500) {
+    await ctx.runMutation(internal.idempotencyKeys.release, { claimId: claim.claimId })
+  } else {
+    await ctx.runMutation(internal.idempotencyKeys.complete, {
+      claimId: claim.claimId,
+      responseStatus: response.status,
+      responseBody: await response.clone().text(),
+    })
+  }
+
+  return response
+}
@@ -5,7 +5,15 @@
 // They accept a userId parameter instead of relying on Convex Auth session.
 
 import { v } from 'convex/values'
+import { paginationOptsValidator } from 'convex/server'
 import { internalMutation, internalQuery } from '../_generated/server'
+import { internal } from '../_generated/api'
+import { relockPaidExchangeRates } from '../lib/currency'
+import { deleteInquiry } from '../lib/inquiryThreads'
+import { canAccessEvent } from '../lib/organizations'
+import { eventSearchText } from '../lib/search'
+import { resolveEventDates } from '../lib/timezones'
+import { WEBHOOK_EVENTS } from '../webhooks'
 
 // Valid event status transitions (state machine)
 const VALID_STATUS_TRANSITIONS: Record<string, string[]> = {
@@ -34,7 +42,9 @@ export const createEvent = internalMutation({
   args: {
     userId: v.id('users'),
     title: v.string(),
-    startDate: v.number(),
+    startDate: v.optional(v.number()),
+    // Or a local date/time in the event's time zone, e.g. 2025-03-14T09:00
+    startLocal: v.optional(v.string()),
     description: v.optional(v.string()),
     eventType: v.optional(v.string()),
     status: v.optional(v.string()),
@@ -46,6 +56,7 @@ export const createEvent = internalMutation({
     budget: v.optional(v.number()),
     budgetCurrency: v.optional(v.string()),
     endDate: v.optional(v.number()),
+    endLocal: v.optional(v.string()),
     timezone: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
@@ -60,6 +71,11 @@ export const createEvent = internalMutation({
       throw new Error('Account suspended. Cannot create events.')
     }
 
+    const { startDate, endDate, timezone } = await resolveEventDates(ctx, args.userId, args)
+    if (startDate === undefined) {
+      throw new Error('startDate is required')
+    }
+
     // Input validation - string length limits
     if (args.title.length > 200) {
       throw new Error('Event title must be 200 characters or less')
@@ -87,12 +103,12 @@ export const createEvent = internalMutation({
 
     // Validate date is not too far in the past
     const oneYearAgo = Date.now() - (365 * 24 * 60 * 60 * 1000)
-    if (args.startDate < oneYearAgo) {
+    if (startDate < oneYearAgo) {
       throw new Error('Event date cannot be more than one year in the past')
     }
 
     // Validate end date is after start date if provided
-    if (args.endDate && args.endDate < args.startDate) {
+    if (endDate && endDate < startDate) {
       throw new Error('End date must be after start date')
     }
 
@@ -102,10 +118,10 @@ export const createEvent = internalMutation({
       throw new Error(`Invalid status. Must be one of: ${validStatuses.join(', ')}`)
     }
 
-    return await ctx.db.insert('events', {
+    const eventId = await ctx.db.insert('events', {
       organizerId: args.userId,
       title: args.title.trim(),
-      startDate: args.startDate,
+      startDate,
       description: args.description?.trim(),
       eventType: args.eventType,
       status: args.status ?? 'draft',
@@ -116,10 +132,25 @@ export const createEvent = internalMutation({
       expectedAttendees: args.expectedAttendees,
       budget: args.budget,
       budgetCurrency: args.budgetCurrency,
-      endDate: args.endDate,
-      timezone: args.timezone,
+      endDate,
+      timezone,
+      searchText: eventSearchText({
+        title: args.title.trim(),
+        description: args.description?.trim(),
+        eventType: args.eventType,
+        venueName: args.venueName?.trim(),
+      }),
       createdAt: Date.now(),
     })
+
+    await ctx.scheduler.runAfter(0, internal.webhooks.triggerWebhooks, {
+      userId: args.userId,
+      eventType: WEBHOOK_EVENTS.EVENT_CREATED,
+      eventId,
+      data: { id: eventId, title: args.title.trim(), startDate, status: args.status ?? 'draft' },
+    })
+
+    return eventId
   },
 })
 
@@ -132,6 +163,7 @@ export const updateEvent = internalMutation({
     eventId: v.id('events'),
     title: v.optional(v.string()),
     startDate: v.optional(v.number()),
+    startLocal: v.optional(v.string()),
     description: v.optional(v.string()),
     eventType: v.optional(v.string()),
     status: v.optional(v.string()),
@@ -143,6 +175,7 @@ export const updateEvent = internalMutation({
     budget: v.optional(v.number()),
     budgetCurrency: v.optional(v.string()),
     endDate: v.optional(v.number()),
+    endLocal: v.optional(v.string()),
     timezone: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
@@ -163,9 +196,9 @@ export const updateEvent = internalMutation({
       throw new Error('Event not found')
     }
 
-    // Authorization: Only owner or superadmin can update
-    if (user.role !== 'superadmin' && event.organizerId !== args.userId) {
-      throw new Error('Access denied - you can only update your own events')
+    // Authorization: Only event editors or superadmin can update
+    if (user.role !== 'superadmin' && !(await canAccessEvent(ctx, event, args.userId, 'editor'))) {
+      throw new Error('Access denied - you can only update events you can edit')
     }
 
     // Input validation - string length limits
@@ -195,9 +228,11 @@ export const updateEvent = internalMutation({
       throw new Error('Expected attendees cannot be negative')
     }
 
+    const dates = await resolveEventDates(ctx, args.userId, args, event.timezone)
+
     // Validate date order if both provided
-    const startDate = args.startDate ?? event.startDate
-    const endDate = args.endDate ?? event.endDate
+    const startDate = dates.startDate ?? event.startDate
+    const endDate = dates.endDate ?? event.endDate
     if (startDate && endDate && startDate > endDate) {
       throw new Error('Start date must be before end date')
     }
@@ -213,20 +248,32 @@ export const updateEvent = internalMutation({
     }
 
     // Build update object (exclude userId and eventId)
-    const { userId: _userId, eventId: _eventId, ...updates } = args
+    const { userId: _userId, eventId: _eventId, startLocal, endLocal, ...updates } = args
     void _userId // Intentionally unused - excluded from updates
     void _eventId // Intentionally unused - excluded from updates
-    
+    // Keep the time zone local dates were read in
+    const usedLocal = startLocal !== undefined || endLocal !== undefined
+
     // Filter out undefined values
     const cleanUpdates = Object.fromEntries(
-      Object.entries(updates).filter(([, v]) => v !== undefined)
+      Object.entries({
+        ...updates,
+        startDate: dates.startDate,
+        endDate: dates.endDate,
+        timezone: args.timezone !== undefined || usedLocal ? dates.timezone : undefined,
+      }).filter(([, v]) => v !== undefined)
     )
 
     await ctx.db.patch(args.eventId, {
       ...cleanUpdates,
+      searchText: eventSearchText({ ...event, ...cleanUpdates }),
       updatedAt: Date.now(),
     })
 
+    if (args.budgetCurrency !== undefined && args.budgetCurrency !== event.budgetCurrency) {
+      await relockPaidExchangeRates(ctx, args.eventId)
+    }
+
     return { success: true }
   },
 })
@@ -257,8 +304,8 @@ export const deleteEvent = internalMutation({
       throw new Error('Event not found')
     }
 
-    // Authorization: Only owner or superadmin can delete
-    if (user.role !== 'superadmin' && event.organizerId !== args.userId) {
+    // Authorization: Only event owners or superadmin can delete
+    if (user.role !== 'superadmin' && !(await canAccessEvent(ctx, event, args.userId, 'owner'))) {
       throw new Error('Access denied - you can only delete your own events')
     }
 
@@ -308,6 +355,24 @@ export const deleteEvent = internalMutation({
       await ctx.db.delete(item._id)
     }
 
+    // CASCADE DELETE: invoices
+    const invoices = await ctx.db
+      .query('invoices')
+      .withIndex('by_event', (q) => q.eq('eventId', args.eventId))
+      .collect()
+    for (const invoice of invoices) {
+      await ctx.db.delete(invoice._id)
+    }
+
+    // CASCADE DELETE: revenueItems
+    const revenueItems = await ctx.db
+      .query('revenueItems')
+      .withIndex('by_event', (q) => q.eq('eventId', args.eventId))
+      .collect()
+    for (const item of revenueItems) {
+      await ctx.db.delete(item._id)
+    }
+
     // CASCADE DELETE: eventTasks
     const eventTasks = await ctx.db
       .query('eventTasks')
@@ -326,13 +391,13 @@ export const deleteEvent = internalMutation({
       await ctx.db.delete(app._id)
     }
 
-    // CASCADE DELETE: inquiries related to this event
+    // CASCADE DELETE: inquiries related to this event, with their threads
     const inquiries = await ctx.db
       .query('inquiries')
       .withIndex('by_event', (q) => q.eq('eventId', args.eventId))
       .collect()
     for (const inquiry of inquiries) {
-      await ctx.db.delete(inquiry._id)
+      await deleteInquiry(ctx, inquiry._id)
     }
 
     // Delete the event
@@ -370,6 +435,27 @@ export const getEventsByUser = internalQuery({
   },
 })
 
+/**
+ * Get one page of a user's events via API (newest first)
+ */
+export const getEventsByUserPaginated = internalQuery({
+  args: {
+    userId: v.id('users'),
+    status: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const status = args.status && args.status !== 'all' ? args.status : undefined
+    const eventsQuery = ctx.db
+      .query('events')
+      .withIndex('by_organizer', (q) => q.eq('organizerId', args.userId))
+      .order('desc')
+
+    return (status ? eventsQuery.filter((q) => q.eq(q.field('status'), status)) : eventsQuery)
+      .paginate(args.paginationOpts)
+  },
+})
+
 /**
  * Get a single event with ownership check
  */
@@ -391,8 +477,8 @@ export const getEventById = internalQuery({
       return event
     }
 
-    // Draft/cancelled events require ownership or superadmin
-    if (user.role !== 'superadmin' && event.organizerId !== args.userId) {
+    // Draft/cancelled events require access to the event or superadmin
+    if (user.role !== 'superadmin' && !(await canAccessEvent(ctx, event, args.userId, 'viewer'))) {
       return null // Access denied - return null instead of throwing
     }
 
@@ -0,0 +1,650 @@
+// ============================================================================
+// Internal API Functions - Event Tasks & Budget
+// ============================================================================
+// Called from the /api/v1/events/:id/tasks and /api/v1/events/:id/budget
+// HTTP actions. Like api/mutations.ts they take the userId from the API key;
+// access follows the same workspace roles as the app (viewer to read, editor to write).
+
+import { v } from 'convex/values'
+import { internalMutation, internalQuery } from '../_generated/server'
+import type { QueryCtx, MutationCtx } from '../_generated/server'
+import type { Id } from '../_generated/dataModel'
+import { canAccessEvent, type OrgRole } from '../lib/organizations'
+import {
+  TASK_STATUSES,
+  TASK_PRIORITIES,
+  BUDGET_ITEM_STATUSES,
+  assignTask,
+  sortTasks,
+  summarizeTasks,
+  summarizeEventBudget,
+  taskWebhookData,
+  budgetItemWebhookData,
+  triggerPlanningWebhook,
+  type TaskStatus,
+  type TaskPriority,
+  type BudgetItemStatus,
+} from '../lib/eventPlanning'
+import { lockPaidExchangeRate, normalizeCurrency } from '../lib/currency'
+import { unlinkBudgetItemInvoices } from '../lib/invoices'
+import { WEBHOOK_EVENTS } from '../webhooks'
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Load an event the API key's user can access at the given role, or null
+ */
+async function getAccessibleEvent(
+  ctx: QueryCtx | MutationCtx,
+  userId: Id<'users'>,
+  eventId: Id<'events'>,
+  role: OrgRole
+) {
+  const user = await ctx.db.get(userId)
+  if (!user) return null
+
+  const event = await ctx.db.get(eventId)
+  if (!event || !(await canAccessEvent(ctx, event, userId, role))) return null
+
+  return event
+}
+
+/**
+ * Load an event for a write, throwing if the user can't edit it
+ */
+async function getEditableEvent(ctx: MutationCtx, userId: Id<'users'>, eventId: Id<'events'>) {
+  const user = await ctx.db.get(userId)
+  if (!user) {
+    throw new Error('User not found')
+  }
+  if (user.status === 'suspended') {
+    throw new Error('Account suspended. Cannot modify event planning.')
+  }
+
+  const event = await getAccessibleEvent(ctx, userId, eventId, 'editor')
+  if (!event) {
+    throw new Error('Event not found or access denied')
+  }
+
+  return event
+}
+
+function assertTaskStatus(status: string): TaskStatus {
+  if (!(TASK_STATUSES as readonly string[]).includes(status)) {
+    throw new Error(`Invalid status. Must be one of: ${TASK_STATUSES.join(', ')}`)
+  }
+  return status as TaskStatus
+}
+
+function assertTaskPriority(priority: string): TaskPriority {
+  if (!(TASK_PRIORITIES as readonly string[]).includes(priority)) {
+    throw new Error(`Invalid priority. Must be one of: ${TASK_PRIORITIES.join(', ')}`)
+  }
+  return priority as TaskPriority
+}
+
+function assertBudgetItemStatus(status: string): BudgetItemStatus {
+  if (!(BUDGET_ITEM_STATUSES as readonly string[]).includes(status)) {
+    throw new Error(`Invalid status. Must be one of: ${BUDGET_ITEM_STATUSES.join(', ')}`)
+  }
+  return status as BudgetItemStatus
+}
+
+function assertTaskTitle(title: string) {
+  if (title.trim().length === 0) {
+    throw new Error('Task title cannot be empty')
+  }
+  if (title.length > 200) {
+    throw new Error('Task title must be 200 characters or less')
+  }
+}
+
+function assertBudgetItemName(name: string) {
+  if (name.trim().length === 0) {
+    throw new Error('Budget item name cannot be empty')
+  }
+  if (name.length > 200) {
+    throw new Error('Budget item name must be 200 characters or less')
+  }
+}
+
+function assertAmount(amount: number | undefined, field: string) {
+  if (amount !== undefined && (!Number.isFinite(amount) || amount < 0)) {
+    throw new Error(`${field} must be a non-negative number`)
+  }
+}
+
+const taskFields = {
+  description: v.optional(v.string()),
+  category: v.optional(v.string()),
+  priority: v.optional(v.string()),
+  status: v.optional(v.string()),
+  dueDate: v.optional(v.number()),
+  assignedTo: v.optional(v.id('users')),
+  linkedVendorId: v.optional(v.id('vendors')),
+  linkedSponsorId: v.optional(v.id('sponsors')),
+  linkedBudgetItemId: v.optional(v.id('budgetItems')),
+  notes: v.optional(v.string()),
+}
+
+const budgetItemFields = {
+  description: v.optional(v.string()),
+  actualAmount: v.optional(v.number()),
+  currency: v.optional(v.string()),
+  status: v.optional(v.string()),
+  vendorId: v.optional(v.id('vendors')),
+  sponsorId: v.optional(v.id('sponsors')),
+  notes: v.optional(v.string()),
+}
+
+// ============================================================================
+// Task Queries
+// ============================================================================
+
+/**
+ * List an event's tasks in board order. Returns null if the event isn't accessible.
+ */
+export const listTasks = internalQuery({
+  args: {
+    userId: v.id('users'),
+    eventId: v.id('events'),
+    status: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const event = await getAccessibleEvent(ctx, args.userId, args.eventId, 'viewer')
+    if (!event) return null
+
+    const tasks = await ctx.db
+      .query('eventTasks')
+      .withIndex('by_event', (q) => q.eq('eventId', args.eventId))
+      .collect()
+
+    const filtered = args.status ? tasks.filter((t) => t.status === args.status) : tasks
+    return sortTasks(filtered)
+  },
+})
+
+/**
+ * Get a single task belonging to the event
+ */
+export const getTask = internalQuery({
+  args: {
+    userId: v.id('users'),
+    eventId: v.id('events'),
+    taskId: v.id('eventTasks'),
+  },
+  handler: async (ctx, args) => {
+    const event = await getAccessibleEvent(ctx, args.userId, args.eventId, 'viewer')
+    if (!event) return null
+
+    const task = await ctx.db.get(args.taskId)
+    if (!task || task.eventId !== event._id) return null
+
+    return task
+  },
+})
+
+/**
+ * Task rollup for an event (same shape as eventTasks.getSummary)
+ */
+export const getTaskSummary = internalQuery({
+  args: {
+    userId: v.id('users'),
+    eventId: v.id('events'),
+  },
+  handler: async (ctx, args) => {
+    const event = await getAccessibleEvent(ctx, args.userId, args.eventId, 'viewer')
+    if (!event) return null
+
+    const tasks = await ctx.db
+      .query('eventTasks')
+      .withIndex('by_event', (q) => q.eq('eventId', args.eventId))
+      .collect()
+
+    return summarizeTasks(tasks)
+  },
+})
+
+// ============================================================================
+// Task Mutations
+// ============================================================================
+
+/**
+ * Create a task at the end of the event's board
+ */
+export const createTask = internalMutation({
+  args: {
+    userId: v.id('users'),
+    eventId: v.id('events'),
+    title: v.string(),
+    ...taskFields,
+  },
+  handler: async (ctx, args) => {
+    const event = await getEditableEvent(ctx, args.userId, args.eventId)
+
+    assertTaskTitle(args.title)
+    const priority = args.priority !== undefined ? assertTaskPriority(args.priority) : 'medium'
+    const status = args.status !== undefined ? assertTaskStatus(args.status) : 'todo'
+
+    const existingTasks = await ctx.db
+      .query('eventTasks')
+      .withIndex('by_event', (q) => q.eq('eventId', args.eventId))
+      .collect()
+    const maxOrder = existingTasks.reduce((max, t) => Math.max(max, t.sortOrder || 0), 0)
+
+    const taskId = await ctx.db.insert('eventTasks', {
+      eventId: args.eventId,
+      title: args.title.trim(),
+      description: args.description,
+      category: args.category,
+      priority,
+      status,
+      dueDate: args.dueDate,
+      assignedTo: args.assignedTo,
+      linkedVendorId: args.linkedVendorId,
+      linkedSponsorId: args.linkedSponsorId,
+      linkedBudgetItemId: args.linkedBudgetItemId,
+      notes: args.notes,
+      completedAt: status === 'completed' ? Date.now() : undefined,
+      sortOrder: maxOrder + 1,
+      createdAt: Date.now(),
+    })
+
+    const task = await ctx.db.get(taskId)
+    if (task) {
+      if (args.assignedTo) {
+        // getEditableEvent has already loaded and checked the user
+        const user = (await ctx.db.get(args.userId))!
+        await assignTask(ctx, event, task, args.assignedTo, user)
+      }
+      await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.TASK_CREATED, taskWebhookData(task))
+    }
+
+    return taskId
+  },
+})
+
+/**
+ * Update a task. Moving it to or from completed sets or clears completedAt.
+ */
+export const updateTask = internalMutation({
+  args: {
+    userId: v.id('users'),
+    eventId: v.id('events'),
+    taskId: v.id('eventTasks'),
+    title: v.optional(v.string()),
+    ...taskFields,
+  },
+  handler: async (ctx, args) => {
+    const event = await getEditableEvent(ctx, args.userId, args.eventId)
+
+    const task = await ctx.db.get(args.taskId)
+    if (!task || task.eventId !== event._id) {
+      throw new Error('Task not found')
+    }
+
+    if (args.title !== undefined) assertTaskTitle(args.title)
+    const priority = args.priority !== undefined ? assertTaskPriority(args.priority) : undefined
+    const status = args.status !== undefined ? assertTaskStatus(args.status) : undefined
+
+    const { userId: _userId, eventId: _eventId, taskId: _taskId, ...updates } = args
+    void _userId
+    void _eventId
+    void _taskId
+
+    const cleanUpdates = Object.fromEntries(
+      Object.entries({ ...updates, title: updates.title?.trim(), priority, status }).filter(
+        ([, value]) => value !== undefined
+      )
+    )
+
+    let completedAt = task.completedAt
+    if (status === 'completed' && task.status !== 'completed') completedAt = Date.now()
+    if (status && status !== 'completed') completedAt = undefined
+
+    // A new due date gets its own reminders
+    const reminders =
+      args.dueDate !== undefined && args.dueDate !== task.dueDate
+        ? { dueSoonNotifiedAt: undefined, overdueNotifiedAt: undefined }
+        : {}
+
+    if (args.assignedTo && args.assignedTo !== task.assignedTo) {
+      const user = (await ctx.db.get(args.userId))!
+      await assignTask(ctx, event, task, args.assignedTo, user)
+    }
+
+    await ctx.db.patch(args.taskId, {
+      ...cleanUpdates,
+      ...reminders,
+      completedAt,
+      updatedAt: Date.now(),
+    })
+
+    const updated = await ctx.db.get(args.taskId)
+    if (updated) {
+      await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.TASK_UPDATED, taskWebhookData(updated))
+      if (updated.status === 'completed' && task.status !== 'completed') {
+        await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.TASK_COMPLETED, taskWebhookData(updated))
+      }
+    }
+
+    return { success: true }
+  },
+})
+
+/**
+ * Delete a task
+ */
+export const deleteTask = internalMutation({
+  args: {
+    userId: v.id('users'),
+    eventId: v.id('events'),
+    taskId: v.id('eventTasks'),
+  },
+  handler: async (ctx, args) => {
+    const event = await getEditableEvent(ctx, args.userId, args.eventId)
+
+    const task = await ctx.db.get(args.taskId)
+    if (!task || task.eventId !== event._id) {
+      throw new Error('Task not found')
+    }
+
+    await ctx.db.delete(args.taskId)
+    await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.TASK_DELETED, taskWebhookData(task))
+
+    return { success: true }
+  },
+})
+
+/**
+ * Set the board order. Every id must be a task on this event; tasks left out
+ * keep their current position after the listed ones.
+ */
+export const reorderTasks = internalMutation({
+  args: {
+    userId: v.id('users'),
+    eventId: v.id('events'),
+    taskIds: v.array(v.id('eventTasks')),
+  },
+  handler: async (ctx, args) => {
+    const event = await getEditableEvent(ctx, args.userId, args.eventId)
+
+    if (new Set(args.taskIds).size !== args.taskIds.length) {
+      throw new Error('taskIds must not contain duplicates')
+    }
+
+    const tasks = await ctx.db
+      .query('eventTasks')
+      .withIndex('by_event', (q) => q.eq('eventId', event._id))
+      .collect()
+    const taskIds = new Set<string>(tasks.map((t) => t._id))
+    const unknown = args.taskIds.filter((id) => !taskIds.has(id))
+    if (unknown.length > 0) {
+      throw new Error(`Tasks not found on this event: ${unknown.join(', ')}`)
+    }
+
+    const listed = new Set<string>(args.taskIds)
+    const rest = sortTasks(tasks).filter((t) => !listed.has(t._id)).map((t) => t._id)
+    const order = [...args.taskIds, ...rest]
+
+    for (let i = 0; i < order.length; i++) {
+      await ctx.db.patch(order[i], {
+        sortOrder: i + 1,
+        updatedAt: Date.now(),
+      })
+    }
+
+    return { success: true, order }
+  },
+})
+
+// ============================================================================
+// Budget Queries
+// ============================================================================
+
+/**
+ * List an event's budget items. Returns null if the event isn't accessible.
+ */
+export const listBudgetItems = internalQuery({
+  args: {
+    userId: v.id('users'),
+    eventId: v.id('events'),
+    status: v.optional(v.string()),
+    category: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const event = await getAccessibleEvent(ctx, args.userId, args.eventId, 'viewer')
+    if (!event) return null
+
+    const items = await ctx.db
+      .query('budgetItems')
+      .withIndex('by_event', (q) => q.eq('eventId', args.eventId))
+      .collect()
+
+    return items.filter(
+      (i) =>
+        (!args.status || i.status === args.status) &&
+        (!args.category || i.category === args.category)
+    )
+  },
+})
+
+/**
+ * Get a single budget item belonging to the event
+ */
+export const getBudgetItem = internalQuery({
+  args: {
+    userId: v.id('users'),
+    eventId: v.id('events'),
+    itemId: v.id('budgetItems'),
+  },
+  handler: async (ctx, args) => {
+    const event = await getAccessibleEvent(ctx, args.userId, args.eventId, 'viewer')
+    if (!event) return null
+
+    const item = await ctx.db.get(args.itemId)
+    if (!item || item.eventId !== event._id) return null
+
+    return item
+  },
+})
+
+/**
+ * Budget rollup for an event (same shape as budgetItems.getSummary)
+ */
+export const getBudgetSummary = internalQuery({
+  args: {
+    userId: v.id('users'),
+    eventId: v.id('events'),
+  },
+  handler: async (ctx, args) => {
+    const event = await getAccessibleEvent(ctx, args.userId, args.eventId, 'viewer')
+    if (!event) return null
+
+    return summarizeEventBudget(ctx, event)
+  },
+})
+
+// ============================================================================
+// Budget Mutations
+// ============================================================================
+
+/**
+ * Create a budget item
+ */
+export const createBudgetItem = internalMutation({
+  args: {
+    userId: v.id('users'),
+    eventId: v.id('events'),
+    category: v.string(),
+    name: v.string(),
+    estimatedAmount: v.number(),
+    ...budgetItemFields,
+  },
+  handler: async (ctx, args) => {
+    const event = await getEditableEvent(ctx, args.userId, args.eventId)
+
+    assertBudgetItemName(args.name)
+    assertAmount(args.estimatedAmount, 'estimatedAmount')
+    assertAmount(args.actualAmount, 'actualAmount')
+    const status = args.status !== undefined ? assertBudgetItemStatus(args.status) : 'planned'
+
+    const itemId = await ctx.db.insert('budgetItems', {
+      eventId: args.eventId,
+      category: args.category,
+      name: args.name.trim(),
+      description: args.description,
+      estimatedAmount: args.estimatedAmount,
+      actualAmount: args.actualAmount,
+      currency: args.currency !== undefined ? normalizeCurrency(args.currency) : undefined,
+      status,
+      vendorId: args.vendorId,
+      sponsorId: args.sponsorId,
+      notes: args.notes,
+      paidAt: status === 'paid' ? Date.now() : undefined,
+      createdAt: Date.now(),
+    })
+    await lockPaidExchangeRate(ctx, event, itemId)
+
+    const item = await ctx.db.get(itemId)
+    if (item) {
+      await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.BUDGET_ITEM_CREATED, budgetItemWebhookData(item))
+    }
+
+    return itemId
+  },
+})
+
+/**
+ * Update a budget item. Marking it paid stamps paidAt unless one is given.
+ */
+export const updateBudgetItem = internalMutation({
+  args: {
+    userId: v.id('users'),
+    eventId: v.id('events'),
+    itemId: v.id('budgetItems'),
+    category: v.optional(v.string()),
+    name: v.optional(v.string()),
+    estimatedAmount: v.optional(v.number()),
+    paidAt: v.optional(v.number()),
+    paidMethod: v.optional(v.string()),
+    invoiceNumber: v.optional(v.string()),
+    receiptUrl: v.optional(v.string()),
+    ...budgetItemFields,
+  },
+  handler: async (ctx, args) => {
+    const event = await getEditableEvent(ctx, args.userId, args.eventId)
+
+    const item = await ctx.db.get(args.itemId)
+    if (!item || item.eventId !== event._id) {
+      throw new Error('Budget item not found')
+    }
+
+    if (args.name !== undefined) assertBudgetItemName(args.name)
+    assertAmount(args.estimatedAmount, 'estimatedAmount')
+    assertAmount(args.actualAmount, 'actualAmount')
+    const status = args.status !== undefined ? assertBudgetItemStatus(args.status) : undefined
+    const currency = args.currency !== undefined ? normalizeCurrency(args.currency) : undefined
+
+    const { userId: _userId, eventId: _eventId, itemId: _itemId, ...updates } = args
+    void _userId
+    void _eventId
+    void _itemId
+
+    const cleanUpdates = Object.fromEntries(
+      Object.entries({ ...updates, name: updates.name?.trim(), status, currency }).filter(
+        ([, value]) => value !== undefined
+      )
+    )
+
+    if (status === 'paid' && !args.paidAt && item.status !== 'paid') {
+      cleanUpdates.paidAt = Date.now()
+    }
+
+    await ctx.db.patch(args.itemId, {
+      ...cleanUpdates,
+      updatedAt: Date.now(),
+    })
+    await lockPaidExchangeRate(ctx, event, args.itemId)
+
+    const updated = await ctx.db.get(args.itemId)
+    if (updated) {
+      await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.BUDGET_ITEM_UPDATED, budgetItemWebhookData(updated))
+    }
+
+    return { success: true }
+  },
+})
+
+/**
+ * Delete a budget item
+ */
+export const deleteBudgetItem = internalMutation({
+  args: {
+    userId: v.id('users'),
+    eventId: v.id('events'),
+    itemId: v.id('budgetItems'),
+  },
+  handler: async (ctx, args) => {
+    const event = await getEditableEvent(ctx, args.userId, args.eventId)
+
+    const item = await ctx.db.get(args.itemId)
+    if (!item || item.eventId !== event._id) {
+      throw new Error('Budget item not found')
+    }
+
+    await unlinkBudgetItemInvoices(ctx, args.itemId)
+    await ctx.db.delete(args.itemId)
+    await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.BUDGET_ITEM_DELETED, budgetItemWebhookData(item))
+
+    return { success: true }
+  },
+})
+
+/**
+ * Set the status of several budget items at once (e.g. mark a batch as paid).
+ * All ids must belong to the event; nothing is changed otherwise.
+ */
+export const bulkUpdateBudgetStatus = internalMutation({
+  args: {
+    userId: v.id('users'),
+    eventId: v.id('events'),
+    itemIds: v.array(v.id('budgetItems')),
+    status: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const event = await getEditableEvent(ctx, args.userId, args.eventId)
+    const status = assertBudgetItemStatus(args.status)
+
+    if (args.itemIds.length > 100) {
+      throw new Error('Cannot update more than 100 budget items at once')
+    }
+
+    const items = []
+    for (const itemId of args.itemIds) {
+      const item = await ctx.db.get(itemId)
+      if (!item || item.eventId !== event._id) {
+        throw new Error(`Budget item not found: ${itemId}`)
+      }
+      items.push(item)
+    }
+
+    for (const item of items) {
+      await ctx.db.patch(item._id, {
+        status,
+        paidAt: status === 'paid' && item.status !== 'paid' ? Date.now() : item.paidAt,
+        updatedAt: Date.now(),
+      })
+      await lockPaidExchangeRate(ctx, event, item._id)
+
+      const updated = await ctx.db.get(item._id)
+      if (updated) {
+        await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.BUDGET_ITEM_UPDATED, budgetItemWebhookData(updated))
+      }
+    }
+
+    return { success: true, updated: items.length }
+  },
+})
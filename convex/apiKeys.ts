@@ -339,6 +339,16 @@ export const remove = mutation({
       await ctx.db.delete(limit._id)
     }
 
+    // Delete stored idempotent responses
+    const idempotencyKeys = await ctx.db
+      .query('apiIdempotencyKeys')
+      .withIndex('by_key', q => q.eq('apiKeyId', args.id))
+      .collect()
+
+    for (const record of idempotencyKeys) {
+      await ctx.db.delete(record._id)
+    }
+
     // Delete the key
     await ctx.db.delete(args.id)
 
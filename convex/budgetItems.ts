@@ -1,6 +1,12 @@
 import { v } from 'convex/values'
 import { query, mutation } from './_generated/server'
 import { getCurrentUser } from './lib/auth'
+import { canAccessEvent } from './lib/organizations'
+import { summarizeEventBudget, budgetItemWebhookData, triggerPlanningWebhook } from './lib/eventPlanning'
+import { lockPaidExchangeRate, normalizeCurrency } from './lib/currency'
+import { unlinkBudgetItemInvoices } from './lib/invoices'
+import { parseBudgetImportRows, summarizeImport } from './lib/planningImport'
+import { WEBHOOK_EVENTS } from './webhooks'
 
 // Budget categories with display info
 export const BUDGET_CATEGORIES = [
@@ -23,9 +29,9 @@ export const listByEvent = query({
     const user = await getCurrentUser(ctx)
     if (!user) return []
 
-    // Verify user owns the event
+    // Verify user can view the event
     const event = await ctx.db.get(args.eventId)
-    if (!event || event.organizerId !== user._id) return []
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'viewer'))) return []
 
     return await ctx.db
       .query('budgetItems')
@@ -34,60 +40,36 @@ export const listByEvent = query({
   },
 })
 
-// Get budget summary for an event
+// Get a single budget item
+export const get = query({
+  args: { id: v.id('budgetItems') },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return null
+
+    const item = await ctx.db.get(args.id)
+    if (!item) return null
+
+    // Verify user can view the event
+    const event = await ctx.db.get(item.eventId)
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'viewer'))) return null
+
+    return item
+  },
+})
+
+// Get budget summary for an event, in the event currency and the workspace reporting currency
 export const getSummary = query({
   args: { eventId: v.id('events') },
   handler: async (ctx, args) => {
     const user = await getCurrentUser(ctx)
     if (!user) return null
 
-    // Verify user owns the event
+    // Verify user can view the event
     const event = await ctx.db.get(args.eventId)
-    if (!event || event.organizerId !== user._id) return null
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'viewer'))) return null
 
-    const items = await ctx.db
-      .query('budgetItems')
-      .withIndex('by_event', (q) => q.eq('eventId', args.eventId))
-      .collect()
-
-    const activeItems = items.filter((i) => i.status !== 'cancelled')
-
-    const totalEstimated = activeItems.reduce((sum, i) => sum + i.estimatedAmount, 0)
-    const totalActual = activeItems.reduce((sum, i) => sum + (i.actualAmount || 0), 0)
-    const totalPaid = activeItems
-      .filter((i) => i.status === 'paid')
-      .reduce((sum, i) => sum + (i.actualAmount || i.estimatedAmount), 0)
-    const totalCommitted = activeItems
-      .filter((i) => i.status === 'committed')
-      .reduce((sum, i) => sum + (i.actualAmount || i.estimatedAmount), 0)
-
-    // Group by category
-    const byCategory = activeItems.reduce(
-      (acc, item) => {
-        if (!acc[item.category]) {
-          acc[item.category] = { estimated: 0, actual: 0, count: 0 }
-        }
-        acc[item.category].estimated += item.estimatedAmount
-        acc[item.category].actual += item.actualAmount || 0
-        acc[item.category].count += 1
-        return acc
-      },
-      {} as Record<string, { estimated: number; actual: number; count: number }>
-    )
-
-    return {
-      totalEstimated,
-      totalActual,
-      totalPaid,
-      totalCommitted,
-      totalPlanned: totalEstimated - totalPaid - totalCommitted,
-      variance: totalActual - totalEstimated,
-      variancePercent: totalEstimated > 0 ? ((totalActual - totalEstimated) / totalEstimated) * 100 : 0,
-      itemCount: activeItems.length,
-      byCategory,
-      eventBudget: event.budget || 0,
-      remaining: (event.budget || 0) - totalEstimated,
-    }
+    return summarizeEventBudget(ctx, event)
   },
 })
 
@@ -100,6 +82,7 @@ export const create = mutation({
     description: v.optional(v.string()),
     estimatedAmount: v.number(),
     actualAmount: v.optional(v.number()),
+    currency: v.optional(v.string()),
     status: v.optional(v.union(v.literal('planned'), v.literal('committed'), v.literal('paid'), v.literal('cancelled'))),
     vendorId: v.optional(v.id('vendors')),
     sponsorId: v.optional(v.id('sponsors')),
@@ -109,25 +92,35 @@ export const create = mutation({
     const user = await getCurrentUser(ctx)
     if (!user) throw new Error('Not authenticated')
 
-    // Verify user owns the event
+    // Verify user can edit the event
     const event = await ctx.db.get(args.eventId)
-    if (!event || event.organizerId !== user._id) {
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
       throw new Error('Event not found or access denied')
     }
 
-    return await ctx.db.insert('budgetItems', {
+    const itemId = await ctx.db.insert('budgetItems', {
       eventId: args.eventId,
       category: args.category,
       name: args.name,
       description: args.description,
       estimatedAmount: args.estimatedAmount,
       actualAmount: args.actualAmount,
+      currency: args.currency ? normalizeCurrency(args.currency) : undefined,
       status: args.status || 'planned',
       vendorId: args.vendorId,
       sponsorId: args.sponsorId,
       notes: args.notes,
+      paidAt: args.status === 'paid' ? Date.now() : undefined,
       createdAt: Date.now(),
     })
+    await lockPaidExchangeRate(ctx, event, itemId)
+
+    const item = await ctx.db.get(itemId)
+    if (item) {
+      await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.BUDGET_ITEM_CREATED, budgetItemWebhookData(item))
+    }
+
+    return itemId
   },
 })
 
@@ -140,6 +133,7 @@ export const update = mutation({
     description: v.optional(v.string()),
     estimatedAmount: v.optional(v.number()),
     actualAmount: v.optional(v.number()),
+    currency: v.optional(v.string()),
     status: v.optional(v.union(v.literal('planned'), v.literal('committed'), v.literal('paid'), v.literal('cancelled'))),
     vendorId: v.optional(v.id('vendors')),
     sponsorId: v.optional(v.id('sponsors')),
@@ -156,9 +150,9 @@ export const update = mutation({
     const item = await ctx.db.get(args.id)
     if (!item) throw new Error('Budget item not found')
 
-    // Verify user owns the event
+    // Verify user can edit the event
     const event = await ctx.db.get(item.eventId)
-    if (!event || event.organizerId !== user._id) {
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
       throw new Error('Access denied')
     }
 
@@ -167,6 +161,10 @@ export const update = mutation({
       Object.entries(updates).filter(([, v]) => v !== undefined)
     )
 
+    if (updates.currency !== undefined) {
+      cleanUpdates.currency = normalizeCurrency(updates.currency)
+    }
+
     // If marking as paid and no paidAt, set it now
     if (updates.status === 'paid' && !updates.paidAt && item.status !== 'paid') {
       cleanUpdates.paidAt = Date.now()
@@ -176,6 +174,12 @@ export const update = mutation({
       ...cleanUpdates,
       updatedAt: Date.now(),
     })
+    await lockPaidExchangeRate(ctx, event, id)
+
+    const updated = await ctx.db.get(id)
+    if (updated) {
+      await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.BUDGET_ITEM_UPDATED, budgetItemWebhookData(updated))
+    }
 
     return id
   },
@@ -191,13 +195,15 @@ export const remove = mutation({
     const item = await ctx.db.get(args.id)
     if (!item) throw new Error('Budget item not found')
 
-    // Verify user owns the event
+    // Verify user can edit the event
     const event = await ctx.db.get(item.eventId)
-    if (!event || event.organizerId !== user._id) {
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
       throw new Error('Access denied')
     }
 
+    await unlinkBudgetItemInvoices(ctx, args.id)
     await ctx.db.delete(args.id)
+    await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.BUDGET_ITEM_DELETED, budgetItemWebhookData(item))
   },
 })
 
@@ -215,15 +221,78 @@ export const bulkUpdateStatus = mutation({
       const item = await ctx.db.get(id)
       if (!item) continue
 
-      // Verify user owns the event
+      // Verify user can edit the event
       const event = await ctx.db.get(item.eventId)
-      if (!event || event.organizerId !== user._id) continue
+      if (!event || !(await canAccessEvent(ctx, event, user._id, 'editor'))) continue
 
       await ctx.db.patch(id, {
         status: args.status,
         paidAt: args.status === 'paid' && item.status !== 'paid' ? Date.now() : item.paidAt,
         updatedAt: Date.now(),
       })
+      await lockPaidExchangeRate(ctx, event, id)
+
+      const updated = await ctx.db.get(id)
+      if (updated) {
+        await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.BUDGET_ITEM_UPDATED, budgetItemWebhookData(updated))
+      }
+    }
+  },
+})
+
+// Import budget items from a spreadsheet. Rows are already mapped onto our fields;
+// invalid rows are reported and skipped. With dryRun nothing is written.
+export const importItems = mutation({
+  args: {
+    eventId: v.id('events'),
+    rows: v.array(
+      v.object({
+        rowNumber: v.number(),
+        name: v.optional(v.string()),
+        category: v.optional(v.string()),
+        description: v.optional(v.string()),
+        estimatedAmount: v.optional(v.string()),
+        actualAmount: v.optional(v.string()),
+        currency: v.optional(v.string()),
+        status: v.optional(v.string()),
+        notes: v.optional(v.string()),
+      })
+    ),
+    dryRun: v.optional(v.boolean()),
+    decimalSeparator: v.optional(v.union(v.literal('.'), v.literal(','))),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Not authenticated')
+
+    // Verify user can edit the event
+    const event = await ctx.db.get(args.eventId)
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
+      throw new Error('Event not found or access denied')
+    }
+
+    const results = parseBudgetImportRows(args.rows, BUDGET_CATEGORIES, args.decimalSeparator)
+    if (args.dryRun) return summarizeImport(results, true, 0)
+
+    let imported = 0
+    for (const { value } of results) {
+      if (!value) continue
+
+      const itemId = await ctx.db.insert('budgetItems', {
+        eventId: args.eventId,
+        ...value,
+        paidAt: value.status === 'paid' ? Date.now() : undefined,
+        createdAt: Date.now(),
+      })
+      await lockPaidExchangeRate(ctx, event, itemId)
+      imported++
+
+      const item = await ctx.db.get(itemId)
+      if (item) {
+        await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.BUDGET_ITEM_CREATED, budgetItemWebhookData(item))
+      }
     }
+
+    return summarizeImport(results, false, imported)
   },
 })
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import type { Doc, Id } from './_generated/dataModel'
+import { titleFromMessage, toChatHistory } from './conversations'
+
+function message(
+  overrides: Partial<Doc<'conversationMessages'>>
+): Doc<'conversationMessages'> {
+  return {
+    _id: 'msg' as Id<'conversationMessages'>,
+    _creationTime: 0,
+    conversationId: 'conv' as Id<'conversations'>,
+    userId: 'user' as Id<'users'>,
+    role: 'user',
+    content: '',
+    createdAt: 0,
+    ...overrides,
+  }
+}
+
+describe('titleFromMessage', () => {
+  it('collapses whitespace in short messages', () => {
+    expect(titleFromMessage('  Plan a\n  team offsite ')).toBe('Plan a team offsite')
+  })
+
+  it('truncates long messages', () => {
+    const title = titleFromMessage('word '.repeat(40))
+    expect(title.length).toBeLessThanOrEqual(80)
+    expect(title.endsWith('...')).toBe(true)
+  })
+
+  it('falls back for empty input', () => {
+    expect(titleFromMessage('   ')).toBe('New conversation')
+  })
+})
+
+describe('toChatHistory', () => {
+  it('replays user and assistant turns in order', () => {
+    const history = toChatHistory([
+      message({ role: 'user', content: 'Plan a meetup' }),
+      message({ role: 'assistant', content: 'How many guests?' }),
+    ])
+
+    expect(history).toEqual([
+      { role: 'user', content: 'Plan a meetup' },
+      { role: 'assistant', content: 'How many guests?' },
+    ])
+  })
+
+  it('appends resolved confirmation outcomes to the assistant turn', () => {
+    const history = toChatHistory([
+      message({
+        role: 'assistant',
+        content: 'Shall I create it?',
+        confirmations: [
+          { toolCallId: 'a', name: 'createEvent', status: 'confirmed', summary: 'Created "Meetup"' },
+          { toolCallId: 'b', name: 'addVendorToEvent', status: 'rejected' },
+          { toolCallId: 'c', name: 'updateEvent', status: 'pending' },
+        ],
+      }),
+    ])
+
+    expect(history[0].content).toBe(
+      'Shall I create it?\n\n[createEvent confirmed: Created "Meetup"]\n[addVendorToEvent rejected]'
+    )
+  })
+})
@@ -0,0 +1,404 @@
+import { v } from 'convex/values'
+import { query, mutation, internalQuery, internalMutation } from './_generated/server'
+import type { Doc, Id } from './_generated/dataModel'
+import type { QueryCtx, MutationCtx } from './_generated/server'
+import { getCurrentUser } from './lib/auth'
+import type { AIMessage } from './lib/ai'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const TITLE_MAX_LENGTH = 80
+// Prior messages replayed to the model on each turn
+const CONTEXT_MESSAGE_LIMIT = 40
+
+const toolCallValidator = v.object({
+  id: v.string(),
+  name: v.string(),
+  arguments: v.any(),
+})
+
+const toolResultValidator = v.object({
+  toolCallId: v.string(),
+  name: v.string(),
+  success: v.boolean(),
+  summary: v.optional(v.string()),
+  error: v.optional(v.string()),
+  data: v.optional(v.any()),
+})
+
+const confirmationValidator = v.object({
+  toolCallId: v.string(),
+  name: v.string(),
+  status: v.union(
+    v.literal('pending'),
+    v.literal('confirmed'),
+    v.literal('rejected'),
+    v.literal('failed')
+  ),
+  summary: v.optional(v.string()),
+  error: v.optional(v.string()),
+  resolvedAt: v.optional(v.number()),
+})
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Derive a thread title from the first user message
+ */
+export function titleFromMessage(content: string): string {
+  const singleLine = content.replace(/\s+/g, ' ').trim()
+  if (singleLine.length <= TITLE_MAX_LENGTH) return singleLine || 'New conversation'
+  return `${singleLine.slice(0, TITLE_MAX_LENGTH - 3).trimEnd()}...`
+}
+
+/**
+ * Convert stored messages into model context.
+ * Resolved confirmations are appended to the assistant turn so the model
+ * knows whether the action it proposed actually ran.
+ */
+export function toChatHistory(messages: Doc<'conversationMessages'>[]): AIMessage[] {
+  return messages.map((msg) => {
+    if (msg.role === 'user' || !msg.confirmations) {
+      return { role: msg.role, content: msg.content }
+    }
+
+    const outcomes = msg.confirmations
+      .filter((c) => c.status !== 'pending')
+      .map((c) => {
+        const detail = c.summary || c.error
+        return `[${c.name} ${c.status}${detail ? `: ${detail}` : ''}]`
+      })
+
+    return {
+      role: msg.role,
+      content: outcomes.length > 0 ? `${msg.content}\n\n${outcomes.join('\n')}` : msg.content,
+    }
+  })
+}
+
+/**
+ * Load a conversation if it belongs to the given user
+ */
+async function getOwnedConversation(
+  ctx: QueryCtx,
+  conversationId: Id<'conversations'>,
+  userId: Id<'users'>
+) {
+  const conversation = await ctx.db.get(conversationId)
+  if (!conversation || conversation.userId !== userId) return null
+  return conversation
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * List the current user's conversations, most recent first
+ */
+export const list = query({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return []
+
+    return ctx.db
+      .query('conversations')
+      .withIndex('by_user', (q) => q.eq('userId', user._id))
+      .order('desc')
+      .take(Math.min(args.limit ?? 50, 100))
+  },
+})
+
+/**
+ * Get a conversation with its messages, for resuming a thread
+ */
+export const get = query({
+  args: { id: v.id('conversations') },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return null
+
+    const conversation = await getOwnedConversation(ctx, args.id, user._id)
+    if (!conversation) return null
+
+    const messages = await ctx.db
+      .query('conversationMessages')
+      .withIndex('by_conversation', (q) => q.eq('conversationId', args.id))
+      .collect()
+
+    return { ...conversation, messages }
+  },
+})
+
+/**
+ * Search the current user's conversations by title and message content
+ */
+export const search = query({
+  args: {
+    query: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return []
+
+    const term = args.query.trim()
+    if (!term) return []
+    const limit = Math.min(args.limit ?? 20, 50)
+
+    const byTitle = await ctx.db
+      .query('conversations')
+      .withSearchIndex('search_title', (q) => q.search('title', term).eq('userId', user._id))
+      .take(limit)
+
+    const byContent = await ctx.db
+      .query('conversationMessages')
+      .withSearchIndex('search_content', (q) => q.search('content', term).eq('userId', user._id))
+      .take(limit)
+
+    // Title matches rank first, then threads with matching messages
+    const results = new Map<Id<'conversations'>, Doc<'conversations'> & { snippet?: string }>()
+    for (const conversation of byTitle) {
+      results.set(conversation._id, conversation)
+    }
+    for (const message of byContent) {
+      if (results.size >= limit) break
+      if (results.has(message.conversationId)) continue
+      const conversation = await ctx.db.get(message.conversationId)
+      if (conversation) {
+        results.set(conversation._id, { ...conversation, snippet: message.content.slice(0, 200) })
+      }
+    }
+
+    return [...results.values()]
+  },
+})
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Rename a conversation
+ */
+export const rename = mutation({
+  args: {
+    id: v.id('conversations'),
+    title: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Not authenticated')
+
+    const conversation = await getOwnedConversation(ctx, args.id, user._id)
+    if (!conversation) throw new Error('Conversation not found')
+
+    const title = args.title.trim()
+    if (!title) throw new Error('Title is required')
+
+    await ctx.db.patch(args.id, {
+      title: title.slice(0, TITLE_MAX_LENGTH),
+      updatedAt: Date.now(),
+    })
+  },
+})
+
+/**
+ * Delete a conversation and all of its messages
+ */
+export const remove = mutation({
+  args: { id: v.id('conversations') },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Not authenticated')
+
+    const conversation = await getOwnedConversation(ctx, args.id, user._id)
+    if (!conversation) throw new Error('Conversation not found')
+
+    const messages = await ctx.db
+      .query('conversationMessages')
+      .withIndex('by_conversation', (q) => q.eq('conversationId', args.id))
+      .collect()
+    for (const message of messages) {
+      await ctx.db.delete(message._id)
+    }
+
+    await ctx.db.delete(args.id)
+  },
+})
+
+/**
+ * Record that the user declined a tool call awaiting confirmation
+ */
+export const rejectConfirmation = mutation({
+  args: {
+    conversationId: v.id('conversations'),
+    toolCallId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Not authenticated')
+
+    const conversation = await getOwnedConversation(ctx, args.conversationId, user._id)
+    if (!conversation) throw new Error('Conversation not found')
+
+    await resolveConfirmation(ctx.db, args.conversationId, args.toolCallId, {
+      status: 'rejected',
+    })
+  },
+})
+
+// ============================================================================
+// Internal Functions (used by the chat HTTP routes)
+// ============================================================================
+
+/**
+ * Look up a client-supplied conversation ID, returning null if it is
+ * malformed or belongs to someone else
+ */
+export const getForUser = internalQuery({
+  args: {
+    conversationId: v.string(),
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    const conversationId = ctx.db.normalizeId('conversations', args.conversationId)
+    if (!conversationId) return null
+    return getOwnedConversation(ctx, conversationId, args.userId)
+  },
+})
+
+/**
+ * Load the most recent messages of a conversation as model context
+ */
+export const loadContext = internalQuery({
+  args: { conversationId: v.id('conversations') },
+  handler: async (ctx, args) => {
+    const recent = await ctx.db
+      .query('conversationMessages')
+      .withIndex('by_conversation', (q) => q.eq('conversationId', args.conversationId))
+      .order('desc')
+      .take(CONTEXT_MESSAGE_LIMIT)
+
+    return toChatHistory(recent.reverse())
+  },
+})
+
+/**
+ * Start a new conversation titled after the first user message, recording
+ * the persona prompt it uses
+ */
+export const create = internalMutation({
+  args: {
+    userId: v.id('users'),
+    firstMessage: v.string(),
+    personaId: v.optional(v.id('agentPersonas')),
+    personaVersion: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now()
+    return ctx.db.insert('conversations', {
+      userId: args.userId,
+      title: titleFromMessage(args.firstMessage),
+      personaId: args.personaId,
+      personaVersion: args.personaVersion,
+      messageCount: 0,
+      lastMessageAt: now,
+      createdAt: now,
+    })
+  },
+})
+
+/**
+ * Append a message to a conversation
+ */
+export const appendMessage = internalMutation({
+  args: {
+    conversationId: v.id('conversations'),
+    role: v.union(v.literal('user'), v.literal('assistant')),
+    content: v.string(),
+    toolCalls: v.optional(v.array(toolCallValidator)),
+    toolResults: v.optional(v.array(toolResultValidator)),
+    confirmations: v.optional(v.array(confirmationValidator)),
+  },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.db.get(args.conversationId)
+    if (!conversation) throw new Error('Conversation not found')
+
+    const now = Date.now()
+    const messageId = await ctx.db.insert('conversationMessages', {
+      ...args,
+      userId: conversation.userId,
+      createdAt: now,
+    })
+
+    await ctx.db.patch(args.conversationId, {
+      messageCount: conversation.messageCount + 1,
+      lastMessageAt: now,
+      updatedAt: now,
+    })
+
+    return messageId
+  },
+})
+
+/**
+ * Record the outcome of a confirmed tool call
+ */
+export const recordConfirmation = internalMutation({
+  args: {
+    conversationId: v.id('conversations'),
+    toolCallId: v.string(),
+    success: v.boolean(),
+    summary: v.optional(v.string()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await resolveConfirmation(ctx.db, args.conversationId, args.toolCallId, {
+      status: args.success ? 'confirmed' : 'failed',
+      summary: args.summary,
+      error: args.error,
+    })
+  },
+})
+
+/**
+ * Update the pending confirmation for a tool call on its assistant message.
+ * Searches newest messages first since confirmations follow the latest reply.
+ */
+async function resolveConfirmation(
+  db: MutationCtx['db'],
+  conversationId: Id<'conversations'>,
+  toolCallId: string,
+  outcome: {
+    status: 'confirmed' | 'rejected' | 'failed'
+    summary?: string
+    error?: string
+  }
+) {
+  const messages = await db
+    .query('conversationMessages')
+    .withIndex('by_conversation', (q) => q.eq('conversationId', conversationId))
+    .order('desc')
+    .take(CONTEXT_MESSAGE_LIMIT)
+
+  const message = messages.find((m) =>
+    m.confirmations?.some((c) => c.toolCallId === toolCallId)
+  )
+  if (!message || !message.confirmations) return
+
+  await db.patch(message._id, {
+    confirmations: message.confirmations.map((c) =>
+      c.toolCallId === toolCallId
+        ? { ...c, ...outcome, resolvedAt: Date.now() }
+        : c
+    ),
+  })
+}
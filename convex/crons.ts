@@ -0,0 +1,45 @@
+import { cronJobs } from 'convex/server'
+import { internal } from './_generated/api'
+
+// Housekeeping jobs - see housekeeping.ts for what each one does.
+// Keep the schedule labels in HOUSEKEEPING_JOBS in sync when changing these.
+const crons = cronJobs()
+
+crons.hourly('expire api keys', { minuteUTC: 0 }, internal.housekeeping.run, {
+  job: 'expireApiKeys',
+})
+
+crons.hourly('prune api rate limits', { minuteUTC: 15 }, internal.housekeeping.run, {
+  job: 'pruneRateLimits',
+})
+
+crons.hourly('prune idempotency keys', { minuteUTC: 45 }, internal.housekeeping.run, {
+  job: 'pruneIdempotencyKeys',
+})
+
+crons.hourly('send task reminders', { minuteUTC: 30 }, internal.housekeeping.run, {
+  job: 'sendTaskReminders',
+})
+
+// Fills in searchText on records from before the search indexes, then stops
+crons.hourly('backfill search text', { minuteUTC: 50 }, internal.housekeeping.run, {
+  job: 'backfillSearchText',
+})
+
+crons.daily('reset ai usage', { hourUTC: 0, minuteUTC: 0 }, internal.housekeeping.run, {
+  job: 'resetAiUsage',
+})
+
+crons.daily('prune api request logs', { hourUTC: 3, minuteUTC: 0 }, internal.housekeeping.run, {
+  job: 'pruneRequestLogs',
+})
+
+crons.daily('prune webhook deliveries', { hourUTC: 3, minuteUTC: 30 }, internal.housekeeping.run, {
+  job: 'pruneWebhookDeliveries',
+})
+
+crons.daily('prune job runs', { hourUTC: 4, minuteUTC: 0 }, internal.housekeeping.run, {
+  job: 'pruneJobRuns',
+})
+
+export default crons
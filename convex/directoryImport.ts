@@ -0,0 +1,315 @@
+import { v } from 'convex/values'
+import { mutation, type MutationCtx } from './_generated/server'
+import type { Id } from './_generated/dataModel'
+import { assertRole } from './lib/auth'
+import { sponsorSearchText, vendorSearchText } from './lib/search'
+import {
+  createDuplicateFinder,
+  mergeImportedFields,
+  parseSponsorImportRows,
+  parseVendorImportRows,
+  type DirectoryRecord,
+  type DirectoryRowResult,
+  type DuplicateMatch,
+} from './lib/directoryImport'
+import { PRICE_RANGES, SPONSOR_INDUSTRIES, SPONSORSHIP_TIERS, VENDOR_CATEGORIES } from './publicApplications'
+
+// ============================================================================
+// Validators
+// ============================================================================
+
+const cell = v.optional(v.string())
+
+// What the admin chose for a row; rows without a choice use the default
+const decisionValidator = v.optional(v.union(v.literal('create'), v.literal('merge'), v.literal('skip')))
+
+const vendorRowValidator = v.object({
+  rowNumber: v.number(),
+  decision: decisionValidator,
+  mergeIntoId: v.optional(v.id('vendors')),
+  name: cell,
+  category: cell,
+  description: cell,
+  services: cell,
+  location: cell,
+  priceRange: cell,
+  contactName: cell,
+  contactEmail: cell,
+  contactPhone: cell,
+  website: cell,
+  logoUrl: cell,
+  companySize: cell,
+  yearFounded: cell,
+  headquarters: cell,
+  acceptedPaymentMethods: cell,
+  requiresDeposit: cell,
+  depositPercentage: cell,
+  netDays: cell,
+  maxEventsPerMonth: cell,
+  teamSize: cell,
+  serviceArea: cell,
+  applicationNotes: cell,
+})
+
+const sponsorRowValidator = v.object({
+  rowNumber: v.number(),
+  decision: decisionValidator,
+  mergeIntoId: v.optional(v.id('sponsors')),
+  name: cell,
+  industry: cell,
+  description: cell,
+  sponsorshipTiers: cell,
+  budgetMin: cell,
+  budgetMax: cell,
+  targetEventTypes: cell,
+  targetAudience: cell,
+  contactName: cell,
+  contactEmail: cell,
+  contactPhone: cell,
+  website: cell,
+  logoUrl: cell,
+  companySize: cell,
+  yearFounded: cell,
+  headquarters: cell,
+  deliverablesOffered: cell,
+  preferredPaymentMethod: cell,
+  netDays: cell,
+  paymentCurrency: cell,
+  applicationNotes: cell,
+})
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+type ImportDecision = 'create' | 'merge' | 'skip'
+
+interface RowPlan<T> {
+  rowNumber: number
+  value?: T
+  errors: string[]
+  duplicates: DuplicateMatch[]
+  outcome: ImportDecision | 'invalid'
+  mergeIntoId?: string
+}
+
+/**
+ * Decide what happens to each parsed row. Rows without a likely duplicate are
+ * created; likely duplicates are skipped unless the admin chose to merge them
+ * (into the first match by default) or create them anyway. A row that repeats
+ * an earlier row of the same file is an error.
+ */
+function planRows<T extends Omit<DirectoryRecord, '_id'>>(
+  results: DirectoryRowResult<T>[],
+  rows: { decision?: ImportDecision; mergeIntoId?: string }[],
+  existing: DirectoryRecord[]
+): RowPlan<T>[] {
+  const inDirectory = createDuplicateFinder(existing)
+  const inFile = createDuplicateFinder([])
+
+  return results.map((result, i): RowPlan<T> => {
+    const { value } = result
+    if (!value) return { ...result, duplicates: [], outcome: 'invalid' }
+
+    const earlier = inFile.find(value)
+    if (earlier.length > 0) {
+      return { ...result, errors: [`Same company as row ${earlier[0].id}`], duplicates: [], outcome: 'invalid' }
+    }
+    inFile.add({ _id: String(result.rowNumber), ...value })
+
+    const duplicates = inDirectory.find(value)
+    const decision = rows[i].decision ?? (duplicates.length > 0 ? 'skip' : 'create')
+    if (decision !== 'merge') return { ...result, duplicates, outcome: decision }
+
+    const mergeIntoId = rows[i].mergeIntoId ?? duplicates[0]?.id
+    if (!mergeIntoId || !existing.some((record) => record._id === mergeIntoId)) {
+      return { ...result, errors: ['Choose a record to merge into'], duplicates, outcome: 'invalid' }
+    }
+    return { ...result, duplicates, outcome: 'merge', mergeIntoId }
+  })
+}
+
+function summarizeDirectoryImport<T extends { name: string }>(plans: RowPlan<T>[], dryRun: boolean) {
+  const count = (outcome: RowPlan<T>['outcome']) => plans.filter((plan) => plan.outcome === outcome).length
+
+  return {
+    dryRun,
+    total: plans.length,
+    created: count('create'),
+    merged: count('merge'),
+    skipped: count('skip'),
+    invalid: count('invalid'),
+    rows: plans.map((plan) => ({
+      rowNumber: plan.rowNumber,
+      name: plan.value?.name,
+      errors: plan.errors,
+      duplicates: plan.duplicates,
+      outcome: plan.outcome,
+      mergeIntoId: plan.mergeIntoId,
+    })),
+  }
+}
+
+// One moderation log entry per import, with the records it touched
+async function logDirectoryImport(
+  ctx: MutationCtx,
+  adminId: Id<'users'>,
+  targetType: 'vendor' | 'sponsor',
+  summary: ReturnType<typeof summarizeDirectoryImport>,
+  details: { fileName?: string; autoApprove: boolean; createdIds: string[]; mergedIds: string[] }
+) {
+  await ctx.db.insert('moderationLogs', {
+    adminId,
+    action: targetType === 'vendor' ? 'vendor_imported' : 'sponsor_imported',
+    targetType,
+    targetId: 'bulk_import',
+    reason: details.fileName ? `Imported from ${details.fileName}` : undefined,
+    metadata: {
+      ...details,
+      total: summary.total,
+      created: summary.created,
+      merged: summary.merged,
+      skipped: summary.skipped,
+      invalid: summary.invalid,
+    },
+    createdAt: Date.now(),
+  })
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+// Import vendors in bulk; with dryRun, only report errors, duplicates and outcomes
+export const importVendors = mutation({
+  args: {
+    rows: v.array(vendorRowValidator),
+    dryRun: v.optional(v.boolean()),
+    decimalSeparator: v.optional(v.union(v.literal('.'), v.literal(','))),
+    autoApprove: v.optional(v.boolean()),
+    fileName: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const admin = await assertRole(ctx, 'admin')
+
+    const vendors = await ctx.db.query('vendors').collect()
+    const results = parseVendorImportRows(args.rows, {
+      categories: VENDOR_CATEGORIES,
+      priceRanges: PRICE_RANGES,
+      decimalSeparator: args.decimalSeparator,
+    })
+    const plans = planRows(results, args.rows, vendors)
+    if (args.dryRun) return summarizeDirectoryImport(plans, true)
+
+    const now = Date.now()
+    const createdIds: string[] = []
+    const mergedIds: string[] = []
+
+    for (const plan of plans) {
+      if (plan.outcome === 'create') {
+        const vendor = plan.value!
+        createdIds.push(
+          await ctx.db.insert('vendors', {
+            ...vendor,
+            rating: 0,
+            reviewCount: 0,
+            verified: args.autoApprove || false,
+            status: args.autoApprove ? 'approved' : 'pending',
+            applicationSource: 'import',
+            reviewedBy: args.autoApprove ? admin._id : undefined,
+            reviewedAt: args.autoApprove ? now : undefined,
+            searchText: vendorSearchText(vendor),
+            createdAt: now,
+          })
+        )
+      } else if (plan.outcome === 'merge') {
+        const existing = vendors.find((vendor) => vendor._id === plan.mergeIntoId)!
+        const patch = mergeImportedFields(existing, plan.value!)
+        if (Object.keys(patch).length > 0) {
+          await ctx.db.patch(existing._id, {
+            ...patch,
+            searchText: vendorSearchText({ ...existing, ...patch }),
+            updatedAt: now,
+          })
+        }
+        mergedIds.push(existing._id)
+      }
+    }
+
+    const summary = summarizeDirectoryImport(plans, false)
+    await logDirectoryImport(ctx, admin._id, 'vendor', summary, {
+      fileName: args.fileName,
+      autoApprove: args.autoApprove || false,
+      createdIds,
+      mergedIds,
+    })
+
+    return summary
+  },
+})
+
+// Import sponsors in bulk; with dryRun, only report errors, duplicates and outcomes
+export const importSponsors = mutation({
+  args: {
+    rows: v.array(sponsorRowValidator),
+    dryRun: v.optional(v.boolean()),
+    decimalSeparator: v.optional(v.union(v.literal('.'), v.literal(','))),
+    autoApprove: v.optional(v.boolean()),
+    fileName: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const admin = await assertRole(ctx, 'admin')
+
+    const sponsors = await ctx.db.query('sponsors').collect()
+    const results = parseSponsorImportRows(args.rows, {
+      industries: SPONSOR_INDUSTRIES,
+      tiers: SPONSORSHIP_TIERS,
+      decimalSeparator: args.decimalSeparator,
+    })
+    const plans = planRows(results, args.rows, sponsors)
+    if (args.dryRun) return summarizeDirectoryImport(plans, true)
+
+    const now = Date.now()
+    const createdIds: string[] = []
+    const mergedIds: string[] = []
+
+    for (const plan of plans) {
+      if (plan.outcome === 'create') {
+        const sponsor = plan.value!
+        createdIds.push(
+          await ctx.db.insert('sponsors', {
+            ...sponsor,
+            verified: args.autoApprove || false,
+            status: args.autoApprove ? 'approved' : 'pending',
+            applicationSource: 'import',
+            reviewedBy: args.autoApprove ? admin._id : undefined,
+            reviewedAt: args.autoApprove ? now : undefined,
+            searchText: sponsorSearchText(sponsor),
+            createdAt: now,
+          })
+        )
+      } else if (plan.outcome === 'merge') {
+        const existing = sponsors.find((sponsor) => sponsor._id === plan.mergeIntoId)!
+        const patch = mergeImportedFields(existing, plan.value!)
+        if (Object.keys(patch).length > 0) {
+          await ctx.db.patch(existing._id, {
+            ...patch,
+            searchText: sponsorSearchText({ ...existing, ...patch }),
+            updatedAt: now,
+          })
+        }
+        mergedIds.push(existing._id)
+      }
+    }
+
+    const summary = summarizeDirectoryImport(plans, false)
+    await logDirectoryImport(ctx, admin._id, 'sponsor', summary, {
+      fileName: args.fileName,
+      autoApprove: args.autoApprove || false,
+      createdIds,
+      mergedIds,
+    })
+
+    return summary
+  },
+})
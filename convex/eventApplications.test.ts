@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import type { Id } from './_generated/dataModel'
+import { assertOwnApplicant } from './eventApplications'
+
+const vendorId = 'vendor1' as Id<'vendors'>
+const sponsorId = 'sponsor1' as Id<'sponsors'>
+const otherSponsorId = 'sponsor2' as Id<'sponsors'>
+
+describe('assertOwnApplicant', () => {
+  it('lets portal users apply as their own vendor or sponsor', () => {
+    expect(() => assertOwnApplicant({ role: 'vendor', vendorId }, 'vendor', vendorId)).not.toThrow()
+    expect(() => assertOwnApplicant({ role: 'sponsor', sponsorId }, 'sponsor', sponsorId)).not.toThrow()
+  })
+
+  it('stops a sponsor applying as another sponsor', () => {
+    expect(() => assertOwnApplicant({ role: 'sponsor', sponsorId }, 'sponsor', otherSponsorId)).toThrow(
+      'You can only apply on behalf of your own sponsor account'
+    )
+  })
+
+  it('stops organizers and vendors applying as a sponsor', () => {
+    expect(() => assertOwnApplicant({ role: 'organizer' }, 'sponsor', sponsorId)).toThrow('own sponsor account')
+    expect(() => assertOwnApplicant({ role: 'vendor', vendorId }, 'sponsor', sponsorId)).toThrow('own sponsor account')
+  })
+
+  it('lets admins apply for anyone', () => {
+    expect(() => assertOwnApplicant({ role: 'admin' }, 'sponsor', otherSponsorId)).not.toThrow()
+  })
+})
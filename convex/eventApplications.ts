@@ -1,7 +1,14 @@
 import { v } from 'convex/values'
 import { mutation, query } from './_generated/server'
+import type { MutationCtx } from './_generated/server'
+import { internal } from './_generated/api'
 import { getCurrentUser, assertRole, isAdminRole } from './lib/auth'
-import type { Id } from './_generated/dataModel'
+import { createPaymentSchedule } from './lib/invoices'
+import { notifyAll } from './lib/notifications'
+import { canAccessEvent, listEventEditorIds, listWorkspaceEvents } from './lib/organizations'
+import { syncSponsorRevenueItem } from './lib/revenue'
+import { WEBHOOK_EVENTS } from './webhooks'
+import type { Doc, Id } from './_generated/dataModel'
 
 /**
  * Safely parse an applicant ID string to the appropriate Id type.
@@ -28,6 +35,41 @@ function parseApplicantId<T extends 'vendors' | 'sponsors'>(
   return id as Id<T>
 }
 
+/**
+ * Only a vendor's or sponsor's linked portal account (or an admin) can apply on its behalf
+ */
+export function assertOwnApplicant(
+  user: Pick<Doc<'users'>, 'role' | 'vendorId' | 'sponsorId'>,
+  applicantType: 'vendor' | 'sponsor',
+  applicantId: Id<'vendors'> | Id<'sponsors'>
+) {
+  if (isAdminRole(user.role)) return
+  const ownId = applicantType === 'vendor' ? user.vendorId : user.sponsorId
+  if (ownId !== applicantId) {
+    throw new Error(`You can only apply on behalf of your own ${applicantType} account`)
+  }
+}
+
+/**
+ * Let everyone who can edit the event know a vendor or sponsor applied
+ */
+async function notifyApplicationReceived(
+  ctx: MutationCtx,
+  event: Doc<'events'>,
+  applicantName: string,
+  applicantType: 'vendor' | 'sponsor',
+  submittedBy: Id<'users'>
+) {
+  await notifyAll(ctx, await listEventEditorIds(ctx, event), {
+    type: 'application_received',
+    title: `New ${applicantType} application: ${applicantName}`,
+    body: event.title,
+    link: `/dashboard/events/${event._id}/applications`,
+    actorId: submittedBy,
+    eventId: event._id,
+  })
+}
+
 // ============================================================================
 // Queries
 // ============================================================================
@@ -46,9 +88,9 @@ export const listByEvent = query({
     const event = await ctx.db.get(args.eventId)
     if (!event) return []
 
-    // Only organizer (owner) or admin can view applications
-    const isOwner = event.organizerId === user._id
-    if (!isOwner && !isAdminRole(user.role)) return []
+    // Only people on the event or admins can view applications
+    const canView = await canAccessEvent(ctx, event, user._id, 'viewer')
+    if (!canView && !isAdminRole(user.role)) return []
 
     let applications = await ctx.db
       .query('eventApplications')
@@ -149,8 +191,8 @@ export const getCountByEvent = query({
     const event = await ctx.db.get(args.eventId)
     if (!event) return { total: 0, pending: 0, accepted: 0 }
 
-    const isOwner = event.organizerId === user._id
-    if (!isOwner && !isAdminRole(user.role)) return { total: 0, pending: 0, accepted: 0 }
+    const canView = await canAccessEvent(ctx, event, user._id, 'viewer')
+    if (!canView && !isAdminRole(user.role)) return { total: 0, pending: 0, accepted: 0 }
 
     const applications = await ctx.db
       .query('eventApplications')
@@ -218,9 +260,9 @@ export const get = query({
     const event = await ctx.db.get(application.eventId)
     if (!event) return null
 
-    // Only organizer (owner) or admin can view
-    const isOwner = event.organizerId === user._id
-    if (!isOwner && !isAdminRole(user.role)) return null
+    // Only people on the event or admins can view
+    const canView = await canAccessEvent(ctx, event, user._id, 'viewer')
+    if (!canView && !isAdminRole(user.role)) return null
 
     // Get applicant details
     let applicantDetails = null
@@ -271,6 +313,7 @@ export const submit = mutation({
     }
 
     // Verify applicant exists and is approved
+    let applicantName = ''
     if (args.applicantType === 'vendor') {
       const vendorId = parseApplicantId(args.applicantId, 'vendors')
       if (!vendorId) {
@@ -280,6 +323,7 @@ export const submit = mutation({
       if (!vendor || vendor.status !== 'approved') {
         throw new Error('Vendor not found or not approved')
       }
+      applicantName = vendor.name
     } else {
       const sponsorId = parseApplicantId(args.applicantId, 'sponsors')
       if (!sponsorId) {
@@ -289,6 +333,7 @@ export const submit = mutation({
       if (!sponsor || sponsor.status !== 'approved') {
         throw new Error('Sponsor not found or not approved')
       }
+      applicantName = sponsor.name
     }
 
     // Check for duplicate application
@@ -304,7 +349,7 @@ export const submit = mutation({
       throw new Error('An application already exists for this event')
     }
 
-    return await ctx.db.insert('eventApplications', {
+    const applicationId = await ctx.db.insert('eventApplications', {
       eventId: args.eventId,
       applicantType: args.applicantType,
       applicantId: args.applicantId,
@@ -319,6 +364,10 @@ export const submit = mutation({
       submittedBy: user._id,
       createdAt: Date.now(),
     })
+
+    await notifyApplicationReceived(ctx, event, applicantName, args.applicantType, user._id)
+
+    return applicationId
   },
 })
 
@@ -350,9 +399,9 @@ export const updateStatus = mutation({
       throw new Error('Event not found')
     }
 
-    // Only organizer (owner) or admin can update
-    const isOwner = event.organizerId === user._id
-    if (!isOwner && !isAdminRole(user.role)) {
+    // Only event editors or admins can update
+    const canEdit = await canAccessEvent(ctx, event, user._id, 'editor')
+    if (!canEdit && !isAdminRole(user.role)) {
       throw new Error('Access denied')
     }
 
@@ -378,7 +427,7 @@ export const updateStatus = mutation({
             .first()
 
           if (!existing) {
-            await ctx.db.insert('eventVendors', {
+            const eventVendorId = await ctx.db.insert('eventVendors', {
               eventId: application.eventId,
               vendorId,
               status: 'confirmed',
@@ -386,6 +435,18 @@ export const updateStatus = mutation({
               notes: application.message,
               createdAt: Date.now(),
             })
+
+            const eventVendor = await ctx.db.get(eventVendorId)
+            if (eventVendor) {
+              await createPaymentSchedule(ctx, event, eventVendor, user._id)
+            }
+
+            await ctx.scheduler.runAfter(0, internal.webhooks.triggerWebhooks, {
+              userId: event.organizerId,
+              eventType: WEBHOOK_EVENTS.VENDOR_CONFIRMED,
+              eventId: application.eventId,
+              data: { eventId: application.eventId, vendorId, eventVendorId, applicationId: args.applicationId },
+            })
           }
         }
       } else {
@@ -399,7 +460,7 @@ export const updateStatus = mutation({
             .first()
 
           if (!existing) {
-            await ctx.db.insert('eventSponsors', {
+            const eventSponsorId = await ctx.db.insert('eventSponsors', {
               eventId: application.eventId,
               sponsorId,
               tier: application.proposedTier,
@@ -408,6 +469,14 @@ export const updateStatus = mutation({
               notes: application.message,
               createdAt: Date.now(),
             })
+            await syncSponsorRevenueItem(ctx, eventSponsorId)
+
+            await ctx.scheduler.runAfter(0, internal.webhooks.triggerWebhooks, {
+              userId: event.organizerId,
+              eventType: WEBHOOK_EVENTS.SPONSOR_CONFIRMED,
+              eventId: application.eventId,
+              data: { eventId: application.eventId, sponsorId, eventSponsorId, applicationId: args.applicationId },
+            })
           }
         }
       }
@@ -450,11 +519,8 @@ export const getMyPendingCount = query({
     const user = await getCurrentUser(ctx)
     if (!user) return 0
 
-    // Get all events owned by this user
-    const myEvents = await ctx.db
-      .query('events')
-      .withIndex('by_organizer', (q) => q.eq('organizerId', user._id))
-      .collect()
+    // Get all events in the user's workspace
+    const myEvents = await listWorkspaceEvents(ctx, user)
 
     if (myEvents.length === 0) return 0
 
@@ -479,7 +545,7 @@ export const getMyPendingCount = query({
 
 /**
  * Self-service application submission by an approved vendor or sponsor.
- * The user must be linked to an approved vendor/sponsor account.
+ * Applications must come from the applicant's linked portal account (or an admin).
  */
 export const selfServiceSubmit = mutation({
   args: {
@@ -509,12 +575,14 @@ export const selfServiceSubmit = mutation({
     // Verify applicant exists and is approved
     let applicantName = ''
     let applicantEmail = ''
+    let companyName = ''
 
     if (args.applicantType === 'vendor') {
       const vendorId = parseApplicantId(args.applicantId, 'vendors')
       if (!vendorId) {
         throw new Error('Invalid vendor ID format')
       }
+      assertOwnApplicant(user, 'vendor', vendorId)
       const vendor = await ctx.db.get(vendorId)
       if (!vendor) {
         throw new Error('Vendor not found')
@@ -523,6 +591,7 @@ export const selfServiceSubmit = mutation({
         throw new Error('Only approved vendors can apply to events. Please wait for your application to be approved.')
       }
       applicantName = vendor.contactName || vendor.name
+      companyName = vendor.name
       applicantEmail = vendor.contactEmail || ''
 
       // Check if seeking vendors
@@ -534,6 +603,7 @@ export const selfServiceSubmit = mutation({
       if (!sponsorId) {
         throw new Error('Invalid sponsor ID format')
       }
+      assertOwnApplicant(user, 'sponsor', sponsorId)
       const sponsor = await ctx.db.get(sponsorId)
       if (!sponsor) {
         throw new Error('Sponsor not found')
@@ -542,6 +612,7 @@ export const selfServiceSubmit = mutation({
         throw new Error('Only approved sponsors can apply to events. Please wait for your application to be approved.')
       }
       applicantName = sponsor.contactName || sponsor.name
+      companyName = sponsor.name
       applicantEmail = sponsor.contactEmail || ''
 
       // Check if seeking sponsors
@@ -583,6 +654,8 @@ export const selfServiceSubmit = mutation({
       createdAt: Date.now(),
     })
 
+    await notifyApplicationReceived(ctx, event, companyName, args.applicantType, user._id)
+
     return { applicationId, success: true }
   },
 })
@@ -600,6 +673,12 @@ export const listMyApplications = query({
     const user = await getCurrentUser(ctx)
     if (!user) return []
 
+    // Vendors and sponsors can only see their own applications
+    const ownId = args.applicantType === 'vendor' ? user.vendorId : user.sponsorId
+    if (!isAdminRole(user.role) && ownId !== args.applicantId) {
+      return []
+    }
+
     // Get applications for this applicant
     const applications = await ctx.db
       .query('eventApplications')
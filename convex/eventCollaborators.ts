@@ -0,0 +1,86 @@
+import { v } from 'convex/values'
+import { query, mutation } from './_generated/server'
+import { getCurrentUser } from './lib/auth'
+import { canAccessEvent } from './lib/organizations'
+
+// Event collaborators have access to a single event without workspace membership.
+// They are added by accepting an event invitation (see invitations.ts).
+
+// List collaborators on an event (anyone who can view the event)
+export const list = query({
+  args: { eventId: v.id('events') },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return []
+
+    const event = await ctx.db.get(args.eventId)
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'viewer'))) return []
+
+    const collaborators = await ctx.db
+      .query('eventCollaborators')
+      .withIndex('by_event', (q) => q.eq('eventId', args.eventId))
+      .collect()
+
+    return Promise.all(
+      collaborators.map(async (c) => {
+        const member = await ctx.db.get(c.userId)
+        return {
+          _id: c._id,
+          userId: c.userId,
+          role: c.role,
+          name: member?.name,
+          email: member?.email,
+          image: member?.image,
+          createdAt: c.createdAt,
+        }
+      })
+    )
+  },
+})
+
+// Change a collaborator's role (event owners only)
+export const updateRole = mutation({
+  args: {
+    id: v.id('eventCollaborators'),
+    role: v.union(v.literal('editor'), v.literal('viewer')),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Authentication required')
+
+    const collaborator = await ctx.db.get(args.id)
+    if (!collaborator) throw new Error('Collaborator not found')
+
+    const event = await ctx.db.get(collaborator.eventId)
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'owner'))) {
+      throw new Error('Access denied - only event owners can change access')
+    }
+
+    await ctx.db.patch(args.id, { role: args.role })
+
+    return { success: true }
+  },
+})
+
+// Remove a collaborator (event owners), or leave an event yourself
+export const remove = mutation({
+  args: { id: v.id('eventCollaborators') },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Authentication required')
+
+    const collaborator = await ctx.db.get(args.id)
+    if (!collaborator) throw new Error('Collaborator not found')
+
+    if (collaborator.userId !== user._id) {
+      const event = await ctx.db.get(collaborator.eventId)
+      if (!event || !(await canAccessEvent(ctx, event, user._id, 'owner'))) {
+        throw new Error('Access denied - only event owners can remove collaborators')
+      }
+    }
+
+    await ctx.db.delete(args.id)
+
+    return { success: true }
+  },
+})
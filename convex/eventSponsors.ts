@@ -1,6 +1,8 @@
 import { mutation, query } from './_generated/server'
 import { v } from 'convex/values'
 import { getCurrentUser } from './lib/auth'
+import { canAccessEvent } from './lib/organizations'
+import { syncSponsorRevenueItem } from './lib/revenue'
 
 /**
  * Event-Sponsor relationship mutations
@@ -31,7 +33,7 @@ export const addToEvent = mutation({
     if (!event) {
       throw new Error('Event not found')
     }
-    if (event.organizerId !== currentUser._id) {
+    if (!(await canAccessEvent(ctx, event, currentUser._id, 'editor'))) {
       throw new Error('Not authorized to modify this event')
     }
 
@@ -104,9 +106,9 @@ export const updateStatus = mutation({
       throw new Error('Sponsor relationship not found')
     }
 
-    // Verify event belongs to user
+    // Verify the user can edit the event
     const event = await ctx.db.get(eventSponsor.eventId)
-    if (!event || event.organizerId !== currentUser._id) {
+    if (!event || !(await canAccessEvent(ctx, event, currentUser._id, 'editor'))) {
       throw new Error('Not authorized to modify this relationship')
     }
 
@@ -126,6 +128,9 @@ export const updateStatus = mutation({
       updatedAt: Date.now(),
     })
 
+    // Keep the sponsorship line in the revenue ledger in step
+    await syncSponsorRevenueItem(ctx, args.id)
+
     return { success: true }
   },
 })
@@ -148,13 +153,17 @@ export const removeFromEvent = mutation({
       throw new Error('Sponsor relationship not found')
     }
 
-    // Verify event belongs to user
+    // Verify the user can edit the event
     const event = await ctx.db.get(eventSponsor.eventId)
-    if (!event || event.organizerId !== currentUser._id) {
+    if (!event || !(await canAccessEvent(ctx, event, currentUser._id, 'editor'))) {
       throw new Error('Not authorized to modify this relationship')
     }
 
     await ctx.db.delete(args.id)
+
+    // Drop the sponsorship line, or cancel it if money was already received
+    await syncSponsorRevenueItem(ctx, args.id)
+
     return { success: true }
   },
 })
@@ -172,9 +181,9 @@ export const listForEvent = query({
       return []
     }
 
-    // Verify event belongs to user
+    // Verify the user can see the event
     const event = await ctx.db.get(args.eventId)
-    if (!event || event.organizerId !== currentUser._id) {
+    if (!event || !(await canAccessEvent(ctx, event, currentUser._id, 'viewer'))) {
       return []
     }
 
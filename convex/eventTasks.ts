@@ -1,6 +1,10 @@
 import { v } from 'convex/values'
 import { query, mutation } from './_generated/server'
 import { getCurrentUser } from './lib/auth'
+import { canAccessEvent, listEventEditorIds } from './lib/organizations'
+import { assignTask, sortTasks, summarizeTasks, taskWebhookData, triggerPlanningWebhook } from './lib/eventPlanning'
+import { parseTaskImportRows, summarizeImport } from './lib/planningImport'
+import { WEBHOOK_EVENTS } from './webhooks'
 
 // Task categories for event planning
 export const TASK_CATEGORIES = [
@@ -26,9 +30,9 @@ export const listByEvent = query({
     const user = await getCurrentUser(ctx)
     if (!user) return []
 
-    // Verify user owns the event
+    // Verify user can view the event
     const event = await ctx.db.get(args.eventId)
-    if (!event || event.organizerId !== user._id) return []
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'viewer'))) return []
 
     const tasksQuery = ctx.db
       .query('eventTasks')
@@ -39,22 +43,25 @@ export const listByEvent = query({
     // Filter by status if provided
     const filtered = args.status ? tasks.filter((t) => t.status === args.status) : tasks
 
-    // Sort by sortOrder, then by priority (urgent first), then by dueDate
-    return filtered.sort((a, b) => {
-      // First by sortOrder if both have it
-      if (a.sortOrder !== undefined && b.sortOrder !== undefined) {
-        return a.sortOrder - b.sortOrder
-      }
-      // Then by priority
-      const priorityOrder = { urgent: 0, high: 1, medium: 2, low: 3 }
-      const priorityDiff = priorityOrder[a.priority] - priorityOrder[b.priority]
-      if (priorityDiff !== 0) return priorityDiff
-      // Then by due date (tasks without due date go last)
-      if (a.dueDate && b.dueDate) return a.dueDate - b.dueDate
-      if (a.dueDate) return -1
-      if (b.dueDate) return 1
-      return 0
-    })
+    return sortTasks(filtered)
+  },
+})
+
+// Get a single task
+export const get = query({
+  args: { id: v.id('eventTasks') },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return null
+
+    const task = await ctx.db.get(args.id)
+    if (!task) return null
+
+    // Verify user can view the event
+    const event = await ctx.db.get(task.eventId)
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'viewer'))) return null
+
+    return task
   },
 })
 
@@ -65,52 +72,35 @@ export const getSummary = query({
     const user = await getCurrentUser(ctx)
     if (!user) return null
 
-    // Verify user owns the event
+    // Verify user can view the event
     const event = await ctx.db.get(args.eventId)
-    if (!event || event.organizerId !== user._id) return null
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'viewer'))) return null
 
     const tasks = await ctx.db
       .query('eventTasks')
       .withIndex('by_event', (q) => q.eq('eventId', args.eventId))
       .collect()
 
-    const now = Date.now()
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-    const todayTs = today.getTime()
-    const weekFromNow = todayTs + 7 * 24 * 60 * 60 * 1000
-
-    const byStatus = {
-      todo: tasks.filter((t) => t.status === 'todo').length,
-      in_progress: tasks.filter((t) => t.status === 'in_progress').length,
-      blocked: tasks.filter((t) => t.status === 'blocked').length,
-      completed: tasks.filter((t) => t.status === 'completed').length,
-    }
+    return summarizeTasks(tasks)
+  },
+})
 
-    const overdue = tasks.filter(
-      (t) => t.dueDate && t.dueDate < now && t.status !== 'completed'
-    ).length
-
-    const dueThisWeek = tasks.filter(
-      (t) => t.dueDate && t.dueDate >= todayTs && t.dueDate <= weekFromNow && t.status !== 'completed'
-    ).length
-
-    const urgent = tasks.filter(
-      (t) => t.priority === 'urgent' && t.status !== 'completed'
-    ).length
-
-    const completionRate = tasks.length > 0
-      ? Math.round((byStatus.completed / tasks.length) * 100)
-      : 0
-
-    return {
-      total: tasks.length,
-      byStatus,
-      overdue,
-      dueThisWeek,
-      urgent,
-      completionRate,
-    }
+// List people a task can be assigned to (everyone who can edit the event)
+export const listAssignees = query({
+  args: { eventId: v.id('events') },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return []
+
+    // Verify user can view the event
+    const event = await ctx.db.get(args.eventId)
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'viewer'))) return []
+
+    const ids = await listEventEditorIds(ctx, event)
+    const users = await Promise.all(ids.map((id) => ctx.db.get(id)))
+    return users
+      .filter((u) => u !== null)
+      .map((u) => ({ userId: u._id, name: u.name, email: u.email, image: u.image }))
   },
 })
 
@@ -124,6 +114,7 @@ export const create = mutation({
     priority: v.optional(v.union(v.literal('low'), v.literal('medium'), v.literal('high'), v.literal('urgent'))),
     status: v.optional(v.union(v.literal('todo'), v.literal('in_progress'), v.literal('blocked'), v.literal('completed'))),
     dueDate: v.optional(v.number()),
+    assignedTo: v.optional(v.id('users')),
     linkedVendorId: v.optional(v.id('vendors')),
     linkedSponsorId: v.optional(v.id('sponsors')),
     linkedBudgetItemId: v.optional(v.id('budgetItems')),
@@ -133,9 +124,9 @@ export const create = mutation({
     const user = await getCurrentUser(ctx)
     if (!user) throw new Error('Not authenticated')
 
-    // Verify user owns the event
+    // Verify user can edit the event
     const event = await ctx.db.get(args.eventId)
-    if (!event || event.organizerId !== user._id) {
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
       throw new Error('Event not found or access denied')
     }
 
@@ -146,7 +137,7 @@ export const create = mutation({
       .collect()
     const maxOrder = existingTasks.reduce((max, t) => Math.max(max, t.sortOrder || 0), 0)
 
-    return await ctx.db.insert('eventTasks', {
+    const taskId = await ctx.db.insert('eventTasks', {
       eventId: args.eventId,
       title: args.title,
       description: args.description,
@@ -154,13 +145,23 @@ export const create = mutation({
       priority: args.priority || 'medium',
       status: args.status || 'todo',
       dueDate: args.dueDate,
+      assignedTo: args.assignedTo,
       linkedVendorId: args.linkedVendorId,
       linkedSponsorId: args.linkedSponsorId,
       linkedBudgetItemId: args.linkedBudgetItemId,
       notes: args.notes,
+      completedAt: args.status === 'completed' ? Date.now() : undefined,
       sortOrder: maxOrder + 1,
       createdAt: Date.now(),
     })
+
+    const task = await ctx.db.get(taskId)
+    if (task) {
+      if (args.assignedTo) await assignTask(ctx, event, task, args.assignedTo, user)
+      await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.TASK_CREATED, taskWebhookData(task))
+    }
+
+    return taskId
   },
 })
 
@@ -187,9 +188,9 @@ export const update = mutation({
     const task = await ctx.db.get(args.id)
     if (!task) throw new Error('Task not found')
 
-    // Verify user owns the event
+    // Verify user can edit the event
     const event = await ctx.db.get(task.eventId)
-    if (!event || event.organizerId !== user._id) {
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
       throw new Error('Access denied')
     }
 
@@ -203,6 +204,11 @@ export const update = mutation({
     if (updates.priority !== undefined) cleanUpdates.priority = updates.priority
     if (updates.status !== undefined) cleanUpdates.status = updates.status
     if (updates.dueDate !== undefined) cleanUpdates.dueDate = updates.dueDate
+    // A new due date gets its own reminders
+    if (updates.dueDate !== undefined && updates.dueDate !== task.dueDate) {
+      cleanUpdates.dueSoonNotifiedAt = undefined
+      cleanUpdates.overdueNotifiedAt = undefined
+    }
     if (updates.linkedVendorId !== undefined) cleanUpdates.linkedVendorId = updates.linkedVendorId
     if (updates.linkedSponsorId !== undefined) cleanUpdates.linkedSponsorId = updates.linkedSponsorId
     if (updates.linkedBudgetItemId !== undefined) cleanUpdates.linkedBudgetItemId = updates.linkedBudgetItemId
@@ -223,10 +229,51 @@ export const update = mutation({
       await ctx.db.patch(id, { completedAt: undefined })
     }
 
+    const updated = await ctx.db.get(id)
+    if (updated) {
+      await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.TASK_UPDATED, taskWebhookData(updated))
+      if (updated.status === 'completed' && task.status !== 'completed') {
+        await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.TASK_COMPLETED, taskWebhookData(updated))
+      }
+    }
+
     return id
   },
 })
 
+// Assign a task to someone who can edit the event, or unassign it (omit assignedTo)
+export const assign = mutation({
+  args: {
+    id: v.id('eventTasks'),
+    assignedTo: v.optional(v.id('users')),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Not authenticated')
+
+    const task = await ctx.db.get(args.id)
+    if (!task) throw new Error('Task not found')
+
+    // Verify user can edit the event
+    const event = await ctx.db.get(task.eventId)
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
+      throw new Error('Access denied')
+    }
+
+    if (args.assignedTo === task.assignedTo) return args.id
+
+    if (args.assignedTo) await assignTask(ctx, event, task, args.assignedTo, user)
+    await ctx.db.patch(args.id, { assignedTo: args.assignedTo, updatedAt: Date.now() })
+
+    const updated = await ctx.db.get(args.id)
+    if (updated) {
+      await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.TASK_UPDATED, taskWebhookData(updated))
+    }
+
+    return args.id
+  },
+})
+
 // Toggle task completion (quick action)
 export const toggleComplete = mutation({
   args: { id: v.id('eventTasks') },
@@ -237,9 +284,9 @@ export const toggleComplete = mutation({
     const task = await ctx.db.get(args.id)
     if (!task) throw new Error('Task not found')
 
-    // Verify user owns the event
+    // Verify user can edit the event
     const event = await ctx.db.get(task.eventId)
-    if (!event || event.organizerId !== user._id) {
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
       throw new Error('Access denied')
     }
 
@@ -250,6 +297,14 @@ export const toggleComplete = mutation({
       updatedAt: Date.now(),
     })
 
+    const updated = await ctx.db.get(args.id)
+    if (updated) {
+      await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.TASK_UPDATED, taskWebhookData(updated))
+      if (!isCompleted) {
+        await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.TASK_COMPLETED, taskWebhookData(updated))
+      }
+    }
+
     return !isCompleted
   },
 })
@@ -264,13 +319,14 @@ export const remove = mutation({
     const task = await ctx.db.get(args.id)
     if (!task) throw new Error('Task not found')
 
-    // Verify user owns the event
+    // Verify user can edit the event
     const event = await ctx.db.get(task.eventId)
-    if (!event || event.organizerId !== user._id) {
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
       throw new Error('Access denied')
     }
 
     await ctx.db.delete(args.id)
+    await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.TASK_DELETED, taskWebhookData(task))
   },
 })
 
@@ -284,9 +340,9 @@ export const createFromTemplate = mutation({
     const user = await getCurrentUser(ctx)
     if (!user) throw new Error('Not authenticated')
 
-    // Verify user owns the event
+    // Verify user can edit the event
     const event = await ctx.db.get(args.eventId)
-    if (!event || event.organizerId !== user._id) {
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
       throw new Error('Event not found or access denied')
     }
 
@@ -352,12 +408,78 @@ export const createFromTemplate = mutation({
         createdAt: Date.now(),
       })
       createdIds.push(id)
+
+      const created = await ctx.db.get(id)
+      if (created) {
+        await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.TASK_CREATED, taskWebhookData(created))
+      }
     }
 
     return createdIds
   },
 })
 
+// Import tasks from a spreadsheet, after the existing ones. Rows are already mapped
+// onto our fields; invalid rows are reported and skipped. With dryRun nothing is written.
+export const importTasks = mutation({
+  args: {
+    eventId: v.id('events'),
+    rows: v.array(
+      v.object({
+        rowNumber: v.number(),
+        title: v.optional(v.string()),
+        description: v.optional(v.string()),
+        category: v.optional(v.string()),
+        priority: v.optional(v.string()),
+        status: v.optional(v.string()),
+        dueDate: v.optional(v.string()),
+        notes: v.optional(v.string()),
+      })
+    ),
+    dryRun: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Not authenticated')
+
+    // Verify user can edit the event
+    const event = await ctx.db.get(args.eventId)
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
+      throw new Error('Event not found or access denied')
+    }
+
+    const results = parseTaskImportRows(args.rows, TASK_CATEGORIES)
+    if (args.dryRun) return summarizeImport(results, true, 0)
+
+    const existingTasks = await ctx.db
+      .query('eventTasks')
+      .withIndex('by_event', (q) => q.eq('eventId', args.eventId))
+      .collect()
+    let sortOrder = existingTasks.reduce((max, t) => Math.max(max, t.sortOrder || 0), 0)
+
+    let imported = 0
+    for (const { value } of results) {
+      if (!value) continue
+
+      const id = await ctx.db.insert('eventTasks', {
+        eventId: args.eventId,
+        ...value,
+        completedAt: value.status === 'completed' ? Date.now() : undefined,
+        sortOrder: ++sortOrder,
+        createdAt: Date.now(),
+      })
+      imported++
+
+      const created = await ctx.db.get(id)
+      if (created) {
+        await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.TASK_CREATED, taskWebhookData(created))
+      }
+    }
+
+    return summarizeImport(results, false, imported)
+  },
+})
+
 // Reorder tasks (for drag-and-drop)
 export const reorder = mutation({
   args: {
@@ -373,7 +495,7 @@ export const reorder = mutation({
       if (!task) continue
 
       const event = await ctx.db.get(task.eventId)
-      if (!event || event.organizerId !== user._id) {
+      if (!event || !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
         throw new Error('Access denied')
       }
 
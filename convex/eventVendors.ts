@@ -1,6 +1,10 @@
 import { mutation, query } from './_generated/server'
 import { v } from 'convex/values'
+import { internal } from './_generated/api'
 import { getCurrentUser } from './lib/auth'
+import { canAccessEvent } from './lib/organizations'
+import { createPaymentSchedule } from './lib/invoices'
+import { WEBHOOK_EVENTS } from './webhooks'
 
 /**
  * Event-Vendor relationship mutations
@@ -30,7 +34,7 @@ export const addToEvent = mutation({
     if (!event) {
       throw new Error('Event not found')
     }
-    if (event.organizerId !== currentUser._id) {
+    if (!(await canAccessEvent(ctx, event, currentUser._id, 'editor'))) {
       throw new Error('Not authorized to modify this event')
     }
 
@@ -98,9 +102,9 @@ export const updateStatus = mutation({
       throw new Error('Vendor relationship not found')
     }
 
-    // Verify event belongs to user
+    // Verify the user can edit the event
     const event = await ctx.db.get(eventVendor.eventId)
-    if (!event || event.organizerId !== currentUser._id) {
+    if (!event || !(await canAccessEvent(ctx, event, currentUser._id, 'editor'))) {
       throw new Error('Not authorized to modify this relationship')
     }
 
@@ -118,12 +122,37 @@ export const updateStatus = mutation({
       updatedAt: Date.now(),
     })
 
+    if (args.status === 'confirmed' && eventVendor.status !== 'confirmed') {
+      // Bill the engagement from the vendor's payment terms, unless it already has invoices
+      const hasInvoices = await ctx.db
+        .query('invoices')
+        .withIndex('by_event_vendor', (q) => q.eq('eventVendorId', args.id))
+        .first()
+      const updated = await ctx.db.get(args.id)
+      if (!hasInvoices && updated) {
+        await createPaymentSchedule(ctx, event, updated, currentUser._id)
+      }
+
+      await ctx.scheduler.runAfter(0, internal.webhooks.triggerWebhooks, {
+        userId: event.organizerId,
+        eventType: WEBHOOK_EVENTS.VENDOR_CONFIRMED,
+        eventId: event._id,
+        data: {
+          eventId: event._id,
+          vendorId: eventVendor.vendorId,
+          eventVendorId: args.id,
+          finalBudget: args.finalBudget,
+        },
+      })
+    }
+
     return { success: true }
   },
 })
 
 /**
- * Remove vendor from event
+ * Remove vendor from event, with its unpaid invoices. Vendors with paid
+ * invoices can't be removed.
  */
 export const removeFromEvent = mutation({
   args: {
@@ -140,12 +169,24 @@ export const removeFromEvent = mutation({
       throw new Error('Vendor relationship not found')
     }
 
-    // Verify event belongs to user
+    // Verify the user can edit the event
     const event = await ctx.db.get(eventVendor.eventId)
-    if (!event || event.organizerId !== currentUser._id) {
+    if (!event || !(await canAccessEvent(ctx, event, currentUser._id, 'editor'))) {
       throw new Error('Not authorized to modify this relationship')
     }
 
+    // Paid invoices are the record of money spent, so they can't go with the vendor
+    const invoices = await ctx.db
+      .query('invoices')
+      .withIndex('by_event_vendor', (q) => q.eq('eventVendorId', args.id))
+      .collect()
+    if (invoices.some((invoice) => invoice.status === 'paid')) {
+      throw new Error('This vendor has paid invoices, so it cannot be removed. Mark it as declined or completed instead.')
+    }
+    for (const invoice of invoices) {
+      await ctx.db.delete(invoice._id)
+    }
+
     await ctx.db.delete(args.id)
     return { success: true }
   },
@@ -164,9 +205,9 @@ export const listForEvent = query({
       return []
     }
 
-    // Verify event belongs to user
+    // Verify the user can see the event
     const event = await ctx.db.get(args.eventId)
-    if (!event || event.organizerId !== currentUser._id) {
+    if (!event || !(await canAccessEvent(ctx, event, currentUser._id, 'viewer'))) {
       return []
     }
 
@@ -1,6 +1,15 @@
 import { v } from 'convex/values'
-import { mutation, query } from './_generated/server'
-import { getCurrentUser } from './lib/auth'
+import { paginationOptsValidator, type OrderedQuery } from 'convex/server'
+import { mutation, query, type QueryCtx } from './_generated/server'
+import type { DataModel, Doc } from './_generated/dataModel'
+import { internal } from './_generated/api'
+import { getCurrentUser, isPortalRole } from './lib/auth'
+import { canAccessEvent, getActiveMembership, getEventRole, hasOrgRole, listWorkspaceEvents } from './lib/organizations'
+import { deleteInquiry } from './lib/inquiryThreads'
+import { relockPaidExchangeRates } from './lib/currency'
+import { resolveEventDates } from './lib/timezones'
+import { eventSearchText, MAX_SEARCH_RESULTS, normalizeSearchQuery } from './lib/search'
+import { WEBHOOK_EVENTS } from './webhooks'
 
 // Valid event status transitions (state machine)
 const VALID_STATUS_TRANSITIONS: Record<string, string[]> = {
@@ -28,7 +37,7 @@ export const list = query({
   },
 })
 
-// Get events for the current organizer with optional status filter
+// Get events in the current user's active workspace with optional status filter
 export const getMyEvents = query({
   args: {
     status: v.optional(v.string()),
@@ -37,11 +46,7 @@ export const getMyEvents = query({
     const user = await getCurrentUser(ctx)
     if (!user) return []
 
-    const eventsQuery = ctx.db
-      .query('events')
-      .withIndex('by_organizer', (q) => q.eq('organizerId', user._id))
-
-    const events = await eventsQuery.order('desc').collect()
+    const events = await listWorkspaceEvents(ctx, user)
 
     // Filter by status if provided
     if (args.status && args.status !== 'all') {
@@ -52,7 +57,7 @@ export const getMyEvents = query({
   },
 })
 
-// Get event by ID - public for active events, owner/superadmin for drafts
+// Get event by ID - public for active events, workspace members/superadmin for drafts
 export const get = query({
   args: { id: v.id('events') },
   handler: async (ctx, args) => {
@@ -64,13 +69,13 @@ export const get = query({
       return event
     }
 
-    // Draft/cancelled events require ownership or superadmin
+    // Draft/cancelled events require workspace access or superadmin
     const user = await getCurrentUser(ctx)
     if (!user) {
       throw new Error('Authentication required to view this event')
     }
 
-    if (user.role !== 'superadmin' && event.organizerId !== user._id) {
+    if (user.role !== 'superadmin' && !(await canAccessEvent(ctx, event, user._id, 'viewer'))) {
       throw new Error('Access denied')
     }
 
@@ -78,11 +83,27 @@ export const get = query({
   },
 })
 
-// Create event - organizers only, creates for themselves
+// Get the current user's role on an event (owner/editor/viewer), or null
+export const getMyRole = query({
+  args: { id: v.id('events') },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return null
+
+    const event = await ctx.db.get(args.id)
+    if (!event) return null
+
+    return getEventRole(ctx, event, user._id)
+  },
+})
+
+// Create event - in the creator's active workspace (editors and owners only)
 export const create = mutation({
   args: {
     title: v.string(),
-    startDate: v.number(), // Unix timestamp
+    startDate: v.optional(v.number()), // Unix timestamp
+    // Or a local date/time in the event's time zone, e.g. 2025-03-14T09:00
+    startLocal: v.optional(v.string()),
     description: v.optional(v.string()),
     eventType: v.optional(v.string()),
     status: v.optional(v.string()),
@@ -95,8 +116,9 @@ export const create = mutation({
     expectedAttendees: v.optional(v.number()),
     budget: v.optional(v.number()),
     budgetCurrency: v.optional(v.string()),
-    // End date/timezone
+    // End date/timezone (local dates/times default to the organizer profile's time zone)
     endDate: v.optional(v.number()),
+    endLocal: v.optional(v.string()),
     timezone: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
@@ -105,6 +127,11 @@ export const create = mutation({
       throw new Error('Authentication required')
     }
 
+    const { startDate, endDate, timezone } = await resolveEventDates(ctx, user._id, args)
+    if (startDate === undefined) {
+      throw new Error('startDate or startLocal is required')
+    }
+
     // Input validation - string length limits
     if (args.title.length > 200) {
       throw new Error('Event title must be 200 characters or less')
@@ -132,19 +159,29 @@ export const create = mutation({
 
     // Validate date is not too far in the past
     const oneYearAgo = Date.now() - (365 * 24 * 60 * 60 * 1000)
-    if (args.startDate < oneYearAgo) {
+    if (startDate < oneYearAgo) {
       throw new Error('Event date cannot be more than one year in the past')
     }
 
     // Validate end date is after start date if provided
-    if (args.endDate && args.endDate < args.startDate) {
+    if (endDate && endDate < startDate) {
       throw new Error('End date must be after start date')
     }
 
-    return await ctx.db.insert('events', {
+    if (isPortalRole(user.role)) {
+      throw new Error('Portal accounts cannot create events')
+    }
+
+    const membership = await getActiveMembership(ctx, user)
+    if (membership && !hasOrgRole(membership.role, 'editor')) {
+      throw new Error('Access denied - viewers cannot create events in this workspace')
+    }
+
+    const eventId = await ctx.db.insert('events', {
       organizerId: user._id, // Always use current user's ID
+      organizationId: membership?.organizationId,
       title: args.title.trim(),
-      startDate: args.startDate,
+      startDate,
       description: args.description?.trim(),
       eventType: args.eventType,
       status: args.status ?? 'draft',
@@ -155,19 +192,36 @@ export const create = mutation({
       expectedAttendees: args.expectedAttendees,
       budget: args.budget,
       budgetCurrency: args.budgetCurrency,
-      endDate: args.endDate,
-      timezone: args.timezone,
+      endDate,
+      timezone,
+      searchText: eventSearchText({
+        title: args.title.trim(),
+        description: args.description?.trim(),
+        eventType: args.eventType,
+        venueName: args.venueName?.trim(),
+      }),
       createdAt: Date.now(),
     })
+
+    await ctx.scheduler.runAfter(0, internal.webhooks.triggerWebhooks, {
+      userId: user._id,
+      eventType: WEBHOOK_EVENTS.EVENT_CREATED,
+      eventId,
+      data: { id: eventId, title: args.title.trim(), startDate, status: args.status ?? 'draft' },
+    })
+
+    return eventId
   },
 })
 
-// Update event - owner or superadmin only
+// Update event - workspace editors/owners or superadmin
 export const update = mutation({
   args: {
     id: v.id('events'),
     title: v.optional(v.string()),
     startDate: v.optional(v.number()),
+    // Or a local date/time in the event's time zone, e.g. 2025-03-14T09:00
+    startLocal: v.optional(v.string()),
     description: v.optional(v.string()),
     eventType: v.optional(v.string()),
     status: v.optional(v.string()),
@@ -180,8 +234,9 @@ export const update = mutation({
     expectedAttendees: v.optional(v.number()),
     budget: v.optional(v.number()),
     budgetCurrency: v.optional(v.string()),
-    // End date/timezone
+    // End date/timezone (changing only the time zone keeps the same instants)
     endDate: v.optional(v.number()),
+    endLocal: v.optional(v.string()),
     timezone: v.optional(v.string()),
     // Requirements
     requirements: v.optional(
@@ -206,9 +261,9 @@ export const update = mutation({
       throw new Error('Event not found')
     }
 
-    // Only owner or superadmin can update
-    if (user.role !== 'superadmin' && event.organizerId !== user._id) {
-      throw new Error('Access denied - you can only update your own events')
+    // Only editors, owners or superadmin can update
+    if (user.role !== 'superadmin' && !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
+      throw new Error('Access denied - you need edit access to update this event')
     }
 
     // Input validation - string length limits
@@ -238,9 +293,11 @@ export const update = mutation({
       throw new Error('Expected attendees cannot be negative')
     }
 
+    const dates = await resolveEventDates(ctx, user._id, args, event.timezone)
+
     // Validate date order if both provided
-    const startDate = args.startDate ?? event.startDate
-    const endDate = args.endDate ?? event.endDate
+    const startDate = dates.startDate ?? event.startDate
+    const endDate = dates.endDate ?? event.endDate
     if (startDate && endDate && startDate > endDate) {
       throw new Error('Start date must be before end date')
     }
@@ -255,19 +312,31 @@ export const update = mutation({
       }
     }
 
-    const { id, ...updates } = args
+    const { id, startLocal, endLocal, ...updates } = args
+    // Keep the time zone local dates were read in
+    const usedLocal = startLocal !== undefined || endLocal !== undefined
     // Filter out undefined values
     const cleanUpdates = Object.fromEntries(
-      Object.entries(updates).filter(([, v]) => v !== undefined)
+      Object.entries({
+        ...updates,
+        startDate: dates.startDate,
+        endDate: dates.endDate,
+        timezone: args.timezone !== undefined || usedLocal ? dates.timezone : undefined,
+      }).filter(([, v]) => v !== undefined)
     )
     await ctx.db.patch(id, {
       ...cleanUpdates,
+      searchText: eventSearchText({ ...event, ...cleanUpdates }),
       updatedAt: Date.now(),
     })
+
+    if (args.budgetCurrency !== undefined && args.budgetCurrency !== event.budgetCurrency) {
+      await relockPaidExchangeRates(ctx, id)
+    }
   },
 })
 
-// Duplicate event - owner only (creates a copy as draft)
+// Duplicate event - editors only (creates a copy as draft in the same workspace)
 export const duplicate = mutation({
   args: { id: v.id('events') },
   handler: async (ctx, args) => {
@@ -281,14 +350,15 @@ export const duplicate = mutation({
       throw new Error('Event not found')
     }
 
-    // Only owner or superadmin can duplicate
-    if (user.role !== 'superadmin' && event.organizerId !== user._id) {
-      throw new Error('Access denied - you can only duplicate your own events')
+    // Only editors, owners or superadmin can duplicate
+    if (user.role !== 'superadmin' && !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
+      throw new Error('Access denied - you need edit access to duplicate this event')
     }
 
     // Create new event with copied data as draft
     const newEventId = await ctx.db.insert('events', {
       organizerId: user._id,
+      organizationId: event.organizationId,
       title: `${event.title} (Copy)`,
       description: event.description,
       eventType: event.eventType,
@@ -304,6 +374,7 @@ export const duplicate = mutation({
       budget: event.budget,
       budgetCurrency: event.budgetCurrency,
       requirements: event.requirements,
+      searchText: eventSearchText({ ...event, title: `${event.title} (Copy)` }),
       createdAt: Date.now(),
     })
 
@@ -311,7 +382,7 @@ export const duplicate = mutation({
   },
 })
 
-// Delete event - owner or superadmin only
+// Delete event - workspace owners or superadmin only
 // CASCADE DELETES: Removes all related records to prevent orphaned data
 export const remove = mutation({
   args: { id: v.id('events') },
@@ -326,9 +397,9 @@ export const remove = mutation({
       throw new Error('Event not found')
     }
 
-    // Only owner or superadmin can delete
-    if (user.role !== 'superadmin' && event.organizerId !== user._id) {
-      throw new Error('Access denied - you can only delete your own events')
+    // Only owners or superadmin can delete
+    if (user.role !== 'superadmin' && !(await canAccessEvent(ctx, event, user._id, 'owner'))) {
+      throw new Error('Access denied - only workspace owners can delete this event')
     }
 
     // Prevent deleting active events with confirmed vendors/sponsors
@@ -377,6 +448,24 @@ export const remove = mutation({
       await ctx.db.delete(item._id)
     }
 
+    // CASCADE DELETE: invoices
+    const invoices = await ctx.db
+      .query('invoices')
+      .withIndex('by_event', (q) => q.eq('eventId', args.id))
+      .collect()
+    for (const invoice of invoices) {
+      await ctx.db.delete(invoice._id)
+    }
+
+    // CASCADE DELETE: revenueItems
+    const revenueItems = await ctx.db
+      .query('revenueItems')
+      .withIndex('by_event', (q) => q.eq('eventId', args.id))
+      .collect()
+    for (const item of revenueItems) {
+      await ctx.db.delete(item._id)
+    }
+
     // CASCADE DELETE: eventTasks
     const eventTasks = await ctx.db
       .query('eventTasks')
@@ -395,13 +484,31 @@ export const remove = mutation({
       await ctx.db.delete(app._id)
     }
 
-    // CASCADE DELETE: inquiries related to this event
+    // CASCADE DELETE: inquiries related to this event, with their threads
     const inquiries = await ctx.db
       .query('inquiries')
       .withIndex('by_event', (q) => q.eq('eventId', args.id))
       .collect()
     for (const inquiry of inquiries) {
-      await ctx.db.delete(inquiry._id)
+      await deleteInquiry(ctx, inquiry._id)
+    }
+
+    // CASCADE DELETE: eventCollaborators
+    const collaborators = await ctx.db
+      .query('eventCollaborators')
+      .withIndex('by_event', (q) => q.eq('eventId', args.id))
+      .collect()
+    for (const collaborator of collaborators) {
+      await ctx.db.delete(collaborator._id)
+    }
+
+    // CASCADE DELETE: invitations to this event
+    const invitations = await ctx.db
+      .query('invitations')
+      .withIndex('by_event', (q) => q.eq('eventId', args.id))
+      .collect()
+    for (const invitation of invitations) {
+      await ctx.db.delete(invitation._id)
     }
 
     await ctx.db.delete(args.id)
@@ -412,87 +519,109 @@ export const remove = mutation({
 // Public Event Directory (No auth required)
 // ============================================================================
 
+type PublicEventFilters = {
+  eventType?: string
+  locationType?: string
+  seekingVendors?: boolean
+  seekingSponsors?: boolean
+  search?: string
+}
+
+// Listed (active/planning) public events. With a search term the results are
+// ranked by relevance, otherwise newest first.
+function publicEventsQuery(ctx: QueryCtx, args: PublicEventFilters): OrderedQuery<DataModel['events']> {
+  const eventType = args.eventType && args.eventType !== 'all' ? args.eventType : undefined
+  const locationType = args.locationType && args.locationType !== 'all' ? args.locationType : undefined
+  const search = normalizeSearchQuery(args.search)
+
+  if (search) {
+    return ctx.db
+      .query('events')
+      .withSearchIndex('search_text', (q) => {
+        let query = q.search('searchText', search).eq('isPublic', true)
+        if (eventType) query = query.eq('eventType', eventType)
+        if (locationType) query = query.eq('locationType', locationType)
+        if (args.seekingVendors) query = query.eq('seekingVendors', true)
+        if (args.seekingSponsors) query = query.eq('seekingSponsors', true)
+        return query
+      })
+      // Only active/planning events are listed
+      .filter((q) => q.or(q.eq(q.field('status'), 'active'), q.eq(q.field('status'), 'planning')))
+  }
+
+  return ctx.db
+    .query('events')
+    .withIndex('by_public', (q) => q.eq('isPublic', true))
+    .order('desc')
+    .filter((q) => {
+      const conditions = [
+        q.or(q.eq(q.field('status'), 'active'), q.eq(q.field('status'), 'planning')),
+      ]
+      if (eventType) conditions.push(q.eq(q.field('eventType'), eventType))
+      if (locationType) conditions.push(q.eq(q.field('locationType'), locationType))
+      if (args.seekingVendors) conditions.push(q.eq(q.field('seekingVendors'), true))
+      if (args.seekingSponsors) conditions.push(q.eq(q.field('seekingSponsors'), true))
+      return q.and(...conditions)
+    })
+}
+
+// Sanitized public view of an event (respects visibility settings)
+function toPublicEvent(e: Doc<'events'>) {
+  return {
+    _id: e._id,
+    title: e.title,
+    description: e.description,
+    eventType: e.eventType,
+    startDate: e.startDate,
+    endDate: e.endDate,
+    locationType: e.locationType,
+    // Respect visibility settings
+    venueName: e.publicVisibility?.showVenue !== false ? e.venueName : undefined,
+    expectedAttendees: e.publicVisibility?.showAttendees !== false ? e.expectedAttendees : undefined,
+    budget: e.publicVisibility?.showBudget ? e.budget : undefined,
+    budgetCurrency: e.publicVisibility?.showBudget ? e.budgetCurrency : undefined,
+    // What they're looking for
+    seekingVendors: e.seekingVendors,
+    seekingSponsors: e.seekingSponsors,
+    vendorCategories: e.vendorCategories,
+    sponsorBenefits: e.sponsorBenefits,
+    requirements: e.publicVisibility?.showRequirements !== false ? e.requirements : undefined,
+    createdAt: e.createdAt,
+  }
+}
+
+const publicEventFilterArgs = {
+  eventType: v.optional(v.string()),
+  locationType: v.optional(v.string()),
+  seekingVendors: v.optional(v.boolean()),
+  seekingSponsors: v.optional(v.boolean()),
+  search: v.optional(v.string()),
+}
+
 // List public events for the directory (vendors/sponsors can browse)
 export const listPublic = query({
   args: {
-    eventType: v.optional(v.string()),
-    locationType: v.optional(v.string()),
-    seekingVendors: v.optional(v.boolean()),
-    seekingSponsors: v.optional(v.boolean()),
-    search: v.optional(v.string()),
+    ...publicEventFilterArgs,
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    // Get all public events that are active or planning
-    let events = await ctx.db
-      .query('events')
-      .withIndex('by_public', (q) => q.eq('isPublic', true))
-      .order('desc')
-      .collect()
+    const limit = Math.min(args.limit || 50, MAX_SEARCH_RESULTS)
+    const events = await publicEventsQuery(ctx, args).take(limit)
 
-    // Filter to only active/planning events
-    events = events.filter(
-      (e) => e.status === 'active' || e.status === 'planning'
-    )
-
-    // Filter by event type
-    if (args.eventType && args.eventType !== 'all') {
-      events = events.filter((e) => e.eventType === args.eventType)
-    }
-
-    // Filter by location type
-    if (args.locationType && args.locationType !== 'all') {
-      events = events.filter((e) => e.locationType === args.locationType)
-    }
-
-    // Filter by seeking vendors
-    if (args.seekingVendors) {
-      events = events.filter((e) => e.seekingVendors)
-    }
-
-    // Filter by seeking sponsors
-    if (args.seekingSponsors) {
-      events = events.filter((e) => e.seekingSponsors)
-    }
-
-    // Search filter
-    if (args.search && args.search.trim()) {
-      const searchLower = args.search.toLowerCase()
-      events = events.filter(
-        (e) =>
-          e.title.toLowerCase().includes(searchLower) ||
-          e.description?.toLowerCase().includes(searchLower) ||
-          e.eventType?.toLowerCase().includes(searchLower) ||
-          e.venueName?.toLowerCase().includes(searchLower)
-      )
-    }
+    return events.map(toPublicEvent)
+  },
+})
 
-    // Apply limit
-    const limit = args.limit || 50
-    events = events.slice(0, limit)
+// One page of public events (cursor pagination for the REST API)
+export const listPublicPaginated = query({
+  args: {
+    ...publicEventFilterArgs,
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const result = await publicEventsQuery(ctx, args).paginate(args.paginationOpts)
 
-    // Return sanitized public data (respect visibility settings)
-    return events.map((e) => ({
-      _id: e._id,
-      title: e.title,
-      description: e.description,
-      eventType: e.eventType,
-      startDate: e.startDate,
-      endDate: e.endDate,
-      locationType: e.locationType,
-      // Respect visibility settings
-      venueName: e.publicVisibility?.showVenue !== false ? e.venueName : undefined,
-      expectedAttendees: e.publicVisibility?.showAttendees !== false ? e.expectedAttendees : undefined,
-      budget: e.publicVisibility?.showBudget ? e.budget : undefined,
-      budgetCurrency: e.publicVisibility?.showBudget ? e.budgetCurrency : undefined,
-      // What they're looking for
-      seekingVendors: e.seekingVendors,
-      seekingSponsors: e.seekingSponsors,
-      vendorCategories: e.vendorCategories,
-      sponsorBenefits: e.sponsorBenefits,
-      requirements: e.publicVisibility?.showRequirements !== false ? e.requirements : undefined,
-      createdAt: e.createdAt,
-    }))
+    return { ...result, page: result.page.map(toPublicEvent) }
   },
 })
 
@@ -557,7 +686,7 @@ export const getPublicEventTypes = query({
   },
 })
 
-// Toggle event public visibility - owner only
+// Toggle event public visibility - editors and owners only
 export const setPublicVisibility = mutation({
   args: {
     id: v.id('events'),
@@ -586,15 +715,17 @@ export const setPublicVisibility = mutation({
       throw new Error('Event not found')
     }
 
-    // Only owner or superadmin can change visibility
-    if (user.role !== 'superadmin' && event.organizerId !== user._id) {
+    // Only editors, owners or superadmin can change visibility
+    if (user.role !== 'superadmin' && !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
       throw new Error('Access denied')
     }
 
     const { id, ...updates } = args
 
+    // Also fills searchText for events written before it existed
     await ctx.db.patch(id, {
       ...updates,
+      searchText: eventSearchText(event),
       updatedAt: Date.now(),
     })
 
@@ -606,17 +737,14 @@ export const setPublicVisibility = mutation({
 // Dashboard Stats Queries
 // ============================================================================
 
-// Get stats for the current organizer's dashboard
+// Get stats for the active workspace's dashboard
 export const getMyStats = query({
   args: {},
   handler: async (ctx) => {
     const user = await getCurrentUser(ctx)
     if (!user) return null
 
-    const events = await ctx.db
-      .query('events')
-      .withIndex('by_organizer', (q) => q.eq('organizerId', user._id))
-      .collect()
+    const events = await listWorkspaceEvents(ctx, user)
 
     const now = Date.now()
 
@@ -679,10 +807,7 @@ export const getUpcoming = query({
     const now = Date.now()
     const limit = args.limit || 5
 
-    const events = await ctx.db
-      .query('events')
-      .withIndex('by_organizer', (q) => q.eq('organizerId', user._id))
-      .collect()
+    const events = await listWorkspaceEvents(ctx, user)
 
     // Filter to upcoming events and sort by start date
     const upcoming = events
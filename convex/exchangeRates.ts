@@ -0,0 +1,162 @@
+import { v } from 'convex/values'
+import { query, mutation, internalMutation } from './_generated/server'
+import type { MutationCtx } from './_generated/server'
+import type { Id } from './_generated/dataModel'
+import { assertRole, getCurrentUser, isAdminRole } from './lib/auth'
+import { BASE_CURRENCY, isRateDate, normalizeCurrency } from './lib/currency'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Starting rates for `npx convex run exchangeRates:seed` when no rates are given.
+// Approximate values for getting started offline - replace them with real ones.
+export const SEED_EXCHANGE_RATES = [
+  { currency: 'MYR', rate: 4.2 },
+  { currency: 'SGD', rate: 1.3 },
+  { currency: 'EUR', rate: 0.86 },
+  { currency: 'GBP', rate: 0.75 },
+  { currency: 'AUD', rate: 1.52 },
+  { currency: 'IDR', rate: 16300 },
+  { currency: 'THB', rate: 32.5 },
+  { currency: 'JPY', rate: 150 },
+  { currency: 'INR', rate: 88 },
+]
+
+const SEED_EFFECTIVE_DATE = '2026-01-01'
+
+const rateValidator = v.object({
+  currency: v.string(),
+  rate: v.number(),
+  effectiveDate: v.string(),
+})
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Insert a rate, or replace the rate already stored for that currency and date
+ */
+async function upsertRate(
+  ctx: MutationCtx,
+  input: { currency: string; rate: number; effectiveDate: string },
+  source: 'manual' | 'seed',
+  userId?: Id<'users'>
+) {
+  const currency = normalizeCurrency(input.currency)
+  if (currency === BASE_CURRENCY) {
+    throw new Error(`Rates are stored against ${BASE_CURRENCY}, so it has no rate of its own`)
+  }
+  if (!Number.isFinite(input.rate) || input.rate <= 0) {
+    throw new Error('Rate must be a positive number')
+  }
+  if (!isRateDate(input.effectiveDate)) {
+    throw new Error('Effective date must be a YYYY-MM-DD date')
+  }
+
+  const now = Date.now()
+  const existing = await ctx.db
+    .query('exchangeRates')
+    .withIndex('by_currency_date', (q) =>
+      q.eq('currency', currency).eq('effectiveDate', input.effectiveDate)
+    )
+    .first()
+
+  if (existing) {
+    await ctx.db.patch(existing._id, { rate: input.rate, source, updatedBy: userId, updatedAt: now })
+    return existing._id
+  }
+
+  return ctx.db.insert('exchangeRates', {
+    currency,
+    rate: input.rate,
+    effectiveDate: input.effectiveDate,
+    source,
+    updatedBy: userId,
+    createdAt: now,
+  })
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * List all stored rates, newest first per currency (admin only)
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx)
+    if (!user || !isAdminRole(user.role)) return []
+
+    const rates = await ctx.db.query('exchangeRates').withIndex('by_currency_date').order('desc').collect()
+    return rates.sort((a, b) => a.currency.localeCompare(b.currency))
+  },
+})
+
+/**
+ * Currencies that can be converted: the base currency plus every currency with a rate
+ */
+export const listCurrencies = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return []
+
+    const rates = await ctx.db.query('exchangeRates').withIndex('by_currency_date').collect()
+    return [BASE_CURRENCY, ...new Set(rates.map((r) => r.currency))].sort()
+  },
+})
+
+// ============================================================================
+// Admin Mutations
+// ============================================================================
+
+/**
+ * Add or replace a rate for a currency on a date (admin only)
+ */
+export const upsert = mutation({
+  args: rateValidator,
+  handler: async (ctx, args) => {
+    const admin = await assertRole(ctx, 'admin')
+    return upsertRate(ctx, args, 'manual', admin._id)
+  },
+})
+
+/**
+ * Delete a stored rate (admin only)
+ */
+export const remove = mutation({
+  args: { id: v.id('exchangeRates') },
+  handler: async (ctx, args) => {
+    await assertRole(ctx, 'admin')
+
+    const rate = await ctx.db.get(args.id)
+    if (!rate) throw new Error('Exchange rate not found')
+
+    await ctx.db.delete(args.id)
+    return { success: true }
+  },
+})
+
+/**
+ * Load rates without network access, e.g. on a fresh deployment:
+ *   npx convex run exchangeRates:seed
+ *   npx convex run exchangeRates:seed '{"rates": [{"currency": "MYR", "rate": 4.21, "effectiveDate": "2026-03-01"}]}'
+ * Without rates, loads SEED_EXCHANGE_RATES.
+ */
+export const seed = internalMutation({
+  args: { rates: v.optional(v.array(rateValidator)) },
+  handler: async (ctx, args) => {
+    const rates =
+      args.rates ?? SEED_EXCHANGE_RATES.map((r) => ({ ...r, effectiveDate: SEED_EFFECTIVE_DATE }))
+
+    for (const rate of rates) {
+      await upsertRate(ctx, rate, 'seed')
+    }
+
+    return { imported: rates.length }
+  },
+})
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest'
+import { assertValidSettings, HOUSEKEEPING_DEFAULTS } from './housekeeping'
+
+describe('assertValidSettings', () => {
+  it('accepts the defaults', () => {
+    expect(() => assertValidSettings(HOUSEKEEPING_DEFAULTS)).not.toThrow()
+  })
+
+  it('rejects values outside the allowed range', () => {
+    expect(() =>
+      assertValidSettings({ ...HOUSEKEEPING_DEFAULTS, requestLogRetentionDays: 0 })
+    ).toThrow('API request log retention')
+    expect(() =>
+      assertValidSettings({ ...HOUSEKEEPING_DEFAULTS, rateLimitRetentionHours: 1 })
+    ).toThrow('Rate limit window retention')
+  })
+
+  it('rejects fractional values', () => {
+    expect(() =>
+      assertValidSettings({ ...HOUSEKEEPING_DEFAULTS, jobRunRetentionDays: 7.5 })
+    ).toThrow('Job run history retention')
+  })
+})
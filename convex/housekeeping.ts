@@ -0,0 +1,540 @@
+import { v } from 'convex/values'
+import { query, mutation, internalQuery, internalMutation, internalAction } from './_generated/server'
+import type { QueryCtx, MutationCtx } from './_generated/server'
+import { internal } from './_generated/api'
+import { assertRole, getCurrentUser, isAdminRole } from './lib/auth'
+import { getTodayDateString } from './aiUsage'
+import { eventSearchText, sponsorSearchText, vendorSearchText } from './lib/search'
+import { sendTaskReminder, TASK_DUE_SOON_MS, TASK_OVERDUE_WINDOW_MS } from './lib/notifications'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export interface HousekeepingSettings {
+  requestLogRetentionDays: number
+  rateLimitRetentionHours: number
+  webhookDeliveryRetentionDays: number
+  jobRunRetentionDays: number
+}
+
+// Used until an admin saves settings
+export const HOUSEKEEPING_DEFAULTS: HousekeepingSettings = {
+  requestLogRetentionDays: 30,
+  rateLimitRetentionHours: 24,
+  webhookDeliveryRetentionDays: 30,
+  jobRunRetentionDays: 30,
+}
+
+// Allowed range per setting. Rate limit windows are hourly, so keep at least two.
+export const RETENTION_LIMITS: Record<
+  keyof HousekeepingSettings,
+  { label: string; min: number; max: number }
+> = {
+  requestLogRetentionDays: { label: 'API request log retention', min: 1, max: 365 },
+  rateLimitRetentionHours: { label: 'Rate limit window retention', min: 2, max: 24 * 30 },
+  webhookDeliveryRetentionDays: { label: 'Webhook delivery retention', min: 1, max: 365 },
+  jobRunRetentionDays: { label: 'Job run history retention', min: 1, max: 365 },
+}
+
+// Job names, with the schedule registered in crons.ts
+export const HOUSEKEEPING_JOBS = {
+  expireApiKeys: { label: 'Expire API keys', schedule: 'Hourly' },
+  pruneRateLimits: { label: 'Prune API rate limit windows', schedule: 'Hourly' },
+  pruneIdempotencyKeys: { label: 'Prune expired idempotency keys', schedule: 'Hourly' },
+  sendTaskReminders: { label: 'Send task due-date reminders', schedule: 'Hourly' },
+  resetAiUsage: { label: 'Reset daily AI usage', schedule: 'Daily at 00:00 UTC' },
+  pruneRequestLogs: { label: 'Prune API request logs', schedule: 'Daily at 03:00 UTC' },
+  pruneWebhookDeliveries: { label: 'Clean up webhook deliveries', schedule: 'Daily at 03:30 UTC' },
+  pruneJobRuns: { label: 'Prune job run history', schedule: 'Daily at 04:00 UTC' },
+  backfillSearchText: { label: 'Build search text for older records', schedule: 'Hourly until done' },
+} as const
+
+export type HousekeepingJob = keyof typeof HOUSEKEEPING_JOBS
+
+const jobValidator = v.union(
+  v.literal('expireApiKeys'),
+  v.literal('pruneRateLimits'),
+  v.literal('pruneIdempotencyKeys'),
+  v.literal('sendTaskReminders'),
+  v.literal('resetAiUsage'),
+  v.literal('pruneRequestLogs'),
+  v.literal('pruneWebhookDeliveries'),
+  v.literal('pruneJobRuns'),
+  v.literal('backfillSearchText')
+)
+
+// Rows touched per mutation; a run keeps going until a batch comes back short
+const BATCH_SIZE = 500
+const MAX_BATCHES_PER_RUN = 20
+
+// Pending or retrying deliveries older than this are stuck (retries finish within ~2h)
+const STALE_DELIVERY_MS = DAY_MS
+
+// Tables the search text backfill walks through, in order
+const SEARCH_BACKFILL_TABLES = ['events', 'vendors', 'sponsors'] as const
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Check each retention setting is a whole number within its allowed range
+ */
+export function assertValidSettings(settings: HousekeepingSettings) {
+  for (const [key, { label, min, max }] of Object.entries(RETENTION_LIMITS)) {
+    const value = settings[key as keyof HousekeepingSettings]
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`${label} must be a whole number between ${min} and ${max}`)
+    }
+  }
+}
+
+/**
+ * Get the saved settings, falling back to defaults
+ */
+async function loadSettings(ctx: QueryCtx | MutationCtx) {
+  const saved = await ctx.db.query('housekeepingSettings').first()
+  return {
+    requestLogRetentionDays: saved?.requestLogRetentionDays ?? HOUSEKEEPING_DEFAULTS.requestLogRetentionDays,
+    rateLimitRetentionHours: saved?.rateLimitRetentionHours ?? HOUSEKEEPING_DEFAULTS.rateLimitRetentionHours,
+    webhookDeliveryRetentionDays:
+      saved?.webhookDeliveryRetentionDays ?? HOUSEKEEPING_DEFAULTS.webhookDeliveryRetentionDays,
+    jobRunRetentionDays: saved?.jobRunRetentionDays ?? HOUSEKEEPING_DEFAULTS.jobRunRetentionDays,
+  }
+}
+
+/**
+ * Fill in searchText on the next batch of rows after the saved cursor, going
+ * through events, vendors then sponsors in creation order. Rows written
+ * before the search indexes existed have none. Marks the backfill done in
+ * settings once the last table has been read.
+ */
+async function backfillSearchText(ctx: MutationCtx, now: number) {
+  const saved = await ctx.db.query('housekeepingSettings').first()
+  if (saved?.searchBackfillCompletedAt) return { processed: 0, hasMore: false }
+
+  const cursor = saved?.searchBackfillCursor ?? { table: SEARCH_BACKFILL_TABLES[0], after: 0 }
+  let rows: { _creationTime: number }[]
+  let processed = 0
+
+  if (cursor.table === 'events') {
+    const events = await ctx.db
+      .query('events')
+      .withIndex('by_creation_time', (q) => q.gt('_creationTime', cursor.after))
+      .take(BATCH_SIZE)
+    for (const event of events.filter((row) => row.searchText === undefined)) {
+      await ctx.db.patch(event._id, { searchText: eventSearchText(event) })
+      processed += 1
+    }
+    rows = events
+  } else if (cursor.table === 'vendors') {
+    const vendors = await ctx.db
+      .query('vendors')
+      .withIndex('by_creation_time', (q) => q.gt('_creationTime', cursor.after))
+      .take(BATCH_SIZE)
+    for (const vendor of vendors.filter((row) => row.searchText === undefined)) {
+      await ctx.db.patch(vendor._id, { searchText: vendorSearchText(vendor) })
+      processed += 1
+    }
+    rows = vendors
+  } else {
+    const sponsors = await ctx.db
+      .query('sponsors')
+      .withIndex('by_creation_time', (q) => q.gt('_creationTime', cursor.after))
+      .take(BATCH_SIZE)
+    for (const sponsor of sponsors.filter((row) => row.searchText === undefined)) {
+      await ctx.db.patch(sponsor._id, { searchText: sponsorSearchText(sponsor) })
+      processed += 1
+    }
+    rows = sponsors
+  }
+
+  // A short page means this table is done, so move on to the next one
+  const nextTable = SEARCH_BACKFILL_TABLES[SEARCH_BACKFILL_TABLES.indexOf(cursor.table) + 1]
+  const next =
+    rows.length === BATCH_SIZE
+      ? { table: cursor.table, after: rows[rows.length - 1]._creationTime }
+      : nextTable
+        ? { table: nextTable, after: 0 }
+        : undefined
+  const progress = next
+    ? { searchBackfillCursor: next }
+    : { searchBackfillCursor: undefined, searchBackfillCompletedAt: now }
+
+  if (saved) {
+    await ctx.db.patch(saved._id, progress)
+  } else {
+    await ctx.db.insert('housekeepingSettings', { ...HOUSEKEEPING_DEFAULTS, updatedAt: now, ...progress })
+  }
+
+  return { processed, hasMore: next !== undefined }
+}
+
+// ============================================================================
+// Admin Queries
+// ============================================================================
+
+/**
+ * Get retention settings with their defaults and allowed ranges
+ */
+export const getSettings = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx)
+    if (!user || !isAdminRole(user.role)) return null
+
+    const saved = await ctx.db.query('housekeepingSettings').first()
+    return {
+      settings: await loadSettings(ctx),
+      defaults: HOUSEKEEPING_DEFAULTS,
+      limits: RETENTION_LIMITS,
+      updatedAt: saved?.updatedAt ?? null,
+    }
+  },
+})
+
+/**
+ * List housekeeping jobs with their schedule and latest run
+ */
+export const listJobs = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx)
+    if (!user || !isAdminRole(user.role)) return []
+
+    return Promise.all(
+      Object.entries(HOUSEKEEPING_JOBS).map(async ([job, info]) => {
+        const lastRun = await ctx.db
+          .query('cronRuns')
+          .withIndex('by_job', (q) => q.eq('job', job))
+          .order('desc')
+          .first()
+        return { job: job as HousekeepingJob, ...info, lastRun }
+      })
+    )
+  },
+})
+
+/**
+ * List recent job runs, newest first, optionally for one job
+ */
+export const listRuns = query({
+  args: {
+    job: v.optional(jobValidator),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user || !isAdminRole(user.role)) return []
+
+    const limit = Math.min(Math.max(args.limit ?? 50, 1), 200)
+    const job = args.job
+
+    if (job) {
+      return ctx.db
+        .query('cronRuns')
+        .withIndex('by_job', (q) => q.eq('job', job))
+        .order('desc')
+        .take(limit)
+    }
+
+    return ctx.db.query('cronRuns').withIndex('by_started').order('desc').take(limit)
+  },
+})
+
+// ============================================================================
+// Admin Mutations
+// ============================================================================
+
+/**
+ * Update retention periods (admin only)
+ */
+export const updateSettings = mutation({
+  args: {
+    requestLogRetentionDays: v.number(),
+    rateLimitRetentionHours: v.number(),
+    webhookDeliveryRetentionDays: v.number(),
+    jobRunRetentionDays: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const admin = await assertRole(ctx, 'admin')
+    assertValidSettings(args)
+
+    const existing = await ctx.db.query('housekeepingSettings').first()
+    const values = { ...args, updatedBy: admin._id, updatedAt: Date.now() }
+    if (existing) {
+      await ctx.db.patch(existing._id, values)
+    } else {
+      await ctx.db.insert('housekeepingSettings', values)
+    }
+
+    return { success: true }
+  },
+})
+
+/**
+ * Run a job now instead of waiting for its schedule (admin only).
+ * Running the search text backfill by hand starts it over from the beginning.
+ */
+export const runNow = mutation({
+  args: { job: jobValidator },
+  handler: async (ctx, args) => {
+    await assertRole(ctx, 'admin')
+
+    const saved = await ctx.db.query('housekeepingSettings').first()
+    if (args.job === 'backfillSearchText' && saved) {
+      await ctx.db.patch(saved._id, { searchBackfillCursor: undefined, searchBackfillCompletedAt: undefined })
+    }
+
+    await ctx.scheduler.runAfter(0, internal.housekeeping.run, { job: args.job, trigger: 'manual' })
+    return { success: true }
+  },
+})
+
+// ============================================================================
+// Jobs
+// ============================================================================
+
+/**
+ * Run one batch of a job and report how many rows it touched.
+ * Each branch reads at most BATCH_SIZE rows so a mutation stays within limits.
+ */
+export const runBatch = internalMutation({
+  args: { job: jobValidator },
+  handler: async (ctx, args) => {
+    const now = Date.now()
+    const settings = await loadSettings(ctx)
+    let processed = 0
+
+    switch (args.job) {
+      case 'expireApiKeys': {
+        // Keys past expiresAt are already rejected at validation, this makes the status match
+        const expired = await ctx.db
+          .query('apiKeys')
+          .withIndex('by_status', (q) => q.eq('status', 'active'))
+          .filter((q) =>
+            q.and(q.neq(q.field('expiresAt'), undefined), q.lt(q.field('expiresAt'), now))
+          )
+          .take(BATCH_SIZE)
+        for (const key of expired) {
+          await ctx.db.patch(key._id, { status: 'expired' })
+        }
+        processed = expired.length
+        break
+      }
+
+      case 'pruneRateLimits': {
+        const cutoff = now - settings.rateLimitRetentionHours * HOUR_MS
+        const windows = await ctx.db
+          .query('apiRateLimits')
+          .withIndex('by_window', (q) => q.lt('windowStart', cutoff))
+          .take(BATCH_SIZE)
+        for (const window of windows) {
+          await ctx.db.delete(window._id)
+        }
+        processed = windows.length
+        break
+      }
+
+      case 'pruneIdempotencyKeys': {
+        // Keys expire IDEMPOTENCY_KEY_TTL_MS after first use (see idempotencyKeys.ts)
+        const expired = await ctx.db
+          .query('apiIdempotencyKeys')
+          .withIndex('by_expires', (q) => q.lt('expiresAt', now))
+          .take(BATCH_SIZE)
+        for (const record of expired) {
+          await ctx.db.delete(record._id)
+        }
+        processed = expired.length
+        break
+      }
+
+      case 'sendTaskReminders': {
+        // Each reminder goes out once per due date; changing the due date re-arms it
+        const dueSoon = await ctx.db
+          .query('eventTasks')
+          .withIndex('by_due_date', (q) => q.gt('dueDate', now).lte('dueDate', now + TASK_DUE_SOON_MS))
+          .filter((q) =>
+            q.and(q.neq(q.field('status'), 'completed'), q.eq(q.field('dueSoonNotifiedAt'), undefined))
+          )
+          .take(BATCH_SIZE)
+        for (const task of dueSoon) {
+          await sendTaskReminder(ctx, task, 'due_soon')
+        }
+        processed += dueSoon.length
+
+        const overdue = await ctx.db
+          .query('eventTasks')
+          .withIndex('by_due_date', (q) => q.gt('dueDate', now - TASK_OVERDUE_WINDOW_MS).lte('dueDate', now))
+          .filter((q) =>
+            q.and(q.neq(q.field('status'), 'completed'), q.eq(q.field('overdueNotifiedAt'), undefined))
+          )
+          .take(BATCH_SIZE - processed)
+        for (const task of overdue) {
+          await sendTaskReminder(ctx, task, 'overdue')
+        }
+        processed += overdue.length
+        break
+      }
+
+      case 'resetAiUsage': {
+        // Usage is also reset lazily on the next prompt; this keeps stored counts accurate
+        const today = getTodayDateString()
+        const stale = await ctx.db
+          .query('aiUsage')
+          .withIndex('by_reset_date', (q) => q.lt('lastResetDate', today))
+          .take(BATCH_SIZE)
+        for (const usage of stale) {
+          await ctx.db.patch(usage._id, { promptCount: 0, lastResetDate: today, updatedAt: now })
+        }
+        processed = stale.length
+        break
+      }
+
+      case 'pruneRequestLogs': {
+        const cutoff = now - settings.requestLogRetentionDays * DAY_MS
+        const logs = await ctx.db
+          .query('apiRequestLogs')
+          .withIndex('by_date', (q) => q.lt('createdAt', cutoff))
+          .take(BATCH_SIZE)
+        for (const log of logs) {
+          await ctx.db.delete(log._id)
+        }
+        processed = logs.length
+        break
+      }
+
+      case 'pruneWebhookDeliveries': {
+        // Give up on deliveries stuck in pending/retrying, e.g. after a lost scheduled retry
+        const staleCutoff = now - STALE_DELIVERY_MS
+        for (const status of ['pending', 'retrying'] as const) {
+          const stuck = await ctx.db
+            .query('webhookDeliveries')
+            .withIndex('by_status', (q) => q.eq('status', status))
+            .filter((q) => q.lt(q.field('createdAt'), staleCutoff))
+            .take(BATCH_SIZE - processed)
+          for (const delivery of stuck) {
+            await ctx.db.patch(delivery._id, {
+              status: 'failed',
+              errorMessage: delivery.errorMessage ?? 'Delivery abandoned by housekeeping',
+              nextRetryAt: undefined,
+            })
+          }
+          processed += stuck.length
+        }
+
+        // Delete finished deliveries past the retention period
+        const cutoff = now - settings.webhookDeliveryRetentionDays * DAY_MS
+        const finished = await ctx.db
+          .query('webhookDeliveries')
+          .withIndex('by_date', (q) => q.lt('createdAt', cutoff))
+          .filter((q) =>
+            q.or(
+              q.eq(q.field('status'), 'success'),
+              q.eq(q.field('status'), 'failed'),
+              q.eq(q.field('status'), 'skipped')
+            )
+          )
+          .take(BATCH_SIZE - processed)
+        for (const delivery of finished) {
+          await ctx.db.delete(delivery._id)
+        }
+        processed += finished.length
+        break
+      }
+
+      case 'pruneJobRuns': {
+        const cutoff = now - settings.jobRunRetentionDays * DAY_MS
+        const runs = await ctx.db
+          .query('cronRuns')
+          .withIndex('by_started', (q) => q.lt('startedAt', cutoff))
+          .take(BATCH_SIZE)
+        for (const run of runs) {
+          await ctx.db.delete(run._id)
+        }
+        processed = runs.length
+        break
+      }
+
+      case 'backfillSearchText':
+        return backfillSearchText(ctx, now)
+    }
+
+    return { processed, hasMore: processed >= BATCH_SIZE }
+  },
+})
+
+/**
+ * Whether the search text backfill has been through every table
+ */
+export const isSearchBackfillDone = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const saved = await ctx.db.query('housekeepingSettings').first()
+    return saved?.searchBackfillCompletedAt !== undefined
+  },
+})
+
+/**
+ * Record a finished job run in the history
+ */
+export const recordRun = internalMutation({
+  args: {
+    job: jobValidator,
+    trigger: v.union(v.literal('schedule'), v.literal('manual')),
+    status: v.union(v.literal('success'), v.literal('failed')),
+    processed: v.number(),
+    error: v.optional(v.string()),
+    startedAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert('cronRuns', { ...args, finishedAt: Date.now() })
+  },
+})
+
+/**
+ * Run a job to completion in batches and record the outcome.
+ * Entry point for crons.ts and runNow.
+ */
+export const run = internalAction({
+  args: {
+    job: jobValidator,
+    trigger: v.optional(v.union(v.literal('schedule'), v.literal('manual'))),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    // Nothing to record once the search text backfill has finished
+    if (args.job === 'backfillSearchText' && (await ctx.runQuery(internal.housekeeping.isSearchBackfillDone, {}))) {
+      return
+    }
+
+    const startedAt = Date.now()
+    let processed = 0
+    let error: string | undefined
+
+    try {
+      for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+        const result: { processed: number; hasMore: boolean } = await ctx.runMutation(
+          internal.housekeeping.runBatch,
+          { job: args.job }
+        )
+        processed += result.processed
+        if (!result.hasMore) break
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Job failed'
+    }
+
+    await ctx.runMutation(internal.housekeeping.recordRun, {
+      job: args.job,
+      trigger: args.trigger ?? 'schedule',
+      status: error ? 'failed' : 'success',
+      processed,
+      error,
+      startedAt,
+    })
+  },
+})
@@ -1,53 +1,68 @@
 import { httpRouter } from 'convex/server'
-import { httpAction } from './_generated/server'
+import { httpAction, type ActionCtx } from './_generated/server'
 import { auth } from './auth'
-import OpenAI from 'openai'
 import { api, internal } from './_generated/api'
-import type { Id } from './_generated/dataModel'
+import type { Doc, Id } from './_generated/dataModel'
 import { getOpenAITools, toolRequiresConfirmation } from './lib/agent/tools'
-import { executeToolHandler } from './lib/agent/handlers'
+import {
+  createAIProvider,
+  isProviderAvailable,
+  FailoverProvider,
+  DEFAULT_CONFIGS,
+  type AIMessage,
+  type FailoverEvent,
+  type ProviderChainEntry,
+  type ProviderCredentials,
+  type ProviderType,
+} from './lib/ai'
+import { executePlan, executeToolHandler } from './lib/agent/handlers'
+import { parsePlanSteps, selectPlanSteps } from './lib/agent/plan'
+import { buildDateContext, buildSystemPrompt } from './lib/agent/personas'
 import type { ToolName, ToolCall, ToolResult } from './lib/agent/types'
+import { DEFAULT_TIME_ZONE } from './lib/timezones'
 import { z } from 'zod'
 
 // ============================================================================
-// OpenAI Retry Helper
+// AI Provider Selection
 // ============================================================================
 
-async function callOpenAIWithRetry(
-  openai: OpenAI,
-  params: OpenAI.Chat.ChatCompletionCreateParamsStreaming,
-  maxRetries = 3
-): Promise<AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>> {
-  let lastError: Error | null = null
+const PROVIDER_TYPES: ProviderType[] = ['openai', 'anthropic', 'groq']
+
+/**
+ * Build the ordered provider chain for a chat request.
+ * Order: admin pin (user or org), then AI_PROVIDER, then the remaining
+ * providers with credentials. Returns null if no provider is configured.
+ */
+function getProviderChain(
+  pin: { provider: ProviderType; model?: string } | null
+): ProviderChainEntry[] | null {
+  const credentials: ProviderCredentials = {
+    openai: process.env.OPENAI_API_KEY,
+    anthropic: process.env.ANTHROPIC_API_KEY,
+    groq: process.env.GROQ_API_KEY,
+  }
 
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      return await openai.chat.completions.create(params)
-    } catch (error) {
-      lastError = error as Error
+  const requested = process.env.AI_PROVIDER as ProviderType | undefined
+  const order: ProviderType[] = []
+  if (pin) order.push(pin.provider)
+  if (requested && PROVIDER_TYPES.includes(requested)) order.push(requested)
+  order.push(...PROVIDER_TYPES)
 
-      // Don't retry on auth errors
-      if (error instanceof OpenAI.APIError) {
-        if (error.status === 401 || error.status === 403) {
-          throw new Error('AI service authentication failed. Please check configuration.')
-        }
-        if (error.status === 429) {
-          // Rate limit - wait longer
-          const waitTime = Math.pow(2, attempt) * 2000
-          await new Promise(r => setTimeout(r, waitTime))
-          continue
-        }
-      }
+  const chain: ProviderChainEntry[] = []
+  for (const type of new Set(order)) {
+    if (!isProviderAvailable(type, credentials)) continue
 
-      // For other errors, exponential backoff
-      if (attempt < maxRetries - 1) {
-        const waitTime = Math.pow(2, attempt) * 1000
-        await new Promise(r => setTimeout(r, waitTime))
-      }
+    let model = DEFAULT_CONFIGS[type].model
+    if (pin && type === pin.provider && pin.model) {
+      model = pin.model
+    } else if (type === requested && process.env.AI_MODEL) {
+      model = process.env.AI_MODEL
     }
+
+    chain.push({ type, provider: createAIProvider(type, credentials), model })
   }
 
-  throw lastError || new Error('OpenAI API call failed after retries')
+  return chain.length > 0 ? chain : null
 }
 
 // ============================================================================
@@ -68,21 +83,47 @@ const VALID_TOOL_NAMES = [
   'getRecommendedSponsors',
   'getEventVendors',
   'getEventSponsors',
+  'getEventTasks',
+  'createTask',
+  'completeTask',
+  'createTasksFromTemplate',
+  'getBudgetSummary',
+  'addBudgetItem',
+  'updateBudgetItem',
+  'getEventApplications',
+  'respondToApplication',
+  'sendInquiry',
+  'proposePlan',
 ] as const
 
 const executeToolSchema = z.object({
   toolName: z.enum(VALID_TOOL_NAMES),
   toolArguments: z.record(z.string(), z.unknown()).default({}),
+  // Identify the pending call so its outcome is stored on the conversation
+  conversationId: z.string().optional(),
+  toolCallId: z.string().optional(),
 })
 
-const chatMessageSchema = z.object({
-  role: z.enum(['user', 'assistant']),
-  content: z.string().max(50000),
-  toolCalls: z.array(z.unknown()).optional(),
+// An approved plan: the proposed steps (as edited) and the ones the user dropped
+const executePlanSchema = z.object({
+  steps: z
+    .array(
+      z.object({
+        id: z.string(),
+        tool: z.string(),
+        label: z.string(),
+        arguments: z.record(z.string(), z.unknown()).default({}),
+      })
+    )
+    .min(1),
+  skip: z.array(z.string()).default([]),
+  conversationId: z.string().optional(),
+  toolCallId: z.string().optional(),
 })
 
+// History is loaded from the stored conversation, never taken from the client
 const chatStreamSchema = z.object({
-  messages: z.array(chatMessageSchema).optional(),
+  conversationId: z.string().optional(),
   userMessage: z.string().min(1).max(10000),
   confirmedToolCalls: z.array(z.string()).optional(),
 })
@@ -94,14 +135,24 @@ import {
   handleCors,
   parseBody,
   getPagination,
+  getListPagination,
   paginationMeta,
+  cursorPaginationMeta,
   getLastPathSegment,
+  getPathSegments,
+  parseEventDate,
+  pickBodyFields,
+  EVENT_BODY_FIELDS,
+  TASK_BODY_FIELDS,
+  BUDGET_ITEM_BODY_FIELDS,
 } from './api/helpers'
 import {
   validateApiKey,
   requirePermission,
   PERMISSIONS,
+  type ApiKeyInfo,
 } from './api/auth'
+import { withIdempotency } from './api/idempotency'
 
 // ============================================================================
 // HTTP Router
@@ -140,6 +191,8 @@ http.route({
       documentation: 'https://github.com/hazlijohar95/open-event',
       endpoints: {
         events: '/api/v1/events',
+        tasks: '/api/v1/events/{id}/tasks',
+        budget: '/api/v1/events/{id}/budget',
         vendors: '/api/v1/vendors',
         sponsors: '/api/v1/sponsors',
         public: '/api/v1/public/events',
@@ -159,6 +212,12 @@ http.route({
   handler: httpAction(async () => handleCors()),
 })
 
+http.route({
+  pathPrefix: '/api/v1/events/',
+  method: 'OPTIONS',
+  handler: httpAction(async () => handleCors()),
+})
+
 http.route({
   path: '/api/v1/vendors',
   method: 'OPTIONS',
@@ -198,10 +257,20 @@ http.route({
 
     try {
       const url = new URL(request.url)
-      const { page, limit, offset } = getPagination(url)
+      const pagination = getListPagination(url)
       const status = url.searchParams.get('status') || undefined
 
-      // Get events for the API key's user using internal query
+      if (pagination.mode === 'cursor') {
+        const result = await ctx.runQuery(internal.api.mutations.getEventsByUserPaginated, {
+          userId: authResult.keyInfo.userId,
+          status,
+          paginationOpts: { cursor: pagination.cursor, numItems: pagination.limit },
+        })
+        return apiSuccess(result.page, cursorPaginationMeta(result, pagination.limit))
+      }
+
+      // Offset mode (?page=) - get events for the API key's user using internal query
+      const { page, limit, offset } = pagination
       const allEvents = await ctx.runQuery(internal.api.mutations.getEventsByUser, {
         userId: authResult.keyInfo.userId,
         status: status === 'all' ? undefined : status,
@@ -236,66 +305,76 @@ http.route({
     const permError = requirePermission(authResult.keyInfo, PERMISSIONS.EVENTS_WRITE)
     if (permError) return permError
 
-    // Parse request body
-    const body = await parseBody<{
-      title: string
-      startDate: number
-      description?: string
-      eventType?: string
-      status?: string
-      locationType?: string
-      venueName?: string
-      venueAddress?: string
-      virtualPlatform?: string
-      expectedAttendees?: number
-      budget?: number
-      budgetCurrency?: string
-      endDate?: number
-      timezone?: string
-    }>(request)
-
-    if (!body) {
-      return ApiErrors.badRequest('Invalid JSON body')
-    }
-
-    // Validate required fields
-    if (!body.title) {
-      return ApiErrors.validationError('title is required')
-    }
-    if (!body.startDate) {
-      return ApiErrors.validationError('startDate is required (Unix timestamp)')
-    }
-    if (typeof body.startDate !== 'number') {
-      return ApiErrors.validationError('startDate must be a Unix timestamp (number)')
-    }
+    // Replay the stored response if this is a retry (Idempotency-Key header)
+    return withIdempotency(ctx, request, authResult.keyInfo, async () => {
+      // Parse request body
+      const body = await parseBody<{
+        title: string
+        startDate: number | string
+        description?: string
+        eventType?: string
+        status?: string
+        locationType?: string
+        venueName?: string
+        venueAddress?: string
+        virtualPlatform?: string
+        expectedAttendees?: number
+        budget?: number
+        budgetCurrency?: string
+        endDate?: number | string
+        timezone?: string
+      }>(request)
+
+      if (!body) {
+        return ApiErrors.badRequest('Invalid JSON body')
+      }
 
-    try {
-      // Use internal mutation with userId from API key
-      const eventId = await ctx.runMutation(internal.api.mutations.createEvent, {
-        userId: authResult.keyInfo.userId,
-        title: body.title,
-        startDate: body.startDate,
-        description: body.description,
-        eventType: body.eventType,
-        status: body.status,
-        locationType: body.locationType,
-        venueName: body.venueName,
-        venueAddress: body.venueAddress,
-        virtualPlatform: body.virtualPlatform,
-        expectedAttendees: body.expectedAttendees,
-        budget: body.budget,
-        budgetCurrency: body.budgetCurrency,
-        endDate: body.endDate,
-        timezone: body.timezone,
-      })
+      // Validate required fields
+      if (!body.title) {
+        return ApiErrors.validationError('title is required')
+      }
+      if (!body.startDate) {
+        return ApiErrors.validationError('startDate is required (Unix timestamp or local date/time)')
+      }
+      const start = parseEventDate(body.startDate)
+      const end = parseEventDate(body.endDate)
+      if (!start) {
+        return ApiErrors.validationError('startDate must be a Unix timestamp or a local date/time like 2025-03-14T09:00')
+      }
+      if (!end) {
+        return ApiErrors.validationError('endDate must be a Unix timestamp or a local date/time like 2025-03-14T17:00')
+      }
 
-      return apiSuccess({ eventId }, { created: true }, 201)
-    } catch (error) {
-      console.error('API Error:', error)
-      return ApiErrors.badRequest(
-        error instanceof Error ? error.message : 'Failed to create event'
-      )
-    }
+      try {
+        // Use internal mutation with userId from API key
+        const eventId = await ctx.runMutation(internal.api.mutations.createEvent, {
+          userId: authResult.keyInfo.userId,
+          title: body.title,
+          startDate: start.timestamp,
+          startLocal: start.local,
+          description: body.description,
+          eventType: body.eventType,
+          status: body.status,
+          locationType: body.locationType,
+          venueName: body.venueName,
+          venueAddress: body.venueAddress,
+          virtualPlatform: body.virtualPlatform,
+          expectedAttendees: body.expectedAttendees,
+          budget: body.budget,
+          budgetCurrency: body.budgetCurrency,
+          endDate: end.timestamp,
+          endLocal: end.local,
+          timezone: body.timezone,
+        })
+
+        return apiSuccess({ eventId }, { created: true }, 201)
+      } catch (error) {
+        console.error('API Error:', error)
+        return ApiErrors.badRequest(
+          error instanceof Error ? error.message : 'Failed to create event'
+        )
+      }
+    })
   }),
 })
 
@@ -310,18 +389,23 @@ http.route({
       return authResult.response
     }
 
-    // Check permission
-    const permError = requirePermission(authResult.keyInfo, PERMISSIONS.EVENTS_READ)
-    if (permError) return permError
-
     // Extract event ID from URL
     const url = new URL(request.url)
-    const eventId = getLastPathSegment(url.pathname)
+    const [eventId, ...subPath] = getPathSegments(url.pathname, '/api/v1/events/')
 
     if (!eventId) {
       return ApiErrors.badRequest('Event ID is required')
     }
 
+    // Nested task/budget routes check their own permissions
+    if (subPath.length > 0) {
+      return handleEventPlanningRequest(ctx, request, authResult.keyInfo, eventId as Id<'events'>, subPath)
+    }
+
+    // Check permission
+    const permError = requirePermission(authResult.keyInfo, PERMISSIONS.EVENTS_READ)
+    if (permError) return permError
+
     try {
       // Use internal query with ownership check
       const event = await ctx.runQuery(internal.api.mutations.getEventById, { 
@@ -354,22 +438,27 @@ http.route({
       return authResult.response
     }
 
-    // Check permission - MUST have events:write permission
-    const permError = requirePermission(authResult.keyInfo, PERMISSIONS.EVENTS_WRITE)
-    if (permError) return permError
-
     // Extract event ID from URL
     const url = new URL(request.url)
-    const eventId = getLastPathSegment(url.pathname)
+    const [eventId, ...subPath] = getPathSegments(url.pathname, '/api/v1/events/')
 
     if (!eventId) {
       return ApiErrors.badRequest('Event ID is required')
     }
 
+    // Nested task/budget routes check their own permissions
+    if (subPath.length > 0) {
+      return handleEventPlanningRequest(ctx, request, authResult.keyInfo, eventId as Id<'events'>, subPath)
+    }
+
+    // Check permission - MUST have events:write permission
+    const permError = requirePermission(authResult.keyInfo, PERMISSIONS.EVENTS_WRITE)
+    if (permError) return permError
+
     // Parse request body
     const body = await parseBody<{
       title?: string
-      startDate?: number
+      startDate?: number | string
       description?: string
       eventType?: string
       status?: string
@@ -380,7 +469,7 @@ http.route({
       expectedAttendees?: number
       budget?: number
       budgetCurrency?: string
-      endDate?: number
+      endDate?: number | string
       timezone?: string
     }>(request)
 
@@ -393,12 +482,26 @@ http.route({
       return ApiErrors.badRequest('No fields to update')
     }
 
+    const { startDate, endDate, ...fields } = body
+    const start = parseEventDate(startDate)
+    const end = parseEventDate(endDate)
+    if (!start) {
+      return ApiErrors.validationError('startDate must be a Unix timestamp or a local date/time like 2025-03-14T09:00')
+    }
+    if (!end) {
+      return ApiErrors.validationError('endDate must be a Unix timestamp or a local date/time like 2025-03-14T17:00')
+    }
+
     try {
       // Use internal mutation with userId from API key (includes ownership check)
       await ctx.runMutation(internal.api.mutations.updateEvent, {
+        ...pickBodyFields(fields, EVENT_BODY_FIELDS),
+        startDate: start.timestamp,
+        startLocal: start.local,
+        endDate: end.timestamp,
+        endLocal: end.local,
         userId: authResult.keyInfo.userId,
         eventId: eventId as Id<'events'>,
-        ...body,
       })
 
       return apiSuccess({ updated: true })
@@ -422,18 +525,23 @@ http.route({
       return authResult.response
     }
 
-    // Check permission - MUST have events:delete permission
-    const permError = requirePermission(authResult.keyInfo, PERMISSIONS.EVENTS_DELETE)
-    if (permError) return permError
-
     // Extract event ID from URL
     const url = new URL(request.url)
-    const eventId = getLastPathSegment(url.pathname)
+    const [eventId, ...subPath] = getPathSegments(url.pathname, '/api/v1/events/')
 
     if (!eventId) {
       return ApiErrors.badRequest('Event ID is required')
     }
 
+    // Nested task/budget routes check their own permissions
+    if (subPath.length > 0) {
+      return handleEventPlanningRequest(ctx, request, authResult.keyInfo, eventId as Id<'events'>, subPath)
+    }
+
+    // Check permission - MUST have events:delete permission
+    const permError = requirePermission(authResult.keyInfo, PERMISSIONS.EVENTS_DELETE)
+    if (permError) return permError
+
     try {
       // Use internal mutation with userId from API key (includes ownership check)
       await ctx.runMutation(internal.api.mutations.deleteEvent, {
@@ -451,6 +559,347 @@ http.route({
   }),
 })
 
+// POST /api/v1/events/:id/... - Only the nested task/budget routes accept POST
+http.route({
+  pathPrefix: '/api/v1/events/',
+  method: 'POST',
+  handler: httpAction(async (ctx, request) => {
+    // Validate API key
+    const authResult = await validateApiKey(ctx, request)
+    if (!authResult.success) {
+      return authResult.response
+    }
+
+    const url = new URL(request.url)
+    const [eventId, ...subPath] = getPathSegments(url.pathname, '/api/v1/events/')
+
+    if (!eventId || subPath.length === 0) {
+      return ApiErrors.methodNotAllowed('POST')
+    }
+
+    return withIdempotency(ctx, request, authResult.keyInfo, () =>
+      handleEventPlanningRequest(ctx, request, authResult.keyInfo, eventId as Id<'events'>, subPath)
+    )
+  }),
+})
+
+// ============================================================================
+// API v1 - Event Tasks & Budget
+// ============================================================================
+// Nested under /api/v1/events/:id, so the events prefix routes above hand
+// these paths over instead of registering routes of their own.
+//
+//   GET    /tasks                 tasks:read    List tasks (?status=, paginated)
+//   GET    /tasks/summary         tasks:read    Task rollup
+//   GET    /tasks/:taskId         tasks:read    Get a task
+//   POST   /tasks                 tasks:write   Create a task
+//   POST   /tasks/reorder         tasks:write   Set board order { taskIds }
+//   PATCH  /tasks/:taskId         tasks:write   Update a task
+//   DELETE /tasks/:taskId         tasks:write   Delete a task
+//
+//   GET    /budget                budget:read   List items (?status=, ?category=, paginated)
+//   GET    /budget/summary        budget:read   Budget rollup
+//   GET    /budget/:itemId        budget:read   Get an item
+//   POST   /budget                budget:write  Create an item
+//   POST   /budget/bulk-status    budget:write  Set status on many { itemIds, status }
+//   PATCH  /budget/:itemId        budget:write  Update an item
+//   DELETE /budget/:itemId        budget:write  Delete an item
+
+type TaskRequestBody = {
+  title?: string
+  description?: string
+  category?: string
+  priority?: string
+  status?: string
+  dueDate?: number
+  assignedTo?: Id<'users'>
+  linkedVendorId?: Id<'vendors'>
+  linkedSponsorId?: Id<'sponsors'>
+  linkedBudgetItemId?: Id<'budgetItems'>
+  notes?: string
+}
+
+type BudgetItemRequestBody = {
+  category?: string
+  name?: string
+  description?: string
+  estimatedAmount?: number
+  actualAmount?: number
+  currency?: string
+  status?: string
+  vendorId?: Id<'vendors'>
+  sponsorId?: Id<'sponsors'>
+  paidAt?: number
+  paidMethod?: string
+  invoiceNumber?: string
+  receiptUrl?: string
+  notes?: string
+}
+
+/**
+ * Dispatch /api/v1/events/:id/{tasks|budget}[/...] to the matching handler
+ */
+async function handleEventPlanningRequest(
+  ctx: ActionCtx,
+  request: Request,
+  keyInfo: ApiKeyInfo,
+  eventId: Id<'events'>,
+  subPath: string[]
+): Promise<Response> {
+  const [resource, itemId, ...rest] = subPath
+  if (rest.length > 0) {
+    return ApiErrors.notFound('Endpoint')
+  }
+
+  if (resource === 'tasks') {
+    return handleTasksRequest(ctx, request, keyInfo, eventId, itemId)
+  }
+  if (resource === 'budget') {
+    return handleBudgetRequest(ctx, request, keyInfo, eventId, itemId)
+  }
+
+  return ApiErrors.notFound('Endpoint')
+}
+
+async function handleTasksRequest(
+  ctx: ActionCtx,
+  request: Request,
+  keyInfo: ApiKeyInfo,
+  eventId: Id<'events'>,
+  taskId: string | undefined
+): Promise<Response> {
+  const method = request.method
+  const permError = requirePermission(
+    keyInfo,
+    method === 'GET' ? PERMISSIONS.TASKS_READ : PERMISSIONS.TASKS_WRITE
+  )
+  if (permError) return permError
+
+  const userId = keyInfo.userId
+
+  try {
+    if (method === 'GET') {
+      if (taskId === 'summary') {
+        const summary = await ctx.runQuery(internal.api.planning.getTaskSummary, { userId, eventId })
+        return summary ? apiSuccess(summary) : ApiErrors.notFound('Event')
+      }
+
+      if (taskId) {
+        const task = await ctx.runQuery(internal.api.planning.getTask, {
+          userId,
+          eventId,
+          taskId: taskId as Id<'eventTasks'>,
+        })
+        return task ? apiSuccess(task) : ApiErrors.notFound('Task')
+      }
+
+      const url = new URL(request.url)
+      const { page, limit, offset } = getPagination(url)
+      const tasks = await ctx.runQuery(internal.api.planning.listTasks, {
+        userId,
+        eventId,
+        status: url.searchParams.get('status') || undefined,
+      })
+      if (!tasks) return ApiErrors.notFound('Event')
+
+      return apiSuccess(tasks.slice(offset, offset + limit), paginationMeta(tasks.length, page, limit))
+    }
+
+    if (method === 'POST' && taskId === 'reorder') {
+      const body = await parseBody<{ taskIds?: Id<'eventTasks'>[] }>(request)
+      if (!body || !Array.isArray(body.taskIds)) {
+        return ApiErrors.validationError('taskIds is required (array of task IDs)')
+      }
+
+      const result = await ctx.runMutation(internal.api.planning.reorderTasks, {
+        userId,
+        eventId,
+        taskIds: body.taskIds,
+      })
+      return apiSuccess(result)
+    }
+
+    if (method === 'POST' && !taskId) {
+      const body = await parseBody<TaskRequestBody>(request)
+      if (!body) {
+        return ApiErrors.badRequest('Invalid JSON body')
+      }
+      if (!body.title) {
+        return ApiErrors.validationError('title is required')
+      }
+
+      const newTaskId = await ctx.runMutation(internal.api.planning.createTask, {
+        ...pickBodyFields(body, TASK_BODY_FIELDS),
+        title: body.title,
+        userId,
+        eventId,
+      })
+      return apiSuccess({ taskId: newTaskId }, { created: true }, 201)
+    }
+
+    if (method === 'PATCH' && taskId) {
+      const body = await parseBody<TaskRequestBody>(request)
+      if (!body) {
+        return ApiErrors.badRequest('Invalid JSON body')
+      }
+      const fields = pickBodyFields(body, TASK_BODY_FIELDS)
+      if (Object.keys(fields).length === 0) {
+        return ApiErrors.badRequest('No fields to update')
+      }
+
+      await ctx.runMutation(internal.api.planning.updateTask, {
+        ...fields,
+        userId,
+        eventId,
+        taskId: taskId as Id<'eventTasks'>,
+      })
+      return apiSuccess({ updated: true })
+    }
+
+    if (method === 'DELETE' && taskId) {
+      await ctx.runMutation(internal.api.planning.deleteTask, {
+        userId,
+        eventId,
+        taskId: taskId as Id<'eventTasks'>,
+      })
+      return apiSuccess({ deleted: true })
+    }
+
+    return ApiErrors.methodNotAllowed(method)
+  } catch (error) {
+    console.error('API Error:', error)
+    return ApiErrors.badRequest(
+      error instanceof Error ? error.message : 'Failed to process task request'
+    )
+  }
+}
+
+async function handleBudgetRequest(
+  ctx: ActionCtx,
+  request: Request,
+  keyInfo: ApiKeyInfo,
+  eventId: Id<'events'>,
+  itemId: string | undefined
+): Promise<Response> {
+  const method = request.method
+  const permError = requirePermission(
+    keyInfo,
+    method === 'GET' ? PERMISSIONS.BUDGET_READ : PERMISSIONS.BUDGET_WRITE
+  )
+  if (permError) return permError
+
+  const userId = keyInfo.userId
+
+  try {
+    if (method === 'GET') {
+      if (itemId === 'summary') {
+        const summary = await ctx.runQuery(internal.api.planning.getBudgetSummary, { userId, eventId })
+        return summary ? apiSuccess(summary) : ApiErrors.notFound('Event')
+      }
+
+      if (itemId) {
+        const item = await ctx.runQuery(internal.api.planning.getBudgetItem, {
+          userId,
+          eventId,
+          itemId: itemId as Id<'budgetItems'>,
+        })
+        return item ? apiSuccess(item) : ApiErrors.notFound('Budget item')
+      }
+
+      const url = new URL(request.url)
+      const { page, limit, offset } = getPagination(url)
+      const items = await ctx.runQuery(internal.api.planning.listBudgetItems, {
+        userId,
+        eventId,
+        status: url.searchParams.get('status') || undefined,
+        category: url.searchParams.get('category') || undefined,
+      })
+      if (!items) return ApiErrors.notFound('Event')
+
+      return apiSuccess(items.slice(offset, offset + limit), paginationMeta(items.length, page, limit))
+    }
+
+    if (method === 'POST' && itemId === 'bulk-status') {
+      const body = await parseBody<{ itemIds?: Id<'budgetItems'>[]; status?: string }>(request)
+      if (!body || !Array.isArray(body.itemIds)) {
+        return ApiErrors.validationError('itemIds is required (array of budget item IDs)')
+      }
+      if (!body.status) {
+        return ApiErrors.validationError('status is required')
+      }
+
+      const result = await ctx.runMutation(internal.api.planning.bulkUpdateBudgetStatus, {
+        userId,
+        eventId,
+        itemIds: body.itemIds,
+        status: body.status,
+      })
+      return apiSuccess(result)
+    }
+
+    if (method === 'POST' && !itemId) {
+      const body = await parseBody<BudgetItemRequestBody>(request)
+      if (!body) {
+        return ApiErrors.badRequest('Invalid JSON body')
+      }
+      if (!body.name) {
+        return ApiErrors.validationError('name is required')
+      }
+      if (!body.category) {
+        return ApiErrors.validationError('category is required')
+      }
+      if (typeof body.estimatedAmount !== 'number') {
+        return ApiErrors.validationError('estimatedAmount is required (number)')
+      }
+
+      const newItemId = await ctx.runMutation(internal.api.planning.createBudgetItem, {
+        ...pickBodyFields(body, BUDGET_ITEM_BODY_FIELDS),
+        name: body.name,
+        category: body.category,
+        estimatedAmount: body.estimatedAmount,
+        userId,
+        eventId,
+      })
+      return apiSuccess({ itemId: newItemId }, { created: true }, 201)
+    }
+
+    if (method === 'PATCH' && itemId) {
+      const body = await parseBody<BudgetItemRequestBody>(request)
+      if (!body) {
+        return ApiErrors.badRequest('Invalid JSON body')
+      }
+      const fields = pickBodyFields(body, BUDGET_ITEM_BODY_FIELDS)
+      if (Object.keys(fields).length === 0) {
+        return ApiErrors.badRequest('No fields to update')
+      }
+
+      await ctx.runMutation(internal.api.planning.updateBudgetItem, {
+        ...fields,
+        userId,
+        eventId,
+        itemId: itemId as Id<'budgetItems'>,
+      })
+      return apiSuccess({ updated: true })
+    }
+
+    if (method === 'DELETE' && itemId) {
+      await ctx.runMutation(internal.api.planning.deleteBudgetItem, {
+        userId,
+        eventId,
+        itemId: itemId as Id<'budgetItems'>,
+      })
+      return apiSuccess({ deleted: true })
+    }
+
+    return ApiErrors.methodNotAllowed(method)
+  } catch (error) {
+    console.error('API Error:', error)
+    return ApiErrors.badRequest(
+      error instanceof Error ? error.message : 'Failed to process budget request'
+    )
+  }
+}
+
 // ============================================================================
 // API v1 - Vendors
 // ============================================================================
@@ -472,16 +921,26 @@ http.route({
 
     try {
       const url = new URL(request.url)
-      const { page, limit, offset } = getPagination(url)
+      const pagination = getListPagination(url)
       const category = url.searchParams.get('category') || undefined
       const search = url.searchParams.get('search') || undefined
 
+      if (pagination.mode === 'cursor') {
+        const result = await ctx.runQuery(api.vendors.listPaginated, {
+          category,
+          search,
+          paginationOpts: { cursor: pagination.cursor, numItems: pagination.limit },
+        })
+        return apiSuccess(result.page, cursorPaginationMeta(result, pagination.limit))
+      }
+
       const allVendors = await ctx.runQuery(api.vendors.list, {
         category,
         search,
       })
 
-      // Apply pagination
+      // Apply offset pagination
+      const { page, limit, offset } = pagination
       const total = allVendors.length
       const paginatedVendors = allVendors.slice(offset, offset + limit)
 
@@ -535,16 +994,26 @@ http.route({
 
     try {
       const url = new URL(request.url)
-      const { page, limit, offset } = getPagination(url)
+      const pagination = getListPagination(url)
       const industry = url.searchParams.get('industry') || undefined
       const search = url.searchParams.get('search') || undefined
 
+      if (pagination.mode === 'cursor') {
+        const result = await ctx.runQuery(api.sponsors.listPaginated, {
+          industry,
+          search,
+          paginationOpts: { cursor: pagination.cursor, numItems: pagination.limit },
+        })
+        return apiSuccess(result.page, cursorPaginationMeta(result, pagination.limit))
+      }
+
       const allSponsors = await ctx.runQuery(api.sponsors.list, {
         industry,
         search,
       })
 
-      // Apply pagination
+      // Apply offset pagination
+      const { page, limit, offset } = pagination
       const total = allSponsors.length
       const paginatedSponsors = allSponsors.slice(offset, offset + limit)
 
@@ -576,24 +1045,31 @@ http.route({
   handler: httpAction(async (ctx, request) => {
     try {
       const url = new URL(request.url)
-      const { page, limit, offset } = getPagination(url)
+      const pagination = getListPagination(url)
       
-      const eventType = url.searchParams.get('eventType') || undefined
-      const locationType = url.searchParams.get('locationType') || undefined
-      const seekingVendors = url.searchParams.get('seekingVendors') === 'true' || undefined
-      const seekingSponsors = url.searchParams.get('seekingSponsors') === 'true' || undefined
-      const search = url.searchParams.get('search') || undefined
+      const filters = {
+        eventType: url.searchParams.get('eventType') || undefined,
+        locationType: url.searchParams.get('locationType') || undefined,
+        seekingVendors: url.searchParams.get('seekingVendors') === 'true' || undefined,
+        seekingSponsors: url.searchParams.get('seekingSponsors') === 'true' || undefined,
+        search: url.searchParams.get('search') || undefined,
+      }
+
+      if (pagination.mode === 'cursor') {
+        const result = await ctx.runQuery(api.events.listPublicPaginated, {
+          ...filters,
+          paginationOpts: { cursor: pagination.cursor, numItems: pagination.limit },
+        })
+        return apiSuccess(result.page, cursorPaginationMeta(result, pagination.limit))
+      }
 
       const allEvents = await ctx.runQuery(api.events.listPublic, {
-        eventType,
-        locationType,
-        seekingVendors,
-        seekingSponsors,
-        search,
+        ...filters,
         limit: 100, // Internal limit
       })
 
-      // Apply pagination
+      // Apply offset pagination
+      const { page, limit, offset } = pagination
       const total = allEvents.length
       const paginatedEvents = allEvents.slice(offset, offset + limit)
 
@@ -605,6 +1081,24 @@ http.route({
   }),
 })
 
+// Return only public-safe vendor fields (no contact details, internal notes, etc.)
+function toPublicVendor(vendor: Doc<'vendors'>) {
+  return {
+    _id: vendor._id,
+    name: vendor.name,
+    description: vendor.description,
+    category: vendor.category,
+    services: vendor.services,
+    location: vendor.location,
+    priceRange: vendor.priceRange,
+    rating: vendor.rating,
+    reviewCount: vendor.reviewCount,
+    website: vendor.website,
+    logoUrl: vendor.logoUrl,
+    verified: vendor.verified,
+  }
+}
+
 // GET /api/v1/public/vendors - List approved vendors (no auth)
 // Only returns approved/verified vendors with public information
 http.route({
@@ -613,38 +1107,32 @@ http.route({
   handler: httpAction(async (ctx, request) => {
     try {
       const url = new URL(request.url)
-      const { page, limit, offset } = getPagination(url)
+      const pagination = getListPagination(url)
       
       const category = url.searchParams.get('category') || undefined
       const search = url.searchParams.get('search') || undefined
 
       // Get approved vendors only
+      if (pagination.mode === 'cursor') {
+        const result = await ctx.runQuery(api.vendors.listPaginated, {
+          category,
+          search,
+          paginationOpts: { cursor: pagination.cursor, numItems: pagination.limit },
+        })
+        return apiSuccess(result.page.map(toPublicVendor), cursorPaginationMeta(result, pagination.limit))
+      }
+
       const allVendors = await ctx.runQuery(api.vendors.list, {
         category,
         search,
       })
 
-      // Apply pagination
+      // Apply offset pagination
+      const { page, limit, offset } = pagination
       const total = allVendors.length
       const paginatedVendors = allVendors.slice(offset, offset + limit)
 
-      // Return only public-safe fields (no contact details, internal notes, etc.)
-      const publicVendors = paginatedVendors.map(vendor => ({
-        _id: vendor._id,
-        name: vendor.name,
-        description: vendor.description,
-        category: vendor.category,
-        services: vendor.services,
-        location: vendor.location,
-        priceRange: vendor.priceRange,
-        rating: vendor.rating,
-        reviewCount: vendor.reviewCount,
-        website: vendor.website,
-        logoUrl: vendor.logoUrl,
-        verified: vendor.verified,
-      }))
-
-      return apiSuccess(publicVendors, paginationMeta(total, page, limit))
+      return apiSuccess(paginatedVendors.map(toPublicVendor), paginationMeta(total, page, limit))
     } catch (error) {
       console.error('API Error:', error)
       return ApiErrors.internalError('Failed to fetch vendors')
@@ -722,42 +1210,45 @@ http.route({
     const permError = requirePermission(authResult.keyInfo, PERMISSIONS.ADMIN)
     if (permError) return permError
 
-    // Parse request body
-    const body = await parseBody<{
-      name: string
-      url: string
-      events: string[]
-    }>(request)
-
-    if (!body) {
-      return ApiErrors.badRequest('Invalid JSON body')
-    }
-
-    // Validate required fields
-    if (!body.name) {
-      return ApiErrors.validationError('name is required')
-    }
-    if (!body.url) {
-      return ApiErrors.validationError('url is required')
-    }
-    if (!body.events || body.events.length === 0) {
-      return ApiErrors.validationError('events array is required')
-    }
+    // Replay the stored response if this is a retry (Idempotency-Key header)
+    return withIdempotency(ctx, request, authResult.keyInfo, async () => {
+      // Parse request body
+      const body = await parseBody<{
+        name: string
+        url: string
+        events: string[]
+      }>(request)
+
+      if (!body) {
+        return ApiErrors.badRequest('Invalid JSON body')
+      }
 
-    try {
-      const result = await ctx.runMutation(api.webhooks.create, {
-        name: body.name,
-        url: body.url,
-        events: body.events,
-      })
+      // Validate required fields
+      if (!body.name) {
+        return ApiErrors.validationError('name is required')
+      }
+      if (!body.url) {
+        return ApiErrors.validationError('url is required')
+      }
+      if (!body.events || body.events.length === 0) {
+        return ApiErrors.validationError('events array is required')
+      }
 
-      return apiSuccess(result, { created: true }, 201)
-    } catch (error) {
-      console.error('API Error:', error)
-      return ApiErrors.badRequest(
-        error instanceof Error ? error.message : 'Failed to create webhook'
-      )
-    }
+      try {
+        const result = await ctx.runMutation(api.webhooks.create, {
+          name: body.name,
+          url: body.url,
+          events: body.events,
+        })
+
+        return apiSuccess(result, { created: true }, 201)
+      } catch (error) {
+        console.error('API Error:', error)
+        return ApiErrors.badRequest(
+          error instanceof Error ? error.message : 'Failed to create webhook'
+        )
+      }
+    })
   }),
 })
 
@@ -838,8 +1329,11 @@ http.route({
 
     try {
       await ctx.runMutation(api.webhooks.update, {
+        name: body.name,
+        url: body.url,
+        events: body.events,
+        status: body.status,
         id: webhookId as Id<'webhooks'>,
-        ...body,
       })
 
       return apiSuccess({ updated: true })
@@ -907,7 +1401,12 @@ http.route({
       { type: 'sponsor.confirmed', description: 'When a sponsor is confirmed' },
       { type: 'sponsor.declined', description: 'When a sponsor is declined' },
       { type: 'task.created', description: 'When a task is created' },
+      { type: 'task.updated', description: 'When a task is updated' },
       { type: 'task.completed', description: 'When a task is completed' },
+      { type: 'task.deleted', description: 'When a task is deleted' },
+      { type: 'budget_item.created', description: 'When a budget item is created' },
+      { type: 'budget_item.updated', description: 'When a budget item is updated or changes status' },
+      { type: 'budget_item.deleted', description: 'When a budget item is deleted' },
     ]
     return apiSuccess(events)
   }),
@@ -1063,11 +1562,16 @@ http.route({
       const endDate = url.searchParams.get('endDate')
         ? parseInt(url.searchParams.get('endDate')!)
         : undefined
+      const currency = url.searchParams.get('currency') || undefined
+      if (currency && !/^[A-Za-z]{3}$/.test(currency)) {
+        return ApiErrors.badRequest('currency must be a 3-letter ISO 4217 code')
+      }
 
       const budgetAnalytics = await ctx.runQuery(internal.analytics.getBudgetAnalyticsInternal, {
         userId: authResult.keyInfo.userId,
         startDate,
         endDate,
+        currency,
       })
 
       return apiSuccess(budgetAnalytics)
@@ -1120,66 +1624,6 @@ http.route({
   }),
 })
 
-// ============================================================================
-// Streaming Chat Endpoint
-// ============================================================================
-
-const SYSTEM_PROMPT = `You are an AI event creation assistant for Open Event. Your PRIMARY job is to quickly help users CREATE events.
-
-## Your Approach:
-
-1. **Be concise** - Keep responses to 2-3 sentences max
-2. **Act quickly** - After getting basic info (title, date, type), CREATE the event immediately
-3. **Ask only essential questions** - Don't overwhelm users with long lists of what they COULD provide
-
-## Event Creation Flow:
-
-When a user wants to create an event:
-1. If they give you enough info (event type + rough date), call createEvent immediately
-2. If missing critical info, ask ONE quick question like: "What date are you planning for?"
-3. Use sensible defaults for optional fields - don't ask about every possible detail
-
-## Minimum Info Needed to Create Event:
-- Title or event type (required)
-- Approximate date (required)
-- Everything else can use defaults or be added later
-
-## Response Style:
-
-- SHORT responses (1-3 sentences)
-- NO bullet lists of tips or suggestions unless asked
-- NO lengthy explanations of what info you need
-- DIRECT action: "I'll create that for you now" or "What date works for you?"
-
-## Example Good Responses:
-
-User: "I want to create a workshop"
-Good: "Got it! What date are you thinking for the workshop?"
-
-User: "A tech meetup next Friday"
-Good: "I'll create your tech meetup for next Friday now."
-[Then call createEvent]
-
-User: "Conference in January for 200 people"
-Good: "Creating your conference for January with 200 expected attendees."
-[Then call createEvent with title, date, expectedAttendees]
-
-## What NOT to do:
-
-- DON'T list 10 things the user could tell you
-- DON'T give generic event planning advice
-- DON'T explain all your capabilities
-- DON'T ask multiple questions at once
-
-## Tools Available:
-
-- createEvent: Create events (requires confirmation)
-- searchVendors/searchSponsors: Find service providers
-- getRecommendedVendors/getRecommendedSponsors: Get AI-matched recommendations
-- getUserProfile: Get user context
-
-Remember: Your job is to CREATE events quickly, not to be an event planning consultant.`
-
 // ============================================================================
 // CORS Configuration
 // ============================================================================
@@ -1230,6 +1674,18 @@ http.route({
   }),
 })
 
+// Handle preflight for plan execution endpoint
+http.route({
+  path: '/api/chat/execute-plan',
+  method: 'OPTIONS',
+  handler: httpAction(async (_, request) => {
+    return new Response(null, {
+      status: 204,
+      headers: getCorsHeaders(request),
+    })
+  }),
+})
+
 // ============================================================================
 // Direct Tool Execution Endpoint (for confirmed tools)
 // ============================================================================
@@ -1262,7 +1718,7 @@ http.route({
       )
     }
 
-    const { toolName, toolArguments } = parsed.data
+    const { toolName, toolArguments, conversationId, toolCallId } = parsed.data
 
     // Get user identity from the Authorization header
     const identity = await ctx.auth.getUserIdentity()
@@ -1301,11 +1757,28 @@ http.route({
       const result = await executeToolHandler(
         ctx,
         user._id,
-        `confirmed-${Date.now()}`,
+        toolCallId ?? `confirmed-${Date.now()}`,
         toolName as ToolName,
         toolArguments
       )
 
+      // Store the confirmation outcome on the message that proposed the call
+      if (conversationId && toolCallId) {
+        const conversation = await ctx.runQuery(internal.conversations.getForUser, {
+          conversationId,
+          userId: user._id,
+        })
+        if (conversation) {
+          await ctx.runMutation(internal.conversations.recordConfirmation, {
+            conversationId: conversation._id,
+            toolCallId,
+            success: result.success,
+            summary: result.summary,
+            error: result.error,
+          })
+        }
+      }
+
       return new Response(JSON.stringify(result), {
         status: result.success ? 200 : 400,
         headers,
@@ -1323,6 +1796,139 @@ http.route({
   }),
 })
 
+// ============================================================================
+// Plan Execution Endpoint (for approved proposePlan calls)
+// ============================================================================
+
+http.route({
+  path: '/api/chat/execute-plan',
+  method: 'POST',
+  handler: httpAction(async (ctx, request) => {
+    const headers = { ...getCorsHeaders(request), 'Content-Type': 'application/json' }
+
+    // Parse and validate request body
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON body' }), {
+        status: 400,
+        headers,
+      })
+    }
+
+    const parsed = executePlanSchema.safeParse(body)
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid request body',
+          details: parsed.error.issues.map((i) => i.message),
+        }),
+        { status: 400, headers }
+      )
+    }
+
+    const { steps, skip, conversationId, toolCallId } = parsed.data
+
+    // Check the whole plan before running any of it
+    try {
+      selectPlanSteps(parsePlanSteps(steps, VALID_TOOL_NAMES), skip)
+    } catch (error) {
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : 'Invalid plan' }),
+        { status: 400, headers }
+      )
+    }
+
+    // Get user identity from the Authorization header
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers,
+      })
+    }
+
+    const user = await ctx.runQuery(api.queries.auth.getCurrentUser)
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'User not found' }), {
+        status: 401,
+        headers,
+      })
+    }
+
+    // Check rate limit (uses same limit as chat endpoint)
+    const rateLimit = await ctx.runQuery(api.aiUsage.checkRateLimit, { userId: user._id })
+    if (!rateLimit.allowed) {
+      return new Response(
+        JSON.stringify({
+          error: 'Rate limit exceeded',
+          message: `You've used all ${rateLimit.limit} AI prompts for today.`,
+          remaining: 0,
+          limit: rateLimit.limit,
+        }),
+        { status: 429, headers }
+      )
+    }
+
+    // Stream each step's progress so the client can show it as it happens
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream({
+      async start(controller) {
+        const sendEvent = (event: string, data: unknown) => {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        }
+
+        try {
+          const result = await executePlan(ctx, user._id, steps, {
+            skip,
+            onEvent: (event) => sendEvent(event.type, event),
+          })
+
+          // Store the outcome on the message that proposed the plan
+          if (conversationId && toolCallId) {
+            const conversation = await ctx.runQuery(internal.conversations.getForUser, {
+              conversationId,
+              userId: user._id,
+            })
+            if (conversation) {
+              await ctx.runMutation(internal.conversations.recordConfirmation, {
+                conversationId: conversation._id,
+                toolCallId,
+                success: result.success,
+                summary: result.summary,
+                error: result.success ? undefined : result.summary,
+              })
+            }
+          }
+
+          // Point the client at an event the plan created, if it kept it
+          const created = result.steps.find((step) => step.tool === 'createEvent' && step.status === 'completed')
+          sendEvent('done', {
+            ...result,
+            entityId: created ? (created.data as { eventId: string }).eventId : undefined,
+          })
+        } catch (error) {
+          sendEvent('error', {
+            message: error instanceof Error ? error.message : 'Unknown error',
+          })
+        } finally {
+          controller.close()
+        }
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        ...getCorsHeaders(request),
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      },
+    })
+  }),
+})
+
 http.route({
   path: '/api/chat/stream',
   method: 'POST',
@@ -1351,7 +1957,7 @@ http.route({
       )
     }
 
-    const { messages: clientMessages, userMessage, confirmedToolCalls } = parsed.data
+    const { conversationId: requestedConversationId, userMessage, confirmedToolCalls } = parsed.data
 
     // Get user identity from the Authorization header (Bearer token)
     const identity = await ctx.auth.getUserIdentity()
@@ -1371,6 +1977,31 @@ http.route({
       })
     }
 
+    // Resuming a thread requires that it belongs to this user
+    let conversationId: Id<'conversations'> | null = null
+    if (requestedConversationId) {
+      const conversation = await ctx.runQuery(internal.conversations.getForUser, {
+        conversationId: requestedConversationId,
+        userId: user._id,
+      })
+      if (!conversation) {
+        return new Response(JSON.stringify({ error: 'Conversation not found' }), {
+          status: 404,
+          headers,
+        })
+      }
+      conversationId = conversation._id
+    }
+
+    const providerPin = await ctx.runQuery(internal.aiUsage.getProviderPreference, { userId: user._id })
+    const providerChain = getProviderChain(providerPin)
+    if (!providerChain) {
+      return new Response(
+        JSON.stringify({ error: 'AI service is not configured' }),
+        { status: 503, headers }
+      )
+    }
+
     // Atomic check AND increment - prevents race conditions
     const rateLimit = await ctx.runMutation(internal.aiUsage.checkAndIncrementUsage, { userId: user._id })
     if (!rateLimit.allowed) {
@@ -1394,42 +2025,63 @@ http.route({
     // Get user profile for context
     const profile = await ctx.runQuery(api.organizerProfiles.getMyProfile)
 
-    // Build message history for OpenAI
-    // Include current date so AI uses correct year for dates
-    const today = new Date()
-    const dateContext = `\n\n## Current Date:\nToday is ${today.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}. When users mention dates like "December 25th" without a year, use the NEXT upcoming occurrence (which would be ${today.getFullYear()} or ${today.getFullYear() + 1} depending on whether it has passed).`
+    // Build message history for the AI provider
+    // Include current date (in the organizer's time zone) so AI uses correct year for dates
+    const timeZone = profile?.timezone || DEFAULT_TIME_ZONE
+    const dateContext = buildDateContext(Date.now(), timeZone)
+
+    const userContext = profile
+      ? `## User Context:\n- Organization: ${profile.organizationName || 'Not set'}\n- Event Types: ${profile.eventTypes?.join(', ') || 'Not specified'}\n- Experience: ${profile.experienceLevel || 'Unknown'}`
+      : null
+
+    // Persona prompt: the workspace's choice, or the version a resumed thread started with
+    const persona = await ctx.runQuery(internal.agentPersonas.resolveForChat, {
+      userId: user._id,
+      conversationId: conversationId ?? undefined,
+    })
 
-    const chatHistory: OpenAI.Chat.ChatCompletionMessageParam[] = [
+    const chatHistory: AIMessage[] = [
       {
         role: 'system',
-        content: profile
-          ? `${SYSTEM_PROMPT}${dateContext}\n\n## User Context:\n- Organization: ${profile.organizationName || 'Not set'}\n- Event Types: ${profile.eventTypes?.join(', ') || 'Not specified'}\n- Experience: ${profile.experienceLevel || 'Unknown'}`
-          : `${SYSTEM_PROMPT}${dateContext}`,
+        content: buildSystemPrompt({
+          persona: persona.prompt,
+          instructions: persona.instructions,
+          context: userContext ? [dateContext, userContext] : [dateContext],
+        }),
       },
     ]
 
-    // Add previous conversation history from client
-    if (clientMessages && clientMessages.length > 0) {
-      for (const msg of clientMessages) {
-        if (msg.role === 'user' || msg.role === 'assistant') {
-          chatHistory.push({
-            role: msg.role,
-            content: msg.content,
-          })
-        }
-      }
+    // Add previous conversation history from the server, then start a thread if this is the first message
+    if (conversationId) {
+      const priorMessages = await ctx.runQuery(internal.conversations.loadContext, { conversationId })
+      chatHistory.push(...priorMessages)
+    } else {
+      conversationId = await ctx.runMutation(internal.conversations.create, {
+        userId: user._id,
+        firstMessage: userMessage,
+        personaId: persona.personaId,
+        personaVersion: persona.personaVersion,
+      })
     }
+    const activeConversationId = conversationId
 
     // Add the new user message
     chatHistory.push({
       role: 'user',
       content: userMessage,
     })
+    await ctx.runMutation(internal.conversations.appendMessage, {
+      conversationId: activeConversationId,
+      role: 'user',
+      content: userMessage,
+    })
 
-    // Initialize OpenAI
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
+    const failoverEvents: FailoverEvent[] = []
+    const provider = new FailoverProvider(providerChain, {
+      onFailover: (event) => failoverEvents.push(event),
     })
+    // Model is set per chain entry; the rest applies to every provider
+    const providerConfig = { ...DEFAULT_CONFIGS[providerChain[0].type] }
 
     // Get available tools
     const tools = getOpenAITools()
@@ -1442,12 +2094,16 @@ http.route({
           controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
         }
 
+        sendEvent('conversation', { conversationId: activeConversationId })
+
         try {
           const currentMessages = [...chatHistory]
           const allToolCalls: ToolCall[] = []
           const allToolResults: ToolResult[] = []
           const pendingConfirmations: ToolCall[] = []
           let finalMessage = ''
+          // Everything streamed to the client this turn, stored as the assistant message
+          let streamedContent = ''
           let isComplete = false
           let entityId: string | undefined
 
@@ -1460,16 +2116,8 @@ http.route({
             // Send thinking event
             sendEvent('thinking', { iteration })
 
-            // Create streaming completion with retry logic
-            const stream = await callOpenAIWithRetry(openai, {
-              model: 'gpt-4o-mini',
-              messages: currentMessages,
-              tools,
-              tool_choice: 'auto',
-              temperature: 0.7,
-              max_tokens: 1500,
-              stream: true,
-            })
+            // Create streaming completion (providers handle their own retries)
+            const stream = await provider.createStreamingChat(currentMessages, tools, providerConfig)
 
             let currentContent = ''
             const currentToolCalls: Array<{
@@ -1479,28 +2127,30 @@ http.route({
 
             // Process streaming chunks
             for await (const chunk of stream) {
-              const delta = chunk.choices[0]?.delta
-
               // Stream text content
-              if (delta?.content) {
-                currentContent += delta.content
-                sendEvent('text', { content: delta.content })
+              if (chunk.type === 'text' && chunk.content) {
+                currentContent += chunk.content
+                streamedContent += chunk.content
+                sendEvent('text', { content: chunk.content })
               }
 
               // Accumulate tool calls
-              if (delta?.tool_calls) {
-                for (const tc of delta.tool_calls) {
-                  const index = tc.index
-                  if (!currentToolCalls[index]) {
-                    currentToolCalls[index] = {
-                      id: tc.id || '',
-                      function: { name: '', arguments: '' },
-                    }
+              if ((chunk.type === 'tool_call_start' || chunk.type === 'tool_call_delta') && chunk.toolCall) {
+                const tc = chunk.toolCall
+                const index = tc.index ?? 0
+                if (!currentToolCalls[index]) {
+                  currentToolCalls[index] = {
+                    id: tc.id || '',
+                    function: { name: '', arguments: '' },
                   }
-                  if (tc.id) currentToolCalls[index].id = tc.id
-                  if (tc.function?.name) currentToolCalls[index].function.name += tc.function.name
-                  if (tc.function?.arguments) currentToolCalls[index].function.arguments += tc.function.arguments
                 }
+                if (tc.id) currentToolCalls[index].id = tc.id
+                if (tc.function?.name) currentToolCalls[index].function.name += tc.function.name
+                if (tc.function?.arguments) currentToolCalls[index].function.arguments += tc.function.arguments
+              }
+
+              if (chunk.type === 'error') {
+                throw new Error(chunk.error || 'AI provider stream failed')
               }
             }
 
@@ -1531,7 +2181,7 @@ http.route({
             currentMessages.push({
               role: 'assistant',
               content: currentContent,
-              tool_calls: currentToolCalls.map((tc) => ({
+              toolCalls: currentToolCalls.map((tc) => ({
                 id: tc.id,
                 type: 'function' as const,
                 function: tc.function,
@@ -1569,7 +2219,7 @@ http.route({
                   allToolResults.push(placeholderResult)
                   currentMessages.push({
                     role: 'tool',
-                    tool_call_id: toolCall.id,
+                    toolCallId: toolCall.id,
                     content: JSON.stringify(placeholderResult),
                   })
                   continue
@@ -1605,36 +2255,70 @@ http.route({
               // Add tool result to messages
               currentMessages.push({
                 role: 'tool',
-                tool_call_id: toolCall.id,
+                toolCallId: toolCall.id,
                 content: JSON.stringify(result),
               })
             }
 
             // If there are pending confirmations, stop and ask user
             if (pendingConfirmations.length > 0) {
-              const confirmCompletion = await openai.chat.completions.create({
-                model: 'gpt-4o-mini',
-                messages: [
+              const confirmStream = await provider.createStreamingChat(
+                [
                   ...currentMessages,
                   {
                     role: 'user',
                     content: 'The action requires user confirmation. Please explain what you are about to do and ask for confirmation.',
                   },
                 ],
-                temperature: 0.7,
-                max_tokens: 500,
-              })
-              finalMessage = confirmCompletion.choices[0]?.message?.content || ''
+                tools,
+                { ...providerConfig, maxTokens: 500, toolChoice: 'none' }
+              )
+              finalMessage = ''
+              for await (const chunk of confirmStream) {
+                if (chunk.type === 'text' && chunk.content) {
+                  finalMessage += chunk.content
+                }
+              }
 
               // Stream the confirmation message
               if (finalMessage) {
+                streamedContent += streamedContent ? `\n\n${finalMessage}` : finalMessage
                 sendEvent('text', { content: finalMessage })
               }
               break
             }
           }
 
+          // Persist the reply with its tool activity; placeholder results for
+          // pending calls are replaced by confirmation outcomes
+          const pendingIds = new Set(pendingConfirmations.map((tc) => tc.id))
+          await ctx.runMutation(internal.conversations.appendMessage, {
+            conversationId: activeConversationId,
+            role: 'assistant',
+            content: streamedContent,
+            toolCalls: allToolCalls.length > 0 ? allToolCalls : undefined,
+            toolResults: allToolResults.length > 0
+              ? allToolResults.filter((r) => !pendingIds.has(r.toolCallId))
+              : undefined,
+            confirmations: pendingConfirmations.length > 0
+              ? pendingConfirmations.map((tc) => ({
+                  toolCallId: tc.id,
+                  name: tc.name,
+                  status: 'pending' as const,
+                }))
+              : undefined,
+          })
+
           // Usage already incremented atomically at the start - no need to increment again
+          // Record which provider actually served the request (after any failover)
+          if (provider.lastUsed) {
+            await ctx.runMutation(internal.aiUsage.recordProviderUsage, {
+              userId: user._id,
+              provider: provider.lastUsed.type,
+              model: provider.lastUsed.model,
+              failovers: failoverEvents.length,
+            })
+          }
 
           // Send completion event with rate limit info from atomic check
           sendEvent('done', {
@@ -1644,6 +2328,8 @@ http.route({
             pendingConfirmations,
             isComplete,
             entityId,
+            conversationId: activeConversationId,
+            provider: provider.lastUsed,
             // Include rate limit info from atomic check-and-increment
             rateLimit: {
               remaining: currentRateLimit.remaining,
@@ -0,0 +1,111 @@
+// ============================================================================
+// API Idempotency Keys
+// ============================================================================
+// Stores the response to a write request sent with an Idempotency-Key header
+// so a retried request gets the same response instead of running again.
+// See api/idempotency.ts for the HTTP side.
+
+import { v } from 'convex/values'
+import { internalMutation } from './_generated/server'
+
+// ----------------------------------------------------------------------------
+// Constants
+// ----------------------------------------------------------------------------
+
+// How long a key and its stored response are kept
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000
+
+// A claim with no stored response after this long belongs to a request that
+// died mid-flight, so a retry may take it over
+const STALE_CLAIM_MS = 5 * 60 * 1000
+
+// ----------------------------------------------------------------------------
+// Internal Functions (for HTTP actions)
+// ----------------------------------------------------------------------------
+
+/**
+ * Claim an idempotency key before running a request
+ * Returns 'claimed' if the request should run, otherwise what to send back
+ */
+export const claim = internalMutation({
+  args: {
+    apiKeyId: v.id('apiKeys'),
+    key: v.string(),
+    requestHash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now()
+    const existing = await ctx.db
+      .query('apiIdempotencyKeys')
+      .withIndex('by_key', q => q.eq('apiKeyId', args.apiKeyId).eq('key', args.key))
+      .first()
+
+    if (existing && existing.expiresAt > now) {
+      if (existing.requestHash !== args.requestHash) {
+        return { status: 'mismatch' as const }
+      }
+
+      if (existing.responseStatus !== undefined && existing.responseBody !== undefined) {
+        return {
+          status: 'replay' as const,
+          responseStatus: existing.responseStatus,
+          responseBody: existing.responseBody,
+        }
+      }
+
+      if (existing.createdAt > now - STALE_CLAIM_MS) {
+        return { status: 'in_progress' as const }
+      }
+    }
+
+    // New key, expired key or abandoned claim
+    if (existing) {
+      await ctx.db.delete(existing._id)
+    }
+
+    const claimId = await ctx.db.insert('apiIdempotencyKeys', {
+      apiKeyId: args.apiKeyId,
+      key: args.key,
+      requestHash: args.requestHash,
+      createdAt: now,
+      expiresAt: now + IDEMPOTENCY_KEY_TTL_MS,
+    })
+
+    return { status: 'claimed' as const, claimId }
+  },
+})
+
+/**
+ * Store the response for a claimed key
+ */
+export const complete = internalMutation({
+  args: {
+    claimId: v.id('apiIdempotencyKeys'),
+    responseStatus: v.number(),
+    responseBody: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const claimed = await ctx.db.get(args.claimId)
+    if (!claimed) return
+
+    await ctx.db.patch(args.claimId, {
+      responseStatus: args.responseStatus,
+      responseBody: args.responseBody,
+    })
+  },
+})
+
+/**
+ * Drop a claim so the request can be retried (used when it failed server-side)
+ */
+export const release = internalMutation({
+  args: {
+    claimId: v.id('apiIdempotencyKeys'),
+  },
+  handler: async (ctx, args) => {
+    const claimed = await ctx.db.get(args.claimId)
+    if (!claimed) return
+
+    await ctx.db.delete(args.claimId)
+  },
+})
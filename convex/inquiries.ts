@@ -1,6 +1,12 @@
 import { v } from 'convex/values'
 import { mutation, query } from './_generated/server'
 import { getCurrentUser, assertRole, isAdminRole } from './lib/auth'
+import {
+  appendInquiryMessage,
+  getInquiryParticipant,
+  isInquiryUnread,
+} from './lib/inquiryThreads'
+import { canAccessEvent } from './lib/organizations'
 import type { Id } from './_generated/dataModel'
 
 /**
@@ -95,7 +101,9 @@ export const listMySent = query({
           }
         }
 
-        return { ...inquiry, recipientDetails, eventDetails }
+        const hasUnread = await isInquiryUnread(ctx, inquiry, user._id)
+
+        return { ...inquiry, recipientDetails, eventDetails, hasUnread }
       })
     )
 
@@ -163,9 +171,9 @@ export const listByEvent = query({
     const event = await ctx.db.get(args.eventId)
     if (!event) return []
 
-    // Only owner or admin can view
-    const isOwner = event.organizerId === user._id
-    if (!isOwner && !isAdminRole(user.role)) return []
+    // Only people on the event or admins can view
+    const canView = await canAccessEvent(ctx, event, user._id, 'viewer')
+    if (!canView && !isAdminRole(user.role)) return []
 
     const inquiries = await ctx.db
       .query('inquiries')
@@ -222,9 +230,8 @@ export const get = query({
     const inquiry = await ctx.db.get(args.id)
     if (!inquiry) return null
 
-    // Only sender or admin can view
-    const isSender = inquiry.fromUserId === user._id
-    if (!isSender && !isAdminRole(user.role)) return null
+    // Only thread participants can view (sender, linked portal user or admin)
+    if (!getInquiryParticipant(inquiry, user)) return null
 
     // Get recipient details
     let recipientDetails = null
@@ -253,14 +260,36 @@ export const getMyUnreadCount = query({
     const user = await getCurrentUser(ctx)
     if (!user) return 0
 
-    // Count inquiries I've sent that have been replied to but I haven't viewed
+    // Threads I started, plus those addressed to my vendor or sponsor in the portal
     const inquiries = await ctx.db
       .query('inquiries')
       .withIndex('by_from', (q) => q.eq('fromUserId', user._id))
-      .filter((q) => q.eq(q.field('status'), 'replied'))
       .collect()
 
-    return inquiries.length
+    const portalRecipient =
+      user.role === 'vendor' && user.vendorId
+        ? { toType: 'vendor' as const, toId: user.vendorId }
+        : user.role === 'sponsor' && user.sponsorId
+          ? { toType: 'sponsor' as const, toId: user.sponsorId }
+          : null
+    if (portalRecipient) {
+      const received = await ctx.db
+        .query('inquiries')
+        .withIndex('by_to', (q) =>
+          q.eq('toType', portalRecipient.toType).eq('toId', portalRecipient.toId)
+        )
+        .collect()
+      inquiries.push(...received)
+    }
+
+    // Count open threads with messages I haven't read
+    let count = 0
+    for (const inquiry of inquiries) {
+      if (inquiry.status === 'closed') continue
+      if (await isInquiryUnread(ctx, inquiry, user._id)) count++
+    }
+
+    return count
   },
 })
 
@@ -311,14 +340,14 @@ export const send = mutation({
       }
     }
 
-    // If event is specified, verify ownership
+    // If event is specified, verify the user can edit it
     if (args.eventId) {
       const event = await ctx.db.get(args.eventId)
       if (!event) {
         throw new Error('Event not found')
       }
-      const isOwner = event.organizerId === user._id
-      if (!isOwner && !isAdmin) {
+      const canEdit = await canAccessEvent(ctx, event, user._id, 'editor')
+      if (!canEdit && !isAdmin) {
         throw new Error('Access denied - not your event')
       }
     }
@@ -338,7 +367,9 @@ export const send = mutation({
     }
 
     const fromType = isAdmin ? 'admin' : 'organizer'
+    const now = Date.now()
 
+    // The opening message starts the thread, replies go to inquiryMessages
     return await ctx.db.insert('inquiries', {
       fromType,
       fromUserId: user._id,
@@ -348,7 +379,10 @@ export const send = mutation({
       subject: args.subject.trim(),
       message: args.message.trim(),
       status: 'sent',
-      createdAt: Date.now(),
+      lastMessageAt: now,
+      lastMessageBy: user._id,
+      messageCount: 0,
+      createdAt: now,
     })
   },
 })
@@ -377,14 +411,14 @@ export const markAsRead = mutation({
   },
 })
 
-// Add response (admin responding on behalf of vendor/sponsor)
+// Add response (admin responding on behalf of vendor/sponsor), posted to the thread
 export const respond = mutation({
   args: {
     inquiryId: v.id('inquiries'),
     response: v.string(),
   },
   handler: async (ctx, args) => {
-    await assertRole(ctx, 'admin')
+    const admin = await assertRole(ctx, 'admin')
 
     const inquiry = await ctx.db.get(args.inquiryId)
     if (!inquiry) {
@@ -398,13 +432,17 @@ export const respond = mutation({
     if (args.response.trim().length === 0) {
       throw new Error('Response cannot be empty')
     }
+    if (inquiry.status === 'closed') {
+      throw new Error('This inquiry has been closed')
+    }
 
-    await ctx.db.patch(args.inquiryId, {
-      response: args.response.trim(),
-      respondedAt: Date.now(),
-      status: 'replied',
-      updatedAt: Date.now(),
-    })
+    await appendInquiryMessage(
+      ctx,
+      inquiry,
+      admin,
+      { side: 'recipient', authorType: 'admin' },
+      { body: args.response.trim() }
+    )
 
     return { success: true }
   },
@@ -0,0 +1,303 @@
+import { v } from 'convex/values'
+import { query, mutation } from './_generated/server'
+import type { QueryCtx, MutationCtx } from './_generated/server'
+import type { Doc, Id } from './_generated/dataModel'
+import { getCurrentUser } from './lib/auth'
+import {
+  appendInquiryMessage,
+  getInquiryParticipant,
+  markThreadRead,
+  type InquiryAttachment,
+  type InquiryAuthorType,
+} from './lib/inquiryThreads'
+
+const MAX_ATTACHMENTS = 5
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Load an inquiry the current user takes part in, with their side of the thread
+ */
+async function getThreadAccess(ctx: QueryCtx | MutationCtx, inquiryId: Id<'inquiries'>) {
+  const user = await getCurrentUser(ctx)
+  if (!user) return null
+
+  const inquiry = await ctx.db.get(inquiryId)
+  if (!inquiry) return null
+
+  const participant = getInquiryParticipant(inquiry, user)
+  if (!participant) return null
+
+  return { user, inquiry, participant }
+}
+
+/**
+ * Require an active participant of the inquiry thread
+ */
+async function assertThreadAccess(ctx: MutationCtx, inquiryId: Id<'inquiries'>) {
+  const user = await getCurrentUser(ctx)
+  if (!user) throw new Error('Authentication required')
+  if (user.status === 'suspended') throw new Error('Account suspended. Please contact support.')
+
+  const access = await getThreadAccess(ctx, inquiryId)
+  if (!access) throw new Error('Inquiry not found')
+
+  return access
+}
+
+/**
+ * Check an attachment against the upload the user asked for and record the
+ * file on it. Only files this user uploaded, and that aren't already attached
+ * to a message, can be attached, since deleting the inquiry deletes them.
+ */
+async function claimUpload(
+  ctx: MutationCtx,
+  user: Doc<'users'>,
+  upload: { uploadId: Id<'inquiryUploads'>; storageId: Id<'_storage'>; name: string }
+) {
+  const grant = await ctx.db.get(upload.uploadId)
+  const file = await ctx.db.system.get(upload.storageId)
+  // The file must have been stored after the upload URL was handed out
+  if (!grant || grant.userId !== user._id || grant.storageId || !file || file._creationTime < grant.createdAt) {
+    throw new Error('Attachment not found - please upload it again')
+  }
+
+  const attached = await ctx.db
+    .query('inquiryUploads')
+    .withIndex('by_storage', (q) => q.eq('storageId', upload.storageId))
+    .first()
+  if (attached) {
+    throw new Error(`${upload.name} is already attached to another message`)
+  }
+
+  await ctx.db.patch(grant._id, { storageId: upload.storageId })
+  return file
+}
+
+/**
+ * Name of the vendor or sponsor an inquiry is addressed to
+ */
+async function getRecipientName(ctx: QueryCtx, inquiry: Doc<'inquiries'>) {
+  const recipient =
+    inquiry.toType === 'vendor'
+      ? await ctx.db.get(inquiry.toId as Id<'vendors'>)
+      : await ctx.db.get(inquiry.toId as Id<'sponsors'>)
+  return recipient?.name ?? null
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Get an inquiry thread: the opening message, any legacy response, replies
+ * with attachment URLs, and everyone's read receipts
+ */
+export const listThread = query({
+  args: { inquiryId: v.id('inquiries') },
+  handler: async (ctx, args) => {
+    const access = await getThreadAccess(ctx, args.inquiryId)
+    if (!access) return null
+    const { user, inquiry, participant } = access
+
+    const [sender, recipientName, replies, reads] = await Promise.all([
+      ctx.db.get(inquiry.fromUserId),
+      getRecipientName(ctx, inquiry),
+      ctx.db
+        .query('inquiryMessages')
+        .withIndex('by_inquiry', (q) => q.eq('inquiryId', inquiry._id))
+        .collect(),
+      ctx.db
+        .query('inquiryReads')
+        .withIndex('by_inquiry', (q) => q.eq('inquiryId', inquiry._id))
+        .collect(),
+    ])
+
+    const messages: Array<{
+      _id: string
+      authorName: string
+      authorType: InquiryAuthorType
+      side: 'sender' | 'recipient'
+      isOwn: boolean
+      body: string
+      attachments: Array<{ name: string; contentType?: string; size: number; url: string | null }>
+      createdAt: number
+    }> = [
+      {
+        _id: inquiry._id,
+        authorName: sender?.name ?? 'Organizer',
+        authorType: inquiry.fromType,
+        side: 'sender',
+        isOwn: inquiry.fromUserId === user._id,
+        body: inquiry.message,
+        attachments: [],
+        createdAt: inquiry.createdAt,
+      },
+    ]
+
+    // Inquiries answered before threads keep their single response
+    if (inquiry.response && inquiry.respondedAt !== undefined) {
+      messages.push({
+        _id: `${inquiry._id}-response`,
+        authorName: recipientName ?? 'Recipient',
+        authorType: inquiry.toType,
+        side: 'recipient',
+        isOwn: false,
+        body: inquiry.response,
+        attachments: [],
+        createdAt: inquiry.respondedAt,
+      })
+    }
+
+    const authors = new Map<string, Doc<'users'> | null>()
+    for (const reply of replies) {
+      if (!authors.has(reply.authorId)) {
+        authors.set(reply.authorId, await ctx.db.get(reply.authorId))
+      }
+      const author = authors.get(reply.authorId)
+      const attachments = await Promise.all(
+        (reply.attachments ?? []).map(async (attachment) => ({
+          name: attachment.name,
+          contentType: attachment.contentType,
+          size: attachment.size,
+          url: await ctx.storage.getUrl(attachment.storageId),
+        }))
+      )
+      messages.push({
+        _id: reply._id,
+        // Portal replies are shown under the vendor or sponsor name
+        authorName:
+          (reply.authorType === 'vendor' || reply.authorType === 'sponsor') && recipientName
+            ? recipientName
+            : author?.name ?? 'Unknown',
+        authorType: reply.authorType,
+        side: reply.authorId === inquiry.fromUserId ? 'sender' : 'recipient',
+        isOwn: reply.authorId === user._id,
+        body: reply.body,
+        attachments,
+        createdAt: reply.createdAt,
+      })
+    }
+
+    const receipts = await Promise.all(
+      reads.map(async (read) => {
+        const reader = authors.get(read.userId) ?? (await ctx.db.get(read.userId))
+        return {
+          userId: read.userId,
+          name: reader?.name ?? 'Unknown',
+          isOwn: read.userId === user._id,
+          lastReadAt: read.lastReadAt,
+        }
+      })
+    )
+
+    return {
+      inquiryId: inquiry._id,
+      subject: inquiry.subject,
+      status: inquiry.status,
+      side: participant.side,
+      canPost: inquiry.status !== 'closed',
+      messages,
+      receipts,
+    }
+  },
+})
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Get a short-lived URL to upload an attachment to file storage. The upload
+ * ID is passed back with the file when posting, to show who uploaded it.
+ */
+export const generateUploadUrl = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Authentication required')
+    if (user.status === 'suspended') throw new Error('Account suspended. Please contact support.')
+
+    const uploadId = await ctx.db.insert('inquiryUploads', { userId: user._id, createdAt: Date.now() })
+    const uploadUrl = await ctx.storage.generateUploadUrl()
+    return { uploadUrl, uploadId }
+  },
+})
+
+/**
+ * Post a message to an inquiry thread, optionally with uploaded attachments
+ */
+export const post = mutation({
+  args: {
+    inquiryId: v.id('inquiries'),
+    body: v.string(),
+    attachments: v.optional(
+      v.array(
+        v.object({
+          uploadId: v.id('inquiryUploads'),
+          storageId: v.id('_storage'),
+          name: v.string(),
+        })
+      )
+    ),
+  },
+  handler: async (ctx, args) => {
+    const { user, inquiry, participant } = await assertThreadAccess(ctx, args.inquiryId)
+
+    if (inquiry.status === 'closed') {
+      throw new Error('This inquiry has been closed')
+    }
+
+    // Input validation - string length limits
+    const body = args.body.trim()
+    const uploads = args.attachments ?? []
+    if (body.length > 10000) {
+      throw new Error('Message must be 10000 characters or less')
+    }
+    if (body.length === 0 && uploads.length === 0) {
+      throw new Error('Message cannot be empty')
+    }
+    if (uploads.length > MAX_ATTACHMENTS) {
+      throw new Error(`You can attach up to ${MAX_ATTACHMENTS} files`)
+    }
+
+    // Size and type come from file storage, not the client
+    const attachments: InquiryAttachment[] = []
+    for (const upload of uploads) {
+      const file = await claimUpload(ctx, user, upload)
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        throw new Error(`${upload.name} is larger than 10 MB`)
+      }
+      attachments.push({
+        storageId: upload.storageId,
+        name: upload.name.trim().slice(0, 200) || 'attachment',
+        contentType: file.contentType,
+        size: file.size,
+      })
+    }
+
+    return await appendInquiryMessage(ctx, inquiry, user, participant, { body, attachments })
+  },
+})
+
+/**
+ * Mark a thread read for the current user. The first read by the recipient
+ * side also moves a sent inquiry to read.
+ */
+export const markRead = mutation({
+  args: { inquiryId: v.id('inquiries') },
+  handler: async (ctx, args) => {
+    const { user, inquiry, participant } = await assertThreadAccess(ctx, args.inquiryId)
+
+    await markThreadRead(ctx, inquiry._id, user._id)
+
+    if (participant.side === 'recipient' && inquiry.status === 'sent') {
+      await ctx.db.patch(inquiry._id, { status: 'read', updatedAt: Date.now() })
+    }
+
+    return { success: true }
+  },
+})
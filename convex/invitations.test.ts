@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import { getInvitationStatus, normalizeEmail } from './invitations'
+
+describe('normalizeEmail', () => {
+  it('trims and lowercases addresses', () => {
+    expect(normalizeEmail('  Sam.Lee@Example.COM ')).toBe('sam.lee@example.com')
+  })
+
+  it('rejects malformed addresses', () => {
+    expect(() => normalizeEmail('not-an-email')).toThrow('valid email')
+    expect(() => normalizeEmail('a b@example.com')).toThrow('valid email')
+  })
+})
+
+describe('getInvitationStatus', () => {
+  const now = 1_000_000
+
+  it('reports pending invites before expiry', () => {
+    expect(getInvitationStatus({ status: 'pending', expiresAt: now + 1 }, now)).toBe('pending')
+  })
+
+  it('reports pending invites past expiry as expired', () => {
+    expect(getInvitationStatus({ status: 'pending', expiresAt: now }, now)).toBe('expired')
+  })
+
+  it('keeps accepted and revoked status regardless of expiry', () => {
+    expect(getInvitationStatus({ status: 'accepted', expiresAt: now - 1 }, now)).toBe('accepted')
+    expect(getInvitationStatus({ status: 'revoked', expiresAt: now - 1 }, now)).toBe('revoked')
+  })
+})
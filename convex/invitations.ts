@@ -0,0 +1,622 @@
+import { v } from 'convex/values'
+import { query, mutation, internalQuery, internalMutation, internalAction } from './_generated/server'
+import type { QueryCtx, MutationCtx } from './_generated/server'
+import type { Doc, Id } from './_generated/dataModel'
+import { internal } from './_generated/api'
+import { getCurrentUser, isAdminRole } from './lib/auth'
+import { canAccessEvent, getEventCollaborator, getMembership, hasOrgRole, ORG_ROLE_HIERARCHY } from './lib/organizations'
+import { createEmailTransport, invitationEmail } from './lib/email'
+
+const SITE_URL = process.env.SITE_URL || 'http://localhost:5173'
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
+const TOKEN_BYTES = 32
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const roleValidator = v.union(v.literal('owner'), v.literal('editor'), v.literal('viewer'))
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired'
+
+/** What an invitation grants access to; exactly one is set */
+interface InvitationTarget {
+  organizationId?: Id<'organizations'>
+  eventId?: Id<'events'>
+  vendorId?: Id<'vendors'>
+  sponsorId?: Id<'sponsors'>
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Validate and normalize an invitee email address
+ */
+export function normalizeEmail(email: string): string {
+  const normalized = email.trim().toLowerCase()
+  if (!EMAIL_PATTERN.test(normalized)) throw new Error('Enter a valid email address')
+  return normalized
+}
+
+/**
+ * Effective status of an invitation. Pending invites past their expiry are expired.
+ */
+export function getInvitationStatus(
+  invitation: Pick<Doc<'invitations'>, 'status' | 'expiresAt'>,
+  now: number = Date.now()
+): InvitationStatus {
+  if (invitation.status === 'pending' && invitation.expiresAt <= now) return 'expired'
+  return invitation.status
+}
+
+/**
+ * Generate a random URL-safe invite token
+ */
+function generateToken(): string {
+  const bytes = new Uint8Array(TOKEN_BYTES)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Hash an invite token using SHA-256. Only the hash is stored.
+ */
+async function hashToken(token: string): Promise<string> {
+  const data = new TextEncoder().encode(token)
+  const hashBuffer = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(hashBuffer), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Require the current user to manage invitations for a workspace, event or portal.
+ * Workspace invites need a workspace owner, event invites an event owner and
+ * vendor/sponsor portal invites a site admin.
+ */
+async function assertCanInvite(ctx: MutationCtx, target: InvitationTarget) {
+  const user = await getCurrentUser(ctx)
+  if (!user) throw new Error('Authentication required')
+
+  if (target.organizationId) {
+    const membership = await getMembership(ctx, target.organizationId, user._id)
+    if (!hasOrgRole(membership?.role ?? null, 'owner')) {
+      throw new Error('Access denied - only workspace owners can invite members')
+    }
+  } else if (target.eventId) {
+    const event = await ctx.db.get(target.eventId)
+    if (!event) throw new Error('Event not found')
+    if (!(await canAccessEvent(ctx, event, user._id, 'owner'))) {
+      throw new Error('Access denied - only event owners can invite collaborators')
+    }
+  } else if (target.vendorId || target.sponsorId) {
+    if (!isAdminRole(user.role)) {
+      throw new Error('Access denied - only admins can send portal invitations')
+    }
+  }
+
+  return user
+}
+
+/**
+ * What an invitation grants access to
+ */
+function getTargetType(invitation: Doc<'invitations'>) {
+  if (invitation.organizationId) return 'organization' as const
+  if (invitation.vendorId) return 'vendor' as const
+  if (invitation.sponsorId) return 'sponsor' as const
+  return 'event' as const
+}
+
+/**
+ * Find an invitation by its raw token
+ */
+async function findByToken(ctx: QueryCtx | MutationCtx, token: string) {
+  const tokenHash = await hashToken(token)
+  return ctx.db
+    .query('invitations')
+    .withIndex('by_token', (q) => q.eq('tokenHash', tokenHash))
+    .first()
+}
+
+/**
+ * Check that a user can become the portal account for a vendor or sponsor.
+ * Portal accounts lose access to the organizer dashboard, so admins, accounts
+ * that organize events and accounts already managing another record are refused.
+ */
+async function assertCanLinkPortalAccount(
+  ctx: MutationCtx,
+  user: Doc<'users'>,
+  target: { vendorId?: Id<'vendors'>; sponsorId?: Id<'sponsors'> }
+) {
+  if (isAdminRole(user.role)) {
+    throw new Error('Admin accounts cannot be linked to a vendor or sponsor')
+  }
+  if (
+    (user.vendorId && user.vendorId !== target.vendorId) ||
+    (user.sponsorId && user.sponsorId !== target.sponsorId)
+  ) {
+    throw new Error('Your account is already linked to another vendor or sponsor')
+  }
+
+  const organizedEvent = await ctx.db
+    .query('events')
+    .withIndex('by_organizer', (q) => q.eq('organizerId', user._id))
+    .first()
+  if (organizedEvent) {
+    throw new Error('This account already organizes events. Sign up with a separate account for the portal.')
+  }
+}
+
+/**
+ * Create a pending invitation and schedule its email. Any outstanding invite
+ * for the same address and target is revoked first. Callers check permissions
+ * and pass an already normalized email.
+ */
+export async function issueInvitation(
+  ctx: MutationCtx,
+  args: InvitationTarget & {
+    email: string
+    role?: Doc<'invitations'>['role']
+    invitedBy: Id<'users'>
+  }
+) {
+  const existing = await ctx.db
+    .query('invitations')
+    .withIndex('by_email', (q) => q.eq('email', args.email).eq('status', 'pending'))
+    .collect()
+  for (const invitation of existing) {
+    if (
+      invitation.organizationId === args.organizationId &&
+      invitation.eventId === args.eventId &&
+      invitation.vendorId === args.vendorId &&
+      invitation.sponsorId === args.sponsorId
+    ) {
+      await ctx.db.patch(invitation._id, {
+        status: 'revoked',
+        revokedBy: args.invitedBy,
+        revokedAt: Date.now(),
+      })
+    }
+  }
+
+  const now = Date.now()
+  const invitationId = await ctx.db.insert('invitations', {
+    email: args.email,
+    organizationId: args.organizationId,
+    eventId: args.eventId,
+    vendorId: args.vendorId,
+    sponsorId: args.sponsorId,
+    role: args.role,
+    status: 'pending',
+    expiresAt: now + INVITATION_TTL_MS,
+    invitedBy: args.invitedBy,
+    createdAt: now,
+  })
+
+  await ctx.scheduler.runAfter(0, internal.invitations.sendEmail, { invitationId })
+
+  return invitationId
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Look up an invitation by token for the accept page (no auth required).
+ * The token itself is the credential, so only a summary is returned.
+ */
+export const getByToken = query({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const invitation = await findByToken(ctx, args.token)
+    if (!invitation) return null
+
+    const [organization, event, vendor, sponsor, inviter] = await Promise.all([
+      invitation.organizationId ? ctx.db.get(invitation.organizationId) : null,
+      invitation.eventId ? ctx.db.get(invitation.eventId) : null,
+      invitation.vendorId ? ctx.db.get(invitation.vendorId) : null,
+      invitation.sponsorId ? ctx.db.get(invitation.sponsorId) : null,
+      ctx.db.get(invitation.invitedBy),
+    ])
+
+    return {
+      email: invitation.email,
+      role: invitation.role,
+      status: getInvitationStatus(invitation),
+      expiresAt: invitation.expiresAt,
+      targetType: getTargetType(invitation),
+      targetName: organization?.name ?? event?.title ?? vendor?.name ?? sponsor?.name ?? 'Deleted',
+      inviterName: inviter?.name ?? inviter?.email ?? 'Someone',
+    }
+  },
+})
+
+/**
+ * List pending invitations for a workspace or event (owners), or a vendor or sponsor (admins)
+ */
+export const listPending = query({
+  args: {
+    organizationId: v.optional(v.id('organizations')),
+    eventId: v.optional(v.id('events')),
+    vendorId: v.optional(v.id('vendors')),
+    sponsorId: v.optional(v.id('sponsors')),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return []
+
+    let invitations: Doc<'invitations'>[] = []
+    if (args.organizationId) {
+      const organizationId = args.organizationId
+      const membership = await getMembership(ctx, organizationId, user._id)
+      if (!hasOrgRole(membership?.role ?? null, 'owner')) return []
+
+      invitations = await ctx.db
+        .query('invitations')
+        .withIndex('by_organization', (q) =>
+          q.eq('organizationId', organizationId).eq('status', 'pending')
+        )
+        .collect()
+    } else if (args.eventId) {
+      const eventId = args.eventId
+      const event = await ctx.db.get(eventId)
+      if (!event || !(await canAccessEvent(ctx, event, user._id, 'owner'))) return []
+
+      invitations = await ctx.db
+        .query('invitations')
+        .withIndex('by_event', (q) => q.eq('eventId', eventId).eq('status', 'pending'))
+        .collect()
+    } else if (args.vendorId) {
+      const vendorId = args.vendorId
+      if (!isAdminRole(user.role)) return []
+
+      invitations = await ctx.db
+        .query('invitations')
+        .withIndex('by_vendor', (q) => q.eq('vendorId', vendorId).eq('status', 'pending'))
+        .collect()
+    } else if (args.sponsorId) {
+      const sponsorId = args.sponsorId
+      if (!isAdminRole(user.role)) return []
+
+      invitations = await ctx.db
+        .query('invitations')
+        .withIndex('by_sponsor', (q) => q.eq('sponsorId', sponsorId).eq('status', 'pending'))
+        .collect()
+    }
+
+    const now = Date.now()
+    return invitations
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map((i) => ({
+        _id: i._id,
+        email: i.email,
+        role: i.role,
+        status: getInvitationStatus(i, now),
+        expiresAt: i.expiresAt,
+        emailSentAt: i.emailSentAt,
+        emailError: i.emailError,
+        createdAt: i.createdAt,
+      }))
+  },
+})
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Invite someone by email to a workspace, a single event or a vendor/sponsor portal.
+ * Exactly one of organizationId, eventId, vendorId or sponsorId must be given;
+ * workspace and event invites also need a role.
+ */
+export const create = mutation({
+  args: {
+    email: v.string(),
+    organizationId: v.optional(v.id('organizations')),
+    eventId: v.optional(v.id('events')),
+    vendorId: v.optional(v.id('vendors')),
+    sponsorId: v.optional(v.id('sponsors')),
+    role: v.optional(roleValidator),
+  },
+  handler: async (ctx, args) => {
+    const targets = [args.organizationId, args.eventId, args.vendorId, args.sponsorId].filter(Boolean)
+    if (targets.length !== 1) {
+      throw new Error('Invite to exactly one workspace, event, vendor or sponsor')
+    }
+    if (args.vendorId || args.sponsorId) {
+      if (args.role) throw new Error('Portal invites do not take a role')
+      const kind = args.vendorId ? 'vendor' : 'sponsor'
+      const record = args.vendorId
+        ? await ctx.db.get(args.vendorId)
+        : args.sponsorId
+          ? await ctx.db.get(args.sponsorId)
+          : null
+      if (!record) throw new Error(kind === 'vendor' ? 'Vendor not found' : 'Sponsor not found')
+      if (record.userId) throw new Error(`This ${kind} already has a portal account`)
+    } else if (!args.role) {
+      throw new Error('Choose a role for the invitation')
+    }
+    if (args.eventId && args.role === 'owner') {
+      throw new Error('Event collaborators can be editors or viewers')
+    }
+
+    const user = await assertCanInvite(ctx, args)
+    const { email, role, ...target } = args
+
+    return issueInvitation(ctx, {
+      ...target,
+      email: normalizeEmail(email),
+      role,
+      invitedBy: user._id,
+    })
+  },
+})
+
+/**
+ * Issue a fresh link and expiry for a pending invitation and email it again
+ */
+export const resend = mutation({
+  args: { id: v.id('invitations') },
+  handler: async (ctx, args) => {
+    const invitation = await ctx.db.get(args.id)
+    if (!invitation || invitation.status !== 'pending') {
+      throw new Error('Invitation is no longer pending')
+    }
+
+    await assertCanInvite(ctx, invitation)
+
+    // The email gets a fresh link, which replaces the old one
+    await ctx.db.patch(args.id, {
+      tokenHash: undefined,
+      expiresAt: Date.now() + INVITATION_TTL_MS,
+      emailSentAt: undefined,
+      emailError: undefined,
+    })
+
+    await ctx.scheduler.runAfter(0, internal.invitations.sendEmail, { invitationId: args.id })
+
+    return { success: true }
+  },
+})
+
+/**
+ * Revoke a pending invitation (workspace/event owners or site admins)
+ */
+export const revoke = mutation({
+  args: { id: v.id('invitations') },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Authentication required')
+
+    const invitation = await ctx.db.get(args.id)
+    if (!invitation) throw new Error('Invitation not found')
+    if (invitation.status !== 'pending') throw new Error('Invitation is no longer pending')
+
+    if (!isAdminRole(user.role)) {
+      await assertCanInvite(ctx, invitation)
+    }
+
+    await ctx.db.patch(args.id, {
+      status: 'revoked',
+      revokedBy: user._id,
+      revokedAt: Date.now(),
+    })
+
+    return { success: true }
+  },
+})
+
+/**
+ * Accept an invitation as the signed-in user. The account email must match
+ * the invited address.
+ */
+export const accept = mutation({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Authentication required')
+
+    const invitation = await findByToken(ctx, args.token)
+    if (!invitation) throw new Error('Invitation not found')
+
+    const status = getInvitationStatus(invitation)
+    if (status === 'expired') throw new Error('This invitation has expired')
+    if (status === 'revoked') throw new Error('This invitation has been revoked')
+    if (status === 'accepted') throw new Error('This invitation has already been used')
+
+    if (user.email?.toLowerCase() !== invitation.email) {
+      throw new Error(`This invitation was sent to ${invitation.email}. Sign in with that email to accept it.`)
+    }
+
+    const now = Date.now()
+    let result: {
+      organizationId?: Id<'organizations'>
+      eventId?: Id<'events'>
+      vendorId?: Id<'vendors'>
+      sponsorId?: Id<'sponsors'>
+    }
+
+    if (invitation.vendorId) {
+      const vendor = await ctx.db.get(invitation.vendorId)
+      if (!vendor) throw new Error('This vendor no longer exists')
+      if (vendor.userId && vendor.userId !== user._id) {
+        throw new Error('This vendor already has a portal account')
+      }
+      await assertCanLinkPortalAccount(ctx, user, { vendorId: vendor._id })
+
+      await ctx.db.patch(vendor._id, { userId: user._id, updatedAt: now })
+      await ctx.db.patch(user._id, { role: 'vendor', vendorId: vendor._id, updatedAt: now })
+      result = { vendorId: vendor._id }
+    } else if (invitation.sponsorId) {
+      const sponsor = await ctx.db.get(invitation.sponsorId)
+      if (!sponsor) throw new Error('This sponsor no longer exists')
+      if (sponsor.userId && sponsor.userId !== user._id) {
+        throw new Error('This sponsor already has a portal account')
+      }
+      await assertCanLinkPortalAccount(ctx, user, { sponsorId: sponsor._id })
+
+      await ctx.db.patch(sponsor._id, { userId: user._id, updatedAt: now })
+      await ctx.db.patch(user._id, { role: 'sponsor', sponsorId: sponsor._id, updatedAt: now })
+      result = { sponsorId: sponsor._id }
+    } else if (invitation.organizationId) {
+      const organization = await ctx.db.get(invitation.organizationId)
+      if (!organization) throw new Error('This workspace no longer exists')
+
+      const role = invitation.role ?? 'viewer'
+      const membership = await getMembership(ctx, organization._id, user._id)
+      if (!membership) {
+        await ctx.db.insert('organizationMembers', {
+          organizationId: organization._id,
+          userId: user._id,
+          role,
+          addedBy: invitation.invitedBy,
+          createdAt: now,
+        })
+      } else if (ORG_ROLE_HIERARCHY[role] > ORG_ROLE_HIERARCHY[membership.role]) {
+        await ctx.db.patch(membership._id, { role, updatedAt: now })
+      }
+
+      await ctx.db.patch(user._id, { activeOrganizationId: organization._id, updatedAt: now })
+      result = { organizationId: organization._id }
+    } else {
+      const event = invitation.eventId ? await ctx.db.get(invitation.eventId) : null
+      if (!event) throw new Error('This event no longer exists')
+
+      // Owner-level invites are rejected at creation, so this is editor or viewer
+      const role = invitation.role === 'viewer' ? 'viewer' : 'editor'
+      const collaborator = await getEventCollaborator(ctx, event._id, user._id)
+      if (!collaborator) {
+        await ctx.db.insert('eventCollaborators', {
+          eventId: event._id,
+          userId: user._id,
+          role,
+          addedBy: invitation.invitedBy,
+          createdAt: now,
+        })
+      } else if (ORG_ROLE_HIERARCHY[role] > ORG_ROLE_HIERARCHY[collaborator.role]) {
+        await ctx.db.patch(collaborator._id, { role })
+      }
+
+      result = { eventId: event._id }
+    }
+
+    await ctx.db.patch(invitation._id, {
+      status: 'accepted',
+      acceptedBy: user._id,
+      acceptedAt: now,
+    })
+
+    return result
+  },
+})
+
+// ============================================================================
+// Email Delivery
+// ============================================================================
+
+/**
+ * Load what the email needs: the invitation, its target and the inviter
+ */
+export const getForEmail = internalQuery({
+  args: { invitationId: v.id('invitations') },
+  handler: async (ctx, args) => {
+    const invitation = await ctx.db.get(args.invitationId)
+    if (!invitation) return null
+
+    const [organization, event, vendor, sponsor, inviter] = await Promise.all([
+      invitation.organizationId ? ctx.db.get(invitation.organizationId) : null,
+      invitation.eventId ? ctx.db.get(invitation.eventId) : null,
+      invitation.vendorId ? ctx.db.get(invitation.vendorId) : null,
+      invitation.sponsorId ? ctx.db.get(invitation.sponsorId) : null,
+      ctx.db.get(invitation.invitedBy),
+    ])
+
+    return {
+      invitation,
+      targetType: getTargetType(invitation),
+      targetName: organization?.name ?? event?.title ?? vendor?.name ?? sponsor?.name ?? 'Open Event',
+      inviterName: inviter?.name ?? inviter?.email ?? 'A teammate',
+    }
+  },
+})
+
+/**
+ * Store the hash of the token about to be emailed, replacing any earlier link
+ */
+export const setTokenHash = internalMutation({
+  args: {
+    invitationId: v.id('invitations'),
+    tokenHash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.invitationId, { tokenHash: args.tokenHash })
+  },
+})
+
+/**
+ * Record the outcome of an invitation email
+ */
+export const recordEmailResult = internalMutation({
+  args: {
+    invitationId: v.id('invitations'),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const invitation = await ctx.db.get(args.invitationId)
+    if (!invitation) return
+
+    await ctx.db.patch(args.invitationId, args.error
+      ? { emailError: args.error }
+      : { emailSentAt: Date.now(), emailError: undefined })
+  },
+})
+
+/**
+ * Send the invitation email through the configured transport. The token is
+ * made here so it only ever appears in the email, not in scheduled job args.
+ */
+export const sendEmail = internalAction({
+  args: {
+    invitationId: v.id('invitations'),
+  },
+  handler: async (ctx, args) => {
+    const record = await ctx.runQuery(internal.invitations.getForEmail, {
+      invitationId: args.invitationId,
+    })
+    if (!record || record.invitation.status !== 'pending') return
+
+    const { invitation, targetType, targetName, inviterName } = record
+    const token = generateToken()
+    await ctx.runMutation(internal.invitations.setTokenHash, {
+      invitationId: args.invitationId,
+      tokenHash: await hashToken(token),
+    })
+
+    const transport = createEmailTransport({
+      resendApiKey: process.env.AUTH_RESEND_KEY,
+      from: process.env.EMAIL_FROM,
+    })
+
+    try {
+      await transport.send(
+        invitationEmail({
+          to: invitation.email,
+          inviterName,
+          targetName,
+          targetType,
+          role: invitation.role,
+          acceptUrl: `${SITE_URL}/invite/${token}`,
+          expiresAt: invitation.expiresAt,
+        })
+      )
+      await ctx.runMutation(internal.invitations.recordEmailResult, {
+        invitationId: args.invitationId,
+      })
+    } catch (error) {
+      await ctx.runMutation(internal.invitations.recordEmailResult, {
+        invitationId: args.invitationId,
+        error: error instanceof Error ? error.message : 'Email send failed',
+      })
+    }
+  },
+})
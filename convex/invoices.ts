@@ -0,0 +1,211 @@
+import { v } from 'convex/values'
+import { query, mutation } from './_generated/server'
+import type { MutationCtx } from './_generated/server'
+import type { Id } from './_generated/dataModel'
+import { getCurrentUser } from './lib/auth'
+import { canAccessEvent } from './lib/organizations'
+import { createPaymentSchedule, isInvoiceOverdue, syncBudgetItemPayments } from './lib/invoices'
+
+// Load an invoice and its event, requiring edit access to the event
+async function getEditableInvoice(ctx: MutationCtx, id: Id<'invoices'>) {
+  const user = await getCurrentUser(ctx)
+  if (!user) throw new Error('Not authenticated')
+
+  const invoice = await ctx.db.get(id)
+  if (!invoice) throw new Error('Invoice not found')
+
+  const event = await ctx.db.get(invoice.eventId)
+  if (!event || !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
+    throw new Error('Access denied')
+  }
+
+  return { invoice, event }
+}
+
+// Get an event's invoices by due date, plus confirmed vendors with no payment schedule yet
+export const listByEvent = query({
+  args: {
+    eventId: v.id('events'),
+    overdueOnly: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return null
+
+    // Verify user can view the event
+    const event = await ctx.db.get(args.eventId)
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'viewer'))) return null
+
+    const now = Date.now()
+    const invoices = await ctx.db
+      .query('invoices')
+      .withIndex('by_event', (q) => q.eq('eventId', args.eventId))
+      .collect()
+
+    const engagements = await ctx.db
+      .query('eventVendors')
+      .withIndex('by_event', (q) => q.eq('eventId', args.eventId))
+      .collect()
+
+    const vendorNames = new Map<string, string>()
+    for (const engagement of engagements) {
+      const vendor = await ctx.db.get(engagement.vendorId)
+      if (vendor) vendorNames.set(engagement.vendorId, vendor.name)
+    }
+
+    const withStatus = invoices.map((invoice) => ({
+      ...invoice,
+      vendorName: vendorNames.get(invoice.vendorId) ?? 'Unknown vendor',
+      isOverdue: isInvoiceOverdue(invoice, now),
+    }))
+
+    const scheduled = new Set(
+      invoices.filter((i) => i.status !== 'void').map((i) => i.eventVendorId)
+    )
+    const unscheduled = engagements
+      .filter((e) => e.status === 'confirmed' && !scheduled.has(e._id))
+      .map((e) => ({
+        eventVendorId: e._id,
+        vendorName: vendorNames.get(e.vendorId) ?? 'Unknown vendor',
+        total: e.finalBudget ?? e.proposedBudget,
+      }))
+
+    const overdue = withStatus.filter((i) => i.isOverdue)
+
+    return {
+      invoices: args.overdueOnly ? overdue : withStatus,
+      unscheduled,
+      overdueCount: overdue.length,
+      pendingCount: withStatus.filter((i) => i.status === 'pending').length,
+    }
+  },
+})
+
+// Create (or recreate) the deposit and balance invoices for a confirmed vendor
+export const generateSchedule = mutation({
+  args: { eventVendorId: v.id('eventVendors') },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Not authenticated')
+
+    const engagement = await ctx.db.get(args.eventVendorId)
+    if (!engagement) throw new Error('Vendor relationship not found')
+
+    // Verify user can edit the event
+    const event = await ctx.db.get(engagement.eventId)
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
+      throw new Error('Access denied')
+    }
+
+    if (engagement.status !== 'confirmed') {
+      throw new Error('Only confirmed vendors can have a payment schedule')
+    }
+
+    const existing = await ctx.db
+      .query('invoices')
+      .withIndex('by_event_vendor', (q) => q.eq('eventVendorId', args.eventVendorId))
+      .collect()
+    if (existing.some((invoice) => invoice.status === 'paid')) {
+      throw new Error('Payments have already been recorded for this vendor - edit the invoices instead')
+    }
+
+    // Replace any unpaid invoices
+    for (const invoice of existing) {
+      await ctx.db.delete(invoice._id)
+    }
+
+    const ids = await createPaymentSchedule(ctx, event, engagement, user._id)
+    if (ids.length === 0) {
+      throw new Error('Set a final budget for this vendor before creating a payment schedule')
+    }
+
+    return ids
+  },
+})
+
+// Update an unpaid invoice (amount, due date, invoice number, notes)
+export const update = mutation({
+  args: {
+    id: v.id('invoices'),
+    amount: v.optional(v.number()),
+    dueDate: v.optional(v.number()),
+    invoiceNumber: v.optional(v.string()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { invoice } = await getEditableInvoice(ctx, args.id)
+
+    if (invoice.status !== 'pending') {
+      throw new Error('Only unpaid invoices can be edited')
+    }
+    if (args.amount !== undefined && !(args.amount > 0)) {
+      throw new Error('Amount must be greater than zero')
+    }
+
+    const { id, ...updates } = args
+    const cleanUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([, v]) => v !== undefined)
+    )
+
+    await ctx.db.patch(id, {
+      ...cleanUpdates,
+      updatedAt: Date.now(),
+    })
+
+    return id
+  },
+})
+
+// Record a payment against an invoice and roll it into the linked budget item
+export const recordPayment = mutation({
+  args: {
+    id: v.id('invoices'),
+    paidAt: v.optional(v.number()),
+    paidMethod: v.optional(v.string()),
+    invoiceNumber: v.optional(v.string()),
+    receiptUrl: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { invoice, event } = await getEditableInvoice(ctx, args.id)
+
+    if (invoice.status !== 'pending') {
+      throw new Error(invoice.status === 'paid' ? 'Invoice is already paid' : 'Invoice has been voided')
+    }
+
+    await ctx.db.patch(args.id, {
+      status: 'paid',
+      paidAt: args.paidAt ?? Date.now(),
+      paidMethod: args.paidMethod,
+      invoiceNumber: args.invoiceNumber ?? invoice.invoiceNumber,
+      receiptUrl: args.receiptUrl,
+      updatedAt: Date.now(),
+    })
+
+    if (invoice.budgetItemId) {
+      await syncBudgetItemPayments(ctx, event, invoice.budgetItemId)
+    }
+
+    return args.id
+  },
+})
+
+// Void an unpaid invoice, e.g. when the vendor waives a deposit
+export const voidInvoice = mutation({
+  args: { id: v.id('invoices') },
+  handler: async (ctx, args) => {
+    const { invoice, event } = await getEditableInvoice(ctx, args.id)
+
+    if (invoice.status !== 'pending') {
+      throw new Error('Only unpaid invoices can be voided')
+    }
+
+    await ctx.db.patch(args.id, { status: 'void', updatedAt: Date.now() })
+
+    // The remaining invoices may now all be paid
+    if (invoice.budgetItemId) {
+      await syncBudgetItemPayments(ctx, event, invoice.budgetItemId)
+    }
+
+    return args.id
+  },
+})
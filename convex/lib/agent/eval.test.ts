@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest'
+import { createAIProvider } from '../ai/factory'
+import type { AIMessage, ProviderType } from '../ai/types'
+import {
+  createReplayProvider,
+  formatEvalReport,
+  matchesExpectation,
+  runEvalSuite,
+  scoreCase,
+  validateToolCall,
+  type ActualToolCall,
+  type EvalCase,
+} from './eval'
+import { EVAL_CASES, EVAL_NOW, EVAL_TIME_ZONE } from './evalCases'
+import { getToolByName } from './tools'
+
+function call(name: string, args: Record<string, unknown>): ActualToolCall {
+  return { name, rawArguments: JSON.stringify(args), arguments: args }
+}
+
+const meetupCase: EvalCase = {
+  id: 'meetup',
+  utterance: 'A tech meetup next Friday for 50 people',
+  expected: [{ tool: 'createEvent', arguments: { eventType: 'meetup', startDate: '2026-03-06', expectedAttendees: 50 } }],
+}
+
+describe('matchesExpectation', () => {
+  it('compares strings loosely and numbers exactly', () => {
+    expect(matchesExpectation(' Meetup ', 'meetup')).toBe(true)
+    expect(matchesExpectation('50', 50)).toBe(false)
+    expect(matchesExpectation('Zoom Webinar', { contains: 'zoom' })).toBe(true)
+    expect(matchesExpectation('MYR', { oneOf: ['USD', 'MYR'] })).toBe(true)
+    expect(matchesExpectation(undefined, { absent: true })).toBe(true)
+    expect(matchesExpectation('', { present: true })).toBe(false)
+  })
+})
+
+describe('validateToolCall', () => {
+  it('accepts a valid call', () => {
+    expect(validateToolCall(call('createEvent', { title: 'A', eventType: 'meetup', startDate: '2026-03-06' }))).toEqual([])
+  })
+
+  it('reports unknown tools, bad enums, dates, times and missing fields', () => {
+    expect(validateToolCall(call('bookFlight', {}))).toEqual(['bookFlight is not a tool'])
+    expect(
+      validateToolCall(call('createEvent', { title: 'A', eventType: 'party', startDate: '06/03/2026', startTime: '6pm' }))
+    ).toEqual([
+      expect.stringContaining('eventType "party" is not one of'),
+      'createEvent.startDate "06/03/2026" is not a YYYY-MM-DD date',
+      'createEvent.startTime "6pm" is not an HH:MM time',
+    ])
+    expect(validateToolCall(call('createTask', { title: 'Book photographer', expectedAttendees: 3 }))).toEqual([
+      'createTask.eventId is required',
+      'createTask.expectedAttendees is not a parameter',
+    ])
+  })
+
+  it('checks plan steps, allowing references to earlier steps', () => {
+    const plan = call('proposePlan', {
+      title: 'Set up',
+      steps: [
+        { tool: 'createEvent', label: 'Create', arguments: { title: 'A', eventType: 'meetup', startDate: '2026-03-06' } },
+        { tool: 'createTasksFromTemplate', label: 'Tasks', arguments: { eventId: '$1.eventId', template: 'gala' } },
+      ],
+    })
+    expect(validateToolCall(plan)).toEqual([expect.stringMatching(/^proposePlan step 2: .*template "gala"/)])
+  })
+
+  it('reports arguments that are not JSON', () => {
+    expect(validateToolCall({ name: 'searchVendors', rawArguments: '{"category": ', arguments: null })).toEqual([
+      'searchVendors arguments are not a JSON object: {"category": ',
+    ])
+  })
+})
+
+describe('scoreCase', () => {
+  it('passes a matching call', () => {
+    const result = scoreCase(meetupCase, {
+      text: '',
+      toolCalls: [call('createEvent', { title: 'Meetup', eventType: 'meetup', startDate: '2026-03-06', expectedAttendees: 50 })],
+    })
+    expect(result).toMatchObject({ passed: true, argumentsMatched: 3, argumentsChecked: 3 })
+  })
+
+  it('records wrong arguments and wrong tools', () => {
+    const wrongYear = scoreCase(meetupCase, {
+      text: '',
+      toolCalls: [call('createEvent', { title: 'Meetup', eventType: 'meetup', startDate: '2025-03-06', expectedAttendees: 50 })],
+    })
+    expect(wrongYear.toolSelectionCorrect).toBe(true)
+    expect(wrongYear.argumentDiffs).toEqual([
+      { tool: 'createEvent', argument: 'startDate', expected: '2026-03-06', actual: '2025-03-06' },
+    ])
+
+    const asked = scoreCase(meetupCase, { text: 'What time?', toolCalls: [] })
+    expect(asked).toMatchObject({ passed: false, toolSelectionCorrect: false, argumentsMatched: 0 })
+  })
+})
+
+describe('formatEvalReport', () => {
+  it('shows a diff for each failed case', async () => {
+    const provider = createReplayProvider([
+      {
+        ...meetupCase,
+        replay: {
+          toolCalls: [
+            { name: 'searchVendors', arguments: {} },
+            { name: 'createEvent', arguments: { title: 'Meetup', eventType: 'meetup', startDate: '2025-03-06' } },
+          ],
+        },
+      },
+    ])
+    const report = await runEvalSuite([meetupCase], provider, { now: EVAL_NOW, timeZone: EVAL_TIME_ZONE })
+
+    expect(formatEvalReport(report)).toBe(
+      [
+        'Agent eval: 0/1 passed',
+        '  tool selection 0%, arguments 0%, schema errors 0',
+        '',
+        '✗ meetup: "A tech meetup next Friday for 50 people"',
+        '  - tools: createEvent',
+        '  + tools: searchVendors, createEvent',
+        '  - createEvent.eventType: "meetup"',
+        '  + createEvent.eventType: (not passed)',
+        '  - createEvent.startDate: "2026-03-06"',
+        '  + createEvent.startDate: (not passed)',
+        '  - createEvent.expectedAttendees: 50',
+        '  + createEvent.expectedAttendees: (not passed)',
+      ].join('\n')
+    )
+  })
+
+  it('fails a case whose provider errors', async () => {
+    const report = await runEvalSuite([meetupCase], createReplayProvider([]), { now: EVAL_NOW, timeZone: EVAL_TIME_ZONE })
+    expect(report.results[0].error).toContain('No replay recorded')
+    expect(formatEvalReport(report)).toContain('! No replay recorded')
+  })
+})
+
+describe('eval corpus', () => {
+  it('only expects tools and arguments that exist', () => {
+    for (const evalCase of EVAL_CASES) {
+      for (const expected of evalCase.expected) {
+        const tool = getToolByName(expected.tool)
+        expect(tool, `${evalCase.id}: ${expected.tool}`).toBeDefined()
+        for (const argument of Object.keys(expected.arguments ?? {})) {
+          expect(tool!.parameters.properties, `${evalCase.id}: ${expected.tool}.${argument}`).toHaveProperty(argument)
+        }
+      }
+    }
+  })
+
+  it('passes with the recorded replies', async () => {
+    const report = await runEvalSuite(EVAL_CASES, createReplayProvider(EVAL_CASES), {
+      now: EVAL_NOW,
+      timeZone: EVAL_TIME_ZONE,
+    })
+    expect(report.failed, formatEvalReport(report)).toBe(0)
+    expect(report.toolSelectionAccuracy).toBe(1)
+    expect(report.argumentAccuracy).toBe(1)
+  })
+
+  it('sends the production system prompt with the eval date', async () => {
+    const seen: AIMessage[][] = []
+    const replay = createReplayProvider(EVAL_CASES)
+    await runEvalSuite(EVAL_CASES.slice(0, 1), {
+      name: 'spy',
+      createStreamingChat: (messages, tools, config) => {
+        seen.push(messages)
+        return replay.createStreamingChat(messages, tools, config)
+      },
+    }, { now: EVAL_NOW, timeZone: EVAL_TIME_ZONE })
+
+    expect(seen[0][0].content).toContain('Today is Monday, March 2, 2026 (2026-03-02) in Asia/Kuala_Lumpur')
+    expect(seen[0][0].content).toContain('## Tools Available:')
+  })
+})
+
+// Live run against a real model, e.g.:
+//   AGENT_EVAL_PROVIDER=openai OPENAI_API_KEY=sk-... npx vitest run convex/lib/agent/eval.test.ts
+const liveProvider = process.env.AGENT_EVAL_PROVIDER as ProviderType | undefined
+
+describe.skipIf(!liveProvider)('eval corpus (live provider)', () => {
+  it('meets the accuracy bar', { timeout: 5 * 60 * 1000 }, async () => {
+    const provider = createAIProvider(liveProvider!, {
+      openai: process.env.OPENAI_API_KEY,
+      anthropic: process.env.ANTHROPIC_API_KEY,
+      groq: process.env.GROQ_API_KEY,
+    })
+    const report = await runEvalSuite(EVAL_CASES, provider, { now: EVAL_NOW, timeZone: EVAL_TIME_ZONE })
+    console.log(formatEvalReport(report))
+
+    const minimum = Number(process.env.AGENT_EVAL_MIN_ACCURACY ?? 0.8)
+    expect(report.toolSelectionAccuracy, formatEvalReport(report)).toBeGreaterThanOrEqual(minimum)
+    expect(report.argumentAccuracy, formatEvalReport(report)).toBeGreaterThanOrEqual(minimum)
+  })
+})
@@ -0,0 +1,441 @@
+/**
+ * Agent Evaluation Harness
+ *
+ * Runs a corpus of user messages through the agent's system prompt and tool
+ * schemas, and scores the tool calls the model makes on its first turn:
+ *
+ * - Tool selection: the expected tools were called, in order (or none, when
+ *   the agent should ask a question instead)
+ * - Arguments: each expected argument has the expected value
+ * - Schema: every call is valid against AGENT_TOOLS (required parameters,
+ *   types, enums, YYYY-MM-DD dates and HH:MM times)
+ *
+ * The provider is pluggable: a replay provider serves recorded responses so
+ * the suite runs offline under vitest, and any live AIProvider can be passed
+ * to check a prompt or schema change against a real model.
+ */
+
+import type { AIMessage, AIProvider, AIProviderConfig, AIStreamChunk } from '../ai/types'
+import { DEFAULT_CONFIGS } from '../ai/types'
+import { getOpenAITools, getToolByName } from './tools'
+import { buildDateContext, buildSystemPrompt, getDefaultPersona } from './personas'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What an argument should be:
+ * - a string (compared case-insensitively), number or boolean
+ * - { oneOf } any of several values
+ * - { contains } a string containing this text (case-insensitive)
+ * - { present } any non-empty value
+ * - { absent } not passed at all (e.g. a field the user never mentioned)
+ */
+export type ArgumentExpectation =
+  | string
+  | number
+  | boolean
+  | { oneOf: Array<string | number | boolean> }
+  | { contains: string }
+  | { present: true }
+  | { absent: true }
+
+export interface ExpectedToolCall {
+  tool: string
+  arguments?: Record<string, ArgumentExpectation>
+}
+
+export interface RecordedToolCall {
+  name: string
+  arguments: Record<string, unknown>
+}
+
+export interface EvalCase {
+  id: string
+  /** The user message being evaluated */
+  utterance: string
+  /** Earlier turns of the conversation, if any */
+  history?: Array<{ role: 'user' | 'assistant'; content: string }>
+  /** Tool calls the agent should make; empty when it should reply in text (e.g. ask a question) */
+  expected: ExpectedToolCall[]
+  /** Recorded response served by the replay provider */
+  replay?: { text?: string; toolCalls?: RecordedToolCall[] }
+}
+
+export interface ActualToolCall {
+  name: string
+  /** Raw JSON the model produced */
+  rawArguments: string
+  arguments: Record<string, unknown> | null
+}
+
+export interface ArgumentDiff {
+  tool: string
+  argument: string
+  expected: ArgumentExpectation
+  actual: unknown
+}
+
+export interface EvalCaseResult {
+  id: string
+  utterance: string
+  passed: boolean
+  toolSelectionCorrect: boolean
+  expectedTools: string[]
+  actualTools: string[]
+  argumentsMatched: number
+  argumentsChecked: number
+  argumentDiffs: ArgumentDiff[]
+  schemaErrors: string[]
+  actual: ActualToolCall[]
+  text: string
+  error?: string
+}
+
+export interface EvalReport {
+  total: number
+  passed: number
+  failed: number
+  /** Share of cases where the right tools were called, 0-1 */
+  toolSelectionAccuracy: number
+  /** Share of expected arguments with the expected value, 0-1 */
+  argumentAccuracy: number
+  schemaErrors: number
+  results: EvalCaseResult[]
+}
+
+export interface EvalRunOptions {
+  /** Time the agent believes it is, so relative dates are reproducible */
+  now: number
+  timeZone: string
+  /** Persona prompt to evaluate (defaults to the built-in default persona) */
+  persona?: string
+  instructions?: string
+  config?: AIProviderConfig
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+const STEP_REFERENCE = /^\$\d+\.\w+$/
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+/**
+ * Provider that answers each case with its recorded replay, matched on the
+ * latest user message. Arguments are streamed in pieces, like a real model.
+ */
+export function createReplayProvider(cases: EvalCase[]): AIProvider {
+  return {
+    name: 'replay',
+    async createStreamingChat(messages) {
+      const utterance = [...messages].reverse().find((m) => m.role === 'user')?.content
+      const evalCase = cases.find((c) => c.utterance === utterance)
+      if (!evalCase?.replay) {
+        throw new Error(`No replay recorded for "${utterance}"`)
+      }
+      const { text, toolCalls = [] } = evalCase.replay
+
+      return (async function* (): AsyncGenerator<AIStreamChunk> {
+        if (text) yield { type: 'text', content: text }
+        for (const [index, call] of toolCalls.entries()) {
+          const json = JSON.stringify(call.arguments)
+          const middle = Math.floor(json.length / 2)
+          yield {
+            type: 'tool_call_start',
+            toolCall: { index, id: `call_${index}`, type: 'function', function: { name: call.name, arguments: '' } },
+          }
+          yield { type: 'tool_call_delta', toolCall: { index, function: { name: '', arguments: json.slice(0, middle) } } }
+          yield { type: 'tool_call_delta', toolCall: { index, function: { name: '', arguments: json.slice(middle) } } }
+        }
+        yield { type: 'done', finishReason: toolCalls.length > 0 ? 'tool_calls' : 'stop' }
+      })()
+    },
+  }
+}
+
+/**
+ * Read a streamed response into its text and tool calls
+ */
+export async function collectResponse(
+  stream: AsyncIterable<AIStreamChunk>
+): Promise<{ text: string; toolCalls: ActualToolCall[] }> {
+  let text = ''
+  const calls: Array<{ name: string; arguments: string }> = []
+
+  for await (const chunk of stream) {
+    if (chunk.type === 'text' && chunk.content) text += chunk.content
+    if (chunk.type === 'error') throw new Error(chunk.error || 'Provider error')
+    if ((chunk.type === 'tool_call_start' || chunk.type === 'tool_call_delta') && chunk.toolCall) {
+      const index = chunk.toolCall.index ?? 0
+      calls[index] ??= { name: '', arguments: '' }
+      if (chunk.toolCall.function?.name) calls[index].name += chunk.toolCall.function.name
+      if (chunk.toolCall.function?.arguments) calls[index].arguments += chunk.toolCall.function.arguments
+    }
+  }
+
+  return {
+    text,
+    toolCalls: calls.filter(Boolean).map((call) => ({
+      name: call.name,
+      rawArguments: call.arguments,
+      arguments: parseArguments(call.arguments),
+    })),
+  }
+}
+
+function parseArguments(raw: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(raw || '{}')
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Check a tool call against its AGENT_TOOLS schema, including each step of a
+ * proposed plan. Returns the problems found.
+ */
+export function validateToolCall(call: ActualToolCall): string[] {
+  if (!getToolByName(call.name)) return [`${call.name || '(no name)'} is not a tool`]
+  if (!call.arguments) return [`${call.name} arguments are not a JSON object: ${call.rawArguments}`]
+
+  const errors = validateArguments(call.name, call.arguments)
+
+  const steps = call.name === 'proposePlan' ? call.arguments.steps : undefined
+  if (Array.isArray(steps)) {
+    for (const [index, raw] of steps.entries()) {
+      const step = (raw ?? {}) as Record<string, unknown>
+      const tool = String(step.tool)
+      const prefix = `proposePlan step ${index + 1}: `
+      if (!getToolByName(tool) || tool === 'proposePlan') {
+        errors.push(`${prefix}${tool} is not a tool`)
+        continue
+      }
+      const args = (step.arguments ?? {}) as Record<string, unknown>
+      errors.push(...validateArguments(tool, args).map((error) => prefix + error))
+    }
+  }
+
+  return errors
+}
+
+function validateArguments(toolName: string, args: Record<string, unknown>): string[] {
+  const { properties, required } = getToolByName(toolName)!.parameters
+  const errors: string[] = []
+
+  for (const name of required) {
+    if (args[name] === undefined || args[name] === '') {
+      errors.push(`${toolName}.${name} is required`)
+    }
+  }
+
+  for (const [name, value] of Object.entries(args)) {
+    const parameter = properties[name]
+    if (!parameter) {
+      errors.push(`${toolName}.${name} is not a parameter`)
+      continue
+    }
+    // Null, or a plan step's "$1.eventId" reference, is checked when it runs
+    if (value === null || value === undefined || (typeof value === 'string' && STEP_REFERENCE.test(value))) continue
+
+    const type = Array.isArray(value) ? 'array' : typeof value
+    if (type !== parameter.type) {
+      errors.push(`${toolName}.${name} should be a ${parameter.type}, got ${type}`)
+      continue
+    }
+    if (parameter.enum && !parameter.enum.includes(value as string)) {
+      errors.push(`${toolName}.${name} "${value}" is not one of ${parameter.enum.join(', ')}`)
+    }
+    if (typeof value === 'string' && name.endsWith('Date') && !DATE_PATTERN.test(value)) {
+      errors.push(`${toolName}.${name} "${value}" is not a YYYY-MM-DD date`)
+    }
+    if (typeof value === 'string' && name.endsWith('Time') && !TIME_PATTERN.test(value)) {
+      errors.push(`${toolName}.${name} "${value}" is not an HH:MM time`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Whether an argument value meets its expectation
+ */
+export function matchesExpectation(actual: unknown, expected: ArgumentExpectation): boolean {
+  if (typeof expected === 'object') {
+    if ('absent' in expected) return actual === undefined
+    if ('present' in expected) return actual !== undefined && actual !== null && actual !== ''
+    if ('contains' in expected) {
+      return typeof actual === 'string' && actual.toLowerCase().includes(expected.contains.toLowerCase())
+    }
+    return expected.oneOf.some((option) => matchesExpectation(actual, option))
+  }
+  if (typeof expected === 'string') {
+    return typeof actual === 'string' && actual.trim().toLowerCase() === expected.toLowerCase()
+  }
+  return actual === expected
+}
+
+/**
+ * Score one case's tool calls against what was expected
+ */
+export function scoreCase(
+  evalCase: EvalCase,
+  response: { text: string; toolCalls: ActualToolCall[] }
+): EvalCaseResult {
+  const expectedTools = evalCase.expected.map((call) => call.tool)
+  const actualTools = response.toolCalls.map((call) => call.name)
+  const toolSelectionCorrect =
+    expectedTools.length === actualTools.length && expectedTools.every((tool, i) => tool === actualTools[i])
+
+  const argumentDiffs: ArgumentDiff[] = []
+  let argumentsChecked = 0
+  for (const [index, expectedCall] of evalCase.expected.entries()) {
+    const actualCall = response.toolCalls[index]
+    const actualArgs = actualCall?.name === expectedCall.tool ? (actualCall.arguments ?? {}) : undefined
+    for (const [argument, expected] of Object.entries(expectedCall.arguments ?? {})) {
+      argumentsChecked++
+      const actual = actualArgs?.[argument]
+      if (!actualArgs || !matchesExpectation(actual, expected)) {
+        argumentDiffs.push({ tool: expectedCall.tool, argument, expected, actual })
+      }
+    }
+  }
+
+  const schemaErrors = response.toolCalls.flatMap(validateToolCall)
+
+  return {
+    id: evalCase.id,
+    utterance: evalCase.utterance,
+    passed: toolSelectionCorrect && argumentDiffs.length === 0 && schemaErrors.length === 0,
+    toolSelectionCorrect,
+    expectedTools,
+    actualTools,
+    argumentsMatched: argumentsChecked - argumentDiffs.length,
+    argumentsChecked,
+    argumentDiffs,
+    schemaErrors,
+    actual: response.toolCalls,
+    text: response.text,
+  }
+}
+
+/**
+ * Total up case results into a report
+ */
+export function summarizeResults(results: EvalCaseResult[]): EvalReport {
+  const passed = results.filter((r) => r.passed).length
+  const argumentsChecked = results.reduce((sum, r) => sum + r.argumentsChecked, 0)
+  const argumentsMatched = results.reduce((sum, r) => sum + r.argumentsMatched, 0)
+
+  return {
+    total: results.length,
+    passed,
+    failed: results.length - passed,
+    toolSelectionAccuracy: results.length ? results.filter((r) => r.toolSelectionCorrect).length / results.length : 1,
+    argumentAccuracy: argumentsChecked ? argumentsMatched / argumentsChecked : 1,
+    schemaErrors: results.reduce((sum, r) => sum + r.schemaErrors.length, 0),
+    results,
+  }
+}
+
+// ============================================================================
+// Running
+// ============================================================================
+
+/**
+ * Run every case through the provider, one at a time, with the same system
+ * prompt and tools the chat endpoint uses
+ */
+export async function runEvalSuite(
+  cases: EvalCase[],
+  provider: AIProvider,
+  options: EvalRunOptions
+): Promise<EvalReport> {
+  const systemPrompt = buildSystemPrompt({
+    persona: options.persona ?? getDefaultPersona().prompt,
+    instructions: options.instructions,
+    context: [buildDateContext(options.now, options.timeZone)],
+  })
+  const tools = getOpenAITools()
+  const config = options.config ?? DEFAULT_CONFIGS.openai
+
+  const results: EvalCaseResult[] = []
+  for (const evalCase of cases) {
+    const messages: AIMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...(evalCase.history ?? []),
+      { role: 'user', content: evalCase.utterance },
+    ]
+
+    try {
+      const stream = await provider.createStreamingChat(messages, tools, config)
+      results.push(scoreCase(evalCase, await collectResponse(stream)))
+    } catch (error) {
+      const result = scoreCase(evalCase, { text: '', toolCalls: [] })
+      results.push({
+        ...result,
+        passed: false,
+        toolSelectionCorrect: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  return summarizeResults(results)
+}
+
+// ============================================================================
+// Reporting
+// ============================================================================
+
+function formatExpectation(expected: ArgumentExpectation): string {
+  if (typeof expected !== 'object') return JSON.stringify(expected)
+  if ('absent' in expected) return '(not passed)'
+  if ('present' in expected) return '(any value)'
+  if ('contains' in expected) return `(contains ${JSON.stringify(expected.contains)})`
+  return `(one of ${expected.oneOf.map((option) => JSON.stringify(option)).join(', ')})`
+}
+
+function formatActual(actual: unknown): string {
+  return actual === undefined ? '(not passed)' : JSON.stringify(actual)
+}
+
+/**
+ * Plain-text report: totals, then a diff for each failed case.
+ * "-" lines are expected, "+" lines are what the model did, "!" lines are
+ * schema errors.
+ */
+export function formatEvalReport(report: EvalReport): string {
+  const percent = (value: number) => `${Math.round(value * 100)}%`
+  const lines = [
+    `Agent eval: ${report.passed}/${report.total} passed`,
+    `  tool selection ${percent(report.toolSelectionAccuracy)}, arguments ${percent(report.argumentAccuracy)}, schema errors ${report.schemaErrors}`,
+  ]
+
+  for (const result of report.results) {
+    if (result.passed) continue
+    lines.push('', `✗ ${result.id}: ${JSON.stringify(result.utterance)}`)
+    if (result.error) lines.push(`  ! ${result.error}`)
+    if (!result.toolSelectionCorrect) {
+      lines.push(`  - tools: ${result.expectedTools.join(', ') || '(none)'}`)
+      lines.push(`  + tools: ${result.actualTools.join(', ') || '(none)'}`)
+    }
+    for (const diff of result.argumentDiffs) {
+      lines.push(`  - ${diff.tool}.${diff.argument}: ${formatExpectation(diff.expected)}`)
+      lines.push(`  + ${diff.tool}.${diff.argument}: ${formatActual(diff.actual)}`)
+    }
+    for (const error of result.schemaErrors) {
+      lines.push(`  ! ${error}`)
+    }
+  }
+
+  return lines.join('\n')
+}
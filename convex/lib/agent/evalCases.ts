@@ -0,0 +1,303 @@
+/**
+ * Agent Evaluation Corpus
+ *
+ * User messages with the tool calls the agent should make, for the harness in
+ * ./eval. Each case carries a recorded response for the offline replay run;
+ * when a live run shows a better answer, update the expectation and the
+ * replay together.
+ *
+ * Cases are evaluated as if it were EVAL_NOW in EVAL_TIME_ZONE, so relative
+ * dates ("next Friday") have one right answer.
+ */
+
+import type { EvalCase } from './eval'
+
+// Monday 2 March 2026, 9:00 in Kuala Lumpur
+export const EVAL_NOW = Date.UTC(2026, 2, 2, 1, 0)
+export const EVAL_TIME_ZONE = 'Asia/Kuala_Lumpur'
+
+const DEVFEST_HISTORY: EvalCase['history'] = [
+  { role: 'user', content: 'What events do I have coming up?' },
+  {
+    role: 'assistant',
+    content: 'You have one upcoming event: DevFest 2026 (event ID evt_devfest) on 12 June, a conference for 300 people.',
+  },
+]
+
+export const EVAL_CASES: EvalCase[] = [
+  // ==========================================================================
+  // Creating events
+  // ==========================================================================
+  {
+    id: 'create-workshop-with-date',
+    utterance: 'Create a React workshop on 15 April',
+    expected: [
+      {
+        tool: 'createEvent',
+        arguments: { title: { contains: 'React' }, eventType: 'workshop', startDate: '2026-04-15' },
+      },
+    ],
+    replay: {
+      toolCalls: [
+        { name: 'createEvent', arguments: { title: 'React Workshop', eventType: 'workshop', startDate: '2026-04-15' } },
+      ],
+    },
+  },
+  {
+    id: 'create-meetup-next-friday',
+    utterance: 'A tech meetup next Friday for 50 people',
+    expected: [
+      {
+        tool: 'createEvent',
+        arguments: { eventType: 'meetup', startDate: '2026-03-06', expectedAttendees: 50 },
+      },
+    ],
+    replay: {
+      text: "I'll create your tech meetup for next Friday now.",
+      toolCalls: [
+        {
+          name: 'createEvent',
+          arguments: { title: 'Tech Meetup', eventType: 'meetup', startDate: '2026-03-06', expectedAttendees: 50 },
+        },
+      ],
+    },
+  },
+  {
+    id: 'create-conference-month-already-passed',
+    utterance: 'Conference on January 20th for 200 people',
+    expected: [
+      {
+        tool: 'createEvent',
+        arguments: { eventType: 'conference', startDate: '2027-01-20', expectedAttendees: 200 },
+      },
+    ],
+    replay: {
+      toolCalls: [
+        {
+          name: 'createEvent',
+          arguments: { title: 'Conference', eventType: 'conference', startDate: '2027-01-20', expectedAttendees: 200 },
+        },
+      ],
+    },
+  },
+  {
+    id: 'create-virtual-webinar-with-time',
+    utterance: 'Set up a webinar on Zoom on 10 March at 3pm',
+    expected: [
+      {
+        tool: 'createEvent',
+        arguments: {
+          eventType: 'webinar',
+          locationType: 'virtual',
+          startDate: '2026-03-10',
+          startTime: '15:00',
+          virtualPlatform: { contains: 'zoom' },
+        },
+      },
+    ],
+    replay: {
+      toolCalls: [
+        {
+          name: 'createEvent',
+          arguments: {
+            title: 'Webinar',
+            eventType: 'webinar',
+            locationType: 'virtual',
+            virtualPlatform: 'Zoom',
+            startDate: '2026-03-10',
+            startTime: '15:00',
+          },
+        },
+      ],
+    },
+  },
+  {
+    id: 'create-event-in-another-time-zone',
+    utterance: 'A developer meetup in London on 20 March at 6pm',
+    expected: [
+      {
+        tool: 'createEvent',
+        arguments: { eventType: 'meetup', startDate: '2026-03-20', startTime: '18:00', timezone: 'Europe/London' },
+      },
+    ],
+    replay: {
+      toolCalls: [
+        {
+          name: 'createEvent',
+          arguments: {
+            title: 'Developer Meetup London',
+            eventType: 'meetup',
+            startDate: '2026-03-20',
+            startTime: '18:00',
+            timezone: 'Europe/London',
+            locationType: 'in-person',
+          },
+        },
+      ],
+    },
+  },
+  {
+    id: 'create-event-default-time-zone',
+    utterance: 'Hackathon on 4 April for 120 hackers',
+    expected: [
+      {
+        tool: 'createEvent',
+        arguments: { eventType: 'hackathon', startDate: '2026-04-04', expectedAttendees: 120, timezone: { absent: true } },
+      },
+    ],
+    replay: {
+      toolCalls: [
+        {
+          name: 'createEvent',
+          arguments: { title: 'Hackathon', eventType: 'hackathon', startDate: '2026-04-04', expectedAttendees: 120 },
+        },
+      ],
+    },
+  },
+  {
+    id: 'create-after-follow-up-question',
+    utterance: 'The 21st of March',
+    history: [
+      { role: 'user', content: 'I want to create a workshop' },
+      { role: 'assistant', content: 'Got it! What date are you thinking for the workshop?' },
+    ],
+    expected: [{ tool: 'createEvent', arguments: { eventType: 'workshop', startDate: '2026-03-21' } }],
+    replay: {
+      toolCalls: [
+        { name: 'createEvent', arguments: { title: 'Workshop', eventType: 'workshop', startDate: '2026-03-21' } },
+      ],
+    },
+  },
+
+  // ==========================================================================
+  // Asking instead of guessing
+  // ==========================================================================
+  {
+    id: 'ask-for-missing-date',
+    utterance: 'I want to create a workshop',
+    expected: [],
+    replay: { text: 'Got it! What date are you thinking for the workshop?' },
+  },
+  {
+    id: 'ask-about-ambiguous-date',
+    utterance: 'Hackathon on 03/04',
+    expected: [],
+    replay: { text: 'Do you mean 3 April or 4 March?' },
+  },
+
+  // ==========================================================================
+  // Searching
+  // ==========================================================================
+  {
+    id: 'search-caterers-by-city',
+    utterance: 'Find caterers in Kuala Lumpur',
+    expected: [{ tool: 'searchVendors', arguments: { category: 'catering', location: { contains: 'Kuala Lumpur' } } }],
+    replay: {
+      toolCalls: [{ name: 'searchVendors', arguments: { category: 'catering', location: 'Kuala Lumpur' } }],
+    },
+  },
+  {
+    id: 'search-tech-sponsors',
+    utterance: 'Which tech companies could sponsor a hackathon?',
+    expected: [{ tool: 'searchSponsors', arguments: { industry: 'technology' } }],
+    replay: {
+      toolCalls: [{ name: 'searchSponsors', arguments: { industry: 'technology', eventType: 'hackathon' } }],
+    },
+  },
+  {
+    id: 'list-upcoming-events',
+    utterance: 'What events do I have coming up?',
+    expected: [{ tool: 'getUpcomingEvents' }],
+    replay: { toolCalls: [{ name: 'getUpcomingEvents', arguments: {} }] },
+  },
+
+  // ==========================================================================
+  // Planning an existing event
+  // ==========================================================================
+  {
+    id: 'add-budget-item',
+    utterance: 'Add a RM5,000 venue deposit to its budget',
+    history: DEVFEST_HISTORY,
+    expected: [
+      {
+        tool: 'addBudgetItem',
+        arguments: { eventId: 'evt_devfest', category: 'venue', estimatedAmount: 5000, currency: 'MYR' },
+      },
+    ],
+    replay: {
+      toolCalls: [
+        {
+          name: 'addBudgetItem',
+          arguments: {
+            eventId: 'evt_devfest',
+            name: 'Venue deposit',
+            category: 'venue',
+            estimatedAmount: 5000,
+            currency: 'MYR',
+          },
+        },
+      ],
+    },
+  },
+  {
+    id: 'create-task-with-due-date',
+    utterance: 'Remind me to book the photographer by 1 April',
+    history: DEVFEST_HISTORY,
+    expected: [
+      {
+        tool: 'createTask',
+        arguments: { eventId: 'evt_devfest', title: { contains: 'photographer' }, dueDate: '2026-04-01' },
+      },
+    ],
+    replay: {
+      toolCalls: [
+        {
+          name: 'createTask',
+          arguments: { eventId: 'evt_devfest', title: 'Book the photographer', category: 'vendors', dueDate: '2026-04-01' },
+        },
+      ],
+    },
+  },
+  {
+    id: 'apply-task-template',
+    utterance: 'Set up the standard conference checklist for it',
+    history: DEVFEST_HISTORY,
+    expected: [{ tool: 'createTasksFromTemplate', arguments: { eventId: 'evt_devfest', template: 'conference' } }],
+    replay: {
+      toolCalls: [{ name: 'createTasksFromTemplate', arguments: { eventId: 'evt_devfest', template: 'conference' } }],
+    },
+  },
+  {
+    id: 'several-changes-as-one-plan',
+    utterance:
+      'Create a conference called CloudConf on 12 September, add caterer vendor_123 to it and apply the conference task template',
+    expected: [{ tool: 'proposePlan', arguments: { title: { present: true } } }],
+    replay: {
+      toolCalls: [
+        {
+          name: 'proposePlan',
+          arguments: {
+            title: 'Set up CloudConf',
+            steps: [
+              {
+                tool: 'createEvent',
+                label: 'Create CloudConf',
+                arguments: { title: 'CloudConf', eventType: 'conference', startDate: '2026-09-12' },
+              },
+              {
+                tool: 'addVendorToEvent',
+                label: 'Add the caterer',
+                arguments: { eventId: '$1.eventId', vendorId: 'vendor_123' },
+              },
+              {
+                tool: 'createTasksFromTemplate',
+                label: 'Apply the conference checklist',
+                arguments: { eventId: '$1.eventId', template: 'conference' },
+              },
+            ],
+          },
+        },
+      ],
+    },
+  },
+]
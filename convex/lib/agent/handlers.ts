@@ -6,8 +6,18 @@
  */
 
 import type { GenericActionCtx } from 'convex/server'
-import type { DataModel, Id } from '../../_generated/dataModel'
+import type { DataModel, Doc, Id } from '../../_generated/dataModel'
 import { api } from '../../_generated/api'
+import { DEFAULT_TIME_ZONE, formatLocalDateTime, normalizeTimeZone, parseLocalDateTime } from '../timezones'
+import {
+  getRestoreValues,
+  parsePlanSteps,
+  runPlan,
+  selectPlanSteps,
+  snapshotFields,
+  type PlanEvent,
+} from './plan'
+import { toolRequiresConfirmation } from './tools'
 import type {
   ToolName,
   ToolResult,
@@ -41,6 +51,17 @@ const handlers: Record<ToolName, ToolHandler> = {
   getRecommendedSponsors: handleGetRecommendedSponsors,
   getEventVendors: handleGetEventVendors,
   getEventSponsors: handleGetEventSponsors,
+  getEventTasks: handleGetEventTasks,
+  createTask: handleCreateTask,
+  completeTask: handleCompleteTask,
+  createTasksFromTemplate: handleCreateTasksFromTemplate,
+  getBudgetSummary: handleGetBudgetSummary,
+  addBudgetItem: handleAddBudgetItem,
+  updateBudgetItem: handleUpdateBudgetItem,
+  getEventApplications: handleGetEventApplications,
+  respondToApplication: handleRespondToApplication,
+  sendInquiry: handleSendInquiry,
+  proposePlan: handleProposePlan,
 }
 
 /**
@@ -79,6 +100,61 @@ export async function executeToolHandler(
   }
 }
 
+// ============================================================================
+// Argument Helpers
+// ============================================================================
+
+/**
+ * Parse a YYYY-MM-DD date argument the way the dashboard date inputs do
+ */
+function parseDateArg(value: string, field: string): number {
+  const timestamp = new Date(value).getTime()
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`${field} must be a date in YYYY-MM-DD format (got "${value}")`)
+  }
+  return timestamp
+}
+
+/**
+ * A result that puts a question back to the user instead of acting on a guess
+ */
+function clarificationResult(name: ToolName, clarification: string): ToolResult {
+  return {
+    toolCallId: '',
+    name,
+    success: false,
+    error: clarification,
+    clarification,
+    summary: 'Needs clarification',
+  }
+}
+
+/**
+ * Read a date and time argument pair in the event's time zone. Start times
+ * must be in the future; a past one is queried rather than moved.
+ */
+function readEventDateTime(
+  date: string,
+  time: string,
+  timeZone: string,
+  mustBeFuture: boolean
+): { timestamp: number } | { clarification: string } {
+  const result = parseLocalDateTime(`${date}T${time}`, timeZone)
+  if ('timestamp' in result && mustBeFuture && result.timestamp < Date.now()) {
+    return {
+      clarification: `${formatLocalDateTime(result.timestamp, timeZone)} ${timeZone} is in the past. Which date did you mean?`,
+    }
+  }
+  return result
+}
+
+/**
+ * Format an amount for a summary, with its currency code when known
+ */
+function formatAmount(amount: number, currency?: string): string {
+  return currency ? `${amount.toLocaleString()} ${currency.toUpperCase()}` : amount.toLocaleString()
+}
+
 // ============================================================================
 // Event Handlers
 // ============================================================================
@@ -96,6 +172,8 @@ async function handleCreateEvent(
 
   // Optional fields
   const description = args.description as string | undefined
+  const endDateStr = args.endDate as string | undefined
+  const endTimeStr = args.endTime as string | undefined
   const locationType = args.locationType as string | undefined
   const venueName = args.venueName as string | undefined
   const venueAddress = args.venueAddress as string | undefined
@@ -103,17 +181,30 @@ async function handleCreateEvent(
   const expectedAttendees = args.expectedAttendees as number | undefined
   const budget = args.budget as number | undefined
   const budgetCurrency = (args.budgetCurrency as string) || 'USD'
-  const timezone = args.timezone as string | undefined
 
-  // Parse date/time - ensure we get a future date
-  let startTimestamp = new Date(`${startDateStr}T${startTimeStr}`).getTime()
+  // Dates are local to the event: its own time zone, else the organizer's
+  let timezone: string
+  try {
+    const profile = await ctx.runQuery(api.organizerProfiles.getMyProfile, {})
+    timezone = normalizeTimeZone((args.timezone as string) || profile?.timezone || DEFAULT_TIME_ZONE)
+  } catch (error) {
+    return clarificationResult('createEvent', error instanceof Error ? error.message : 'Which time zone is the event in?')
+  }
 
-  // If the date is in the past, assume the user meant next year
-  const now = Date.now()
-  if (startTimestamp < now) {
-    const parsedDate = new Date(`${startDateStr}T${startTimeStr}`)
-    parsedDate.setFullYear(parsedDate.getFullYear() + 1)
-    startTimestamp = parsedDate.getTime()
+  const start = readEventDateTime(startDateStr, startTimeStr, timezone, true)
+  if ('clarification' in start) return clarificationResult('createEvent', start.clarification)
+
+  let endTimestamp: number | undefined
+  if (endDateStr || endTimeStr) {
+    const end = readEventDateTime(endDateStr || startDateStr, endTimeStr || '17:00', timezone, false)
+    if ('clarification' in end) return clarificationResult('createEvent', end.clarification)
+    if (end.timestamp <= start.timestamp) {
+      return clarificationResult(
+        'createEvent',
+        `The event would end (${formatLocalDateTime(end.timestamp, timezone)}) before it starts. When does it end?`
+      )
+    }
+    endTimestamp = end.timestamp
   }
 
   // Create the event via mutation with all fields
@@ -122,7 +213,8 @@ async function handleCreateEvent(
     title,
     description,
     eventType,
-    startDate: startTimestamp,
+    startDate: start.timestamp,
+    endDate: endTimestamp,
     status: 'draft',
     locationType,
     venueName,
@@ -134,6 +226,7 @@ async function handleCreateEvent(
     timezone,
   })
 
+  const startsAt = `${formatLocalDateTime(start.timestamp, timezone)} ${timezone}`
   return {
     toolCallId: '',
     name: 'createEvent',
@@ -142,13 +235,14 @@ async function handleCreateEvent(
       eventId,
       title,
       eventType,
-      startDate: startDateStr,
+      startDate: startsAt,
+      timezone,
       locationType,
       venueName,
       expectedAttendees,
       budget,
     },
-    summary: `Created event "${title}" scheduled for ${startDateStr}${venueName ? ` at ${venueName}` : ''}${expectedAttendees ? ` for ${expectedAttendees} attendees` : ''}`,
+    summary: `Created event "${title}" scheduled for ${startsAt}${venueName ? ` at ${venueName}` : ''}${expectedAttendees ? ` for ${expectedAttendees} attendees` : ''}`,
   }
 }
 
@@ -159,6 +253,17 @@ async function handleUpdateEvent(
 ): Promise<ToolResult> {
   const eventId = args.eventId as string
 
+  const event = await ctx.runQuery(api.events.get, { id: eventId as Id<'events'> })
+  if (!event) {
+    return {
+      toolCallId: '',
+      name: 'updateEvent',
+      success: false,
+      error: 'Event not found',
+      summary: 'Could not find the requested event',
+    }
+  }
+
   // Build update object with all possible fields
   const updates: Record<string, unknown> = {}
   if (args.title) updates.title = args.title
@@ -171,17 +276,58 @@ async function handleUpdateEvent(
   if (args.expectedAttendees) updates.expectedAttendees = args.expectedAttendees
   if (args.budget) updates.budget = args.budget
   if (args.status) updates.status = args.status
-  if (args.startDate) {
-    const startTimeStr = (args.startTime as string) || '09:00'
-    updates.startDate = new Date(`${args.startDate}T${startTimeStr}`).getTime()
+
+  if (args.startDate || args.startTime || args.endDate || args.endTime || args.timezone) {
+    // Changing only the time zone keeps the same moments; new dates and
+    // times are read in the (new) event time zone
+    let timezone: string
+    try {
+      const profile = event.timezone ? null : await ctx.runQuery(api.organizerProfiles.getMyProfile, {})
+      timezone = normalizeTimeZone(
+        (args.timezone as string) || event.timezone || profile?.timezone || DEFAULT_TIME_ZONE
+      )
+    } catch (error) {
+      return clarificationResult('updateEvent', error instanceof Error ? error.message : 'Which time zone is the event in?')
+    }
+    if (args.timezone) updates.timezone = timezone
+
+    const [currentStartDate, currentStartTime] = formatLocalDateTime(event.startDate, timezone).split(' ')
+    if (args.startDate || args.startTime) {
+      const start = readEventDateTime(
+        (args.startDate as string) || currentStartDate,
+        (args.startTime as string) || currentStartTime,
+        timezone,
+        true
+      )
+      if ('clarification' in start) return clarificationResult('updateEvent', start.clarification)
+      updates.startDate = start.timestamp
+    }
+    if (args.endDate || args.endTime) {
+      const [currentEndDate, currentEndTime] = event.endDate
+        ? formatLocalDateTime(event.endDate, timezone).split(' ')
+        : [currentStartDate, '17:00']
+      const end = readEventDateTime(
+        (args.endDate as string) || currentEndDate,
+        (args.endTime as string) || currentEndTime,
+        timezone,
+        false
+      )
+      if ('clarification' in end) return clarificationResult('updateEvent', end.clarification)
+      updates.endDate = end.timestamp
+    }
   }
 
+  // Saved so a failed plan can put the event back
+  const previous = snapshotFields(event, Object.keys(updates))
+
   await ctx.runMutation(api.events.update, {
     id: eventId as Id<'events'>,
     ...(updates as {
       title?: string
       description?: string
       startDate?: number
+      endDate?: number
+      timezone?: string
       eventType?: string
       status?: string
       locationType?: string
@@ -197,7 +343,7 @@ async function handleUpdateEvent(
     toolCallId: '',
     name: 'updateEvent',
     success: true,
-    data: { eventId, updates },
+    data: { eventId, updates, previous },
     summary: `Updated event with ${Object.keys(updates).length} change${Object.keys(updates).length !== 1 ? 's' : ''}`,
   }
 }
@@ -261,10 +407,13 @@ async function handleSearchVendors(
   args: Record<string, unknown>
 ): Promise<ToolResult> {
   const category = args.category as string | undefined
+  const query = args.query as string | undefined
   const limit = (args.limit as number) || 5
 
+  // Keyword searches come back ranked by relevance
   const vendors = await ctx.runQuery(api.vendors.list, {
     category,
+    search: query,
   })
 
   // Transform to search results
@@ -372,10 +521,13 @@ async function handleSearchSponsors(
   args: Record<string, unknown>
 ): Promise<ToolResult> {
   const industry = args.industry as string | undefined
+  const query = args.query as string | undefined
   const limit = (args.limit as number) || 5
 
+  // Keyword searches come back ranked by relevance
   const sponsors = await ctx.runQuery(api.sponsors.list, {
     industry,
+    search: query,
   })
 
   // Transform to search results
@@ -768,3 +920,470 @@ async function handleGetEventSponsors(
     summary: `Found ${sponsors.length} sponsor${sponsors.length !== 1 ? 's' : ''} linked to this event`,
   }
 }
+
+
+// ============================================================================
+// Task Handlers
+// ============================================================================
+
+async function handleGetEventTasks(
+  ctx: ActionCtx,
+  _userId: string,
+  args: Record<string, unknown>
+): Promise<ToolResult> {
+  const eventId = args.eventId as string
+  const status = args.status as string | undefined
+
+  const tasks = await ctx.runQuery(api.eventTasks.listByEvent, {
+    eventId: eventId as Id<'events'>,
+    status,
+  })
+
+  if (tasks.length === 0) {
+    return {
+      toolCallId: '',
+      name: 'getEventTasks',
+      success: true,
+      data: [],
+      summary: status ? `No ${status.replace('_', ' ')} tasks for this event` : 'No tasks have been added to this event yet',
+    }
+  }
+
+  return {
+    toolCallId: '',
+    name: 'getEventTasks',
+    success: true,
+    data: tasks.map((t) => ({
+      id: t._id,
+      title: t.title,
+      category: t.category,
+      priority: t.priority,
+      status: t.status,
+      dueDate: t.dueDate ? new Date(t.dueDate).toISOString().slice(0, 10) : undefined,
+      assignedTo: t.assignedTo,
+    })),
+    summary: `Found ${tasks.length} task${tasks.length !== 1 ? 's' : ''}`,
+  }
+}
+
+async function handleCreateTask(
+  ctx: ActionCtx,
+  _userId: string,
+  args: Record<string, unknown>
+): Promise<ToolResult> {
+  const eventId = args.eventId as string
+  const title = args.title as string
+  const dueDateStr = args.dueDate as string | undefined
+  const priority = args.priority as 'low' | 'medium' | 'high' | 'urgent' | undefined
+
+  const taskId = await ctx.runMutation(api.eventTasks.create, {
+    eventId: eventId as Id<'events'>,
+    title,
+    description: args.description as string | undefined,
+    category: (args.category as string) || 'other',
+    priority,
+    dueDate: dueDateStr ? parseDateArg(dueDateStr, 'dueDate') : undefined,
+  })
+
+  return {
+    toolCallId: '',
+    name: 'createTask',
+    success: true,
+    data: { taskId, eventId, title, priority: priority || 'medium', dueDate: dueDateStr },
+    summary: `Added task "${title}"${dueDateStr ? ` due ${dueDateStr}` : ''}`,
+  }
+}
+
+async function handleCompleteTask(
+  ctx: ActionCtx,
+  _userId: string,
+  args: Record<string, unknown>
+): Promise<ToolResult> {
+  const taskId = args.taskId as string
+
+  const task = await ctx.runQuery(api.eventTasks.get, { id: taskId as Id<'eventTasks'> })
+  if (!task) {
+    return {
+      toolCallId: '',
+      name: 'completeTask',
+      success: false,
+      error: 'Task not found',
+      summary: 'Could not find the requested task',
+    }
+  }
+
+  // update (rather than toggleComplete) so an already completed task stays completed
+  await ctx.runMutation(api.eventTasks.update, {
+    id: taskId as Id<'eventTasks'>,
+    status: 'completed',
+  })
+
+  return {
+    toolCallId: '',
+    name: 'completeTask',
+    success: true,
+    data: { taskId, status: 'completed', previous: snapshotFields(task, ['status']) },
+    summary: 'Marked the task as completed',
+  }
+}
+
+async function handleCreateTasksFromTemplate(
+  ctx: ActionCtx,
+  _userId: string,
+  args: Record<string, unknown>
+): Promise<ToolResult> {
+  const eventId = args.eventId as string
+  const template = args.template as string
+
+  const taskIds = await ctx.runMutation(api.eventTasks.createFromTemplate, {
+    eventId: eventId as Id<'events'>,
+    template,
+  })
+
+  return {
+    toolCallId: '',
+    name: 'createTasksFromTemplate',
+    success: true,
+    data: { eventId, template, taskIds },
+    summary: `Added ${taskIds.length} ${template} planning task${taskIds.length !== 1 ? 's' : ''}`,
+  }
+}
+
+// ============================================================================
+// Budget Handlers
+// ============================================================================
+
+async function handleGetBudgetSummary(
+  ctx: ActionCtx,
+  _userId: string,
+  args: Record<string, unknown>
+): Promise<ToolResult> {
+  const eventId = args.eventId as Id<'events'>
+
+  const [summary, items] = await Promise.all([
+    ctx.runQuery(api.budgetItems.getSummary, { eventId }),
+    ctx.runQuery(api.budgetItems.listByEvent, { eventId }),
+  ])
+
+  if (!summary) {
+    return {
+      toolCallId: '',
+      name: 'getBudgetSummary',
+      success: false,
+      error: 'Event not found',
+      summary: 'Could not find the budget for this event',
+    }
+  }
+
+  return {
+    toolCallId: '',
+    name: 'getBudgetSummary',
+    success: true,
+    data: {
+      currency: summary.currency,
+      eventBudget: summary.eventBudget,
+      totalEstimated: summary.totalEstimated,
+      totalActual: summary.totalActual,
+      totalPaid: summary.totalPaid,
+      totalCommitted: summary.totalCommitted,
+      remaining: summary.remaining,
+      byCategory: summary.byCategory,
+      items: items.map((i) => ({
+        id: i._id,
+        name: i.name,
+        category: i.category,
+        estimatedAmount: i.estimatedAmount,
+        actualAmount: i.actualAmount,
+        currency: i.currency,
+        status: i.status,
+      })),
+    },
+    summary: `${summary.itemCount} budget item${summary.itemCount !== 1 ? 's' : ''} totalling ${formatAmount(summary.totalEstimated, summary.currency)}${summary.eventBudget ? ` of a ${formatAmount(summary.eventBudget, summary.currency)} budget` : ''}`,
+  }
+}
+
+async function handleAddBudgetItem(
+  ctx: ActionCtx,
+  _userId: string,
+  args: Record<string, unknown>
+): Promise<ToolResult> {
+  const eventId = args.eventId as string
+  const name = args.name as string
+  const category = args.category as string
+  const estimatedAmount = args.estimatedAmount as number
+  const currency = args.currency as string | undefined
+
+  const budgetItemId = await ctx.runMutation(api.budgetItems.create, {
+    eventId: eventId as Id<'events'>,
+    name,
+    category,
+    estimatedAmount,
+    currency,
+    status: args.status as 'planned' | 'committed' | 'paid' | 'cancelled' | undefined,
+    notes: args.notes as string | undefined,
+  })
+
+  return {
+    toolCallId: '',
+    name: 'addBudgetItem',
+    success: true,
+    data: { budgetItemId, eventId, name, category, estimatedAmount, currency },
+    summary: `Added "${name}" to the budget with an estimate of ${formatAmount(estimatedAmount, currency)}`,
+  }
+}
+
+async function handleUpdateBudgetItem(
+  ctx: ActionCtx,
+  _userId: string,
+  args: Record<string, unknown>
+): Promise<ToolResult> {
+  const budgetItemId = args.budgetItemId as string
+
+  const item = await ctx.runQuery(api.budgetItems.get, { id: budgetItemId as Id<'budgetItems'> })
+  if (!item) {
+    return {
+      toolCallId: '',
+      name: 'updateBudgetItem',
+      success: false,
+      error: 'Budget item not found',
+      summary: 'Could not find the requested budget item',
+    }
+  }
+
+  const updates: Record<string, unknown> = {}
+  if (args.name) updates.name = args.name
+  if (args.category) updates.category = args.category
+  if (args.estimatedAmount !== undefined) updates.estimatedAmount = args.estimatedAmount
+  if (args.actualAmount !== undefined) updates.actualAmount = args.actualAmount
+  if (args.status) updates.status = args.status
+  if (args.notes) updates.notes = args.notes
+
+  // Saved so a failed plan can put the item back
+  const previous = snapshotFields(item, Object.keys(updates))
+
+  await ctx.runMutation(api.budgetItems.update, {
+    id: budgetItemId as Id<'budgetItems'>,
+    ...(updates as {
+      name?: string
+      category?: string
+      estimatedAmount?: number
+      actualAmount?: number
+      status?: 'planned' | 'committed' | 'paid' | 'cancelled'
+      notes?: string
+    }),
+  })
+
+  return {
+    toolCallId: '',
+    name: 'updateBudgetItem',
+    success: true,
+    data: { budgetItemId, updates, previous },
+    summary: `Updated budget item with ${Object.keys(updates).length} change${Object.keys(updates).length !== 1 ? 's' : ''}`,
+  }
+}
+
+// ============================================================================
+// Application Handlers
+// ============================================================================
+
+async function handleGetEventApplications(
+  ctx: ActionCtx,
+  _userId: string,
+  args: Record<string, unknown>
+): Promise<ToolResult> {
+  const eventId = args.eventId as string
+
+  const applications = await ctx.runQuery(api.eventApplications.listByEvent, {
+    eventId: eventId as Id<'events'>,
+    status: args.status as string | undefined,
+    applicantType: args.applicantType as string | undefined,
+  })
+
+  if (applications.length === 0) {
+    return {
+      toolCallId: '',
+      name: 'getEventApplications',
+      success: true,
+      data: [],
+      summary: 'No matching applications for this event',
+    }
+  }
+
+  return {
+    toolCallId: '',
+    name: 'getEventApplications',
+    success: true,
+    data: applications.map((a) => ({
+      id: a._id,
+      applicantType: a.applicantType,
+      applicantId: a.applicantId,
+      applicantName: a.applicantDetails?.name,
+      status: a.status,
+      message: a.message,
+      proposedServices: a.proposedServices,
+      proposedBudget: a.proposedBudget,
+      proposedTier: a.proposedTier,
+    })),
+    summary: `Found ${applications.length} application${applications.length !== 1 ? 's' : ''}`,
+  }
+}
+
+async function handleRespondToApplication(
+  ctx: ActionCtx,
+  _userId: string,
+  args: Record<string, unknown>
+): Promise<ToolResult> {
+  const applicationId = args.applicationId as string
+  const decision = args.decision as 'accepted' | 'rejected'
+
+  await ctx.runMutation(api.eventApplications.updateStatus, {
+    applicationId: applicationId as Id<'eventApplications'>,
+    status: decision,
+    organizerNotes: args.notes as string | undefined,
+    rejectionReason: args.rejectionReason as string | undefined,
+  })
+
+  return {
+    toolCallId: '',
+    name: 'respondToApplication',
+    success: true,
+    data: { applicationId, status: decision },
+    summary: decision === 'accepted'
+      ? 'Accepted the application and added the applicant to the event'
+      : 'Rejected the application',
+  }
+}
+
+// ============================================================================
+// Inquiry Handlers
+// ============================================================================
+
+async function handleSendInquiry(
+  ctx: ActionCtx,
+  _userId: string,
+  args: Record<string, unknown>
+): Promise<ToolResult> {
+  const toType = args.toType as 'vendor' | 'sponsor'
+  const toId = args.toId as string
+  const eventId = args.eventId as string | undefined
+  const subject = args.subject as string
+
+  const inquiryId = await ctx.runMutation(api.inquiries.send, {
+    toType,
+    toId,
+    eventId: eventId as Id<'events'> | undefined,
+    subject,
+    message: args.message as string,
+  })
+
+  return {
+    toolCallId: '',
+    name: 'sendInquiry',
+    success: true,
+    data: { inquiryId, toType, toId, eventId, subject },
+    summary: `Sent inquiry "${subject}" to the ${toType}`,
+  }
+}
+
+// ============================================================================
+// Plan Handlers
+// ============================================================================
+
+/**
+ * Run plan steps, undoing the finished ones if a step fails. Used for an
+ * approved proposePlan call; onEvent reports progress step by step.
+ */
+export async function executePlan(
+  ctx: ActionCtx,
+  userId: string,
+  stepsArg: unknown,
+  options: { skip?: string[]; onEvent?: (event: PlanEvent) => void } = {}
+) {
+  const { steps, positions } = selectPlanSteps(
+    parsePlanSteps(stepsArg, Object.keys(handlers)),
+    options.skip ?? []
+  )
+
+  return runPlan(steps, {
+    positions,
+    execute: (step, args) => executeToolHandler(ctx, userId, step.id, step.tool, args),
+    undo: (result) => undoToolResult(ctx, result),
+    onEvent: options.onEvent,
+  })
+}
+
+/**
+ * Undo a successful tool call by deleting what it created or writing back the
+ * values an update replaced. Returns false for changes that can't be undone
+ * (messages already sent, or a field that was unset before an update).
+ */
+export async function undoToolResult(ctx: ActionCtx, result: ToolResult): Promise<boolean> {
+  const data = (result.data ?? {}) as Record<string, unknown>
+
+  switch (result.name) {
+    case 'createEvent':
+      await ctx.runMutation(api.events.remove, { id: data.eventId as Id<'events'> })
+      return true
+    case 'addVendorToEvent':
+      // Already on the event before the plan ran: nothing to undo
+      if (data.eventVendorId) {
+        await ctx.runMutation(api.eventVendors.removeFromEvent, { id: data.eventVendorId as Id<'eventVendors'> })
+      }
+      return true
+    case 'addSponsorToEvent':
+      if (data.eventSponsorId) {
+        await ctx.runMutation(api.eventSponsors.removeFromEvent, { id: data.eventSponsorId as Id<'eventSponsors'> })
+      }
+      return true
+    case 'createTask':
+      await ctx.runMutation(api.eventTasks.remove, { id: data.taskId as Id<'eventTasks'> })
+      return true
+    case 'createTasksFromTemplate':
+      for (const taskId of data.taskIds as Id<'eventTasks'>[]) {
+        await ctx.runMutation(api.eventTasks.remove, { id: taskId })
+      }
+      return true
+    case 'addBudgetItem':
+      await ctx.runMutation(api.budgetItems.remove, { id: data.budgetItemId as Id<'budgetItems'> })
+      return true
+    case 'updateEvent': {
+      const { values, unset } = getRestoreValues(data.previous as Record<string, unknown>)
+      await ctx.runMutation(api.events.update, { id: data.eventId as Id<'events'>, ...values })
+      return unset.length === 0
+    }
+    case 'updateBudgetItem': {
+      const { values, unset } = getRestoreValues(data.previous as Record<string, unknown>)
+      await ctx.runMutation(api.budgetItems.update, { id: data.budgetItemId as Id<'budgetItems'>, ...values })
+      return unset.length === 0
+    }
+    case 'completeTask': {
+      const { status } = data.previous as { status: Doc<'eventTasks'>['status'] }
+      if (status !== 'completed') {
+        await ctx.runMutation(api.eventTasks.update, { id: data.taskId as Id<'eventTasks'>, status })
+      }
+      return true
+    }
+    default:
+      // Read-only tools changed nothing; sent inquiries and application
+      // decisions can't be taken back
+      return !toolRequiresConfirmation(result.name)
+  }
+}
+
+async function handleProposePlan(
+  ctx: ActionCtx,
+  userId: string,
+  args: Record<string, unknown>
+): Promise<ToolResult> {
+  const title = (args.title as string) || 'Plan'
+  const result = await executePlan(ctx, userId, args.steps)
+
+  return {
+    toolCallId: '',
+    name: 'proposePlan',
+    success: result.success,
+    data: { title, ...result },
+    error: result.success ? undefined : result.summary,
+    summary: result.success ? `${title}: ${result.summary.toLowerCase()}` : result.summary,
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import {
+  BUILT_IN_PERSONAS,
+  DEFAULT_PERSONA_KEY,
+  TOOL_GUIDE,
+  WORKSPACE_INSTRUCTIONS_MAX_LENGTH,
+  buildSystemPrompt,
+  getDefaultPersona,
+  normalizePersonaKey,
+  normalizePersonaPrompt,
+  normalizeWorkspaceInstructions,
+} from './personas'
+
+describe('built-in personas', () => {
+  it('include the default with unique, valid keys', () => {
+    const keys = BUILT_IN_PERSONAS.map((p) => p.key)
+    expect(new Set(keys).size).toBe(keys.length)
+    expect(keys).toContain(DEFAULT_PERSONA_KEY)
+    for (const persona of BUILT_IN_PERSONAS) {
+      expect(normalizePersonaKey(persona.key)).toBe(persona.key)
+      expect(normalizePersonaPrompt(persona.prompt)).toBe(persona.prompt)
+    }
+  })
+
+  it('uses the quick creator by default', () => {
+    expect(getDefaultPersona().prompt).toContain('CREATE events quickly')
+  })
+})
+
+describe('validation', () => {
+  it('normalizes persona keys', () => {
+    expect(normalizePersonaKey('  Planning-Consultant ')).toBe('planning-consultant')
+    expect(() => normalizePersonaKey('sponsor outreach')).toThrow('joined by hyphens')
+    expect(() => normalizePersonaKey('-draft')).toThrow('joined by hyphens')
+  })
+
+  it('rejects empty prompts', () => {
+    expect(() => normalizePersonaPrompt('   ')).toThrow('cannot be empty')
+  })
+
+  it('clears blank workspace instructions and caps long ones', () => {
+    expect(normalizeWorkspaceInstructions('  ')).toBeUndefined()
+    expect(normalizeWorkspaceInstructions(' Reply in Malay ')).toBe('Reply in Malay')
+    expect(() => normalizeWorkspaceInstructions('x'.repeat(WORKSPACE_INSTRUCTIONS_MAX_LENGTH + 1))).toThrow(
+      `${WORKSPACE_INSTRUCTIONS_MAX_LENGTH} characters or less`
+    )
+  })
+})
+
+describe('buildSystemPrompt', () => {
+  it('puts the persona first, then tools, workspace instructions and context', () => {
+    const prompt = buildSystemPrompt({
+      persona: 'You are a planner.',
+      instructions: 'Always quote prices in MYR.',
+      context: ['## Current Date:\nToday is Monday.'],
+    })
+
+    const order = ['You are a planner.', TOOL_GUIDE, 'Always quote prices in MYR.', '## Current Date:'].map((part) =>
+      prompt.indexOf(part)
+    )
+    expect(order.every((index) => index >= 0)).toBe(true)
+    expect(order).toEqual([...order].sort((a, b) => a - b))
+  })
+
+  it('leaves out the workspace section when there are no instructions', () => {
+    expect(buildSystemPrompt({ persona: 'You are a planner.' })).not.toContain('Workspace Instructions')
+  })
+})
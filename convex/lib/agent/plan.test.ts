@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest'
+import type { ToolResult } from './types'
+import {
+  findMissingReference,
+  getRestoreValues,
+  parsePlanSteps,
+  resolveStepArguments,
+  runPlan,
+  selectPlanSteps,
+  snapshotFields,
+  type PlanEvent,
+  type PlanStep,
+} from './plan'
+
+const TOOLS = ['createEvent', 'addVendorToEvent', 'createTasksFromTemplate', 'sendInquiry', 'proposePlan']
+
+const steps: PlanStep[] = [
+  { id: 'step-1', tool: 'createEvent', label: 'Create DevFest', arguments: { title: 'DevFest' } },
+  { id: 'step-2', tool: 'addVendorToEvent', label: 'Add caterer', arguments: { eventId: '$1.eventId', vendorId: 'v1' } },
+  { id: 'step-3', tool: 'createTasksFromTemplate', label: 'Add tasks', arguments: { eventId: '$1.eventId', template: 'conference' } },
+]
+
+function ok(step: PlanStep, data: Record<string, unknown>): ToolResult {
+  return { toolCallId: step.id, name: step.tool, success: true, data, summary: `${step.label} done` }
+}
+
+describe('parsePlanSteps', () => {
+  it('fills in ids and labels', () => {
+    expect(parsePlanSteps([{ tool: 'createEvent', arguments: { title: 'A' } }], TOOLS)).toEqual([
+      { id: 'step-1', tool: 'createEvent', label: 'createEvent', arguments: { title: 'A' } },
+    ])
+  })
+
+  it('rejects empty plans, unknown tools and nested plans', () => {
+    expect(() => parsePlanSteps([], TOOLS)).toThrow('at least one step')
+    expect(() => parsePlanSteps([{ tool: 'dropDatabase' }], TOOLS)).toThrow('Step 1 uses an unknown tool')
+    expect(() => parsePlanSteps([{ tool: 'proposePlan' }], TOOLS)).toThrow('unknown tool: proposePlan')
+  })
+})
+
+describe('resolveStepArguments', () => {
+  it('swaps step references for earlier results', () => {
+    const results = new Map([[1, ok(steps[0], { eventId: 'e1' })]])
+    expect(resolveStepArguments(steps[1].arguments, results)).toEqual({ eventId: 'e1', vendorId: 'v1' })
+  })
+
+  it('fails when the referenced step or field is missing', () => {
+    expect(() => resolveStepArguments(steps[1].arguments, new Map())).toThrow("step 1, which didn't run")
+    const results = new Map([[1, ok(steps[0], {})]])
+    expect(() => resolveStepArguments(steps[1].arguments, results)).toThrow('Step 1 has no eventId')
+  })
+})
+
+describe('selectPlanSteps', () => {
+  it('keeps the positions of the steps left in', () => {
+    expect(selectPlanSteps(steps, ['step-2'])).toEqual({ steps: [steps[0], steps[2]], positions: [1, 3] })
+  })
+
+  it('refuses to drop a step a later one depends on', () => {
+    expect(() => selectPlanSteps(steps, ['step-1'])).toThrow('"Add caterer" uses the result of step 1')
+    expect(() => selectPlanSteps(steps, steps.map((s) => s.id))).toThrow('Select at least one step')
+  })
+
+  it('spots references to later steps', () => {
+    expect(findMissingReference([steps[1], steps[0]], [2, 1])).toContain('step 1')
+  })
+})
+
+describe('runPlan', () => {
+  it('runs every step in order with resolved arguments', async () => {
+    const calls: Array<Record<string, unknown>> = []
+    const events: PlanEvent['type'][] = []
+    const result = await runPlan(steps, {
+      execute: async (step, args) => {
+        calls.push(args)
+        return ok(step, step.tool === 'createEvent' ? { eventId: 'e1' } : {})
+      },
+      undo: async () => true,
+      onEvent: (event) => events.push(event.type),
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.summary).toBe('Completed all 3 steps')
+    expect(calls[2]).toEqual({ eventId: 'e1', template: 'conference' })
+    expect(events).toEqual(['step_start', 'step_result', 'step_start', 'step_result', 'step_start', 'step_result'])
+  })
+
+  it('undoes finished steps newest first when a step fails', async () => {
+    const undone: string[] = []
+    const result = await runPlan(steps, {
+      execute: async (step) => {
+        if (step.id === 'step-3') throw new Error('Event not found or access denied')
+        return ok(step, { eventId: 'e1' })
+      },
+      undo: async (result) => {
+        undone.push(result.toolCallId)
+        return true
+      },
+    })
+
+    expect(result.success).toBe(false)
+    expect(undone).toEqual(['step-2', 'step-1'])
+    expect(result.steps.map((s) => s.status)).toEqual(['rolled_back', 'rolled_back', 'failed'])
+    expect(result.summary).toBe('"Add tasks" failed: Event not found or access denied. The earlier steps were undone.')
+  })
+
+  it('reports steps that could not be undone', async () => {
+    const plan: PlanStep[] = [
+      { id: 'a', tool: 'sendInquiry', label: 'Email caterer', arguments: {} },
+      { id: 'b', tool: 'createEvent', label: 'Create event', arguments: {} },
+    ]
+    const result = await runPlan(plan, {
+      execute: async (step) =>
+        step.id === 'a'
+          ? ok(step, {})
+          : { toolCallId: step.id, name: step.tool, success: false, error: 'Title is required', summary: 'Failed' },
+      undo: async () => false,
+    })
+
+    expect(result.steps.map((s) => s.status)).toEqual(['not_undone', 'failed'])
+    expect(result.summary).toBe("\"Create event\" failed: Title is required. 1 earlier step couldn't be undone.")
+  })
+})
+
+describe('snapshotFields / getRestoreValues', () => {
+  it('saves the fields an update changes and writes them back', () => {
+    const previous = snapshotFields({ title: 'DevFest', budget: 5000, venueName: 'Hall A' }, ['title', 'budget'])
+    expect(previous).toEqual({ title: 'DevFest', budget: 5000 })
+    expect(getRestoreValues(previous)).toEqual({ values: { title: 'DevFest', budget: 5000 }, unset: [] })
+  })
+
+  it('reports fields that were unset before the update', () => {
+    const previous = snapshotFields({ title: 'DevFest' }, ['title', 'venueName'])
+    expect(previous).toEqual({ title: 'DevFest', venueName: null })
+    expect(getRestoreValues(previous)).toEqual({ values: { title: 'DevFest' }, unset: ['venueName'] })
+  })
+})
@@ -0,0 +1,291 @@
+/**
+ * Agent Plans
+ *
+ * A plan is several tool calls the user approves once. The agent proposes it
+ * with the proposePlan tool; the user can edit or drop steps before approving,
+ * then the steps run in order. Later steps can use an earlier step's result by
+ * putting "$<step number>.<field>" in an argument (e.g. "$1.eventId").
+ *
+ * If a step fails, the steps already done are undone newest first: what a
+ * step created is deleted, and what it updated gets its saved previous values
+ * back. Messages sent to others (inquiries, application decisions) can't be
+ * taken back; they are reported as not undone so the user knows what's left
+ * behind.
+ */
+
+import type { ToolName, ToolResult } from './types'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PlanStep {
+  id: string
+  tool: ToolName
+  label: string
+  arguments: Record<string, unknown>
+}
+
+export type PlanStepStatus = 'completed' | 'failed' | 'rolled_back' | 'not_undone' | 'not_run'
+
+export interface PlanStepOutcome {
+  id: string
+  tool: ToolName
+  status: PlanStepStatus
+  summary?: string
+  error?: string
+  data?: unknown
+}
+
+export type PlanEvent =
+  | { type: 'step_start'; id: string }
+  | { type: 'step_result'; id: string; success: boolean; summary: string; error?: string; data?: unknown }
+  | { type: 'step_rollback'; id: string; undone: boolean; error?: string }
+
+export interface PlanRunResult {
+  success: boolean
+  steps: PlanStepOutcome[]
+  summary: string
+}
+
+// Most steps one plan can hold
+export const MAX_PLAN_STEPS = 12
+
+const STEP_REFERENCE = /^\$(\d+)\.(\w+)$/
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Check proposePlan/execute-plan steps against the known tools. Throws with
+ * the first problem found.
+ */
+export function parsePlanSteps(value: unknown, toolNames: readonly string[]): PlanStep[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('A plan needs at least one step')
+  }
+  if (value.length > MAX_PLAN_STEPS) {
+    throw new Error(`A plan can have at most ${MAX_PLAN_STEPS} steps`)
+  }
+
+  return value.map((raw, index) => {
+    const step = (raw ?? {}) as Record<string, unknown>
+    const tool = step.tool
+    if (typeof tool !== 'string' || !toolNames.includes(tool) || tool === 'proposePlan') {
+      throw new Error(`Step ${index + 1} uses an unknown tool: ${String(tool)}`)
+    }
+    const args = step.arguments ?? {}
+    if (typeof args !== 'object' || Array.isArray(args)) {
+      throw new Error(`Step ${index + 1} arguments must be an object`)
+    }
+    return {
+      id: typeof step.id === 'string' && step.id ? step.id : `step-${index + 1}`,
+      tool: tool as ToolName,
+      label: typeof step.label === 'string' && step.label ? step.label : tool,
+      arguments: args as Record<string, unknown>,
+    }
+  })
+}
+
+/**
+ * Swap "$<n>.<field>" arguments for that field of step n's result data.
+ * Step numbers are positions in the plan as proposed, so dropping a step
+ * doesn't renumber the ones after it.
+ */
+export function resolveStepArguments(
+  args: Record<string, unknown>,
+  results: Map<number, ToolResult>
+): Record<string, unknown> {
+  const resolved: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(args)) {
+    const match = typeof value === 'string' ? STEP_REFERENCE.exec(value) : null
+    if (!match) {
+      resolved[key] = value
+      continue
+    }
+    const [, stepNumber, field] = match
+    const result = results.get(Number(stepNumber))
+    if (!result) {
+      throw new Error(`${key} uses the result of step ${stepNumber}, which didn't run`)
+    }
+    const data = (result.data ?? {}) as Record<string, unknown>
+    if (data[field] === undefined) {
+      throw new Error(`Step ${stepNumber} has no ${field} for ${key}`)
+    }
+    resolved[key] = data[field]
+  }
+  return resolved
+}
+
+/**
+ * Drop the steps the user deselected, keeping each remaining step's position
+ * in the plan as proposed. Throws if nothing is left or a remaining step
+ * needs a result that won't be there.
+ */
+export function selectPlanSteps(
+  proposed: PlanStep[],
+  skip: readonly string[]
+): { steps: PlanStep[]; positions: number[] } {
+  const selected = proposed
+    .map((step, index) => ({ step, position: index + 1 }))
+    .filter(({ step }) => !skip.includes(step.id))
+  if (selected.length === 0) {
+    throw new Error('Select at least one step to run')
+  }
+
+  const steps = selected.map(({ step }) => step)
+  const positions = selected.map(({ position }) => position)
+  const problem = findMissingReference(steps, positions)
+  if (problem) throw new Error(problem)
+  return { steps, positions }
+}
+
+/**
+ * Find a step that uses the result of a step that won't have run before it
+ * (dropped, or later in the plan). Returns the problem, or null if none.
+ */
+export function findMissingReference(steps: PlanStep[], positions: number[]): string | null {
+  const earlier = new Set<number>()
+  for (const [index, step] of steps.entries()) {
+    for (const [key, value] of Object.entries(step.arguments)) {
+      const match = typeof value === 'string' ? STEP_REFERENCE.exec(value) : null
+      if (match && !earlier.has(Number(match[1]))) {
+        return `"${step.label}" uses the result of step ${match[1]} for ${key}, so that step has to run first`
+      }
+    }
+    earlier.add(positions[index])
+  }
+  return null
+}
+
+// ============================================================================
+// Undo
+// ============================================================================
+
+/**
+ * Save the current values of the fields an update is about to change, so the
+ * update can be undone. Fields that weren't set are saved as null.
+ */
+export function snapshotFields(
+  doc: Record<string, unknown>,
+  fields: readonly string[]
+): Record<string, unknown> {
+  return Object.fromEntries(fields.map((field) => [field, doc[field] ?? null]))
+}
+
+/**
+ * Split a snapshot into the values to write back and the fields that were
+ * unset before (update mutations can't clear a field, so those stay changed)
+ */
+export function getRestoreValues(previous: Record<string, unknown>): {
+  values: Record<string, unknown>
+  unset: string[]
+} {
+  const values: Record<string, unknown> = {}
+  const unset: string[] = []
+  for (const [field, value] of Object.entries(previous)) {
+    if (value === null) unset.push(field)
+    else values[field] = value
+  }
+  return { values, unset }
+}
+
+// ============================================================================
+// Running
+// ============================================================================
+
+interface RunPlanOptions {
+  /** Positions (1-based) of the steps in the plan as proposed */
+  positions?: number[]
+  execute: (step: PlanStep, args: Record<string, unknown>) => Promise<ToolResult>
+  undo: (result: ToolResult) => Promise<boolean>
+  onEvent?: (event: PlanEvent) => void
+}
+
+/**
+ * Run plan steps in order, stopping at the first failure and undoing the
+ * steps already done
+ */
+export async function runPlan(steps: PlanStep[], options: RunPlanOptions): Promise<PlanRunResult> {
+  const { execute, undo, onEvent } = options
+  const positions = options.positions ?? steps.map((_, index) => index + 1)
+  const results = new Map<number, ToolResult>()
+  const outcomes: PlanStepOutcome[] = steps.map((step) => ({ id: step.id, tool: step.tool, status: 'not_run' }))
+  const done: number[] = []
+  let failed: PlanStepOutcome | undefined
+
+  for (const [index, step] of steps.entries()) {
+    onEvent?.({ type: 'step_start', id: step.id })
+
+    let result: ToolResult
+    try {
+      result = await execute(step, resolveStepArguments(step.arguments, results))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      result = { toolCallId: step.id, name: step.tool, success: false, error: message, summary: message }
+    }
+
+    onEvent?.({
+      type: 'step_result',
+      id: step.id,
+      success: result.success,
+      summary: result.summary,
+      error: result.error,
+      data: result.data,
+    })
+    outcomes[index] = {
+      id: step.id,
+      tool: step.tool,
+      status: result.success ? 'completed' : 'failed',
+      summary: result.summary,
+      error: result.error,
+      data: result.data,
+    }
+
+    if (!result.success) {
+      failed = outcomes[index]
+      break
+    }
+    results.set(positions[index], result)
+    done.push(index)
+  }
+
+  if (!failed) {
+    return {
+      success: true,
+      steps: outcomes,
+      summary: `Completed all ${steps.length} step${steps.length !== 1 ? 's' : ''}`,
+    }
+  }
+
+  // Undo newest first so nothing is removed while a later step still uses it
+  let notUndone = 0
+  for (const index of done.reverse()) {
+    const outcome = outcomes[index]
+    let undone = false
+    let error: string | undefined
+    try {
+      undone = await undo(results.get(positions[index])!)
+    } catch (undoError) {
+      error = undoError instanceof Error ? undoError.message : 'Unknown error'
+    }
+    if (!undone) notUndone++
+    outcome.status = undone ? 'rolled_back' : 'not_undone'
+    onEvent?.({ type: 'step_rollback', id: outcome.id, undone, error })
+  }
+
+  const failure = failed
+  const failedLabel = steps.find((step) => step.id === failure.id)?.label ?? failure.tool
+  return {
+    success: false,
+    steps: outcomes,
+    summary:
+      `"${failedLabel}" failed: ${failure.error ?? failure.summary}.` +
+      (done.length === 0
+        ? ' Nothing was changed.'
+        : notUndone === 0
+          ? ' The earlier steps were undone.'
+          : ` ${notUndone} earlier step${notUndone !== 1 ? 's' : ''} couldn't be undone.`),
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { AGENT_TOOLS, getOpenAITools, toolRequiresConfirmation } from './tools'
+
+describe('AGENT_TOOLS', () => {
+  it('has unique tool names', () => {
+    const names = AGENT_TOOLS.map((tool) => tool.name)
+    expect(new Set(names).size).toBe(names.length)
+  })
+
+  it('only lets read-only tools run without confirmation', () => {
+    const autoExecuted = AGENT_TOOLS.filter((tool) => !tool.requiresConfirmation).map((tool) => tool.name)
+    for (const name of autoExecuted) {
+      expect(name).toMatch(/^(get|search)/)
+    }
+  })
+
+  it('requires confirmation for task, budget, application, inquiry and plan changes', () => {
+    for (const name of [
+      'createTask',
+      'completeTask',
+      'createTasksFromTemplate',
+      'addBudgetItem',
+      'updateBudgetItem',
+      'respondToApplication',
+      'sendInquiry',
+      'proposePlan',
+    ]) {
+      expect(toolRequiresConfirmation(name)).toBe(true)
+    }
+  })
+
+  it('lists every required parameter in the schema', () => {
+    for (const tool of AGENT_TOOLS) {
+      for (const required of tool.parameters.required) {
+        expect(tool.parameters.properties).toHaveProperty(required)
+      }
+    }
+  })
+})
+
+describe('getOpenAITools', () => {
+  it('exposes every tool as a function', () => {
+    expect(getOpenAITools().map((tool) => tool.function.name)).toEqual(AGENT_TOOLS.map((tool) => tool.name))
+  })
+})
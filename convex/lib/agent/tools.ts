@@ -33,11 +33,11 @@ export const AGENT_TOOLS: ToolDefinition[] = [
         },
         startDate: {
           type: 'string',
-          description: 'Start date in YYYY-MM-DD format',
+          description: 'Start date in YYYY-MM-DD format, local to the event time zone',
         },
         startTime: {
           type: 'string',
-          description: 'Start time in HH:MM format (24-hour)',
+          description: 'Start time in HH:MM format (24-hour), local to the event time zone',
         },
         endDate: {
           type: 'string',
@@ -47,6 +47,10 @@ export const AGENT_TOOLS: ToolDefinition[] = [
           type: 'string',
           description: 'End time in HH:MM format (24-hour)',
         },
+        timezone: {
+          type: 'string',
+          description: "IANA time zone the event happens in (e.g. Asia/Kuala_Lumpur). Defaults to the organizer's profile time zone",
+        },
         locationType: {
           type: 'string',
           description: 'Whether the event is in-person, virtual, or hybrid',
@@ -103,8 +107,11 @@ export const AGENT_TOOLS: ToolDefinition[] = [
         },
         title: { type: 'string', description: 'New title for the event' },
         description: { type: 'string', description: 'New description' },
-        startDate: { type: 'string', description: 'New start date (YYYY-MM-DD)' },
-        startTime: { type: 'string', description: 'New start time (HH:MM)' },
+        startDate: { type: 'string', description: 'New start date (YYYY-MM-DD), local to the event time zone' },
+        startTime: { type: 'string', description: 'New start time (HH:MM), local to the event time zone' },
+        endDate: { type: 'string', description: 'New end date (YYYY-MM-DD)' },
+        endTime: { type: 'string', description: 'New end time (HH:MM)' },
+        timezone: { type: 'string', description: 'New IANA time zone for the event (e.g. Asia/Kuala_Lumpur)' },
         expectedAttendees: { type: 'number', description: 'Updated attendee count' },
         budget: { type: 'number', description: 'Updated budget' },
       },
@@ -163,6 +170,10 @@ export const AGENT_TOOLS: ToolDefinition[] = [
     parameters: {
       type: 'object',
       properties: {
+        query: {
+          type: 'string',
+          description: 'Keywords to match against vendor names, descriptions and services (e.g. "vegan catering")',
+        },
         category: {
           type: 'string',
           description: 'The type of vendor to search for',
@@ -231,6 +242,10 @@ export const AGENT_TOOLS: ToolDefinition[] = [
     parameters: {
       type: 'object',
       properties: {
+        query: {
+          type: 'string',
+          description: 'Keywords to match against sponsor names, descriptions and industries',
+        },
         industry: {
           type: 'string',
           description: 'Industry to search in',
@@ -390,6 +405,340 @@ export const AGENT_TOOLS: ToolDefinition[] = [
     category: 'sponsors',
   },
 
+  // ============================================================================
+  // Task Tools
+  // ============================================================================
+  {
+    name: 'getEventTasks',
+    description: "Get an event's planning tasks with their IDs, status and due dates",
+    parameters: {
+      type: 'object',
+      properties: {
+        eventId: {
+          type: 'string',
+          description: 'The ID of the event',
+        },
+        status: {
+          type: 'string',
+          description: 'Filter by task status',
+          enum: ['todo', 'in_progress', 'blocked', 'completed'],
+        },
+      },
+      required: ['eventId'],
+    },
+    requiresConfirmation: false,
+    category: 'planning',
+  },
+
+  {
+    name: 'createTask',
+    description:
+      'Add a planning task to an event, e.g. "Confirm headcount with caterer" due on a given date',
+    parameters: {
+      type: 'object',
+      properties: {
+        eventId: {
+          type: 'string',
+          description: 'The ID of the event',
+        },
+        title: {
+          type: 'string',
+          description: 'Short description of what needs to be done',
+        },
+        description: {
+          type: 'string',
+          description: 'More detail about the task',
+        },
+        category: {
+          type: 'string',
+          description: 'Task category',
+          enum: ['venue', 'vendors', 'sponsors', 'marketing', 'logistics', 'registration', 'content', 'legal', 'budget', 'other'],
+        },
+        priority: {
+          type: 'string',
+          description: 'Task priority (default: medium)',
+          enum: ['low', 'medium', 'high', 'urgent'],
+        },
+        dueDate: {
+          type: 'string',
+          description: 'Due date in YYYY-MM-DD format',
+        },
+      },
+      required: ['eventId', 'title'],
+    },
+    requiresConfirmation: true,
+    category: 'planning',
+  },
+
+  {
+    name: 'completeTask',
+    description: 'Mark an event task as completed. Use getEventTasks first to find the task ID.',
+    parameters: {
+      type: 'object',
+      properties: {
+        taskId: {
+          type: 'string',
+          description: 'The ID of the task to complete',
+        },
+      },
+      required: ['taskId'],
+    },
+    requiresConfirmation: true,
+    category: 'planning',
+  },
+
+  {
+    name: 'createTasksFromTemplate',
+    description:
+      'Add a standard checklist of planning tasks to an event, based on the kind of event',
+    parameters: {
+      type: 'object',
+      properties: {
+        eventId: {
+          type: 'string',
+          description: 'The ID of the event',
+        },
+        template: {
+          type: 'string',
+          description: 'Which checklist to use',
+          enum: ['conference', 'workshop', 'hackathon', 'networking'],
+        },
+      },
+      required: ['eventId', 'template'],
+    },
+    requiresConfirmation: true,
+    category: 'planning',
+  },
+
+  // ============================================================================
+  // Budget Tools
+  // ============================================================================
+  {
+    name: 'getBudgetSummary',
+    description:
+      "Get an event's budget totals by category and its budget line items with their IDs",
+    parameters: {
+      type: 'object',
+      properties: {
+        eventId: {
+          type: 'string',
+          description: 'The ID of the event',
+        },
+      },
+      required: ['eventId'],
+    },
+    requiresConfirmation: false,
+    category: 'planning',
+  },
+
+  {
+    name: 'addBudgetItem',
+    description: 'Add a line item to an event budget, e.g. a $4,000 catering estimate',
+    parameters: {
+      type: 'object',
+      properties: {
+        eventId: {
+          type: 'string',
+          description: 'The ID of the event',
+        },
+        name: {
+          type: 'string',
+          description: 'What the money is for (e.g. "Lunch catering")',
+        },
+        category: {
+          type: 'string',
+          description: 'Budget category',
+          enum: ['venue', 'catering', 'av', 'marketing', 'staffing', 'permits', 'transportation', 'decoration', 'entertainment', 'misc'],
+        },
+        estimatedAmount: {
+          type: 'number',
+          description: 'Estimated cost',
+        },
+        currency: {
+          type: 'string',
+          description: "ISO currency code (defaults to the event's currency)",
+        },
+        status: {
+          type: 'string',
+          description: 'Spending status (default: planned)',
+          enum: ['planned', 'committed', 'paid', 'cancelled'],
+        },
+        notes: {
+          type: 'string',
+          description: 'Notes about this line item',
+        },
+      },
+      required: ['eventId', 'name', 'category', 'estimatedAmount'],
+    },
+    requiresConfirmation: true,
+    category: 'planning',
+  },
+
+  {
+    name: 'updateBudgetItem',
+    description:
+      'Change an existing budget line item, e.g. record the actual cost or mark it paid. Use getBudgetSummary first to find the item ID.',
+    parameters: {
+      type: 'object',
+      properties: {
+        budgetItemId: {
+          type: 'string',
+          description: 'The ID of the budget item',
+        },
+        name: { type: 'string', description: 'New name' },
+        category: {
+          type: 'string',
+          description: 'New category',
+          enum: ['venue', 'catering', 'av', 'marketing', 'staffing', 'permits', 'transportation', 'decoration', 'entertainment', 'misc'],
+        },
+        estimatedAmount: { type: 'number', description: 'New estimated cost' },
+        actualAmount: { type: 'number', description: 'Actual cost' },
+        status: {
+          type: 'string',
+          description: 'New spending status',
+          enum: ['planned', 'committed', 'paid', 'cancelled'],
+        },
+        notes: { type: 'string', description: 'New notes' },
+      },
+      required: ['budgetItemId'],
+    },
+    requiresConfirmation: true,
+    category: 'planning',
+  },
+
+  // ============================================================================
+  // Application Tools
+  // ============================================================================
+  {
+    name: 'getEventApplications',
+    description: 'Get the vendor and sponsor applications submitted to an event',
+    parameters: {
+      type: 'object',
+      properties: {
+        eventId: {
+          type: 'string',
+          description: 'The ID of the event',
+        },
+        status: {
+          type: 'string',
+          description: 'Filter by application status',
+          enum: ['pending', 'under_review', 'accepted', 'rejected', 'withdrawn'],
+        },
+        applicantType: {
+          type: 'string',
+          description: 'Only vendor or only sponsor applications',
+          enum: ['vendor', 'sponsor'],
+        },
+      },
+      required: ['eventId'],
+    },
+    requiresConfirmation: false,
+    category: 'planning',
+  },
+
+  {
+    name: 'respondToApplication',
+    description:
+      'Accept or reject a vendor or sponsor application. Accepting adds them to the event as confirmed.',
+    parameters: {
+      type: 'object',
+      properties: {
+        applicationId: {
+          type: 'string',
+          description: 'The ID of the application',
+        },
+        decision: {
+          type: 'string',
+          description: 'Whether to accept or reject the application',
+          enum: ['accepted', 'rejected'],
+        },
+        rejectionReason: {
+          type: 'string',
+          description: 'Reason shared with the applicant when rejecting',
+        },
+        notes: {
+          type: 'string',
+          description: "Private organizer notes about the decision",
+        },
+      },
+      required: ['applicationId', 'decision'],
+    },
+    requiresConfirmation: true,
+    category: 'planning',
+  },
+
+  // ============================================================================
+  // Inquiry Tools
+  // ============================================================================
+  {
+    name: 'sendInquiry',
+    description:
+      'Send a message to a vendor or sponsor, optionally about one of your events. It starts an inquiry thread they can reply to.',
+    parameters: {
+      type: 'object',
+      properties: {
+        toType: {
+          type: 'string',
+          description: 'Whether the recipient is a vendor or a sponsor',
+          enum: ['vendor', 'sponsor'],
+        },
+        toId: {
+          type: 'string',
+          description: 'The ID of the vendor or sponsor',
+        },
+        eventId: {
+          type: 'string',
+          description: 'The ID of the event the inquiry is about',
+        },
+        subject: {
+          type: 'string',
+          description: 'Subject line (200 characters max)',
+        },
+        message: {
+          type: 'string',
+          description: 'The message to send',
+        },
+      },
+      required: ['toType', 'toId', 'subject', 'message'],
+    },
+    requiresConfirmation: true,
+    category: 'inquiries',
+  },
+
+  // ============================================================================
+  // Plan Tools
+  // ============================================================================
+  {
+    name: 'proposePlan',
+    description:
+      'Propose several changes as one plan the user reviews and approves once (e.g. create an event, add vendors, apply a task template, draft a budget). Steps run in order; if one fails the earlier ones are undone. A step can use an earlier step\'s result by giving "$<step number>.<field>" as an argument value, e.g. "$1.eventId" for the event created in step 1.',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: {
+          type: 'string',
+          description: 'Short name for the plan (e.g. "Set up the DevFest conference")',
+        },
+        steps: {
+          type: 'array',
+          description: 'The steps, in the order they should run (12 max)',
+          items: {
+            type: 'object',
+            properties: {
+              tool: { type: 'string', description: 'Name of the tool this step calls' },
+              label: { type: 'string', description: 'What the step does, for the user (e.g. "Add Bistro Catering")' },
+              arguments: { type: 'object', description: 'Arguments for the tool' },
+            },
+            required: ['tool', 'label', 'arguments'],
+          },
+        },
+      },
+      required: ['title', 'steps'],
+    },
+    requiresConfirmation: true,
+    category: 'planning',
+  },
+
   // ============================================================================
   // Profile Tools
   // ============================================================================
@@ -25,6 +25,17 @@ export type ToolName =
   | 'getRecommendedSponsors'
   | 'getEventVendors'
   | 'getEventSponsors'
+  | 'getEventTasks'
+  | 'createTask'
+  | 'completeTask'
+  | 'createTasksFromTemplate'
+  | 'getBudgetSummary'
+  | 'addBudgetItem'
+  | 'updateBudgetItem'
+  | 'getEventApplications'
+  | 'respondToApplication'
+  | 'sendInquiry'
+  | 'proposePlan'
 
 export interface ToolDefinition {
   name: ToolName
@@ -37,14 +48,14 @@ export interface ToolDefinition {
   /** Whether this tool requires user confirmation before execution */
   requiresConfirmation: boolean
   /** Category for UI grouping */
-  category: 'events' | 'vendors' | 'sponsors' | 'profile'
+  category: 'events' | 'vendors' | 'sponsors' | 'planning' | 'inquiries' | 'profile'
 }
 
 export interface ToolParameter {
   type: 'string' | 'number' | 'boolean' | 'array' | 'object'
   description: string
   enum?: string[]
-  items?: { type: string }
+  items?: { type: string; properties?: Record<string, ToolParameter>; required?: string[] }
   properties?: Record<string, ToolParameter>
 }
 
@@ -64,6 +75,8 @@ export interface ToolResult {
   success: boolean
   data?: unknown
   error?: string
+  /** Question to put back to the user instead of guessing (e.g. an ambiguous date) */
+  clarification?: string
   /** Human-readable summary for display */
   summary: string
 }
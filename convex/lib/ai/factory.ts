@@ -2,10 +2,12 @@
  * AI Provider Factory
  *
  * Creates AI provider instances based on the requested type.
- * Supports OpenAI, with planned support for Anthropic and Groq.
+ * Supports OpenAI, Anthropic, and Groq.
  */
 
 import { OpenAIProvider } from './providers/openai'
+import { AnthropicProvider } from './providers/anthropic'
+import { GroqProvider } from './providers/groq'
 import type { AIProvider, ProviderType, ProviderCredentials } from './types'
 
 /**
@@ -33,17 +35,17 @@ export function createAIProvider(
     }
 
     case 'anthropic': {
-      // TODO: Implement Anthropic provider
-      throw new Error(
-        'Anthropic provider not yet implemented. Coming soon!'
-      )
+      if (!credentials.anthropic) {
+        throw new Error('Anthropic API key is required')
+      }
+      return new AnthropicProvider(credentials.anthropic)
     }
 
     case 'groq': {
-      // TODO: Implement Groq provider
-      throw new Error(
-        'Groq provider not yet implemented. Coming soon!'
-      )
+      if (!credentials.groq) {
+        throw new Error('Groq API key is required')
+      }
+      return new GroqProvider(credentials.groq)
     }
 
     default: {
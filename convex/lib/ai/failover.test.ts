@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest'
+import OpenAI from 'openai'
+import { FailoverProvider, dedupeContinuation, isFailoverError } from './failover'
+import { AnthropicAPIError } from './providers/anthropic'
+import { DEFAULT_CONFIGS } from './types'
+import type { AIMessage, AIProvider, AIStreamChunk, ProviderType } from './types'
+
+interface ScriptedProvider extends AIProvider {
+  calls: AIMessage[][]
+}
+
+/**
+ * Provider that replays chunks, then optionally throws (before or mid-stream).
+ */
+function scripted(
+  name: ProviderType,
+  chunks: AIStreamChunk[],
+  options: { failWith?: unknown; failAfter?: number; hang?: boolean } = {}
+): ScriptedProvider {
+  const calls: AIMessage[][] = []
+  return {
+    name,
+    calls,
+    async createStreamingChat(messages) {
+      calls.push(messages)
+      if (options.failWith && options.failAfter === undefined) throw options.failWith
+      return (async function* () {
+        for (let i = 0; i < chunks.length; i++) {
+          if (options.failAfter === i) throw options.failWith
+          yield chunks[i]
+        }
+        if (options.failAfter !== undefined) throw options.failWith
+        if (options.hang) await new Promise(() => {})
+      })()
+    },
+  }
+}
+
+async function collect(stream: AsyncIterable<AIStreamChunk>): Promise<AIStreamChunk[]> {
+  const chunks: AIStreamChunk[] = []
+  for await (const chunk of stream) chunks.push(chunk)
+  return chunks
+}
+
+const text = (content: string): AIStreamChunk => ({ type: 'text', content })
+const stop: AIStreamChunk = { type: 'done', finishReason: 'stop' }
+const serverError = new AnthropicAPIError(529, 'Overloaded')
+const messages: AIMessage[] = [{ role: 'user', content: 'Plan a meetup' }]
+
+describe('isFailoverError', () => {
+  it('fails over on 5xx, 429 and connection errors', () => {
+    expect(isFailoverError(new AnthropicAPIError(500, 'boom'))).toBe(true)
+    expect(isFailoverError(new AnthropicAPIError(429, 'slow down'))).toBe(true)
+    expect(isFailoverError(new OpenAI.APIConnectionTimeoutError())).toBe(true)
+  })
+
+  it('does not fail over on client or auth errors', () => {
+    expect(isFailoverError(new AnthropicAPIError(400, 'bad request'))).toBe(false)
+    expect(isFailoverError(new Error('AI service authentication failed.'))).toBe(false)
+  })
+})
+
+describe('dedupeContinuation', () => {
+  it('strips a repeated prefix', () => {
+    expect(dedupeContinuation('Hello wor', 'Hello world!')).toBe('ld!')
+  })
+
+  it('waits while the continuation is still a prefix of emitted text', () => {
+    expect(dedupeContinuation('Hello wor', 'Hel')).toBeNull()
+  })
+
+  it('passes through a genuine continuation', () => {
+    expect(dedupeContinuation('Hello wor', 'ld!')).toBe('ld!')
+  })
+})
+
+describe('FailoverProvider', () => {
+  it('uses the first provider when it succeeds', async () => {
+    const primary = scripted('openai', [text('Hi'), stop])
+    const backup = scripted('anthropic', [text('Hello'), stop])
+    const provider = new FailoverProvider([
+      { type: 'openai', provider: primary, model: 'gpt-4o-mini' },
+      { type: 'anthropic', provider: backup, model: 'claude-3-haiku-20240307' },
+    ])
+
+    const chunks = await collect(await provider.createStreamingChat(messages, [], DEFAULT_CONFIGS.openai))
+
+    expect(chunks).toEqual([text('Hi'), stop])
+    expect(provider.lastUsed).toEqual({ type: 'openai', model: 'gpt-4o-mini' })
+    expect(backup.calls).toHaveLength(0)
+  })
+
+  it('moves to the next provider on a retryable error before streaming', async () => {
+    const primary = scripted('openai', [], { failWith: serverError })
+    const backup = scripted('groq', [text('Sure'), stop])
+    const failovers: string[] = []
+    const provider = new FailoverProvider(
+      [
+        { type: 'openai', provider: primary, model: 'gpt-4o-mini' },
+        { type: 'groq', provider: backup, model: 'llama-3.3-70b-versatile' },
+      ],
+      { onFailover: (e) => failovers.push(`${e.from}->${e.to}`) }
+    )
+
+    const chunks = await collect(await provider.createStreamingChat(messages, [], DEFAULT_CONFIGS.openai))
+
+    expect(chunks).toEqual([text('Sure'), stop])
+    expect(provider.lastUsed?.type).toBe('groq')
+    expect(failovers).toEqual(['openai->groq'])
+    expect(backup.calls[0]).toEqual(messages)
+  })
+
+  it('does not repeat text that already streamed before the failure', async () => {
+    const primary = scripted('openai', [text('Your meetup '), text('is set for')], {
+      failWith: serverError,
+      failAfter: 2,
+    })
+    // Fallback restates the partial reply before continuing
+    const backup = scripted('anthropic', [text('Your meet'), text('up is set for'), text(' Friday.'), stop])
+    const provider = new FailoverProvider([
+      { type: 'openai', provider: primary, model: 'gpt-4o-mini' },
+      { type: 'anthropic', provider: backup, model: 'claude-3-haiku-20240307' },
+    ])
+
+    const chunks = await collect(await provider.createStreamingChat(messages, [], DEFAULT_CONFIGS.openai))
+    const streamed = chunks.filter((c) => c.type === 'text').map((c) => c.content).join('')
+
+    expect(streamed).toBe('Your meetup is set for Friday.')
+    // Fallback is asked to continue the partial assistant reply
+    const resumed = backup.calls[0]
+    expect(resumed[resumed.length - 2]).toEqual({ role: 'assistant', content: 'Your meetup is set for' })
+    expect(resumed[resumed.length - 1].role).toBe('user')
+  })
+
+  it('drops tool calls from a provider that failed mid-stream', async () => {
+    const partialCall: AIStreamChunk = {
+      type: 'tool_call_start',
+      toolCall: { index: 0, id: 'call_1', type: 'function', function: { name: 'searchVendors', arguments: '{"cat' } },
+    }
+    const fullCall: AIStreamChunk = {
+      type: 'tool_call_start',
+      toolCall: { index: 0, id: 'toolu_1', type: 'function', function: { name: 'searchVendors', arguments: '{}' } },
+    }
+    const primary = scripted('openai', [partialCall], { failWith: serverError, failAfter: 1 })
+    const backup = scripted('anthropic', [fullCall, { type: 'done', finishReason: 'tool_calls' }])
+    const provider = new FailoverProvider([
+      { type: 'openai', provider: primary, model: 'gpt-4o-mini' },
+      { type: 'anthropic', provider: backup, model: 'claude-3-haiku-20240307' },
+    ])
+
+    const chunks = await collect(await provider.createStreamingChat(messages, [], DEFAULT_CONFIGS.openai))
+
+    expect(chunks).toEqual([fullCall, { type: 'done', finishReason: 'tool_calls' }])
+  })
+
+  it('fails over when a provider stops responding', async () => {
+    const primary = scripted('openai', [], { hang: true })
+    const backup = scripted('groq', [text('Here'), stop])
+    const provider = new FailoverProvider(
+      [
+        { type: 'openai', provider: primary, model: 'gpt-4o-mini' },
+        { type: 'groq', provider: backup, model: 'llama-3.3-70b-versatile' },
+      ],
+      { idleTimeoutMs: 20 }
+    )
+
+    const chunks = await collect(await provider.createStreamingChat(messages, [], DEFAULT_CONFIGS.openai))
+
+    expect(chunks).toEqual([text('Here'), stop])
+    expect(provider.failovers[0].reason).toContain('timed out')
+  })
+
+  it('surfaces non-retryable errors without trying other providers', async () => {
+    const primary = scripted('openai', [], { failWith: new Error('AI service authentication failed.') })
+    const backup = scripted('groq', [text('Here'), stop])
+    const provider = new FailoverProvider([
+      { type: 'openai', provider: primary, model: 'gpt-4o-mini' },
+      { type: 'groq', provider: backup, model: 'llama-3.3-70b-versatile' },
+    ])
+
+    await expect(
+      collect(await provider.createStreamingChat(messages, [], DEFAULT_CONFIGS.openai))
+    ).rejects.toThrow('authentication failed')
+    expect(backup.calls).toHaveLength(0)
+  })
+
+  it('rethrows when the last provider fails', async () => {
+    const primary = scripted('openai', [], { failWith: serverError })
+    const provider = new FailoverProvider([{ type: 'openai', provider: primary, model: 'gpt-4o-mini' }])
+
+    await expect(
+      collect(await provider.createStreamingChat(messages, [], DEFAULT_CONFIGS.openai))
+    ).rejects.toThrow('Overloaded')
+  })
+})
@@ -0,0 +1,234 @@
+/**
+ * AI Provider Failover
+ *
+ * Wraps an ordered chain of providers behind the AIProvider interface.
+ * A turn that fails with a timeout, 5xx or rate-limit error is retried on the
+ * next provider. Text already streamed to the caller is never re-emitted:
+ * the fallback is asked to continue the partial reply and any repeated
+ * prefix is stripped.
+ */
+
+import OpenAI from 'openai'
+import { AnthropicAPIError } from './providers/anthropic'
+import type {
+  AIProvider,
+  AIMessage,
+  AITool,
+  AIProviderConfig,
+  AIStreamChunk,
+  ProviderType,
+} from './types'
+
+// Max wait for the first chunk and between chunks before giving up on a provider
+const DEFAULT_IDLE_TIMEOUT_MS = 20000
+
+const CONTINUE_PROMPT =
+  'Your previous reply was cut off. Continue it exactly where it stopped, without repeating anything already written.'
+
+export interface ProviderChainEntry {
+  type: ProviderType
+  provider: AIProvider
+  model: string
+}
+
+export interface FailoverEvent {
+  from: ProviderType
+  to: ProviderType
+  reason: string
+}
+
+export interface FailoverOptions {
+  idleTimeoutMs?: number
+  onFailover?: (event: FailoverEvent) => void
+}
+
+/**
+ * Raised when a provider stops producing chunks within the idle timeout.
+ */
+export class ProviderTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`AI provider timed out after ${timeoutMs}ms`)
+    this.name = 'ProviderTimeoutError'
+  }
+}
+
+/**
+ * Raised when a provider reports an error chunk mid-stream.
+ */
+class ProviderStreamError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProviderStreamError'
+  }
+}
+
+/**
+ * Whether an error should move the turn to the next provider.
+ * Timeouts, connection failures, 5xx, 429 and mid-stream errors qualify;
+ * auth and validation errors do not.
+ */
+export function isFailoverError(error: unknown): boolean {
+  if (error instanceof ProviderTimeoutError || error instanceof ProviderStreamError) {
+    return true
+  }
+  if (error instanceof OpenAI.APIConnectionError) {
+    return true
+  }
+  const status =
+    error instanceof OpenAI.APIError || error instanceof AnthropicAPIError
+      ? error.status
+      : undefined
+  if (status === undefined) return false
+  return status === 408 || status === 429 || status >= 500
+}
+
+/**
+ * Strip the part of a continuation that repeats text already sent.
+ * Returns the text to emit, or null while more input is needed to decide.
+ */
+export function dedupeContinuation(emitted: string, buffered: string): string | null {
+  if (buffered.startsWith(emitted)) {
+    return buffered.slice(emitted.length)
+  }
+  if (emitted.startsWith(buffered)) {
+    return null
+  }
+  return buffered
+}
+
+export class FailoverProvider implements AIProvider {
+  readonly name = 'failover'
+  private chain: ProviderChainEntry[]
+  private idleTimeoutMs: number
+  private onFailover?: (event: FailoverEvent) => void
+  // Later turns start at the provider that last succeeded instead of retrying a failing one
+  private startIndex = 0
+
+  /** Provider that completed the most recent turn */
+  lastUsed: { type: ProviderType; model: string } | null = null
+  /** Every provider switch made during the most recent turn */
+  failovers: FailoverEvent[] = []
+
+  constructor(chain: ProviderChainEntry[], options: FailoverOptions = {}) {
+    if (chain.length === 0) {
+      throw new Error('At least one AI provider is required')
+    }
+    this.chain = chain
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS
+    this.onFailover = options.onFailover
+  }
+
+  /**
+   * Stream a turn, moving down the chain on retryable errors.
+   * The chain entry's model overrides `config.model`.
+   */
+  async createStreamingChat(
+    messages: AIMessage[],
+    tools: AITool[],
+    config: AIProviderConfig
+  ): Promise<AsyncIterable<AIStreamChunk>> {
+    this.lastUsed = null
+    this.failovers = []
+    return this.streamWithFailover(messages, tools, config)
+  }
+
+  private async *streamWithFailover(
+    messages: AIMessage[],
+    tools: AITool[],
+    config: AIProviderConfig
+  ): AsyncIterable<AIStreamChunk> {
+    let emittedText = ''
+
+    for (let i = this.startIndex; i < this.chain.length; i++) {
+      const entry = this.chain[i]
+      const isLast = i === this.chain.length - 1
+
+      // Tool call chunks are held back until the provider finishes the turn so
+      // a half-streamed call from a failed provider never reaches the caller
+      const heldToolChunks: AIStreamChunk[] = []
+      const resuming = emittedText.length > 0
+      let pending = ''
+      let deduped = !resuming
+
+      const turnMessages: AIMessage[] = resuming
+        ? [
+            ...messages,
+            { role: 'assistant', content: emittedText },
+            { role: 'user', content: CONTINUE_PROMPT },
+          ]
+        : messages
+
+      try {
+        const stream = await this.withTimeout(
+          entry.provider.createStreamingChat(turnMessages, tools, { ...config, model: entry.model })
+        )
+        const iterator = stream[Symbol.asyncIterator]()
+
+        while (true) {
+          const { done, value: chunk } = await this.withTimeout(iterator.next())
+          if (done) break
+
+          if (chunk.type === 'error') {
+            throw new ProviderStreamError(chunk.error || 'AI provider stream failed')
+          }
+
+          if (chunk.type === 'text' && chunk.content) {
+            let text = chunk.content
+            if (!deduped) {
+              pending += text
+              const rest = dedupeContinuation(emittedText, pending)
+              if (rest === null) continue
+              deduped = true
+              text = rest
+            }
+            if (text) {
+              emittedText += text
+              yield { type: 'text', content: text }
+            }
+            continue
+          }
+
+          if (chunk.type === 'tool_call_start' || chunk.type === 'tool_call_delta') {
+            heldToolChunks.push(chunk)
+            continue
+          }
+
+          if (chunk.type === 'done') {
+            yield* heldToolChunks
+            heldToolChunks.length = 0
+            yield chunk
+          }
+        }
+
+        // Stream ended without a done chunk - still release any tool calls
+        yield* heldToolChunks
+        this.lastUsed = { type: entry.type, model: entry.model }
+        this.startIndex = i
+        return
+      } catch (error) {
+        if (isLast || !isFailoverError(error)) {
+          throw error
+        }
+
+        const event: FailoverEvent = {
+          from: entry.type,
+          to: this.chain[i + 1].type,
+          reason: error instanceof Error ? error.message : 'Unknown error',
+        }
+        this.failovers.push(event)
+        this.onFailover?.(event)
+      }
+    }
+  }
+
+  /**
+   * Reject if the promise doesn't settle within the idle timeout.
+   */
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new ProviderTimeoutError(this.idleTimeoutMs)), this.idleTimeoutMs)
+    })
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+  }
+}
@@ -40,5 +40,20 @@ export {
   getDefaultProvider,
 } from './factory'
 
+// Failover
+export {
+  FailoverProvider,
+  ProviderTimeoutError,
+  isFailoverError,
+  dedupeContinuation,
+} from './failover'
+export type {
+  ProviderChainEntry,
+  FailoverEvent,
+  FailoverOptions,
+} from './failover'
+
 // Providers
 export { OpenAIProvider } from './providers/openai'
+export { AnthropicProvider } from './providers/anthropic'
+export { GroqProvider } from './providers/groq'
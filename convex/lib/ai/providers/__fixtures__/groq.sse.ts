@@ -0,0 +1,26 @@
+/**
+ * Recorded Groq (OpenAI-compatible) chat completion streams (trimmed ids/usage).
+ */
+
+export const GROQ_TEXT_STREAM = `data: {"id":"chatcmpl-5b7f","object":"chat.completion.chunk","created":1733900000,"model":"llama-3.3-70b-versatile","system_fingerprint":"fp_a4b4","choices":[{"index":0,"delta":{"role":"assistant","content":""},"logprobs":null,"finish_reason":null}],"x_groq":{"id":"req_01jf"}}
+
+data: {"id":"chatcmpl-5b7f","object":"chat.completion.chunk","created":1733900000,"model":"llama-3.3-70b-versatile","system_fingerprint":"fp_a4b4","choices":[{"index":0,"delta":{"content":"Sure"},"logprobs":null,"finish_reason":null}]}
+
+data: {"id":"chatcmpl-5b7f","object":"chat.completion.chunk","created":1733900000,"model":"llama-3.3-70b-versatile","system_fingerprint":"fp_a4b4","choices":[{"index":0,"delta":{"content":", what date works?"},"logprobs":null,"finish_reason":null}]}
+
+data: {"id":"chatcmpl-5b7f","object":"chat.completion.chunk","created":1733900000,"model":"llama-3.3-70b-versatile","system_fingerprint":"fp_a4b4","choices":[{"index":0,"delta":{},"logprobs":null,"finish_reason":"stop"}],"x_groq":{"id":"req_01jf","usage":{"prompt_tokens":120,"completion_tokens":7,"total_tokens":127}}}
+
+data: [DONE]
+
+`
+
+// Groq sends each tool call whole in a single delta rather than streaming arguments
+export const GROQ_TOOL_CALL_STREAM = `data: {"id":"chatcmpl-9c1e","object":"chat.completion.chunk","created":1733900100,"model":"llama-3.3-70b-versatile","system_fingerprint":"fp_a4b4","choices":[{"index":0,"delta":{"role":"assistant","content":null},"logprobs":null,"finish_reason":null}],"x_groq":{"id":"req_01jg"}}
+
+data: {"id":"chatcmpl-9c1e","object":"chat.completion.chunk","created":1733900100,"model":"llama-3.3-70b-versatile","system_fingerprint":"fp_a4b4","choices":[{"index":0,"delta":{"tool_calls":[{"id":"call_7yq2","type":"function","function":{"name":"searchVendors","arguments":"{\\"category\\":\\"catering\\",\\"limit\\":5}"},"index":0}]},"logprobs":null,"finish_reason":null}]}
+
+data: {"id":"chatcmpl-9c1e","object":"chat.completion.chunk","created":1733900100,"model":"llama-3.3-70b-versatile","system_fingerprint":"fp_a4b4","choices":[{"index":0,"delta":{},"logprobs":null,"finish_reason":"tool_calls"}],"x_groq":{"id":"req_01jg","usage":{"prompt_tokens":480,"completion_tokens":22,"total_tokens":502}}}
+
+data: [DONE]
+
+`
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi } from 'vitest'
+import { AnthropicProvider } from './anthropic'
+import {
+  ANTHROPIC_TEXT_STREAM,
+  ANTHROPIC_TOOL_USE_STREAM,
+  ANTHROPIC_ERROR_STREAM,
+} from './__fixtures__/anthropic.sse'
+import { DEFAULT_CONFIGS } from '../types'
+import type { AIMessage, AIStreamChunk, AITool } from '../types'
+
+/** Serve a fixture in small pieces so events straddle read boundaries. */
+function sseResponse(fixture: string, chunkSize = 37): Response {
+  const bytes = new TextEncoder().encode(fixture)
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += chunkSize) {
+        controller.enqueue(bytes.slice(i, i + chunkSize))
+      }
+      controller.close()
+    },
+  })
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })
+}
+
+async function collect(stream: AsyncIterable<AIStreamChunk>): Promise<AIStreamChunk[]> {
+  const chunks: AIStreamChunk[] = []
+  for await (const chunk of stream) chunks.push(chunk)
+  return chunks
+}
+
+const tools: AITool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'searchVendors',
+      description: 'Search vendors',
+      parameters: { type: 'object', properties: { category: { type: 'string' } } },
+    },
+  },
+]
+
+describe('AnthropicProvider', () => {
+  it('maps text deltas and end_turn to text chunks and a stop', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(sseResponse(ANTHROPIC_TEXT_STREAM))
+    const provider = new AnthropicProvider('sk-ant-test', { fetch: fetchMock })
+
+    const chunks = await collect(
+      await provider.createStreamingChat([{ role: 'user', content: 'Hi' }], [], DEFAULT_CONFIGS.anthropic)
+    )
+
+    expect(chunks).toEqual([
+      { type: 'text', content: 'Hello' },
+      { type: 'text', content: '! How can I help with your event?' },
+      { type: 'done', finishReason: 'stop' },
+    ])
+  })
+
+  it('maps tool_use blocks to tool call chunks indexed from zero', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(sseResponse(ANTHROPIC_TOOL_USE_STREAM, 11))
+    const provider = new AnthropicProvider('sk-ant-test', { fetch: fetchMock })
+
+    const chunks = await collect(
+      await provider.createStreamingChat([{ role: 'user', content: 'Find caterers' }], tools, DEFAULT_CONFIGS.anthropic)
+    )
+
+    expect(chunks[0]).toEqual({ type: 'text', content: 'Let me find caterers for you.' })
+    expect(chunks[1]).toEqual({
+      type: 'tool_call_start',
+      toolCall: {
+        index: 0,
+        id: 'toolu_01T1x1fJ34qAmk2tNTrN7Up6',
+        type: 'function',
+        function: { name: 'searchVendors', arguments: '' },
+      },
+    })
+
+    const argsFor = (index: number) =>
+      chunks
+        .filter((c) => c.type === 'tool_call_delta' && c.toolCall?.index === index)
+        .map((c) => c.toolCall?.function?.arguments)
+        .join('')
+    expect(JSON.parse(argsFor(0))).toEqual({ category: 'catering', limit: 5 })
+    expect(JSON.parse(argsFor(1))).toEqual({})
+
+    const starts = chunks.filter((c) => c.type === 'tool_call_start')
+    expect(starts.map((c) => [c.toolCall?.index, c.toolCall?.function?.name])).toEqual([
+      [0, 'searchVendors'],
+      [1, 'getUserProfile'],
+    ])
+    expect(chunks[chunks.length - 1]).toEqual({ type: 'done', finishReason: 'tool_calls' })
+  })
+
+  it('surfaces mid-stream error events as an error chunk', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(sseResponse(ANTHROPIC_ERROR_STREAM))
+    const provider = new AnthropicProvider('sk-ant-test', { fetch: fetchMock })
+
+    const chunks = await collect(
+      await provider.createStreamingChat([{ role: 'user', content: 'Hi' }], [], DEFAULT_CONFIGS.anthropic)
+    )
+
+    expect(chunks).toEqual([{ type: 'error', error: 'Overloaded' }])
+  })
+
+  it('converts messages, tools and tool choice to the Messages API format', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(sseResponse(ANTHROPIC_TEXT_STREAM))
+    const provider = new AnthropicProvider('sk-ant-test', { fetch: fetchMock })
+
+    const messages: AIMessage[] = [
+      { role: 'system', content: 'You are an event assistant.' },
+      { role: 'user', content: 'Find caterers and show my profile' },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [
+          { id: 'toolu_1', type: 'function', function: { name: 'searchVendors', arguments: '{"category":"catering"}' } },
+          { id: 'toolu_2', type: 'function', function: { name: 'getUserProfile', arguments: '' } },
+        ],
+      },
+      { role: 'tool', toolCallId: 'toolu_1', content: '{"success":true}' },
+      { role: 'tool', toolCallId: 'toolu_2', content: '{"success":true}' },
+    ]
+
+    await provider.createStreamingChat(messages, tools, { ...DEFAULT_CONFIGS.anthropic, toolChoice: 'required' })
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('https://api.anthropic.com/v1/messages')
+    expect(init.headers['x-api-key']).toBe('sk-ant-test')
+    expect(init.headers['anthropic-version']).toBeDefined()
+
+    const body = JSON.parse(init.body)
+    expect(body.system).toBe('You are an event assistant.')
+    expect(body.stream).toBe(true)
+    expect(body.max_tokens).toBe(1500)
+    expect(body.tool_choice).toEqual({ type: 'any' })
+    expect(body.tools).toEqual([
+      {
+        name: 'searchVendors',
+        description: 'Search vendors',
+        input_schema: { type: 'object', properties: { category: { type: 'string' } } },
+      },
+    ])
+    expect(body.messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'Find caterers and show my profile' }] },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'tool_use', id: 'toolu_1', name: 'searchVendors', input: { category: 'catering' } },
+          { type: 'tool_use', id: 'toolu_2', name: 'getUserProfile', input: {} },
+        ],
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'toolu_1', content: '{"success":true}' },
+          { type: 'tool_result', tool_use_id: 'toolu_2', content: '{"success":true}' },
+        ],
+      },
+    ])
+  })
+
+  it('does not retry authentication failures', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('{"type":"error"}', { status: 401 }))
+    const provider = new AnthropicProvider('bad-key', { fetch: fetchMock })
+
+    await expect(
+      provider.createStreamingChat([{ role: 'user', content: 'Hi' }], [], DEFAULT_CONFIGS.anthropic)
+    ).rejects.toThrow('AI service authentication failed')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,349 @@
+/**
+ * Anthropic Provider Implementation
+ *
+ * Implements the AIProvider interface for Anthropic's Messages API.
+ * Uses fetch + SSE directly and maps content blocks to our stream chunks.
+ */
+
+import { parseSSEStream } from '../sse'
+import type {
+  AIProvider,
+  AIMessage,
+  AITool,
+  AIProviderConfig,
+  AIStreamChunk,
+} from '../types'
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1'
+const ANTHROPIC_VERSION = '2023-06-01'
+
+export interface AnthropicProviderOptions {
+  baseURL?: string
+  fetch?: typeof fetch
+}
+
+// ============================================================================
+// Anthropic Wire Types
+// ============================================================================
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string }
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant'
+  content: AnthropicContentBlock[]
+}
+
+interface AnthropicTool {
+  name: string
+  description: string
+  input_schema: Record<string, unknown>
+}
+
+type AnthropicStreamEvent =
+  | { type: 'message_start' }
+  | {
+      type: 'content_block_start'
+      index: number
+      content_block: { type: 'text'; text: string } | { type: 'tool_use'; id: string; name: string }
+    }
+  | {
+      type: 'content_block_delta'
+      index: number
+      delta: { type: 'text_delta'; text: string } | { type: 'input_json_delta'; partial_json: string }
+    }
+  | { type: 'content_block_stop'; index: number }
+  | { type: 'message_delta'; delta: { stop_reason: string | null } }
+  | { type: 'message_stop' }
+  | { type: 'ping' }
+  | { type: 'error'; error: { type: string; message: string } }
+
+const STOP_REASONS: Record<string, AIStreamChunk['finishReason']> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  tool_use: 'tool_calls',
+  max_tokens: 'length',
+  refusal: 'content_filter',
+}
+
+/**
+ * HTTP error from the Anthropic API, carrying the status for retry decisions.
+ */
+export class AnthropicAPIError extends Error {
+  readonly status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = 'AnthropicAPIError'
+    this.status = status
+  }
+}
+
+export class AnthropicProvider implements AIProvider {
+  readonly name = 'anthropic'
+  private apiKey: string
+  private baseURL: string
+  private fetchFn: typeof fetch
+
+  constructor(apiKey: string, options: AnthropicProviderOptions = {}) {
+    this.apiKey = apiKey
+    this.baseURL = options.baseURL ?? ANTHROPIC_BASE_URL
+    this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init))
+  }
+
+  /**
+   * Create a streaming chat completion with retry logic.
+   */
+  async createStreamingChat(
+    messages: AIMessage[],
+    tools: AITool[],
+    config: AIProviderConfig
+  ): Promise<AsyncIterable<AIStreamChunk>> {
+    const body = await this.createWithRetry(messages, tools, config)
+    return this.transformStream(body)
+  }
+
+  /**
+   * Transform Anthropic's content-block events to our common AIStreamChunk format.
+   * Tool calls are re-indexed from 0 so they line up with OpenAI's tool_calls index.
+   */
+  private async *transformStream(
+    body: ReadableStream<Uint8Array>
+  ): AsyncIterable<AIStreamChunk> {
+    // Content block index -> tool call index
+    const toolIndexes = new Map<number, number>()
+
+    for await (const sse of parseSSEStream(body)) {
+      let event: AnthropicStreamEvent
+      try {
+        event = JSON.parse(sse.data)
+      } catch {
+        continue
+      }
+
+      switch (event.type) {
+        case 'content_block_start': {
+          const block = event.content_block
+          if (block.type === 'tool_use') {
+            const index = toolIndexes.size
+            toolIndexes.set(event.index, index)
+            yield {
+              type: 'tool_call_start',
+              toolCall: {
+                index,
+                id: block.id,
+                type: 'function',
+                function: { name: block.name, arguments: '' },
+              },
+            }
+          } else if (block.text) {
+            yield { type: 'text', content: block.text }
+          }
+          break
+        }
+
+        case 'content_block_delta': {
+          const delta = event.delta
+          if (delta.type === 'text_delta' && delta.text) {
+            yield { type: 'text', content: delta.text }
+          } else if (delta.type === 'input_json_delta' && delta.partial_json) {
+            yield {
+              type: 'tool_call_delta',
+              toolCall: {
+                index: toolIndexes.get(event.index),
+                function: { name: '', arguments: delta.partial_json },
+              },
+            }
+          }
+          break
+        }
+
+        case 'message_delta': {
+          if (event.delta.stop_reason) {
+            yield {
+              type: 'done',
+              finishReason: STOP_REASONS[event.delta.stop_reason] ?? 'stop',
+            }
+          }
+          break
+        }
+
+        case 'error': {
+          yield { type: 'error', error: event.error.message }
+          return
+        }
+      }
+    }
+  }
+
+  /**
+   * Call the Messages API with retry logic and exponential backoff.
+   */
+  private async createWithRetry(
+    messages: AIMessage[],
+    tools: AITool[],
+    config: AIProviderConfig,
+    maxRetries = 3
+  ): Promise<ReadableStream<Uint8Array>> {
+    const { system, messages: anthropicMessages } = this.convertMessages(messages)
+    const anthropicTools = this.convertTools(tools)
+
+    const requestBody = {
+      model: config.model,
+      system: system || undefined,
+      messages: anthropicMessages,
+      tools: anthropicTools.length > 0 ? anthropicTools : undefined,
+      tool_choice: anthropicTools.length > 0 ? this.convertToolChoice(config.toolChoice) : undefined,
+      temperature: config.temperature ?? 0.7,
+      max_tokens: config.maxTokens ?? 1500,
+      stream: true,
+    }
+
+    let lastError: Error | null = null
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      try {
+        const response = await this.fetchFn(`${this.baseURL}/messages`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-api-key': this.apiKey,
+            'anthropic-version': ANTHROPIC_VERSION,
+          },
+          body: JSON.stringify(requestBody),
+        })
+
+        if (response.ok && response.body) {
+          return response.body
+        }
+
+        const errorText = await response.text().catch(() => '')
+        throw new AnthropicAPIError(
+          response.status,
+          `Anthropic API error (${response.status}): ${errorText.substring(0, 500)}`
+        )
+      } catch (error) {
+        lastError = error as Error
+
+        // Don't retry on auth errors
+        if (error instanceof AnthropicAPIError) {
+          if (error.status === 401 || error.status === 403) {
+            throw new Error('AI service authentication failed. Please check configuration.')
+          }
+          if (error.status === 400 || error.status === 404) {
+            throw error
+          }
+          if (error.status === 429 || error.status === 529) {
+            // Rate limited or overloaded - wait longer
+            const waitTime = Math.pow(2, attempt) * 2000
+            await new Promise((r) => setTimeout(r, waitTime))
+            continue
+          }
+        }
+
+        // For other errors, exponential backoff
+        if (attempt < maxRetries - 1) {
+          const waitTime = Math.pow(2, attempt) * 1000
+          await new Promise((r) => setTimeout(r, waitTime))
+        }
+      }
+    }
+
+    throw lastError || new Error('Anthropic API call failed after retries')
+  }
+
+  /**
+   * Convert our message format to Anthropic's format.
+   * System messages move to the top-level `system` field, tool results become
+   * `tool_result` blocks on a user turn, and consecutive same-role turns merge.
+   */
+  private convertMessages(
+    messages: AIMessage[]
+  ): { system: string; messages: AnthropicMessage[] } {
+    const systemParts: string[] = []
+    const result: AnthropicMessage[] = []
+
+    const append = (role: AnthropicMessage['role'], blocks: AnthropicContentBlock[]) => {
+      if (blocks.length === 0) return
+      const last = result[result.length - 1]
+      if (last && last.role === role) {
+        last.content.push(...blocks)
+      } else {
+        result.push({ role, content: blocks })
+      }
+    }
+
+    for (const msg of messages) {
+      if (msg.role === 'system') {
+        if (msg.content) systemParts.push(msg.content)
+        continue
+      }
+
+      if (msg.role === 'tool') {
+        append('user', [
+          { type: 'tool_result', tool_use_id: msg.toolCallId || '', content: msg.content },
+        ])
+        continue
+      }
+
+      const blocks: AnthropicContentBlock[] = []
+      if (msg.content) {
+        blocks.push({ type: 'text', text: msg.content })
+      }
+      if (msg.role === 'assistant' && msg.toolCalls) {
+        for (const tc of msg.toolCalls) {
+          blocks.push({
+            type: 'tool_use',
+            id: tc.id,
+            name: tc.function.name,
+            input: parseToolArguments(tc.function.arguments),
+          })
+        }
+      }
+      append(msg.role, blocks)
+    }
+
+    return { system: systemParts.join('\n\n'), messages: result }
+  }
+
+  /**
+   * Convert our tool format to Anthropic's format.
+   */
+  private convertTools(tools: AITool[]): AnthropicTool[] {
+    return tools.map((tool) => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: tool.function.parameters,
+    }))
+  }
+
+  /**
+   * Convert our tool choice to Anthropic's format.
+   */
+  private convertToolChoice(
+    toolChoice: AIProviderConfig['toolChoice']
+  ): { type: 'auto' | 'any' | 'none' } {
+    switch (toolChoice) {
+      case 'required':
+        return { type: 'any' }
+      case 'none':
+        return { type: 'none' }
+      default:
+        return { type: 'auto' }
+    }
+  }
+}
+
+/**
+ * Parse tool call arguments, falling back to an empty object on bad JSON.
+ */
+function parseToolArguments(args: string): unknown {
+  if (!args) return {}
+  try {
+    return JSON.parse(args)
+  } catch {
+    return {}
+  }
+}
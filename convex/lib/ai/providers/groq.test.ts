@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest'
+import { GroqProvider } from './groq'
+import { GROQ_TEXT_STREAM, GROQ_TOOL_CALL_STREAM } from './__fixtures__/groq.sse'
+import { DEFAULT_CONFIGS } from '../types'
+import type { AIStreamChunk, AITool } from '../types'
+
+function sseResponse(fixture: string): Response {
+  return new Response(fixture, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })
+}
+
+async function collect(stream: AsyncIterable<AIStreamChunk>): Promise<AIStreamChunk[]> {
+  const chunks: AIStreamChunk[] = []
+  for await (const chunk of stream) chunks.push(chunk)
+  return chunks
+}
+
+const tools: AITool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'searchVendors',
+      description: 'Search vendors',
+      parameters: { type: 'object', properties: { category: { type: 'string' } } },
+    },
+  },
+]
+
+describe('GroqProvider', () => {
+  it('streams text and stop from an OpenAI-compatible response', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(sseResponse(GROQ_TEXT_STREAM))
+    const provider = new GroqProvider('gsk_test', { fetch: fetchMock })
+
+    const chunks = await collect(
+      await provider.createStreamingChat([{ role: 'user', content: 'Plan a meetup' }], [], DEFAULT_CONFIGS.groq)
+    )
+
+    expect(provider.name).toBe('groq')
+    expect(chunks).toEqual([
+      { type: 'text', content: 'Sure' },
+      { type: 'text', content: ', what date works?' },
+      { type: 'done', finishReason: 'stop' },
+    ])
+  })
+
+  it('emits whole tool calls as a single tool_call_start', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(sseResponse(GROQ_TOOL_CALL_STREAM))
+    const provider = new GroqProvider('gsk_test', { fetch: fetchMock })
+
+    const chunks = await collect(
+      await provider.createStreamingChat([{ role: 'user', content: 'Find caterers' }], tools, DEFAULT_CONFIGS.groq)
+    )
+
+    expect(chunks).toEqual([
+      {
+        type: 'tool_call_start',
+        toolCall: {
+          index: 0,
+          id: 'call_7yq2',
+          type: 'function',
+          function: { name: 'searchVendors', arguments: '{"category":"catering","limit":5}' },
+        },
+      },
+      { type: 'done', finishReason: 'tool_calls' },
+    ])
+  })
+
+  it('sends requests to the Groq endpoint with the configured model', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(sseResponse(GROQ_TEXT_STREAM))
+    const provider = new GroqProvider('gsk_test', { fetch: fetchMock })
+
+    await collect(
+      await provider.createStreamingChat([{ role: 'user', content: 'Hi' }], tools, DEFAULT_CONFIGS.groq)
+    )
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(String(url)).toBe('https://api.groq.com/openai/v1/chat/completions')
+    const body = JSON.parse(init.body)
+    expect(body.model).toBe(DEFAULT_CONFIGS.groq.model)
+    expect(body.stream).toBe(true)
+    expect(body.tools[0].function.name).toBe('searchVendors')
+  })
+})
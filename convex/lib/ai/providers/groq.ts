@@ -0,0 +1,18 @@
+/**
+ * Groq Provider Implementation
+ *
+ * Groq exposes an OpenAI-compatible Chat Completions API, so this reuses
+ * the OpenAI provider's request/stream mapping against Groq's base URL.
+ */
+
+import { OpenAIProvider, type OpenAIProviderOptions } from './openai'
+
+const GROQ_BASE_URL = 'https://api.groq.com/openai/v1'
+
+export class GroqProvider extends OpenAIProvider {
+  readonly name: string = 'groq'
+
+  constructor(apiKey: string, options: OpenAIProviderOptions = {}) {
+    super(apiKey, { baseURL: GROQ_BASE_URL, ...options })
+  }
+}
@@ -14,12 +14,18 @@ import type {
   AIStreamChunk,
 } from '../types'
 
+export interface OpenAIProviderOptions {
+  /** Override the API base URL (used for OpenAI-compatible providers) */
+  baseURL?: string
+  fetch?: typeof fetch
+}
+
 export class OpenAIProvider implements AIProvider {
-  readonly name = 'openai'
+  readonly name: string = 'openai'
   private client: OpenAI
 
-  constructor(apiKey: string) {
-    this.client = new OpenAI({ apiKey })
+  constructor(apiKey: string, options: OpenAIProviderOptions = {}) {
+    this.client = new OpenAI({ apiKey, baseURL: options.baseURL, fetch: options.fetch })
   }
 
   /**
@@ -144,7 +150,7 @@ export class OpenAIProvider implements AIProvider {
       }
     }
 
-    throw lastError || new Error('OpenAI API call failed after retries')
+    throw lastError || new Error(`${this.name} API call failed after retries`)
   }
 
   /**
@@ -0,0 +1,65 @@
+/**
+ * Server-Sent Events Parser
+ *
+ * Minimal SSE reader for providers that don't ship a streaming SDK.
+ * Yields one entry per event, joining multi-line `data:` fields.
+ */
+
+export interface SSEEvent {
+  event?: string
+  data: string
+}
+
+/**
+ * Parse a fetch response body into SSE events.
+ */
+export async function* parseSSEStream(
+  body: ReadableStream<Uint8Array>
+): AsyncIterable<SSEEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      // Events are separated by a blank line
+      const blocks = buffer.split(/\r?\n\r?\n/)
+      buffer = done ? '' : blocks.pop() ?? ''
+
+      for (const block of blocks) {
+        const event = parseEventBlock(block)
+        if (event) yield event
+      }
+
+      if (done) break
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Parse a single SSE event block. Returns null for comments and empty blocks.
+ */
+function parseEventBlock(block: string): SSEEvent | null {
+  let event: string | undefined
+  const dataLines: string[] = []
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(':')) continue
+
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    let value = colon === -1 ? '' : line.slice(colon + 1)
+    if (value.startsWith(' ')) value = value.slice(1)
+
+    if (field === 'event') event = value
+    else if (field === 'data') dataLines.push(value)
+  }
+
+  if (dataLines.length === 0) return null
+  return { event, data: dataLines.join('\n') }
+}
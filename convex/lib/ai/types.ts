@@ -114,7 +114,7 @@ export const DEFAULT_CONFIGS: Record<ProviderType, AIProviderConfig> = {
     toolChoice: 'auto',
   },
   groq: {
-    model: 'mixtral-8x7b-32768',
+    model: 'llama-3.3-70b-versatile',
     temperature: 0.7,
     maxTokens: 1500,
     toolChoice: 'auto',
@@ -1,14 +1,17 @@
 import { getAuthUserId } from '@convex-dev/auth/server'
 import type { QueryCtx, MutationCtx } from '../_generated/server'
 
-// Role hierarchy: superadmin (3) > admin (2) > organizer (1)
+// Role hierarchy: superadmin (3) > admin (2) > organizer (1) > vendor/sponsor (0)
+// Portal roles sit below organizer so they never pass organizer checks
 export const ROLE_HIERARCHY: Record<string, number> = {
   superadmin: 3,
   admin: 2,
   organizer: 1,
+  vendor: 0,
+  sponsor: 0,
 } as const
 
-export type UserRole = 'superadmin' | 'admin' | 'organizer'
+export type UserRole = 'superadmin' | 'admin' | 'organizer' | 'vendor' | 'sponsor'
 export type UserStatus = 'active' | 'suspended' | 'pending'
 
 /**
@@ -18,6 +21,13 @@ export function isAdminRole(role: string | undefined): boolean {
   return role === 'admin' || role === 'superadmin'
 }
 
+/**
+ * Check if a user is a self-service portal account (vendor or sponsor)
+ */
+export function isPortalRole(role: string | undefined): boolean {
+  return role === 'vendor' || role === 'sponsor'
+}
+
 /**
  * Get the current authenticated user from the context.
  * Returns null if no user is authenticated.
@@ -36,7 +46,7 @@ export async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
 
 /**
  * Assert that the current user has the specified role or higher.
- * Uses role hierarchy: superadmin > admin > organizer
+ * Uses role hierarchy: superadmin > admin > organizer > vendor/sponsor
  * Throws an error if:
  * - User is not authenticated
  * - User's account is suspended
@@ -58,8 +68,8 @@ export async function assertRole(
   }
 
   // Get role levels (default to organizer level for new users)
-  const userRoleLevel = ROLE_HIERARCHY[user.role || 'organizer'] || 1
-  const requiredRoleLevel = ROLE_HIERARCHY[requiredRole] || 1
+  const userRoleLevel = ROLE_HIERARCHY[user.role || 'organizer'] ?? 1
+  const requiredRoleLevel = ROLE_HIERARCHY[requiredRole] ?? 1
 
   // Check if user has sufficient role level
   if (userRoleLevel >= requiredRoleLevel) {
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import type { Doc, Id } from '../_generated/dataModel'
+import {
+  convertAmount,
+  convertBudgetItems,
+  isRateDate,
+  normalizeCurrency,
+  toRateDate,
+  type RateResolver,
+} from './currency'
+
+// Units per 1 USD, by date
+const RATES: Record<string, Record<string, number>> = {
+  '2026-01-01': { USD: 1, MYR: 4, SGD: 1.25 },
+  '2026-03-01': { USD: 1, MYR: 5, SGD: 1.25 },
+}
+
+const getRate: RateResolver = async (from, to, date) => {
+  const day = Object.keys(RATES).sort().filter((d) => d <= date).pop()
+  const table = day ? RATES[day] : undefined
+  if (!table?.[from] || !table?.[to]) return null
+  return table[to] / table[from]
+}
+
+const MARCH = Date.parse('2026-03-10T12:00:00Z')
+
+function item(overrides: Partial<Doc<'budgetItems'>>): Doc<'budgetItems'> {
+  return {
+    _id: 'item1' as Id<'budgetItems'>,
+    _creationTime: 0,
+    eventId: 'event1' as Id<'events'>,
+    category: 'venue',
+    name: 'Hall',
+    estimatedAmount: 100,
+    status: 'planned',
+    createdAt: 0,
+    ...overrides,
+  }
+}
+
+describe('normalizeCurrency', () => {
+  it('uppercases valid codes', () => {
+    expect(normalizeCurrency(' myr ')).toBe('MYR')
+  })
+
+  it('rejects anything that is not a 3-letter code', () => {
+    expect(() => normalizeCurrency('RM')).toThrow('Invalid currency code')
+    expect(() => normalizeCurrency('US1')).toThrow('Invalid currency code')
+  })
+})
+
+describe('rate dates', () => {
+  it('uses the UTC date of a timestamp', () => {
+    expect(toRateDate(Date.parse('2026-03-01T23:30:00Z'))).toBe('2026-03-01')
+  })
+
+  it('accepts only real YYYY-MM-DD dates', () => {
+    expect(isRateDate('2026-03-01')).toBe(true)
+    expect(isRateDate('2026-3-1')).toBe(false)
+    expect(isRateDate('2026-13-01')).toBe(false)
+  })
+})
+
+describe('convertBudgetItems', () => {
+  it('treats items without a currency as the event currency', async () => {
+    const result = await convertBudgetItems([item({})], 'MYR', 'MYR', getRate, MARCH)
+    expect(result.items[0].estimatedAmount).toBe(100)
+    expect(result.missingRates).toEqual([])
+  })
+
+  it('converts open items at the current rate', async () => {
+    const result = await convertBudgetItems([item({ currency: 'USD' })], 'MYR', 'MYR', getRate, MARCH)
+    expect(result.items[0].estimatedAmount).toBe(500)
+  })
+
+  it('converts paid items at the rate from their paid date', async () => {
+    const paid = item({ currency: 'USD', status: 'paid', actualAmount: 100, paidAt: Date.parse('2026-02-01') })
+    const result = await convertBudgetItems([paid], 'MYR', 'MYR', getRate, MARCH)
+    expect(result.items[0].actualAmount).toBe(400)
+  })
+
+  it('prefers the rate locked on a paid item', async () => {
+    const paid = item({
+      currency: 'USD',
+      status: 'paid',
+      actualAmount: 100,
+      paidAt: Date.parse('2026-02-01'),
+      paidExchangeRate: { from: 'USD', to: 'MYR', rate: 4.5, date: '2026-02-01' },
+    })
+    const result = await convertBudgetItems([paid], 'MYR', 'MYR', getRate, MARCH)
+    expect(result.items[0].actualAmount).toBe(450)
+  })
+
+  it('converts through the event currency into a reporting currency', async () => {
+    const result = await convertBudgetItems([item({ currency: 'SGD' })], 'MYR', 'USD', getRate, MARCH)
+    expect(result.currency).toBe('USD')
+    expect(result.items[0].estimatedAmount).toBe(80)
+  })
+
+  it('leaves out items with a missing rate and reports the pair', async () => {
+    const result = await convertBudgetItems(
+      [item({ currency: 'EUR' }), item({ _id: 'item2' as Id<'budgetItems'> })],
+      'MYR',
+      'MYR',
+      getRate,
+      MARCH
+    )
+    expect(result.items).toHaveLength(1)
+    expect(result.missingRates).toEqual(['EUR→MYR'])
+  })
+})
+
+describe('convertAmount', () => {
+  it('returns null without a rate', async () => {
+    expect(await convertAmount(100, 'MYR', 'USD', getRate, '2026-03-01')).toBe(20)
+    expect(await convertAmount(100, 'EUR', 'USD', getRate, '2026-03-01')).toBeNull()
+  })
+})
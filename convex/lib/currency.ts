@@ -0,0 +1,236 @@
+import type { MutationCtx, QueryCtx } from '../_generated/server'
+import type { Doc, Id } from '../_generated/dataModel'
+
+// ============================================================================
+// Currency Conversion
+// ============================================================================
+// Exchange rates are stored against BASE_CURRENCY (units of a currency per
+// 1 USD), one row per currency and effective date; admins maintain them in
+// exchangeRates.ts. Converting between two currencies goes through the base.
+//
+// A budget item without a currency is in its event's currency. Once an item
+// is paid, the rate from its paid date is kept on the item (paidExchangeRate)
+// so later rate edits don't change what was spent.
+
+export const BASE_CURRENCY = 'USD'
+
+// Used when an event or workspace has no currency set
+export const DEFAULT_CURRENCY = 'USD'
+
+export type RateResolver = (from: string, to: string, date: string) => Promise<number | null>
+
+/**
+ * Uppercase and validate an ISO 4217 currency code
+ */
+export function normalizeCurrency(code: string): string {
+  const currency = code.trim().toUpperCase()
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    throw new Error(`Invalid currency code: ${code}`)
+  }
+  return currency
+}
+
+/**
+ * The date (YYYY-MM-DD, UTC) used to pick the rate for a timestamp
+ */
+export function toRateDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10)
+}
+
+/**
+ * Check a rate table date is a real YYYY-MM-DD date
+ */
+export function isRateDate(date: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) && !Number.isNaN(Date.parse(`${date}T00:00:00Z`))
+}
+
+/**
+ * The currency an event's budget is kept in
+ */
+export function getEventCurrency(event: Pick<Doc<'events'>, 'budgetCurrency'>): string {
+  return event.budgetCurrency?.trim().toUpperCase() || DEFAULT_CURRENCY
+}
+
+/**
+ * The reporting currency of the event's workspace (personal workspaces use the default)
+ */
+export async function getReportingCurrency(
+  ctx: QueryCtx,
+  organizationId: Id<'organizations'> | undefined
+): Promise<string> {
+  const org = organizationId ? await ctx.db.get(organizationId) : null
+  return org?.reportingCurrency ?? DEFAULT_CURRENCY
+}
+
+/**
+ * Round a money amount to cents
+ */
+export function roundAmount(amount: number) {
+  return Math.round(amount * 100) / 100
+}
+
+// ============================================================================
+// Rate Lookup
+// ============================================================================
+
+/**
+ * Look up rates from the exchangeRates table, using the latest rate on or
+ * before the given date. Lookups are cached for the life of the resolver.
+ */
+export function createRateResolver(ctx: QueryCtx): RateResolver {
+  const cache = new Map<string, Promise<number | null>>()
+
+  const ratePerBase = (currency: string, date: string) => {
+    if (currency === BASE_CURRENCY) return Promise.resolve(1)
+
+    const key = `${currency}@${date}`
+    let rate = cache.get(key)
+    if (!rate) {
+      rate = ctx.db
+        .query('exchangeRates')
+        .withIndex('by_currency_date', (q) => q.eq('currency', currency).lte('effectiveDate', date))
+        .order('desc')
+        .first()
+        .then((row) => row?.rate ?? null)
+      cache.set(key, rate)
+    }
+    return rate
+  }
+
+  return async (from, to, date) => {
+    if (from === to) return 1
+    const [fromRate, toRate] = await Promise.all([ratePerBase(from, date), ratePerBase(to, date)])
+    if (!fromRate || !toRate) return null
+    return toRate / fromRate
+  }
+}
+
+// ============================================================================
+// Budget Conversion
+// ============================================================================
+
+export interface ConvertedBudgetItems {
+  currency: string
+  // Items with amounts in `currency`
+  items: Doc<'budgetItems'>[]
+  // Currency pairs with no rate (e.g. 'SGD→MYR'); those items are left out
+  missingRates: string[]
+}
+
+/**
+ * Convert budget item amounts into a target currency, going through the event
+ * currency. Paid items use the rate from their paid date, everything else
+ * today's rate.
+ */
+export async function convertBudgetItems(
+  items: Doc<'budgetItems'>[],
+  eventCurrency: string,
+  targetCurrency: string,
+  getRate: RateResolver,
+  now: number = Date.now()
+): Promise<ConvertedBudgetItems> {
+  const missing = new Set<string>()
+  const converted: Doc<'budgetItems'>[] = []
+
+  for (const item of items) {
+    const itemCurrency = item.currency ?? eventCurrency
+    const paid = item.status === 'paid' && item.paidAt !== undefined
+    const date = toRateDate(paid ? item.paidAt! : now)
+
+    let factor: number | null = 1
+    if (itemCurrency !== targetCurrency) {
+      const locked = item.paidExchangeRate
+      const toEvent =
+        itemCurrency === eventCurrency
+          ? 1
+          : paid && locked && locked.from === itemCurrency && locked.to === eventCurrency
+            ? locked.rate
+            : await getRate(itemCurrency, eventCurrency, date)
+      if (toEvent === null) missing.add(`${itemCurrency}→${eventCurrency}`)
+
+      const toTarget = await getRate(eventCurrency, targetCurrency, date)
+      if (toTarget === null) missing.add(`${eventCurrency}→${targetCurrency}`)
+
+      factor = toEvent !== null && toTarget !== null ? toEvent * toTarget : null
+    }
+
+    if (factor === null) continue
+
+    converted.push({
+      ...item,
+      estimatedAmount: roundAmount(item.estimatedAmount * factor),
+      actualAmount: item.actualAmount === undefined ? undefined : roundAmount(item.actualAmount * factor),
+    })
+  }
+
+  return { currency: targetCurrency, items: converted, missingRates: [...missing] }
+}
+
+/**
+ * Convert a single amount, e.g. an event budget. Returns null if a rate is missing.
+ */
+export async function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  getRate: RateResolver,
+  date: string = toRateDate(Date.now())
+): Promise<number | null> {
+  const rate = await getRate(from, to, date)
+  return rate === null ? null : roundAmount(amount * rate)
+}
+
+/**
+ * Keep the paid-date rate on a paid budget item in a foreign currency.
+ * Clears it if the item is no longer paid or is in the event currency.
+ * Call after any write that can change the item's status, paid date or currency.
+ */
+export async function lockPaidExchangeRate(
+  ctx: MutationCtx,
+  event: Doc<'events'>,
+  itemId: Id<'budgetItems'>
+) {
+  const item = await ctx.db.get(itemId)
+  if (!item) return
+
+  const eventCurrency = getEventCurrency(event)
+  const itemCurrency = item.currency ?? eventCurrency
+
+  if (item.status !== 'paid' || item.paidAt === undefined || itemCurrency === eventCurrency) {
+    if (item.paidExchangeRate) {
+      await ctx.db.patch(itemId, { paidExchangeRate: undefined })
+    }
+    return
+  }
+
+  const date = toRateDate(item.paidAt)
+  const locked = item.paidExchangeRate
+  if (locked && locked.from === itemCurrency && locked.to === eventCurrency && locked.date === date) {
+    return
+  }
+
+  // Without a rate for that date the item converts at lookup time until one is added
+  const rate = await createRateResolver(ctx)(itemCurrency, eventCurrency, date)
+  await ctx.db.patch(itemId, {
+    paidExchangeRate: rate === null ? undefined : { from: itemCurrency, to: eventCurrency, rate, date },
+  })
+}
+
+/**
+ * Re-lock paid-date rates on every paid item of an event, e.g. after its
+ * budget currency changes
+ */
+export async function relockPaidExchangeRates(ctx: MutationCtx, eventId: Id<'events'>) {
+  const event = await ctx.db.get(eventId)
+  if (!event) return
+
+  const paidItems = await ctx.db
+    .query('budgetItems')
+    .withIndex('by_event', (q) => q.eq('eventId', eventId))
+    .filter((q) => q.eq(q.field('status'), 'paid'))
+    .collect()
+
+  for (const item of paidItems) {
+    await lockPaidExchangeRate(ctx, event, item._id)
+  }
+}
@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DIRECTORY_IMPORT_LIMIT,
+  companyNameKey,
+  createDuplicateFinder,
+  emailDomain,
+  mergeImportedFields,
+  parseSponsorImportRows,
+  parseVendorImportRows,
+  websiteDomain,
+} from './directoryImport'
+
+const VENDOR_OPTIONS = { categories: ['catering', 'av'], priceRanges: ['budget', 'mid', 'premium'] }
+const SPONSOR_OPTIONS = { industries: ['technology', 'food_beverage'], tiers: ['gold', 'silver'] }
+
+describe('companyNameKey', () => {
+  it('ignores case, punctuation and legal suffixes', () => {
+    expect(companyNameKey('Acme Catering, Inc.')).toBe('acme catering')
+    expect(companyNameKey('ACME CATERING LLC')).toBe('acme catering')
+    expect(companyNameKey('Salt & Pepper Co')).toBe('salt and pepper')
+  })
+})
+
+describe('websiteDomain / emailDomain', () => {
+  it('reduces addresses to the company domain', () => {
+    expect(websiteDomain('https://www.acme.com/about?x=1')).toBe('acme.com')
+    expect(websiteDomain('acme.com')).toBe('acme.com')
+    expect(websiteDomain('localhost')).toBeUndefined()
+    expect(emailDomain('Jane@Acme.com')).toBe('acme.com')
+  })
+
+  it('ignores free mailbox providers', () => {
+    expect(emailDomain('jane@gmail.com')).toBeUndefined()
+  })
+})
+
+describe('createDuplicateFinder', () => {
+  const finder = createDuplicateFinder([
+    { _id: 'v1', name: 'Acme Catering Inc', website: 'https://acme.com' },
+    { _id: 'v2', name: 'Bolt AV', contactEmail: 'sales@boltav.io' },
+  ])
+
+  it('matches by name, website and email domain', () => {
+    expect(finder.find({ name: 'acme catering' })).toEqual([{ id: 'v1', name: 'Acme Catering Inc', reasons: ['name'] }])
+    expect(finder.find({ name: 'Other', contactEmail: 'jo@acme.com' })).toEqual([
+      { id: 'v1', name: 'Acme Catering Inc', reasons: ['email_domain'] },
+    ])
+    expect(finder.find({ name: 'Bolt Audio', website: 'www.boltav.io' })).toEqual([
+      { id: 'v2', name: 'Bolt AV', reasons: ['website'] },
+    ])
+  })
+
+  it('collects every reason for the same record', () => {
+    expect(finder.find({ name: 'Acme Catering', website: 'acme.com', contactEmail: 'a@acme.com' })[0].reasons).toEqual([
+      'name',
+      'website',
+      'email_domain',
+    ])
+  })
+
+  it('does not match on free email domains or unrelated records', () => {
+    finder.add({ _id: 'v3', name: 'Solo Chef', contactEmail: 'chef@gmail.com' })
+    expect(finder.find({ name: 'Another Chef', contactEmail: 'other@gmail.com' })).toEqual([])
+  })
+})
+
+describe('parseVendorImportRows', () => {
+  it('maps a row onto the vendor profile fields', () => {
+    const [result] = parseVendorImportRows(
+      [
+        {
+          rowNumber: 2,
+          name: ' Acme Catering ',
+          category: 'Catering',
+          services: 'Buffet; Plated',
+          website: 'acme.com',
+          contactEmail: 'Jane@Acme.com',
+          requiresDeposit: 'yes',
+          netDays: '30',
+          teamSize: '12',
+        },
+      ],
+      VENDOR_OPTIONS
+    )
+
+    expect(result.errors).toEqual([])
+    expect(result.value).toEqual({
+      name: 'Acme Catering',
+      category: 'catering',
+      services: ['Buffet', 'Plated'],
+      website: 'https://acme.com',
+      contactEmail: 'jane@acme.com',
+      paymentTerms: { requiresDeposit: true, netDays: 30 },
+      capacity: { teamSize: 12 },
+    })
+  })
+
+  it('reports every problem in a row', () => {
+    const [result] = parseVendorImportRows(
+      [{ rowNumber: 3, category: 'florist', contactEmail: 'nope', depositPercentage: '150', yearFounded: '3000' }],
+      VENDOR_OPTIONS
+    )
+
+    expect(result.value).toBeUndefined()
+    expect(result.errors).toEqual([
+      'Name is required',
+      'Unknown category "florist". Use one of: catering, av',
+      'Contact email "nope" is not an email address',
+      'Year founded must be a whole number (got "3000")',
+      'Deposit percentage must be a number (got "150")',
+    ])
+  })
+
+  it('rejects files over the row limit', () => {
+    const rows = Array.from({ length: DIRECTORY_IMPORT_LIMIT + 1 }, (_, i) => ({ rowNumber: i + 2 }))
+    expect(() => parseVendorImportRows(rows, VENDOR_OPTIONS)).toThrow('limited to')
+  })
+})
+
+describe('parseSponsorImportRows', () => {
+  it('maps tiers, budgets and payment terms', () => {
+    const [result] = parseSponsorImportRows(
+      [
+        {
+          rowNumber: 2,
+          name: 'Fizz Drinks',
+          industry: 'Food & Beverage',
+          sponsorshipTiers: 'Gold, silver, gold',
+          budgetMin: '$5,000',
+          budgetMax: '20000',
+          paymentCurrency: 'usd',
+        },
+      ],
+      SPONSOR_OPTIONS
+    )
+
+    expect(result.errors).toEqual([])
+    expect(result.value).toEqual({
+      name: 'Fizz Drinks',
+      industry: 'food_beverage',
+      sponsorshipTiers: ['gold', 'silver'],
+      budgetMin: 5000,
+      budgetMax: 20000,
+      paymentTerms: { currency: 'USD' },
+    })
+  })
+
+  it('checks the budget range and tiers', () => {
+    const [result] = parseSponsorImportRows(
+      [{ rowNumber: 4, name: 'Fizz', industry: 'technology', sponsorshipTiers: 'diamond', budgetMin: '9', budgetMax: '1' }],
+      SPONSOR_OPTIONS
+    )
+
+    expect(result.errors).toEqual([
+      'Unknown sponsorship tier "diamond". Use one of: gold, silver',
+      'Minimum budget is more than the maximum budget',
+    ])
+  })
+
+  it('reads decimal-comma budgets', () => {
+    const [result] = parseSponsorImportRows(
+      [{ rowNumber: 2, name: 'Fizz', industry: 'technology', budgetMin: '1.250,50', budgetMax: '20.000' }],
+      { ...SPONSOR_OPTIONS, decimalSeparator: ',' }
+    )
+
+    expect(result.errors).toEqual([])
+    expect(result.value).toMatchObject({ budgetMin: 1250.5, budgetMax: 20000 })
+  })
+})
+
+describe('mergeImportedFields', () => {
+  it('fills blanks and extends lists without overwriting existing values', () => {
+    const patch = mergeImportedFields<Record<string, unknown>>(
+      {
+        name: 'Acme Catering',
+        description: '',
+        services: ['Buffet'],
+        contactEmail: 'old@acme.com',
+        paymentTerms: { netDays: 15 },
+      },
+      {
+        name: 'ACME CATERING LLC',
+        description: 'Event catering',
+        services: ['buffet', 'Plated'],
+        contactEmail: 'new@acme.com',
+        paymentTerms: { netDays: 30, requiresDeposit: true },
+      }
+    )
+
+    expect(patch).toEqual({
+      description: 'Event catering',
+      services: ['Buffet', 'Plated'],
+      paymentTerms: { netDays: 15, requiresDeposit: true },
+    })
+  })
+
+  it('returns an empty patch when nothing is new', () => {
+    expect(mergeImportedFields({ name: 'Acme', services: ['Buffet'] }, { name: 'Acme', services: ['BUFFET'] })).toEqual({})
+  })
+})
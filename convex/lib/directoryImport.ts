@@ -0,0 +1,459 @@
+import type { Doc } from '../_generated/dataModel'
+import { matchImportOption, parseImportAmount, type DecimalSeparator } from './planningImport'
+
+// ============================================================================
+// Vendor & Sponsor Directory Import
+// ============================================================================
+// Admins import vendors and sponsors in bulk from CSV or JSON. The app maps
+// each row onto flat fields (every cell as text); these helpers turn a row
+// into the enterprise fields, spot records that are probably already in the
+// directory, and merge an imported row into an existing record.
+
+// Most rows one import can carry (keeps each import inside one mutation)
+export const DIRECTORY_IMPORT_LIMIT = 500
+
+export type DuplicateReason = 'name' | 'website' | 'email_domain'
+
+export interface DirectoryRecord {
+  _id: string
+  name: string
+  website?: string
+  contactEmail?: string
+}
+
+export interface DuplicateMatch {
+  id: string
+  name: string
+  reasons: DuplicateReason[]
+}
+
+export interface DirectoryRowResult<T> {
+  rowNumber: number
+  value?: T
+  errors: string[]
+}
+
+type VendorRowFields =
+  | 'name'
+  | 'category'
+  | 'description'
+  | 'services'
+  | 'location'
+  | 'priceRange'
+  | 'contactName'
+  | 'contactEmail'
+  | 'contactPhone'
+  | 'website'
+  | 'logoUrl'
+  | 'companySize'
+  | 'yearFounded'
+  | 'headquarters'
+  | 'acceptedPaymentMethods'
+  | 'requiresDeposit'
+  | 'depositPercentage'
+  | 'netDays'
+  | 'maxEventsPerMonth'
+  | 'teamSize'
+  | 'serviceArea'
+  | 'applicationNotes'
+
+type SponsorRowFields =
+  | 'name'
+  | 'industry'
+  | 'description'
+  | 'sponsorshipTiers'
+  | 'budgetMin'
+  | 'budgetMax'
+  | 'targetEventTypes'
+  | 'targetAudience'
+  | 'contactName'
+  | 'contactEmail'
+  | 'contactPhone'
+  | 'website'
+  | 'logoUrl'
+  | 'companySize'
+  | 'yearFounded'
+  | 'headquarters'
+  | 'deliverablesOffered'
+  | 'preferredPaymentMethod'
+  | 'netDays'
+  | 'paymentCurrency'
+  | 'applicationNotes'
+
+export type VendorImportRow = { rowNumber: number } & Partial<Record<VendorRowFields, string>>
+export type SponsorImportRow = { rowNumber: number } & Partial<Record<SponsorRowFields, string>>
+
+export type ImportedVendor = Pick<Doc<'vendors'>, 'name' | 'category'> &
+  Partial<
+    Pick<
+      Doc<'vendors'>,
+      | 'description'
+      | 'services'
+      | 'location'
+      | 'priceRange'
+      | 'contactName'
+      | 'contactEmail'
+      | 'contactPhone'
+      | 'website'
+      | 'logoUrl'
+      | 'companySize'
+      | 'yearFounded'
+      | 'headquarters'
+      | 'paymentTerms'
+      | 'capacity'
+      | 'applicationNotes'
+    >
+  >
+
+export type ImportedSponsor = Pick<Doc<'sponsors'>, 'name' | 'industry'> &
+  Partial<
+    Pick<
+      Doc<'sponsors'>,
+      | 'description'
+      | 'sponsorshipTiers'
+      | 'budgetMin'
+      | 'budgetMax'
+      | 'targetEventTypes'
+      | 'targetAudience'
+      | 'contactName'
+      | 'contactEmail'
+      | 'contactPhone'
+      | 'website'
+      | 'logoUrl'
+      | 'companySize'
+      | 'yearFounded'
+      | 'headquarters'
+      | 'deliverablesOffered'
+      | 'paymentTerms'
+      | 'applicationNotes'
+    >
+  >
+
+// Mailbox providers, whose domains say nothing about the company
+const FREE_EMAIL_DOMAINS = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'hotmail.com',
+  'outlook.com',
+  'live.com',
+  'icloud.com',
+  'me.com',
+  'aol.com',
+  'proton.me',
+  'protonmail.com',
+])
+
+// Legal suffixes dropped when comparing company names
+const COMPANY_SUFFIXES = /\b(inc|incorporated|llc|llp|ltd|limited|corp|corporation|co|company|gmbh|plc|pte|pty|sdn|bhd|bv|sa|ag)\b/g
+
+// ============================================================================
+// Duplicate Detection
+// ============================================================================
+
+/**
+ * Company name for comparison: lowercase, no punctuation or legal suffix
+ */
+export function companyNameKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(COMPANY_SUFFIXES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Host of a website without "www.", e.g. "acme.com"
+ */
+export function websiteDomain(website: string | undefined): string | undefined {
+  const value = website?.trim().toLowerCase()
+  if (!value) return undefined
+  const host = value.replace(/^[a-z]+:\/\//, '').split(/[/?#:]/)[0].replace(/^www\./, '')
+  return host.includes('.') ? host : undefined
+}
+
+/**
+ * Domain of a company email address; undefined for free mailbox providers
+ */
+export function emailDomain(email: string | undefined): string | undefined {
+  const domain = email?.trim().toLowerCase().split('@')[1]
+  return domain && domain.includes('.') && !FREE_EMAIL_DOMAINS.has(domain) ? domain : undefined
+}
+
+/**
+ * Look up likely duplicates by company name, website domain, or email domain
+ * (an email domain also matches a record's website)
+ */
+export function createDuplicateFinder(records: DirectoryRecord[]) {
+  const byName = new Map<string, DirectoryRecord[]>()
+  const byDomain = new Map<string, DirectoryRecord[]>()
+  const push = <K, V>(map: Map<K, V[]>, key: K | undefined, value: V) => {
+    if (key) map.set(key, [...(map.get(key) ?? []), value])
+  }
+
+  const add = (record: DirectoryRecord) => {
+    push(byName, companyNameKey(record.name) || undefined, record)
+    push(byDomain, websiteDomain(record.website), record)
+    push(byDomain, emailDomain(record.contactEmail), record)
+  }
+  records.forEach(add)
+
+  const find = (candidate: Omit<DirectoryRecord, '_id'>): DuplicateMatch[] => {
+    const matches = new Map<string, DuplicateMatch>()
+    const match = (record: DirectoryRecord, reason: DuplicateReason) => {
+      const existing = matches.get(record._id) ?? { id: record._id, name: record.name, reasons: [] }
+      if (!existing.reasons.includes(reason)) existing.reasons.push(reason)
+      matches.set(record._id, existing)
+    }
+
+    for (const record of byName.get(companyNameKey(candidate.name)) ?? []) match(record, 'name')
+    for (const record of byDomain.get(websiteDomain(candidate.website) ?? '') ?? []) match(record, 'website')
+    for (const record of byDomain.get(emailDomain(candidate.contactEmail) ?? '') ?? []) match(record, 'email_domain')
+
+    return [...matches.values()]
+  }
+
+  return { find, add }
+}
+
+// ============================================================================
+// Row Parsing
+// ============================================================================
+
+function text(raw: string | undefined): string | undefined {
+  const trimmed = raw?.trim()
+  return trimmed ? trimmed : undefined
+}
+
+function list(raw: string | undefined): string[] | undefined {
+  const items = raw
+    ?.split(/[;,|\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean)
+  return items && items.length > 0 ? items : undefined
+}
+
+/**
+ * Drop undefined values; undefined when nothing is left
+ */
+function compact<T extends Record<string, unknown>>(value: T): T | undefined {
+  const entries = Object.entries(value).filter(([, v]) => v !== undefined)
+  return entries.length > 0 ? (Object.fromEntries(entries) as T) : undefined
+}
+
+/**
+ * Field parsers that collect a row's problems in errors
+ */
+function createRowParser(decimalSeparator?: DecimalSeparator) {
+  const errors: string[] = []
+
+  const parser = {
+    errors,
+
+    required(raw: string | undefined, field: string): string {
+      const value = text(raw)
+      if (!value) errors.push(`${field} is required`)
+      else if (value.length > 200) errors.push(`${field} must be 200 characters or less`)
+      return value ?? ''
+    },
+
+    option(raw: string | undefined, field: string, options: readonly string[]): string | undefined {
+      if (!text(raw)) return undefined
+      const value = matchImportOption(raw!, options)
+      if (!value) errors.push(`Unknown ${field} "${raw!.trim()}". Use one of: ${options.join(', ')}`)
+      return value
+    },
+
+    options(raw: string | undefined, field: string, options: readonly string[]): string[] | undefined {
+      const values = list(raw)?.map((item) => parser.option(item, field, options))
+      return values?.every(Boolean) ? [...new Set(values as string[])] : undefined
+    },
+
+    number(raw: string | undefined, field: string, { integer = false, max = Infinity } = {}): number | undefined {
+      if (!text(raw)) return undefined
+      const value = parseImportAmount(raw!, decimalSeparator)
+      if (value === undefined || value < 0 || value > max || (integer && !Number.isInteger(value))) {
+        errors.push(`${field} must be a ${integer ? 'whole number' : 'number'} (got "${raw!.trim()}")`)
+        return undefined
+      }
+      return value
+    },
+
+    boolean(raw: string | undefined, field: string): boolean | undefined {
+      const value = text(raw)?.toLowerCase()
+      if (!value) return undefined
+      if (['yes', 'y', 'true', '1'].includes(value)) return true
+      if (['no', 'n', 'false', '0'].includes(value)) return false
+      errors.push(`${field} must be yes or no (got "${raw!.trim()}")`)
+      return undefined
+    },
+
+    email(raw: string | undefined): string | undefined {
+      const value = text(raw)?.toLowerCase()
+      if (value && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+        errors.push(`Contact email "${raw!.trim()}" is not an email address`)
+        return undefined
+      }
+      return value
+    },
+
+    website(raw: string | undefined): string | undefined {
+      const value = text(raw)
+      if (!value) return undefined
+      const url = /^https?:\/\//i.test(value) ? value : `https://${value}`
+      if (!websiteDomain(url)) {
+        errors.push(`Website "${value}" is not a web address`)
+        return undefined
+      }
+      return url
+    },
+
+    year(raw: string | undefined): number | undefined {
+      return parser.number(raw, 'Year founded', { integer: true, max: new Date().getFullYear() })
+    },
+  }
+
+  return parser
+}
+
+function checkRowLimit(count: number) {
+  if (count > DIRECTORY_IMPORT_LIMIT) {
+    throw new Error(
+      `Imports are limited to ${DIRECTORY_IMPORT_LIMIT} rows. Split the file and import it in parts.`
+    )
+  }
+}
+
+/**
+ * Check and convert vendor rows onto the vendor profile fields
+ */
+export function parseVendorImportRows(
+  rows: VendorImportRow[],
+  options: { categories: readonly string[]; priceRanges: readonly string[]; decimalSeparator?: DecimalSeparator }
+): DirectoryRowResult<ImportedVendor>[] {
+  checkRowLimit(rows.length)
+
+  return rows.map((row) => {
+    const parse = createRowParser(options.decimalSeparator)
+    const value: ImportedVendor = {
+      name: parse.required(row.name, 'Name'),
+      category: parse.option(row.category, 'category', options.categories) ?? '',
+      description: text(row.description),
+      services: list(row.services),
+      location: text(row.location),
+      priceRange: parse.option(row.priceRange, 'price range', options.priceRanges),
+      contactName: text(row.contactName),
+      contactEmail: parse.email(row.contactEmail),
+      contactPhone: text(row.contactPhone),
+      website: parse.website(row.website),
+      logoUrl: text(row.logoUrl),
+      companySize: text(row.companySize),
+      yearFounded: parse.year(row.yearFounded),
+      headquarters: text(row.headquarters),
+      paymentTerms: compact({
+        acceptedMethods: list(row.acceptedPaymentMethods)?.map((m) => m.toLowerCase()),
+        requiresDeposit: parse.boolean(row.requiresDeposit, 'Requires deposit'),
+        depositPercentage: parse.number(row.depositPercentage, 'Deposit percentage', { max: 100 }),
+        netDays: parse.number(row.netDays, 'Net days', { integer: true }),
+      }),
+      capacity: compact({
+        maxEventsPerMonth: parse.number(row.maxEventsPerMonth, 'Max events per month', { integer: true }),
+        teamSize: parse.number(row.teamSize, 'Team size', { integer: true }),
+        serviceArea: text(row.serviceArea),
+      }),
+      applicationNotes: text(row.applicationNotes),
+    }
+    if (!text(row.category)) parse.errors.push('Category is required')
+
+    return parse.errors.length > 0
+      ? { rowNumber: row.rowNumber, errors: parse.errors }
+      : { rowNumber: row.rowNumber, errors: [], value: compact(value)! }
+  })
+}
+
+/**
+ * Check and convert sponsor rows onto the sponsor profile fields
+ */
+export function parseSponsorImportRows(
+  rows: SponsorImportRow[],
+  options: { industries: readonly string[]; tiers: readonly string[]; decimalSeparator?: DecimalSeparator }
+): DirectoryRowResult<ImportedSponsor>[] {
+  checkRowLimit(rows.length)
+
+  return rows.map((row) => {
+    const parse = createRowParser(options.decimalSeparator)
+    const value: ImportedSponsor = {
+      name: parse.required(row.name, 'Name'),
+      industry: parse.option(row.industry, 'industry', options.industries) ?? '',
+      description: text(row.description),
+      sponsorshipTiers: parse.options(row.sponsorshipTiers, 'sponsorship tier', options.tiers),
+      budgetMin: parse.number(row.budgetMin, 'Minimum budget'),
+      budgetMax: parse.number(row.budgetMax, 'Maximum budget'),
+      targetEventTypes: list(row.targetEventTypes),
+      targetAudience: text(row.targetAudience),
+      contactName: text(row.contactName),
+      contactEmail: parse.email(row.contactEmail),
+      contactPhone: text(row.contactPhone),
+      website: parse.website(row.website),
+      logoUrl: text(row.logoUrl),
+      companySize: text(row.companySize),
+      yearFounded: parse.year(row.yearFounded),
+      headquarters: text(row.headquarters),
+      deliverablesOffered: list(row.deliverablesOffered),
+      paymentTerms: compact({
+        preferredMethod: text(row.preferredPaymentMethod)?.toLowerCase(),
+        netDays: parse.number(row.netDays, 'Net days', { integer: true }),
+        currency: text(row.paymentCurrency)?.toUpperCase(),
+      }),
+      applicationNotes: text(row.applicationNotes),
+    }
+    if (!text(row.industry)) parse.errors.push('Industry is required')
+    if (value.budgetMin !== undefined && value.budgetMax !== undefined && value.budgetMin > value.budgetMax) {
+      parse.errors.push('Minimum budget is more than the maximum budget')
+    }
+
+    return parse.errors.length > 0
+      ? { rowNumber: row.rowNumber, errors: parse.errors }
+      : { rowNumber: row.rowNumber, errors: [], value: compact(value)! }
+  })
+}
+
+// ============================================================================
+// Merging
+// ============================================================================
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+/**
+ * The patch that merges an imported row into an existing record. Existing
+ * values win: blanks are filled in, lists gain new entries and nested terms
+ * gain missing keys. Returns only the fields that change.
+ */
+export function mergeImportedFields<T extends Record<string, unknown>>(
+  existing: Partial<T>,
+  incoming: Partial<T>
+): Partial<T> {
+  const patch: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(incoming)) {
+    if (isBlank(value)) continue
+    const current = existing[key as keyof T] as unknown
+
+    if (isBlank(current)) {
+      patch[key] = value
+    } else if (Array.isArray(current) && Array.isArray(value)) {
+      const seen = new Set(current.map((item) => String(item).toLowerCase()))
+      const added = value.filter((item) => !seen.has(String(item).toLowerCase()))
+      if (added.length > 0) patch[key] = [...current, ...added]
+    } else if (typeof current === 'object' && typeof value === 'object' && !Array.isArray(value)) {
+      const nested = mergeImportedFields(current as Record<string, unknown>, value as Record<string, unknown>)
+      if (Object.keys(nested).length > 0) patch[key] = { ...(current as object), ...nested }
+    }
+  }
+
+  return patch as Partial<T>
+}
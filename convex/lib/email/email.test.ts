@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  ConsoleTransport,
+  createEmailTransport,
+  invitationEmail,
+  MemoryTransport,
+  notificationEmail,
+  ResendTransport,
+} from './index'
+
+const details = {
+  to: 'sam@example.com',
+  inviterName: 'Alex <Ops>',
+  targetName: 'Summit 2026',
+  targetType: 'event' as const,
+  role: 'editor',
+  acceptUrl: 'https://app.example.com/invite/abc123',
+  expiresAt: Date.UTC(2026, 0, 8),
+}
+
+describe('invitationEmail', () => {
+  it('includes the accept link in text and html bodies', () => {
+    const message = invitationEmail(details)
+
+    expect(message.to).toBe('sam@example.com')
+    expect(message.subject).toContain('Summit 2026')
+    expect(message.text).toContain(details.acceptUrl)
+    expect(message.html).toContain(`href="${details.acceptUrl}"`)
+  })
+
+  it('describes vendor portal access without a role', () => {
+    const message = invitationEmail({ ...details, targetType: 'vendor', role: undefined })
+
+    expect(message.text).toContain('vendor portal')
+    expect(message.text).not.toContain(' as ')
+  })
+
+  it('names the sponsor portal for sponsor invites', () => {
+    const message = invitationEmail({ ...details, targetType: 'sponsor', role: undefined })
+
+    expect(message.text).toContain('sponsor portal')
+  })
+
+  it('escapes user-provided names in html', () => {
+    const message = invitationEmail(details)
+
+    expect(message.html).toContain('Alex &lt;Ops&gt;')
+    expect(message.html).not.toContain('<Ops>')
+  })
+})
+
+describe('notificationEmail', () => {
+  it('uses the title as subject and links to the app', () => {
+    const message = notificationEmail({
+      to: 'sam@example.com',
+      title: 'Task due soon: Book <venue>',
+      body: 'Summit 2026',
+      url: 'https://app.example.com/dashboard/events/e1/tasks',
+    })
+
+    expect(message.subject).toBe('Task due soon: Book <venue>')
+    expect(message.text).toContain('Summit 2026')
+    expect(message.html).toContain('href="https://app.example.com/dashboard/events/e1/tasks"')
+    expect(message.html).toContain('Book &lt;venue&gt;')
+  })
+})
+
+describe('ConsoleTransport', () => {
+  it('logs the recipient and subject but not the body', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    await new ConsoleTransport().send(invitationEmail(details))
+
+    const output = log.mock.calls.flat().join('\n')
+    log.mockRestore()
+    expect(output).toContain('sam@example.com')
+    expect(output).not.toContain(details.acceptUrl)
+  })
+})
+
+describe('MemoryTransport', () => {
+  it('records sent messages', async () => {
+    const transport = new MemoryTransport()
+    const result = await transport.send(invitationEmail(details))
+
+    expect(result.id).toBe('memory-1')
+    expect(transport.sent).toHaveLength(1)
+    expect(transport.sent[0].to).toBe('sam@example.com')
+
+    transport.clear()
+    expect(transport.sent).toHaveLength(0)
+  })
+})
+
+describe('ResendTransport', () => {
+  it('posts the message with the configured sender', async () => {
+    const calls: Array<{ url: string; init?: RequestInit }> = []
+    const fakeFetch = (async (url: string, init?: RequestInit) => {
+      calls.push({ url, init })
+      return new Response(JSON.stringify({ id: 'msg_1' }), { status: 200 })
+    }) as typeof fetch
+
+    const transport = new ResendTransport('re_test', { from: 'Events <events@example.com>', fetch: fakeFetch })
+    const result = await transport.send({ to: 'sam@example.com', subject: 'Hi', text: 'Hello' })
+
+    expect(result.id).toBe('msg_1')
+    expect(calls[0].url).toBe('https://api.resend.com/emails')
+    const body = JSON.parse(calls[0].init?.body as string)
+    expect(body.from).toBe('Events <events@example.com>')
+    expect(body.to).toEqual(['sam@example.com'])
+  })
+
+  it('throws on a failed response', async () => {
+    const fakeFetch = (async () => new Response('bad request', { status: 422 })) as typeof fetch
+    const transport = new ResendTransport('re_test', { from: 'a@example.com', fetch: fakeFetch })
+
+    await expect(transport.send({ to: 'x@example.com', subject: 's', text: 't' })).rejects.toThrow('422')
+  })
+})
+
+describe('createEmailTransport', () => {
+  it('falls back to the console transport without an API key', () => {
+    expect(createEmailTransport({}).name).toBe('console')
+    expect(createEmailTransport({ resendApiKey: 're_x' }).name).toBe('resend')
+  })
+})
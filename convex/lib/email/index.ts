@@ -0,0 +1,37 @@
+/**
+ * Email Module
+ *
+ * Pluggable email delivery. Uses Resend when AUTH_RESEND_KEY is set and
+ * falls back to logging; tests pass a MemoryTransport instead.
+ *
+ * @example
+ * import { createEmailTransport, invitationEmail } from './lib/email'
+ *
+ * const transport = createEmailTransport({ resendApiKey: process.env.AUTH_RESEND_KEY })
+ * await transport.send(invitationEmail(details))
+ */
+
+import { ConsoleTransport, ResendTransport } from './transports'
+import type { EmailTransport } from './types'
+
+const DEFAULT_FROM = 'Open Event <noreply@openevent.app>'
+
+export interface EmailConfig {
+  resendApiKey?: string
+  from?: string
+}
+
+/**
+ * Create the transport for the current configuration
+ */
+export function createEmailTransport(config: EmailConfig): EmailTransport {
+  if (config.resendApiKey) {
+    return new ResendTransport(config.resendApiKey, { from: config.from || DEFAULT_FROM })
+  }
+  return new ConsoleTransport()
+}
+
+export type { EmailMessage, EmailSendResult, EmailTransport } from './types'
+export { ResendTransport, ConsoleTransport, MemoryTransport } from './transports'
+export { invitationEmail, notificationEmail } from './templates'
+export type { InvitationEmailDetails, NotificationEmailDetails } from './templates'
@@ -0,0 +1,99 @@
+/**
+ * Email Templates
+ */
+
+import type { EmailMessage } from './types'
+
+export interface InvitationEmailDetails {
+  to: string
+  inviterName: string
+  /** Workspace, event, vendor or sponsor name */
+  targetName: string
+  targetType: 'organization' | 'event' | 'vendor' | 'sponsor'
+  /** Access level; unset for portal invites */
+  role?: string
+  acceptUrl: string
+  expiresAt: number
+}
+
+/**
+ * Escape text for safe interpolation into HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Describe what the invitation grants, e.g. `join the workspace "Acme" as editor`
+ */
+function describeAccess(details: InvitationEmailDetails, name: string): string {
+  if (details.targetType === 'vendor' || details.targetType === 'sponsor') {
+    return `manage ${name} on the Open Event ${details.targetType} portal`
+  }
+  const target = details.targetType === 'organization' ? 'workspace' : 'event'
+  return `join the ${target} ${name}${details.role ? ` as ${details.role}` : ''}`
+}
+
+/**
+ * Invitation to join a workspace, a single event team or a vendor/sponsor portal
+ */
+export function invitationEmail(details: InvitationEmailDetails): EmailMessage {
+  const expires = new Date(details.expiresAt).toUTCString()
+  const subject = `${details.inviterName} invited you to ${details.targetName} on Open Event`
+
+  const text = [
+    `${details.inviterName} invited you to ${describeAccess(details, `"${details.targetName}"`)}.`,
+    '',
+    `Accept the invitation: ${details.acceptUrl}`,
+    '',
+    `This link expires on ${expires}. If you weren't expecting it, you can ignore this email.`,
+  ].join('\n')
+
+  const html = [
+    `<p>${escapeHtml(details.inviterName)} invited you to ${describeAccess(
+      { ...details, role: details.role && escapeHtml(details.role) },
+      `<strong>${escapeHtml(details.targetName)}</strong>`
+    )}.</p>`,
+    `<p><a href="${escapeHtml(details.acceptUrl)}">Accept the invitation</a></p>`,
+    `<p style="color:#666;font-size:12px">This link expires on ${expires}. If you weren't expecting it, you can ignore this email.</p>`,
+  ].join('\n')
+
+  return { to: details.to, subject, text, html }
+}
+
+export interface NotificationEmailDetails {
+  to: string
+  title: string
+  body?: string
+  /** Full URL of the page the notification points at */
+  url?: string
+}
+
+/**
+ * Email copy of an in-app notification
+ */
+export function notificationEmail(details: NotificationEmailDetails): EmailMessage {
+  const footer = 'You can choose which notifications you get by email in Settings > Notifications.'
+
+  const text = [
+    details.title,
+    ...(details.body ? ['', details.body] : []),
+    ...(details.url ? ['', `Open Open Event: ${details.url}`] : []),
+    '',
+    footer,
+  ].join('\n')
+
+  const html = [
+    `<p><strong>${escapeHtml(details.title)}</strong></p>`,
+    ...(details.body ? [`<p>${escapeHtml(details.body)}</p>`] : []),
+    ...(details.url ? [`<p><a href="${escapeHtml(details.url)}">Open in Open Event</a></p>`] : []),
+    `<p style="color:#666;font-size:12px">${footer}</p>`,
+  ].join('\n')
+
+  return { to: details.to, subject: details.title, text, html }
+}
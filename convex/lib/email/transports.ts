@@ -0,0 +1,83 @@
+/**
+ * Email Transport Implementations
+ */
+
+import type { EmailMessage, EmailSendResult, EmailTransport } from './types'
+
+const RESEND_API_URL = 'https://api.resend.com/emails'
+
+export interface ResendTransportOptions {
+  from: string
+  fetch?: typeof fetch
+}
+
+/**
+ * Sends email through the Resend HTTP API.
+ */
+export class ResendTransport implements EmailTransport {
+  readonly name = 'resend'
+  private apiKey: string
+  private from: string
+  private fetchFn: typeof fetch
+
+  constructor(apiKey: string, options: ResendTransportOptions) {
+    this.apiKey = apiKey
+    this.from = options.from
+    this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init))
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const response = await this.fetchFn(RESEND_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '')
+      throw new Error(`Email send failed (${response.status}): ${errorText.substring(0, 500)}`)
+    }
+
+    const data = (await response.json().catch(() => ({}))) as { id?: string }
+    return { id: data.id }
+  }
+}
+
+/**
+ * Logs that an email would have been sent. Used when no provider is
+ * configured. The body is left out since it can hold invite links.
+ */
+export class ConsoleTransport implements EmailTransport {
+  readonly name = 'console'
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    console.log(`[email] To: ${message.to} | Subject: ${message.subject}`)
+    return {}
+  }
+}
+
+/**
+ * Collects email in memory so tests can assert on what was sent.
+ */
+export class MemoryTransport implements EmailTransport {
+  readonly name = 'memory'
+  readonly sent: EmailMessage[] = []
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    this.sent.push(message)
+    return { id: `memory-${this.sent.length}` }
+  }
+
+  clear() {
+    this.sent.length = 0
+  }
+}
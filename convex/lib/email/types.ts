@@ -0,0 +1,23 @@
+/**
+ * Email Transport Types
+ *
+ * Outgoing email goes through an EmailTransport so the delivery backend
+ * (Resend, console, in-memory sink for tests) can be swapped freely.
+ */
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface EmailSendResult {
+  /** Provider message ID, when the transport returns one */
+  id?: string
+}
+
+export interface EmailTransport {
+  readonly name: string
+  send(message: EmailMessage): Promise<EmailSendResult>
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import type { Doc, Id } from '../_generated/dataModel'
+import { sortTasks, summarizeBudget, summarizeTasks } from './eventPlanning'
+
+const eventId = 'event1' as Id<'events'>
+const DAY = 24 * 60 * 60 * 1000
+
+function task(id: string, fields: Partial<Doc<'eventTasks'>>): Doc<'eventTasks'> {
+  return {
+    _id: id as Id<'eventTasks'>,
+    _creationTime: 0,
+    eventId,
+    title: id,
+    priority: 'medium',
+    status: 'todo',
+    createdAt: 0,
+    ...fields,
+  }
+}
+
+function budgetItem(id: string, fields: Partial<Doc<'budgetItems'>>): Doc<'budgetItems'> {
+  return {
+    _id: id as Id<'budgetItems'>,
+    _creationTime: 0,
+    eventId,
+    category: 'venue',
+    name: id,
+    estimatedAmount: 0,
+    status: 'planned',
+    createdAt: 0,
+    ...fields,
+  }
+}
+
+describe('sortTasks', () => {
+  it('orders by sortOrder, then priority, then due date', () => {
+    const sorted = sortTasks([
+      task('b', { sortOrder: 2 }),
+      task('a', { sortOrder: 1 }),
+    ])
+    expect(sorted.map((t) => t._id)).toEqual(['a', 'b'])
+
+    const unordered = sortTasks([
+      task('low', { priority: 'low' }),
+      task('later', { priority: 'urgent', dueDate: 2000 }),
+      task('sooner', { priority: 'urgent', dueDate: 1000 }),
+    ])
+    expect(unordered.map((t) => t._id)).toEqual(['sooner', 'later', 'low'])
+  })
+})
+
+describe('summarizeTasks', () => {
+  it('counts statuses, overdue and urgent work', () => {
+    const now = new Date(2026, 5, 10, 12).getTime()
+    const summary = summarizeTasks(
+      [
+        task('done', { status: 'completed', dueDate: now - DAY }),
+        task('late', { status: 'in_progress', dueDate: now - DAY }),
+        task('soon', { priority: 'urgent', dueDate: now + 2 * DAY }),
+        task('blocked', { status: 'blocked' }),
+      ],
+      now
+    )
+
+    expect(summary.total).toBe(4)
+    expect(summary.byStatus).toEqual({ todo: 1, in_progress: 1, blocked: 1, completed: 1 })
+    expect(summary.overdue).toBe(1)
+    expect(summary.dueThisWeek).toBe(1)
+    expect(summary.urgent).toBe(1)
+    expect(summary.completionRate).toBe(25)
+  })
+})
+
+describe('summarizeBudget', () => {
+  it('excludes cancelled items and splits totals by status', () => {
+    const summary = summarizeBudget(
+      [
+        budgetItem('hall', { estimatedAmount: 1000, actualAmount: 1200, status: 'paid' }),
+        budgetItem('food', { category: 'catering', estimatedAmount: 500, status: 'committed' }),
+        budgetItem('band', { category: 'entertainment', estimatedAmount: 300, status: 'cancelled' }),
+      ],
+      2000
+    )
+
+    expect(summary.itemCount).toBe(2)
+    expect(summary.totalEstimated).toBe(1500)
+    expect(summary.totalPaid).toBe(1200)
+    expect(summary.totalCommitted).toBe(500)
+    expect(summary.remaining).toBe(500)
+    expect(summary.byCategory.entertainment).toBeUndefined()
+    expect(summary.byCategory.venue).toEqual({ estimated: 1000, actual: 1200, count: 1 })
+  })
+})
@@ -0,0 +1,254 @@
+import type { MutationCtx, QueryCtx } from '../_generated/server'
+import type { Doc, Id } from '../_generated/dataModel'
+import { internal } from '../_generated/api'
+import {
+  convertAmount,
+  convertBudgetItems,
+  createRateResolver,
+  getEventCurrency,
+  getReportingCurrency,
+} from './currency'
+import { notify } from './notifications'
+import { canAccessEvent } from './organizations'
+
+// ============================================================================
+// Event Planning Helpers
+// ============================================================================
+// Shared by the session mutations (eventTasks.ts, budgetItems.ts) and the
+// API key endpoints (api/planning.ts) so both stay in step.
+
+export const TASK_STATUSES = ['todo', 'in_progress', 'blocked', 'completed'] as const
+export const TASK_PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const
+export const BUDGET_ITEM_STATUSES = ['planned', 'committed', 'paid', 'cancelled'] as const
+
+export type TaskStatus = (typeof TASK_STATUSES)[number]
+export type TaskPriority = (typeof TASK_PRIORITIES)[number]
+export type BudgetItemStatus = (typeof BUDGET_ITEM_STATUSES)[number]
+
+/**
+ * Sort tasks by sortOrder, then priority (urgent first), then due date
+ */
+export function sortTasks(tasks: Doc<'eventTasks'>[]) {
+  const priorityOrder = { urgent: 0, high: 1, medium: 2, low: 3 }
+  return [...tasks].sort((a, b) => {
+    // First by sortOrder if both have it
+    if (a.sortOrder !== undefined && b.sortOrder !== undefined) {
+      return a.sortOrder - b.sortOrder
+    }
+    // Then by priority
+    const priorityDiff = priorityOrder[a.priority] - priorityOrder[b.priority]
+    if (priorityDiff !== 0) return priorityDiff
+    // Then by due date (tasks without due date go last)
+    if (a.dueDate && b.dueDate) return a.dueDate - b.dueDate
+    if (a.dueDate) return -1
+    if (b.dueDate) return 1
+    return 0
+  })
+}
+
+/**
+ * Task rollup for an event: counts by status, overdue, due this week, completion rate
+ */
+export function summarizeTasks(tasks: Doc<'eventTasks'>[], now: number = Date.now()) {
+  const today = new Date(now)
+  today.setHours(0, 0, 0, 0)
+  const todayTs = today.getTime()
+  const weekFromNow = todayTs + 7 * 24 * 60 * 60 * 1000
+
+  const byStatus = {
+    todo: tasks.filter((t) => t.status === 'todo').length,
+    in_progress: tasks.filter((t) => t.status === 'in_progress').length,
+    blocked: tasks.filter((t) => t.status === 'blocked').length,
+    completed: tasks.filter((t) => t.status === 'completed').length,
+  }
+
+  const overdue = tasks.filter(
+    (t) => t.dueDate && t.dueDate < now && t.status !== 'completed'
+  ).length
+
+  const dueThisWeek = tasks.filter(
+    (t) => t.dueDate && t.dueDate >= todayTs && t.dueDate <= weekFromNow && t.status !== 'completed'
+  ).length
+
+  const urgent = tasks.filter(
+    (t) => t.priority === 'urgent' && t.status !== 'completed'
+  ).length
+
+  const completionRate = tasks.length > 0
+    ? Math.round((byStatus.completed / tasks.length) * 100)
+    : 0
+
+  return {
+    total: tasks.length,
+    byStatus,
+    overdue,
+    dueThisWeek,
+    urgent,
+    completionRate,
+  }
+}
+
+/**
+ * Budget rollup for an event. Cancelled items are excluded from every total.
+ * Amounts must already be in one currency (see summarizeEventBudget).
+ */
+export function summarizeBudget(items: Doc<'budgetItems'>[], eventBudget: number = 0) {
+  const activeItems = items.filter((i) => i.status !== 'cancelled')
+
+  const totalEstimated = activeItems.reduce((sum, i) => sum + i.estimatedAmount, 0)
+  const totalActual = activeItems.reduce((sum, i) => sum + (i.actualAmount || 0), 0)
+  const totalPaid = activeItems
+    .filter((i) => i.status === 'paid')
+    .reduce((sum, i) => sum + (i.actualAmount || i.estimatedAmount), 0)
+  const totalCommitted = activeItems
+    .filter((i) => i.status === 'committed')
+    .reduce((sum, i) => sum + (i.actualAmount || i.estimatedAmount), 0)
+
+  // Group by category
+  const byCategory = activeItems.reduce(
+    (acc, item) => {
+      if (!acc[item.category]) {
+        acc[item.category] = { estimated: 0, actual: 0, count: 0 }
+      }
+      acc[item.category].estimated += item.estimatedAmount
+      acc[item.category].actual += item.actualAmount || 0
+      acc[item.category].count += 1
+      return acc
+    },
+    {} as Record<string, { estimated: number; actual: number; count: number }>
+  )
+
+  return {
+    totalEstimated,
+    totalActual,
+    totalPaid,
+    totalCommitted,
+    totalPlanned: totalEstimated - totalPaid - totalCommitted,
+    variance: totalActual - totalEstimated,
+    variancePercent: totalEstimated > 0 ? ((totalActual - totalEstimated) / totalEstimated) * 100 : 0,
+    itemCount: activeItems.length,
+    byCategory,
+    eventBudget,
+    remaining: eventBudget - totalEstimated,
+  }
+}
+
+/**
+ * Budget rollup for an event in the event currency, with the main totals also
+ * converted to the workspace reporting currency. Items whose exchange rate is
+ * missing are left out of the totals and listed in missingRates.
+ */
+export async function summarizeEventBudget(ctx: QueryCtx, event: Doc<'events'>) {
+  const items = await ctx.db
+    .query('budgetItems')
+    .withIndex('by_event', (q) => q.eq('eventId', event._id))
+    .collect()
+
+  const getRate = createRateResolver(ctx)
+  const currency = getEventCurrency(event)
+  const reportingCurrency = await getReportingCurrency(ctx, event.organizationId)
+
+  const inEventCurrency = await convertBudgetItems(items, currency, currency, getRate)
+  const inReportingCurrency = await convertBudgetItems(items, currency, reportingCurrency, getRate)
+  const reporting = summarizeBudget(inReportingCurrency.items)
+
+  return {
+    ...summarizeBudget(inEventCurrency.items, event.budget || 0),
+    currency,
+    missingRates: inEventCurrency.missingRates,
+    reporting: {
+      currency: reportingCurrency,
+      totalEstimated: reporting.totalEstimated,
+      totalActual: reporting.totalActual,
+      totalPaid: reporting.totalPaid,
+      totalCommitted: reporting.totalCommitted,
+      eventBudget: await convertAmount(event.budget || 0, currency, reportingCurrency, getRate),
+      missingRates: inReportingCurrency.missingRates,
+    },
+  }
+}
+
+// ============================================================================
+// Assignment
+// ============================================================================
+
+/**
+ * Check the assignee can work on the event's tasks, then let them know
+ */
+export async function assignTask(
+  ctx: MutationCtx,
+  event: Doc<'events'>,
+  task: Doc<'eventTasks'>,
+  assignee: Id<'users'>,
+  assignedBy: Doc<'users'>
+) {
+  if (!(await canAccessEvent(ctx, event, assignee, 'editor'))) {
+    throw new Error('Tasks can only be assigned to people who can edit this event')
+  }
+
+  await notify(ctx, assignee, {
+    type: 'task_assigned',
+    title: `${assignedBy.name || 'Someone'} assigned you a task: ${task.title}`,
+    body: task.dueDate
+      ? `${event.title} · due ${new Date(task.dueDate).toISOString().slice(0, 10)}`
+      : event.title,
+    link: `/dashboard/events/${event._id}/tasks`,
+    actorId: assignedBy._id,
+    eventId: event._id,
+  })
+}
+
+// ============================================================================
+// Webhooks
+// ============================================================================
+
+/**
+ * Webhook payload for a task
+ */
+export function taskWebhookData(task: Doc<'eventTasks'>) {
+  return {
+    id: task._id,
+    eventId: task.eventId,
+    title: task.title,
+    category: task.category,
+    priority: task.priority,
+    status: task.status,
+    dueDate: task.dueDate,
+    completedAt: task.completedAt,
+  }
+}
+
+/**
+ * Webhook payload for a budget item
+ */
+export function budgetItemWebhookData(item: Doc<'budgetItems'>) {
+  return {
+    id: item._id,
+    eventId: item.eventId,
+    name: item.name,
+    category: item.category,
+    status: item.status,
+    estimatedAmount: item.estimatedAmount,
+    actualAmount: item.actualAmount,
+    currency: item.currency,
+    paidAt: item.paidAt,
+  }
+}
+
+/**
+ * Queue a task or budget webhook. Deliveries go to the event organizer's
+ * webhooks, whichever workspace member made the change.
+ */
+export async function triggerPlanningWebhook(
+  ctx: MutationCtx,
+  event: Doc<'events'>,
+  eventType: string,
+  data: Record<string, unknown>
+) {
+  await ctx.scheduler.runAfter(0, internal.webhooks.triggerWebhooks, {
+    userId: event.organizerId,
+    eventType,
+    eventId: event._id,
+    data,
+  })
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import type { Id } from '../_generated/dataModel'
+import { getInquiryParticipant, hasUnreadActivity } from './inquiryThreads'
+
+const organizerId = 'organizer1' as Id<'users'>
+const vendorUserId = 'vendorUser1' as Id<'users'>
+const vendorId = 'vendor1' as Id<'vendors'>
+
+const inquiry = {
+  fromType: 'organizer' as const,
+  fromUserId: organizerId,
+  toType: 'vendor' as const,
+  toId: vendorId as string,
+  createdAt: 1000,
+}
+
+describe('getInquiryParticipant', () => {
+  it('puts the author of the inquiry on the sender side', () => {
+    expect(getInquiryParticipant(inquiry, { _id: organizerId, role: 'organizer' })).toEqual({
+      side: 'sender',
+      authorType: 'organizer',
+    })
+  })
+
+  it('lets the linked portal user answer', () => {
+    const user = { _id: vendorUserId, role: 'vendor' as const, vendorId }
+    expect(getInquiryParticipant(inquiry, user)).toEqual({ side: 'recipient', authorType: 'vendor' })
+  })
+
+  it('lets admins answer on behalf of the recipient', () => {
+    const user = { _id: 'admin1' as Id<'users'>, role: 'admin' as const }
+    expect(getInquiryParticipant(inquiry, user)).toEqual({ side: 'recipient', authorType: 'admin' })
+  })
+
+  it('rejects everyone else', () => {
+    const otherVendor = { _id: vendorUserId, role: 'vendor' as const, vendorId: 'vendor2' as Id<'vendors'> }
+    expect(getInquiryParticipant(inquiry, otherVendor)).toBeNull()
+    expect(getInquiryParticipant(inquiry, { _id: 'organizer2' as Id<'users'>, role: 'organizer' })).toBeNull()
+  })
+})
+
+describe('hasUnreadActivity', () => {
+  const replied = { ...inquiry, lastMessageAt: 2000, lastMessageBy: vendorUserId }
+
+  it('flags messages from others newer than the read receipt', () => {
+    expect(hasUnreadActivity(replied, organizerId, undefined)).toBe(true)
+    expect(hasUnreadActivity(replied, organizerId, 1500)).toBe(true)
+    expect(hasUnreadActivity(replied, organizerId, 2000)).toBe(false)
+  })
+
+  it('never flags the user\'s own messages', () => {
+    expect(hasUnreadActivity(replied, vendorUserId, undefined)).toBe(false)
+  })
+
+  it('falls back to the opening message and legacy response', () => {
+    expect(hasUnreadActivity(inquiry, vendorUserId, undefined)).toBe(true)
+    expect(hasUnreadActivity(inquiry, organizerId, undefined)).toBe(false)
+    expect(hasUnreadActivity({ ...inquiry, respondedAt: 3000 }, organizerId, 2500)).toBe(true)
+  })
+})
@@ -0,0 +1,202 @@
+import type { QueryCtx, MutationCtx } from '../_generated/server'
+import type { Doc, Id } from '../_generated/dataModel'
+import { isAdminRole } from './auth'
+import { getPortalUserIds, notifyAll } from './notifications'
+
+export type InquiryAuthorType = 'organizer' | 'admin' | 'vendor' | 'sponsor'
+
+export interface InquiryParticipant {
+  // The sender opened the inquiry, the recipient answers for the vendor or sponsor
+  side: 'sender' | 'recipient'
+  authorType: InquiryAuthorType
+}
+
+export interface InquiryAttachment {
+  storageId: Id<'_storage'>
+  name: string
+  contentType?: string
+  size: number
+}
+
+type ThreadInquiry = Pick<
+  Doc<'inquiries'>,
+  'fromType' | 'fromUserId' | 'toType' | 'toId' | 'createdAt' | 'respondedAt' | 'lastMessageAt' | 'lastMessageBy'
+>
+
+/**
+ * Work out which side of an inquiry thread a user is on, or null if they
+ * can't see it. Portal users see inquiries addressed to their linked record,
+ * and admins can answer on behalf of vendors and sponsors without a portal account.
+ */
+export function getInquiryParticipant(
+  inquiry: ThreadInquiry,
+  user: Pick<Doc<'users'>, '_id' | 'role' | 'vendorId' | 'sponsorId'>
+): InquiryParticipant | null {
+  if (inquiry.fromUserId === user._id) {
+    return { side: 'sender', authorType: inquiry.fromType }
+  }
+  if (inquiry.toType === 'vendor' && user.role === 'vendor' && user.vendorId === inquiry.toId) {
+    return { side: 'recipient', authorType: 'vendor' }
+  }
+  if (inquiry.toType === 'sponsor' && user.role === 'sponsor' && user.sponsorId === inquiry.toId) {
+    return { side: 'recipient', authorType: 'sponsor' }
+  }
+  if (isAdminRole(user.role)) {
+    return { side: 'recipient', authorType: 'admin' }
+  }
+  return null
+}
+
+/**
+ * Latest activity on a thread. Inquiries from before threads fall back to
+ * the legacy response, then to the opening message.
+ */
+export function getLastActivity(inquiry: ThreadInquiry): { at: number; by?: Id<'users'> } {
+  if (inquiry.lastMessageAt !== undefined) {
+    return { at: inquiry.lastMessageAt, by: inquiry.lastMessageBy }
+  }
+  if (inquiry.respondedAt !== undefined) {
+    return { at: inquiry.respondedAt }
+  }
+  return { at: inquiry.createdAt, by: inquiry.fromUserId }
+}
+
+/**
+ * Check if a thread has activity from someone else since the user last read it
+ */
+export function hasUnreadActivity(
+  inquiry: ThreadInquiry,
+  userId: Id<'users'>,
+  lastReadAt: number | undefined
+): boolean {
+  const { at, by } = getLastActivity(inquiry)
+  if (by === userId) return false
+  return at > (lastReadAt ?? 0)
+}
+
+/**
+ * Get a user's read receipt for an inquiry thread, or null
+ */
+export async function getReadReceipt(
+  ctx: QueryCtx | MutationCtx,
+  inquiryId: Id<'inquiries'>,
+  userId: Id<'users'>
+) {
+  return ctx.db
+    .query('inquiryReads')
+    .withIndex('by_inquiry_user', (q) => q.eq('inquiryId', inquiryId).eq('userId', userId))
+    .first()
+}
+
+/**
+ * Check if an inquiry has unread activity for a user, using their read receipt
+ */
+export async function isInquiryUnread(
+  ctx: QueryCtx | MutationCtx,
+  inquiry: Doc<'inquiries'>,
+  userId: Id<'users'>
+) {
+  const receipt = await getReadReceipt(ctx, inquiry._id, userId)
+  return hasUnreadActivity(inquiry, userId, receipt?.lastReadAt)
+}
+
+/**
+ * Record that a user has read a thread up to now
+ */
+export async function markThreadRead(
+  ctx: MutationCtx,
+  inquiryId: Id<'inquiries'>,
+  userId: Id<'users'>
+) {
+  const now = Date.now()
+  const receipt = await getReadReceipt(ctx, inquiryId, userId)
+  if (receipt) {
+    await ctx.db.patch(receipt._id, { lastReadAt: now })
+  } else {
+    await ctx.db.insert('inquiryReads', { inquiryId, userId, lastReadAt: now })
+  }
+}
+
+/**
+ * Append a message to an inquiry thread and update its status.
+ * A recipient reply marks the inquiry replied (respondedAt keeps the first
+ * reply); a sender follow-up puts it back to sent so the recipient sees it as new.
+ * The other side of the thread is notified.
+ */
+export async function appendInquiryMessage(
+  ctx: MutationCtx,
+  inquiry: Doc<'inquiries'>,
+  author: Doc<'users'>,
+  participant: InquiryParticipant,
+  message: { body: string; attachments?: InquiryAttachment[] }
+) {
+  const now = Date.now()
+
+  const messageId = await ctx.db.insert('inquiryMessages', {
+    inquiryId: inquiry._id,
+    authorId: author._id,
+    authorType: participant.authorType,
+    body: message.body,
+    attachments: message.attachments?.length ? message.attachments : undefined,
+    createdAt: now,
+  })
+
+  await ctx.db.patch(inquiry._id, {
+    lastMessageAt: now,
+    lastMessageBy: author._id,
+    messageCount: (inquiry.messageCount ?? 0) + 1,
+    ...(participant.side === 'recipient'
+      ? { status: 'replied' as const, respondedAt: inquiry.respondedAt ?? now }
+      : { status: 'sent' as const }),
+    updatedAt: now,
+  })
+
+  await markThreadRead(ctx, inquiry._id, author._id)
+
+  // Replies go to whoever opened the thread, follow-ups to the vendor's or sponsor's portal users
+  const recipients =
+    participant.side === 'recipient'
+      ? [inquiry.fromUserId]
+      : await getPortalUserIds(ctx, inquiry.toType, inquiry.toId)
+  await notifyAll(ctx, recipients, {
+    type: 'inquiry_reply',
+    title: `${author.name || 'Someone'} replied: ${inquiry.subject}`,
+    body: message.body.length > 140 ? `${message.body.slice(0, 140)}…` : message.body,
+    link: participant.side === 'recipient' ? '/dashboard/inquiries' : `/${inquiry.toType}`,
+    actorId: author._id,
+    eventId: inquiry.eventId,
+  })
+
+  return messageId
+}
+
+/**
+ * Delete an inquiry with its messages, attached files and read receipts
+ */
+export async function deleteInquiry(ctx: MutationCtx, inquiryId: Id<'inquiries'>) {
+  const messages = await ctx.db
+    .query('inquiryMessages')
+    .withIndex('by_inquiry', (q) => q.eq('inquiryId', inquiryId))
+    .collect()
+  for (const message of messages) {
+    for (const attachment of message.attachments ?? []) {
+      const upload = await ctx.db
+        .query('inquiryUploads')
+        .withIndex('by_storage', (q) => q.eq('storageId', attachment.storageId))
+        .first()
+      if (upload) await ctx.db.delete(upload._id)
+      await ctx.storage.delete(attachment.storageId)
+    }
+    await ctx.db.delete(message._id)
+  }
+
+  const reads = await ctx.db
+    .query('inquiryReads')
+    .withIndex('by_inquiry', (q) => q.eq('inquiryId', inquiryId))
+    .collect()
+  for (const read of reads) {
+    await ctx.db.delete(read._id)
+  }
+
+  await ctx.db.delete(inquiryId)
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { buildPaymentSchedule, DEFAULT_NET_DAYS, isInvoiceOverdue } from './invoices'
+
+const DAY = 24 * 60 * 60 * 1000
+const CONFIRMED = Date.parse('2026-03-01T00:00:00Z')
+const EVENT = Date.parse('2026-06-01T00:00:00Z')
+
+describe('buildPaymentSchedule', () => {
+  it('splits the total into a deposit and a balance', () => {
+    const schedule = buildPaymentSchedule({
+      total: 10000,
+      terms: { requiresDeposit: true, depositPercentage: 30, netDays: 14 },
+      confirmedAt: CONFIRMED,
+      eventDate: EVENT,
+    })
+
+    expect(schedule).toEqual([
+      { kind: 'deposit', amount: 3000, dueDate: CONFIRMED + 14 * DAY },
+      { kind: 'balance', amount: 7000, dueDate: EVENT + 14 * DAY },
+    ])
+  })
+
+  it('bills everything as a balance without a deposit', () => {
+    const schedule = buildPaymentSchedule({
+      total: 500,
+      terms: { requiresDeposit: false, depositPercentage: 50 },
+      confirmedAt: CONFIRMED,
+      eventDate: EVENT,
+    })
+
+    expect(schedule).toEqual([
+      { kind: 'balance', amount: 500, dueDate: EVENT + DEFAULT_NET_DAYS * DAY },
+    ])
+  })
+
+  it('keeps the balance from going negative or before confirmation', () => {
+    const schedule = buildPaymentSchedule({
+      total: 999.99,
+      terms: { depositPercentage: 150, netDays: 0 },
+      confirmedAt: CONFIRMED,
+      eventDate: CONFIRMED - 10 * DAY,
+    })
+
+    expect(schedule).toEqual([{ kind: 'deposit', amount: 999.99, dueDate: CONFIRMED }])
+  })
+
+  it('returns nothing without a positive total', () => {
+    expect(buildPaymentSchedule({ total: 0, confirmedAt: CONFIRMED })).toEqual([])
+  })
+})
+
+describe('isInvoiceOverdue', () => {
+  it('flags only pending invoices past their due date', () => {
+    const now = CONFIRMED
+    expect(isInvoiceOverdue({ status: 'pending', dueDate: now - 1 }, now)).toBe(true)
+    expect(isInvoiceOverdue({ status: 'pending', dueDate: now + 1 }, now)).toBe(false)
+    expect(isInvoiceOverdue({ status: 'paid', dueDate: now - 1 }, now)).toBe(false)
+    expect(isInvoiceOverdue({ status: 'void', dueDate: now - 1 }, now)).toBe(false)
+  })
+})
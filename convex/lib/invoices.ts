@@ -0,0 +1,220 @@
+import type { MutationCtx } from '../_generated/server'
+import type { Doc, Id } from '../_generated/dataModel'
+import { WEBHOOK_EVENTS } from '../webhooks'
+import { lockPaidExchangeRate, roundAmount } from './currency'
+import { budgetItemWebhookData, triggerPlanningWebhook } from './eventPlanning'
+
+// ============================================================================
+// Vendor Invoices
+// ============================================================================
+// A confirmed vendor engagement (eventVendors) is billed as a deposit and a
+// balance, worked out from the vendor's paymentTerms. Each invoice points at
+// the vendor's budget item, and recording a payment rolls up into that item.
+
+export const INVOICE_STATUSES = ['pending', 'paid', 'void'] as const
+export type InvoiceStatus = (typeof INVOICE_STATUSES)[number]
+
+// Used when the vendor has no netDays in their payment terms
+export const DEFAULT_NET_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Vendor categories that match a budget category; anything else goes under misc
+const VENDOR_BUDGET_CATEGORIES = new Set([
+  'venue',
+  'catering',
+  'av',
+  'marketing',
+  'staffing',
+  'transportation',
+  'decoration',
+  'entertainment',
+])
+
+export interface PaymentMilestone {
+  kind: 'deposit' | 'balance'
+  amount: number
+  dueDate: number
+}
+
+/**
+ * Split an engagement total into deposit and balance milestones.
+ * The deposit is due netDays after confirmation and the balance netDays after
+ * the event (or after confirmation if the event has no date yet).
+ */
+export function buildPaymentSchedule(input: {
+  total: number
+  terms?: Doc<'vendors'>['paymentTerms']
+  confirmedAt: number
+  eventDate?: number
+}): PaymentMilestone[] {
+  if (!(input.total > 0)) return []
+
+  const netDays = Math.max(0, input.terms?.netDays ?? DEFAULT_NET_DAYS)
+  const depositPercentage =
+    input.terms?.requiresDeposit === false
+      ? 0
+      : Math.min(100, Math.max(0, input.terms?.depositPercentage ?? 0))
+
+  const deposit = roundAmount((input.total * depositPercentage) / 100)
+  const balance = roundAmount(input.total - deposit)
+  const balanceFrom = Math.max(input.eventDate ?? input.confirmedAt, input.confirmedAt)
+
+  const milestones: PaymentMilestone[] = []
+  if (deposit > 0) {
+    milestones.push({ kind: 'deposit', amount: deposit, dueDate: input.confirmedAt + netDays * DAY_MS })
+  }
+  if (balance > 0) {
+    milestones.push({ kind: 'balance', amount: balance, dueDate: balanceFrom + netDays * DAY_MS })
+  }
+  return milestones
+}
+
+/**
+ * An invoice is overdue while it is unpaid past its due date
+ */
+export function isInvoiceOverdue(
+  invoice: Pick<Doc<'invoices'>, 'status' | 'dueDate'>,
+  now: number = Date.now()
+): boolean {
+  return invoice.status === 'pending' && invoice.dueDate < now
+}
+
+// ============================================================================
+// Database Helpers
+// ============================================================================
+
+/**
+ * The budget item a vendor's payments are recorded against. Reuses the event's
+ * open item for that vendor, or adds a committed one for the engagement total.
+ */
+async function getVendorBudgetItem(
+  ctx: MutationCtx,
+  event: Doc<'events'>,
+  vendor: Doc<'vendors'>,
+  total: number
+): Promise<Doc<'budgetItems'>> {
+  const existing = await ctx.db
+    .query('budgetItems')
+    .withIndex('by_event', (q) => q.eq('eventId', event._id))
+    .filter((q) => q.and(q.eq(q.field('vendorId'), vendor._id), q.neq(q.field('status'), 'cancelled')))
+    .first()
+  if (existing) return existing
+
+  const itemId = await ctx.db.insert('budgetItems', {
+    eventId: event._id,
+    category: VENDOR_BUDGET_CATEGORIES.has(vendor.category) ? vendor.category : 'misc',
+    name: vendor.name,
+    estimatedAmount: total,
+    status: 'committed',
+    vendorId: vendor._id,
+    createdAt: Date.now(),
+  })
+
+  const item = (await ctx.db.get(itemId))!
+  await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.BUDGET_ITEM_CREATED, budgetItemWebhookData(item))
+  return item
+}
+
+/**
+ * Create the deposit and balance invoices for a confirmed engagement.
+ * Uses finalBudget, falling back to proposedBudget; returns no invoices when
+ * neither is set. Callers make sure the engagement has no live invoices yet.
+ */
+export async function createPaymentSchedule(
+  ctx: MutationCtx,
+  event: Doc<'events'>,
+  eventVendor: Doc<'eventVendors'>,
+  userId?: Id<'users'>
+): Promise<Id<'invoices'>[]> {
+  const total = eventVendor.finalBudget ?? eventVendor.proposedBudget
+  const vendor = await ctx.db.get(eventVendor.vendorId)
+  if (!total || !vendor) return []
+
+  const now = Date.now()
+  const milestones = buildPaymentSchedule({
+    total,
+    terms: vendor.paymentTerms,
+    confirmedAt: now,
+    eventDate: event.endDate ?? event.startDate,
+  })
+  if (milestones.length === 0) return []
+
+  const budgetItem = await getVendorBudgetItem(ctx, event, vendor, total)
+
+  const ids: Id<'invoices'>[] = []
+  for (const milestone of milestones) {
+    ids.push(
+      await ctx.db.insert('invoices', {
+        eventId: event._id,
+        eventVendorId: eventVendor._id,
+        vendorId: vendor._id,
+        budgetItemId: budgetItem._id,
+        kind: milestone.kind,
+        amount: milestone.amount,
+        currency: budgetItem.currency,
+        dueDate: milestone.dueDate,
+        status: 'pending',
+        createdBy: userId,
+        createdAt: now,
+      })
+    )
+  }
+  return ids
+}
+
+/**
+ * Roll an item's invoice payments up into the budget item: actual amount,
+ * latest payment details, and paid once every live invoice is paid
+ */
+export async function syncBudgetItemPayments(
+  ctx: MutationCtx,
+  event: Doc<'events'>,
+  budgetItemId: Id<'budgetItems'>
+) {
+  const item = await ctx.db.get(budgetItemId)
+  if (!item || item.status === 'cancelled') return
+
+  const invoices = (
+    await ctx.db
+      .query('invoices')
+      .withIndex('by_budget_item', (q) => q.eq('budgetItemId', budgetItemId))
+      .collect()
+  ).filter((invoice) => invoice.status !== 'void')
+
+  const paid = invoices
+    .filter((invoice) => invoice.status === 'paid')
+    .sort((a, b) => (a.paidAt ?? 0) - (b.paidAt ?? 0))
+  const latest = paid[paid.length - 1]
+  if (!latest) return
+
+  await ctx.db.patch(budgetItemId, {
+    actualAmount: roundAmount(paid.reduce((sum, invoice) => sum + invoice.amount, 0)),
+    status: paid.length === invoices.length ? 'paid' : 'committed',
+    paidAt: latest.paidAt,
+    paidMethod: latest.paidMethod ?? item.paidMethod,
+    invoiceNumber: latest.invoiceNumber ?? item.invoiceNumber,
+    receiptUrl: latest.receiptUrl ?? item.receiptUrl,
+    updatedAt: Date.now(),
+  })
+  await lockPaidExchangeRate(ctx, event, budgetItemId)
+
+  const updated = await ctx.db.get(budgetItemId)
+  if (updated) {
+    await triggerPlanningWebhook(ctx, event, WEBHOOK_EVENTS.BUDGET_ITEM_UPDATED, budgetItemWebhookData(updated))
+  }
+}
+
+/**
+ * Detach invoices from a budget item that is being deleted
+ */
+export async function unlinkBudgetItemInvoices(ctx: MutationCtx, budgetItemId: Id<'budgetItems'>) {
+  const invoices = await ctx.db
+    .query('invoices')
+    .withIndex('by_budget_item', (q) => q.eq('budgetItemId', budgetItemId))
+    .collect()
+
+  for (const invoice of invoices) {
+    await ctx.db.patch(invoice._id, { budgetItemId: undefined, updatedAt: Date.now() })
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import type { Id } from '../_generated/dataModel'
+import {
+  DEFAULT_CHANNELS,
+  NOTIFICATION_TYPES,
+  isNotificationType,
+  resolveNotificationPreferences,
+  taskReminderNotification,
+} from './notifications'
+
+describe('isNotificationType', () => {
+  it('accepts known types only', () => {
+    expect(isNotificationType('task_assigned')).toBe(true)
+    expect(isNotificationType('weekly_digest')).toBe(false)
+    expect(isNotificationType('toString')).toBe(false)
+  })
+})
+
+describe('resolveNotificationPreferences', () => {
+  it('defaults every type to all channels', () => {
+    const preferences = resolveNotificationPreferences(undefined)
+    expect(Object.keys(preferences)).toEqual(Object.keys(NOTIFICATION_TYPES))
+    expect(preferences.moderation).toEqual(DEFAULT_CHANNELS)
+  })
+
+  it('applies saved choices and drops unknown types', () => {
+    const preferences = resolveNotificationPreferences([
+      { type: 'task_due', inApp: true, email: false },
+      { type: 'retired_type', inApp: false, email: false },
+    ])
+    expect(preferences.task_due).toEqual({ inApp: true, email: false })
+    expect(preferences.inquiry_reply).toEqual(DEFAULT_CHANNELS)
+    expect(preferences).not.toHaveProperty('retired_type')
+  })
+})
+
+describe('taskReminderNotification', () => {
+  const task = {
+    title: 'Book venue',
+    dueDate: Date.UTC(2025, 5, 1, 12),
+    eventId: 'event123' as Id<'events'>,
+  }
+
+  it('describes overdue and due-soon tasks', () => {
+    expect(taskReminderNotification(task, 'Summer Gala', 'overdue')).toEqual({
+      type: 'task_due',
+      title: 'Task overdue: Book venue',
+      body: 'Summer Gala · due 2025-06-01',
+      link: '/dashboard/events/event123/tasks',
+      eventId: 'event123',
+    })
+    expect(taskReminderNotification(task, 'Summer Gala', 'due_soon').title).toBe('Task due soon: Book venue')
+  })
+})
@@ -0,0 +1,195 @@
+import type { QueryCtx, MutationCtx } from '../_generated/server'
+import type { Doc, Id } from '../_generated/dataModel'
+import { internal } from '../_generated/api'
+
+// ============================================================================
+// Notifications
+// ============================================================================
+// notify() is the one way to tell a user that something happened. It checks
+// their delivery preferences, adds the in-app notification and schedules the
+// email, so call sites only describe what happened.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Notification types with the wording used on the settings page
+export const NOTIFICATION_TYPES = {
+  task_assigned: {
+    label: 'Task Assignments',
+    description: 'Someone assigns you an event task',
+  },
+  task_due: {
+    label: 'Task Reminders',
+    description: 'A task of yours is due within a day or has gone overdue',
+  },
+  application_received: {
+    label: 'Event Applications',
+    description: 'A vendor or sponsor applies to one of your events',
+  },
+  inquiry_reply: {
+    label: 'Inquiry Replies',
+    description: 'Someone replies in an inquiry thread you are part of',
+  },
+  moderation: {
+    label: 'Account Reviews',
+    description: 'An admin approves, rejects or changes your account or listing',
+  },
+} as const
+
+export type NotificationType = keyof typeof NOTIFICATION_TYPES
+
+export interface ChannelPreference {
+  inApp: boolean
+  email: boolean
+}
+
+export type NotificationPreferences = Record<NotificationType, ChannelPreference>
+
+// Used for any type the user hasn't saved a choice for
+export const DEFAULT_CHANNELS: ChannelPreference = { inApp: true, email: true }
+
+// Tasks due within this window get a "due soon" reminder
+export const TASK_DUE_SOON_MS = DAY_MS
+
+// Overdue reminders only go out for tasks that went overdue this recently,
+// so old backlogs don't flood anyone with reminders
+export const TASK_OVERDUE_WINDOW_MS = 7 * DAY_MS
+
+export interface NotificationInput {
+  type: NotificationType
+  title: string
+  body?: string
+  /** App path to open, e.g. /dashboard/events/<id>/tasks */
+  link?: string
+  /** Who caused it; they are never notified about their own action */
+  actorId?: Id<'users'>
+  eventId?: Id<'events'>
+}
+
+export type TaskReminderKind = 'due_soon' | 'overdue'
+
+/**
+ * Check if a string names a notification type
+ */
+export function isNotificationType(type: string): type is NotificationType {
+  return Object.prototype.hasOwnProperty.call(NOTIFICATION_TYPES, type)
+}
+
+/**
+ * Fill in defaults for types without a saved choice and drop unknown types
+ */
+export function resolveNotificationPreferences(
+  saved: { type: string; inApp: boolean; email: boolean }[] | undefined
+): NotificationPreferences {
+  const preferences = Object.fromEntries(
+    Object.keys(NOTIFICATION_TYPES).map((type) => [type, { ...DEFAULT_CHANNELS }])
+  ) as NotificationPreferences
+
+  for (const { type, inApp, email } of saved ?? []) {
+    if (isNotificationType(type)) preferences[type] = { inApp, email }
+  }
+  return preferences
+}
+
+/**
+ * Get a user's delivery preferences, with defaults for unsaved types
+ */
+export async function getNotificationPreferences(
+  ctx: QueryCtx | MutationCtx,
+  userId: Id<'users'>
+): Promise<NotificationPreferences> {
+  const saved = await ctx.db
+    .query('notificationPreferences')
+    .withIndex('by_user', (q) => q.eq('userId', userId))
+    .first()
+  return resolveNotificationPreferences(saved?.preferences)
+}
+
+/**
+ * Notify a user through the channels they have turned on for this type
+ */
+export async function notify(ctx: MutationCtx, userId: Id<'users'>, notification: NotificationInput) {
+  if (notification.actorId === userId) return
+
+  const preference = (await getNotificationPreferences(ctx, userId))[notification.type]
+  const now = Date.now()
+
+  if (preference.inApp) {
+    await ctx.db.insert('notifications', { userId, ...notification, createdAt: now })
+  }
+
+  if (preference.email) {
+    const user = await ctx.db.get(userId)
+    if (user?.email) {
+      await ctx.scheduler.runAfter(0, internal.notifications.sendEmail, {
+        to: user.email,
+        title: notification.title,
+        body: notification.body,
+        link: notification.link,
+      })
+    }
+  }
+}
+
+/**
+ * Notify several users once each
+ */
+export async function notifyAll(
+  ctx: MutationCtx,
+  userIds: Iterable<Id<'users'>>,
+  notification: NotificationInput
+) {
+  for (const userId of new Set(userIds)) {
+    await notify(ctx, userId, notification)
+  }
+}
+
+/**
+ * Users who manage a vendor or sponsor through its portal
+ */
+export async function getPortalUserIds(
+  ctx: QueryCtx | MutationCtx,
+  type: 'vendor' | 'sponsor',
+  id: string
+): Promise<Id<'users'>[]> {
+  const users = await ctx.db
+    .query('users')
+    .withIndex('by_role', (q) => q.eq('role', type))
+    .filter((q) => q.eq(q.field(type === 'vendor' ? 'vendorId' : 'sponsorId'), id))
+    .collect()
+  return users.map((user) => user._id)
+}
+
+// ============================================================================
+// Task Reminders
+// ============================================================================
+
+/**
+ * What a task reminder says, e.g. "Task overdue: Book venue"
+ */
+export function taskReminderNotification(
+  task: Pick<Doc<'eventTasks'>, 'title' | 'dueDate' | 'eventId'>,
+  eventName: string,
+  kind: TaskReminderKind
+): NotificationInput {
+  const due = task.dueDate === undefined ? '' : ` · due ${new Date(task.dueDate).toISOString().slice(0, 10)}`
+  return {
+    type: 'task_due',
+    title: `${kind === 'overdue' ? 'Task overdue' : 'Task due soon'}: ${task.title}`,
+    body: `${eventName}${due}`,
+    link: `/dashboard/events/${task.eventId}/tasks`,
+    eventId: task.eventId,
+  }
+}
+
+/**
+ * Send a due-soon or overdue reminder to the task's assignee (the event
+ * organizer when unassigned) and record it so it goes out once per due date
+ */
+export async function sendTaskReminder(ctx: MutationCtx, task: Doc<'eventTasks'>, kind: TaskReminderKind) {
+  const event = await ctx.db.get(task.eventId)
+  if (event) {
+    await notify(ctx, task.assignedTo ?? event.organizerId, taskReminderNotification(task, event.title, kind))
+  }
+
+  await ctx.db.patch(task._id, kind === 'overdue' ? { overdueNotifiedAt: Date.now() } : { dueSoonNotifiedAt: Date.now() })
+}
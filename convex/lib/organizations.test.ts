@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import type { QueryCtx } from '../_generated/server'
+import type { Doc, Id } from '../_generated/dataModel'
+import { getEventRole, hasOrgRole, listEventEditorIds } from './organizations'
+
+// Minimal in-memory db: withIndex filters rows on the fields passed to q.eq
+function createCtx(tables: Record<string, Record<string, unknown>[]>) {
+  return {
+    db: {
+      query: (table: string) => ({
+        withIndex: (_index: string, range: (q: unknown) => unknown) => {
+          const filters: [string, unknown][] = []
+          const q = {
+            eq: (field: string, value: unknown) => {
+              filters.push([field, value])
+              return q
+            },
+          }
+          range(q)
+          const rows = (tables[table] ?? []).filter((row) => filters.every(([field, value]) => row[field] === value))
+          return { first: async () => rows[0] ?? null, collect: async () => rows }
+        },
+      }),
+    },
+  } as unknown as QueryCtx
+}
+
+const creator = 'user_creator' as Id<'users'>
+const editor = 'user_editor' as Id<'users'>
+const orgId = 'org_1' as Id<'organizations'>
+
+function makeEvent(organizationId?: Id<'organizations'>) {
+  return { _id: 'event_1', organizerId: creator, organizationId } as unknown as Doc<'events'>
+}
+
+describe('hasOrgRole', () => {
+  it('allows roles at or above the required level', () => {
+    expect(hasOrgRole('owner', 'editor')).toBe(true)
+    expect(hasOrgRole('editor', 'editor')).toBe(true)
+    expect(hasOrgRole('viewer', 'viewer')).toBe(true)
+  })
+
+  it('rejects roles below the required level', () => {
+    expect(hasOrgRole('viewer', 'editor')).toBe(false)
+    expect(hasOrgRole('editor', 'owner')).toBe(false)
+  })
+
+  it('rejects non-members', () => {
+    expect(hasOrgRole(null, 'viewer')).toBe(false)
+  })
+})
+
+describe('getEventRole', () => {
+  it('makes the creator owner of a personal event', async () => {
+    expect(await getEventRole(createCtx({}), makeEvent(), creator)).toBe('owner')
+  })
+
+  it('takes a workspace event role from the membership, not the creator', async () => {
+    const ctx = createCtx({
+      organizationMembers: [{ organizationId: orgId, userId: creator, role: 'viewer' }],
+    })
+    expect(await getEventRole(ctx, makeEvent(orgId), creator)).toBe('viewer')
+  })
+
+  it('gives a creator removed from the workspace no access', async () => {
+    expect(await getEventRole(createCtx({}), makeEvent(orgId), creator)).toBeNull()
+  })
+})
+
+describe('listEventEditorIds', () => {
+  it('leaves out a creator removed from the workspace', async () => {
+    const ctx = createCtx({
+      organizationMembers: [{ organizationId: orgId, userId: editor, role: 'editor' }],
+    })
+    expect(await listEventEditorIds(ctx, makeEvent(orgId))).toEqual([editor])
+  })
+
+  it('includes the creator of a personal event and editor collaborators', async () => {
+    const ctx = createCtx({
+      eventCollaborators: [{ eventId: 'event_1', userId: editor, role: 'editor' }],
+    })
+    expect(await listEventEditorIds(ctx, makeEvent())).toEqual([creator, editor])
+  })
+})
@@ -0,0 +1,170 @@
+import type { QueryCtx, MutationCtx } from '../_generated/server'
+import type { Doc, Id } from '../_generated/dataModel'
+
+// Role hierarchy within a workspace: owner (3) > editor (2) > viewer (1)
+export const ORG_ROLE_HIERARCHY: Record<OrgRole, number> = {
+  owner: 3,
+  editor: 2,
+  viewer: 1,
+} as const
+
+export type OrgRole = 'owner' | 'editor' | 'viewer'
+
+/**
+ * Check if a workspace role meets the required level
+ */
+export function hasOrgRole(role: OrgRole | null, requiredRole: OrgRole): boolean {
+  if (!role) return false
+  return ORG_ROLE_HIERARCHY[role] >= ORG_ROLE_HIERARCHY[requiredRole]
+}
+
+/**
+ * Get a user's membership in an organization, or null if they aren't a member
+ */
+export async function getMembership(
+  ctx: QueryCtx | MutationCtx,
+  organizationId: Id<'organizations'>,
+  userId: Id<'users'>
+) {
+  return ctx.db
+    .query('organizationMembers')
+    .withIndex('by_organization_user', (q) =>
+      q.eq('organizationId', organizationId).eq('userId', userId)
+    )
+    .first()
+}
+
+/**
+ * Get the user's active organization, ignoring a stale selection
+ * they are no longer a member of. Returns null for the personal workspace.
+ */
+export async function getActiveMembership(
+  ctx: QueryCtx | MutationCtx,
+  user: Doc<'users'>
+) {
+  if (!user.activeOrganizationId) return null
+  return getMembership(ctx, user.activeOrganizationId, user._id)
+}
+
+/**
+ * Get a user's collaborator entry on a single event, or null
+ */
+export async function getEventCollaborator(
+  ctx: QueryCtx | MutationCtx,
+  eventId: Id<'events'>,
+  userId: Id<'users'>
+) {
+  return ctx.db
+    .query('eventCollaborators')
+    .withIndex('by_event_user', (q) => q.eq('eventId', eventId).eq('userId', userId))
+    .first()
+}
+
+/**
+ * Get the user's role on an event.
+ * The creator of a personal event is its owner. On a workspace event the
+ * creator has no special rights, so someone removed from the workspace loses
+ * access; the highest of the membership role and a direct event collaborator
+ * role wins.
+ */
+export async function getEventRole(
+  ctx: QueryCtx | MutationCtx,
+  event: Doc<'events'>,
+  userId: Id<'users'>
+): Promise<OrgRole | null> {
+  if (!event.organizationId && event.organizerId === userId) return 'owner'
+
+  const membership = event.organizationId
+    ? await getMembership(ctx, event.organizationId, userId)
+    : null
+  const collaborator = await getEventCollaborator(ctx, event._id, userId)
+
+  const orgRole = membership?.role ?? null
+  const eventRole = collaborator?.role ?? null
+  if (!orgRole) return eventRole
+  if (!eventRole) return orgRole
+  return ORG_ROLE_HIERARCHY[orgRole] >= ORG_ROLE_HIERARCHY[eventRole] ? orgRole : eventRole
+}
+
+/**
+ * Check if a user has at least the required role on an event
+ */
+export async function canAccessEvent(
+  ctx: QueryCtx | MutationCtx,
+  event: Doc<'events'>,
+  userId: Id<'users'>,
+  requiredRole: OrgRole
+): Promise<boolean> {
+  return hasOrgRole(await getEventRole(ctx, event, userId), requiredRole)
+}
+
+/**
+ * List events in the user's active workspace.
+ * The personal workspace holds events the user created outside any organization,
+ * plus single events shared with them as a collaborator.
+ */
+export async function listWorkspaceEvents(
+  ctx: QueryCtx | MutationCtx,
+  user: Doc<'users'>
+) {
+  const membership = await getActiveMembership(ctx, user)
+  if (membership) {
+    return ctx.db
+      .query('events')
+      .withIndex('by_organization', (q) => q.eq('organizationId', membership.organizationId))
+      .order('desc')
+      .collect()
+  }
+
+  const events = await ctx.db
+    .query('events')
+    .withIndex('by_organizer', (q) => q.eq('organizerId', user._id))
+    .order('desc')
+    .collect()
+  const personal = events.filter((e) => !e.organizationId)
+
+  const collaborations = await ctx.db
+    .query('eventCollaborators')
+    .withIndex('by_user', (q) => q.eq('userId', user._id))
+    .collect()
+  const shared = await Promise.all(collaborations.map((c) => ctx.db.get(c.eventId)))
+  const ownIds = new Set(personal.map((e) => e._id))
+  for (const event of shared) {
+    if (event && !ownIds.has(event._id)) personal.push(event)
+  }
+
+  return personal.sort((a, b) => b._creationTime - a._creationTime)
+}
+
+/**
+ * List users who can edit an event: the creator of a personal event, workspace
+ * owners and editors, and editor collaborators on the event
+ */
+export async function listEventEditorIds(
+  ctx: QueryCtx | MutationCtx,
+  event: Doc<'events'>
+): Promise<Id<'users'>[]> {
+  const ids = new Set<Id<'users'>>()
+
+  if (!event.organizationId) {
+    ids.add(event.organizerId)
+  } else {
+    const members = await ctx.db
+      .query('organizationMembers')
+      .withIndex('by_organization', (q) => q.eq('organizationId', event.organizationId!))
+      .collect()
+    for (const member of members) {
+      if (hasOrgRole(member.role, 'editor')) ids.add(member.userId)
+    }
+  }
+
+  const collaborators = await ctx.db
+    .query('eventCollaborators')
+    .withIndex('by_event', (q) => q.eq('eventId', event._id))
+    .collect()
+  for (const collaborator of collaborators) {
+    if (collaborator.role === 'editor') ids.add(collaborator.userId)
+  }
+
+  return [...ids]
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest'
+import {
+  IMPORT_ROW_LIMIT,
+  parseBudgetImportRows,
+  parseImportAmount,
+  parseImportDate,
+  parseTaskImportRows,
+  summarizeImport,
+} from './planningImport'
+
+const CATEGORIES = [
+  { value: 'venue', label: 'Venue & Facilities' },
+  { value: 'av', label: 'AV & Technology' },
+]
+
+describe('parseImportAmount', () => {
+  it('ignores currency symbols and thousands separators', () => {
+    expect(parseImportAmount('$1,250.50')).toBe(1250.5)
+    expect(parseImportAmount('RM 300')).toBe(300)
+    expect(parseImportAmount('n/a')).toBeUndefined()
+  })
+
+  it('reads decimal commas from the digits after the last separator', () => {
+    expect(parseImportAmount('€1.250,50')).toBe(1250.5)
+    expect(parseImportAmount('12,5')).toBe(12.5)
+    expect(parseImportAmount('1.250.000')).toBe(1250000)
+    expect(parseImportAmount('1,250,000')).toBe(1250000)
+  })
+
+  it("uses the file's decimal separator for a single separator before 3 digits", () => {
+    expect(parseImportAmount('1.250', ',')).toBe(1250)
+    expect(parseImportAmount('1,250', ',')).toBe(1.25)
+    expect(parseImportAmount('1,250', '.')).toBe(1250)
+    expect(parseImportAmount('1.250', '.')).toBe(1.25)
+  })
+
+  it('rejects mixed-up separators', () => {
+    expect(parseImportAmount('1,250,50')).toBeUndefined()
+    expect(parseImportAmount('1.250,500.5')).toBeUndefined()
+  })
+})
+
+describe('parseImportDate', () => {
+  it('reads ISO dates, Excel serials and other date text', () => {
+    expect(parseImportDate('2026-03-05')).toBe(Date.UTC(2026, 2, 5))
+    expect(parseImportDate('46086')).toBe(Date.UTC(2026, 2, 5))
+    expect(parseImportDate('March 5, 2026 10:00 UTC')).toBe(Date.UTC(2026, 2, 5, 10))
+  })
+
+  it('rejects impossible dates and stray numbers', () => {
+    expect(parseImportDate('2026-02-30')).toBeUndefined()
+    expect(parseImportDate('42')).toBeUndefined()
+    expect(parseImportDate('soon')).toBeUndefined()
+  })
+})
+
+describe('parseBudgetImportRows', () => {
+  it('matches categories and statuses by value or label and applies defaults', () => {
+    const [row] = parseBudgetImportRows(
+      [{ rowNumber: 2, name: ' Main hall ', category: 'venue & facilities', estimatedAmount: '5,000', currency: 'sgd' }],
+      CATEGORIES
+    )
+
+    expect(row).toEqual({
+      rowNumber: 2,
+      errors: [],
+      value: {
+        name: 'Main hall',
+        category: 'venue',
+        description: undefined,
+        estimatedAmount: 5000,
+        actualAmount: undefined,
+        currency: 'SGD',
+        status: 'planned',
+        notes: undefined,
+      },
+    })
+  })
+
+  it('reports every problem on a row', () => {
+    const [row] = parseBudgetImportRows(
+      [{ rowNumber: 7, category: 'Food', estimatedAmount: '-20', status: 'done', currency: 'dollars' }],
+      CATEGORIES
+    )
+
+    expect(row.value).toBeUndefined()
+    expect(row.errors).toEqual([
+      'Name is required',
+      'Unknown category "Food". Use one of: venue, av',
+      'Estimated amount must be a non-negative number (got "-20")',
+      'Unknown status "done". Use one of: planned, committed, paid, cancelled',
+      expect.stringContaining('dollars'),
+    ])
+  })
+
+  it('reads amounts with the decimal separator of the file', () => {
+    const rows = [{ rowNumber: 2, name: 'Hall', category: 'venue', estimatedAmount: '1.250', actualAmount: '980,5' }]
+
+    expect(parseBudgetImportRows(rows, CATEGORIES, ',')[0].value).toMatchObject({
+      estimatedAmount: 1250,
+      actualAmount: 980.5,
+    })
+    expect(parseBudgetImportRows(rows, CATEGORIES, '.')[0].value).toMatchObject({
+      estimatedAmount: 1.25,
+      actualAmount: 980.5,
+    })
+  })
+
+  it('reports amounts that could mean different things', () => {
+    const [row] = parseBudgetImportRows(
+      [{ rowNumber: 3, name: 'Hall', category: 'venue', estimatedAmount: '1,250,50' }],
+      CATEGORIES
+    )
+
+    expect(row.errors).toEqual(['Estimated amount "1,250,50" is not a clear amount (write it like 1250.50 or 1.250,50)'])
+  })
+
+  it('refuses imports over the row limit', () => {
+    const rows = Array.from({ length: IMPORT_ROW_LIMIT + 1 }, (_, i) => ({ rowNumber: i + 2 }))
+    expect(() => parseBudgetImportRows(rows, CATEGORIES)).toThrow(/limited to/)
+  })
+})
+
+describe('parseTaskImportRows', () => {
+  it('accepts spreadsheet-style status and priority text', () => {
+    const [row] = parseTaskImportRows(
+      [{ rowNumber: 2, title: 'Book AV', category: 'AV & Technology', status: 'In Progress', priority: 'HIGH', dueDate: '2026-04-01' }],
+      CATEGORIES
+    )
+
+    expect(row.errors).toEqual([])
+    expect(row.value).toMatchObject({
+      title: 'Book AV',
+      category: 'av',
+      status: 'in_progress',
+      priority: 'high',
+      dueDate: Date.UTC(2026, 3, 1),
+    })
+  })
+
+  it('flags a bad due date', () => {
+    const [row] = parseTaskImportRows([{ rowNumber: 3, title: 'Permits', dueDate: 'next week' }], CATEGORIES)
+    expect(row.errors).toEqual(['Due date "next week" is not a date (use YYYY-MM-DD)'])
+  })
+})
+
+describe('summarizeImport', () => {
+  it('counts valid and skipped rows and lists errors by row', () => {
+    const results = parseTaskImportRows(
+      [
+        { rowNumber: 2, title: 'Venue' },
+        { rowNumber: 3, title: '' },
+      ],
+      CATEGORIES
+    )
+
+    expect(summarizeImport(results, true, 0)).toEqual({
+      dryRun: true,
+      total: 2,
+      valid: 1,
+      imported: 0,
+      skipped: 1,
+      errors: [{ rowNumber: 3, errors: ['Title is required'] }],
+    })
+  })
+})
@@ -0,0 +1,337 @@
+import {
+  BUDGET_ITEM_STATUSES,
+  TASK_PRIORITIES,
+  TASK_STATUSES,
+  type BudgetItemStatus,
+  type TaskPriority,
+  type TaskStatus,
+} from './eventPlanning'
+import { normalizeCurrency } from './currency'
+
+// ============================================================================
+// Spreadsheet Import - Budget Items & Tasks
+// ============================================================================
+// Rows arrive from the app already mapped onto our fields, with every cell as
+// the text the planner typed. Parsing checks each row on its own so the
+// import preview (a dry run) can list problems per row.
+
+// Most rows one import can carry (keeps each import inside one mutation)
+export const IMPORT_ROW_LIMIT = 500
+
+export interface ImportCategory {
+  value: string
+  label: string
+}
+
+export interface BudgetImportRow {
+  rowNumber: number
+  name?: string
+  category?: string
+  description?: string
+  estimatedAmount?: string
+  actualAmount?: string
+  currency?: string
+  status?: string
+  notes?: string
+}
+
+export interface TaskImportRow {
+  rowNumber: number
+  title?: string
+  description?: string
+  category?: string
+  priority?: string
+  status?: string
+  dueDate?: string
+  notes?: string
+}
+
+export interface ParsedBudgetItem {
+  name: string
+  category: string
+  description?: string
+  estimatedAmount: number
+  actualAmount?: number
+  currency?: string
+  status: BudgetItemStatus
+  notes?: string
+}
+
+export interface ParsedTask {
+  title: string
+  description?: string
+  category?: string
+  priority: TaskPriority
+  status: TaskStatus
+  dueDate?: number
+  notes?: string
+}
+
+// Decimal separator of the file the rows came from. Semicolon-delimited CSVs
+// come from locales that write amounts as "1.250,50", so the client infers it
+// from the delimiter and passes it along with the rows.
+export type DecimalSeparator = '.' | ','
+
+export interface ImportRowResult<T> {
+  rowNumber: number
+  value?: T
+  errors: string[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Day 0 of Excel's date serials, as a Unix day number
+const EXCEL_EPOCH_DAYS = 25569
+
+/**
+ * Lowercase and collapse spaces, hyphens, "&" and "/" so "In Progress" matches
+ * in_progress and "Food & Beverage" matches food_beverage
+ */
+function normalizeKey(raw: string): string {
+  return raw.trim().toLowerCase().replace(/[\s&/-]+/g, '_')
+}
+
+function text(raw: string | undefined): string | undefined {
+  const trimmed = raw?.trim()
+  return trimmed ? trimmed : undefined
+}
+
+/**
+ * Match a cell to one of the allowed values (or a category label)
+ */
+export function matchImportOption<T extends string>(
+  raw: string,
+  options: readonly T[] | readonly ImportCategory[]
+): T | undefined {
+  const key = normalizeKey(raw)
+  for (const option of options) {
+    if (typeof option === 'string') {
+      if (option === key) return option
+    } else if (option.value === key || normalizeKey(option.label) === key) {
+      return option.value as T
+    }
+  }
+  return undefined
+}
+
+/**
+ * Parse an amount cell, allowing currency symbols and thousands separators.
+ * The last "." or "," is the decimal separator when 1-2 digits follow it
+ * ("1.250,50", "12,5"), and a separator that repeats ("1.250.000") groups
+ * thousands. Otherwise the file's decimal separator decides, so "1.250" is
+ * 1250 in a semicolon-separated file. Mixed-up separators ("1,250,50") are
+ * rejected.
+ */
+export function parseImportAmount(raw: string, decimalSeparator: DecimalSeparator = '.'): number | undefined {
+  const cleaned = raw.replace(/[^\d.,-]/g, '')
+  if (!/\d/.test(cleaned)) return undefined
+
+  const lastIndex = Math.max(cleaned.lastIndexOf('.'), cleaned.lastIndexOf(','))
+  const last = cleaned[lastIndex] as DecimalSeparator | undefined
+  const otherThanLast = last === '.' ? ',' : '.'
+  let decimal = decimalSeparator
+  if (last && /^\d{1,2}$/.test(cleaned.slice(lastIndex + 1))) {
+    decimal = last
+  } else if (last && cleaned.split(last).length > 2 && !cleaned.includes(otherThanLast)) {
+    decimal = otherThanLast
+  }
+
+  // The decimal separator may appear once, after every thousands separator
+  const thousands = decimal === '.' ? ',' : '.'
+  const decimalIndex = cleaned.indexOf(decimal)
+  if (decimalIndex !== cleaned.lastIndexOf(decimal)) return undefined
+  if (decimalIndex !== -1 && cleaned.lastIndexOf(thousands) > decimalIndex) return undefined
+
+  const amount = Number(cleaned.split(thousands).join('').replace(decimal, '.'))
+  return Number.isFinite(amount) ? amount : undefined
+}
+
+/**
+ * Parse a date cell: YYYY-MM-DD, an Excel date serial, or anything Date.parse
+ * understands. Date-only values are stored as UTC midnight, like the date
+ * inputs in the app.
+ */
+export function parseImportDate(raw: string): number | undefined {
+  const value = raw.trim()
+
+  const isoDate = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value)
+  if (isoDate) {
+    const [, year, month, day] = isoDate.map(Number)
+    const timestamp = Date.UTC(year, month - 1, day)
+    return new Date(timestamp).getUTCDate() === day ? timestamp : undefined
+  }
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const serial = Number(value)
+    // Roughly 1954-2119; smaller numbers are more likely typos than dates
+    if (serial < 20000 || serial > 80000) return undefined
+    return (Math.floor(serial) - EXCEL_EPOCH_DAYS) * DAY_MS
+  }
+
+  const parsed = Date.parse(value)
+  return Number.isNaN(parsed) ? undefined : parsed
+}
+
+function optionList(options: readonly string[] | readonly ImportCategory[]): string {
+  return options.map((o) => (typeof o === 'string' ? o : o.value)).join(', ')
+}
+
+function parseRequiredText(raw: string | undefined, field: string, errors: string[]): string {
+  const value = text(raw)
+  if (!value) {
+    errors.push(`${field} is required`)
+  } else if (value.length > 200) {
+    errors.push(`${field} must be 200 characters or less`)
+  }
+  return value ?? ''
+}
+
+function parseAmountField(
+  raw: string | undefined,
+  field: string,
+  errors: string[],
+  decimalSeparator?: DecimalSeparator
+): number | undefined {
+  if (!text(raw)) return undefined
+  const amount = parseImportAmount(raw!, decimalSeparator)
+  if (amount === undefined) {
+    errors.push(`${field} "${raw!.trim()}" is not a clear amount (write it like 1250.50 or 1.250,50)`)
+    return undefined
+  }
+  if (amount < 0) {
+    errors.push(`${field} must be a non-negative number (got "${raw!.trim()}")`)
+    return undefined
+  }
+  return amount
+}
+
+function parseOptionField<T extends string>(
+  raw: string | undefined,
+  field: string,
+  options: readonly T[] | readonly ImportCategory[],
+  errors: string[]
+): T | undefined {
+  if (!text(raw)) return undefined
+  const value = matchImportOption<T>(raw!, options)
+  if (!value) {
+    errors.push(`Unknown ${field} "${raw!.trim()}". Use one of: ${optionList(options)}`)
+  }
+  return value
+}
+
+function checkRowLimit(count: number) {
+  if (count > IMPORT_ROW_LIMIT) {
+    throw new Error(`Imports are limited to ${IMPORT_ROW_LIMIT} rows. Split the file and import it in parts.`)
+  }
+}
+
+/**
+ * Check and convert budget item rows. Categories are matched by value or label;
+ * amounts are read with the file's decimal separator when it's known.
+ */
+export function parseBudgetImportRows(
+  rows: BudgetImportRow[],
+  categories: readonly ImportCategory[],
+  decimalSeparator?: DecimalSeparator
+): ImportRowResult<ParsedBudgetItem>[] {
+  checkRowLimit(rows.length)
+
+  return rows.map((row) => {
+    const errors: string[] = []
+
+    const name = parseRequiredText(row.name, 'Name', errors)
+    if (!text(row.category)) errors.push('Category is required')
+    const category = parseOptionField<string>(row.category, 'category', categories, errors)
+
+    if (!text(row.estimatedAmount)) errors.push('Estimated amount is required')
+    const estimatedAmount = parseAmountField(row.estimatedAmount, 'Estimated amount', errors, decimalSeparator)
+    const actualAmount = parseAmountField(row.actualAmount, 'Actual amount', errors, decimalSeparator)
+
+    const status = parseOptionField(row.status, 'status', BUDGET_ITEM_STATUSES, errors)
+
+    let currency: string | undefined
+    if (text(row.currency)) {
+      try {
+        currency = normalizeCurrency(row.currency!)
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : 'Invalid currency')
+      }
+    }
+
+    if (errors.length > 0) return { rowNumber: row.rowNumber, errors }
+
+    return {
+      rowNumber: row.rowNumber,
+      errors,
+      value: {
+        name,
+        category: category!,
+        description: text(row.description),
+        estimatedAmount: estimatedAmount!,
+        actualAmount,
+        currency,
+        status: status ?? 'planned',
+        notes: text(row.notes),
+      },
+    }
+  })
+}
+
+/**
+ * Check and convert task rows. Categories are matched by value or label.
+ */
+export function parseTaskImportRows(
+  rows: TaskImportRow[],
+  categories: readonly ImportCategory[]
+): ImportRowResult<ParsedTask>[] {
+  checkRowLimit(rows.length)
+
+  return rows.map((row) => {
+    const errors: string[] = []
+
+    const title = parseRequiredText(row.title, 'Title', errors)
+    const category = parseOptionField<string>(row.category, 'category', categories, errors)
+    const priority = parseOptionField(row.priority, 'priority', TASK_PRIORITIES, errors)
+    const status = parseOptionField(row.status, 'status', TASK_STATUSES, errors)
+
+    let dueDate: number | undefined
+    if (text(row.dueDate)) {
+      dueDate = parseImportDate(row.dueDate!)
+      if (dueDate === undefined) errors.push(`Due date "${row.dueDate!.trim()}" is not a date (use YYYY-MM-DD)`)
+    }
+
+    if (errors.length > 0) return { rowNumber: row.rowNumber, errors }
+
+    return {
+      rowNumber: row.rowNumber,
+      errors,
+      value: {
+        title,
+        description: text(row.description),
+        category,
+        priority: priority ?? 'medium',
+        status: status ?? 'todo',
+        dueDate,
+        notes: text(row.notes),
+      },
+    }
+  })
+}
+
+/**
+ * What an import reports back: per-row errors, and how many rows were (or in
+ * a dry run, would be) imported
+ */
+export function summarizeImport<T>(results: ImportRowResult<T>[], dryRun: boolean, imported: number) {
+  const errors = results
+    .filter((r) => r.errors.length > 0)
+    .map((r) => ({ rowNumber: r.rowNumber, errors: r.errors }))
+
+  return {
+    dryRun,
+    total: results.length,
+    valid: results.length - errors.length,
+    imported,
+    skipped: errors.length,
+    errors,
+  }
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest'
+import type { Doc, Id } from '../_generated/dataModel'
+import {
+  convertRevenueItems,
+  revenueStatus,
+  summarizeProfitAndLoss,
+  summarizeRevenue,
+  withUntrackedSponsors,
+  type RevenueLine,
+} from './revenue'
+import { summarizeBudget } from './eventPlanning'
+
+const GOLD = 'es_gold' as Id<'eventSponsors'>
+const SILVER = 'es_silver' as Id<'eventSponsors'>
+
+const sponsor = (id: Id<'eventSponsors'>, fields: Partial<Doc<'eventSponsors'>> = {}) =>
+  ({ _id: id, status: 'confirmed', ...fields }) as Doc<'eventSponsors'>
+
+const line = (fields: Partial<RevenueLine> = {}): RevenueLine => ({
+  source: 'tickets',
+  expectedAmount: 100,
+  status: 'expected',
+  ...fields,
+})
+
+describe('revenueStatus', () => {
+  it('is received once payments cover the expected amount', () => {
+    expect(revenueStatus(100, 100)).toBe('received')
+    expect(revenueStatus(100, 120)).toBe('received')
+    expect(revenueStatus(100, 40)).toBe('expected')
+    expect(revenueStatus(0)).toBe('expected')
+  })
+})
+
+describe('withUntrackedSponsors', () => {
+  it('adds confirmed sponsors with an amount that have no line', () => {
+    const items = [{ ...line({ source: 'sponsorship', eventSponsorId: GOLD }) }] as Doc<'revenueItems'>[]
+    const sponsors = [
+      sponsor(GOLD, { amount: 5000 }),
+      sponsor(SILVER, { amount: 2000 }),
+      sponsor('es_pending' as Id<'eventSponsors'>, { status: 'negotiating', amount: 1000 }),
+      sponsor('es_free' as Id<'eventSponsors'>),
+    ]
+
+    const lines = withUntrackedSponsors(items, sponsors)
+
+    expect(lines).toHaveLength(2)
+    expect(lines[1]).toEqual({
+      source: 'sponsorship',
+      expectedAmount: 2000,
+      status: 'expected',
+      eventSponsorId: SILVER,
+    })
+  })
+})
+
+describe('summarizeRevenue', () => {
+  it('totals committed and received by source and sponsor tier', () => {
+    const sponsors = [sponsor(GOLD, { tier: 'gold' }), sponsor(SILVER)]
+    const summary = summarizeRevenue(
+      [
+        line({ source: 'sponsorship', eventSponsorId: GOLD, expectedAmount: 5000, receivedAmount: 2500 }),
+        line({ source: 'sponsorship', eventSponsorId: SILVER, expectedAmount: 1000 }),
+        line({ expectedAmount: 800, receivedAmount: 800, status: 'received' }),
+        line({ source: 'other', expectedAmount: 300, status: 'cancelled' }),
+      ],
+      sponsors
+    )
+
+    expect(summary.totalCommitted).toBe(6800)
+    expect(summary.totalReceived).toBe(3300)
+    expect(summary.outstanding).toBe(3500)
+    expect(summary.bySource.other).toEqual({ committed: 0, received: 0, count: 0 })
+    expect(summary.sponsorship.byTier).toEqual({
+      gold: { committed: 5000, received: 2500, count: 1 },
+      unassigned: { committed: 1000, received: 0, count: 1 },
+    })
+  })
+
+  it('counts money received on cancelled lines but not what they expected', () => {
+    const summary = summarizeRevenue(
+      [
+        line({ source: 'sponsorship', expectedAmount: 2000, receivedAmount: 500, status: 'cancelled' }),
+        line({ source: 'sponsorship', expectedAmount: 1000 }),
+      ],
+      []
+    )
+
+    expect(summary.totalCommitted).toBe(1000)
+    expect(summary.totalReceived).toBe(500)
+    expect(summary.outstanding).toBe(1000)
+    expect(summary.sponsorship.byTier).toEqual({ unassigned: { committed: 1000, received: 500, count: 1 } })
+  })
+})
+
+describe('summarizeProfitAndLoss', () => {
+  it('compares committed income to estimates and received income to payments', () => {
+    const revenue = summarizeRevenue([line({ expectedAmount: 10000, receivedAmount: 4000 })], [])
+    const budget = summarizeBudget([
+      { estimatedAmount: 6000, actualAmount: 5000, status: 'paid', category: 'venue' },
+      { estimatedAmount: 2000, status: 'planned', category: 'av' },
+    ] as Doc<'budgetItems'>[])
+
+    expect(summarizeProfitAndLoss(revenue, budget)).toEqual({
+      costs: { estimated: 8000, actual: 5000, paid: 5000 },
+      projectedProfit: 2000,
+      realizedProfit: -1000,
+      projectedMargin: 20,
+    })
+  })
+})
+
+describe('convertRevenueItems', () => {
+  it('converts at the receipt date for received lines and skips missing rates', async () => {
+    const receivedAt = Date.parse('2026-02-10T12:00:00Z')
+    const now = Date.parse('2026-05-01T12:00:00Z')
+    const dates: string[] = []
+    const getRate = async (from: string, to: string, date: string) => {
+      dates.push(date)
+      if (from === to) return 1
+      return from === 'EUR' ? 1.1 : null
+    }
+
+    const result = await convertRevenueItems(
+      [
+        line({ currency: 'EUR', expectedAmount: 100, receivedAmount: 100, status: 'received', receivedAt }),
+        line({ expectedAmount: 50 }),
+        line({ currency: 'GBP', expectedAmount: 10 }),
+      ],
+      'USD',
+      'USD',
+      getRate,
+      now
+    )
+
+    expect(result.items.map((i) => [i.expectedAmount, i.receivedAmount])).toEqual([
+      [110, 110],
+      [50, undefined],
+    ])
+    expect(result.missingRates).toEqual(['GBP→USD'])
+    expect(dates).toEqual(['2026-02-10', '2026-05-01', '2026-05-01'])
+  })
+})
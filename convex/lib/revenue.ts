@@ -0,0 +1,248 @@
+import type { MutationCtx, QueryCtx } from '../_generated/server'
+import type { Doc, Id } from '../_generated/dataModel'
+import {
+  convertBudgetItems,
+  createRateResolver,
+  getEventCurrency,
+  roundAmount,
+  toRateDate,
+  type RateResolver,
+} from './currency'
+import { summarizeBudget } from './eventPlanning'
+
+// ============================================================================
+// Event Revenue & Profit and Loss
+// ============================================================================
+// The income side of an event's budget. Each confirmed sponsor gets a
+// sponsorship line that follows its eventSponsors amount; ticket and other
+// income lines are entered by hand. Payments add to a line's receivedAmount.
+
+export const REVENUE_SOURCES = ['sponsorship', 'tickets', 'other'] as const
+export type RevenueSource = (typeof REVENUE_SOURCES)[number]
+
+// Tier used for sponsorships without one
+export const UNASSIGNED_TIER = 'unassigned'
+
+// The fields the rollups need, so confirmed sponsors without a line can be counted too
+export type RevenueLine = Pick<
+  Doc<'revenueItems'>,
+  'source' | 'expectedAmount' | 'receivedAmount' | 'currency' | 'status' | 'receivedAt' | 'eventSponsorId'
+>
+
+type IncomeTotals = { committed: number; received: number; count: number }
+
+/**
+ * A line is received once payments cover what was expected
+ */
+export function revenueStatus(expectedAmount: number, receivedAmount: number = 0): 'expected' | 'received' {
+  return receivedAmount > 0 && receivedAmount >= expectedAmount ? 'received' : 'expected'
+}
+
+/**
+ * Ledger lines plus confirmed sponsors that have no sponsorship line yet
+ */
+export function withUntrackedSponsors(
+  items: Doc<'revenueItems'>[],
+  sponsors: Doc<'eventSponsors'>[]
+): RevenueLine[] {
+  const tracked = new Set(items.map((item) => item.eventSponsorId).filter(Boolean))
+  const untracked = sponsors
+    .filter((s) => s.status === 'confirmed' && (s.amount ?? 0) > 0 && !tracked.has(s._id))
+    .map((s): RevenueLine => ({
+      source: 'sponsorship',
+      expectedAmount: s.amount!,
+      status: 'expected',
+      eventSponsorId: s._id,
+    }))
+  return [...items, ...untracked]
+}
+
+/**
+ * Convert revenue lines into a target currency. Received lines use the rate
+ * from their latest payment, everything else today's rate.
+ */
+export async function convertRevenueItems<T extends RevenueLine>(
+  items: T[],
+  eventCurrency: string,
+  targetCurrency: string,
+  getRate: RateResolver,
+  now: number = Date.now()
+): Promise<{ items: T[]; missingRates: string[] }> {
+  const missing = new Set<string>()
+  const converted: T[] = []
+
+  for (const item of items) {
+    const from = item.currency ?? eventCurrency
+    const date = toRateDate(item.status === 'received' && item.receivedAt ? item.receivedAt : now)
+    const rate = await getRate(from, targetCurrency, date)
+    if (rate === null) {
+      missing.add(`${from}→${targetCurrency}`)
+      continue
+    }
+
+    converted.push({
+      ...item,
+      expectedAmount: roundAmount(item.expectedAmount * rate),
+      receivedAmount: item.receivedAmount === undefined ? undefined : roundAmount(item.receivedAmount * rate),
+    })
+  }
+
+  return { items: converted, missingRates: [...missing] }
+}
+
+/**
+ * Income rollup: committed vs received by source, and sponsorships by tier.
+ * Cancelled lines only count towards what was received, since that money is
+ * still in hand. Amounts must already be in one currency.
+ */
+export function summarizeRevenue(items: RevenueLine[], sponsors: Doc<'eventSponsors'>[]) {
+  const tierOf = new Map(sponsors.map((s) => [s._id as string, s.tier || UNASSIGNED_TIER]))
+  const empty = (): IncomeTotals => ({ committed: 0, received: 0, count: 0 })
+  const add = (totals: IncomeTotals, item: RevenueLine) => {
+    totals.received = roundAmount(totals.received + (item.receivedAmount ?? 0))
+    if (item.status === 'cancelled') return
+    totals.committed = roundAmount(totals.committed + item.expectedAmount)
+    totals.count += 1
+  }
+
+  const bySource: Record<RevenueSource, IncomeTotals> = {
+    sponsorship: empty(),
+    tickets: empty(),
+    other: empty(),
+  }
+  const byTier: Record<string, IncomeTotals> = {}
+
+  // Received on cancelled lines, which no longer offsets what is outstanding
+  let cancelledReceived = 0
+  for (const item of items) {
+    add(bySource[item.source], item)
+    if (item.status === 'cancelled') cancelledReceived = roundAmount(cancelledReceived + (item.receivedAmount ?? 0))
+
+    if (item.source === 'sponsorship') {
+      const tier = (item.eventSponsorId && tierOf.get(item.eventSponsorId)) || UNASSIGNED_TIER
+      byTier[tier] ??= empty()
+      add(byTier[tier], item)
+    }
+  }
+
+  const totalCommitted = roundAmount(REVENUE_SOURCES.reduce((sum, s) => sum + bySource[s].committed, 0))
+  const totalReceived = roundAmount(REVENUE_SOURCES.reduce((sum, s) => sum + bySource[s].received, 0))
+
+  return {
+    totalCommitted,
+    totalReceived,
+    outstanding: roundAmount(Math.max(0, totalCommitted - (totalReceived - cancelledReceived))),
+    bySource,
+    sponsorship: { ...bySource.sponsorship, byTier },
+  }
+}
+
+/**
+ * Profit and loss from an income and a cost rollup in the same currency.
+ * Projected: committed income less estimated costs. Realized: income
+ * received less costs paid.
+ */
+export function summarizeProfitAndLoss(
+  revenue: ReturnType<typeof summarizeRevenue>,
+  budget: ReturnType<typeof summarizeBudget>
+) {
+  const projectedProfit = roundAmount(revenue.totalCommitted - budget.totalEstimated)
+  const realizedProfit = roundAmount(revenue.totalReceived - budget.totalPaid)
+
+  return {
+    costs: {
+      estimated: roundAmount(budget.totalEstimated),
+      actual: roundAmount(budget.totalActual),
+      paid: roundAmount(budget.totalPaid),
+    },
+    projectedProfit,
+    realizedProfit,
+    projectedMargin:
+      revenue.totalCommitted > 0 ? Math.round((projectedProfit / revenue.totalCommitted) * 10000) / 100 : 0,
+  }
+}
+
+// ============================================================================
+// Database Helpers
+// ============================================================================
+
+/**
+ * An event's P&L in one currency. Lines and budget items whose exchange rate
+ * is missing are left out and listed in missingRates.
+ */
+export async function summarizeEventProfitAndLoss(
+  ctx: QueryCtx,
+  event: Doc<'events'>,
+  currency: string,
+  getRate: RateResolver = createRateResolver(ctx)
+) {
+  const [budgetItems, revenueItems, sponsors] = await Promise.all([
+    ctx.db.query('budgetItems').withIndex('by_event', (q) => q.eq('eventId', event._id)).collect(),
+    ctx.db.query('revenueItems').withIndex('by_event', (q) => q.eq('eventId', event._id)).collect(),
+    ctx.db.query('eventSponsors').withIndex('by_event', (q) => q.eq('eventId', event._id)).collect(),
+  ])
+
+  const eventCurrency = getEventCurrency(event)
+  const costs = await convertBudgetItems(budgetItems, eventCurrency, currency, getRate)
+  const income = await convertRevenueItems(
+    withUntrackedSponsors(revenueItems, sponsors),
+    eventCurrency,
+    currency,
+    getRate
+  )
+
+  const revenue = summarizeRevenue(income.items, sponsors)
+
+  return {
+    currency,
+    income: revenue,
+    ...summarizeProfitAndLoss(revenue, summarizeBudget(costs.items)),
+    missingRates: [...new Set([...costs.missingRates, ...income.missingRates])],
+  }
+}
+
+/**
+ * Keep a sponsor's sponsorship line in step with the engagement: created on
+ * confirmation, following its amount, and dropped (or cancelled, if money
+ * was already received) when it is no longer confirmed
+ */
+export async function syncSponsorRevenueItem(ctx: MutationCtx, eventSponsorId: Id<'eventSponsors'>) {
+  const eventSponsor = await ctx.db.get(eventSponsorId)
+  const line = await ctx.db
+    .query('revenueItems')
+    .withIndex('by_event_sponsor', (q) => q.eq('eventSponsorId', eventSponsorId))
+    .first()
+
+  const committed = eventSponsor?.status === 'confirmed' ? (eventSponsor.amount ?? 0) : 0
+  const now = Date.now()
+
+  if (!eventSponsor || committed <= 0) {
+    if (!line) return null
+    if (line.receivedAmount) {
+      await ctx.db.patch(line._id, { status: 'cancelled', updatedAt: now })
+    } else {
+      await ctx.db.delete(line._id)
+    }
+    return null
+  }
+
+  if (line) {
+    await ctx.db.patch(line._id, {
+      expectedAmount: committed,
+      status: revenueStatus(committed, line.receivedAmount),
+      updatedAt: now,
+    })
+    return line._id
+  }
+
+  const sponsor = await ctx.db.get(eventSponsor.sponsorId)
+  return ctx.db.insert('revenueItems', {
+    eventId: eventSponsor.eventId,
+    source: 'sponsorship',
+    name: sponsor?.name ?? 'Sponsorship',
+    eventSponsorId,
+    expectedAmount: committed,
+    status: 'expected',
+    createdAt: now,
+  })
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeSearchQuery, sponsorSearchText, vendorSearchText } from './search'
+
+describe('normalizeSearchQuery', () => {
+  it('trims the query and treats blank input as no search', () => {
+    expect(normalizeSearchQuery('  jazz band ')).toBe('jazz band')
+    expect(normalizeSearchQuery('   ')).toBeNull()
+    expect(normalizeSearchQuery(undefined)).toBeNull()
+  })
+
+  it('caps very long queries', () => {
+    expect(normalizeSearchQuery('a'.repeat(500))).toHaveLength(200)
+  })
+})
+
+describe('search text', () => {
+  it('includes vendor services and skips missing fields', () => {
+    expect(
+      vendorSearchText({
+        name: 'Green Table',
+        description: undefined,
+        category: 'catering',
+        services: ['vegan menus', 'bar service'],
+      })
+    ).toBe('Green Table\ncatering\nvegan menus bar service')
+  })
+
+  it('includes the sponsor industry', () => {
+    expect(sponsorSearchText({ name: 'Acme', description: ' Rockets ', industry: 'aerospace' })).toBe(
+      'Acme\nRockets\naerospace'
+    )
+  })
+})
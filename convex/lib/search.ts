@@ -0,0 +1,57 @@
+import type { Doc } from '../_generated/dataModel'
+
+// ============================================================================
+// Full-text Search
+// ============================================================================
+// Events, vendors and sponsors each keep a denormalized `searchText` field
+// behind a `search_text` search index. Every insert and patch that touches
+// one of the source fields must rebuild it with the matching helper below.
+// The housekeeping `backfillSearchText` job fills rows written before that.
+
+// Convex returns at most 1024 search hits; we only ever need the best ones
+export const MAX_SEARCH_RESULTS = 256
+
+// Longer queries add nothing to relevance and cost more to run
+const MAX_QUERY_LENGTH = 200
+
+/**
+ * Trim a user-entered search query, or return null if there is nothing to search for
+ */
+export function normalizeSearchQuery(search: string | undefined): string | null {
+  const query = search?.trim().slice(0, MAX_QUERY_LENGTH)
+  return query ? query : null
+}
+
+function joinSearchParts(parts: Array<string | undefined>) {
+  return parts
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join('\n')
+}
+
+/**
+ * Searchable text for an event: title, description, type and venue
+ */
+export function eventSearchText(
+  event: Pick<Doc<'events'>, 'title' | 'description' | 'eventType' | 'venueName'>
+) {
+  return joinSearchParts([event.title, event.description, event.eventType, event.venueName])
+}
+
+/**
+ * Searchable text for a vendor: name, description, category and services
+ */
+export function vendorSearchText(
+  vendor: Pick<Doc<'vendors'>, 'name' | 'description' | 'category' | 'services'>
+) {
+  return joinSearchParts([vendor.name, vendor.description, vendor.category, vendor.services?.join(' ')])
+}
+
+/**
+ * Searchable text for a sponsor: name, description and industry
+ */
+export function sponsorSearchText(
+  sponsor: Pick<Doc<'sponsors'>, 'name' | 'description' | 'industry'>
+) {
+  return joinSearchParts([sponsor.name, sponsor.description, sponsor.industry])
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { formatLocalDateTime, getTimeZoneOffset, normalizeTimeZone, parseLocalDateTime } from './timezones'
+
+describe('normalizeTimeZone', () => {
+  it('returns the canonical IANA name', () => {
+    expect(normalizeTimeZone('Asia/Kuala_Lumpur')).toBe('Asia/Kuala_Lumpur')
+    expect(normalizeTimeZone(' UTC ')).toBe('UTC')
+  })
+
+  it('rejects unknown zones', () => {
+    expect(() => normalizeTimeZone('Mars/Olympus_Mons')).toThrow('Unknown time zone "Mars/Olympus_Mons"')
+  })
+})
+
+describe('getTimeZoneOffset', () => {
+  it('follows DST', () => {
+    expect(getTimeZoneOffset('America/New_York', Date.UTC(2025, 0, 15))).toBe(-5 * 60 * 60 * 1000)
+    expect(getTimeZoneOffset('America/New_York', Date.UTC(2025, 6, 15))).toBe(-4 * 60 * 60 * 1000)
+  })
+})
+
+describe('parseLocalDateTime', () => {
+  it('reads wall time in the given zone', () => {
+    expect(parseLocalDateTime('2025-03-14T09:00', 'Asia/Kuala_Lumpur')).toEqual({
+      timestamp: Date.UTC(2025, 2, 14, 1, 0),
+    })
+    expect(parseLocalDateTime('2025-07-04 18:30', 'America/New_York')).toEqual({
+      timestamp: Date.UTC(2025, 6, 4, 22, 30),
+    })
+    expect(parseLocalDateTime('2025-03-14', 'UTC')).toEqual({ timestamp: Date.UTC(2025, 2, 14) })
+  })
+
+  it('takes explicit offsets as given', () => {
+    expect(parseLocalDateTime('2025-03-14T09:00+08:00', 'America/New_York')).toEqual({
+      timestamp: Date.UTC(2025, 2, 14, 1, 0),
+    })
+    expect(parseLocalDateTime('2025-03-14T09:00Z', 'Asia/Kuala_Lumpur')).toEqual({
+      timestamp: Date.UTC(2025, 2, 14, 9, 0),
+    })
+  })
+
+  it('asks about day/month order instead of guessing', () => {
+    expect(parseLocalDateTime('03/04/2025', 'UTC')).toEqual({
+      clarification: '"03/04/2025" could be day/month or month/day. Give the date as YYYY-MM-DD.',
+    })
+  })
+
+  it('rejects unreadable and impossible dates', () => {
+    expect(parseLocalDateTime('next Friday', 'UTC')).toHaveProperty('clarification')
+    expect(parseLocalDateTime('2025-02-30T09:00', 'UTC')).toEqual({
+      clarification: '"2025-02-30T09:00" is not a real date and time.',
+    })
+  })
+
+  it('flags wall times skipped or repeated by DST', () => {
+    expect(parseLocalDateTime('2025-03-09T02:30', 'America/New_York')).toEqual({
+      clarification:
+        "02:30 on 2025-03-09 doesn't exist in America/New_York because the clocks go forward that day. Pick another time.",
+    })
+    expect(parseLocalDateTime('2025-11-02T01:30', 'America/New_York')).toEqual({
+      clarification:
+        '01:30 on 2025-11-02 happens twice in America/New_York because the clocks go back that day. Give it with its UTC offset: 2025-11-02T01:30-04:00 or 2025-11-02T01:30-05:00.',
+    })
+  })
+})
+
+describe('formatLocalDateTime', () => {
+  it('shows the wall time in the zone', () => {
+    expect(formatLocalDateTime(Date.UTC(2025, 2, 14, 1, 0), 'Asia/Kuala_Lumpur')).toBe('2025-03-14 09:00')
+    expect(formatLocalDateTime(Date.UTC(2025, 2, 14, 1, 0), 'America/New_York')).toBe('2025-03-13 21:00')
+  })
+})
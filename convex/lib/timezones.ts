@@ -0,0 +1,201 @@
+import type { MutationCtx, QueryCtx } from '../_generated/server'
+import type { Id } from '../_generated/dataModel'
+
+// ============================================================================
+// Event Time Zones
+// ============================================================================
+// Events store absolute timestamps plus the IANA time zone they happen in.
+// Local date/times ("2025-03-14T09:00") from the agent, the dashboard and the
+// REST API are read in the event's time zone, falling back to the organizer
+// profile's and then UTC. Anything we can't read exactly once - an unknown
+// format, a day/month order we'd have to guess, or a wall time skipped or
+// repeated by a DST change - comes back as a clarification, never a guess.
+
+// Used when neither the event nor the organizer profile has a time zone
+export const DEFAULT_TIME_ZONE = 'UTC'
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/
+const EXPLICIT_OFFSET = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/i
+const NUMERIC_DATE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/
+
+export type LocalDateTimeResult = { timestamp: number } | { clarification: string }
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+// Wall-clock parts of a timestamp in a time zone
+function getLocalParts(timestamp: number, timeZone: string) {
+  const parts: Record<string, number> = {}
+  for (const part of getFormatter(timeZone).formatToParts(new Date(timestamp))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value)
+  }
+  return parts as Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number>
+}
+
+/**
+ * Check an IANA time zone name and return its canonical form
+ * (e.g. "asia/kuala_lumpur" -> "Asia/Kuala_Lumpur")
+ */
+export function normalizeTimeZone(timeZone: string): string {
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone: timeZone.trim() }).resolvedOptions().timeZone
+  } catch {
+    throw new Error(`Unknown time zone "${timeZone}". Use an IANA name such as Asia/Kuala_Lumpur`)
+  }
+}
+
+/**
+ * How far a time zone's wall clock is ahead of UTC at a moment, in ms
+ */
+export function getTimeZoneOffset(timeZone: string, timestamp: number): number {
+  const { year, month, day, hour, minute, second } = getLocalParts(timestamp, timeZone)
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second)
+  return wallClock - Math.floor(timestamp / 1000) * 1000
+}
+
+function formatOffset(offset: number): string {
+  const minutes = Math.abs(offset) / MINUTE_MS
+  const sign = offset < 0 ? '-' : '+'
+  return `${sign}${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+/**
+ * Read a local date/time (YYYY-MM-DD, optionally with THH:MM[:SS]) in a time
+ * zone. A value with an explicit UTC offset or Z is taken as is.
+ */
+export function parseLocalDateTime(value: string, timeZone: string): LocalDateTimeResult {
+  const text = value.trim()
+
+  if (EXPLICIT_OFFSET.test(text)) {
+    const timestamp = Date.parse(text.replace(' ', 'T'))
+    if (!Number.isNaN(timestamp)) return { timestamp }
+  }
+
+  const match = LOCAL_DATE_TIME.exec(text)
+  if (!match) {
+    const numeric = NUMERIC_DATE.exec(text)
+    if (numeric && Number(numeric[1]) <= 12 && Number(numeric[2]) <= 12 && numeric[1] !== numeric[2]) {
+      return {
+        clarification: `"${value}" could be day/month or month/day. Give the date as YYYY-MM-DD.`,
+      }
+    }
+    return {
+      clarification: `Couldn't read "${value}" as a date. Use YYYY-MM-DD, optionally with a time (YYYY-MM-DDTHH:MM).`,
+    }
+  }
+
+  const [, year, month, day, hour = '00', minute = '00', second = '00'] = match
+  const wallClock = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second))
+  const date = `${year}-${month}-${day}`
+  if (new Date(wallClock).toISOString().slice(0, 10) !== date || Number(hour) > 23 || Number(minute) > 59 || Number(second) > 59) {
+    return { clarification: `"${value}" is not a real date and time.` }
+  }
+
+  // A DST change moves the offset at most once a day, so the offsets either
+  // side of the wall time are the only ones it can have
+  const offsets = new Set([
+    getTimeZoneOffset(timeZone, wallClock - DAY_MS),
+    getTimeZoneOffset(timeZone, wallClock + DAY_MS),
+  ])
+  const candidates = [...offsets]
+    .filter((offset) => getTimeZoneOffset(timeZone, wallClock - offset) === offset)
+    .map((offset) => ({ offset, timestamp: wallClock - offset }))
+    .sort((a, b) => a.timestamp - b.timestamp)
+
+  const time = `${hour}:${minute}`
+  if (candidates.length === 0) {
+    return {
+      clarification: `${time} on ${date} doesn't exist in ${timeZone} because the clocks go forward that day. Pick another time.`,
+    }
+  }
+  if (candidates.length > 1) {
+    const options = candidates.map((c) => `${date}T${time}${formatOffset(c.offset)}`).join(' or ')
+    return {
+      clarification: `${time} on ${date} happens twice in ${timeZone} because the clocks go back that day. Give it with its UTC offset: ${options}.`,
+    }
+  }
+  return { timestamp: candidates[0].timestamp }
+}
+
+/**
+ * Like parseLocalDateTime, but throws the clarification (for mutations)
+ */
+export function toEventTimestamp(value: string, timeZone: string): number {
+  const result = parseLocalDateTime(value, timeZone)
+  if ('clarification' in result) throw new Error(result.clarification)
+  return result.timestamp
+}
+
+/**
+ * A timestamp as local "YYYY-MM-DD HH:MM" in a time zone
+ */
+export function formatLocalDateTime(timestamp: number, timeZone: string): string {
+  const { year, month, day, hour, minute } = getLocalParts(timestamp, timeZone)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${year}-${pad(month)}-${pad(day)} ${pad(hour)}:${pad(minute)}`
+}
+
+/**
+ * The time zone set on a user's organizer profile, if any
+ */
+export async function getProfileTimeZone(
+  ctx: QueryCtx | MutationCtx,
+  userId: Id<'users'>
+): Promise<string | undefined> {
+  const profile = await ctx.db
+    .query('organizerProfiles')
+    .withIndex('by_user', (q) => q.eq('userId', userId))
+    .first()
+  return profile?.timezone
+}
+
+/**
+ * Work out an event's timestamps from what a create/update call passed:
+ * absolute startDate/endDate, or startLocal/endLocal read in the event's
+ * time zone. The time zone is the one passed, else the event's current one,
+ * else the organizer profile's.
+ */
+export async function resolveEventDates(
+  ctx: QueryCtx | MutationCtx,
+  userId: Id<'users'>,
+  args: { startDate?: number; startLocal?: string; endDate?: number; endLocal?: string; timezone?: string },
+  currentTimeZone?: string
+): Promise<{ startDate?: number; endDate?: number; timezone?: string }> {
+  if (args.startDate !== undefined && args.startLocal !== undefined) {
+    throw new Error('Pass either startDate or startLocal, not both')
+  }
+  if (args.endDate !== undefined && args.endLocal !== undefined) {
+    throw new Error('Pass either endDate or endLocal, not both')
+  }
+
+  const timezone = args.timezone
+    ? normalizeTimeZone(args.timezone)
+    : currentTimeZone ?? (await getProfileTimeZone(ctx, userId))
+  const readIn = timezone ?? DEFAULT_TIME_ZONE
+
+  return {
+    startDate: args.startLocal !== undefined ? toEventTimestamp(args.startLocal, readIn) : args.startDate,
+    endDate: args.endLocal !== undefined ? toEventTimestamp(args.endLocal, readIn) : args.endDate,
+    timezone,
+  }
+}
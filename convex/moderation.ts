@@ -6,15 +6,17 @@
  */
 
 import { v } from 'convex/values'
+import { paginationOptsValidator } from 'convex/server'
 import { mutation, query } from './_generated/server'
 import { assertRole, getCurrentUser } from './lib/auth'
+import { notify } from './lib/notifications'
 
 // ============================================================================
 // Queries
 // ============================================================================
 
 /**
- * Get moderation logs with filtering
+ * Get moderation logs with filtering and cursor pagination (newest first)
  * Accessible by admin and superadmin
  */
 export const getModerationLogs = query({
@@ -30,6 +32,8 @@ export const getModerationLogs = query({
         v.literal('vendor_rejected'),
         v.literal('sponsor_approved'),
         v.literal('sponsor_rejected'),
+        v.literal('vendor_imported'),
+        v.literal('sponsor_imported'),
         v.literal('event_flagged'),
         v.literal('event_unflagged'),
         v.literal('event_removed')
@@ -43,38 +47,28 @@ export const getModerationLogs = query({
         v.literal('event')
       )
     ),
-    limit: v.optional(v.number()),
+    paginationOpts: paginationOptsValidator,
   },
   handler: async (ctx, args) => {
     await assertRole(ctx, 'admin')
 
-    let logs
-
     // Filter by action if specified
     const actionFilter = args.action
-    if (actionFilter) {
-      logs = await ctx.db
-        .query('moderationLogs')
-        .withIndex('by_action', (q) => q.eq('action', actionFilter))
-        .order('desc')
-        .collect()
-    } else {
-      logs = await ctx.db.query('moderationLogs').order('desc').collect()
-    }
-
-    // Filter by target type in memory if specified
-    let filteredLogs = logs
-    if (args.targetType) {
-      filteredLogs = logs.filter((l) => l.targetType === args.targetType)
-    }
-
-    // Apply limit
-    const limit = args.limit || 50
-    const limitedLogs = filteredLogs.slice(0, limit)
+    const logsQuery = actionFilter
+      ? ctx.db
+          .query('moderationLogs')
+          .withIndex('by_action', (q) => q.eq('action', actionFilter))
+      : ctx.db.query('moderationLogs')
+
+    const targetType = args.targetType
+    const result = await logsQuery
+      .order('desc')
+      .filter((q) => (targetType ? q.eq(q.field('targetType'), targetType) : true))
+      .paginate(args.paginationOpts)
 
     // Enrich with admin info
     const enrichedLogs = await Promise.all(
-      limitedLogs.map(async (log) => {
+      result.page.map(async (log) => {
         const admin = await ctx.db.get(log.adminId)
         return {
           ...log,
@@ -84,7 +78,7 @@ export const getModerationLogs = query({
       })
     )
 
-    return enrichedLogs
+    return { ...result, page: enrichedLogs }
   },
 })
 
@@ -212,6 +206,13 @@ export const suspendUser = mutation({
       createdAt: now,
     })
 
+    await notify(ctx, args.userId, {
+      type: 'moderation',
+      title: 'Your account has been suspended',
+      body: args.reason,
+      actorId: admin._id,
+    })
+
     return { success: true }
   },
 })
@@ -270,6 +271,14 @@ export const unsuspendUser = mutation({
       createdAt: now,
     })
 
+    await notify(ctx, args.userId, {
+      type: 'moderation',
+      title: 'Your account suspension has been lifted',
+      body: args.reason,
+      link: '/dashboard',
+      actorId: admin._id,
+    })
+
     return { success: true }
   },
 })
@@ -333,6 +342,14 @@ export const changeUserRole = mutation({
       createdAt: now,
     })
 
+    await notify(ctx, args.userId, {
+      type: 'moderation',
+      title: `Your role changed from ${previousRole} to ${args.newRole}`,
+      body: args.reason,
+      link: args.newRole === 'admin' ? '/admin' : '/dashboard',
+      actorId: superadmin._id,
+    })
+
     return { success: true }
   },
 })
@@ -1,5 +1,6 @@
 import { mutation } from '../_generated/server'
 import { assertRole } from '../lib/auth'
+import { eventSearchText } from '../lib/search'
 import { v } from 'convex/values'
 
 /**
@@ -25,6 +26,7 @@ export const createEvent = mutation({
       description: args.description,
       eventType: args.eventType,
       status: 'draft',
+      searchText: eventSearchText(args),
       createdAt: Date.now(),
     })
 
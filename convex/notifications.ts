@@ -0,0 +1,173 @@
+import { v } from 'convex/values'
+import { query, mutation, internalAction } from './_generated/server'
+import { getCurrentUser } from './lib/auth'
+import { createEmailTransport, notificationEmail } from './lib/email'
+import {
+  getNotificationPreferences,
+  isNotificationType,
+  NOTIFICATION_TYPES,
+  type NotificationType,
+} from './lib/notifications'
+
+const SITE_URL = process.env.SITE_URL || 'http://localhost:5173'
+
+// Most notifications the bell loads at once
+const MAX_LIST = 50
+
+// Unread counts stop here; the bell shows "99+"
+const MAX_UNREAD_COUNT = 100
+
+// Get the current user's latest notifications, newest first
+export const list = query({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return []
+
+    const limit = Math.min(Math.max(args.limit ?? 20, 1), MAX_LIST)
+    return ctx.db
+      .query('notifications')
+      .withIndex('by_user', (q) => q.eq('userId', user._id))
+      .order('desc')
+      .take(limit)
+  },
+})
+
+// Count the current user's unread notifications (capped at MAX_UNREAD_COUNT)
+export const getUnreadCount = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return 0
+
+    const unread = await ctx.db
+      .query('notifications')
+      .withIndex('by_user_read', (q) => q.eq('userId', user._id).eq('readAt', undefined))
+      .take(MAX_UNREAD_COUNT)
+    return unread.length
+  },
+})
+
+// Mark one notification read
+export const markRead = mutation({
+  args: { id: v.id('notifications') },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Not authenticated')
+
+    const notification = await ctx.db.get(args.id)
+    if (!notification || notification.userId !== user._id) {
+      throw new Error('Notification not found')
+    }
+
+    if (notification.readAt === undefined) {
+      await ctx.db.patch(args.id, { readAt: Date.now() })
+    }
+  },
+})
+
+// Mark all of the current user's notifications read
+export const markAllRead = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Not authenticated')
+
+    const unread = await ctx.db
+      .query('notifications')
+      .withIndex('by_user_read', (q) => q.eq('userId', user._id).eq('readAt', undefined))
+      .collect()
+
+    const now = Date.now()
+    for (const notification of unread) {
+      await ctx.db.patch(notification._id, { readAt: now })
+    }
+
+    return unread.length
+  },
+})
+
+// Get the current user's delivery channels for each notification type
+export const getPreferences = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return null
+
+    const preferences = await getNotificationPreferences(ctx, user._id)
+    return (Object.keys(NOTIFICATION_TYPES) as NotificationType[]).map((type) => ({
+      type,
+      ...NOTIFICATION_TYPES[type],
+      ...preferences[type],
+    }))
+  },
+})
+
+// Save the current user's delivery channels (types left out keep their current setting)
+export const updatePreferences = mutation({
+  args: {
+    preferences: v.array(
+      v.object({
+        type: v.string(),
+        inApp: v.boolean(),
+        email: v.boolean(),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Not authenticated')
+
+    for (const { type } of args.preferences) {
+      if (!isNotificationType(type)) throw new Error(`Unknown notification type: ${type}`)
+    }
+
+    const current = await getNotificationPreferences(ctx, user._id)
+    for (const { type, inApp, email } of args.preferences) {
+      current[type as NotificationType] = { inApp, email }
+    }
+    const preferences = Object.entries(current).map(([type, channels]) => ({ type, ...channels }))
+
+    const existing = await ctx.db
+      .query('notificationPreferences')
+      .withIndex('by_user', (q) => q.eq('userId', user._id))
+      .first()
+    if (existing) {
+      await ctx.db.patch(existing._id, { preferences, updatedAt: Date.now() })
+    } else {
+      await ctx.db.insert('notificationPreferences', { userId: user._id, preferences, updatedAt: Date.now() })
+    }
+
+    return { success: true }
+  },
+})
+
+// Send the email copy of a notification through the configured transport
+export const sendEmail = internalAction({
+  args: {
+    to: v.string(),
+    title: v.string(),
+    body: v.optional(v.string()),
+    link: v.optional(v.string()),
+  },
+  handler: async (_ctx, args) => {
+    const transport = createEmailTransport({
+      resendApiKey: process.env.AUTH_RESEND_KEY,
+      from: process.env.EMAIL_FROM,
+    })
+
+    try {
+      await transport.send(
+        notificationEmail({
+          to: args.to,
+          title: args.title,
+          body: args.body,
+          url: args.link ? `${SITE_URL}${args.link}` : undefined,
+        })
+      )
+    } catch (error) {
+      // The in-app notification is the record; a failed email isn't retried
+      console.error('Notification email failed:', error instanceof Error ? error.message : error)
+    }
+  },
+})
@@ -0,0 +1,388 @@
+import { v } from 'convex/values'
+import { query, mutation } from './_generated/server'
+import type { MutationCtx } from './_generated/server'
+import type { Id } from './_generated/dataModel'
+import { getCurrentUser, isAdminRole, isPortalRole } from './lib/auth'
+import { normalizeCurrency } from './lib/currency'
+import { normalizeWorkspaceInstructions } from './lib/agent/personas'
+import { getActiveMembership, getMembership, hasOrgRole } from './lib/organizations'
+
+const roleValidator = v.union(v.literal('owner'), v.literal('editor'), v.literal('viewer'))
+
+const NAME_MAX_LENGTH = 100
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Validate and normalize a workspace name
+ */
+function normalizeName(name: string): string {
+  const trimmed = name.trim()
+  if (!trimmed) throw new Error('Workspace name cannot be empty')
+  if (trimmed.length > NAME_MAX_LENGTH) {
+    throw new Error(`Workspace name must be ${NAME_MAX_LENGTH} characters or less`)
+  }
+  return trimmed
+}
+
+/**
+ * Require the current user to be an owner of the organization
+ */
+async function assertOwner(ctx: MutationCtx, organizationId: Id<'organizations'>) {
+  const user = await getCurrentUser(ctx)
+  if (!user) throw new Error('Authentication required')
+
+  const membership = await getMembership(ctx, organizationId, user._id)
+  if (!membership || !hasOrgRole(membership.role, 'owner')) {
+    throw new Error('Access denied - only workspace owners can do this')
+  }
+
+  return user
+}
+
+/**
+ * Count the owners of an organization
+ */
+async function countOwners(ctx: MutationCtx, organizationId: Id<'organizations'>) {
+  const members = await ctx.db
+    .query('organizationMembers')
+    .withIndex('by_organization', (q) => q.eq('organizationId', organizationId))
+    .collect()
+  return members.filter((m) => m.role === 'owner').length
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * List the organizations the current user belongs to, with their role
+ */
+export const listMine = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return []
+
+    const memberships = await ctx.db
+      .query('organizationMembers')
+      .withIndex('by_user', (q) => q.eq('userId', user._id))
+      .collect()
+
+    const organizations = await Promise.all(
+      memberships.map(async (m) => {
+        const org = await ctx.db.get(m.organizationId)
+        return org ? { ...org, role: m.role } : null
+      })
+    )
+
+    return organizations
+      .filter((o) => o !== null)
+      .sort((a, b) => a.name.localeCompare(b.name))
+  },
+})
+
+/**
+ * Get the current user's active workspace. Returns null for the personal workspace.
+ */
+export const getActive = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return null
+
+    const membership = await getActiveMembership(ctx, user)
+    if (!membership) return null
+
+    const org = await ctx.db.get(membership.organizationId)
+    return org ? { ...org, role: membership.role } : null
+  },
+})
+
+/**
+ * Admin: List every organization by name
+ */
+export const listForAdmin = query({
+  args: {},
+  handler: async (ctx) => {
+    const admin = await getCurrentUser(ctx)
+    if (!admin || !isAdminRole(admin.role)) {
+      throw new Error('Unauthorized: Admin access required')
+    }
+
+    const organizations = await ctx.db.query('organizations').collect()
+    return organizations
+      .map((org) => ({ _id: org._id, name: org.name }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  },
+})
+
+/**
+ * List members of an organization (members only)
+ */
+export const listMembers = query({
+  args: { organizationId: v.id('organizations') },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return []
+
+    const membership = await getMembership(ctx, args.organizationId, user._id)
+    if (!membership) return []
+
+    const members = await ctx.db
+      .query('organizationMembers')
+      .withIndex('by_organization', (q) => q.eq('organizationId', args.organizationId))
+      .collect()
+
+    return Promise.all(
+      members.map(async (m) => {
+        const member = await ctx.db.get(m.userId)
+        return {
+          _id: m._id,
+          userId: m.userId,
+          role: m.role,
+          name: member?.name,
+          email: member?.email,
+          image: member?.image,
+          createdAt: m.createdAt,
+        }
+      })
+    )
+  },
+})
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Create a workspace owned by the current user and switch to it
+ */
+export const create = mutation({
+  args: { name: v.string() },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Authentication required')
+    if (isPortalRole(user.role)) throw new Error('Portal accounts cannot create workspaces')
+
+    const now = Date.now()
+    const organizationId = await ctx.db.insert('organizations', {
+      name: normalizeName(args.name),
+      createdBy: user._id,
+      createdAt: now,
+    })
+
+    await ctx.db.insert('organizationMembers', {
+      organizationId,
+      userId: user._id,
+      role: 'owner',
+      createdAt: now,
+    })
+
+    await ctx.db.patch(user._id, { activeOrganizationId: organizationId, updatedAt: now })
+
+    return organizationId
+  },
+})
+
+/**
+ * Rename a workspace (owners only)
+ */
+export const update = mutation({
+  args: {
+    id: v.id('organizations'),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await assertOwner(ctx, args.id)
+
+    await ctx.db.patch(args.id, {
+      name: normalizeName(args.name),
+      updatedAt: Date.now(),
+    })
+
+    return { success: true }
+  },
+})
+
+/**
+ * Set the currency budget analytics are reported in (owners only)
+ */
+export const setReportingCurrency = mutation({
+  args: {
+    id: v.id('organizations'),
+    currency: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await assertOwner(ctx, args.id)
+
+    await ctx.db.patch(args.id, {
+      reportingCurrency: normalizeCurrency(args.currency),
+      updatedAt: Date.now(),
+    })
+
+    return { success: true }
+  },
+})
+
+/**
+ * Pick the AI assistant persona for the workspace and add instructions of its
+ * own (owners only). Omit personaId for the default persona.
+ */
+export const setAgentPersona = mutation({
+  args: {
+    id: v.id('organizations'),
+    personaId: v.optional(v.id('agentPersonas')),
+    instructions: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await assertOwner(ctx, args.id)
+
+    if (args.personaId) {
+      const persona = await ctx.db.get(args.personaId)
+      if (!persona || persona.isArchived) throw new Error('Persona not found')
+    }
+
+    await ctx.db.patch(args.id, {
+      agentPersonaId: args.personaId,
+      agentInstructions: normalizeWorkspaceInstructions(args.instructions),
+      updatedAt: Date.now(),
+    })
+
+    return { success: true }
+  },
+})
+
+/**
+ * Switch the active workspace. Omit organizationId for the personal workspace.
+ */
+export const setActive = mutation({
+  args: { organizationId: v.optional(v.id('organizations')) },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Authentication required')
+
+    if (args.organizationId) {
+      const membership = await getMembership(ctx, args.organizationId, user._id)
+      if (!membership) throw new Error('You are not a member of this workspace')
+    }
+
+    await ctx.db.patch(user._id, {
+      activeOrganizationId: args.organizationId,
+      updatedAt: Date.now(),
+    })
+
+    return { success: true }
+  },
+})
+
+/**
+ * Change a member's role (owners only). A workspace always keeps one owner.
+ */
+export const updateMemberRole = mutation({
+  args: {
+    memberId: v.id('organizationMembers'),
+    role: roleValidator,
+  },
+  handler: async (ctx, args) => {
+    const membership = await ctx.db.get(args.memberId)
+    if (!membership) throw new Error('Member not found')
+
+    await assertOwner(ctx, membership.organizationId)
+
+    if (membership.role === 'owner' && args.role !== 'owner') {
+      const owners = await countOwners(ctx, membership.organizationId)
+      if (owners <= 1) throw new Error('A workspace must have at least one owner')
+    }
+
+    await ctx.db.patch(args.memberId, { role: args.role, updatedAt: Date.now() })
+
+    return { success: true }
+  },
+})
+
+/**
+ * Remove a member (owners only), or leave a workspace yourself
+ */
+export const removeMember = mutation({
+  args: { memberId: v.id('organizationMembers') },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Authentication required')
+
+    const membership = await ctx.db.get(args.memberId)
+    if (!membership) throw new Error('Member not found')
+
+    if (membership.userId !== user._id) {
+      await assertOwner(ctx, membership.organizationId)
+    }
+
+    if (membership.role === 'owner') {
+      const owners = await countOwners(ctx, membership.organizationId)
+      if (owners <= 1) throw new Error('A workspace must have at least one owner')
+    }
+
+    await ctx.db.delete(args.memberId)
+
+    // Drop the removed member back to their personal workspace
+    const member = await ctx.db.get(membership.userId)
+    if (member?.activeOrganizationId === membership.organizationId) {
+      await ctx.db.patch(member._id, { activeOrganizationId: undefined, updatedAt: Date.now() })
+    }
+
+    return { success: true }
+  },
+})
+
+/**
+ * Delete a workspace (owners only). Events must be moved or deleted first.
+ */
+export const remove = mutation({
+  args: { id: v.id('organizations') },
+  handler: async (ctx, args) => {
+    await assertOwner(ctx, args.id)
+
+    const event = await ctx.db
+      .query('events')
+      .withIndex('by_organization', (q) => q.eq('organizationId', args.id))
+      .first()
+    if (event) {
+      throw new Error('Cannot delete a workspace that still has events')
+    }
+
+    const members = await ctx.db
+      .query('organizationMembers')
+      .withIndex('by_organization', (q) => q.eq('organizationId', args.id))
+      .collect()
+
+    for (const m of members) {
+      const member = await ctx.db.get(m.userId)
+      if (member?.activeOrganizationId === args.id) {
+        await ctx.db.patch(member._id, { activeOrganizationId: undefined, updatedAt: Date.now() })
+      }
+      await ctx.db.delete(m._id)
+    }
+
+    const invitations = await ctx.db
+      .query('invitations')
+      .withIndex('by_organization', (q) => q.eq('organizationId', args.id))
+      .collect()
+    for (const invitation of invitations) {
+      await ctx.db.delete(invitation._id)
+    }
+
+    const providerPin = await ctx.db
+      .query('aiProviderPins')
+      .withIndex('by_organization', (q) => q.eq('organizationId', args.id))
+      .first()
+    if (providerPin) {
+      await ctx.db.delete(providerPin._id)
+    }
+
+    await ctx.db.delete(args.id)
+
+    return { success: true }
+  },
+})
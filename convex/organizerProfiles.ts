@@ -1,6 +1,7 @@
 import { v } from 'convex/values'
 import { mutation, query } from './_generated/server'
 import { getCurrentUser } from './lib/auth'
+import { normalizeTimeZone } from './lib/timezones'
 
 // Save or update organizer profile (onboarding data)
 export const saveProfile = mutation({
@@ -12,6 +13,7 @@ export const saveProfile = mutation({
     goals: v.optional(v.array(v.string())),
     experienceLevel: v.optional(v.string()),
     referralSource: v.optional(v.string()),
+    timezone: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const user = await getCurrentUser(ctx)
@@ -19,6 +21,9 @@ export const saveProfile = mutation({
       throw new Error('Not authenticated')
     }
 
+    const fields =
+      args.timezone === undefined ? args : { ...args, timezone: normalizeTimeZone(args.timezone) }
+
     // Check if profile already exists
     const existingProfile = await ctx.db
       .query('organizerProfiles')
@@ -28,7 +33,7 @@ export const saveProfile = mutation({
     if (existingProfile) {
       // Update existing profile
       await ctx.db.patch(existingProfile._id, {
-        ...args,
+        ...fields,
         updatedAt: Date.now(),
       })
       return existingProfile._id
@@ -36,7 +41,7 @@ export const saveProfile = mutation({
       // Create new profile
       const profileId = await ctx.db.insert('organizerProfiles', {
         userId: user._id,
-        ...args,
+        ...fields,
         createdAt: Date.now(),
       })
       return profileId
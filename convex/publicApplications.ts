@@ -1,12 +1,14 @@
 import { mutation, query } from './_generated/server'
 import { v } from 'convex/values'
 import { assertRole } from './lib/auth'
+import { sponsorSearchText, vendorSearchText } from './lib/search'
+import { issueInvitation, normalizeEmail } from './invitations'
 
 // ============================================================================
 // Constants
 // ============================================================================
 
-const VENDOR_CATEGORIES = [
+export const VENDOR_CATEGORIES = [
   'catering',
   'av',
   'photography',
@@ -21,7 +23,7 @@ const VENDOR_CATEGORIES = [
   'other',
 ] as const
 
-const SPONSOR_INDUSTRIES = [
+export const SPONSOR_INDUSTRIES = [
   'technology',
   'finance',
   'healthcare',
@@ -37,9 +39,9 @@ const SPONSOR_INDUSTRIES = [
   'other',
 ] as const
 
-const SPONSORSHIP_TIERS = ['platinum', 'gold', 'silver', 'bronze', 'custom'] as const
+export const SPONSORSHIP_TIERS = ['platinum', 'gold', 'silver', 'bronze', 'custom'] as const
 
-const PRICE_RANGES = ['budget', 'mid', 'premium'] as const
+export const PRICE_RANGES = ['budget', 'mid', 'premium'] as const
 
 const REFERRAL_SOURCES = [
   'google',
@@ -447,6 +449,12 @@ export const convertToVendor = mutation({
       contactPhone: application.contactPhone,
       contactName: application.contactName,
       website: application.website,
+      searchText: vendorSearchText({
+        name: application.companyName,
+        description: application.description,
+        category: application.vendorCategory || 'other',
+        services: application.vendorServices,
+      }),
       verified: false,
       status: args.autoApprove ? 'approved' : 'pending',
       applicationSource: 'form',
@@ -484,13 +492,15 @@ export const convertToVendor = mutation({
 })
 
 /**
- * Convert an approved application to a sponsor record
+ * Convert an approved application to a sponsor record. Unless invitePortal is
+ * false, the application contact is invited to manage it in the sponsor portal.
  */
 export const convertToSponsor = mutation({
   args: {
     applicationId: v.id('publicApplications'),
     autoApprove: v.optional(v.boolean()),
     additionalNotes: v.optional(v.string()),
+    invitePortal: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     const user = await assertRole(ctx, 'admin')
@@ -522,6 +532,11 @@ export const convertToSponsor = mutation({
       contactName: application.contactName,
       contactPhone: application.contactPhone,
       website: application.website,
+      searchText: sponsorSearchText({
+        name: application.companyName,
+        description: application.description,
+        industry: application.sponsorIndustry || 'other',
+      }),
       verified: false,
       status: args.autoApprove ? 'approved' : 'pending',
       applicationSource: 'form',
@@ -554,7 +569,17 @@ export const convertToSponsor = mutation({
       createdAt: Date.now(),
     })
 
-    return { sponsorId, autoApproved: args.autoApprove ?? false }
+    // Link a portal account through the usual invitation flow
+    const invitationId =
+      args.invitePortal !== false
+        ? await issueInvitation(ctx, {
+            sponsorId,
+            email: normalizeEmail(application.contactEmail),
+            invitedBy: user._id,
+          })
+        : null
+
+    return { sponsorId, autoApproved: args.autoApprove ?? false, invitationId }
   },
 })
 
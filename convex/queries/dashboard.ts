@@ -1,5 +1,6 @@
 import { query } from '../_generated/server'
 import { assertRole } from '../lib/auth'
+import { listWorkspaceEvents } from '../lib/organizations'
 
 /**
  * Superadmin Dashboard Query
@@ -86,11 +87,8 @@ export const getOrganizerDashboard = query({
     // Assert organizer role
     const currentUser = await assertRole(ctx, 'organizer')
 
-    // Get all events for this organizer
-    const allEvents = await ctx.db
-      .query('events')
-      .withIndex('by_organizer', (q) => q.eq('organizerId', currentUser._id))
-      .collect()
+    // Get all events in the organizer's workspace
+    const allEvents = await listWorkspaceEvents(ctx, currentUser)
 
     const now = Date.now()
 
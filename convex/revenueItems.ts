@@ -0,0 +1,261 @@
+import { v } from 'convex/values'
+import { query, mutation } from './_generated/server'
+import type { MutationCtx } from './_generated/server'
+import type { Id } from './_generated/dataModel'
+import { getCurrentUser } from './lib/auth'
+import { canAccessEvent } from './lib/organizations'
+import { getEventCurrency, getReportingCurrency, normalizeCurrency, roundAmount } from './lib/currency'
+import {
+  revenueStatus,
+  summarizeEventProfitAndLoss,
+  syncSponsorRevenueItem,
+  UNASSIGNED_TIER,
+} from './lib/revenue'
+
+const manualSourceValidator = v.union(v.literal('tickets'), v.literal('other'))
+
+// Load a revenue line and its event, requiring edit access to the event
+async function getEditableRevenueItem(ctx: MutationCtx, id: Id<'revenueItems'>) {
+  const user = await getCurrentUser(ctx)
+  if (!user) throw new Error('Not authenticated')
+
+  const item = await ctx.db.get(id)
+  if (!item) throw new Error('Revenue item not found')
+
+  const event = await ctx.db.get(item.eventId)
+  if (!event || !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
+    throw new Error('Access denied')
+  }
+
+  return { item, event }
+}
+
+function assertAmount(amount: number | undefined, field: string) {
+  if (amount !== undefined && (!Number.isFinite(amount) || amount < 0)) {
+    throw new Error(`${field} must be a non-negative number`)
+  }
+}
+
+// Get an event's revenue lines, plus confirmed sponsors not in the ledger yet
+export const listByEvent = query({
+  args: { eventId: v.id('events') },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return null
+
+    // Verify user can view the event
+    const event = await ctx.db.get(args.eventId)
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'viewer'))) return null
+
+    const items = await ctx.db
+      .query('revenueItems')
+      .withIndex('by_event', (q) => q.eq('eventId', args.eventId))
+      .collect()
+
+    const sponsors = await ctx.db
+      .query('eventSponsors')
+      .withIndex('by_event', (q) => q.eq('eventId', args.eventId))
+      .collect()
+    const sponsorById = new Map(sponsors.map((s) => [s._id as string, s]))
+
+    const tracked = new Set(items.map((item) => item.eventSponsorId).filter(Boolean))
+    const untrackedSponsors = await Promise.all(
+      sponsors
+        .filter((s) => s.status === 'confirmed' && (s.amount ?? 0) > 0 && !tracked.has(s._id))
+        .map(async (s) => ({
+          eventSponsorId: s._id,
+          name: (await ctx.db.get(s.sponsorId))?.name ?? 'Unknown sponsor',
+          tier: s.tier || UNASSIGNED_TIER,
+          amount: s.amount!,
+        }))
+    )
+
+    return {
+      items: items.map((item) => ({
+        ...item,
+        tier: item.eventSponsorId
+          ? sponsorById.get(item.eventSponsorId)?.tier || UNASSIGNED_TIER
+          : undefined,
+      })),
+      untrackedSponsors,
+    }
+  },
+})
+
+// Get an event's profit & loss in the event currency and the workspace reporting currency
+export const getProfitAndLoss = query({
+  args: { eventId: v.id('events') },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return null
+
+    // Verify user can view the event
+    const event = await ctx.db.get(args.eventId)
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'viewer'))) return null
+
+    const eventCurrency = getEventCurrency(event)
+    const reportingCurrency = await getReportingCurrency(ctx, event.organizationId)
+
+    return {
+      ...(await summarizeEventProfitAndLoss(ctx, event, eventCurrency)),
+      reporting:
+        reportingCurrency === eventCurrency
+          ? null
+          : await summarizeEventProfitAndLoss(ctx, event, reportingCurrency),
+    }
+  },
+})
+
+// Add a ticket or other income line (sponsorship lines come from confirmed sponsors)
+export const create = mutation({
+  args: {
+    eventId: v.id('events'),
+    source: manualSourceValidator,
+    name: v.string(),
+    description: v.optional(v.string()),
+    expectedAmount: v.number(),
+    receivedAmount: v.optional(v.number()),
+    currency: v.optional(v.string()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Not authenticated')
+
+    // Verify user can edit the event
+    const event = await ctx.db.get(args.eventId)
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
+      throw new Error('Event not found or access denied')
+    }
+
+    if (!args.name.trim()) throw new Error('Name is required')
+    assertAmount(args.expectedAmount, 'expectedAmount')
+    assertAmount(args.receivedAmount, 'receivedAmount')
+
+    const now = Date.now()
+    return ctx.db.insert('revenueItems', {
+      eventId: args.eventId,
+      source: args.source,
+      name: args.name.trim(),
+      description: args.description,
+      expectedAmount: args.expectedAmount,
+      receivedAmount: args.receivedAmount,
+      currency: args.currency ? normalizeCurrency(args.currency) : undefined,
+      status: revenueStatus(args.expectedAmount, args.receivedAmount),
+      receivedAt: args.receivedAmount ? now : undefined,
+      notes: args.notes,
+      createdAt: now,
+    })
+  },
+})
+
+// Update a revenue line. A sponsorship line's amount follows its sponsor.
+export const update = mutation({
+  args: {
+    id: v.id('revenueItems'),
+    name: v.optional(v.string()),
+    description: v.optional(v.string()),
+    expectedAmount: v.optional(v.number()),
+    currency: v.optional(v.string()),
+    cancelled: v.optional(v.boolean()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { item } = await getEditableRevenueItem(ctx, args.id)
+
+    if (item.source === 'sponsorship' && (args.expectedAmount !== undefined || args.cancelled !== undefined)) {
+      throw new Error("Change the sponsor's amount or status to update a sponsorship line")
+    }
+    if (args.name !== undefined && !args.name.trim()) throw new Error('Name is required')
+    assertAmount(args.expectedAmount, 'expectedAmount')
+
+    // Cancelled lines stay cancelled until explicitly restored
+    let status = item.status
+    if (args.cancelled) {
+      status = 'cancelled'
+    } else if (args.cancelled === false || item.status !== 'cancelled') {
+      status = revenueStatus(args.expectedAmount ?? item.expectedAmount, item.receivedAmount)
+    }
+
+    const { id, cancelled: _cancelled, ...updates } = args
+    void _cancelled // Applied through status
+    const cleanUpdates = Object.fromEntries(
+      Object.entries({
+        ...updates,
+        name: updates.name?.trim(),
+        currency: updates.currency ? normalizeCurrency(updates.currency) : undefined,
+      }).filter(([, v]) => v !== undefined)
+    )
+
+    await ctx.db.patch(id, {
+      ...cleanUpdates,
+      status,
+      updatedAt: Date.now(),
+    })
+
+    return id
+  },
+})
+
+// Record money received against a revenue line
+export const recordReceipt = mutation({
+  args: {
+    id: v.id('revenueItems'),
+    amount: v.number(),
+    receivedAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { item } = await getEditableRevenueItem(ctx, args.id)
+
+    if (item.status === 'cancelled') throw new Error('Revenue item has been cancelled')
+    if (!Number.isFinite(args.amount) || args.amount <= 0) {
+      throw new Error('Amount must be greater than zero')
+    }
+
+    const receivedAmount = roundAmount((item.receivedAmount ?? 0) + args.amount)
+    await ctx.db.patch(args.id, {
+      receivedAmount,
+      receivedAt: args.receivedAt ?? Date.now(),
+      status: revenueStatus(item.expectedAmount, receivedAmount),
+      updatedAt: Date.now(),
+    })
+
+    return args.id
+  },
+})
+
+// Add a confirmed sponsor's commitment to the ledger (for sponsors confirmed before it existed)
+export const trackSponsor = mutation({
+  args: { eventSponsorId: v.id('eventSponsors') },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) throw new Error('Not authenticated')
+
+    const eventSponsor = await ctx.db.get(args.eventSponsorId)
+    if (!eventSponsor) throw new Error('Sponsor relationship not found')
+
+    // Verify user can edit the event
+    const event = await ctx.db.get(eventSponsor.eventId)
+    if (!event || !(await canAccessEvent(ctx, event, user._id, 'editor'))) {
+      throw new Error('Access denied')
+    }
+
+    const id = await syncSponsorRevenueItem(ctx, args.eventSponsorId)
+    if (!id) throw new Error('Only confirmed sponsors with an amount can be tracked')
+    return id
+  },
+})
+
+// Delete a ticket or other income line
+export const remove = mutation({
+  args: { id: v.id('revenueItems') },
+  handler: async (ctx, args) => {
+    const { item } = await getEditableRevenueItem(ctx, args.id)
+
+    if (item.source === 'sponsorship') {
+      throw new Error('Sponsorship lines are removed with their sponsor')
+    }
+
+    await ctx.db.delete(args.id)
+  },
+})
@@ -20,7 +20,13 @@ export default defineSchema({
 
     // App-specific fields
     role: v.optional(
-      v.union(v.literal('superadmin'), v.literal('admin'), v.literal('organizer'))
+      v.union(
+        v.literal('superadmin'),
+        v.literal('admin'),
+        v.literal('organizer'),
+        v.literal('vendor'), // Vendor portal account, linked via vendorId
+        v.literal('sponsor') // Sponsor portal account, linked via sponsorId
+      )
     ),
 
     // Account status for moderation
@@ -33,6 +39,15 @@ export default defineSchema({
     suspendedReason: v.optional(v.string()),
     suspendedBy: v.optional(v.id('users')),
 
+    // Workspace shown in the dashboard (unset = personal workspace)
+    activeOrganizationId: v.optional(v.id('organizations')),
+
+    // Vendor record managed through the vendor portal (role: vendor)
+    vendorId: v.optional(v.id('vendors')),
+
+    // Sponsor record managed through the sponsor portal (role: sponsor)
+    sponsorId: v.optional(v.id('sponsors')),
+
     createdAt: v.optional(v.number()),
     updatedAt: v.optional(v.number()),
   })
@@ -50,13 +65,43 @@ export default defineSchema({
     goals: v.optional(v.array(v.string())), // Find sponsors, Manage vendors, etc.
     experienceLevel: v.optional(v.string()), // first-time, 1-5, 5-20, 20+
     referralSource: v.optional(v.string()),
+    // IANA time zone new events default to (e.g. Asia/Kuala_Lumpur)
+    timezone: v.optional(v.string()),
     createdAt: v.number(),
     updatedAt: v.optional(v.number()),
   }).index('by_user', ['userId']),
 
+  // Organizations - Shared workspaces for planning teams
+  organizations: defineTable({
+    name: v.string(),
+    // Currency budget reports are converted to (unset = USD)
+    reportingCurrency: v.optional(v.string()),
+    // AI assistant persona for members (unset = the default persona)
+    agentPersonaId: v.optional(v.id('agentPersonas')),
+    agentInstructions: v.optional(v.string()), // Added to the persona's prompt
+    createdBy: v.id('users'),
+    createdAt: v.number(),
+    updatedAt: v.optional(v.number()),
+  }).index('by_creator', ['createdBy']),
+
+  // Organization Members - Who can access a workspace and at what level
+  organizationMembers: defineTable({
+    organizationId: v.id('organizations'),
+    userId: v.id('users'),
+    role: v.union(v.literal('owner'), v.literal('editor'), v.literal('viewer')),
+    addedBy: v.optional(v.id('users')),
+    createdAt: v.number(),
+    updatedAt: v.optional(v.number()),
+  })
+    .index('by_organization', ['organizationId'])
+    .index('by_user', ['userId'])
+    .index('by_organization_user', ['organizationId', 'userId']),
+
   // Events - Full event management
   events: defineTable({
     organizerId: v.id('users'),
+    // Workspace the event belongs to (unset = creator's personal workspace)
+    organizationId: v.optional(v.id('organizations')),
     title: v.string(),
     description: v.optional(v.string()),
     eventType: v.optional(v.string()), // Conference, Hackathon, Workshop, etc.
@@ -64,6 +109,7 @@ export default defineSchema({
     // Date/Time
     startDate: v.number(), // Unix timestamp
     endDate: v.optional(v.number()),
+    // IANA time zone local dates/times are read and shown in
     timezone: v.optional(v.string()),
 
     // Location
@@ -110,13 +156,60 @@ export default defineSchema({
       })
     ),
 
+    // Title, description, type and venue for full-text search (see lib/search.ts)
+    searchText: v.optional(v.string()),
+
     createdAt: v.number(),
     updatedAt: v.optional(v.number()),
   })
     .index('by_organizer', ['organizerId'])
+    .index('by_organization', ['organizationId'])
     .index('by_status', ['status'])
     .index('by_date', ['startDate'])
-    .index('by_public', ['isPublic']),
+    .index('by_public', ['isPublic'])
+    .searchIndex('search_text', {
+      searchField: 'searchText',
+      filterFields: ['isPublic', 'status', 'eventType', 'locationType', 'seekingVendors', 'seekingSponsors'],
+    }),
+
+  // Event Collaborators - Access to a single event without workspace membership
+  eventCollaborators: defineTable({
+    eventId: v.id('events'),
+    userId: v.id('users'),
+    role: v.union(v.literal('editor'), v.literal('viewer')),
+    addedBy: v.optional(v.id('users')),
+    createdAt: v.number(),
+  })
+    .index('by_event', ['eventId'])
+    .index('by_user', ['userId'])
+    .index('by_event_user', ['eventId', 'userId']),
+
+  // Invitations - Tokenized, expiring email invites to a workspace, a single event or a vendor/sponsor portal
+  invitations: defineTable({
+    email: v.string(), // Lowercased
+    organizationId: v.optional(v.id('organizations')),
+    eventId: v.optional(v.id('events')),
+    vendorId: v.optional(v.id('vendors')), // Vendor portal access
+    sponsorId: v.optional(v.id('sponsors')), // Sponsor portal access
+    role: v.optional(v.union(v.literal('owner'), v.literal('editor'), v.literal('viewer'))), // Unset for portal invites
+    tokenHash: v.optional(v.string()), // SHA-256 of the invite token, set when the email goes out; the token itself is only emailed
+    status: v.union(v.literal('pending'), v.literal('accepted'), v.literal('revoked')),
+    expiresAt: v.number(),
+    invitedBy: v.id('users'),
+    acceptedBy: v.optional(v.id('users')),
+    acceptedAt: v.optional(v.number()),
+    revokedBy: v.optional(v.id('users')),
+    revokedAt: v.optional(v.number()),
+    emailSentAt: v.optional(v.number()),
+    emailError: v.optional(v.string()),
+    createdAt: v.number(),
+  })
+    .index('by_token', ['tokenHash'])
+    .index('by_organization', ['organizationId', 'status'])
+    .index('by_event', ['eventId', 'status'])
+    .index('by_vendor', ['vendorId', 'status'])
+    .index('by_sponsor', ['sponsorId', 'status'])
+    .index('by_email', ['email', 'status']),
 
   // Vendors - Service providers for events
   vendors: defineTable({
@@ -218,11 +311,22 @@ export default defineSchema({
       )
     ),
 
+    // Portal account that manages this vendor (see users.vendorId)
+    userId: v.optional(v.id('users')),
+
+    // Name, description, category and services for full-text search (see lib/search.ts)
+    searchText: v.optional(v.string()),
+
     createdAt: v.number(),
     updatedAt: v.optional(v.number()),
   })
     .index('by_status', ['status'])
-    .index('by_category', ['category']),
+    .index('by_category', ['category'])
+    .index('by_user', ['userId'])
+    .searchIndex('search_text', {
+      searchField: 'searchText',
+      filterFields: ['status', 'category', 'priceRange', 'verified'],
+    }),
 
   // Sponsors - Companies looking to sponsor events
   sponsors: defineTable({
@@ -316,11 +420,22 @@ export default defineSchema({
       })
     ),
 
+    // Portal account that manages this sponsor (see users.sponsorId)
+    userId: v.optional(v.id('users')),
+
+    // Name, description and industry for full-text search (see lib/search.ts)
+    searchText: v.optional(v.string()),
+
     createdAt: v.number(),
     updatedAt: v.optional(v.number()),
   })
     .index('by_status', ['status'])
-    .index('by_industry', ['industry']),
+    .index('by_industry', ['industry'])
+    .index('by_user', ['userId'])
+    .searchIndex('search_text', {
+      searchField: 'searchText',
+      filterFields: ['status', 'industry', 'verified'],
+    }),
 
   // Event-Vendor relationships with status tracking
   eventVendors: defineTable({
@@ -422,10 +537,15 @@ export default defineSchema({
       v.literal('closed')
     ),
 
-    // Response (if any)
+    // Legacy single response, replies now live in inquiryMessages
     response: v.optional(v.string()),
     respondedAt: v.optional(v.number()),
 
+    // Thread activity, updated on every message (see inquiryMessages)
+    lastMessageAt: v.optional(v.number()),
+    lastMessageBy: v.optional(v.id('users')),
+    messageCount: v.optional(v.number()),
+
     createdAt: v.number(),
     updatedAt: v.optional(v.number()),
   })
@@ -434,6 +554,46 @@ export default defineSchema({
     .index('by_event', ['eventId'])
     .index('by_status', ['status']),
 
+  // Inquiry Messages - Replies in an inquiry thread (the opening message stays on the inquiry)
+  inquiryMessages: defineTable({
+    inquiryId: v.id('inquiries'),
+    authorId: v.id('users'),
+    authorType: v.union(
+      v.literal('organizer'),
+      v.literal('admin'),
+      v.literal('vendor'),
+      v.literal('sponsor')
+    ),
+    body: v.string(),
+    attachments: v.optional(
+      v.array(
+        v.object({
+          storageId: v.id('_storage'),
+          name: v.string(),
+          contentType: v.optional(v.string()),
+          size: v.number(),
+        })
+      )
+    ),
+    createdAt: v.number(),
+  }).index('by_inquiry', ['inquiryId', 'createdAt']),
+
+  // Inquiry Uploads - Who asked for each attachment upload, and the file it became once attached
+  inquiryUploads: defineTable({
+    userId: v.id('users'),
+    storageId: v.optional(v.id('_storage')), // Set when the file is attached to a message
+    createdAt: v.number(),
+  }).index('by_storage', ['storageId']),
+
+  // Inquiry Reads - Per-participant read receipts for inquiry threads
+  inquiryReads: defineTable({
+    inquiryId: v.id('inquiries'),
+    userId: v.id('users'),
+    lastReadAt: v.number(),
+  })
+    .index('by_inquiry', ['inquiryId'])
+    .index('by_inquiry_user', ['inquiryId', 'userId']),
+
   // Budget Items - Track event spending
   budgetItems: defineTable({
     eventId: v.id('events'),
@@ -442,6 +602,8 @@ export default defineSchema({
     description: v.optional(v.string()),
     estimatedAmount: v.number(),
     actualAmount: v.optional(v.number()),
+    // ISO 4217 code the amounts are in (unset = event currency)
+    currency: v.optional(v.string()),
     status: v.union(
       v.literal('planned'),    // Budget allocated but not spent
       v.literal('committed'),  // Contract signed, committed to spend
@@ -454,6 +616,15 @@ export default defineSchema({
     // Payment tracking
     paidAt: v.optional(v.number()),
     paidMethod: v.optional(v.string()), // card, bank, cash, invoice
+    // Rate into the event currency on the paid date, kept so later rate edits don't change it
+    paidExchangeRate: v.optional(
+      v.object({
+        from: v.string(),
+        to: v.string(),
+        rate: v.number(),
+        date: v.string(), // YYYY-MM-DD
+      })
+    ),
     invoiceNumber: v.optional(v.string()),
     receiptUrl: v.optional(v.string()),
     // Notes
@@ -466,6 +637,70 @@ export default defineSchema({
     .index('by_status', ['status'])
     .index('by_event_category', ['eventId', 'category']),
 
+  // Revenue Items - Income side of an event's budget (sponsorships, tickets, other)
+  revenueItems: defineTable({
+    eventId: v.id('events'),
+    source: v.union(v.literal('sponsorship'), v.literal('tickets'), v.literal('other')),
+    name: v.string(),
+    description: v.optional(v.string()),
+    // Set on sponsorship lines, which follow the confirmed sponsor's amount
+    eventSponsorId: v.optional(v.id('eventSponsors')),
+    expectedAmount: v.number(), // Committed / forecast income
+    receivedAmount: v.optional(v.number()), // Running total of payments received
+    // ISO 4217 code the amounts are in (unset = event currency)
+    currency: v.optional(v.string()),
+    status: v.union(
+      v.literal('expected'),  // Not (fully) received yet
+      v.literal('received'),  // Received in full
+      v.literal('cancelled')  // No longer expected
+    ),
+    receivedAt: v.optional(v.number()), // Latest payment
+    notes: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.optional(v.number()),
+  })
+    .index('by_event', ['eventId'])
+    .index('by_event_sponsor', ['eventSponsorId']),
+
+  // Invoices - Deposit and balance milestones for a confirmed vendor engagement
+  invoices: defineTable({
+    eventId: v.id('events'),
+    eventVendorId: v.id('eventVendors'),
+    vendorId: v.id('vendors'),
+    // Budget item that payments are recorded against
+    budgetItemId: v.optional(v.id('budgetItems')),
+    kind: v.union(v.literal('deposit'), v.literal('balance')),
+    amount: v.number(),
+    // ISO 4217 code (unset = event currency)
+    currency: v.optional(v.string()),
+    dueDate: v.number(),
+    // Overdue is derived: pending with dueDate in the past (see lib/invoices.ts)
+    status: v.union(v.literal('pending'), v.literal('paid'), v.literal('void')),
+    invoiceNumber: v.optional(v.string()),
+    // Payment
+    paidAt: v.optional(v.number()),
+    paidMethod: v.optional(v.string()), // card, bank, cash, invoice
+    receiptUrl: v.optional(v.string()),
+    notes: v.optional(v.string()),
+    createdBy: v.optional(v.id('users')),
+    createdAt: v.number(),
+    updatedAt: v.optional(v.number()),
+  })
+    .index('by_event', ['eventId', 'dueDate'])
+    .index('by_event_vendor', ['eventVendorId'])
+    .index('by_budget_item', ['budgetItemId']),
+
+  // Exchange Rates - Admin-maintained rates against USD, one row per currency and date
+  exchangeRates: defineTable({
+    currency: v.string(), // ISO 4217 code, e.g. MYR
+    rate: v.number(), // Units of currency per 1 USD
+    effectiveDate: v.string(), // YYYY-MM-DD, applies until the next row for the currency
+    source: v.optional(v.string()), // manual, seed
+    updatedBy: v.optional(v.id('users')),
+    createdAt: v.number(),
+    updatedAt: v.optional(v.number()),
+  }).index('by_currency_date', ['currency', 'effectiveDate']),
+
   // Event Tasks - Checklist for event planning
   eventTasks: defineTable({
     eventId: v.id('events'),
@@ -487,8 +722,11 @@ export default defineSchema({
     // Due date tracking
     dueDate: v.optional(v.number()),
     completedAt: v.optional(v.number()),
-    // Assignment (for future multi-user support)
+    // Assignment - the assignee gets due-date reminders (the event organizer when unassigned)
     assignedTo: v.optional(v.id('users')),
+    // Reminders already sent for the current due date (cleared when it changes)
+    dueSoonNotifiedAt: v.optional(v.number()),
+    overdueNotifiedAt: v.optional(v.number()),
     // Dependencies
     blockedBy: v.optional(v.array(v.id('eventTasks'))), // Tasks that must be done first
     // Linked entities
@@ -527,6 +765,8 @@ export default defineSchema({
       v.literal('vendor_rejected'),
       v.literal('sponsor_approved'),
       v.literal('sponsor_rejected'),
+      v.literal('vendor_imported'), // Bulk import; targetId is 'bulk_import', counts and IDs in metadata
+      v.literal('sponsor_imported'),
       // Event moderation
       v.literal('event_flagged'),
       v.literal('event_unflagged'),
@@ -625,10 +865,163 @@ export default defineSchema({
     totalPrompts: v.optional(v.number()),
     // Plan limits (default 5 for free users)
     dailyLimit: v.optional(v.number()), // Override default limit (e.g., for premium)
+    // Admin-pinned provider/model (takes precedence over the org pin)
+    pinnedProvider: v.optional(v.union(v.literal('openai'), v.literal('anthropic'), v.literal('groq'))),
+    pinnedModel: v.optional(v.string()),
+    pinnedBy: v.optional(v.id('users')),
+    // Provider that actually served requests (after failover)
+    lastProvider: v.optional(v.string()),
+    lastModel: v.optional(v.string()),
+    providerCounts: v.optional(v.record(v.string(), v.number())), // provider -> requests served
+    failoverCount: v.optional(v.number()),
     createdAt: v.number(),
     updatedAt: v.optional(v.number()),
   })
-    .index('by_user', ['userId']),
+    .index('by_user', ['userId'])
+    .index('by_reset_date', ['lastResetDate']),
+
+  // AI Provider Pins - Admin-pinned provider/model per organization
+  aiProviderPins: defineTable({
+    organizationId: v.id('organizations'),
+    provider: v.union(v.literal('openai'), v.literal('anthropic'), v.literal('groq')),
+    model: v.optional(v.string()),
+    pinnedBy: v.id('users'),
+    createdAt: v.number(),
+    updatedAt: v.optional(v.number()),
+  })
+    .index('by_organization', ['organizationId']),
+
+  // Conversations - Server-side AI chat threads
+  conversations: defineTable({
+    userId: v.id('users'),
+    title: v.string(), // Defaults to the first user message, renamable
+    // Persona prompt the thread started with (unset = the built-in default)
+    personaId: v.optional(v.id('agentPersonas')),
+    personaVersion: v.optional(v.number()),
+    messageCount: v.number(),
+    lastMessageAt: v.number(),
+    createdAt: v.number(),
+    updatedAt: v.optional(v.number()),
+  })
+    .index('by_user', ['userId', 'lastMessageAt'])
+    .searchIndex('search_title', {
+      searchField: 'title',
+      filterFields: ['userId'],
+    }),
+
+  // Agent Personas - Admin-managed system prompts for the AI assistant
+  agentPersonas: defineTable({
+    key: v.string(), // Stable slug, e.g. quick-creator
+    name: v.string(),
+    description: v.optional(v.string()),
+    currentVersion: v.number(),
+    isArchived: v.optional(v.boolean()), // Archived personas can't be picked; workspaces using one fall back to the default
+    createdBy: v.optional(v.id('users')),
+    createdAt: v.number(),
+    updatedAt: v.optional(v.number()),
+  }).index('by_key', ['key']),
+
+  // Agent Persona Versions - Every saved prompt, so conversations can be traced to the exact text
+  agentPersonaVersions: defineTable({
+    personaId: v.id('agentPersonas'),
+    version: v.number(),
+    prompt: v.string(),
+    note: v.optional(v.string()), // What changed
+    createdBy: v.optional(v.id('users')),
+    createdAt: v.number(),
+  }).index('by_persona_version', ['personaId', 'version']),
+
+  // Conversation Messages - One row per user prompt or assistant reply
+  conversationMessages: defineTable({
+    conversationId: v.id('conversations'),
+    userId: v.id('users'),
+    role: v.union(v.literal('user'), v.literal('assistant')),
+    content: v.string(),
+    // Tools the assistant called while producing this reply
+    toolCalls: v.optional(
+      v.array(
+        v.object({
+          id: v.string(),
+          name: v.string(),
+          arguments: v.any(),
+        })
+      )
+    ),
+    toolResults: v.optional(
+      v.array(
+        v.object({
+          toolCallId: v.string(),
+          name: v.string(),
+          success: v.boolean(),
+          summary: v.optional(v.string()),
+          error: v.optional(v.string()),
+          data: v.optional(v.any()),
+        })
+      )
+    ),
+    // Tool calls that needed user confirmation, and what the user decided
+    confirmations: v.optional(
+      v.array(
+        v.object({
+          toolCallId: v.string(),
+          name: v.string(),
+          status: v.union(
+            v.literal('pending'),
+            v.literal('confirmed'),
+            v.literal('rejected'),
+            v.literal('failed')
+          ),
+          summary: v.optional(v.string()),
+          error: v.optional(v.string()),
+          resolvedAt: v.optional(v.number()),
+        })
+      )
+    ),
+    createdAt: v.number(),
+  })
+    .index('by_conversation', ['conversationId', 'createdAt'])
+    .searchIndex('search_content', {
+      searchField: 'content',
+      filterFields: ['userId'],
+    }),
+
+  // ============================================================================
+  // NOTIFICATIONS
+  // ============================================================================
+
+  // Notifications - In-app notification center, one row per recipient
+  notifications: defineTable({
+    userId: v.id('users'), // Recipient
+    type: v.union(
+      v.literal('task_assigned'),
+      v.literal('task_due'), // Due within a day or overdue (see housekeeping sendTaskReminders)
+      v.literal('application_received'),
+      v.literal('inquiry_reply'),
+      v.literal('moderation') // An admin reviewed the user's account or vendor/sponsor listing
+    ),
+    title: v.string(),
+    body: v.optional(v.string()),
+    link: v.optional(v.string()), // App path to open, e.g. /dashboard/events/<id>/tasks
+    actorId: v.optional(v.id('users')), // Who caused it; unset for scheduled reminders
+    eventId: v.optional(v.id('events')),
+    readAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index('by_user', ['userId', 'createdAt'])
+    .index('by_user_read', ['userId', 'readAt']),
+
+  // Notification Preferences - Per-user delivery channels by notification type (unset = defaults)
+  notificationPreferences: defineTable({
+    userId: v.id('users'),
+    preferences: v.array(
+      v.object({
+        type: v.string(),
+        inApp: v.boolean(),
+        email: v.boolean(),
+      })
+    ),
+    updatedAt: v.number(),
+  }).index('by_user', ['userId']),
 
   // ============================================================================
   // PUBLIC API INFRASTRUCTURE
@@ -692,7 +1085,26 @@ export default defineSchema({
     lastRequestAt: v.number(),
   })
     .index('by_key', ['apiKeyId'])
-    .index('by_key_window', ['apiKeyId', 'windowStart']),
+    .index('by_key_window', ['apiKeyId', 'windowStart'])
+    .index('by_window', ['windowStart']),
+
+  // API Idempotency Keys - Stored responses replayed when a client retries a write
+  apiIdempotencyKeys: defineTable({
+    apiKeyId: v.id('apiKeys'),
+    key: v.string(), // Idempotency-Key header value
+
+    // Request fingerprint (SHA-256 of method, path and body)
+    requestHash: v.string(),
+
+    // Stored response; unset while the first request is still running
+    responseStatus: v.optional(v.number()),
+    responseBody: v.optional(v.string()),
+
+    createdAt: v.number(),
+    expiresAt: v.number(),
+  })
+    .index('by_key', ['apiKeyId', 'key'])
+    .index('by_expires', ['expiresAt']),
 
   // API Request Logs - Audit trail for API requests (optional, for debugging)
   apiRequestLogs: defineTable({
@@ -777,7 +1189,8 @@ export default defineSchema({
       v.literal('pending'),
       v.literal('success'),
       v.literal('failed'),
-      v.literal('retrying')
+      v.literal('retrying'),
+      v.literal('skipped') // Webhook paused, disabled or deleted before delivery
     ),
 
     // Response details
@@ -799,4 +1212,39 @@ export default defineSchema({
     .index('by_user', ['userId'])
     .index('by_status', ['status'])
     .index('by_date', ['createdAt']),
+
+  // ============================================================================
+  // HOUSEKEEPING
+  // ============================================================================
+
+  // Housekeeping Settings - Single row of retention periods used by the cron jobs
+  housekeepingSettings: defineTable({
+    requestLogRetentionDays: v.number(), // apiRequestLogs
+    rateLimitRetentionHours: v.number(), // apiRateLimits windows
+    webhookDeliveryRetentionDays: v.number(), // Finished webhookDeliveries
+    jobRunRetentionDays: v.number(), // cronRuns
+    // Search text backfill progress: where the next batch starts, and when it finished
+    searchBackfillCursor: v.optional(
+      v.object({
+        table: v.union(v.literal('events'), v.literal('vendors'), v.literal('sponsors')),
+        after: v.number(), // _creationTime of the last row read
+      })
+    ),
+    searchBackfillCompletedAt: v.optional(v.number()),
+    updatedBy: v.optional(v.id('users')),
+    updatedAt: v.number(),
+  }),
+
+  // Cron Runs - History of scheduled housekeeping jobs
+  cronRuns: defineTable({
+    job: v.string(), // expireApiKeys, pruneRequestLogs, ...
+    trigger: v.union(v.literal('schedule'), v.literal('manual')),
+    status: v.union(v.literal('success'), v.literal('failed')),
+    processed: v.number(), // Rows updated or deleted
+    error: v.optional(v.string()),
+    startedAt: v.number(),
+    finishedAt: v.number(),
+  })
+    .index('by_started', ['startedAt'])
+    .index('by_job', ['job', 'startedAt']),
 })
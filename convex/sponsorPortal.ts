@@ -0,0 +1,170 @@
+import { query, mutation } from './_generated/server'
+import type { QueryCtx, MutationCtx } from './_generated/server'
+import { getCurrentUser } from './lib/auth'
+import { isInquiryUnread } from './lib/inquiryThreads'
+import { sponsorSearchText } from './lib/search'
+import { sponsorProfileFields } from './sponsors'
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Get the signed-in sponsor portal user and their sponsor record, or null.
+ * Both sides of the link must agree (users.sponsorId and sponsors.userId).
+ */
+async function getPortalSponsor(ctx: QueryCtx | MutationCtx) {
+  const user = await getCurrentUser(ctx)
+  if (!user || user.role !== 'sponsor' || !user.sponsorId) return null
+
+  const sponsor = await ctx.db.get(user.sponsorId)
+  if (!sponsor || sponsor.userId !== user._id) return null
+
+  return { user, sponsor }
+}
+
+/**
+ * Require a signed-in, active sponsor portal user
+ */
+async function assertPortalSponsor(ctx: MutationCtx) {
+  const user = await getCurrentUser(ctx)
+  if (!user) throw new Error('Authentication required')
+  if (user.status === 'suspended') throw new Error('Account suspended. Please contact support.')
+
+  const portal = await getPortalSponsor(ctx)
+  if (!portal) throw new Error('Access denied - sponsor portal account required')
+
+  return portal
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Get the sponsor record managed by the current user
+ */
+export const getMySponsor = query({
+  args: {},
+  handler: async (ctx) => {
+    const portal = await getPortalSponsor(ctx)
+    return portal?.sponsor ?? null
+  },
+})
+
+/**
+ * List the sponsor's event deals (eventSponsors) with event details
+ */
+export const listMyDeals = query({
+  args: {},
+  handler: async (ctx) => {
+    const portal = await getPortalSponsor(ctx)
+    if (!portal) return []
+
+    const deals = await ctx.db
+      .query('eventSponsors')
+      .withIndex('by_sponsor', (q) => q.eq('sponsorId', portal.sponsor._id))
+      .order('desc')
+      .collect()
+
+    return Promise.all(
+      deals.map(async (deal) => {
+        const event = await ctx.db.get(deal.eventId)
+        return {
+          _id: deal._id,
+          tier: deal.tier,
+          status: deal.status,
+          amount: deal.amount,
+          benefits: deal.benefits,
+          createdAt: deal.createdAt,
+          updatedAt: deal.updatedAt,
+          eventDetails: event
+            ? {
+                title: event.title,
+                startDate: event.startDate,
+                endDate: event.endDate,
+                venueName: event.venueName,
+                status: event.status,
+              }
+            : null,
+        }
+      })
+    )
+  },
+})
+
+/**
+ * List inquiries sent to the sponsor with sender and event details.
+ * Threads are read and answered through inquiryMessages.
+ */
+export const listMyInquiries = query({
+  args: {},
+  handler: async (ctx) => {
+    const portal = await getPortalSponsor(ctx)
+    if (!portal) return []
+
+    const inquiries = await ctx.db
+      .query('inquiries')
+      .withIndex('by_to', (q) => q.eq('toType', 'sponsor').eq('toId', portal.sponsor._id))
+      .order('desc')
+      .collect()
+
+    return Promise.all(
+      inquiries.map(async (inquiry) => {
+        const [sender, event] = await Promise.all([
+          ctx.db.get(inquiry.fromUserId),
+          inquiry.eventId ? ctx.db.get(inquiry.eventId) : null,
+        ])
+        return {
+          ...inquiry,
+          senderDetails: sender ? { name: sender.name } : null,
+          eventDetails: event ? { title: event.title, startDate: event.startDate } : null,
+          hasUnread: await isInquiryUnread(ctx, inquiry, portal.user._id),
+        }
+      })
+    )
+  },
+})
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Update the sponsor's own profile, brand guidelines, exclusivity
+ * requirements and deliverables
+ */
+export const updateProfile = mutation({
+  args: sponsorProfileFields,
+  handler: async (ctx, args) => {
+    const { sponsor } = await assertPortalSponsor(ctx)
+
+    if (args.description && args.description.length > 5000) {
+      throw new Error('Description must be 5000 characters or less')
+    }
+    if (args.yearFounded !== undefined && args.yearFounded > new Date().getFullYear()) {
+      throw new Error('Year founded cannot be in the future')
+    }
+    const budgetMin = args.budgetMin ?? sponsor.budgetMin
+    const budgetMax = args.budgetMax ?? sponsor.budgetMax
+    if (budgetMin !== undefined && budgetMax !== undefined && budgetMin > budgetMax) {
+      throw new Error('Minimum budget cannot exceed maximum budget')
+    }
+
+    // Filter out undefined values
+    const updates: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(args)) {
+      if (value !== undefined) {
+        updates[key] = value
+      }
+    }
+
+    await ctx.db.patch(sponsor._id, {
+      ...updates,
+      searchText: sponsorSearchText({ ...sponsor, ...updates }),
+      updatedAt: Date.now(),
+    })
+
+    return { success: true }
+  },
+})
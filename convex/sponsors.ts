@@ -1,11 +1,121 @@
 import { v } from 'convex/values'
-import { mutation, query } from './_generated/server'
+import { paginationOptsValidator, type OrderedQuery } from 'convex/server'
+import { mutation, query, type QueryCtx } from './_generated/server'
+import type { DataModel, Doc } from './_generated/dataModel'
 import { assertRole } from './lib/auth'
+import { getPortalUserIds, notifyAll } from './lib/notifications'
+import { MAX_SEARCH_RESULTS, normalizeSearchQuery, sponsorSearchText } from './lib/search'
+
+// Profile fields a sponsor can edit themselves (see sponsorPortal.ts).
+// Name, industry and review fields stay admin-managed.
+export const sponsorProfileFields = {
+  description: v.optional(v.string()),
+  sponsorshipTiers: v.optional(v.array(v.string())),
+  budgetMin: v.optional(v.number()),
+  budgetMax: v.optional(v.number()),
+  targetEventTypes: v.optional(v.array(v.string())),
+  targetAudience: v.optional(v.string()),
+  contactEmail: v.optional(v.string()),
+  contactName: v.optional(v.string()),
+  contactPhone: v.optional(v.string()),
+  website: v.optional(v.string()),
+  logoUrl: v.optional(v.string()),
+
+  // Enterprise Fields - Company Info
+  companySize: v.optional(v.string()),
+  yearFounded: v.optional(v.number()),
+  headquarters: v.optional(v.string()),
+
+  // Past Experience
+  pastSponsorships: v.optional(
+    v.array(
+      v.object({
+        eventName: v.string(),
+        year: v.number(),
+        tier: v.optional(v.string()),
+        amount: v.optional(v.number()),
+      })
+    )
+  ),
+  deliverablesOffered: v.optional(v.array(v.string())),
+
+  // Contracts & Legal
+  contractTemplateUrl: v.optional(v.string()),
+  legalDocs: v.optional(
+    v.array(
+      v.object({
+        name: v.string(),
+        url: v.string(),
+        type: v.string(),
+        uploadedAt: v.number(),
+      })
+    )
+  ),
+
+  // Payment Terms
+  paymentTerms: v.optional(
+    v.object({
+      preferredMethod: v.optional(v.string()),
+      netDays: v.optional(v.number()),
+      requiresInvoice: v.optional(v.boolean()),
+      currency: v.optional(v.string()),
+      notes: v.optional(v.string()),
+    })
+  ),
+
+  // Exclusivity Requirements
+  exclusivityRequirements: v.optional(
+    v.object({
+      requiresExclusivity: v.boolean(),
+      competitorRestrictions: v.optional(v.array(v.string())),
+      territorialScope: v.optional(v.string()),
+      notes: v.optional(v.string()),
+    })
+  ),
+
+  // Brand Guidelines
+  brandGuidelines: v.optional(
+    v.object({
+      guidelinesUrl: v.optional(v.string()),
+      logoUsageNotes: v.optional(v.string()),
+      colorCodes: v.optional(v.array(v.string())),
+      prohibitedUsages: v.optional(v.array(v.string())),
+    })
+  ),
+}
 
 // ============================================================================
 // Public Queries (for organizers)
 // ============================================================================
 
+// Approved sponsors with optional industry filter. With a search term the
+// results are ranked by relevance, otherwise they follow the index order.
+function approvedSponsorsQuery(
+  ctx: QueryCtx,
+  industry: string | undefined,
+  search: string | null
+): OrderedQuery<DataModel['sponsors']> {
+  if (search) {
+    return ctx.db
+      .query('sponsors')
+      .withSearchIndex('search_text', (q) => {
+        const query = q.search('searchText', search).eq('status', 'approved')
+        return industry ? query.eq('industry', industry) : query
+      })
+  }
+
+  if (industry) {
+    return ctx.db
+      .query('sponsors')
+      .withIndex('by_industry', (q) => q.eq('industry', industry))
+      .filter((q) => q.eq(q.field('status'), 'approved'))
+  }
+
+  return ctx.db
+    .query('sponsors')
+    .withIndex('by_status', (q) => q.eq('status', 'approved'))
+}
+
 // List all approved sponsors with optional industry filter
 export const list = query({
   args: {
@@ -13,27 +123,26 @@ export const list = query({
     search: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    let sponsors = await ctx.db
-      .query('sponsors')
-      .withIndex('by_status', (q) => q.eq('status', 'approved'))
-      .collect()
+    const industry = args.industry && args.industry !== 'all' ? args.industry : undefined
+    const search = normalizeSearchQuery(args.search)
+    const sponsors = approvedSponsorsQuery(ctx, industry, search)
 
-    // Filter by industry if provided
-    if (args.industry && args.industry !== 'all') {
-      sponsors = sponsors.filter((s) => s.industry === args.industry)
-    }
+    return search ? sponsors.take(MAX_SEARCH_RESULTS) : sponsors.collect()
+  },
+})
 
-    // Filter by search query if provided
-    if (args.search && args.search.trim()) {
-      const searchLower = args.search.toLowerCase()
-      sponsors = sponsors.filter(
-        (s) =>
-          s.name.toLowerCase().includes(searchLower) ||
-          s.description?.toLowerCase().includes(searchLower)
-      )
-    }
+// One page of approved sponsors (cursor pagination for the REST API)
+export const listPaginated = query({
+  args: {
+    industry: v.optional(v.string()),
+    search: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const industry = args.industry && args.industry !== 'all' ? args.industry : undefined
+    const search = normalizeSearchQuery(args.search)
 
-    return sponsors
+    return approvedSponsorsQuery(ctx, industry, search).paginate(args.paginationOpts)
   },
 })
 
@@ -173,6 +282,7 @@ export const create = mutation({
 
     return await ctx.db.insert('sponsors', {
       ...args,
+      searchText: sponsorSearchText(args),
       verified: false,
       status: 'pending',
       // Note: Consider adding submittedBy field to schema to track who submitted
@@ -281,6 +391,14 @@ export const approve = mutation({
       createdAt: now,
     })
 
+    await notifyAll(ctx, await getPortalUserIds(ctx, 'sponsor', args.sponsorId), {
+      type: 'moderation',
+      title: `${sponsor.name} has been approved`,
+      body: 'Your sponsor profile is now listed for event organizers.',
+      link: '/sponsor/profile',
+      actorId: admin._id,
+    })
+
     return { success: true }
   },
 })
@@ -331,6 +449,15 @@ export const reject = mutation({
       createdAt: now,
     })
 
+    // Internal notes stay internal; the portal users see the reason
+    await notifyAll(ctx, await getPortalUserIds(ctx, 'sponsor', args.sponsorId), {
+      type: 'moderation',
+      title: `${sponsor.name} was not approved`,
+      body: args.reason,
+      link: '/sponsor/profile',
+      actorId: admin._id,
+    })
+
     return { success: true }
   },
 })
@@ -458,6 +585,7 @@ export const adminCreate = mutation({
       exclusivityRequirements: args.exclusivityRequirements,
       brandGuidelines: args.brandGuidelines,
 
+      searchText: sponsorSearchText(args),
       createdAt: now,
     })
 
@@ -489,81 +617,10 @@ export const adminUpdate = mutation({
 
     // Basic Info
     name: v.optional(v.string()),
-    description: v.optional(v.string()),
     industry: v.optional(v.string()),
-    sponsorshipTiers: v.optional(v.array(v.string())),
-    budgetMin: v.optional(v.number()),
-    budgetMax: v.optional(v.number()),
-    targetEventTypes: v.optional(v.array(v.string())),
-    targetAudience: v.optional(v.string()),
-    contactEmail: v.optional(v.string()),
-    contactName: v.optional(v.string()),
-    contactPhone: v.optional(v.string()),
-    website: v.optional(v.string()),
-    logoUrl: v.optional(v.string()),
     applicationNotes: v.optional(v.string()),
 
-    // Enterprise Fields - Company Info
-    companySize: v.optional(v.string()),
-    yearFounded: v.optional(v.number()),
-    headquarters: v.optional(v.string()),
-
-    // Past Experience
-    pastSponsorships: v.optional(
-      v.array(
-        v.object({
-          eventName: v.string(),
-          year: v.number(),
-          tier: v.optional(v.string()),
-          amount: v.optional(v.number()),
-        })
-      )
-    ),
-    deliverablesOffered: v.optional(v.array(v.string())),
-
-    // Contracts & Legal
-    contractTemplateUrl: v.optional(v.string()),
-    legalDocs: v.optional(
-      v.array(
-        v.object({
-          name: v.string(),
-          url: v.string(),
-          type: v.string(),
-          uploadedAt: v.number(),
-        })
-      )
-    ),
-
-    // Payment Terms
-    paymentTerms: v.optional(
-      v.object({
-        preferredMethod: v.optional(v.string()),
-        netDays: v.optional(v.number()),
-        requiresInvoice: v.optional(v.boolean()),
-        currency: v.optional(v.string()),
-        notes: v.optional(v.string()),
-      })
-    ),
-
-    // Exclusivity Requirements
-    exclusivityRequirements: v.optional(
-      v.object({
-        requiresExclusivity: v.boolean(),
-        competitorRestrictions: v.optional(v.array(v.string())),
-        territorialScope: v.optional(v.string()),
-        notes: v.optional(v.string()),
-      })
-    ),
-
-    // Brand Guidelines
-    brandGuidelines: v.optional(
-      v.object({
-        guidelinesUrl: v.optional(v.string()),
-        logoUsageNotes: v.optional(v.string()),
-        colorCodes: v.optional(v.array(v.string())),
-        prohibitedUsages: v.optional(v.array(v.string())),
-      })
-    ),
+    ...sponsorProfileFields,
   },
   handler: async (ctx, args) => {
     await assertRole(ctx, 'admin')
@@ -585,6 +642,7 @@ export const adminUpdate = mutation({
 
     await ctx.db.patch(sponsorId, {
       ...filteredUpdates,
+      searchText: sponsorSearchText({ ...sponsor, ...(filteredUpdates as Partial<Doc<'sponsors'>>) }),
       updatedAt: Date.now(),
     })
 
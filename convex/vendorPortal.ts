@@ -0,0 +1,163 @@
+import { query, mutation } from './_generated/server'
+import type { QueryCtx, MutationCtx } from './_generated/server'
+import { getCurrentUser } from './lib/auth'
+import { isInquiryUnread } from './lib/inquiryThreads'
+import { vendorSearchText } from './lib/search'
+import { vendorProfileFields } from './vendors'
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Get the signed-in vendor portal user and their vendor record, or null.
+ * Both sides of the link must agree (users.vendorId and vendors.userId).
+ */
+async function getPortalVendor(ctx: QueryCtx | MutationCtx) {
+  const user = await getCurrentUser(ctx)
+  if (!user || user.role !== 'vendor' || !user.vendorId) return null
+
+  const vendor = await ctx.db.get(user.vendorId)
+  if (!vendor || vendor.userId !== user._id) return null
+
+  return { user, vendor }
+}
+
+/**
+ * Require a signed-in, active vendor portal user
+ */
+async function assertPortalVendor(ctx: MutationCtx) {
+  const user = await getCurrentUser(ctx)
+  if (!user) throw new Error('Authentication required')
+  if (user.status === 'suspended') throw new Error('Account suspended. Please contact support.')
+
+  const portal = await getPortalVendor(ctx)
+  if (!portal) throw new Error('Access denied - vendor portal account required')
+
+  return portal
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Get the vendor record managed by the current user
+ */
+export const getMyVendor = query({
+  args: {},
+  handler: async (ctx) => {
+    const portal = await getPortalVendor(ctx)
+    return portal?.vendor ?? null
+  },
+})
+
+/**
+ * List the vendor's event engagements (eventVendors) with event details
+ */
+export const listMyEngagements = query({
+  args: {},
+  handler: async (ctx) => {
+    const portal = await getPortalVendor(ctx)
+    if (!portal) return []
+
+    const engagements = await ctx.db
+      .query('eventVendors')
+      .withIndex('by_vendor', (q) => q.eq('vendorId', portal.vendor._id))
+      .order('desc')
+      .collect()
+
+    return Promise.all(
+      engagements.map(async (engagement) => {
+        const event = await ctx.db.get(engagement.eventId)
+        return {
+          _id: engagement._id,
+          status: engagement.status,
+          proposedBudget: engagement.proposedBudget,
+          finalBudget: engagement.finalBudget,
+          createdAt: engagement.createdAt,
+          updatedAt: engagement.updatedAt,
+          eventDetails: event
+            ? {
+                title: event.title,
+                startDate: event.startDate,
+                endDate: event.endDate,
+                venueName: event.venueName,
+                status: event.status,
+              }
+            : null,
+        }
+      })
+    )
+  },
+})
+
+/**
+ * List inquiries sent to the vendor with sender and event details.
+ * Threads are read and answered through inquiryMessages.
+ */
+export const listMyInquiries = query({
+  args: {},
+  handler: async (ctx) => {
+    const portal = await getPortalVendor(ctx)
+    if (!portal) return []
+
+    const inquiries = await ctx.db
+      .query('inquiries')
+      .withIndex('by_to', (q) => q.eq('toType', 'vendor').eq('toId', portal.vendor._id))
+      .order('desc')
+      .collect()
+
+    return Promise.all(
+      inquiries.map(async (inquiry) => {
+        const [sender, event] = await Promise.all([
+          ctx.db.get(inquiry.fromUserId),
+          inquiry.eventId ? ctx.db.get(inquiry.eventId) : null,
+        ])
+        return {
+          ...inquiry,
+          senderDetails: sender ? { name: sender.name } : null,
+          eventDetails: event ? { title: event.title, startDate: event.startDate } : null,
+          hasUnread: await isInquiryUnread(ctx, inquiry, portal.user._id),
+        }
+      })
+    )
+  },
+})
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Update the vendor's own profile, portfolio, insurance and certifications
+ */
+export const updateProfile = mutation({
+  args: vendorProfileFields,
+  handler: async (ctx, args) => {
+    const { vendor } = await assertPortalVendor(ctx)
+
+    if (args.description && args.description.length > 5000) {
+      throw new Error('Description must be 5000 characters or less')
+    }
+    if (args.yearFounded !== undefined && args.yearFounded > new Date().getFullYear()) {
+      throw new Error('Year founded cannot be in the future')
+    }
+
+    // Filter out undefined values
+    const updates: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(args)) {
+      if (value !== undefined) {
+        updates[key] = value
+      }
+    }
+
+    await ctx.db.patch(vendor._id, {
+      ...updates,
+      searchText: vendorSearchText({ ...vendor, ...updates }),
+      updatedAt: Date.now(),
+    })
+
+    return { success: true }
+  },
+})
@@ -1,11 +1,127 @@
 import { v } from 'convex/values'
-import { mutation, query } from './_generated/server'
+import { paginationOptsValidator, type OrderedQuery } from 'convex/server'
+import { mutation, query, type QueryCtx } from './_generated/server'
+import type { DataModel, Doc } from './_generated/dataModel'
 import { assertRole } from './lib/auth'
+import { getPortalUserIds, notifyAll } from './lib/notifications'
+import { MAX_SEARCH_RESULTS, normalizeSearchQuery, vendorSearchText } from './lib/search'
+
+// Profile fields a vendor can edit themselves (see vendorPortal.ts).
+// Name, category and review fields stay admin-managed.
+export const vendorProfileFields = {
+  description: v.optional(v.string()),
+  services: v.optional(v.array(v.string())),
+  location: v.optional(v.string()),
+  priceRange: v.optional(v.string()),
+  contactEmail: v.optional(v.string()),
+  contactPhone: v.optional(v.string()),
+  contactName: v.optional(v.string()),
+  website: v.optional(v.string()),
+  logoUrl: v.optional(v.string()),
+
+  // Enterprise Fields - Company Info
+  companySize: v.optional(v.string()),
+  yearFounded: v.optional(v.number()),
+  headquarters: v.optional(v.string()),
+
+  // Portfolio
+  portfolio: v.optional(
+    v.array(
+      v.object({
+        eventName: v.string(),
+        year: v.number(),
+        description: v.optional(v.string()),
+        imageUrl: v.optional(v.string()),
+      })
+    )
+  ),
+
+  // Insurance & Legal
+  insuranceInfo: v.optional(
+    v.object({
+      provider: v.optional(v.string()),
+      policyNumber: v.optional(v.string()),
+      coverageAmount: v.optional(v.number()),
+      expirationDate: v.optional(v.number()),
+      certificateUrl: v.optional(v.string()),
+    })
+  ),
+  legalDocs: v.optional(
+    v.array(
+      v.object({
+        name: v.string(),
+        url: v.string(),
+        type: v.string(),
+        uploadedAt: v.number(),
+      })
+    )
+  ),
+
+  // Payment Terms
+  paymentTerms: v.optional(
+    v.object({
+      acceptedMethods: v.optional(v.array(v.string())),
+      requiresDeposit: v.optional(v.boolean()),
+      depositPercentage: v.optional(v.number()),
+      netDays: v.optional(v.number()),
+      notes: v.optional(v.string()),
+    })
+  ),
+
+  // Capacity
+  capacity: v.optional(
+    v.object({
+      maxEventsPerMonth: v.optional(v.number()),
+      teamSize: v.optional(v.number()),
+      serviceArea: v.optional(v.string()),
+    })
+  ),
+
+  // Certifications
+  certifications: v.optional(
+    v.array(
+      v.object({
+        name: v.string(),
+        issuingBody: v.optional(v.string()),
+        expirationDate: v.optional(v.number()),
+        certificateUrl: v.optional(v.string()),
+      })
+    )
+  ),
+}
 
 // ============================================================================
 // Public Queries (for organizers)
 // ============================================================================
 
+// Approved vendors with optional category filter. With a search term the
+// results are ranked by relevance, otherwise they follow the index order.
+function approvedVendorsQuery(
+  ctx: QueryCtx,
+  category: string | undefined,
+  search: string | null
+): OrderedQuery<DataModel['vendors']> {
+  if (search) {
+    return ctx.db
+      .query('vendors')
+      .withSearchIndex('search_text', (q) => {
+        const query = q.search('searchText', search).eq('status', 'approved')
+        return category ? query.eq('category', category) : query
+      })
+  }
+
+  if (category) {
+    return ctx.db
+      .query('vendors')
+      .withIndex('by_category', (q) => q.eq('category', category))
+      .filter((q) => q.eq(q.field('status'), 'approved'))
+  }
+
+  return ctx.db
+    .query('vendors')
+    .withIndex('by_status', (q) => q.eq('status', 'approved'))
+}
+
 // List all approved vendors with optional category filter
 export const list = query({
   args: {
@@ -13,27 +129,26 @@ export const list = query({
     search: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    let vendors = await ctx.db
-      .query('vendors')
-      .withIndex('by_status', (q) => q.eq('status', 'approved'))
-      .collect()
+    const category = args.category && args.category !== 'all' ? args.category : undefined
+    const search = normalizeSearchQuery(args.search)
+    const vendors = approvedVendorsQuery(ctx, category, search)
 
-    // Filter by category if provided
-    if (args.category && args.category !== 'all') {
-      vendors = vendors.filter((v) => v.category === args.category)
-    }
+    return search ? vendors.take(MAX_SEARCH_RESULTS) : vendors.collect()
+  },
+})
 
-    // Filter by search query if provided
-    if (args.search && args.search.trim()) {
-      const searchLower = args.search.toLowerCase()
-      vendors = vendors.filter(
-        (v) =>
-          v.name.toLowerCase().includes(searchLower) ||
-          v.description?.toLowerCase().includes(searchLower)
-      )
-    }
+// One page of approved vendors (cursor pagination for the REST API)
+export const listPaginated = query({
+  args: {
+    category: v.optional(v.string()),
+    search: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const category = args.category && args.category !== 'all' ? args.category : undefined
+    const search = normalizeSearchQuery(args.search)
 
-    return vendors
+    return approvedVendorsQuery(ctx, category, search).paginate(args.paginationOpts)
   },
 })
 
@@ -159,6 +274,7 @@ export const create = mutation({
 
     return await ctx.db.insert('vendors', {
       ...args,
+      searchText: vendorSearchText(args),
       rating: 0,
       reviewCount: 0,
       verified: false,
@@ -269,6 +385,14 @@ export const approve = mutation({
       createdAt: now,
     })
 
+    await notifyAll(ctx, await getPortalUserIds(ctx, 'vendor', args.vendorId), {
+      type: 'moderation',
+      title: `${vendor.name} has been approved`,
+      body: 'Your vendor profile is now listed for event organizers.',
+      link: '/vendor/profile',
+      actorId: admin._id,
+    })
+
     return { success: true }
   },
 })
@@ -319,6 +443,15 @@ export const reject = mutation({
       createdAt: now,
     })
 
+    // Internal notes stay internal; the portal users see the reason
+    await notifyAll(ctx, await getPortalUserIds(ctx, 'vendor', args.vendorId), {
+      type: 'moderation',
+      title: `${vendor.name} was not approved`,
+      body: args.reason,
+      link: '/vendor/profile',
+      actorId: admin._id,
+    })
+
     return { success: true }
   },
 })
@@ -451,6 +584,7 @@ export const adminCreate = mutation({
       capacity: args.capacity,
       certifications: args.certifications,
 
+      searchText: vendorSearchText(args),
       createdAt: now,
     })
 
@@ -482,87 +616,10 @@ export const adminUpdate = mutation({
 
     // Basic Info
     name: v.optional(v.string()),
-    description: v.optional(v.string()),
     category: v.optional(v.string()),
-    services: v.optional(v.array(v.string())),
-    location: v.optional(v.string()),
-    priceRange: v.optional(v.string()),
-    contactEmail: v.optional(v.string()),
-    contactPhone: v.optional(v.string()),
-    contactName: v.optional(v.string()),
-    website: v.optional(v.string()),
-    logoUrl: v.optional(v.string()),
     applicationNotes: v.optional(v.string()),
 
-    // Enterprise Fields - Company Info
-    companySize: v.optional(v.string()),
-    yearFounded: v.optional(v.number()),
-    headquarters: v.optional(v.string()),
-
-    // Portfolio
-    portfolio: v.optional(
-      v.array(
-        v.object({
-          eventName: v.string(),
-          year: v.number(),
-          description: v.optional(v.string()),
-          imageUrl: v.optional(v.string()),
-        })
-      )
-    ),
-
-    // Insurance & Legal
-    insuranceInfo: v.optional(
-      v.object({
-        provider: v.optional(v.string()),
-        policyNumber: v.optional(v.string()),
-        coverageAmount: v.optional(v.number()),
-        expirationDate: v.optional(v.number()),
-        certificateUrl: v.optional(v.string()),
-      })
-    ),
-    legalDocs: v.optional(
-      v.array(
-        v.object({
-          name: v.string(),
-          url: v.string(),
-          type: v.string(),
-          uploadedAt: v.number(),
-        })
-      )
-    ),
-
-    // Payment Terms
-    paymentTerms: v.optional(
-      v.object({
-        acceptedMethods: v.optional(v.array(v.string())),
-        requiresDeposit: v.optional(v.boolean()),
-        depositPercentage: v.optional(v.number()),
-        netDays: v.optional(v.number()),
-        notes: v.optional(v.string()),
-      })
-    ),
-
-    // Capacity
-    capacity: v.optional(
-      v.object({
-        maxEventsPerMonth: v.optional(v.number()),
-        teamSize: v.optional(v.number()),
-        serviceArea: v.optional(v.string()),
-      })
-    ),
-
-    // Certifications
-    certifications: v.optional(
-      v.array(
-        v.object({
-          name: v.string(),
-          issuingBody: v.optional(v.string()),
-          expirationDate: v.optional(v.number()),
-          certificateUrl: v.optional(v.string()),
-        })
-      )
-    ),
+    ...vendorProfileFields,
   },
   handler: async (ctx, args) => {
     await assertRole(ctx, 'admin')
@@ -584,6 +641,7 @@ export const adminUpdate = mutation({
 
     await ctx.db.patch(vendorId, {
       ...filteredUpdates,
+      searchText: vendorSearchText({ ...vendor, ...(filteredUpdates as Partial<Doc<'vendors'>>) }),
       updatedAt: Date.now(),
     })
 
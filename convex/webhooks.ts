@@ -4,7 +4,8 @@
 // Handles creation, management, and delivery of webhooks
 
 import { v } from 'convex/values'
-import { mutation, query, internalMutation, internalQuery } from './_generated/server'
+import { mutation, query, internalMutation, internalQuery, internalAction } from './_generated/server'
+import { internal } from './_generated/api'
 import { getCurrentUser } from './lib/auth'
 import type { Id } from './_generated/dataModel'
 
@@ -18,13 +19,16 @@ const MAX_WEBHOOKS_PER_USER = 10
 // Maximum consecutive failures before auto-disabling
 const MAX_FAILURES_BEFORE_DISABLE = 5
 
-// Retry delays (exponential backoff) - for future webhook retry implementation
-// const RETRY_DELAYS_MS = [
-//   1000 * 60,      // 1 minute
-//   1000 * 60 * 5,  // 5 minutes
-//   1000 * 60 * 30, // 30 minutes
-//   1000 * 60 * 60, // 1 hour
-// ]
+// Retry delays (exponential backoff) - one entry per retry after the first attempt
+const RETRY_DELAYS_MS = [
+  1000 * 60,      // 1 minute
+  1000 * 60 * 5,  // 5 minutes
+  1000 * 60 * 30, // 30 minutes
+  1000 * 60 * 60, // 1 hour
+]
+
+// Abort a delivery attempt if the receiver hasn't responded in time
+const DELIVERY_TIMEOUT_MS = 10000
 
 // Available webhook events
 export const WEBHOOK_EVENTS = {
@@ -46,7 +50,14 @@ export const WEBHOOK_EVENTS = {
   
   // Task events
   TASK_CREATED: 'task.created',
+  TASK_UPDATED: 'task.updated',
   TASK_COMPLETED: 'task.completed',
+  TASK_DELETED: 'task.deleted',
+  
+  // Budget events
+  BUDGET_ITEM_CREATED: 'budget_item.created',
+  BUDGET_ITEM_UPDATED: 'budget_item.updated',
+  BUDGET_ITEM_DELETED: 'budget_item.deleted',
 } as const
 
 export type WebhookEventType = typeof WEBHOOK_EVENTS[keyof typeof WEBHOOK_EVENTS]
@@ -70,6 +81,24 @@ function generateWebhookSecret(): string {
   return secret
 }
 
+/**
+ * Sign a payload with HMAC-SHA256 over `${timestamp}.${payload}`
+ */
+async function signPayload(secret: string, timestamp: number, payload: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${payload}`))
+  return Array.from(new Uint8Array(signature))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
 /**
  * Validate webhook URL
  */
@@ -503,6 +532,27 @@ export const updateDeliveryStatus = internalMutation({
   },
 })
 
+/**
+ * Mark a queued delivery as skipped without attempting it. The webhook's
+ * delivery and failure stats are left alone.
+ */
+export const skipDelivery = internalMutation({
+  args: {
+    deliveryId: v.id('webhookDeliveries'),
+    reason: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.deliveryId)
+    if (!delivery) return
+
+    await ctx.db.patch(args.deliveryId, {
+      status: 'skipped',
+      errorMessage: args.reason,
+      nextRetryAt: undefined,
+    })
+  },
+})
+
 /**
  * Get webhook by ID (internal)
  */
@@ -513,6 +563,128 @@ export const getWebhookById = internalQuery({
   },
 })
 
+/**
+ * Get a delivery together with its webhook (internal)
+ */
+export const getDeliveryWithWebhook = internalQuery({
+  args: { deliveryId: v.id('webhookDeliveries') },
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.deliveryId)
+    if (!delivery) return null
+
+    const webhook = await ctx.db.get(delivery.webhookId)
+    return { delivery, webhook }
+  },
+})
+
+// ----------------------------------------------------------------------------
+// Webhook Delivery
+// ----------------------------------------------------------------------------
+
+/**
+ * Attempt a single delivery and schedule a retry on failure
+ */
+export const deliverWebhook = internalAction({
+  args: { deliveryId: v.id('webhookDeliveries') },
+  handler: async (ctx, args) => {
+    const record = await ctx.runQuery(internal.webhooks.getDeliveryWithWebhook, {
+      deliveryId: args.deliveryId,
+    })
+    if (!record) return
+
+    const { delivery, webhook } = record
+    if (delivery.status === 'success' || delivery.status === 'failed' || delivery.status === 'skipped') return
+
+    // Webhook was deleted, paused or disabled since the delivery was queued.
+    // Not the receiver's fault, so this doesn't count towards auto-disabling.
+    if (!webhook || webhook.status !== 'active') {
+      await ctx.runMutation(internal.webhooks.skipDelivery, {
+        deliveryId: args.deliveryId,
+        reason: webhook ? `Webhook is ${webhook.status}` : 'Webhook not found',
+      })
+      return
+    }
+
+    const timestamp = Math.floor(Date.now() / 1000)
+    const signature = await signPayload(webhook.secret, timestamp, delivery.payload)
+
+    const startTime = Date.now()
+    let statusCode: number | undefined
+    let responseBody: string | undefined
+    let errorMessage: string | undefined
+
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS)
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'OpenEvent-Webhooks/1.0',
+          'X-OpenEvent-Signature': signature,
+          'X-OpenEvent-Timestamp': String(timestamp),
+          'X-OpenEvent-Event': delivery.eventType,
+          'X-OpenEvent-Delivery-Id': delivery._id,
+        },
+        body: delivery.payload,
+        signal: controller.signal,
+      })
+      statusCode = response.status
+      responseBody = await response.text().catch(() => undefined)
+      if (!response.ok) {
+        errorMessage = `Receiver responded with HTTP ${response.status}`
+      }
+    } catch (error) {
+      errorMessage = controller.signal.aborted
+        ? `Timed out after ${DELIVERY_TIMEOUT_MS}ms`
+        : error instanceof Error ? error.message : 'Request failed'
+    } finally {
+      clearTimeout(timeout)
+    }
+
+    const responseTimeMs = Date.now() - startTime
+
+    if (!errorMessage) {
+      await ctx.runMutation(internal.webhooks.updateDeliveryStatus, {
+        deliveryId: args.deliveryId,
+        status: 'success',
+        statusCode,
+        responseBody,
+        responseTimeMs,
+      })
+      return
+    }
+
+    // `attempts` counts completed attempts, so it indexes the next retry delay
+    const retryDelay = RETRY_DELAYS_MS[delivery.attempts]
+    if (retryDelay === undefined) {
+      await ctx.runMutation(internal.webhooks.updateDeliveryStatus, {
+        deliveryId: args.deliveryId,
+        status: 'failed',
+        statusCode,
+        responseBody,
+        responseTimeMs,
+        errorMessage,
+      })
+      return
+    }
+
+    await ctx.runMutation(internal.webhooks.updateDeliveryStatus, {
+      deliveryId: args.deliveryId,
+      status: 'retrying',
+      statusCode,
+      responseBody,
+      responseTimeMs,
+      errorMessage,
+      nextRetryAt: Date.now() + retryDelay,
+    })
+    await ctx.scheduler.runAfter(retryDelay, internal.webhooks.deliverWebhook, {
+      deliveryId: args.deliveryId,
+    })
+  },
+})
+
 // ----------------------------------------------------------------------------
 // Webhook Trigger Function
 // ----------------------------------------------------------------------------
@@ -563,11 +735,10 @@ export const triggerWebhooks = internalMutation({
       })
 
       deliveryIds.push(deliveryId)
-    }
 
-    // Schedule delivery action for each
-    // Note: In a real system, you'd use a scheduled function or queue
-    // For now, we return the delivery IDs and the client can poll for status
+      // Deliver asynchronously so the triggering mutation isn't blocked on HTTP
+      await ctx.scheduler.runAfter(0, internal.webhooks.deliverWebhook, { deliveryId })
+    }
 
     return {
       triggered: deliveryIds.length,
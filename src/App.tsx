@@ -29,6 +29,7 @@ import {
   EventTasksPage,
   VendorsPage,
   SponsorsPage,
+  InquiriesPage,
   AnalyticsPage,
   SettingsPage,
   PlaygroundPage,
@@ -55,6 +56,24 @@ import {
   SponsorApplicationPage,
   ApplicationSuccess,
 } from '@/pages/apply'
+import { InvitePage } from '@/pages/invite'
+import { PortalLayout } from '@/components/portal'
+import type { PortalNavItem } from '@/components/portal'
+import { VendorOverview, VendorProfile, VendorEvents } from '@/pages/vendor'
+import { SponsorOverview, SponsorProfile, SponsorEvents } from '@/pages/sponsor'
+import { SquaresFour, Storefront, CalendarBlank, Handshake } from '@phosphor-icons/react'
+
+const vendorNavItems: PortalNavItem[] = [
+  { label: 'Overview', path: '/vendor', icon: SquaresFour, end: true },
+  { label: 'Profile', path: '/vendor/profile', icon: Storefront },
+  { label: 'Events', path: '/vendor/events', icon: CalendarBlank },
+]
+
+const sponsorNavItems: PortalNavItem[] = [
+  { label: 'Overview', path: '/sponsor', icon: SquaresFour, end: true },
+  { label: 'Profile', path: '/sponsor/profile', icon: Handshake },
+  { label: 'Events', path: '/sponsor/events', icon: CalendarBlank },
+]
 
 function LandingPage() {
   return (
@@ -107,6 +126,7 @@ function App() {
             <Route path="/sign-up" element={<SignUp />} />
             {/* Smart redirect based on role */}
             <Route path="/auth/redirect" element={<AuthRedirect />} />
+            <Route path="/invite/:token" element={<InvitePage />} />
             <Route path="/onboarding" element={<Onboarding />} />
             <Route path="/onboarding/complete" element={<OnboardingComplete />} />
             <Route path="/dashboard" element={<AppShell />}>
@@ -122,6 +142,7 @@ function App() {
               <Route path="events/:eventId/tasks" element={<EventTasksPage />} />
               <Route path="vendors" element={<VendorsPage />} />
               <Route path="sponsors" element={<SponsorsPage />} />
+              <Route path="inquiries" element={<InquiriesPage />} />
               <Route path="analytics" element={<AnalyticsPage />} />
               <Route path="settings" element={<SettingsPage />} />
             </Route>
@@ -136,6 +157,24 @@ function App() {
               <Route path="ai-usage" element={<AdminAIUsage />} />
               <Route path="settings" element={<AdminSettings />} />
             </Route>
+            {/* Vendor Portal */}
+            <Route
+              path="/vendor"
+              element={<PortalLayout title="Vendor Portal" role="vendor" navItems={vendorNavItems} />}
+            >
+              <Route index element={<VendorOverview />} />
+              <Route path="profile" element={<VendorProfile />} />
+              <Route path="events" element={<VendorEvents />} />
+            </Route>
+            {/* Sponsor Portal */}
+            <Route
+              path="/sponsor"
+              element={<PortalLayout title="Sponsor Portal" role="sponsor" navItems={sponsorNavItems} />}
+            >
+              <Route index element={<SponsorOverview />} />
+              <Route path="profile" element={<SponsorProfile />} />
+              <Route path="events" element={<SponsorEvents />} />
+            </Route>
             {/* Public Routes */}
             <Route path="/docs" element={<DocsPage />} />
             <Route path="/contributors" element={<OpenSourcePage />} />
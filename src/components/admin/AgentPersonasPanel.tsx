@@ -0,0 +1,309 @@
+import { useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import type { Doc, Id } from '../../../convex/_generated/dataModel'
+import { cn } from '@/lib/utils'
+import { formatRelativeTime } from '@/lib/formatters'
+import { toast } from 'sonner'
+import { Archive, ArrowCounterClockwise, ClockCounterClockwise, PencilSimple, Plus, Robot } from '@phosphor-icons/react'
+
+const inputClassName = cn(
+  'w-full px-3 py-2 rounded-lg border border-border bg-background text-sm',
+  'focus:outline-none focus:ring-2 focus:ring-primary/20'
+)
+
+const buttonClassName = cn(
+  'inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium',
+  'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors',
+  'disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer'
+)
+
+const iconButtonClassName =
+  'p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-muted transition-colors cursor-pointer'
+
+type PersonaForm = { key: string; name: string; description: string; prompt: string; note: string }
+
+const emptyForm: PersonaForm = { key: '', name: '', description: '', prompt: '', note: '' }
+
+/**
+ * AI assistant personas: system prompts workspaces can pick from, with their
+ * version history (admin settings page)
+ */
+export function AgentPersonasPanel() {
+  const personas = useQuery(api.agentPersonas.listForAdmin)
+  const createPersona = useMutation(api.agentPersonas.create)
+  const updatePersona = useMutation(api.agentPersonas.update)
+  const setArchived = useMutation(api.agentPersonas.setArchived)
+
+  // null = closed, 'new' = creating, otherwise the persona being edited
+  const [editing, setEditing] = useState<'new' | Id<'agentPersonas'> | null>(null)
+  const [historyId, setHistoryId] = useState<Id<'agentPersonas'> | null>(null)
+  const [form, setForm] = useState<PersonaForm>(emptyForm)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const openEditor = (persona?: Doc<'agentPersonas'> & { prompt: string }) => {
+    setHistoryId(null)
+    if (persona) {
+      setEditing(persona._id)
+      setForm({
+        key: persona.key,
+        name: persona.name,
+        description: persona.description ?? '',
+        prompt: persona.prompt,
+        note: '',
+      })
+    } else {
+      setEditing('new')
+      setForm(emptyForm)
+    }
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      if (editing === 'new') {
+        await createPersona({
+          key: form.key,
+          name: form.name,
+          description: form.description,
+          prompt: form.prompt,
+        })
+        toast.success('Persona created')
+      } else if (editing) {
+        const result = await updatePersona({
+          id: editing,
+          name: form.name,
+          description: form.description,
+          prompt: form.prompt,
+          note: form.note,
+        })
+        toast.success(`Persona saved (version ${result.version})`)
+      }
+      setEditing(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save persona')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleArchive = async (id: Id<'agentPersonas'>, archived: boolean) => {
+    try {
+      await setArchived({ id, archived })
+      toast.success(archived ? 'Persona archived' : 'Persona restored')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update persona')
+    }
+  }
+
+  const setField = (field: keyof PersonaForm, value: string) => setForm((prev) => ({ ...prev, [field]: value }))
+
+  return (
+    <div className="rounded-xl border border-border bg-card overflow-hidden">
+      <div className="p-4 border-b border-border bg-muted/30">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-violet-500/10">
+              <Robot size={20} weight="duotone" className="text-violet-500" />
+            </div>
+            <div>
+              <h2 className="font-semibold">AI Assistant Personas</h2>
+              <p className="text-sm text-muted-foreground">
+                System prompts workspaces can pick for the AI assistant. Each saved prompt is a new version.
+              </p>
+            </div>
+          </div>
+          <button onClick={() => openEditor()} className={buttonClassName}>
+            <Plus size={16} />
+            New persona
+          </button>
+        </div>
+      </div>
+      <div className="p-4 space-y-4">
+        {/* Editor */}
+        {editing && (
+          <div className="space-y-3 p-4 rounded-lg border border-border">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <label className="space-y-1.5">
+                <span className="block text-sm">Name</span>
+                <input
+                  value={form.name}
+                  onChange={(e) => setField('name', e.target.value)}
+                  placeholder="Planning consultant"
+                  className={inputClassName}
+                />
+              </label>
+              <label className="space-y-1.5">
+                <span className="block text-sm">Key</span>
+                <input
+                  value={form.key}
+                  onChange={(e) => setField('key', e.target.value)}
+                  placeholder="planning-consultant"
+                  disabled={editing !== 'new'}
+                  className={cn(inputClassName, 'disabled:opacity-60')}
+                />
+              </label>
+            </div>
+            <label className="block space-y-1.5">
+              <span className="block text-sm">Description</span>
+              <input
+                value={form.description}
+                onChange={(e) => setField('description', e.target.value)}
+                placeholder="Shown to workspace owners when they pick a persona"
+                className={inputClassName}
+              />
+            </label>
+            <label className="block space-y-1.5">
+              <span className="block text-sm">Prompt</span>
+              <textarea
+                value={form.prompt}
+                onChange={(e) => setField('prompt', e.target.value)}
+                rows={12}
+                placeholder="How the assistant should approach users. The tool list and date context are added automatically."
+                className={cn(inputClassName, 'font-mono text-xs')}
+              />
+            </label>
+            {editing !== 'new' && (
+              <label className="block space-y-1.5">
+                <span className="block text-sm">What changed</span>
+                <input
+                  value={form.note}
+                  onChange={(e) => setField('note', e.target.value)}
+                  placeholder="Optional note for the version history"
+                  className={inputClassName}
+                />
+              </label>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !form.name.trim() || !form.key.trim() || !form.prompt.trim()}
+                className={buttonClassName}
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+              <button
+                onClick={() => setEditing(null)}
+                className="px-4 py-2 rounded-lg text-sm font-medium border border-border hover:bg-muted transition-colors cursor-pointer"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Personas */}
+        {personas && personas.length > 0 ? (
+          <div className="divide-y divide-border rounded-lg border border-border">
+            {personas.map((persona) => (
+              <div key={persona._id} className="p-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className={cn('font-medium text-sm', persona.isArchived && 'text-muted-foreground')}>
+                      {persona.name}
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">
+                        {persona.key} · v{persona.currentVersion}
+                        {persona.isDefault && ' · default'}
+                        {persona.isArchived && ' · archived'}
+                      </span>
+                    </p>
+                    {persona.description && (
+                      <p className="text-xs text-muted-foreground">{persona.description}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => openEditor(persona)}
+                      className={iconButtonClassName}
+                      aria-label={`Edit ${persona.name}`}
+                    >
+                      <PencilSimple size={14} />
+                    </button>
+                    <button
+                      onClick={() => setHistoryId(historyId === persona._id ? null : persona._id)}
+                      className={iconButtonClassName}
+                      aria-label={`Version history of ${persona.name}`}
+                    >
+                      <ClockCounterClockwise size={14} />
+                    </button>
+                    <button
+                      onClick={() => handleArchive(persona._id, !persona.isArchived)}
+                      className={iconButtonClassName}
+                      aria-label={persona.isArchived ? `Restore ${persona.name}` : `Archive ${persona.name}`}
+                    >
+                      {persona.isArchived ? <ArrowCounterClockwise size={14} /> : <Archive size={14} />}
+                    </button>
+                  </div>
+                </div>
+                {historyId === persona._id && (
+                  <PersonaHistory personaId={persona._id} currentVersion={persona.currentVersion} />
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No personas yet, so the assistant uses the built-in quick creator. Add one above or run{' '}
+            <code>npx convex run agentPersonas:seed</code> to load the built-in personas.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function PersonaHistory({
+  personaId,
+  currentVersion,
+}: {
+  personaId: Id<'agentPersonas'>
+  currentVersion: number
+}) {
+  const versions = useQuery(api.agentPersonas.listVersions, { id: personaId })
+  const restoreVersion = useMutation(api.agentPersonas.restoreVersion)
+
+  const handleRestore = async (version: number) => {
+    try {
+      const result = await restoreVersion({ id: personaId, version })
+      toast.success(`Restored as version ${result.version}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to restore version')
+    }
+  }
+
+  if (versions === undefined) {
+    return <div className="mt-3 h-12 bg-muted/50 rounded-lg animate-pulse" />
+  }
+
+  return (
+    <div className="mt-3 space-y-2">
+      {versions.map((version) => (
+        <details key={version._id} className="rounded-lg bg-muted/30 px-3 py-2 text-sm">
+          <summary className="flex items-center justify-between gap-3 cursor-pointer">
+            <span>
+              Version {version.version}
+              {version.note && <span className="text-muted-foreground"> · {version.note}</span>}
+            </span>
+            <span className="flex items-center gap-2 text-xs text-muted-foreground">
+              {formatRelativeTime(version.createdAt)}
+              {version.version === currentVersion ? (
+                <span className="text-primary">Current</span>
+              ) : (
+                <button
+                  onClick={(e) => {
+                    e.preventDefault()
+                    handleRestore(version.version)
+                  }}
+                  className="underline hover:text-foreground cursor-pointer"
+                >
+                  Restore
+                </button>
+              )}
+            </span>
+          </summary>
+          <pre className="mt-2 whitespace-pre-wrap font-mono text-xs text-muted-foreground">{version.prompt}</pre>
+        </details>
+      ))}
+    </div>
+  )
+}
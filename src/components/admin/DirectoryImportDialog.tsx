@@ -0,0 +1,422 @@
+import { useState } from 'react'
+import { useMutation } from 'convex/react'
+import type { FunctionArgs, FunctionReturnType } from 'convex/server'
+import { api } from '../../../convex/_generated/api'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { cn } from '@/lib/utils'
+import { toast } from 'sonner'
+import { CheckCircle, Copy, FileArrowUp, WarningCircle } from '@phosphor-icons/react'
+import { guessColumnMapping, readSpreadsheetFile, type ImportField, type SpreadsheetFile } from '@/lib/spreadsheet'
+
+type DirectoryKind = 'vendor' | 'sponsor'
+type ImportSummary = FunctionReturnType<typeof api.directoryImport.importVendors>
+type VendorRows = FunctionArgs<typeof api.directoryImport.importVendors>['rows']
+type SponsorRows = FunctionArgs<typeof api.directoryImport.importSponsors>['rows']
+
+// A row's choice in the preview: 'skip', 'create' or 'merge:<record id>'
+type RowChoice = string
+
+interface DirectoryImportDialogProps {
+  kind: DirectoryKind
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const CONTACT_FIELDS: ImportField[] = [
+  { key: 'contactName', label: 'Contact name', aliases: ['contact'] },
+  { key: 'contactEmail', label: 'Contact email', aliases: ['email'] },
+  { key: 'contactPhone', label: 'Contact phone', aliases: ['phone'] },
+  { key: 'website', label: 'Website', aliases: ['url'] },
+  { key: 'logoUrl', label: 'Logo URL', aliases: ['logo'] },
+  { key: 'companySize', label: 'Company size' },
+  { key: 'yearFounded', label: 'Year founded', aliases: ['founded'] },
+  { key: 'headquarters', label: 'Headquarters', aliases: ['hq'] },
+]
+
+const IMPORT_FIELDS: Record<DirectoryKind, ImportField[]> = {
+  vendor: [
+    { key: 'name', label: 'Name', required: true, aliases: ['company', 'vendor', 'vendor name'] },
+    { key: 'category', label: 'Category', required: true, aliases: ['type'] },
+    { key: 'description', label: 'Description' },
+    { key: 'services', label: 'Services' },
+    { key: 'location', label: 'Location', aliases: ['city'] },
+    { key: 'priceRange', label: 'Price range', aliases: ['pricing'] },
+    ...CONTACT_FIELDS,
+    { key: 'acceptedPaymentMethods', label: 'Payment methods', aliases: ['paymentTerms.acceptedMethods'] },
+    { key: 'requiresDeposit', label: 'Requires deposit', aliases: ['paymentTerms.requiresDeposit'] },
+    { key: 'depositPercentage', label: 'Deposit %', aliases: ['paymentTerms.depositPercentage'] },
+    { key: 'netDays', label: 'Net days', aliases: ['paymentTerms.netDays', 'payment terms'] },
+    { key: 'maxEventsPerMonth', label: 'Max events / month', aliases: ['capacity.maxEventsPerMonth'] },
+    { key: 'teamSize', label: 'Team size', aliases: ['capacity.teamSize'] },
+    { key: 'serviceArea', label: 'Service area', aliases: ['capacity.serviceArea'] },
+    { key: 'applicationNotes', label: 'Notes', aliases: ['application notes'] },
+  ],
+  sponsor: [
+    { key: 'name', label: 'Name', required: true, aliases: ['company', 'sponsor', 'sponsor name'] },
+    { key: 'industry', label: 'Industry', required: true, aliases: ['sector'] },
+    { key: 'description', label: 'Description' },
+    { key: 'sponsorshipTiers', label: 'Tiers', aliases: ['sponsorship tiers'] },
+    { key: 'budgetMin', label: 'Budget min', aliases: ['minimum budget'] },
+    { key: 'budgetMax', label: 'Budget max', aliases: ['maximum budget'] },
+    { key: 'targetEventTypes', label: 'Event types', aliases: ['target event types'] },
+    { key: 'targetAudience', label: 'Audience', aliases: ['target audience'] },
+    ...CONTACT_FIELDS,
+    { key: 'deliverablesOffered', label: 'Deliverables', aliases: ['deliverables offered'] },
+    { key: 'preferredPaymentMethod', label: 'Payment method', aliases: ['paymentTerms.preferredMethod'] },
+    { key: 'netDays', label: 'Net days', aliases: ['paymentTerms.netDays', 'payment terms'] },
+    { key: 'paymentCurrency', label: 'Currency', aliases: ['paymentTerms.currency'] },
+    { key: 'applicationNotes', label: 'Notes', aliases: ['application notes'] },
+  ],
+}
+
+const NOT_MAPPED = '__none__'
+
+const REASON_LABELS: Record<string, string> = {
+  name: 'name',
+  website: 'website',
+  email_domain: 'email domain',
+}
+
+/**
+ * Import vendors or sponsors from a CSV, Excel or JSON file. Rows are checked
+ * on the server first; likely duplicates of existing records are listed so the
+ * admin can merge, skip or create each one before importing.
+ */
+export function DirectoryImportDialog({ kind, open, onOpenChange }: DirectoryImportDialogProps) {
+  const importVendors = useMutation(api.directoryImport.importVendors)
+  const importSponsors = useMutation(api.directoryImport.importSponsors)
+
+  const [fileName, setFileName] = useState('')
+  const [headers, setHeaders] = useState<string[]>([])
+  const [dataRows, setDataRows] = useState<{ rowNumber: number; cells: string[] }[]>([])
+  const [decimalSeparator, setDecimalSeparator] = useState<SpreadsheetFile['decimalSeparator']>()
+  const [mapping, setMapping] = useState<Record<string, number | undefined>>({})
+  const [autoApprove, setAutoApprove] = useState(false)
+  const [preview, setPreview] = useState<ImportSummary | null>(null)
+  const [choices, setChoices] = useState<Record<number, RowChoice>>({})
+  const [isWorking, setIsWorking] = useState(false)
+
+  const fields = IMPORT_FIELDS[kind]
+  const plural = kind === 'vendor' ? 'vendors' : 'sponsors'
+
+  const reset = () => {
+    setFileName('')
+    setHeaders([])
+    setDataRows([])
+    setDecimalSeparator(undefined)
+    setMapping({})
+    setAutoApprove(false)
+    setPreview(null)
+    setChoices({})
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset()
+    onOpenChange(next)
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      const spreadsheet = await readSpreadsheetFile(file)
+      const [header = [], ...rest] = spreadsheet.rows
+      // Row numbers match the spreadsheet, with the header as row 1
+      const rows = rest
+        .map((cells, i) => ({ rowNumber: i + 2, cells }))
+        .filter((row) => row.cells.some((cell) => cell.trim()))
+      if (rows.length === 0) {
+        toast.error('The file has no records')
+        return
+      }
+
+      const columns = header.map((h, i) => h.trim() || `Column ${i + 1}`)
+      setFileName(file.name)
+      setHeaders(columns)
+      setDataRows(rows)
+      setDecimalSeparator(spreadsheet.decimalSeparator)
+      setMapping(guessColumnMapping(columns, fields))
+      setPreview(null)
+      setChoices({})
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read the file')
+    }
+  }
+
+  const mappedRows = () =>
+    dataRows.map(({ rowNumber, cells }) => {
+      const values: Record<string, string> = {}
+      for (const field of fields) {
+        const column = mapping[field.key]
+        if (column !== undefined && cells[column] !== undefined) values[field.key] = cells[column]
+      }
+
+      const choice = choices[rowNumber]
+      const [decision, mergeIntoId] = choice?.split(':') ?? []
+      return {
+        rowNumber,
+        ...values,
+        ...(decision && { decision: decision as 'create' | 'merge' | 'skip' }),
+        ...(mergeIntoId && { mergeIntoId }),
+      }
+    })
+
+  const runImport = (dryRun: boolean) => {
+    const args = { rows: mappedRows(), dryRun, decimalSeparator, autoApprove, fileName }
+    return kind === 'vendor'
+      ? importVendors({ ...args, rows: args.rows as VendorRows })
+      : importSponsors({ ...args, rows: args.rows as SponsorRows })
+  }
+
+  const missingRequired = fields.filter((f) => f.required && mapping[f.key] === undefined)
+
+  const handleCheck = async () => {
+    setIsWorking(true)
+    try {
+      setPreview(await runImport(true))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to check rows')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleImport = async () => {
+    setIsWorking(true)
+    try {
+      const result = await runImport(false)
+      const parts = [`${result.created} created`, `${result.merged} merged`]
+      if (result.skipped + result.invalid > 0) parts.push(`${result.skipped + result.invalid} skipped`)
+      toast.success(`Imported ${plural}: ${parts.join(', ')}`)
+      handleOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Import failed')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  // What each previewed row will do, with the admin's choices applied
+  const choiceFor = (row: ImportSummary['rows'][number]): RowChoice =>
+    choices[row.rowNumber] ??
+    (row.outcome === 'merge' ? `merge:${row.mergeIntoId}` : row.outcome)
+  const importCount =
+    preview?.rows.filter((row) => row.outcome !== 'invalid' && choiceFor(row) !== 'skip').length ?? 0
+  const attentionRows = preview?.rows.filter((row) => row.errors.length > 0 || row.duplicates.length > 0) ?? []
+
+  const sample = dataRows[0]?.cells ?? []
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Import {kind === 'vendor' ? 'Vendors' : 'Sponsors'}</DialogTitle>
+          <DialogDescription>
+            Upload a CSV, Excel (.xlsx) or JSON file. Likely duplicates of existing {plural} are flagged
+            by name, website or email domain before anything is imported.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2 max-h-[60vh] overflow-y-auto">
+          {/* File */}
+          <label
+            className={cn(
+              'flex items-center gap-3 p-4 rounded-lg border border-dashed border-border cursor-pointer',
+              'hover:bg-muted/50 transition-colors'
+            )}
+          >
+            <FileArrowUp size={24} weight="duotone" className="text-muted-foreground" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{fileName || 'Choose a file'}</p>
+              <p className="text-xs text-muted-foreground">
+                {fileName ? `${dataRows.length} records` : '.csv, .xlsx or .json, up to 500 records'}
+              </p>
+            </div>
+            <input
+              type="file"
+              accept=".csv,.xlsx,.json,text/csv,application/json,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="sr-only"
+              onChange={(e) => {
+                void handleFile(e.target.files?.[0])
+                e.target.value = ''
+              }}
+            />
+          </label>
+
+          {/* Column mapping */}
+          {headers.length > 0 && !preview && (
+            <div className="space-y-3">
+              {fields.map((field) => {
+                const column = mapping[field.key]
+                return (
+                  <div key={field.key} className="grid grid-cols-[160px_1fr] items-center gap-3">
+                    <Label>
+                      {field.label}
+                      {field.required && ' *'}
+                    </Label>
+                    <div className="min-w-0">
+                      <Select
+                        value={column === undefined ? NOT_MAPPED : String(column)}
+                        onValueChange={(value) =>
+                          setMapping({ ...mapping, [field.key]: value === NOT_MAPPED ? undefined : Number(value) })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_MAPPED}>Don't import</SelectItem>
+                          {headers.map((header, i) => (
+                            <SelectItem key={i} value={String(i)}>
+                              {header}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {column !== undefined && sample[column] && (
+                        <p className="text-xs text-muted-foreground truncate mt-1">e.g. {sample[column]}</p>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+
+              <div className="flex items-center gap-2 pt-2">
+                <input
+                  type="checkbox"
+                  id="importAutoApprove"
+                  checked={autoApprove}
+                  onChange={(e) => setAutoApprove(e.target.checked)}
+                  className="w-4 h-4 rounded border-border"
+                />
+                <label htmlFor="importAutoApprove" className="text-sm font-medium">
+                  Approve new {plural} on import
+                </label>
+              </div>
+            </div>
+          )}
+
+          {/* Dry run results */}
+          {preview && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-sm">
+                <CheckCircle size={18} weight="fill" className="text-green-500" />
+                {importCount} of {preview.total} records will be imported
+              </div>
+
+              {attentionRows.length > 0 && (
+                <div className="rounded-lg border border-border divide-y divide-border">
+                  {attentionRows.map((row) => (
+                    <div key={row.rowNumber} className="flex items-start gap-2 p-3 text-sm">
+                      {row.errors.length > 0 ? (
+                        <WarningCircle size={16} weight="fill" className="text-red-500 mt-0.5 flex-shrink-0" />
+                      ) : (
+                        <Copy size={16} weight="fill" className="text-amber-500 mt-0.5 flex-shrink-0" />
+                      )}
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <p className="font-medium">
+                          Row {row.rowNumber}
+                          {row.name && <span className="text-muted-foreground font-normal"> · {row.name}</span>}
+                        </p>
+                        {row.errors.map((error) => (
+                          <p key={error} className="text-muted-foreground">
+                            {error}
+                          </p>
+                        ))}
+                        {row.errors.length === 0 && (
+                          <>
+                            {row.duplicates.map((duplicate) => (
+                              <p key={duplicate.id} className="text-muted-foreground">
+                                Looks like {duplicate.name} (same{' '}
+                                {duplicate.reasons.map((reason) => REASON_LABELS[reason]).join(', ')})
+                              </p>
+                            ))}
+                            <Select
+                              value={choiceFor(row)}
+                              onValueChange={(value) => setChoices({ ...choices, [row.rowNumber]: value })}
+                            >
+                              <SelectTrigger className="mt-1">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="skip">Skip this row</SelectItem>
+                                {row.duplicates.map((duplicate) => (
+                                  <SelectItem key={duplicate.id} value={`merge:${duplicate.id}`}>
+                                    Merge into {duplicate.name}
+                                  </SelectItem>
+                                ))}
+                                <SelectItem value="create">Create a new {kind} anyway</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {attentionRows.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Rows with errors are skipped. Merging only fills in fields the existing record is missing.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {preview ? (
+            <button
+              onClick={() => setPreview(null)}
+              className="px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Back
+            </button>
+          ) : (
+            <button
+              onClick={() => handleOpenChange(false)}
+              className="px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={preview ? handleImport : handleCheck}
+            disabled={
+              isWorking || dataRows.length === 0 || missingRequired.length > 0 || (preview !== null && importCount === 0)
+            }
+            title={missingRequired.length > 0 ? `Map ${missingRequired.map((f) => f.label).join(', ')}` : undefined}
+            className={cn(
+              'flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium',
+              'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors',
+              'disabled:opacity-50 disabled:cursor-not-allowed'
+            )}
+          >
+            {isWorking
+              ? preview
+                ? 'Importing...'
+                : 'Checking...'
+              : preview
+                ? `Import ${importCount} ${plural}`
+                : 'Check Records'}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,160 @@
+import { useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import type { Id } from '../../../convex/_generated/dataModel'
+import { cn } from '@/lib/utils'
+import { formatRelativeTime } from '@/lib/formatters'
+import { toast } from 'sonner'
+import { CurrencyCircleDollar, Plus, Trash } from '@phosphor-icons/react'
+
+const inputClassName = cn(
+  'px-3 py-2 rounded-lg border border-border bg-background text-sm',
+  'focus:outline-none focus:ring-2 focus:ring-primary/20'
+)
+
+/**
+ * Exchange rate table used to convert budgets between currencies (admin settings page)
+ */
+export function ExchangeRatesPanel() {
+  const rates = useQuery(api.exchangeRates.list)
+  const upsertRate = useMutation(api.exchangeRates.upsert)
+  const removeRate = useMutation(api.exchangeRates.remove)
+
+  const [currency, setCurrency] = useState('')
+  const [rate, setRate] = useState('')
+  const [effectiveDate, setEffectiveDate] = useState(() => new Date().toISOString().slice(0, 10))
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await upsertRate({ currency, rate: Number(rate), effectiveDate })
+      toast.success('Exchange rate saved')
+      setCurrency('')
+      setRate('')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save rate')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRemove = async (id: Id<'exchangeRates'>) => {
+    try {
+      await removeRate({ id })
+      toast.success('Exchange rate removed')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove rate')
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-border bg-card overflow-hidden">
+      <div className="p-4 border-b border-border bg-muted/30">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-emerald-500/10">
+            <CurrencyCircleDollar size={20} weight="duotone" className="text-emerald-500" />
+          </div>
+          <div>
+            <h2 className="font-semibold">Exchange Rates</h2>
+            <p className="text-sm text-muted-foreground">
+              Units of each currency per 1 USD, used to convert budgets and reports
+            </p>
+          </div>
+        </div>
+      </div>
+      <div className="p-4 space-y-6">
+        {/* Add rate */}
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="space-y-1.5">
+            <span className="block text-sm">Currency</span>
+            <input
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+              placeholder="MYR"
+              maxLength={3}
+              className={cn(inputClassName, 'w-24 uppercase')}
+            />
+          </label>
+          <label className="space-y-1.5">
+            <span className="block text-sm">Rate per USD</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              placeholder="4.20"
+              className={cn(inputClassName, 'w-32')}
+            />
+          </label>
+          <label className="space-y-1.5">
+            <span className="block text-sm">Effective from</span>
+            <input
+              type="date"
+              value={effectiveDate}
+              onChange={(e) => setEffectiveDate(e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || currency.length !== 3 || !rate || !effectiveDate}
+            className={cn(
+              'inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium',
+              'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors',
+              'disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer'
+            )}
+          >
+            <Plus size={16} />
+            {isSaving ? 'Saving...' : 'Save rate'}
+          </button>
+        </div>
+
+        {/* Rates */}
+        {rates && rates.length > 0 ? (
+          <div className="overflow-x-auto rounded-lg border border-border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/30 text-xs text-muted-foreground">
+                <tr>
+                  <th className="text-left font-medium px-3 py-2">Currency</th>
+                  <th className="text-right font-medium px-3 py-2">Rate per USD</th>
+                  <th className="text-left font-medium px-3 py-2">Effective from</th>
+                  <th className="text-left font-medium px-3 py-2">Source</th>
+                  <th className="text-right font-medium px-3 py-2">Updated</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {rates.map((row) => (
+                  <tr key={row._id}>
+                    <td className="px-3 py-2 font-medium">{row.currency}</td>
+                    <td className="px-3 py-2 text-right">{row.rate}</td>
+                    <td className="px-3 py-2">{row.effectiveDate}</td>
+                    <td className="px-3 py-2 capitalize">{row.source ?? 'manual'}</td>
+                    <td className="px-3 py-2 text-right text-muted-foreground">
+                      {formatRelativeTime(row.updatedAt ?? row.createdAt)}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => handleRemove(row._id)}
+                        className="p-1.5 rounded-lg text-muted-foreground hover:text-red-600 hover:bg-red-500/10 transition-colors cursor-pointer"
+                        aria-label={`Remove ${row.currency} rate from ${row.effectiveDate}`}
+                      >
+                        <Trash size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No rates yet. Add one above or run <code>npx convex run exchangeRates:seed</code>.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
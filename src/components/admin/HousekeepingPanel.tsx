@@ -0,0 +1,213 @@
+import { useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import type { FunctionArgs } from 'convex/server'
+import { cn } from '@/lib/utils'
+import { formatRelativeTime } from '@/lib/formatters'
+import { toast } from 'sonner'
+import { Broom, Play, FloppyDisk, CheckCircle, XCircle } from '@phosphor-icons/react'
+
+type HousekeepingJob = FunctionArgs<typeof api.housekeeping.runNow>['job']
+type HousekeepingSettings = FunctionArgs<typeof api.housekeeping.updateSettings>
+
+const settingUnits: Record<keyof HousekeepingSettings, string> = {
+  requestLogRetentionDays: 'days',
+  rateLimitRetentionHours: 'hours',
+  webhookDeliveryRetentionDays: 'days',
+  jobRunRetentionDays: 'days',
+}
+
+/**
+ * Retention settings, scheduled jobs and their run history (admin settings page)
+ */
+export function HousekeepingPanel() {
+  const data = useQuery(api.housekeeping.getSettings)
+  const jobs = useQuery(api.housekeeping.listJobs)
+  const runs = useQuery(api.housekeeping.listRuns, { limit: 25 })
+  const runNow = useMutation(api.housekeeping.runNow)
+
+  const handleRunNow = async (job: HousekeepingJob) => {
+    try {
+      await runNow({ job })
+      toast.success('Job started')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start job')
+    }
+  }
+
+  const jobLabels = new Map(jobs?.map((job) => [job.job, job.label]))
+
+  return (
+    <div className="rounded-xl border border-border bg-card overflow-hidden">
+      <div className="p-4 border-b border-border bg-muted/30">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-orange-500/10">
+            <Broom size={20} weight="duotone" className="text-orange-500" />
+          </div>
+          <div>
+            <h2 className="font-semibold">Housekeeping</h2>
+            <p className="text-sm text-muted-foreground">Scheduled cleanup jobs and data retention</p>
+          </div>
+        </div>
+      </div>
+      <div className="p-4 space-y-6">
+        {/* Retention */}
+        {data ? (
+          <RetentionForm key={data.updatedAt ?? 'defaults'} settings={data.settings} limits={data.limits} />
+        ) : (
+          <div className="h-24 rounded-lg bg-muted/50 animate-pulse" />
+        )}
+
+        {/* Jobs */}
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-muted-foreground">Jobs</h3>
+          <div className="divide-y divide-border rounded-lg border border-border">
+            {jobs?.map((job) => (
+              <div key={job.job} className="flex items-center justify-between gap-3 p-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{job.label}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {job.schedule}
+                    {job.lastRun
+                      ? ` · Last run ${formatRelativeTime(job.lastRun.startedAt)} (${job.lastRun.status})`
+                      : ' · Not run yet'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRunNow(job.job)}
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-border text-sm hover:bg-muted/50 transition-colors cursor-pointer"
+                >
+                  <Play size={14} />
+                  Run now
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Run history */}
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-muted-foreground">Recent runs</h3>
+          {runs && runs.length > 0 ? (
+            <div className="overflow-x-auto rounded-lg border border-border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/30 text-xs text-muted-foreground">
+                  <tr>
+                    <th className="text-left font-medium px-3 py-2">Job</th>
+                    <th className="text-left font-medium px-3 py-2">Status</th>
+                    <th className="text-right font-medium px-3 py-2">Rows</th>
+                    <th className="text-right font-medium px-3 py-2">Duration</th>
+                    <th className="text-left font-medium px-3 py-2">Trigger</th>
+                    <th className="text-right font-medium px-3 py-2">Started</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {runs.map((run) => (
+                    <tr key={run._id}>
+                      <td className="px-3 py-2">{jobLabels.get(run.job as HousekeepingJob) ?? run.job}</td>
+                      <td className="px-3 py-2">
+                        <span
+                          className={cn(
+                            'inline-flex items-center gap-1 text-xs font-medium',
+                            run.status === 'success' ? 'text-green-600' : 'text-red-600'
+                          )}
+                          title={run.error}
+                        >
+                          {run.status === 'success' ? <CheckCircle size={14} /> : <XCircle size={14} />}
+                          {run.status}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-right">{run.processed}</td>
+                      <td className="px-3 py-2 text-right">{run.finishedAt - run.startedAt}ms</td>
+                      <td className="px-3 py-2 capitalize">{run.trigger}</td>
+                      <td className="px-3 py-2 text-right text-muted-foreground">
+                        {formatRelativeTime(run.startedAt)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No job runs recorded yet.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function RetentionForm({
+  settings,
+  limits,
+}: {
+  settings: HousekeepingSettings
+  limits: Record<keyof HousekeepingSettings, { label: string; min: number; max: number }>
+}) {
+  const updateSettings = useMutation(api.housekeeping.updateSettings)
+  const [values, setValues] = useState<Record<keyof HousekeepingSettings, string>>({
+    requestLogRetentionDays: String(settings.requestLogRetentionDays),
+    rateLimitRetentionHours: String(settings.rateLimitRetentionHours),
+    webhookDeliveryRetentionDays: String(settings.webhookDeliveryRetentionDays),
+    jobRunRetentionDays: String(settings.jobRunRetentionDays),
+  })
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await updateSettings({
+        requestLogRetentionDays: Number(values.requestLogRetentionDays),
+        rateLimitRetentionHours: Number(values.rateLimitRetentionHours),
+        webhookDeliveryRetentionDays: Number(values.webhookDeliveryRetentionDays),
+        jobRunRetentionDays: Number(values.jobRunRetentionDays),
+      })
+      toast.success('Retention settings saved')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save settings')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const keys = Object.keys(settingUnits) as Array<keyof HousekeepingSettings>
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium text-muted-foreground">Retention</h3>
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {keys.map((key) => (
+          <label key={key} className="space-y-1.5">
+            <span className="block text-sm">{limits[key].label}</span>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={limits[key].min}
+                max={limits[key].max}
+                value={values[key]}
+                onChange={(e) => setValues((prev) => ({ ...prev, [key]: e.target.value }))}
+                className={cn(
+                  'w-24 px-3 py-2 rounded-lg border border-border bg-background text-sm',
+                  'focus:outline-none focus:ring-2 focus:ring-primary/20'
+                )}
+              />
+              <span className="text-sm text-muted-foreground">{settingUnits[key]}</span>
+            </div>
+          </label>
+        ))}
+      </div>
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className={cn(
+          'inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium',
+          'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors',
+          'disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer'
+        )}
+      >
+        <FloppyDisk size={16} />
+        {isSaving ? 'Saving...' : 'Save retention'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+import { useState } from 'react'
+import { useMutation } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import type { Id } from '../../../convex/_generated/dataModel'
+import { cn } from '@/lib/utils'
+import { toast } from 'sonner'
+import { EnvelopeSimple, CircleNotch } from '@phosphor-icons/react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+export type PortalInviteTarget = ({ vendorId: Id<'vendors'> } | { sponsorId: Id<'sponsors'> }) & {
+  name: string
+  /** Prefills the email field, usually the contact email on file */
+  email?: string
+}
+
+interface PortalInviteDialogProps {
+  target: PortalInviteTarget | null
+  onClose: () => void
+}
+
+/**
+ * Invite someone to manage a vendor or sponsor through its self-service portal
+ */
+export function PortalInviteDialog({ target, onClose }: PortalInviteDialogProps) {
+  return (
+    <Dialog open={target !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        {/* Keyed so the email resets for each target */}
+        {target && (
+          <PortalInviteForm
+            key={'vendorId' in target ? target.vendorId : target.sponsorId}
+            target={target}
+            onClose={onClose}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function PortalInviteForm({ target, onClose }: { target: PortalInviteTarget; onClose: () => void }) {
+  const createInvitation = useMutation(api.invitations.create)
+  const [email, setEmail] = useState(target.email ?? '')
+  const [isSending, setIsSending] = useState(false)
+
+  const handleSend = async () => {
+    setIsSending(true)
+    try {
+      await createInvitation(
+        'vendorId' in target
+          ? { vendorId: target.vendorId, email }
+          : { sponsorId: target.sponsorId, email }
+      )
+      toast.success(`Portal invitation sent to ${email}`)
+      onClose()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send invitation')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <>
+      <DialogHeader>
+        <div className="flex items-center gap-3 mb-2">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <EnvelopeSimple size={20} weight="duotone" className="text-primary" />
+          </div>
+          <DialogTitle>Invite to portal</DialogTitle>
+        </div>
+        <DialogDescription>
+          The recipient can sign up and manage {target.name}'s profile, apply to events and follow
+          their {'vendorId' in target ? 'engagements' : 'sponsorship deals'}.
+        </DialogDescription>
+      </DialogHeader>
+
+      <input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="contact@company.com"
+        className={cn(
+          'w-full px-3 py-2 rounded-lg border border-border bg-background',
+          'text-sm placeholder:text-muted-foreground',
+          'focus:outline-none focus:ring-2 focus:ring-primary/20'
+        )}
+      />
+
+      <DialogFooter>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSend}
+          disabled={!email.trim() || isSending}
+          className={cn(
+            'flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium',
+            'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors',
+            'disabled:opacity-50 disabled:cursor-not-allowed'
+          )}
+        >
+          {isSending && <CircleNotch size={16} className="animate-spin" />}
+          Send invitation
+        </button>
+      </DialogFooter>
+    </>
+  )
+}
@@ -5,3 +5,9 @@ export { AdminMobileSidebar } from './AdminMobileSidebar'
 export { AdminProtectedRoute } from './AdminProtectedRoute'
 export { AddVendorModal } from './AddVendorModal'
 export { AddSponsorModal } from './AddSponsorModal'
+export { DirectoryImportDialog } from './DirectoryImportDialog'
+export { PortalInviteDialog } from './PortalInviteDialog'
+export type { PortalInviteTarget } from './PortalInviteDialog'
+export { HousekeepingPanel } from './HousekeepingPanel'
+export { ExchangeRatesPanel } from './ExchangeRatesPanel'
+export { AgentPersonasPanel } from './AgentPersonasPanel'
@@ -1,20 +1,25 @@
 import { useState, useCallback, useMemo } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { useConvexAuth, useQuery } from 'convex/react'
+import { useConvexAuth, useMutation, useQuery } from 'convex/react'
 import { useAuthToken } from '@convex-dev/auth/react'
 import { api } from '../../../convex/_generated/api'
+import type { Id } from '../../../convex/_generated/dataModel'
 import { CheckCircle } from '@phosphor-icons/react'
 import { cn } from '@/lib/utils'
+import { getPlanTasks, type PlanStepState } from '@/lib/agent-plan'
+import { TaskProgress } from '@/components/chat/TaskProgress'
 import { toast } from 'sonner'
 
 // Components
 import { AgenticAvatar } from './AgenticAvatar'
 import { AgenticMessage } from './AgenticMessage'
 import { AgenticConfirmation } from './AgenticConfirmation'
+import { AgenticPlan } from './AgenticPlan'
 import { AgenticHeader } from './AgenticHeader'
 import { AgenticToolResults } from './AgenticToolResults'
 import { AgenticThinkingIndicator } from './AgenticThinkingIndicator'
 import { AgenticInputArea } from './AgenticInputArea'
+import { AgenticThreads } from './AgenticThreads'
 
 // Hooks
 import { useAgenticChat } from './hooks/useAgenticChat'
@@ -40,7 +45,9 @@ export function AgenticChatV2({
 
   // AI Usage/Rate limit
   const aiUsage = useQuery(api.aiUsage.getMyUsage)
+  const rejectConfirmation = useMutation(api.conversations.rejectConfirmation)
   const [localRemaining, setLocalRemaining] = useState<number | null>(null)
+  const [isThreadsOpen, setIsThreadsOpen] = useState(false)
 
   // Use local state if available, otherwise use query result
   const promptsRemaining = localRemaining ?? aiUsage?.promptsRemaining ?? 5
@@ -62,16 +69,19 @@ export function AgenticChatV2({
     executingTools,
     toolResults,
     pendingConfirmation,
+    planRun,
     inputValue,
+    conversationId,
     setInputValue,
     clearChat,
+    resumeConversation,
     // Refs - only used in JSX ref props, not during render logic
     inputRef,
     conversationAreaRef,
   } = chat
 
   // Streaming chat hook
-  const { sendMessage, executeToolConfirmation } = useStreamingChat({
+  const { sendMessage, executeToolConfirmation, executePlan } = useStreamingChat({
     authToken,
     convexUrl,
     confirmedToolCalls: chat.confirmedToolCalls,
@@ -95,8 +105,9 @@ export function AgenticChatV2({
 
     const abortController = chat.createAbortController()
 
-    await sendMessage(userMessage, chat.messages, abortController, {
+    await sendMessage(userMessage, chat.conversationId, abortController, {
       onPrepare: chat.prepareForSend,
+      onSetConversation: chat.setConversation,
       onAddMessage: chat.addMessage,
       onUpdateMessage: chat.updateMessage,
       onSetStreaming: chat.setStreaming,
@@ -119,7 +130,7 @@ export function AgenticChatV2({
   const handleConfirm = useCallback(async () => {
     if (!chat.pendingConfirmation || !authToken) return
 
-    await executeToolConfirmation(chat.pendingConfirmation, {
+    await executeToolConfirmation(chat.pendingConfirmation, chat.conversationId, {
       onSetLoading: chat.setLoading,
       onAddExecutingTool: chat.addExecutingTool,
       onSetActivity: chat.setActivity,
@@ -131,11 +142,34 @@ export function AgenticChatV2({
     })
   }, [chat, authToken, executeToolConfirmation])
 
+  // Handle plan approval (the steps as edited, dropped ones included)
+  const handleApprovePlan = useCallback(async (title: string, steps: PlanStepState[]) => {
+    if (!chat.pendingConfirmation || !authToken) return
+
+    await executePlan(chat.pendingConfirmation, title, steps, chat.conversationId, {
+      onSetLoading: chat.setLoading,
+      onSetActivity: chat.setActivity,
+      onStartPlan: chat.startPlan,
+      onPlanEvent: chat.applyPlanProgress,
+      onSetPendingConfirmation: chat.setPendingConfirmation,
+      onSetComplete: chat.setComplete,
+      onAddMessage: chat.addMessage,
+    })
+  }, [chat, authToken, executePlan])
+
   // Handle cancel
   const handleCancel = useCallback(() => {
+    if (chat.pendingConfirmation && chat.conversationId) {
+      rejectConfirmation({
+        conversationId: chat.conversationId as Id<'conversations'>,
+        toolCallId: chat.pendingConfirmation.id,
+      }).catch(() => {
+        // Outcome is informational only
+      })
+    }
     chat.setPendingConfirmation(null)
     toast.info('Action cancelled')
-  }, [chat])
+  }, [chat, rejectConfirmation])
 
   // Handle submit
   const handleSubmit = useCallback(() => {
@@ -144,6 +178,16 @@ export function AgenticChatV2({
     }
   }, [inputValue, handleSend])
 
+  // Open a past conversation from the thread list
+  const handleSelectThread = useCallback((id: string) => {
+    if (isLoading) {
+      toast.info('Wait for the current reply to finish')
+      return
+    }
+    setIsThreadsOpen(false)
+    if (id !== conversationId) resumeConversation(id)
+  }, [isLoading, conversationId, resumeConversation])
+
   // Navigate to settings
   const handleNavigateToSettings = useCallback(() => {
     navigate('/dashboard/settings')
@@ -157,6 +201,11 @@ export function AgenticChatV2({
         return undefined
       }
 
+      // Plans are approved from their own card, after any edits
+      if (pendingConfirmation?.name === 'proposePlan') {
+        return undefined
+      }
+
       const confirmationPatterns = [
         /shall i proceed/i,
         /would you like me to (create|proceed|continue)/i,
@@ -226,10 +275,23 @@ export function AgenticChatV2({
           promptsLimit={promptsLimit}
           timeUntilReset={timeUntilReset}
           subtitle={subtitle}
+          isThreadsOpen={isThreadsOpen}
           onClear={clearChat}
+          onToggleThreads={() => setIsThreadsOpen((open) => !open)}
           onNavigateToSettings={handleNavigateToSettings}
         />
 
+        {/* Past conversations */}
+        {isThreadsOpen && (
+          <AgenticThreads
+            currentId={conversationId}
+            onSelect={handleSelectThread}
+            onDeleteCurrent={clearChat}
+            onClose={() => setIsThreadsOpen(false)}
+            className="w-full max-w-2xl mx-auto"
+          />
+        )}
+
         {/* Conversation Area - Only shown when there are messages */}
         {hasMessages && (
           <div className="agentic-conversation-area" ref={conversationAreaRef}>
@@ -260,16 +322,33 @@ export function AgenticChatV2({
                   <div className="flex gap-3">
                     <AgenticAvatar isStreaming={false} />
                     <div className="flex-1 max-w-[85%]">
-                      <AgenticConfirmation
-                        toolCall={pendingConfirmation}
-                        onConfirm={handleConfirm}
-                        onCancel={handleCancel}
-                        isLoading={isLoading}
-                      />
+                      {pendingConfirmation.name === 'proposePlan' ? (
+                        <AgenticPlan
+                          key={pendingConfirmation.id}
+                          toolCall={pendingConfirmation}
+                          onApprove={handleApprovePlan}
+                          onCancel={handleCancel}
+                          isLoading={isLoading}
+                        />
+                      ) : (
+                        <AgenticConfirmation
+                          toolCall={pendingConfirmation}
+                          onConfirm={handleConfirm}
+                          onCancel={handleCancel}
+                          isLoading={isLoading}
+                        />
+                      )}
                     </div>
                   </div>
                 )}
 
+                {/* Approved Plan Progress */}
+                {planRun && (
+                  <div className="ml-12">
+                    <TaskProgress title={planRun.title} tasks={getPlanTasks(planRun)} />
+                  </div>
+                )}
+
                 {/* Thinking Indicator */}
                 {!pendingConfirmation && (
                   <AgenticThinkingIndicator
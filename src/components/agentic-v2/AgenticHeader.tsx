@@ -1,5 +1,5 @@
 import { memo } from 'react'
-import { Lightning, Trash } from '@phosphor-icons/react'
+import { ClockCounterClockwise, Lightning, Trash } from '@phosphor-icons/react'
 import { LogoIcon } from '@/components/ui/logo'
 import type { AgenticHeaderProps } from './types'
 
@@ -11,7 +11,9 @@ export const AgenticHeader = memo(function AgenticHeader({
   promptsLimit,
   timeUntilReset,
   subtitle,
+  isThreadsOpen,
   onClear,
+  onToggleThreads,
   onNavigateToSettings,
 }: AgenticHeaderProps) {
   const quotaPercentage = promptsLimit > 0 ? (promptsRemaining / promptsLimit) : 0
@@ -85,6 +87,17 @@ export const AgenticHeader = memo(function AgenticHeader({
             </span>
           )}
 
+          {/* Past conversations */}
+          <button
+            onClick={onToggleThreads}
+            className="agentic-badge agentic-badge-history"
+            title="Past conversations"
+            aria-expanded={isThreadsOpen}
+          >
+            <ClockCounterClockwise size={14} />
+            <span className="hidden xs:inline">History</span>
+          </button>
+
           {/* Clear button */}
           {hasMessages && (
             <button
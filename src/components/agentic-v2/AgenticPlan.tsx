@@ -0,0 +1,212 @@
+import { useState } from 'react'
+import { Check, CircleNotch, PencilSimple, Warning } from '@phosphor-icons/react'
+import { cn } from '@/lib/utils'
+import { getToolConfig } from '@/lib/agent-tools'
+import { getPlanSteps, getStepDependencies, getStepReference, type PlanStepState } from '@/lib/agent-plan'
+import type { ToolCall } from './types'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AgenticPlanProps {
+  toolCall: ToolCall
+  onApprove: (title: string, steps: PlanStepState[]) => void
+  onCancel: () => void
+  isLoading?: boolean
+  className?: string
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * AgenticPlan - Review card for a proposePlan call. Steps can be edited or
+ * dropped before the whole plan is approved at once.
+ */
+export function AgenticPlan({ toolCall, onApprove, onCancel, isLoading = false, className }: AgenticPlanProps) {
+  const title = (toolCall.arguments.title as string) || 'Plan'
+  const [steps, setSteps] = useState(() => getPlanSteps(toolCall.arguments))
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const updateStep = (id: string, changes: Partial<PlanStepState>) => {
+    setSteps((prev) => prev.map((step) => (step.id === id ? { ...step, ...changes } : step)))
+  }
+
+  // A kept step can't use the result of a dropped one
+  const missingDependency = (step: PlanStepState) =>
+    step.selected ? getStepDependencies(step).find((n) => !steps[n - 1]?.selected) : undefined
+
+  const selectedCount = steps.filter((step) => step.selected).length
+  const blocked = steps.some((step) => missingDependency(step) !== undefined)
+  // Steps that stay done if the plan fails (inquiries, application decisions)
+  const irreversible = steps
+    .map((step, index) => ({ step, number: index + 1 }))
+    .filter(({ step }) => step.selected && !getToolConfig(step.tool).undoable)
+
+  return (
+    <div className={cn('agentic-confirm-v2 agentic-confirmation-inline', className)}>
+      {/* Header */}
+      <div className="agentic-confirm-v2-header">
+        <div className="agentic-confirm-v2-icon">
+          <Check size={18} weight="bold" />
+        </div>
+        <span className="agentic-confirm-v2-title">{title}</span>
+      </div>
+
+      {/* Steps */}
+      <div className="agentic-confirm-v2-body space-y-2">
+        {steps.map((step, index) => {
+          const config = getToolConfig(step.tool)
+          const Icon = config.icon
+          const needs = missingDependency(step)
+          return (
+            <div key={step.id} className="rounded-lg border border-border">
+              <div className="flex items-center gap-3 px-3 py-2">
+                <input
+                  type="checkbox"
+                  aria-label={`Include step ${index + 1}`}
+                  checked={step.selected}
+                  onChange={(e) => updateStep(step.id, { selected: e.target.checked })}
+                  disabled={isLoading}
+                  className="w-4 h-4 rounded border-border"
+                />
+                <Icon size={16} weight="duotone" className="text-muted-foreground flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className={cn('text-sm', !step.selected && 'text-muted-foreground line-through')}>
+                    {index + 1}. {step.label}
+                  </p>
+                  {!config.undoable && step.selected && (
+                    <p className="flex items-center gap-1 text-xs text-amber-600">
+                      <Warning size={12} />
+                      Can't be undone if a later step fails
+                    </p>
+                  )}
+                  {needs !== undefined && (
+                    <p className="flex items-center gap-1 text-xs text-destructive">
+                      <Warning size={12} />
+                      Needs step {needs}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={() => setEditingId(editingId === step.id ? null : step.id)}
+                  disabled={isLoading || !step.selected}
+                  className="p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Edit step"
+                  aria-label={`Edit step ${index + 1}`}
+                >
+                  <PencilSimple size={14} />
+                </button>
+              </div>
+
+              {editingId === step.id && step.selected && (
+                <StepEditor
+                  step={step}
+                  onChange={(args) => updateStep(step.id, { arguments: args })}
+                />
+              )}
+            </div>
+          )
+        })}
+
+        {irreversible.length > 0 && (
+          <p className="flex items-start gap-2 rounded-lg bg-amber-500/10 px-3 py-2 text-xs text-amber-700">
+            <Warning size={14} className="mt-0.5 flex-shrink-0" />
+            {irreversible.length === 1
+              ? `Step ${irreversible[0].number} can't be taken back. If a later step fails, the rest of the plan is undone but this step stays done.`
+              : `Steps ${irreversible.map(({ number }) => number).join(', ')} can't be taken back. If a later step fails, the rest of the plan is undone but these steps stay done.`}
+          </p>
+        )}
+      </div>
+
+      {/* Actions */}
+      <div className="agentic-confirm-v2-actions">
+        <button
+          onClick={() => onApprove(title, steps)}
+          disabled={isLoading || selectedCount === 0 || blocked}
+          className="agentic-confirm-v2-btn primary"
+        >
+          {isLoading ? (
+            <>
+              <CircleNotch size={16} weight="bold" className="animate-spin" />
+              Running...
+            </>
+          ) : (
+            <>
+              <Check size={16} weight="bold" />
+              Approve {selectedCount} step{selectedCount !== 1 ? 's' : ''}
+            </>
+          )}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={isLoading}
+          className="agentic-confirm-v2-btn secondary"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// ============================================================================
+// Step Editor
+// ============================================================================
+
+function StepEditor({
+  step,
+  onChange,
+}: {
+  step: PlanStepState
+  onChange: (args: Record<string, unknown>) => void
+}) {
+  const setValue = (key: string, value: unknown) => onChange({ ...step.arguments, [key]: value })
+
+  return (
+    <div className="space-y-2 px-3 pb-3 text-sm">
+      {Object.entries(step.arguments).map(([key, value]) => {
+        const label = key.replace(/([A-Z])/g, ' $1').trim()
+        const reference = getStepReference(value)
+
+        let field
+        if (reference) {
+          field = <span className="text-muted-foreground">From step {reference.step}</span>
+        } else if (typeof value === 'boolean') {
+          field = (
+            <input
+              type="checkbox"
+              checked={value}
+              onChange={(e) => setValue(key, e.target.checked)}
+              className="w-4 h-4 rounded border-border"
+            />
+          )
+        } else if (typeof value === 'string' || typeof value === 'number') {
+          field = (
+            <input
+              type={typeof value === 'number' ? 'number' : 'text'}
+              value={value}
+              onChange={(e) =>
+                setValue(key, typeof value === 'number' ? Number(e.target.value) : e.target.value)
+              }
+              className="w-full rounded-md border border-border bg-background px-2 py-1 text-sm"
+            />
+          )
+        } else {
+          field = <span className="text-muted-foreground truncate">{JSON.stringify(value)}</span>
+        }
+
+        return (
+          <label key={key} className="grid grid-cols-[110px_1fr] items-center gap-3">
+            <span className="text-muted-foreground capitalize">{label}</span>
+            {field}
+          </label>
+        )
+      })}
+    </div>
+  )
+}
+
+export default AgenticPlan
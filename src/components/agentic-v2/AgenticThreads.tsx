@@ -0,0 +1,155 @@
+import { useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { Check, MagnifyingGlass, PencilSimple, Trash, X } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import { api } from '../../../convex/_generated/api'
+import type { Doc, Id } from '../../../convex/_generated/dataModel'
+import { cn } from '@/lib/utils'
+import { formatRelativeTime } from '@/lib/formatters'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AgenticThreadsProps {
+  currentId: string | null
+  onSelect: (id: string) => void
+  // Called after the open thread is deleted
+  onDeleteCurrent: () => void
+  onClose: () => void
+  className?: string
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const iconButtonClassName =
+  'p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted transition-colors cursor-pointer'
+
+/**
+ * AgenticThreads - The user's past conversations, with search, rename and
+ * delete. Picking one resumes it in the chat.
+ */
+export function AgenticThreads({ currentId, onSelect, onDeleteCurrent, onClose, className }: AgenticThreadsProps) {
+  const [searchTerm, setSearchTerm] = useState('')
+  const [editingId, setEditingId] = useState<Id<'conversations'> | null>(null)
+  const [title, setTitle] = useState('')
+
+  const term = searchTerm.trim()
+  const recent = useQuery(api.conversations.list, term ? 'skip' : {})
+  const matches = useQuery(api.conversations.search, term ? { query: term } : 'skip')
+  // Search results carry a snippet of the matching message
+  const threads: Array<Doc<'conversations'> & { snippet?: string }> | undefined = term ? matches : recent
+
+  const renameConversation = useMutation(api.conversations.rename)
+  const removeConversation = useMutation(api.conversations.remove)
+
+  const handleRename = async (id: Id<'conversations'>) => {
+    try {
+      await renameConversation({ id, title })
+      setEditingId(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to rename conversation')
+    }
+  }
+
+  const handleDelete = async (id: Id<'conversations'>) => {
+    if (!confirm('Delete this conversation?')) return
+    try {
+      await removeConversation({ id })
+      if (id === currentId) onDeleteCurrent()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete conversation')
+    }
+  }
+
+  return (
+    <div className={cn('rounded-xl border border-border bg-card p-3 space-y-2', className)}>
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <MagnifyingGlass size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <input
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search conversations..."
+            className={cn(
+              'w-full pl-8 pr-3 py-1.5 rounded-lg border border-border bg-background text-sm',
+              'focus:outline-none focus:ring-2 focus:ring-primary/20'
+            )}
+          />
+        </div>
+        <button onClick={onClose} className={iconButtonClassName} aria-label="Close conversations">
+          <X size={14} />
+        </button>
+      </div>
+
+      {threads === undefined ? (
+        <div className="h-16 bg-muted/50 rounded-lg animate-pulse" />
+      ) : threads.length === 0 ? (
+        <p className="px-1 py-2 text-sm text-muted-foreground">
+          {term ? 'No conversations match your search.' : 'No conversations yet.'}
+        </p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto divide-y divide-border">
+          {threads.map((thread) => (
+            <div
+              key={thread._id}
+              className={cn('flex items-start gap-2 px-1 py-2', thread._id === currentId && 'bg-muted/40 rounded-lg')}
+            >
+              {editingId === thread._id ? (
+                <form
+                  className="flex flex-1 items-center gap-1"
+                  onSubmit={(e) => {
+                    e.preventDefault()
+                    handleRename(thread._id)
+                  }}
+                >
+                  <input
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    autoFocus
+                    maxLength={80}
+                    className="flex-1 px-2 py-1 rounded-md border border-border bg-background text-sm focus:outline-none"
+                  />
+                  <button type="submit" className={iconButtonClassName} aria-label="Save title">
+                    <Check size={14} />
+                  </button>
+                  <button type="button" onClick={() => setEditingId(null)} className={iconButtonClassName} aria-label="Cancel rename">
+                    <X size={14} />
+                  </button>
+                </form>
+              ) : (
+                <>
+                  <button onClick={() => onSelect(thread._id)} className="flex-1 min-w-0 text-left cursor-pointer">
+                    <p className="text-sm font-medium truncate">{thread.title}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {thread.snippet ?? formatRelativeTime(thread.lastMessageAt)}
+                    </p>
+                  </button>
+                  <button
+                    onClick={() => {
+                      setEditingId(thread._id)
+                      setTitle(thread.title)
+                    }}
+                    className={iconButtonClassName}
+                    aria-label={`Rename ${thread.title}`}
+                  >
+                    <PencilSimple size={14} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(thread._id)}
+                    className={iconButtonClassName}
+                    aria-label={`Delete ${thread.title}`}
+                  >
+                    <Trash size={14} />
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
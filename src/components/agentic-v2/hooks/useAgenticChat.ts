@@ -1,5 +1,9 @@
 import { useReducer, useCallback, useEffect, useRef } from 'react'
+import { useQuery } from 'convex/react'
 import { toast } from 'sonner'
+import { api } from '../../../../convex/_generated/api'
+import { applyPlanEvent, type PlanEvent, type PlanRun } from '@/lib/agent-plan'
+import type { Doc, Id } from '../../../../convex/_generated/dataModel'
 import type {
   ChatState,
   ChatAction,
@@ -9,23 +13,13 @@ import type {
   ToolStatus,
   ExecutingTool,
 } from '../types'
-import { STORAGE_KEY } from '../types'
 
 // ============================================================================
 // Initial State
 // ============================================================================
 
-function getInitialMessages(): ChatMessage[] {
-  try {
-    const saved = localStorage.getItem(STORAGE_KEY)
-    if (saved) return JSON.parse(saved)
-  } catch {
-    // Ignore localStorage errors
-  }
-  return []
-}
-
 const initialState: ChatState = {
+  conversationId: null,
   messages: [],
   inputValue: '',
   isLoading: false,
@@ -35,6 +29,7 @@ const initialState: ChatState = {
   executingTools: [],
   toolResults: [],
   confirmedToolCalls: [],
+  planRun: null,
   isComplete: false,
 }
 
@@ -44,6 +39,17 @@ const initialState: ChatState = {
 
 function chatReducer(state: ChatState, action: ChatAction): ChatState {
   switch (action.type) {
+    case 'SET_CONVERSATION':
+      return { ...state, conversationId: action.id }
+
+    case 'LOAD_CONVERSATION':
+      return {
+        ...initialState,
+        conversationId: action.id,
+        messages: action.messages,
+        pendingConfirmation: action.pendingConfirmation,
+      }
+
     case 'SET_MESSAGES':
       return { ...state, messages: action.messages }
 
@@ -96,6 +102,14 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
     case 'ADD_CONFIRMED_TOOL_CALL':
       return { ...state, confirmedToolCalls: [...state.confirmedToolCalls, action.id] }
 
+    case 'START_PLAN':
+      return { ...state, planRun: action.run }
+
+    case 'APPLY_PLAN_EVENT':
+      return state.planRun
+        ? { ...state, planRun: applyPlanEvent(state.planRun, action.event) }
+        : state
+
     case 'SET_COMPLETE':
       return { ...state, isComplete: action.isComplete }
 
@@ -115,6 +129,7 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
         executingTools: [],
         toolResults: [],
         pendingConfirmation: null,
+        planRun: null,
         isComplete: false,
       }
 
@@ -123,24 +138,73 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
   }
 }
 
+// ============================================================================
+// Stored Conversation Mapping
+// ============================================================================
+
+type StoredMessage = Doc<'conversationMessages'>
+
+function toChatMessage(message: StoredMessage): ChatMessage {
+  return {
+    id: message._id,
+    role: message.role,
+    content: message.content,
+    timestamp: message.createdAt,
+    toolCalls: message.toolCalls,
+  }
+}
+
+/**
+ * Restore a confirmation the user never answered on the latest reply
+ */
+function getPendingConfirmation(messages: StoredMessage[]): ToolCall | null {
+  const last = messages[messages.length - 1]
+  const pending = last?.confirmations?.find((c) => c.status === 'pending')
+  if (!pending) return null
+  return last.toolCalls?.find((tc) => tc.id === pending.toolCallId) ?? null
+}
+
 // ============================================================================
 // Hook
 // ============================================================================
 
 export function useAgenticChat() {
-  const [state, dispatch] = useReducer(chatReducer, {
-    ...initialState,
-    messages: getInitialMessages(),
-  })
+  const [state, dispatch] = useReducer(chatReducer, initialState)
 
   const inputRef = useRef<HTMLTextAreaElement>(null)
   const conversationAreaRef = useRef<HTMLDivElement>(null)
   const abortControllerRef = useRef<AbortController | null>(null)
+  // Conversation whose stored messages are already in local state
+  const hydratedIdRef = useRef<string | null>(null)
+  // Only resume the latest thread once, so "clear" can start a fresh one
+  const autoResumedRef = useRef(false)
+
+  // Resume the most recent conversation from the server
+  const recentConversations = useQuery(api.conversations.list, { limit: 1 })
+  const storedConversation = useQuery(
+    api.conversations.get,
+    state.conversationId ? { id: state.conversationId as Id<'conversations'> } : 'skip'
+  )
 
-  // Persist messages to localStorage
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state.messages))
-  }, [state.messages])
+    if (autoResumedRef.current || recentConversations === undefined) return
+    autoResumedRef.current = true
+    if (recentConversations.length > 0 && !state.conversationId) {
+      dispatch({ type: 'SET_CONVERSATION', id: recentConversations[0]._id })
+    }
+  }, [recentConversations, state.conversationId])
+
+  // Hydrate local state once per conversation; later updates come from the stream
+  useEffect(() => {
+    if (!storedConversation || hydratedIdRef.current === storedConversation._id) return
+    hydratedIdRef.current = storedConversation._id
+    dispatch({
+      type: 'LOAD_CONVERSATION',
+      id: storedConversation._id,
+      messages: storedConversation.messages.map(toChatMessage),
+      pendingConfirmation: getPendingConfirmation(storedConversation.messages),
+    })
+  }, [storedConversation])
 
   // Scroll to bottom when messages change
   useEffect(() => {
@@ -207,6 +271,14 @@ export function useAgenticChat() {
     dispatch({ type: 'ADD_TOOL_RESULT', result })
   }, [])
 
+  const startPlan = useCallback((run: PlanRun) => {
+    dispatch({ type: 'START_PLAN', run })
+  }, [])
+
+  const applyPlanProgress = useCallback((event: PlanEvent) => {
+    dispatch({ type: 'APPLY_PLAN_EVENT', event })
+  }, [])
+
   const setComplete = useCallback((isComplete: boolean) => {
     dispatch({ type: 'SET_COMPLETE', isComplete })
   }, [])
@@ -215,10 +287,24 @@ export function useAgenticChat() {
     dispatch({ type: 'PREPARE_FOR_SEND' })
   }, [])
 
+  // Called when the server starts a thread, so its stored copy isn't re-hydrated
+  const setConversation = useCallback((id: string) => {
+    hydratedIdRef.current = id
+    autoResumedRef.current = true
+    dispatch({ type: 'SET_CONVERSATION', id })
+  }, [])
+
+  const resumeConversation = useCallback((id: string) => {
+    autoResumedRef.current = true
+    dispatch({ type: 'SET_CONVERSATION', id })
+  }, [])
+
+  // Start a new thread; the previous one stays on the server
   const clearChat = useCallback(() => {
+    hydratedIdRef.current = null
+    autoResumedRef.current = true
     dispatch({ type: 'CLEAR_CHAT' })
-    localStorage.removeItem(STORAGE_KEY)
-    toast.info('Chat cleared')
+    toast.info('Started a new conversation')
   }, [])
 
   const finishResponse = useCallback(() => {
@@ -260,8 +346,12 @@ export function useAgenticChat() {
     addExecutingTool,
     updateToolStatus,
     addToolResult,
+    startPlan,
+    applyPlanProgress,
     setComplete,
     prepareForSend,
+    setConversation,
+    resumeConversation,
     clearChat,
     finishResponse,
     createAbortController,
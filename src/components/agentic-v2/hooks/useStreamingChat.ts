@@ -1,6 +1,7 @@
 import { useCallback } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { toast } from 'sonner'
+import { startPlanRun, type PlanEvent, type PlanRun, type PlanStepState } from '@/lib/agent-plan'
 import type { ChatMessage, ToolCall, ToolResult, ToolStatus } from '../types'
 import { toolDisplayNames } from '../types'
 
@@ -17,6 +18,7 @@ interface UseStreamingChatParams {
 
 interface StreamingCallbacks {
   onPrepare: () => void
+  onSetConversation: (conversationId: string) => void
   onAddMessage: (message: ChatMessage) => void
   onUpdateMessage: (id: string, content: string) => void
   onSetStreaming: (isStreaming: boolean) => void
@@ -31,6 +33,54 @@ interface StreamingCallbacks {
   onSetLocalRemaining: (remaining: number) => void
 }
 
+interface PlanCallbacks {
+  onSetLoading: (isLoading: boolean) => void
+  onSetActivity: (activity: string | null) => void
+  onStartPlan: (run: PlanRun) => void
+  onPlanEvent: (event: PlanEvent) => void
+  onSetPendingConfirmation: (confirmation: ToolCall | null) => void
+  onSetComplete: (isComplete: boolean) => void
+  onAddMessage: (message: ChatMessage) => void
+}
+
+interface PlanDone {
+  success: boolean
+  summary: string
+  entityId?: string
+}
+
+/**
+ * Read a server-sent event stream, calling onEvent for each event
+ */
+async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+) {
+  const reader = response.body?.getReader()
+  if (!reader) throw new Error('No response body')
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let currentEvent = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      if (line.startsWith('event: ')) {
+        currentEvent = line.slice(7)
+      } else if (line.startsWith('data: ')) {
+        onEvent(currentEvent, JSON.parse(line.slice(6)))
+      }
+    }
+  }
+}
+
 // ============================================================================
 // Hook
 // ============================================================================
@@ -46,7 +96,7 @@ export function useStreamingChat({
   const sendMessage = useCallback(
     async (
       userMessage: string,
-      messages: ChatMessage[],
+      conversationId: string | null,
       abortController: AbortController,
       callbacks: StreamingCallbacks
     ) => {
@@ -62,7 +112,6 @@ export function useStreamingChat({
         timestamp: Date.now(),
       }
 
-      const updatedMessages = [...messages, newUserMessage]
       callbacks.onAddMessage(newUserMessage)
 
       try {
@@ -75,10 +124,7 @@ export function useStreamingChat({
             Authorization: `Bearer ${authToken}`,
           },
           body: JSON.stringify({
-            messages: updatedMessages.map((m) => ({
-              role: m.role,
-              content: m.content,
-            })),
+            conversationId: conversationId ?? undefined,
             userMessage,
             confirmedToolCalls,
           }),
@@ -138,6 +184,12 @@ export function useStreamingChat({
                 const parsed = JSON.parse(data)
 
                 switch (currentEvent) {
+                  case 'conversation': {
+                    const conversationData = parsed as { conversationId: string }
+                    callbacks.onSetConversation(conversationData.conversationId)
+                    break
+                  }
+
                   case 'text': {
                     const textData = parsed as { content: string }
                     fullContent += textData.content
@@ -271,6 +323,7 @@ export function useStreamingChat({
   const executeToolConfirmation = useCallback(
     async (
       pendingConfirmation: ToolCall,
+      conversationId: string | null,
       callbacks: {
         onSetLoading: (isLoading: boolean) => void
         onAddExecutingTool: (tool: { id: string; name: string; status: ToolStatus }) => void
@@ -306,6 +359,8 @@ export function useStreamingChat({
           body: JSON.stringify({
             toolName: pendingConfirmation.name,
             toolArguments: pendingConfirmation.arguments,
+            conversationId: conversationId ?? undefined,
+            toolCallId: pendingConfirmation.id,
           }),
         })
 
@@ -369,8 +424,100 @@ export function useStreamingChat({
     [authToken, convexUrl, navigate, onComplete]
   )
 
+  // Run an approved plan, following each step's progress as the server streams it
+  const executePlan = useCallback(
+    async (
+      pendingConfirmation: ToolCall,
+      title: string,
+      steps: PlanStepState[],
+      conversationId: string | null,
+      callbacks: PlanCallbacks
+    ) => {
+      if (!authToken) return
+
+      callbacks.onSetLoading(true)
+      callbacks.onSetActivity('Running your plan')
+
+      try {
+        const httpUrl = convexUrl.replace('.convex.cloud', '.convex.site')
+
+        const response = await fetch(`${httpUrl}/api/chat/execute-plan`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${authToken}`,
+          },
+          body: JSON.stringify({
+            steps: steps.map(({ id, tool, label, arguments: args }) => ({ id, tool, label, arguments: args })),
+            skip: steps.filter((step) => !step.selected).map((step) => step.id),
+            conversationId: conversationId ?? undefined,
+            toolCallId: pendingConfirmation.id,
+          }),
+        })
+
+        // A rejected plan keeps its preview so the user can fix it
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => null)
+          throw new Error(
+            errorData?.error || errorData?.message || `HTTP error! status: ${response.status}`
+          )
+        }
+
+        callbacks.onStartPlan(startPlanRun(title, steps))
+        callbacks.onSetPendingConfirmation(null)
+
+        let outcome = undefined as PlanDone | undefined
+        await readEventStream(response, (event, data) => {
+          if (event === 'error') {
+            throw new Error((data as { message: string }).message)
+          }
+          if (event === 'done') {
+            outcome = data as PlanDone
+            callbacks.onPlanEvent({ type: 'done', success: outcome.success, summary: outcome.summary })
+          } else {
+            callbacks.onPlanEvent(data as PlanEvent)
+          }
+        })
+
+        if (!outcome) throw new Error('The plan stopped before it finished')
+        const { success, summary, entityId } = outcome
+
+        callbacks.onAddMessage({
+          id: `assistant-plan-${Date.now()}`,
+          role: 'assistant',
+          content: success ? `Done. ${summary}.` : summary,
+          timestamp: Date.now(),
+        })
+
+        if (!success) {
+          toast.error(summary)
+          return
+        }
+
+        toast.success(summary)
+        if (entityId) {
+          callbacks.onSetComplete(true)
+          setTimeout(() => {
+            if (onComplete) {
+              onComplete(entityId)
+            } else {
+              navigate(`/dashboard/events/${entityId}`)
+            }
+          }, 1500)
+        }
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Failed to run the plan')
+      } finally {
+        callbacks.onSetLoading(false)
+        callbacks.onSetActivity(null)
+      }
+    },
+    [authToken, convexUrl, navigate, onComplete]
+  )
+
   return {
     sendMessage,
     executeToolConfirmation,
+    executePlan,
   }
 }
@@ -29,3 +29,11 @@ export type { AgenticToolProps, AgenticToolListProps, ToolCall, ToolResult, Tool
 // Confirmation
 export { AgenticConfirmation } from './AgenticConfirmation'
 export type { AgenticConfirmationProps } from './AgenticConfirmation'
+
+// Plans
+export { AgenticPlan } from './AgenticPlan'
+export type { AgenticPlanProps } from './AgenticPlan'
+
+// Conversation history
+export { AgenticThreads } from './AgenticThreads'
+export type { AgenticThreadsProps } from './AgenticThreads'
@@ -1,4 +1,5 @@
 import type { ReactNode } from 'react'
+import type { PlanEvent, PlanRun } from '@/lib/agent-plan'
 
 // ============================================================================
 // Chat Message Types
@@ -69,7 +70,9 @@ export interface AgenticHeaderProps {
   promptsLimit: number
   timeUntilReset: string
   subtitle: string
+  isThreadsOpen: boolean
   onClear: () => void
+  onToggleThreads: () => void
   onNavigateToSettings: () => void
 }
 
@@ -110,6 +113,7 @@ export interface QuickReply {
 // ============================================================================
 
 export interface ChatState {
+  conversationId: string | null
   messages: ChatMessage[]
   inputValue: string
   isLoading: boolean
@@ -119,10 +123,19 @@ export interface ChatState {
   executingTools: ExecutingTool[]
   toolResults: ToolResult[]
   confirmedToolCalls: string[]
+  /** The approved plan being run (or last run) this turn */
+  planRun: PlanRun | null
   isComplete: boolean
 }
 
 export type ChatAction =
+  | { type: 'SET_CONVERSATION'; id: string | null }
+  | {
+      type: 'LOAD_CONVERSATION'
+      id: string
+      messages: ChatMessage[]
+      pendingConfirmation: ToolCall | null
+    }
   | { type: 'SET_MESSAGES'; messages: ChatMessage[] }
   | { type: 'ADD_MESSAGE'; message: ChatMessage }
   | { type: 'UPDATE_MESSAGE'; id: string; content: string }
@@ -137,6 +150,8 @@ export type ChatAction =
   | { type: 'ADD_TOOL_RESULT'; result: ToolResult }
   | { type: 'CLEAR_TOOL_RESULTS' }
   | { type: 'ADD_CONFIRMED_TOOL_CALL'; id: string }
+  | { type: 'START_PLAN'; run: PlanRun }
+  | { type: 'APPLY_PLAN_EVENT'; event: PlanEvent }
   | { type: 'SET_COMPLETE'; isComplete: boolean }
   | { type: 'CLEAR_CHAT' }
   | { type: 'PREPARE_FOR_SEND' }
@@ -145,8 +160,6 @@ export type ChatAction =
 // Constants
 // ============================================================================
 
-export const STORAGE_KEY = 'open-event-agentic-chat-v2'
-
 export const toolDisplayNames: Record<string, string> = {
   searchVendors: 'Searching vendors',
   searchSponsors: 'Searching sponsors',
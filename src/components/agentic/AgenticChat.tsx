@@ -1,8 +1,9 @@
 import React, { useState, useCallback, useRef, useEffect, type ReactNode, useLayoutEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { useConvexAuth, useQuery } from 'convex/react'
+import { useConvexAuth, useMutation, useQuery } from 'convex/react'
 import { useAuthToken } from '@convex-dev/auth/react'
 import { api } from '../../../convex/_generated/api'
+import type { Id } from '../../../convex/_generated/dataModel'
 import {
   Sparkle,
   PaperPlaneTilt,
@@ -63,8 +64,6 @@ interface AgenticChatProps {
   className?: string
 }
 
-// LocalStorage key for persisting messages
-const STORAGE_KEY = 'open-event-agentic-chat'
 
 // Tool display names
 const toolDisplayNames: Record<string, string> = {
@@ -510,16 +509,9 @@ export function AgenticChat({
   const usageStatus = aiUsage?.status ?? 'normal'
   const timeUntilReset = aiUsage?.timeUntilReset?.formatted ?? ''
 
-  // Chat state
-  const [messages, setMessages] = useState<ChatMessage[]>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY)
-      if (saved) return JSON.parse(saved)
-    } catch {
-      // Ignore
-    }
-    return []
-  })
+  // Chat state - history lives in the server-side conversation
+  const [conversationId, setConversationId] = useState<string | null>(null)
+  const [messages, setMessages] = useState<ChatMessage[]>([])
   const [inputValue, setInputValue] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [isStreaming, setIsStreaming] = useState(false)
@@ -539,12 +531,40 @@ export function AgenticChat({
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const convexUrl = import.meta.env.VITE_CONVEX_URL as string
 
+  // Conversation whose stored messages are already in local state
+  const hydratedIdRef = useRef<string | null>(null)
+  // Only resume the latest thread once, so clearing starts a fresh one
+  const autoResumedRef = useRef(false)
+  const recentConversations = useQuery(api.conversations.list, { limit: 1 })
+  const storedConversation = useQuery(
+    api.conversations.get,
+    conversationId ? { id: conversationId as Id<'conversations'> } : 'skip'
+  )
+  const rejectConfirmation = useMutation(api.conversations.rejectConfirmation)
+
   const hasMessages = messages.length > 0
 
-  // Persist messages
+  // Resume the most recent conversation
+  useEffect(() => {
+    if (autoResumedRef.current || recentConversations === undefined) return
+    autoResumedRef.current = true
+    if (recentConversations.length > 0) {
+      setConversationId(recentConversations[0]._id)
+    }
+  }, [recentConversations])
+
+  // Load stored messages once per conversation; later updates come from the stream
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(messages))
-  }, [messages])
+    if (!storedConversation || hydratedIdRef.current === storedConversation._id) return
+    hydratedIdRef.current = storedConversation._id
+    setMessages(storedConversation.messages.map(m => ({
+      id: m._id,
+      role: m.role,
+      content: m.content,
+      timestamp: m.createdAt,
+      toolCalls: m.toolCalls,
+    })))
+  }, [storedConversation])
 
   // Measure conversation height for smooth animation
   useLayoutEffect(() => {
@@ -566,18 +586,20 @@ export function AgenticChat({
     inputRef.current?.focus()
   }, [])
 
-  // Clear chat
+  // Clear chat - starts a new conversation, the old one stays on the server
   const handleClearChat = useCallback(() => {
+    hydratedIdRef.current = null
+    autoResumedRef.current = true
+    setConversationId(null)
     setMessages([])
     setConversationHeight(0)
-    localStorage.removeItem(STORAGE_KEY)
     setCurrentActivity(null)
     setExecutingTools([])
     setToolResults([])
     setPendingConfirmation(null)
     setConfirmedToolCalls([])
     setIsComplete(false)
-    toast.info('Chat cleared')
+    toast.info('Started a new conversation')
   }, [])
 
   // Send message
@@ -612,8 +634,7 @@ export function AgenticChat({
       timestamp: Date.now(),
     }
 
-    const updatedMessages = [...messages, newUserMessage]
-    setMessages(updatedMessages)
+    setMessages(prev => [...prev, newUserMessage])
 
     abortControllerRef.current = new AbortController()
 
@@ -627,10 +648,7 @@ export function AgenticChat({
           'Authorization': `Bearer ${authToken}`,
         },
         body: JSON.stringify({
-          messages: updatedMessages.map(m => ({
-            role: m.role,
-            content: m.content,
-          })),
+          conversationId: conversationId ?? undefined,
           userMessage,
           confirmedToolCalls,
         }),
@@ -685,6 +703,14 @@ export function AgenticChat({
               const parsed = JSON.parse(data)
 
               switch (currentEvent) {
+                case 'conversation': {
+                  const conversationData = parsed as { conversationId: string }
+                  hydratedIdRef.current = conversationData.conversationId
+                  autoResumedRef.current = true
+                  setConversationId(conversationData.conversationId)
+                  break
+                }
+
                 case 'text': {
                   const textData = parsed as { content: string }
                   fullContent += textData.content
@@ -799,7 +825,7 @@ export function AgenticChat({
       setCurrentActivity(null)
       abortControllerRef.current = null
     }
-  }, [messages, isLoading, isAuthenticated, authToken, convexUrl, confirmedToolCalls, navigate, onComplete, isRateLimited, isAdmin, timeUntilReset])
+  }, [conversationId, isLoading, isAuthenticated, authToken, convexUrl, confirmedToolCalls, navigate, onComplete, isRateLimited, isAdmin, timeUntilReset])
 
   // Confirm tool - execute directly via dedicated endpoint
   const handleConfirm = useCallback(async () => {
@@ -822,6 +848,8 @@ export function AgenticChat({
         body: JSON.stringify({
           toolName: pendingConfirmation.name,
           toolArguments: pendingConfirmation.arguments,
+          conversationId: conversationId ?? undefined,
+          toolCallId: pendingConfirmation.id,
         }),
       })
 
@@ -874,13 +902,21 @@ export function AgenticChat({
       setExecutingTools([])
       setCurrentActivity(null)
     }
-  }, [pendingConfirmation, authToken, convexUrl, navigate, onComplete, setMessages])
+  }, [pendingConfirmation, conversationId, authToken, convexUrl, navigate, onComplete, setMessages])
 
   // Cancel tool
   const handleCancel = useCallback(() => {
+    if (pendingConfirmation && conversationId) {
+      rejectConfirmation({
+        conversationId: conversationId as Id<'conversations'>,
+        toolCallId: pendingConfirmation.id,
+      }).catch(() => {
+        // Outcome is informational only
+      })
+    }
     setPendingConfirmation(null)
     toast.info('Action cancelled')
-  }, [])
+  }, [pendingConfirmation, conversationId, rejectConfirmation])
 
   // Handle input submit
   const handleSubmit = useCallback(() => {
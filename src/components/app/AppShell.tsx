@@ -1,14 +1,19 @@
 import { useState, useCallback } from 'react'
-import { Outlet } from 'react-router-dom'
+import { useConvexAuth, useQuery } from 'convex/react'
+import { Navigate, Outlet } from 'react-router-dom'
+import { api } from '../../../convex/_generated/api'
 import { TopBar } from './TopBar'
 import { Sidebar } from './Sidebar'
 import { MobileSidebar } from './MobileSidebar'
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute'
 import { cn } from '@/lib/utils'
+import { portalHomes } from '@/lib/constants'
 
 export function AppShell() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false)
+  const { isAuthenticated } = useConvexAuth()
+  const user = useQuery(api.queries.auth.getCurrentUser, isAuthenticated ? {} : 'skip')
 
   // On mobile: toggle mobile sidebar
   // On desktop: toggle sidebar collapse
@@ -21,6 +26,12 @@ export function AppShell() {
     }
   }, [])
 
+  // Portal accounts (vendors, sponsors) have their own shell
+  const portalHome = user ? portalHomes[user.role ?? ''] : undefined
+  if (portalHome) {
+    return <Navigate to={portalHome} replace />
+  }
+
   return (
     <ProtectedRoute>
       <div className="min-h-screen bg-background">
@@ -0,0 +1,170 @@
+import { useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import type { Id } from '../../../convex/_generated/dataModel'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { cn } from '@/lib/utils'
+import { toast } from 'sonner'
+import { ArrowClockwise, EnvelopeSimple, UserPlus, X } from '@phosphor-icons/react'
+
+type InviteRole = 'owner' | 'editor' | 'viewer'
+
+const roleLabels: Record<InviteRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+}
+
+interface InviteMembersProps {
+  /** Invite to a whole workspace */
+  organizationId?: Id<'organizations'>
+  /** Invite to a single event only */
+  eventId?: Id<'events'>
+  roles: InviteRole[]
+  defaultRole?: InviteRole
+}
+
+/**
+ * Email invite form plus the list of pending invitations for a workspace or event
+ */
+export function InviteMembers({
+  organizationId,
+  eventId,
+  roles,
+  defaultRole = 'editor',
+}: InviteMembersProps) {
+  const pending = useQuery(api.invitations.listPending, { organizationId, eventId })
+  const createInvitation = useMutation(api.invitations.create)
+  const resendInvitation = useMutation(api.invitations.resend)
+  const revokeInvitation = useMutation(api.invitations.revoke)
+
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<InviteRole>(defaultRole)
+  const [isSending, setIsSending] = useState(false)
+
+  const handleInvite = async () => {
+    if (!email.trim()) return
+    setIsSending(true)
+    try {
+      await createInvitation({ email, role, organizationId, eventId })
+      toast.success(`Invitation sent to ${email.trim()}`)
+      setEmail('')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send invitation')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const handleResend = async (id: Id<'invitations'>) => {
+    try {
+      await resendInvitation({ id })
+      toast.success('Invitation resent')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to resend invitation')
+    }
+  }
+
+  const handleRevoke = async (id: Id<'invitations'>) => {
+    try {
+      await revokeInvitation({ id })
+      toast.success('Invitation revoked')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke invitation')
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleInvite()}
+          placeholder="teammate@example.com"
+          className="flex-1"
+        />
+        <Select value={role} onValueChange={(value) => setRole(value as InviteRole)}>
+          <SelectTrigger className="sm:w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {roles.map((r) => (
+              <SelectItem key={r} value={r}>
+                {roleLabels[r]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <button
+          onClick={handleInvite}
+          disabled={!email.trim() || isSending}
+          className={cn(
+            'flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-medium',
+            'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors',
+            'disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer'
+          )}
+        >
+          <UserPlus size={16} />
+          Invite
+        </button>
+      </div>
+
+      {pending && pending.length > 0 && (
+        <div className="rounded-lg border border-border divide-y divide-border">
+          {pending.map((invitation) => (
+            <div key={invitation._id} className="flex items-center justify-between gap-3 px-3 py-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <EnvelopeSimple size={14} className="text-muted-foreground flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm truncate">{invitation.email}</p>
+                  <p
+                    className={cn(
+                      'text-xs',
+                      invitation.status === 'expired' || invitation.emailError
+                        ? 'text-amber-600'
+                        : 'text-muted-foreground'
+                    )}
+                  >
+                    {invitation.role && <>{roleLabels[invitation.role]} · </>}
+                    {invitation.status === 'expired'
+                      ? 'Expired'
+                      : invitation.emailError
+                        ? 'Email failed to send'
+                        : invitation.emailSentAt
+                          ? 'Invite sent'
+                          : 'Sending...'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button
+                  onClick={() => handleResend(invitation._id)}
+                  className="p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted transition-colors cursor-pointer"
+                  title="Resend invitation"
+                >
+                  <ArrowClockwise size={14} />
+                </button>
+                <button
+                  onClick={() => handleRevoke(invitation._id)}
+                  className="p-1.5 rounded-md text-muted-foreground hover:text-red-600 hover:bg-red-500/10 transition-colors cursor-pointer"
+                  title="Revoke invitation"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
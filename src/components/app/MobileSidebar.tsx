@@ -7,6 +7,7 @@ import {
   Calendar,
   Storefront,
   Handshake,
+  ChatsCircle,
   ChartLine,
   Gear,
   Plus,
@@ -25,6 +26,7 @@ const navigationItems = [
   { label: 'Events', icon: Calendar, path: '/dashboard/events' },
   { label: 'Vendors', icon: Storefront, path: '/dashboard/vendors' },
   { label: 'Sponsors', icon: Handshake, path: '/dashboard/sponsors' },
+  { label: 'Inquiries', icon: ChatsCircle, path: '/dashboard/inquiries' },
   { label: 'Analytics', icon: ChartLine, path: '/dashboard/analytics' },
 ]
 
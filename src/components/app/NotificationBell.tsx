@@ -0,0 +1,128 @@
+import { useNavigate } from 'react-router-dom'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import type { Doc } from '../../../convex/_generated/dataModel'
+import { Bell, Checks } from '@phosphor-icons/react'
+import { cn } from '@/lib/utils'
+import { formatRelativeTime } from '@/lib/formatters'
+import { useState, useRef, useEffect } from 'react'
+
+// The count query stops at 100, so anything past 99 is shown as "99+"
+function formatUnreadCount(count: number) {
+  return count > 99 ? '99+' : String(count)
+}
+
+export function NotificationBell() {
+  const navigate = useNavigate()
+  const notifications = useQuery(api.notifications.list, { limit: 20 })
+  const unreadCount = useQuery(api.notifications.getUnreadCount) ?? 0
+  const markRead = useMutation(api.notifications.markRead)
+  const markAllRead = useMutation(api.notifications.markAllRead)
+  const [open, setOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  const handleOpen = async (notification: Doc<'notifications'>) => {
+    setOpen(false)
+    if (notification.readAt === undefined) {
+      await markRead({ id: notification._id })
+    }
+    if (notification.link) {
+      navigate(notification.link)
+    }
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className={cn(
+          'relative p-2 rounded-lg text-muted-foreground',
+          'hover:text-foreground hover:bg-muted transition-all duration-150 cursor-pointer touch-manipulation',
+          open && 'bg-muted text-foreground'
+        )}
+        title="Notifications"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <Bell size={18} weight="regular" />
+        {unreadCount > 0 && (
+          <span className="absolute top-0.5 right-0.5 min-w-4 h-4 px-1 rounded-full bg-purple text-[10px] font-medium leading-4 text-white text-center">
+            {formatUnreadCount(unreadCount)}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-popover border border-border rounded-xl shadow-lg z-50 animate-in fade-in-0 zoom-in-95 duration-100">
+          <div className="flex items-center justify-between px-3 py-2.5 border-b border-border">
+            <p className="font-medium text-sm text-foreground">Notifications</p>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markAllRead()}
+                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors cursor-pointer"
+              >
+                <Checks size={14} />
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto py-1">
+            {notifications === undefined ? (
+              <p className="px-3 py-6 text-center text-sm text-muted-foreground">Loading...</p>
+            ) : notifications.length === 0 ? (
+              <p className="px-3 py-6 text-center text-sm text-muted-foreground">
+                You're all caught up
+              </p>
+            ) : (
+              notifications.map((notification) => {
+                const unread = notification.readAt === undefined
+                return (
+                  <button
+                    key={notification._id}
+                    onClick={() => handleOpen(notification)}
+                    className="w-full flex items-start gap-2 px-3 py-2.5 text-left hover:bg-muted transition-all duration-150 cursor-pointer"
+                  >
+                    <span
+                      className={cn(
+                        'mt-1.5 w-1.5 h-1.5 rounded-full flex-shrink-0',
+                        unread ? 'bg-purple' : 'bg-transparent'
+                      )}
+                    />
+                    <span className="min-w-0 flex-1">
+                      <span
+                        className={cn(
+                          'block text-[13px] leading-snug',
+                          unread ? 'font-medium text-foreground' : 'text-muted-foreground'
+                        )}
+                      >
+                        {notification.title}
+                      </span>
+                      {notification.body && (
+                        <span className="block text-xs text-muted-foreground truncate mt-0.5">
+                          {notification.body}
+                        </span>
+                      )}
+                      <span className="block text-[11px] text-muted-foreground mt-0.5">
+                        {formatRelativeTime(notification.createdAt)}
+                      </span>
+                    </span>
+                  </button>
+                )
+              })
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,16 +1,42 @@
-import { useQuery } from 'convex/react'
+import { useQuery, useMutation } from 'convex/react'
+import { useNavigate } from 'react-router-dom'
 import { api } from '../../../convex/_generated/api'
+import type { Id } from '../../../convex/_generated/dataModel'
 import { cn } from '@/lib/utils'
 import { Buildings, CaretUpDown, Check, Plus } from '@phosphor-icons/react'
 import { useState, useRef, useEffect } from 'react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
 
 interface OrganizationSwitcherProps {
   collapsed?: boolean
 }
 
+const ROLE_LABELS: Record<string, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+}
+
 export function OrganizationSwitcher({ collapsed }: OrganizationSwitcherProps) {
+  const navigate = useNavigate()
   const profile = useQuery(api.organizerProfiles.getMyProfile)
+  const organizations = useQuery(api.organizations.listMine)
+  const activeOrg = useQuery(api.organizations.getActive)
+  const setActive = useMutation(api.organizations.setActive)
+  const createOrg = useMutation(api.organizations.create)
+
   const [open, setOpen] = useState(false)
+  const [showCreateModal, setShowCreateModal] = useState(false)
+  const [newOrgName, setNewOrgName] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
   const menuRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
@@ -23,9 +49,36 @@ export function OrganizationSwitcher({ collapsed }: OrganizationSwitcherProps) {
     return () => document.removeEventListener('mousedown', handleClickOutside)
   }, [])
 
-  // Get organization name from profile or use default
-  const orgName = profile?.organizationName || 'My Workspace'
+  // Personal workspace is named after the profile's organization
+  const personalName = profile?.organizationName || 'My Workspace'
+  const orgName = activeOrg?.name ?? personalName
   const orgInitial = orgName.charAt(0).toUpperCase()
+  const orgSubtitle = activeOrg ? ROLE_LABELS[activeOrg.role] : 'Free plan'
+
+  const handleSwitch = async (organizationId?: Id<'organizations'>) => {
+    setOpen(false)
+    if (organizationId === activeOrg?._id) return
+    try {
+      await setActive({ organizationId })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to switch workspace')
+    }
+  }
+
+  const handleCreate = async () => {
+    if (!newOrgName.trim()) return
+    setIsCreating(true)
+    try {
+      await createOrg({ name: newOrgName })
+      toast.success('Workspace created')
+      setShowCreateModal(false)
+      setNewOrgName('')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create workspace')
+    } finally {
+      setIsCreating(false)
+    }
+  }
 
   if (collapsed) {
     return (
@@ -42,6 +95,15 @@ export function OrganizationSwitcher({ collapsed }: OrganizationSwitcherProps) {
     )
   }
 
+  const workspaces = [
+    { id: undefined, name: personalName, subtitle: 'Personal workspace' },
+    ...(organizations ?? []).map((org) => ({
+      id: org._id,
+      name: org.name,
+      subtitle: ROLE_LABELS[org.role],
+    })),
+  ]
+
   return (
     <div className="relative" ref={menuRef}>
       <button
@@ -60,7 +122,7 @@ export function OrganizationSwitcher({ collapsed }: OrganizationSwitcherProps) {
         {/* Org Name */}
         <div className="flex-1 min-w-0 text-left">
           <p className="font-medium text-sm truncate">{orgName}</p>
-          <p className="text-xs text-muted-foreground">Free plan</p>
+          <p className="text-xs text-muted-foreground">{orgSubtitle}</p>
         </div>
 
         {/* Caret */}
@@ -70,18 +132,32 @@ export function OrganizationSwitcher({ collapsed }: OrganizationSwitcherProps) {
       {/* Dropdown */}
       {open && (
         <div className="absolute left-0 right-0 top-full mt-1 bg-popover border border-border rounded-xl shadow-lg py-1 z-50 menu-entrance">
-          {/* Current org */}
-          <div className="px-2 py-1">
-            <div className="flex items-center gap-3 p-2 rounded-lg bg-muted/50">
-              <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center">
-                <span className="text-primary font-semibold text-sm">{orgInitial}</span>
-              </div>
-              <div className="flex-1 min-w-0">
-                <p className="font-medium text-sm truncate">{orgName}</p>
-                <p className="text-xs text-muted-foreground">Current workspace</p>
-              </div>
-              <Check size={16} className="text-primary flex-shrink-0" />
-            </div>
+          {/* Workspaces */}
+          <div className="px-2 py-1 space-y-0.5">
+            {workspaces.map((workspace) => {
+              const isCurrent = workspace.id === activeOrg?._id
+              return (
+                <button
+                  key={workspace.id ?? 'personal'}
+                  onClick={() => handleSwitch(workspace.id)}
+                  className={cn(
+                    'w-full flex items-center gap-3 p-2 rounded-lg text-left transition-colors cursor-pointer',
+                    isCurrent ? 'bg-muted/50' : 'hover:bg-muted'
+                  )}
+                >
+                  <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                    <span className="text-primary font-semibold text-sm">
+                      {workspace.name.charAt(0).toUpperCase()}
+                    </span>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-sm truncate">{workspace.name}</p>
+                    <p className="text-xs text-muted-foreground">{workspace.subtitle}</p>
+                  </div>
+                  {isCurrent && <Check size={16} className="text-primary flex-shrink-0" />}
+                </button>
+              )
+            })}
           </div>
 
           <div className="h-px bg-border my-1" />
@@ -90,7 +166,7 @@ export function OrganizationSwitcher({ collapsed }: OrganizationSwitcherProps) {
           <button
             onClick={() => {
               setOpen(false)
-              // TODO: Open create org modal
+              setShowCreateModal(true)
             }}
             className="w-full flex items-center gap-3 px-4 py-2 text-sm text-muted-foreground hover:text-foreground hover:bg-muted transition-colors cursor-pointer"
           >
@@ -102,7 +178,7 @@ export function OrganizationSwitcher({ collapsed }: OrganizationSwitcherProps) {
           <button
             onClick={() => {
               setOpen(false)
-              // TODO: Navigate to org settings
+              navigate('/dashboard/settings?tab=organization')
             }}
             className="w-full flex items-center gap-3 px-4 py-2 text-sm text-muted-foreground hover:text-foreground hover:bg-muted transition-colors cursor-pointer"
           >
@@ -111,6 +187,60 @@ export function OrganizationSwitcher({ collapsed }: OrganizationSwitcherProps) {
           </button>
         </div>
       )}
+
+      {/* Create Workspace Modal */}
+      <Dialog open={showCreateModal} onOpenChange={setShowCreateModal}>
+        <DialogContent>
+          <DialogHeader>
+            <div className="flex items-center gap-3 mb-2">
+              <div className="p-2 rounded-lg bg-primary/10">
+                <Buildings size={20} weight="duotone" className="text-primary" />
+              </div>
+              <DialogTitle>Create Workspace</DialogTitle>
+            </div>
+            <DialogDescription>
+              A shared workspace for your team's events, budgets and tasks.
+              You can invite members once it's created.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-4">
+            <label className="block text-sm font-medium mb-1.5">Workspace Name</label>
+            <input
+              value={newOrgName}
+              onChange={(e) => setNewOrgName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder="e.g., Acme Events Team"
+              maxLength={100}
+              className={cn(
+                'w-full px-3 py-2.5 rounded-lg border border-border bg-background',
+                'text-sm placeholder:text-muted-foreground',
+                'focus:outline-none focus:ring-2 focus:ring-primary/20'
+              )}
+            />
+          </div>
+
+          <DialogFooter>
+            <button
+              onClick={() => setShowCreateModal(false)}
+              className="px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={!newOrgName.trim() || isCreating}
+              className={cn(
+                'px-4 py-2 rounded-lg text-sm font-medium',
+                'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors',
+                'disabled:opacity-50 disabled:cursor-not-allowed'
+              )}
+            >
+              {isCreating ? 'Creating...' : 'Create Workspace'}
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -0,0 +1,103 @@
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import type { Id } from '../../../convex/_generated/dataModel'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { toast } from 'sonner'
+import { ShareNetwork, Trash } from '@phosphor-icons/react'
+import { InviteMembers } from './InviteMembers'
+
+interface ShareEventDialogProps {
+  eventId: Id<'events'>
+  eventTitle: string
+  /** Only event owners can invite and remove collaborators */
+  canManage: boolean
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Share a single event with people outside the workspace
+ */
+export function ShareEventDialog({
+  eventId,
+  eventTitle,
+  canManage,
+  open,
+  onOpenChange,
+}: ShareEventDialogProps) {
+  const collaborators = useQuery(api.eventCollaborators.list, open ? { eventId } : 'skip')
+  const removeCollaborator = useMutation(api.eventCollaborators.remove)
+
+  const handleRemove = async (id: Id<'eventCollaborators'>) => {
+    try {
+      await removeCollaborator({ id })
+      toast.success('Collaborator removed')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove collaborator')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <div className="flex items-center gap-3 mb-2">
+            <div className="p-2 rounded-lg bg-primary/10">
+              <ShareNetwork size={20} weight="duotone" className="text-primary" />
+            </div>
+            <DialogTitle>Share {eventTitle}</DialogTitle>
+          </div>
+          <DialogDescription>
+            Collaborators get access to this event only, not the rest of your workspace.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {canManage && <InviteMembers eventId={eventId} roles={['editor', 'viewer']} />}
+
+          <div>
+            <p className="text-sm font-medium mb-2">Collaborators</p>
+            {collaborators && collaborators.length > 0 ? (
+              <div className="divide-y divide-border">
+                {collaborators.map((collaborator) => (
+                  <div key={collaborator._id} className="flex items-center justify-between gap-3 py-2">
+                    <div className="min-w-0">
+                      <p className="text-sm truncate">
+                        {collaborator.name || collaborator.email || 'Unknown user'}
+                      </p>
+                      {collaborator.email && (
+                        <p className="text-xs text-muted-foreground truncate">{collaborator.email}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <span className="text-xs text-muted-foreground capitalize">{collaborator.role}</span>
+                      {canManage && (
+                        <button
+                          onClick={() => handleRemove(collaborator._id)}
+                          className="p-1.5 rounded-md text-muted-foreground hover:text-red-600 hover:bg-red-500/10 transition-colors cursor-pointer"
+                          title="Remove collaborator"
+                        >
+                          <Trash size={14} />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No one outside the workspace has access yet.
+              </p>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
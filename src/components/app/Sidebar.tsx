@@ -8,6 +8,7 @@ import {
   Calendar,
   Storefront,
   Handshake,
+  ChatsCircle,
   ChartLine,
   Gear,
   Plus,
@@ -23,7 +24,8 @@ const navigationItems = [
   { label: 'Events', icon: Calendar, path: '/dashboard/events', number: 1 },
   { label: 'Vendors', icon: Storefront, path: '/dashboard/vendors', number: 2 },
   { label: 'Sponsors', icon: Handshake, path: '/dashboard/sponsors', number: 3 },
-  { label: 'Analytics', icon: ChartLine, path: '/dashboard/analytics', number: 4 },
+  { label: 'Inquiries', icon: ChatsCircle, path: '/dashboard/inquiries', number: 4 },
+  { label: 'Analytics', icon: ChartLine, path: '/dashboard/analytics', number: 5 },
 ]
 
 const bottomItems = [
@@ -34,6 +36,7 @@ export function Sidebar({ collapsed }: SidebarProps) {
   const location = useLocation()
   const currentUser = useQuery(api.queries.auth.getCurrentUser)
   const isAdmin = currentUser?.role === 'admin' || currentUser?.role === 'superadmin'
+  const unreadInquiries = useQuery(api.inquiries.getMyUnreadCount) ?? 0
 
   const isActive = (path: string) => {
     if (path === '/dashboard') {
@@ -118,6 +121,11 @@ export function Sidebar({ collapsed }: SidebarProps) {
                 />
               )}
               {!collapsed && <span>{item.label}</span>}
+              {!collapsed && item.path === '/dashboard/inquiries' && unreadInquiries > 0 && (
+                <span className="ml-auto min-w-5 h-5 px-1.5 rounded-full bg-primary text-primary-foreground text-xs font-semibold flex items-center justify-center">
+                  {unreadInquiries}
+                </span>
+              )}
             </Link>
           )
         })}
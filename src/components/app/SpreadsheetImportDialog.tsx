@@ -0,0 +1,300 @@
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { cn } from '@/lib/utils'
+import { toast } from 'sonner'
+import { CheckCircle, FileArrowUp, WarningCircle } from '@phosphor-icons/react'
+import { guessColumnMapping, readSpreadsheetFile, type ImportField, type SpreadsheetFile } from '@/lib/spreadsheet'
+
+export type ImportRow<K extends string> = { rowNumber: number } & Partial<Record<K, string>>
+
+export interface ImportResult {
+  dryRun: boolean
+  total: number
+  valid: number
+  imported: number
+  skipped: number
+  errors: Array<{ rowNumber: number; errors: string[] }>
+}
+
+interface SpreadsheetImportDialogProps<K extends string> {
+  title: string
+  /** What the rows become, e.g. "budget items" */
+  itemLabel: string
+  fields: ImportField<K>[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /**
+   * Send mapped rows to the server; with dryRun it only checks them. The
+   * decimal separator comes from the file, for reading amounts.
+   */
+  onImport: (rows: ImportRow<K>[], dryRun: boolean, decimalSeparator?: '.' | ',') => Promise<ImportResult>
+}
+
+const NOT_MAPPED = '__none__'
+
+/**
+ * Import rows from a CSV or XLSX file: pick a file, map its columns onto our
+ * fields, preview per-row problems with a dry run, then import the valid rows
+ */
+export function SpreadsheetImportDialog<K extends string>({
+  title,
+  itemLabel,
+  fields,
+  open,
+  onOpenChange,
+  onImport,
+}: SpreadsheetImportDialogProps<K>) {
+  const [fileName, setFileName] = useState('')
+  const [headers, setHeaders] = useState<string[]>([])
+  const [dataRows, setDataRows] = useState<{ rowNumber: number; cells: string[] }[]>([])
+  const [decimalSeparator, setDecimalSeparator] = useState<SpreadsheetFile['decimalSeparator']>()
+  const [mapping, setMapping] = useState<Partial<Record<K, number>>>({})
+  const [preview, setPreview] = useState<ImportResult | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  const reset = () => {
+    setFileName('')
+    setHeaders([])
+    setDataRows([])
+    setDecimalSeparator(undefined)
+    setMapping({})
+    setPreview(null)
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset()
+    onOpenChange(next)
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      const spreadsheet = await readSpreadsheetFile(file)
+      const [header = [], ...rest] = spreadsheet.rows
+      // Row numbers match the spreadsheet, with the header as row 1
+      const rows = rest
+        .map((cells, i) => ({ rowNumber: i + 2, cells }))
+        .filter((row) => row.cells.some((cell) => cell.trim()))
+      if (rows.length === 0) {
+        toast.error('The file has no rows below the header')
+        return
+      }
+
+      const columns = header.map((h, i) => h.trim() || `Column ${i + 1}`)
+      setFileName(file.name)
+      setHeaders(columns)
+      setDataRows(rows)
+      setDecimalSeparator(spreadsheet.decimalSeparator)
+      setMapping(guessColumnMapping(columns, fields))
+      setPreview(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read the file')
+    }
+  }
+
+  const mappedRows = (): ImportRow<K>[] =>
+    dataRows.map(({ rowNumber, cells }) => {
+      const values: Partial<Record<K, string>> = {}
+      for (const field of fields) {
+        const column = mapping[field.key]
+        if (column !== undefined && cells[column] !== undefined) values[field.key] = cells[column]
+      }
+      return { rowNumber, ...values }
+    })
+
+  const missingRequired = fields.filter((f) => f.required && mapping[f.key] === undefined)
+
+  const handleCheck = async () => {
+    setIsWorking(true)
+    try {
+      setPreview(await onImport(mappedRows(), true, decimalSeparator))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to check rows')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleImport = async () => {
+    setIsWorking(true)
+    try {
+      const result = await onImport(mappedRows(), false, decimalSeparator)
+      toast.success(
+        `Imported ${result.imported} ${itemLabel}` +
+          (result.skipped > 0 ? `, skipped ${result.skipped} row${result.skipped === 1 ? '' : 's'} with errors` : '')
+      )
+      handleOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Import failed')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const sample = dataRows[0]?.cells ?? []
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel (.xlsx) file with a header row, then match its columns to our fields.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2 max-h-[60vh] overflow-y-auto">
+          {/* File */}
+          <label
+            className={cn(
+              'flex items-center gap-3 p-4 rounded-lg border border-dashed border-border cursor-pointer',
+              'hover:bg-muted/50 transition-colors'
+            )}
+          >
+            <FileArrowUp size={24} weight="duotone" className="text-muted-foreground" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{fileName || 'Choose a file'}</p>
+              <p className="text-xs text-muted-foreground">
+                {fileName ? `${dataRows.length} rows` : '.csv or .xlsx, up to 500 rows'}
+              </p>
+            </div>
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="sr-only"
+              onChange={(e) => {
+                void handleFile(e.target.files?.[0])
+                e.target.value = ''
+              }}
+            />
+          </label>
+
+          {/* Column mapping */}
+          {headers.length > 0 && !preview && (
+            <div className="space-y-3">
+              {fields.map((field) => {
+                const column = mapping[field.key]
+                return (
+                  <div key={field.key} className="grid grid-cols-[140px_1fr] items-center gap-3">
+                    <Label>
+                      {field.label}
+                      {field.required && ' *'}
+                    </Label>
+                    <div className="min-w-0">
+                      <Select
+                        value={column === undefined ? NOT_MAPPED : String(column)}
+                        onValueChange={(value) =>
+                          setMapping({ ...mapping, [field.key]: value === NOT_MAPPED ? undefined : Number(value) })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_MAPPED}>Don't import</SelectItem>
+                          {headers.map((header, i) => (
+                            <SelectItem key={i} value={String(i)}>
+                              {header}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {column !== undefined && sample[column] && (
+                        <p className="text-xs text-muted-foreground truncate mt-1">e.g. {sample[column]}</p>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+
+          {/* Dry run results */}
+          {preview && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-sm">
+                <CheckCircle size={18} weight="fill" className="text-green-500" />
+                {preview.valid} of {preview.total} rows ready to import
+              </div>
+              {preview.errors.length > 0 && (
+                <div className="rounded-lg border border-border divide-y divide-border">
+                  {preview.errors.map((row) => (
+                    <div key={row.rowNumber} className="flex items-start gap-2 p-3 text-sm">
+                      <WarningCircle size={16} weight="fill" className="text-red-500 mt-0.5 flex-shrink-0" />
+                      <div>
+                        <p className="font-medium">Row {row.rowNumber}</p>
+                        {row.errors.map((error) => (
+                          <p key={error} className="text-muted-foreground">
+                            {error}
+                          </p>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {preview.errors.length > 0 && preview.valid > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Rows with errors are skipped. Fix them in the file and import again to add them later.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {preview ? (
+            <button
+              onClick={() => setPreview(null)}
+              className="px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Back
+            </button>
+          ) : (
+            <button
+              onClick={() => handleOpenChange(false)}
+              className="px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={preview ? handleImport : handleCheck}
+            disabled={
+              isWorking || dataRows.length === 0 || missingRequired.length > 0 || (preview !== null && preview.valid === 0)
+            }
+            title={missingRequired.length > 0 ? `Map ${missingRequired.map((f) => f.label).join(', ')}` : undefined}
+            className={cn(
+              'flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium',
+              'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors',
+              'disabled:opacity-50 disabled:cursor-not-allowed'
+            )}
+          >
+            {isWorking
+              ? preview
+                ? 'Importing...'
+                : 'Checking...'
+              : preview
+                ? `Import ${preview.valid} ${itemLabel}`
+                : 'Check Rows'}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -4,8 +4,8 @@ import { useQuery } from 'convex/react'
 import { api } from '../../../convex/_generated/api'
 import { ThemeToggle } from '@/components/ui/theme-toggle'
 import { Logo } from '@/components/ui/logo'
+import { NotificationBell } from './NotificationBell'
 import {
-  Bell,
   SidebarSimple,
   SignOut,
   User,
@@ -114,17 +114,7 @@ export function TopBar({ onMenuClick, sidebarCollapsed }: TopBarProps) {
 
         {/* Right side */}
         <div className="flex items-center gap-1 ml-auto">
-          {/* Notifications */}
-          <button
-            className={cn(
-              'relative p-2 rounded-lg text-muted-foreground',
-              'hover:text-foreground hover:bg-muted transition-all duration-150 cursor-pointer touch-manipulation'
-            )}
-            title="Notifications"
-          >
-            <Bell size={18} weight="regular" />
-            <span className="absolute top-1.5 right-1.5 w-1.5 h-1.5 bg-purple rounded-full" />
-          </button>
+          <NotificationBell />
 
           <ThemeToggle />
 
@@ -1,5 +1,9 @@
 export { AppShell } from './AppShell'
 export { TopBar } from './TopBar'
+export { NotificationBell } from './NotificationBell'
 export { Sidebar } from './Sidebar'
 export { MobileSidebar } from './MobileSidebar'
 export { OrganizationSwitcher } from './OrganizationSwitcher'
+export { InviteMembers } from './InviteMembers'
+export { ShareEventDialog } from './ShareEventDialog'
+export { SpreadsheetImportDialog } from './SpreadsheetImportDialog'
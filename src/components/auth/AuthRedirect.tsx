@@ -2,10 +2,14 @@ import { useConvexAuth, useQuery } from 'convex/react'
 import { Navigate } from 'react-router-dom'
 import { api } from '../../../convex/_generated/api'
 import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import { getPendingInvite } from '@/pages/invite'
+import { portalHomes } from '@/lib/constants'
 
 /**
  * Smart redirect component that routes users based on their role:
+ * - pending invitation → /invite/:token
  * - superadmin/admin → /admin
+ * - vendor → /vendor, sponsor → /sponsor (self-service portals)
  * - organizer (new, no profile) → /onboarding
  * - organizer (existing) → /dashboard
  */
@@ -53,11 +57,22 @@ export function AuthRedirect() {
     return <Navigate to="/sign-in" replace />
   }
 
+  // Came from an invitation link → back to the accept page, which clears it
+  const pendingInvite = getPendingInvite()
+  if (pendingInvite) {
+    return <Navigate to={`/invite/${pendingInvite}`} replace />
+  }
+
   // Admin/Superadmin → Admin Panel (no onboarding needed)
   if (role === 'admin' || role === 'superadmin') {
     return <Navigate to="/admin" replace />
   }
 
+  // Portal accounts → their own portal (no onboarding needed)
+  if (portalHomes[role]) {
+    return <Navigate to={portalHomes[role]} replace />
+  }
+
   // Organizer → Check if onboarding needed
   // Still loading profile - wait for it
   if (organizerProfile === undefined) {
@@ -1,11 +1,11 @@
-import { CheckCircle, Circle, CircleNotch, XCircle } from '@phosphor-icons/react'
+import { ArrowCounterClockwise, CheckCircle, Circle, CircleNotch, MinusCircle, XCircle } from '@phosphor-icons/react'
 import { cn } from '@/lib/utils'
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'error'
+export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'error' | 'rolled_back' | 'skipped'
 
 export interface Task {
   id: string
@@ -26,7 +26,8 @@ export interface TaskProgressProps {
 
 export function TaskProgress({ tasks, title, className }: TaskProgressProps) {
   const completedCount = tasks.filter((t) => t.status === 'completed').length
-  const totalCount = tasks.length
+  // Skipped tasks were never going to run, so they don't count towards progress
+  const totalCount = tasks.filter((t) => t.status !== 'skipped').length
   const progressPercent = totalCount > 0 ? (completedCount / totalCount) * 100 : 0
 
   return (
@@ -85,6 +86,10 @@ function TaskItem({ task }: TaskItemProps) {
         return <CircleNotch size={18} weight="bold" className="animate-spin text-primary" />
       case 'error':
         return <XCircle size={18} weight="fill" className="text-destructive" />
+      case 'rolled_back':
+        return <ArrowCounterClockwise size={18} weight="bold" className="text-muted-foreground" />
+      case 'skipped':
+        return <MinusCircle size={18} weight="duotone" className="text-muted-foreground" />
       default:
         return <Circle size={18} weight="duotone" className="text-muted-foreground" />
     }
@@ -103,7 +108,8 @@ function TaskItem({ task }: TaskItemProps) {
           className={cn(
             'text-sm',
             task.status === 'completed' && 'text-muted-foreground line-through',
-            task.status === 'error' && 'text-destructive'
+            task.status === 'error' && 'text-destructive',
+            (task.status === 'rolled_back' || task.status === 'skipped') && 'text-muted-foreground'
           )}
         >
           {task.label}
@@ -195,7 +201,8 @@ export function StepProgress({ steps, className }: StepProgressProps) {
               step.status === 'completed' && 'bg-green-500 text-white',
               step.status === 'in_progress' && 'bg-primary text-primary-foreground',
               step.status === 'error' && 'bg-destructive text-destructive-foreground',
-              step.status === 'pending' && 'bg-muted text-muted-foreground'
+              (step.status === 'pending' || step.status === 'rolled_back' || step.status === 'skipped') &&
+                'bg-muted text-muted-foreground'
             )}
           >
             {step.status === 'completed' ? (
@@ -0,0 +1,246 @@
+import { useEffect, useRef, useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import type { Id } from '../../../convex/_generated/dataModel'
+import { cn } from '@/lib/utils'
+import { formatRelativeTime } from '@/lib/formatters'
+import { toast } from 'sonner'
+import { Checks, CircleNotch, Paperclip, PaperPlaneTilt, X } from '@phosphor-icons/react'
+
+// Matches the limits enforced by inquiryMessages.post
+const MAX_ATTACHMENTS = 5
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024
+
+function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+interface InquiryThreadProps {
+  inquiryId: Id<'inquiries'>
+  className?: string
+}
+
+/**
+ * Conversation on an inquiry with read receipts, attachments and a reply box.
+ * Marks the thread read for the current user while it's open.
+ */
+export function InquiryThread({ inquiryId, className }: InquiryThreadProps) {
+  const thread = useQuery(api.inquiryMessages.listThread, { inquiryId })
+  const markRead = useMutation(api.inquiryMessages.markRead)
+
+  const lastMessage = thread?.messages[thread.messages.length - 1]
+  const ownReceipt = thread?.receipts.find((receipt) => receipt.isOwn)
+  const needsReceipt =
+    !!lastMessage && !lastMessage.isOwn && (ownReceipt?.lastReadAt ?? 0) < lastMessage.createdAt
+
+  useEffect(() => {
+    if (!needsReceipt) return
+    markRead({ inquiryId }).catch(() => {
+      // Read receipts are best-effort
+    })
+  }, [needsReceipt, inquiryId, markRead])
+
+  if (thread === undefined) {
+    return <div className={cn('h-32 rounded-lg bg-muted/50 animate-pulse', className)} />
+  }
+
+  if (thread === null) {
+    return <p className={cn('text-sm text-muted-foreground', className)}>This conversation isn't available.</p>
+  }
+
+  // "Seen" under the latest message, from everyone but its author
+  const seenBy = lastMessage
+    ? thread.receipts.filter((receipt) => !receipt.isOwn && receipt.lastReadAt >= lastMessage.createdAt)
+    : []
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="space-y-3">
+        {thread.messages.map((message) => (
+          <div key={message._id} className={cn('flex', message.isOwn ? 'justify-end' : 'justify-start')}>
+            <div
+              className={cn(
+                'max-w-[85%] rounded-lg px-3 py-2 text-sm',
+                message.isOwn ? 'bg-primary/10' : 'bg-muted'
+              )}
+            >
+              <p className="text-xs text-muted-foreground mb-1">
+                {message.isOwn ? 'You' : message.authorName}
+                {message.authorType === 'admin' && !message.isOwn && ' (admin)'}
+                {' · '}
+                {formatRelativeTime(message.createdAt)}
+              </p>
+              {message.body && <p className="whitespace-pre-wrap">{message.body}</p>}
+              {message.attachments.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1.5">
+                  {message.attachments.map((attachment, index) =>
+                    attachment.url ? (
+                      <a
+                        key={index}
+                        href={attachment.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-background border border-border text-xs hover:text-primary transition-colors"
+                      >
+                        <Paperclip size={12} />
+                        {attachment.name}
+                        <span className="text-muted-foreground">{formatFileSize(attachment.size)}</span>
+                      </a>
+                    ) : (
+                      <span
+                        key={index}
+                        className="inline-flex items-center gap-1 px-2 py-1 rounded-md border border-border text-xs text-muted-foreground"
+                      >
+                        <Paperclip size={12} />
+                        {attachment.name} (unavailable)
+                      </span>
+                    )
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {seenBy.length > 0 && (
+        <p className="flex items-center justify-end gap-1 text-xs text-muted-foreground">
+          <Checks size={14} />
+          Seen by {seenBy.map((receipt) => receipt.name).join(', ')}
+        </p>
+      )}
+
+      {thread.canPost ? (
+        <ThreadComposer inquiryId={inquiryId} />
+      ) : (
+        <p className="text-xs text-muted-foreground">This inquiry has been closed.</p>
+      )}
+    </div>
+  )
+}
+
+function ThreadComposer({ inquiryId }: { inquiryId: Id<'inquiries'> }) {
+  const post = useMutation(api.inquiryMessages.post)
+  const generateUploadUrl = useMutation(api.inquiryMessages.generateUploadUrl)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [body, setBody] = useState('')
+  const [files, setFiles] = useState<File[]>([])
+  const [isSending, setIsSending] = useState(false)
+
+  const handleFiles = (selected: FileList | null) => {
+    if (!selected) return
+    const next = [...files]
+    for (const file of Array.from(selected)) {
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        toast.error(`${file.name} is larger than 10 MB`)
+        continue
+      }
+      next.push(file)
+    }
+    if (next.length > MAX_ATTACHMENTS) {
+      toast.error(`You can attach up to ${MAX_ATTACHMENTS} files`)
+    }
+    setFiles(next.slice(0, MAX_ATTACHMENTS))
+  }
+
+  const handleSend = async () => {
+    setIsSending(true)
+    try {
+      const attachments = await Promise.all(
+        files.map(async (file) => {
+          const { uploadUrl, uploadId } = await generateUploadUrl()
+          const result = await fetch(uploadUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': file.type || 'application/octet-stream' },
+            body: file,
+          })
+          if (!result.ok) throw new Error(`Failed to upload ${file.name}`)
+          const { storageId } = await result.json()
+          return { uploadId, storageId: storageId as Id<'_storage'>, name: file.name }
+        })
+      )
+      await post({ inquiryId, body, attachments: attachments.length > 0 ? attachments : undefined })
+      setBody('')
+      setFiles([])
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send message')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder="Write a message..."
+        rows={3}
+        maxLength={10000}
+        className={cn(
+          'w-full px-3 py-2 rounded-lg border border-border bg-background',
+          'text-sm placeholder:text-muted-foreground resize-none',
+          'focus:outline-none focus:ring-2 focus:ring-primary/20'
+        )}
+      />
+      {files.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {files.map((file, index) => (
+            <span
+              key={`${file.name}-${index}`}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-muted text-xs"
+            >
+              <Paperclip size={12} />
+              {file.name}
+              <button
+                onClick={() => setFiles((prev) => prev.filter((_, i) => i !== index))}
+                className="text-muted-foreground hover:text-foreground cursor-pointer"
+                aria-label={`Remove ${file.name}`}
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center justify-between gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(e.target.files)
+            e.target.value = ''
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isSending || files.length >= MAX_ATTACHMENTS}
+          className={cn(
+            'inline-flex items-center gap-1.5 px-2 py-1.5 rounded-lg text-sm text-muted-foreground',
+            'hover:text-foreground hover:bg-muted transition-colors',
+            'disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer'
+          )}
+        >
+          <Paperclip size={16} />
+          Attach
+        </button>
+        <button
+          onClick={handleSend}
+          disabled={(!body.trim() && files.length === 0) || isSending}
+          className={cn(
+            'inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium',
+            'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors',
+            'disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer'
+          )}
+        >
+          {isSending ? <CircleNotch size={14} className="animate-spin" /> : <PaperPlaneTilt size={14} />}
+          Send
+        </button>
+      </div>
+    </div>
+  )
+}
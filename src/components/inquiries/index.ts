@@ -0,0 +1 @@
+export { InquiryThread } from './InquiryThread'
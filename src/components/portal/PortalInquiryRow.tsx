@@ -0,0 +1,68 @@
+import { useState } from 'react'
+import type { Id } from '../../../convex/_generated/dataModel'
+import { InquiryThread } from '@/components/inquiries'
+import { cn } from '@/lib/utils'
+import { formatDate } from '@/lib/constants'
+import { EnvelopeSimple, EnvelopeOpen, CalendarBlank, ChatCircle } from '@phosphor-icons/react'
+
+export interface PortalInquiry {
+  _id: Id<'inquiries'>
+  subject: string
+  status: string
+  hasUnread: boolean
+  messageCount?: number
+  createdAt: number
+  senderDetails: { name?: string } | null
+  eventDetails: { title: string; startDate: number } | null
+}
+
+interface PortalInquiryRowProps {
+  inquiry: PortalInquiry
+}
+
+/**
+ * Expandable inquiry thread with an organizer, shown in the vendor and sponsor portals
+ */
+export function PortalInquiryRow({ inquiry }: PortalInquiryRowProps) {
+  const [expanded, setExpanded] = useState(false)
+  const isUnread = inquiry.hasUnread
+
+  return (
+    <div className="py-3">
+      <button
+        onClick={() => setExpanded((prev) => !prev)}
+        className="w-full flex items-start gap-3 text-left cursor-pointer"
+      >
+        {isUnread ? (
+          <EnvelopeSimple size={18} weight="fill" className="text-primary mt-0.5 flex-shrink-0" />
+        ) : (
+          <EnvelopeOpen size={18} className="text-muted-foreground mt-0.5 flex-shrink-0" />
+        )}
+        <div className="min-w-0 flex-1">
+          <p className={cn('text-sm truncate', isUnread && 'font-semibold')}>{inquiry.subject}</p>
+          <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+            {inquiry.senderDetails?.name ?? 'Organizer'}
+            {inquiry.eventDetails && (
+              <>
+                <span>·</span>
+                <CalendarBlank size={12} />
+                {inquiry.eventDetails.title}
+              </>
+            )}
+            <span>·</span>
+            {formatDate(inquiry.createdAt)}
+            {!!inquiry.messageCount && (
+              <>
+                <span>·</span>
+                <ChatCircle size={12} />
+                {inquiry.messageCount}
+              </>
+            )}
+          </p>
+        </div>
+        <span className="text-xs text-muted-foreground capitalize flex-shrink-0">{inquiry.status}</span>
+      </button>
+      {expanded && <InquiryThread inquiryId={inquiry._id} className="mt-3 ml-7" />}
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+import { useConvexAuth, useQuery } from 'convex/react'
+import { useAuthActions } from '@convex-dev/auth/react'
+import { Link, NavLink, Navigate, Outlet, useNavigate } from 'react-router-dom'
+import { api } from '../../../convex/_generated/api'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import { ThemeToggle } from '@/components/ui/theme-toggle'
+import { NotificationBell } from '@/components/app'
+import { cn } from '@/lib/utils'
+import { SignOut } from '@phosphor-icons/react'
+import type { Icon } from '@phosphor-icons/react'
+
+export interface PortalNavItem {
+  label: string
+  path: string
+  icon: Icon
+  /** Match the path exactly (for the portal index route) */
+  end?: boolean
+}
+
+interface PortalLayoutProps {
+  /** Shown next to the logo, e.g. "Vendor Portal" */
+  title: string
+  /** Only users with this role can use the portal */
+  role: 'vendor' | 'sponsor'
+  navItems: PortalNavItem[]
+}
+
+/**
+ * Shell for self-service portals (vendors, sponsors). Anyone without the
+ * portal role is sent back through AuthRedirect to wherever they belong.
+ */
+export function PortalLayout({ title, role, navItems }: PortalLayoutProps) {
+  const { isLoading: authLoading, isAuthenticated } = useConvexAuth()
+  const { signOut } = useAuthActions()
+  const navigate = useNavigate()
+  const user = useQuery(api.queries.auth.getCurrentUser, isAuthenticated ? {} : 'skip')
+
+  if (authLoading || (isAuthenticated && user === undefined)) {
+    return <LoadingSpinner message="Loading portal..." fullScreen />
+  }
+
+  if (!isAuthenticated || !user) {
+    return <Navigate to="/sign-in" replace />
+  }
+
+  if (user.role !== role) {
+    return <Navigate to="/auth/redirect" replace />
+  }
+
+  const handleSignOut = async () => {
+    await signOut()
+    navigate('/sign-in')
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-40 border-b border-border bg-background/95 backdrop-blur">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 flex items-center gap-6 h-14">
+          <Link to="/" className="font-mono text-lg font-bold flex-shrink-0">
+            <span className="text-foreground">open</span>
+            <span className="text-primary">-</span>
+            <span className="text-foreground">event</span>
+          </Link>
+          <span className="hidden sm:inline text-sm text-muted-foreground">{title}</span>
+
+          <nav className="flex items-center gap-1 overflow-x-auto">
+            {navItems.map((item) => (
+              <NavLink
+                key={item.path}
+                to={item.path}
+                end={item.end}
+                className={({ isActive }) =>
+                  cn(
+                    'flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors whitespace-nowrap',
+                    isActive
+                      ? 'bg-primary/10 text-primary'
+                      : 'text-muted-foreground hover:text-foreground hover:bg-muted'
+                  )
+                }
+              >
+                <item.icon size={16} weight="duotone" />
+                {item.label}
+              </NavLink>
+            ))}
+          </nav>
+
+          <div className="ml-auto flex items-center gap-2">
+            <span className="hidden md:inline text-sm text-muted-foreground truncate max-w-48">
+              {user.email}
+            </span>
+            <NotificationBell />
+            <ThemeToggle />
+            <button
+              onClick={handleSignOut}
+              className="p-2 rounded-lg text-muted-foreground hover:text-foreground hover:bg-muted transition-colors cursor-pointer"
+              title="Sign out"
+            >
+              <SignOut size={18} />
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 py-6">
+        <Outlet />
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+import type { Icon } from '@phosphor-icons/react'
+
+interface PortalStatCardProps {
+  icon: Icon
+  label: string
+  value: number
+}
+
+export function PortalStatCard({ icon: Icon, label, value }: PortalStatCardProps) {
+  return (
+    <div className="rounded-xl border border-border bg-card p-4 flex items-center gap-3">
+      <div className="p-2 rounded-lg bg-primary/10">
+        <Icon size={20} weight="duotone" className="text-primary" />
+      </div>
+      <div>
+        <p className="text-2xl font-bold leading-none">{value}</p>
+        <p className="text-xs text-muted-foreground mt-1">{label}</p>
+      </div>
+    </div>
+  )
+}
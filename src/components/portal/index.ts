@@ -0,0 +1,6 @@
+export { PortalLayout } from './PortalLayout'
+export type { PortalNavItem } from './PortalLayout'
+export { PortalStatCard } from './PortalStatCard'
+export { PortalInquiryRow } from './PortalInquiryRow'
+export type { PortalInquiry } from './PortalInquiryRow'
+export { PortalSection, PortalField } from './PortalForm'
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyPlanEvent,
+  getPlanSteps,
+  getPlanTasks,
+  getStepDependencies,
+  getStepReference,
+  startPlanRun,
+} from './agent-plan'
+
+const args = {
+  title: 'Set up DevFest',
+  steps: [
+    { tool: 'createEvent', label: 'Create DevFest', arguments: { title: 'DevFest' } },
+    { tool: 'addVendorToEvent', label: 'Add caterer', arguments: { eventId: '$1.eventId', vendorId: 'v1' } },
+    { tool: 'createTasksFromTemplate', arguments: { eventId: '$1.eventId', template: 'conference' } },
+  ],
+}
+
+describe('agent-plan', () => {
+  describe('getPlanSteps', () => {
+    it('numbers steps the way the server does and selects them all', () => {
+      const steps = getPlanSteps(args)
+      expect(steps.map((s) => s.id)).toEqual(['step-1', 'step-2', 'step-3'])
+      expect(steps[2].label).toBe('createTasksFromTemplate')
+      expect(steps.every((s) => s.selected && s.status === 'pending')).toBe(true)
+    })
+
+    it('handles a call without steps', () => {
+      expect(getPlanSteps({})).toEqual([])
+    })
+  })
+
+  describe('step references', () => {
+    it('reads "$n.field" values', () => {
+      expect(getStepReference('$1.eventId')).toEqual({ step: 1, field: 'eventId' })
+      expect(getStepReference('$1')).toBeNull()
+      expect(getStepReference(42)).toBeNull()
+    })
+
+    it('lists the steps a step depends on', () => {
+      const steps = getPlanSteps(args)
+      expect(getStepDependencies(steps[0])).toEqual([])
+      expect(getStepDependencies(steps[1])).toEqual([1])
+    })
+  })
+
+  describe('running a plan', () => {
+    it('marks dropped steps as skipped', () => {
+      const steps = getPlanSteps(args).map((s) => (s.id === 'step-3' ? { ...s, selected: false } : s))
+      const run = startPlanRun(args.title, steps)
+      expect(run.steps.map((s) => s.status)).toEqual(['pending', 'pending', 'skipped'])
+    })
+
+    it('follows progress events through a rollback', () => {
+      let run = startPlanRun(args.title, getPlanSteps(args))
+      run = applyPlanEvent(run, { type: 'step_start', id: 'step-1' })
+      expect(run.steps[0].status).toBe('in_progress')
+
+      run = applyPlanEvent(run, { type: 'step_result', id: 'step-1', success: true, summary: 'Created DevFest' })
+      run = applyPlanEvent(run, { type: 'step_start', id: 'step-2' })
+      run = applyPlanEvent(run, {
+        type: 'step_result',
+        id: 'step-2',
+        success: false,
+        summary: 'Could not add vendor',
+        error: 'Vendor not found',
+      })
+      run = applyPlanEvent(run, { type: 'step_rollback', id: 'step-1', undone: true })
+      run = applyPlanEvent(run, { type: 'done', success: false, summary: '"Add caterer" failed' })
+
+      expect(run.finished).toBe(true)
+      expect(run.success).toBe(false)
+      expect(getPlanTasks(run)).toEqual([
+        { id: 'step-1', label: 'Create DevFest', status: 'rolled_back', description: 'Undone' },
+        { id: 'step-2', label: 'Add caterer', status: 'error', description: 'Vendor not found' },
+        { id: 'step-3', label: 'createTasksFromTemplate', status: 'pending', description: undefined },
+      ])
+    })
+
+    it('notes steps that could not be undone', () => {
+      let run = startPlanRun(args.title, getPlanSteps(args))
+      run = applyPlanEvent(run, { type: 'step_result', id: 'step-1', success: true, summary: 'Done' })
+      run = applyPlanEvent(run, { type: 'step_rollback', id: 'step-1', undone: false })
+      expect(run.steps[0]).toMatchObject({ status: 'completed', summary: "Couldn't be undone" })
+    })
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * Client side of agent plans (the proposePlan tool)
+ *
+ * Turns a proposed plan into steps the user can edit or drop, applies the
+ * progress events streamed back by /api/chat/execute-plan, and maps the
+ * steps onto TaskProgress rows.
+ */
+
+import type { Task, TaskStatus } from '@/components/chat/TaskProgress'
+
+export interface PlanStep {
+  id: string
+  tool: string
+  label: string
+  arguments: Record<string, unknown>
+}
+
+export interface PlanStepState extends PlanStep {
+  selected: boolean
+  status: TaskStatus
+  summary?: string
+  error?: string
+}
+
+export interface PlanRun {
+  title: string
+  steps: PlanStepState[]
+  finished: boolean
+  success?: boolean
+  summary?: string
+}
+
+export type PlanEvent =
+  | { type: 'step_start'; id: string }
+  | { type: 'step_result'; id: string; success: boolean; summary: string; error?: string }
+  | { type: 'step_rollback'; id: string; undone: boolean; error?: string }
+  | { type: 'done'; success: boolean; summary: string }
+
+const STEP_REFERENCE = /^\$(\d+)\.(\w+)$/
+
+/**
+ * Read the steps of a proposePlan call. Ids match the ones the server gives
+ * steps without one, so progress events line up.
+ */
+export function getPlanSteps(args: Record<string, unknown>): PlanStepState[] {
+  const steps = Array.isArray(args.steps) ? args.steps : []
+  return steps.map((raw, index) => {
+    const step = (raw ?? {}) as Record<string, unknown>
+    const tool = typeof step.tool === 'string' ? step.tool : 'unknown'
+    return {
+      id: typeof step.id === 'string' && step.id ? step.id : `step-${index + 1}`,
+      tool,
+      label: typeof step.label === 'string' && step.label ? step.label : tool,
+      arguments: (step.arguments ?? {}) as Record<string, unknown>,
+      selected: true,
+      status: 'pending',
+    }
+  })
+}
+
+/**
+ * "$2.eventId" -> { step: 2, field: 'eventId' }: an argument filled in from an
+ * earlier step's result
+ */
+export function getStepReference(value: unknown): { step: number; field: string } | null {
+  const match = typeof value === 'string' ? STEP_REFERENCE.exec(value) : null
+  return match ? { step: Number(match[1]), field: match[2] } : null
+}
+
+/**
+ * Steps (1-based) that a step needs the results of
+ */
+export function getStepDependencies(step: PlanStep): number[] {
+  return Object.values(step.arguments)
+    .map((value) => getStepReference(value)?.step)
+    .filter((n): n is number => n !== undefined)
+}
+
+/**
+ * Begin running an approved plan: dropped steps show as skipped
+ */
+export function startPlanRun(title: string, steps: PlanStepState[]): PlanRun {
+  return {
+    title,
+    finished: false,
+    steps: steps.map((step) => ({
+      ...step,
+      status: step.selected ? 'pending' : 'skipped',
+      summary: undefined,
+      error: undefined,
+    })),
+  }
+}
+
+/**
+ * Apply one progress event from the server to a running plan
+ */
+export function applyPlanEvent(run: PlanRun, event: PlanEvent): PlanRun {
+  if (event.type === 'done') {
+    return { ...run, finished: true, success: event.success, summary: event.summary }
+  }
+
+  const update = (changes: Partial<PlanStepState>) => ({
+    ...run,
+    steps: run.steps.map((step) => (step.id === event.id ? { ...step, ...changes } : step)),
+  })
+
+  switch (event.type) {
+    case 'step_start':
+      return update({ status: 'in_progress' })
+    case 'step_result':
+      return update({
+        status: event.success ? 'completed' : 'error',
+        summary: event.summary,
+        error: event.error,
+      })
+    case 'step_rollback':
+      return event.undone
+        ? update({ status: 'rolled_back', summary: 'Undone' })
+        : update({ summary: event.error ? `Couldn't be undone: ${event.error}` : "Couldn't be undone" })
+  }
+}
+
+/**
+ * Show a plan's steps as TaskProgress rows
+ */
+export function getPlanTasks(run: PlanRun): Task[] {
+  return run.steps.map((step) => ({
+    id: step.id,
+    label: step.label,
+    status: step.status,
+    description: step.status === 'error' ? step.error : step.summary,
+  }))
+}
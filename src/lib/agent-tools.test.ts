@@ -13,6 +13,10 @@ import {
   Handshake,
   User,
   Wrench,
+  ListChecks,
+  Wallet,
+  ClipboardText,
+  EnvelopeSimple,
 } from '@phosphor-icons/react'
 
 describe('agent-tools', () => {
@@ -28,6 +32,17 @@ describe('agent-tools', () => {
         'searchSponsors',
         'addSponsorToEvent',
         'getUserProfile',
+        'getEventTasks',
+        'createTask',
+        'completeTask',
+        'createTasksFromTemplate',
+        'getBudgetSummary',
+        'addBudgetItem',
+        'updateBudgetItem',
+        'getEventApplications',
+        'respondToApplication',
+        'sendInquiry',
+        'proposePlan',
       ]
 
       expectedTools.forEach((tool) => {
@@ -45,7 +60,7 @@ describe('agent-tools', () => {
         expect(typeof config.executingLabel).toBe('string')
         expect(typeof config.confirmLabel).toBe('string')
         expect(typeof config.confirmDescription).toBe('string')
-        expect(['events', 'vendors', 'sponsors', 'profile']).toContain(config.category)
+        expect(['events', 'vendors', 'sponsors', 'planning', 'inquiries', 'profile']).toContain(config.category)
       })
     })
 
@@ -66,6 +81,22 @@ describe('agent-tools', () => {
       expect(TOOL_CONFIG.addSponsorToEvent.icon).toBe(Handshake)
     })
 
+    it('should use correct icons for planning and inquiry tools', () => {
+      expect(TOOL_CONFIG.createTask.icon).toBe(ListChecks)
+      expect(TOOL_CONFIG.addBudgetItem.icon).toBe(Wallet)
+      expect(TOOL_CONFIG.respondToApplication.icon).toBe(ClipboardText)
+      expect(TOOL_CONFIG.sendInquiry.icon).toBe(EnvelopeSimple)
+    })
+
+    it('should only mark tools a failed plan leaves no trace of as undoable', () => {
+      expect(TOOL_CONFIG.createEvent.undoable).toBe(true)
+      expect(TOOL_CONFIG.searchVendors.undoable).toBe(true)
+      expect(TOOL_CONFIG.updateEvent.undoable).toBe(true)
+      expect(TOOL_CONFIG.completeTask.undoable).toBe(true)
+      expect(TOOL_CONFIG.sendInquiry.undoable).toBeFalsy()
+      expect(TOOL_CONFIG.respondToApplication.undoable).toBeFalsy()
+    })
+
     it('should use correct icon for profile tools', () => {
       expect(TOOL_CONFIG.getUserProfile.icon).toBe(User)
     })
@@ -11,6 +11,11 @@ import {
   Handshake,
   User,
   Wrench,
+  ListChecks,
+  Wallet,
+  ClipboardText,
+  EnvelopeSimple,
+  ListNumbers,
   type IconWeight,
 } from '@phosphor-icons/react'
 import type { FC } from 'react'
@@ -28,6 +33,17 @@ export type ToolName =
   | 'searchSponsors'
   | 'addSponsorToEvent'
   | 'getUserProfile'
+  | 'getEventTasks'
+  | 'createTask'
+  | 'completeTask'
+  | 'createTasksFromTemplate'
+  | 'getBudgetSummary'
+  | 'addBudgetItem'
+  | 'updateBudgetItem'
+  | 'getEventApplications'
+  | 'respondToApplication'
+  | 'sendInquiry'
+  | 'proposePlan'
 
 export interface ToolConfig {
   icon: PhosphorIcon
@@ -38,7 +54,9 @@ export interface ToolConfig {
   /** Description for confirmation dialogs */
   confirmDescription: string
   /** Category for grouping */
-  category: 'events' | 'vendors' | 'sponsors' | 'profile'
+  category: 'events' | 'vendors' | 'sponsors' | 'planning' | 'inquiries' | 'profile'
+  /** Whether a failed plan leaves nothing behind from this step (it's undone, or changes nothing) */
+  undoable?: boolean
 }
 
 export const TOOL_CONFIG: Record<ToolName, ToolConfig> = {
@@ -48,6 +66,7 @@ export const TOOL_CONFIG: Record<ToolName, ToolConfig> = {
     confirmLabel: 'Create Event',
     confirmDescription: 'This will create a new event with the following details:',
     category: 'events',
+    undoable: true,
   },
   updateEvent: {
     icon: Calendar,
@@ -55,6 +74,7 @@ export const TOOL_CONFIG: Record<ToolName, ToolConfig> = {
     confirmLabel: 'Update Event',
     confirmDescription: 'This will update the event with the following changes:',
     category: 'events',
+    undoable: true,
   },
   getEventDetails: {
     icon: Calendar,
@@ -62,6 +82,7 @@ export const TOOL_CONFIG: Record<ToolName, ToolConfig> = {
     confirmLabel: 'Get Event Details',
     confirmDescription: 'Retrieving event information.',
     category: 'events',
+    undoable: true,
   },
   getUpcomingEvents: {
     icon: Calendar,
@@ -69,6 +90,7 @@ export const TOOL_CONFIG: Record<ToolName, ToolConfig> = {
     confirmLabel: 'Get Upcoming Events',
     confirmDescription: 'Fetching your upcoming events.',
     category: 'events',
+    undoable: true,
   },
   searchVendors: {
     icon: Storefront,
@@ -76,6 +98,7 @@ export const TOOL_CONFIG: Record<ToolName, ToolConfig> = {
     confirmLabel: 'Search Vendors',
     confirmDescription: 'Searching for vendors matching your criteria.',
     category: 'vendors',
+    undoable: true,
   },
   addVendorToEvent: {
     icon: Storefront,
@@ -83,6 +106,7 @@ export const TOOL_CONFIG: Record<ToolName, ToolConfig> = {
     confirmLabel: 'Add Vendor to Event',
     confirmDescription: 'This will send an inquiry to the vendor:',
     category: 'vendors',
+    undoable: true,
   },
   searchSponsors: {
     icon: Handshake,
@@ -90,6 +114,7 @@ export const TOOL_CONFIG: Record<ToolName, ToolConfig> = {
     confirmLabel: 'Search Sponsors',
     confirmDescription: 'Searching for potential sponsors.',
     category: 'sponsors',
+    undoable: true,
   },
   addSponsorToEvent: {
     icon: Handshake,
@@ -97,6 +122,7 @@ export const TOOL_CONFIG: Record<ToolName, ToolConfig> = {
     confirmLabel: 'Add Sponsor to Event',
     confirmDescription: 'This will create a sponsorship inquiry:',
     category: 'sponsors',
+    undoable: true,
   },
   getUserProfile: {
     icon: User,
@@ -104,6 +130,92 @@ export const TOOL_CONFIG: Record<ToolName, ToolConfig> = {
     confirmLabel: 'Get User Profile',
     confirmDescription: 'Retrieving your profile information.',
     category: 'profile',
+    undoable: true,
+  },
+  getEventTasks: {
+    icon: ListChecks,
+    executingLabel: 'Getting Tasks',
+    confirmLabel: 'Get Event Tasks',
+    confirmDescription: "Fetching the event's planning tasks.",
+    category: 'planning',
+    undoable: true,
+  },
+  createTask: {
+    icon: ListChecks,
+    executingLabel: 'Adding Task',
+    confirmLabel: 'Add Task',
+    confirmDescription: 'This will add a task to the event:',
+    category: 'planning',
+    undoable: true,
+  },
+  completeTask: {
+    icon: ListChecks,
+    executingLabel: 'Completing Task',
+    confirmLabel: 'Complete Task',
+    confirmDescription: 'This will mark the task as completed:',
+    category: 'planning',
+    undoable: true,
+  },
+  createTasksFromTemplate: {
+    icon: ListChecks,
+    executingLabel: 'Adding Tasks',
+    confirmLabel: 'Add Task Checklist',
+    confirmDescription: 'This will add a standard checklist of tasks to the event:',
+    category: 'planning',
+    undoable: true,
+  },
+  getBudgetSummary: {
+    icon: Wallet,
+    executingLabel: 'Getting Budget',
+    confirmLabel: 'Get Budget Summary',
+    confirmDescription: "Fetching the event's budget.",
+    category: 'planning',
+    undoable: true,
+  },
+  addBudgetItem: {
+    icon: Wallet,
+    executingLabel: 'Adding Budget Item',
+    confirmLabel: 'Add Budget Item',
+    confirmDescription: 'This will add a line item to the event budget:',
+    category: 'planning',
+    undoable: true,
+  },
+  updateBudgetItem: {
+    icon: Wallet,
+    executingLabel: 'Updating Budget Item',
+    confirmLabel: 'Update Budget Item',
+    confirmDescription: 'This will update the budget item with the following changes:',
+    category: 'planning',
+    undoable: true,
+  },
+  getEventApplications: {
+    icon: ClipboardText,
+    executingLabel: 'Getting Applications',
+    confirmLabel: 'Get Applications',
+    confirmDescription: 'Fetching vendor and sponsor applications.',
+    category: 'planning',
+    undoable: true,
+  },
+  respondToApplication: {
+    icon: ClipboardText,
+    executingLabel: 'Responding to Application',
+    confirmLabel: 'Respond to Application',
+    confirmDescription: 'This will send your decision to the applicant:',
+    category: 'planning',
+  },
+  sendInquiry: {
+    icon: EnvelopeSimple,
+    executingLabel: 'Sending Inquiry',
+    confirmLabel: 'Send Inquiry',
+    confirmDescription: 'This will send the following message:',
+    category: 'inquiries',
+  },
+  proposePlan: {
+    icon: ListNumbers,
+    executingLabel: 'Running Plan',
+    confirmLabel: 'Approve Plan',
+    confirmDescription: 'This will run the following steps in order:',
+    category: 'planning',
   },
 }
 
@@ -104,6 +104,24 @@ export const vendorStatusColors: Record<string, { bg: string; text: string }> =
   completed: { bg: 'bg-blue-500/10', text: 'text-blue-500' },
 }
 
+// Sponsor deals (eventSponsors) move through the same pipeline
+export const sponsorStatusColors = vendorStatusColors
+
+// Event application status colors (vendor/sponsor applications)
+export const applicationStatusColors: Record<string, { bg: string; text: string; label: string }> = {
+  pending: { bg: 'bg-amber-500/10', text: 'text-amber-600', label: 'Pending' },
+  under_review: { bg: 'bg-blue-500/10', text: 'text-blue-600', label: 'Under Review' },
+  accepted: { bg: 'bg-emerald-500/10', text: 'text-emerald-600', label: 'Accepted' },
+  rejected: { bg: 'bg-red-500/10', text: 'text-red-600', label: 'Rejected' },
+  withdrawn: { bg: 'bg-zinc-500/10', text: 'text-zinc-500', label: 'Withdrawn' },
+}
+
+// Home route for self-service portal roles
+export const portalHomes: Record<string, string> = {
+  vendor: '/vendor',
+  sponsor: '/sponsor',
+}
+
 // Sponsor tier configuration
 export const SPONSOR_TIER = {
   PLATINUM: 'platinum',
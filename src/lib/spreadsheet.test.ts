@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildXlsx,
+  columnName,
+  detectCsvDelimiter,
+  guessColumnMapping,
+  parseCsv,
+  parseJsonRecords,
+  readXlsx,
+  toCsv,
+} from './spreadsheet'
+
+describe('parseCsv', () => {
+  it('handles quoted cells, CRLF and a BOM', () => {
+    const csv = '\uFEFFName,Notes\r\n"Venue, hall A","Said ""yes""\nvia email"\r\nCatering,\r\n'
+    expect(parseCsv(csv)).toEqual([
+      ['Name', 'Notes'],
+      ['Venue, hall A', 'Said "yes"\nvia email'],
+      ['Catering', ''],
+    ])
+  })
+
+  it('detects semicolon-separated files', () => {
+    expect(parseCsv('Name;Amount\nVenue;1.200,50')).toEqual([
+      ['Name', 'Amount'],
+      ['Venue', '1.200,50'],
+    ])
+  })
+})
+
+describe('detectCsvDelimiter', () => {
+  it('picks the separator used most on the first line', () => {
+    expect(detectCsvDelimiter('Name,Amount\nVenue,1200.50')).toBe(',')
+    expect(detectCsvDelimiter('\uFEFFName;Amount;Notes\nVenue;1.200,50;"a, b"')).toBe(';')
+    expect(detectCsvDelimiter('Name\tAmount')).toBe('\t')
+  })
+})
+
+describe('toCsv', () => {
+  it('quotes cells that need it and round-trips through parseCsv', () => {
+    const rows = [
+      ['Name', 'Amount'],
+      ['Venue, "main"', 1500],
+      ['Empty', null],
+    ]
+    const csv = toCsv(rows)
+    expect(csv).toBe('Name,Amount\r\n"Venue, ""main""",1500\r\nEmpty,')
+    expect(parseCsv(csv)).toEqual([
+      ['Name', 'Amount'],
+      ['Venue, "main"', '1500'],
+      ['Empty', ''],
+    ])
+  })
+
+  it('escapes text that would run as a formula', () => {
+    expect(toCsv([['=SUM(A1)', -5]])).toBe("'=SUM(A1),-5")
+  })
+})
+
+describe('columnName', () => {
+  it('uses spreadsheet column letters', () => {
+    expect(columnName(0)).toBe('A')
+    expect(columnName(25)).toBe('Z')
+    expect(columnName(26)).toBe('AA')
+    expect(columnName(701)).toBe('ZZ')
+  })
+})
+
+describe('buildXlsx / readXlsx', () => {
+  it('reads back the first sheet of a written workbook', async () => {
+    const xlsx = buildXlsx([
+      {
+        name: 'Budget',
+        rows: [
+          ['Name', 'Estimated', 'Notes'],
+          ['Venue & <hall>', 1500.5, undefined],
+          [],
+          ['Catering', 800, 'Halal'],
+        ],
+      },
+      { name: 'Summary', rows: [['Total', 2300.5]] },
+    ])
+
+    expect(await readXlsx(xlsx)).toEqual([
+      ['Name', 'Estimated', 'Notes'],
+      ['Venue & <hall>', '1500.5'],
+      [],
+      ['Catering', '800', 'Halal'],
+    ])
+  })
+})
+
+describe('parseJsonRecords', () => {
+  it('flattens nested objects and joins lists', () => {
+    const json = JSON.stringify([
+      { name: 'Acme', services: ['Sound', 'Lighting'], paymentTerms: { netDays: 30 } },
+      { name: 'Bolt', website: 'bolt.io' },
+    ])
+    expect(parseJsonRecords(json)).toEqual([
+      ['name', 'services', 'paymentTerms.netDays', 'website'],
+      ['Acme', 'Sound; Lighting', '30', ''],
+      ['Bolt', '', '', 'bolt.io'],
+    ])
+  })
+
+  it('reads the records array from a wrapping object', () => {
+    expect(parseJsonRecords('{"vendors":[{"name":"Acme"}]}')).toEqual([['name'], ['Acme']])
+    expect(() => parseJsonRecords('{"name":"Acme"}')).toThrow('JSON array')
+  })
+})
+
+describe('guessColumnMapping', () => {
+  it('matches headers by key, label or alias', () => {
+    const mapping = guessColumnMapping(
+      ['Item', 'Budget Category', 'Cost', 'Something else'],
+      [
+        { key: 'name', label: 'Name', aliases: ['item'] },
+        { key: 'category', label: 'Category', aliases: ['budget category'] },
+        { key: 'estimatedAmount', label: 'Estimated', aliases: ['cost'] },
+        { key: 'notes', label: 'Notes' },
+      ]
+    )
+    expect(mapping).toEqual({ name: 0, category: 1, estimatedAmount: 2 })
+  })
+})
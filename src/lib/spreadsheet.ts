@@ -0,0 +1,536 @@
+/**
+ * Read and write CSV and XLSX files in the browser, and read JSON exports as
+ * rows.
+ *
+ * XLSX files are zip archives of XML parts. We write them uncompressed and read
+ * compressed ones with the browser's DecompressionStream, which covers what
+ * Excel, Numbers and Google Sheets produce without pulling in a spreadsheet
+ * library.
+ */
+
+export type Cell = string | number | null | undefined
+
+export interface Sheet {
+  name: string
+  rows: Cell[][]
+}
+
+export interface ImportField<K extends string = string> {
+  key: K
+  label: string
+  required?: boolean
+  /** Other header names that map onto this field */
+  aliases?: string[]
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Find a CSV file's delimiter (comma, semicolon or tab) from its first line
+ */
+export function detectCsvDelimiter(text: string): string {
+  const input = text.replace(/^\uFEFF/, '')
+  const firstLine = input.slice(0, input.search(/\r?\n|$/))
+  return [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  )
+}
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells (with commas,
+ * newlines and doubled quotes), CRLF line endings and a leading BOM.
+ * Semicolon- and tab-separated files are detected from the first line.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '')
+  const delimiter = detectCsvDelimiter(input)
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+function csvCell(value: Cell): string {
+  if (value === null || value === undefined) return ''
+  // Keep spreadsheet apps from running text that looks like a formula
+  const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Turn rows into CSV text
+ */
+export function toCsv(rows: Cell[][]): string {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n')
+}
+
+// ============================================================================
+// Zip
+// ============================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Build an uncompressed zip archive
+ */
+function buildZip(files: { name: string; data: Uint8Array }[]): Uint8Array {
+  const encoder = new TextEncoder()
+  const chunks: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = encoder.encode(file.name)
+    const crc = crc32(file.data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true) // version needed
+    local.setUint16(6, 0x0800, true) // UTF-8 names
+    local.setUint16(8, 0, true) // stored
+    local.setUint16(12, 0x21, true) // 1980-01-01
+    local.setUint32(14, crc, true)
+    local.setUint32(18, file.data.length, true)
+    local.setUint32(22, file.data.length, true)
+    local.setUint16(26, name.length, true)
+
+    const entry = new DataView(new ArrayBuffer(46))
+    entry.setUint32(0, 0x02014b50, true)
+    entry.setUint16(4, 20, true) // version made by
+    entry.setUint16(6, 20, true)
+    entry.setUint16(8, 0x0800, true)
+    entry.setUint16(14, 0x21, true)
+    entry.setUint32(16, crc, true)
+    entry.setUint32(20, file.data.length, true)
+    entry.setUint32(24, file.data.length, true)
+    entry.setUint16(28, name.length, true)
+    entry.setUint32(42, offset, true)
+
+    chunks.push(new Uint8Array(local.buffer), name, file.data)
+    central.push(new Uint8Array(entry.buffer), name)
+    offset += 30 + name.length + file.data.length
+  }
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, files.length, true)
+  end.setUint16(10, files.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)]
+  const zip = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0))
+  let position = 0
+  for (const part of parts) {
+    zip.set(part, position)
+    position += part.length
+  }
+  return zip
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Read the files in a zip archive (stored or deflated)
+ */
+async function readZip(bytes: Uint8Array): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+  let end = bytes.length - 22
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--
+  if (end < 0) throw new Error('Not a valid XLSX file')
+
+  const count = view.getUint16(end + 10, true)
+  let position = view.getUint32(end + 16, true)
+  const decoder = new TextDecoder()
+  const files = new Map<string, Uint8Array>()
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(position, true) !== 0x02014b50) throw new Error('Not a valid XLSX file')
+    const method = view.getUint16(position + 10, true)
+    const compressedSize = view.getUint32(position + 20, true)
+    const nameLength = view.getUint16(position + 28, true)
+    const extraLength = view.getUint16(position + 30, true)
+    const commentLength = view.getUint16(position + 32, true)
+    const localOffset = view.getUint32(position + 42, true)
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength))
+
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    const data = bytes.subarray(dataStart, dataStart + compressedSize)
+
+    if (method === 0) files.set(name, data)
+    else if (method === 8) files.set(name, await inflateRaw(data))
+
+    position += 46 + nameLength + extraLength + commentLength
+  }
+
+  return files
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newlines aren't allowed in XML
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+}
+
+/**
+ * Column letters for a zero-based index: 0 → A, 26 → AA
+ */
+export function columnName(index: number): string {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+function columnIndex(name: string): number {
+  return [...name].reduce((index, char) => index * 26 + char.charCodeAt(0) - 64, 0) - 1
+}
+
+function sheetXml(rows: Cell[][]): string {
+  const body = rows
+    .map((row, r) => {
+      const cells = row
+        .map((value, c) => {
+          const ref = `${columnName(c)}${r + 1}`
+          if (value === null || value === undefined || value === '') return ''
+          if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`
+          return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`
+        })
+        .join('')
+      return `<row r="${r + 1}">${cells}</row>`
+    })
+    .join('')
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${body}</sheetData></worksheet>`
+  )
+}
+
+/**
+ * Build an XLSX workbook with one worksheet per sheet
+ */
+export function buildXlsx(sheets: Sheet[]): Uint8Array {
+  const encoder = new TextEncoder()
+  const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  // Sheet names are limited to 31 characters and can't contain []:*?/\
+  const names = sheets.map((sheet, i) => escapeXml(sheet.name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || `Sheet${i + 1}`))
+
+  const files: { name: string; data: string }[] = [
+    {
+      name: '[Content_Types].xml',
+      data:
+        xml +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheets
+          .map(
+            (_, i) =>
+              `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+          )
+          .join('') +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      data:
+        xml +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      data:
+        xml +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+        names.map((name, i) => `<sheet name="${name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+        '</sheets></workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data:
+        xml +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets
+          .map(
+            (_, i) =>
+              `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+          )
+          .join('') +
+        `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/styles.xml',
+      data:
+        xml +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<fonts count="1"><font/></fonts><fills count="1"><fill/></fills><borders count="1"><border/></borders>' +
+        '<cellStyleXfs count="1"><xf/></cellStyleXfs><cellXfs count="1"><xf/></cellXfs>' +
+        '</styleSheet>',
+    },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: sheetXml(sheet.rows) })),
+  ]
+
+  return buildZip(files.map((file) => ({ name: file.name, data: encoder.encode(file.data) })))
+}
+
+function elements(parent: Document | Element, tag: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', tag))
+}
+
+/**
+ * Read the first worksheet of an XLSX file as rows of text. Dates come back
+ * as Excel date serials, since the sheet only stores them as numbers.
+ */
+export async function readXlsx(bytes: Uint8Array): Promise<string[][]> {
+  const files = await readZip(bytes)
+  const decoder = new TextDecoder()
+  const parse = (name: string) => {
+    const data = files.get(name)
+    return data ? new DOMParser().parseFromString(decoder.decode(data), 'application/xml') : null
+  }
+
+  // Find the first sheet through the workbook's relationships
+  const workbook = parse('xl/workbook.xml')
+  const rels = parse('xl/_rels/workbook.xml.rels')
+  const firstSheet = workbook && elements(workbook, 'sheet')[0]
+  const relId = firstSheet?.getAttributeNS(
+    'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+    'id'
+  )
+  const target = rels && elements(rels, 'Relationship').find((r) => r.getAttribute('Id') === relId)?.getAttribute('Target')
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml'
+
+  const sheet = parse(sheetPath)
+  if (!sheet) throw new Error('The workbook has no worksheets')
+
+  const sharedStringsDoc = parse('xl/sharedStrings.xml')
+  const sharedStrings = sharedStringsDoc
+    ? elements(sharedStringsDoc, 'si').map((si) => elements(si, 't').map((t) => t.textContent ?? '').join(''))
+    : []
+
+  const rows: string[][] = []
+  for (const rowElement of elements(sheet, 'row')) {
+    const rowNumber = Number(rowElement.getAttribute('r')) || rows.length + 1
+    const row: string[] = []
+
+    for (const cell of elements(rowElement, 'c')) {
+      const ref = cell.getAttribute('r')
+      const column = ref ? columnIndex(ref.replace(/\d+$/, '')) : row.length
+      const type = cell.getAttribute('t')
+      const value = elements(cell, 'v')[0]?.textContent ?? ''
+
+      let text: string
+      if (type === 's') text = sharedStrings[Number(value)] ?? ''
+      else if (type === 'inlineStr') text = elements(cell, 't').map((t) => t.textContent ?? '').join('')
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE'
+      else text = value
+
+      while (row.length < column) row.push('')
+      row[column] = text
+    }
+
+    while (rows.length < rowNumber - 1) rows.push([])
+    rows.push(row)
+  }
+
+  return rows
+}
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+function flattenRecord(value: unknown, prefix: string, into: Record<string, string>) {
+  if (value === null || value === undefined) return
+  if (Array.isArray(value)) {
+    into[prefix] = value
+      .map((item) => (typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item)))
+      .join('; ')
+  } else if (typeof value === 'object') {
+    for (const [key, nested] of Object.entries(value)) {
+      flattenRecord(nested, prefix ? `${prefix}.${key}` : key, into)
+    }
+  } else {
+    into[prefix] = String(value)
+  }
+}
+
+/**
+ * Turn a JSON array of records (or an object holding one) into a header row
+ * and a row per record. Nested objects become dotted columns such as
+ * "paymentTerms.netDays" and lists are joined with "; ".
+ */
+export function parseJsonRecords(text: string): string[][] {
+  let data: unknown = JSON.parse(text.replace(/^\uFEFF/, ''))
+  if (!Array.isArray(data) && typeof data === 'object' && data !== null) {
+    data = Object.values(data).find(Array.isArray)
+  }
+  if (!Array.isArray(data)) throw new Error('Expected a JSON array of records')
+
+  const records = data.map((item) => {
+    const record: Record<string, string> = {}
+    flattenRecord(item, '', record)
+    return record
+  })
+  const headers = [...new Set(records.flatMap((record) => Object.keys(record)))]
+
+  return [headers, ...records.map((record) => headers.map((header) => record[header] ?? ''))]
+}
+
+// ============================================================================
+// Files
+// ============================================================================
+
+export interface SpreadsheetFile {
+  rows: string[][]
+  /**
+   * Decimal separator implied by a CSV file's delimiter: semicolon-separated
+   * files come from locales that write "1.250,50". Unset for other files.
+   */
+  decimalSeparator?: '.' | ','
+}
+
+/**
+ * Read a .csv, .xlsx or .json file into rows of text, dropping blank rows at
+ * the end
+ */
+export async function readSpreadsheetFile(file: File): Promise<SpreadsheetFile> {
+  let rows: string[][]
+  let decimalSeparator: SpreadsheetFile['decimalSeparator']
+  if (/\.xlsx$/i.test(file.name)) {
+    rows = await readXlsx(new Uint8Array(await file.arrayBuffer()))
+  } else if (/\.json$/i.test(file.name)) {
+    rows = parseJsonRecords(await file.text())
+  } else {
+    const text = await file.text()
+    rows = parseCsv(text)
+    const delimiter = detectCsvDelimiter(text)
+    if (delimiter === ';') decimalSeparator = ','
+    else if (delimiter === ',') decimalSeparator = '.'
+  }
+
+  while (rows.length > 0 && rows[rows.length - 1].every((cell) => !cell.trim())) rows.pop()
+  return { rows, decimalSeparator }
+}
+
+/**
+ * Save rows to the user's downloads as CSV, or a workbook as XLSX
+ */
+export function downloadSpreadsheet(filename: string, format: 'csv' | 'xlsx', sheets: Sheet[]) {
+  const blob =
+    format === 'csv'
+      ? // The BOM makes Excel open the file as UTF-8. Sheets are stacked with a blank row between.
+        new Blob(['\uFEFF' + toCsv(sheets.flatMap((sheet, i) => (i > 0 ? [[], ...sheet.rows] : sheet.rows)))], {
+          type: 'text/csv;charset=utf-8',
+        })
+      : new Blob([buildXlsx(sheets) as BlobPart], {
+          type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        })
+
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${filename}.${format}`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Pick a column for each field by matching header names against the field's
+ * key, label and aliases (ignoring case, spaces and punctuation)
+ */
+export function guessColumnMapping<K extends string>(
+  headers: string[],
+  fields: ImportField<K>[]
+): Partial<Record<K, number>> {
+  const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '')
+  const normalizedHeaders = headers.map(normalize)
+  const used = new Set<number>()
+  const mapping: Partial<Record<K, number>> = {}
+
+  for (const field of fields) {
+    const names = [field.key, field.label, ...(field.aliases ?? [])].map(normalize)
+    const index = normalizedHeaders.findIndex((header, i) => !used.has(i) && names.includes(header))
+    if (index >= 0) {
+      mapping[field.key] = index
+      used.add(index)
+    }
+  }
+
+  return mapping
+}
@@ -17,6 +17,9 @@ import {
   Warning,
   CheckCircle,
   Sliders,
+  Cpu,
+  PushPin,
+  Trash,
 } from '@phosphor-icons/react'
 import {
   Tooltip,
@@ -42,6 +45,7 @@ import {
 
 type UsageStatus = 'normal' | 'warning' | 'critical' | 'exceeded'
 type SortOption = 'promptCount' | 'totalPrompts' | 'updatedAt'
+type AIProviderOption = 'openai' | 'anthropic' | 'groq'
 
 const statusConfig: Record<UsageStatus, { bg: string; text: string; label: string }> = {
   normal: { bg: 'bg-green-500/10', text: 'text-green-600', label: 'Normal' },
@@ -56,6 +60,16 @@ const sortOptions: { value: SortOption; label: string }[] = [
   { value: 'updatedAt', label: 'Last Active' },
 ]
 
+const providerOptions: { value: AIProviderOption; label: string }[] = [
+  { value: 'openai', label: 'OpenAI' },
+  { value: 'anthropic', label: 'Anthropic' },
+  { value: 'groq', label: 'Groq' },
+]
+
+function getProviderLabel(provider: string | undefined): string {
+  return providerOptions.find((p) => p.value === provider)?.label ?? provider ?? '-'
+}
+
 // Helper function to format relative time - placed outside component to avoid purity issues
 function formatLastActive(timestamp: number | undefined, now: number): string {
   if (!timestamp) return 'Never'
@@ -81,15 +95,27 @@ export function AdminAIUsage() {
     currentLimit: number
   } | null>(null)
   const [newLimit, setNewLimit] = useState('')
+  const [showProviderModal, setShowProviderModal] = useState(false)
+  const [providerChoice, setProviderChoice] = useState<AIProviderOption>('openai')
+  const [modelChoice, setModelChoice] = useState('')
+  const [orgId, setOrgId] = useState<Id<'organizations'> | ''>('')
+  const [orgProvider, setOrgProvider] = useState<AIProviderOption>('openai')
+  const [orgModel, setOrgModel] = useState('')
 
   // Queries
   const analytics = useQuery(api.aiUsage.getUsageAnalytics)
   const usageStats = useQuery(api.aiUsage.getAllUsageStats, { sortBy, limit: 100 })
+  const orgPins = useQuery(api.aiUsage.listOrganizationProviders)
+  const organizations = useQuery(api.organizations.listForAdmin)
 
   // Mutations
   const setUserLimit = useMutation(api.aiUsage.setUserLimit)
   const resetUserUsage = useMutation(api.aiUsage.resetUserUsage)
   const removeCustomLimit = useMutation(api.aiUsage.removeCustomLimit)
+  const setUserProvider = useMutation(api.aiUsage.setUserProvider)
+  const clearUserProvider = useMutation(api.aiUsage.clearUserProvider)
+  const setOrganizationProvider = useMutation(api.aiUsage.setOrganizationProvider)
+  const clearOrganizationProvider = useMutation(api.aiUsage.clearOrganizationProvider)
 
   // Filter users by search
   const filteredStats = usageStats?.filter((u) => {
@@ -143,6 +169,72 @@ export function AdminAIUsage() {
     }
   }
 
+  const handleSetProvider = async () => {
+    if (!selectedUser) return
+
+    try {
+      await setUserProvider({
+        userId: selectedUser.id,
+        provider: providerChoice,
+        model: modelChoice.trim() || undefined,
+      })
+      toast.success(`${selectedUser.name} pinned to ${getProviderLabel(providerChoice)}`)
+      setShowProviderModal(false)
+      setSelectedUser(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to pin provider')
+    }
+  }
+
+  const handleClearProvider = async (userId: Id<'users'>, userName: string) => {
+    try {
+      await clearUserProvider({ userId })
+      toast.success(`Removed provider pin for ${userName}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove provider pin')
+    }
+  }
+
+  const handleSetOrgProvider = async () => {
+    if (!orgId) return
+
+    try {
+      await setOrganizationProvider({
+        organizationId: orgId,
+        provider: orgProvider,
+        model: orgModel.trim() || undefined,
+      })
+      const orgName = organizations?.find((org) => org._id === orgId)?.name ?? 'Workspace'
+      toast.success(`${orgName} pinned to ${getProviderLabel(orgProvider)}`)
+      setOrgId('')
+      setOrgModel('')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to pin provider')
+    }
+  }
+
+  const handleClearOrgProvider = async (id: Id<'aiProviderPins'>) => {
+    try {
+      await clearOrganizationProvider({ id })
+      toast.success('Organization pin removed')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove provider pin')
+    }
+  }
+
+  const openProviderModal = (
+    userId: Id<'users'>,
+    userName: string,
+    currentLimit: number,
+    pinnedProvider?: AIProviderOption,
+    pinnedModel?: string
+  ) => {
+    setSelectedUser({ id: userId, name: userName, currentLimit })
+    setProviderChoice(pinnedProvider ?? 'openai')
+    setModelChoice(pinnedModel ?? '')
+    setShowProviderModal(true)
+  }
+
   const openLimitModal = (userId: Id<'users'>, userName: string, currentLimit: number) => {
     setSelectedUser({ id: userId, name: userName, currentLimit })
     setNewLimit(currentLimit.toString())
@@ -305,6 +397,9 @@ export function AdminAIUsage() {
                 <th className="text-center text-xs font-medium text-muted-foreground uppercase tracking-wider px-4 py-3">
                   Total
                 </th>
+                <th className="text-center text-xs font-medium text-muted-foreground uppercase tracking-wider px-4 py-3">
+                  Provider
+                </th>
                 <th className="text-center text-xs font-medium text-muted-foreground uppercase tracking-wider px-4 py-3">
                   Last Active
                 </th>
@@ -336,6 +431,9 @@ export function AdminAIUsage() {
                     <td className="px-4 py-4">
                       <div className="h-4 bg-muted rounded w-16 mx-auto" />
                     </td>
+                    <td className="px-4 py-4">
+                      <div className="h-4 bg-muted rounded w-16 mx-auto" />
+                    </td>
                     <td className="px-4 py-4">
                       <div className="h-8 bg-muted rounded w-20 ml-auto" />
                     </td>
@@ -343,7 +441,7 @@ export function AdminAIUsage() {
                 ))
               ) : filteredStats?.length === 0 ? (
                 <tr>
-                  <td colSpan={7} className="px-4 py-12 text-center">
+                  <td colSpan={8} className="px-4 py-12 text-center">
                     <Sparkle size={48} weight="duotone" className="mx-auto text-muted-foreground/30 mb-4" />
                     <p className="text-muted-foreground">
                       {searchQuery ? `No users match "${searchQuery}"` : 'No AI usage data yet'}
@@ -427,6 +525,29 @@ export function AdminAIUsage() {
                         <span className="font-mono text-sm">{user.totalPrompts.toLocaleString()}</span>
                       </td>
 
+                      {/* Provider */}
+                      <td className="px-4 py-4 text-center">
+                        <TooltipProvider delayDuration={0}>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <span className="inline-flex items-center gap-1 text-sm">
+                                {user.pinnedProvider && (
+                                  <PushPin size={12} weight="fill" className="text-purple-600" />
+                                )}
+                                {getProviderLabel(user.pinnedProvider ?? user.lastProvider)}
+                              </span>
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              {user.pinnedProvider && (
+                                <p>Pinned: {getProviderLabel(user.pinnedProvider)}{user.pinnedModel ? ` (${user.pinnedModel})` : ''}</p>
+                              )}
+                              <p>Last served by: {user.lastProvider ? `${getProviderLabel(user.lastProvider)} (${user.lastModel})` : 'None yet'}</p>
+                              {user.failoverCount > 0 && <p>Failovers: {user.failoverCount}</p>}
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </td>
+
                       {/* Last Active */}
                       <td className="px-4 py-4 text-center">
                         <span className="text-sm text-muted-foreground">
@@ -459,6 +580,26 @@ export function AdminAIUsage() {
                                 <ArrowClockwise size={14} className="mr-2" />
                                 Reset Today's Usage
                               </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => openProviderModal(
+                                  user.userId,
+                                  user.userName,
+                                  user.dailyLimit,
+                                  user.pinnedProvider,
+                                  user.pinnedModel
+                                )}
+                              >
+                                <Cpu size={14} className="mr-2" />
+                                Pin AI Provider
+                              </DropdownMenuItem>
+                              {user.pinnedProvider && (
+                                <DropdownMenuItem
+                                  onClick={() => handleClearProvider(user.userId, user.userName)}
+                                >
+                                  <PushPin size={14} className="mr-2" />
+                                  Remove Provider Pin
+                                </DropdownMenuItem>
+                              )}
                               {user.dailyLimit !== (analytics?.defaultDailyLimit ?? 5) && (
                                 <>
                                   <DropdownMenuSeparator />
@@ -484,6 +625,83 @@ export function AdminAIUsage() {
         </div>
       </div>
 
+      {/* Organization Provider Pins */}
+      <div className="rounded-xl border border-border bg-card p-4 space-y-4">
+        <div>
+          <p className="font-medium text-sm">Organization Provider Pins</p>
+          <p className="text-xs text-muted-foreground mt-1">
+            Route everyone working in a workspace to a provider. A user pin takes precedence;
+            other configured providers are still used as failover.
+          </p>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <select
+            value={orgId}
+            onChange={(e) => setOrgId(e.target.value as Id<'organizations'> | '')}
+            className="flex-1 px-3 py-2 rounded-lg border border-border bg-background text-sm"
+          >
+            <option value="">Select a workspace</option>
+            {organizations?.map((org) => (
+              <option key={org._id} value={org._id}>{org.name}</option>
+            ))}
+          </select>
+          <select
+            value={orgProvider}
+            onChange={(e) => setOrgProvider(e.target.value as AIProviderOption)}
+            className="px-3 py-2 rounded-lg border border-border bg-background text-sm"
+          >
+            {providerOptions.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Model (optional)"
+            value={orgModel}
+            onChange={(e) => setOrgModel(e.target.value)}
+            className={cn(
+              'sm:w-56 px-3 py-2 rounded-lg border border-border bg-background',
+              'text-sm placeholder:text-muted-foreground',
+              'focus:outline-none focus:ring-2 focus:ring-primary/20'
+            )}
+          />
+          <button
+            onClick={handleSetOrgProvider}
+            disabled={!orgId}
+            className={cn(
+              'px-4 py-2 rounded-lg text-sm font-medium',
+              'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors',
+              'disabled:opacity-50 disabled:cursor-not-allowed'
+            )}
+          >
+            Pin
+          </button>
+        </div>
+
+        {orgPins && orgPins.length > 0 && (
+          <div className="divide-y divide-border rounded-lg border border-border">
+            {orgPins.map((pin) => (
+              <div key={pin._id} className="flex items-center justify-between px-3 py-2 text-sm">
+                <span className="font-medium">{pin.organizationName}</span>
+                <div className="flex items-center gap-3">
+                  <span className="text-muted-foreground">
+                    {getProviderLabel(pin.provider)}{pin.model ? ` · ${pin.model}` : ''}
+                  </span>
+                  <button
+                    onClick={() => handleClearOrgProvider(pin._id)}
+                    className="p-1 rounded text-muted-foreground hover:text-red-600 transition-colors"
+                    title="Remove pin"
+                  >
+                    <Trash size={14} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Configuration Info */}
       <div className="p-4 rounded-xl border border-border bg-muted/30">
         <div className="flex items-start gap-3">
@@ -560,6 +778,71 @@ export function AdminAIUsage() {
         </DialogContent>
       </Dialog>
 
+      {/* Pin Provider Modal */}
+      <Dialog open={showProviderModal} onOpenChange={setShowProviderModal}>
+        <DialogContent>
+          <DialogHeader>
+            <div className="flex items-center gap-3 mb-2">
+              <div className="p-2 rounded-lg bg-primary/10">
+                <Cpu size={20} weight="duotone" className="text-primary" />
+              </div>
+              <DialogTitle>Pin AI Provider</DialogTitle>
+            </div>
+            <DialogDescription>
+              Route <strong>{selectedUser?.name}</strong>'s AI requests to a specific provider.
+              Other configured providers are still used if it fails.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-4 space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-1.5">Provider</label>
+              <select
+                value={providerChoice}
+                onChange={(e) => setProviderChoice(e.target.value as AIProviderOption)}
+                className="w-full px-3 py-2.5 rounded-lg border border-border bg-background text-sm"
+              >
+                {providerOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1.5">Model</label>
+              <input
+                type="text"
+                value={modelChoice}
+                onChange={(e) => setModelChoice(e.target.value)}
+                placeholder="Leave empty for the provider default"
+                className={cn(
+                  'w-full px-3 py-2.5 rounded-lg border border-border bg-background',
+                  'text-sm placeholder:text-muted-foreground',
+                  'focus:outline-none focus:ring-2 focus:ring-primary/20'
+                )}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <button
+              onClick={() => setShowProviderModal(false)}
+              className="px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSetProvider}
+              className={cn(
+                'px-4 py-2 rounded-lg text-sm font-medium',
+                'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors'
+              )}
+            >
+              Pin Provider
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Reset Usage Modal */}
       <Dialog open={showResetModal} onOpenChange={setShowResetModal}>
         <DialogContent>
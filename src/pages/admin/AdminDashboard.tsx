@@ -27,7 +27,9 @@ import {
 export function AdminDashboard() {
   const user = useQuery(api.queries.auth.getCurrentUser)
   const users = useQuery(api.admin.listAllUsers, { limit: 10 })
-  const moderationLogs = useQuery(api.moderation.getModerationLogs, { limit: 5 })
+  const moderationLogs = useQuery(api.moderation.getModerationLogs, {
+    paginationOpts: { numItems: 5, cursor: null },
+  })?.page
   const suspendedCount = useQuery(api.moderation.getSuspendedUsersCount)
   const pendingVendors = useQuery(api.vendors.getPendingCount)
   const pendingSponsors = useQuery(api.sponsors.getPendingCount)
@@ -1,5 +1,5 @@
 import { useState } from 'react'
-import { useQuery } from 'convex/react'
+import { usePaginatedQuery } from 'convex/react'
 import { api } from '../../../convex/_generated/api'
 import { cn } from '@/lib/utils'
 import { formatRelativeTime } from '@/lib/formatters'
@@ -17,6 +17,8 @@ import {
   UserCircle,
   ArrowRight,
   Funnel,
+  CaretDown,
+  UploadSimple,
 } from '@phosphor-icons/react'
 import {
   Tooltip,
@@ -34,6 +36,8 @@ type ActionType =
   | 'vendor_rejected'
   | 'sponsor_approved'
   | 'sponsor_rejected'
+  | 'vendor_imported'
+  | 'sponsor_imported'
   | 'event_flagged'
   | 'event_unflagged'
   | 'event_removed'
@@ -98,6 +102,18 @@ const actionConfig: Record<
     color: 'text-red-500',
     bgColor: 'bg-red-500/10',
   },
+  vendor_imported: {
+    label: 'Vendors Imported',
+    icon: UploadSimple,
+    color: 'text-blue-500',
+    bgColor: 'bg-blue-500/10',
+  },
+  sponsor_imported: {
+    label: 'Sponsors Imported',
+    icon: UploadSimple,
+    color: 'text-blue-500',
+    bgColor: 'bg-blue-500/10',
+  },
   event_flagged: {
     label: 'Event Flagged',
     icon: Warning,
@@ -128,8 +144,8 @@ const targetConfig: Record<TargetType, { icon: typeof Users; color: string }> =
 const actionCategories = [
   { value: 'all', label: 'All Actions', description: 'View all moderation activity' },
   { value: 'user', label: 'User Actions', description: 'Suspensions, role changes, admin management' },
-  { value: 'vendor', label: 'Vendor Actions', description: 'Vendor approvals and rejections' },
-  { value: 'sponsor', label: 'Sponsor Actions', description: 'Sponsor approvals and rejections' },
+  { value: 'vendor', label: 'Vendor Actions', description: 'Vendor approvals, rejections and imports' },
+  { value: 'sponsor', label: 'Sponsor Actions', description: 'Sponsor approvals, rejections and imports' },
   { value: 'event', label: 'Event Actions', description: 'Event flagging and removals' },
 ]
 
@@ -138,12 +154,19 @@ export function AdminModeration() {
   const [categoryFilter, setCategoryFilter] = useState('all')
   const [targetTypeFilter, setTargetTypeFilter] = useState<TargetType | 'all'>('all')
 
-  const moderationLogs = useQuery(api.moderation.getModerationLogs, {
-    targetType: targetTypeFilter === 'all' ? undefined : targetTypeFilter,
-    limit: 100,
-  })
+  const PAGE_SIZE = 100
 
-  const filteredLogs = moderationLogs?.filter((log) => {
+  const {
+    results: moderationLogs,
+    status: logsStatus,
+    loadMore,
+  } = usePaginatedQuery(
+    api.moderation.getModerationLogs,
+    { targetType: targetTypeFilter === 'all' ? undefined : targetTypeFilter },
+    { initialNumItems: PAGE_SIZE }
+  )
+
+  const filteredLogs = moderationLogs.filter((log) => {
     // Category filter
     if (categoryFilter !== 'all') {
       const actionPrefix = log.action.split('_')[0]
@@ -170,12 +193,12 @@ export function AdminModeration() {
   // Stats
   const todayStart = new Date()
   todayStart.setHours(0, 0, 0, 0)
-  const todayActions = moderationLogs?.filter((l) => l.createdAt >= todayStart.getTime()).length || 0
-  const suspensions = moderationLogs?.filter((l) => l.action === 'user_suspended').length || 0
+  const todayActions = moderationLogs.filter((l) => l.createdAt >= todayStart.getTime()).length
+  const suspensions = moderationLogs.filter((l) => l.action === 'user_suspended').length
   const approvals =
-    moderationLogs?.filter(
+    moderationLogs.filter(
       (l) => l.action === 'vendor_approved' || l.action === 'sponsor_approved'
-    ).length || 0
+    ).length
 
   return (
     <div className="space-y-6">
@@ -197,7 +220,7 @@ export function AdminModeration() {
               </div>
               <div>
                 <p className="text-sm text-muted-foreground">Total Actions</p>
-                <p className="text-2xl font-bold">{moderationLogs?.length || 0}</p>
+                <p className="text-2xl font-bold">{moderationLogs.length}</p>
               </div>
             </div>
           </TooltipTrigger>
@@ -323,9 +346,9 @@ export function AdminModeration() {
 
       {/* Logs Timeline */}
       <div className="rounded-xl border border-border bg-card overflow-hidden">
-        {!moderationLogs ? (
+        {logsStatus === 'LoadingFirstPage' ? (
           <div className="p-8 text-center text-muted-foreground">Loading logs...</div>
-        ) : filteredLogs?.length === 0 ? (
+        ) : filteredLogs.length === 0 ? (
           <div className="p-8 text-center">
             <ShieldCheck
               size={48}
@@ -339,7 +362,7 @@ export function AdminModeration() {
           </div>
         ) : (
           <div className="divide-y divide-border">
-            {filteredLogs?.map((log) => {
+            {filteredLogs.map((log) => {
               const action = actionConfig[log.action as ActionType]
               const target = targetConfig[log.targetType as TargetType]
               const ActionIcon = action?.icon || Clock
@@ -402,6 +425,12 @@ export function AdminModeration() {
                                   {log.metadata.sponsorName}
                                 </span>
                               )}
+                              {log.metadata.total !== undefined && (
+                                <span className="text-xs px-2 py-1 bg-muted rounded-md">
+                                  {log.metadata.created} created · {log.metadata.merged} merged ·{' '}
+                                  {log.metadata.skipped + log.metadata.invalid} skipped
+                                </span>
+                              )}
                             </div>
                           )}
                         </div>
@@ -433,11 +462,22 @@ export function AdminModeration() {
       </div>
 
       {/* Load More */}
-      {filteredLogs && filteredLogs.length >= 100 && (
-        <div className="text-center">
-          <p className="text-sm text-muted-foreground">
-            Showing the most recent 100 logs. Use filters to narrow down results.
-          </p>
+      {logsStatus === 'CanLoadMore' && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => loadMore(PAGE_SIZE)}
+            className={cn(
+              'flex items-center gap-2 px-6 py-2.5 rounded-lg',
+              'border border-border bg-card text-sm font-medium',
+              'hover:bg-muted transition-colors cursor-pointer'
+            )}
+          >
+            <CaretDown size={16} weight="bold" />
+            Load More
+            <span className="text-muted-foreground">
+              ({moderationLogs.length} loaded)
+            </span>
+          </button>
         </div>
       )}
     </div>
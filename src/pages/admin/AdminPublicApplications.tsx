@@ -155,9 +155,10 @@ export function AdminPublicApplications() {
         { successMessage: successMsg, onSuccess: onSuccessCallback }
       )
     } else {
+      // The applicant is invited to the sponsor portal as part of the conversion
       execute(
         () => convertToSponsor({ applicationId: selectedApplication, autoApprove }),
-        { successMessage: successMsg, onSuccess: onSuccessCallback }
+        { successMessage: `${successMsg} · portal invitation sent`, onSuccess: onSuccessCallback }
       )
     }
   }
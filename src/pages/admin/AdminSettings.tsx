@@ -1,6 +1,7 @@
 import { useQuery } from 'convex/react'
 import { api } from '../../../convex/_generated/api'
 import { cn } from '@/lib/utils'
+import { AgentPersonasPanel, ExchangeRatesPanel, HousekeepingPanel } from '@/components/admin'
 import {
   Info,
   ShieldCheck,
@@ -296,6 +297,15 @@ export function AdminSettings() {
         </div>
       </div>
 
+      {/* Exchange Rates */}
+      <ExchangeRatesPanel />
+
+      {/* AI Assistant Personas */}
+      <AgentPersonasPanel />
+
+      {/* Housekeeping */}
+      <HousekeepingPanel />
+
       {/* Quick Links */}
       <div className="rounded-xl border border-border bg-card overflow-hidden">
         <div className="p-4 border-b border-border bg-muted/30">
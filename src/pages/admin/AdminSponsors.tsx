@@ -11,11 +11,14 @@ import {
   XCircle,
   MagnifyingGlass,
   Plus,
+  UploadSimple,
   EnvelopeSimple,
   Globe,
   User,
   CurrencyDollar,
   Clock,
+  UserCircle,
+  PaperPlaneTilt,
 } from '@phosphor-icons/react'
 import {
   Tooltip,
@@ -31,7 +34,8 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { AddSponsorModal } from '@/components/admin'
+import { AddSponsorModal, DirectoryImportDialog, PortalInviteDialog } from '@/components/admin'
+import type { PortalInviteTarget } from '@/components/admin'
 
 type SponsorStatus = 'pending' | 'approved' | 'rejected'
 
@@ -55,6 +59,8 @@ export function AdminSponsors() {
   const [rejectReason, setRejectReason] = useState('')
   const [showRejectModal, setShowRejectModal] = useState(false)
   const [showAddModal, setShowAddModal] = useState(false)
+  const [showImportModal, setShowImportModal] = useState(false)
+  const [portalInvite, setPortalInvite] = useState<PortalInviteTarget | null>(null)
 
   // Get all sponsors to calculate counts
   const allSponsors = useQuery(api.sponsors.listForAdmin, {})
@@ -145,17 +151,30 @@ export function AdminSponsors() {
             Review and manage sponsor applications
           </p>
         </div>
-        <button
-          onClick={() => setShowAddModal(true)}
-          className={cn(
-            'flex items-center gap-2 px-4 py-2 rounded-lg',
-            'bg-primary text-primary-foreground font-medium text-sm',
-            'hover:bg-primary/90 transition-colors cursor-pointer'
-          )}
-        >
-          <Plus size={18} weight="bold" />
-          Add Sponsor
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowImportModal(true)}
+            className={cn(
+              'flex items-center gap-2 px-4 py-2 rounded-lg',
+              'border border-border font-medium text-sm',
+              'hover:bg-muted transition-colors cursor-pointer'
+            )}
+          >
+            <UploadSimple size={18} weight="bold" />
+            Import
+          </button>
+          <button
+            onClick={() => setShowAddModal(true)}
+            className={cn(
+              'flex items-center gap-2 px-4 py-2 rounded-lg',
+              'bg-primary text-primary-foreground font-medium text-sm',
+              'hover:bg-primary/90 transition-colors cursor-pointer'
+            )}
+          >
+            <Plus size={18} weight="bold" />
+            Add Sponsor
+          </button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -289,6 +308,12 @@ export function AdminSponsors() {
                           >
                             {status.label}
                           </span>
+                          {sponsor.userId && (
+                            <span className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full bg-primary/10 text-primary">
+                              <UserCircle size={12} weight="bold" />
+                              Portal linked
+                            </span>
+                          )}
                         </div>
                         <div className="flex items-center gap-2 text-sm text-muted-foreground">
                           <span className="capitalize">{sponsor.industry}</span>
@@ -404,6 +429,20 @@ export function AdminSponsors() {
                         </TooltipProvider>
                       </div>
                     )}
+                    {sponsor.status === 'approved' && !sponsor.userId && (
+                      <button
+                        onClick={() =>
+                          setPortalInvite({ sponsorId: sponsor._id, name: sponsor.name, email: sponsor.contactEmail })
+                        }
+                        className={cn(
+                          'flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium',
+                          'bg-primary/10 text-primary hover:bg-primary hover:text-primary-foreground transition-all cursor-pointer'
+                        )}
+                      >
+                        <PaperPlaneTilt size={16} weight="bold" />
+                        Invite to portal
+                      </button>
+                    )}
                   </div>
                 </div>
 
@@ -472,6 +511,12 @@ export function AdminSponsors() {
 
       {/* Add Sponsor Modal */}
       <AddSponsorModal open={showAddModal} onOpenChange={setShowAddModal} />
+
+      {/* Import Sponsors Modal */}
+      <DirectoryImportDialog kind="sponsor" open={showImportModal} onOpenChange={setShowImportModal} />
+
+      {/* Portal Invite Modal */}
+      <PortalInviteDialog target={portalInvite} onClose={() => setPortalInvite(null)} />
     </div>
   )
 }
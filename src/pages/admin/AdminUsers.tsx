@@ -1,5 +1,5 @@
 import { useState, useMemo, useCallback } from 'react'
-import { useQuery, useMutation } from 'convex/react'
+import { useQuery, useMutation, usePaginatedQuery } from 'convex/react'
 import { api } from '../../../convex/_generated/api'
 import type { Id } from '../../../convex/_generated/dataModel'
 import { cn } from '@/lib/utils'
@@ -18,6 +18,8 @@ import {
   Crown,
   Trash,
   CaretDown,
+  Storefront,
+  Handshake,
 } from '@phosphor-icons/react'
 import {
   Tooltip,
@@ -42,7 +44,7 @@ import {
 } from '@/components/ui/dropdown-menu'
 
 type UserStatus = 'active' | 'suspended' | 'pending'
-type UserRole = 'admin' | 'organizer' | 'superadmin'
+type UserRole = 'admin' | 'organizer' | 'superadmin' | 'vendor' | 'sponsor'
 
 const statusConfig: Record<UserStatus, { bg: string; text: string; label: string; description: string }> = {
   active: { bg: 'bg-green-500/10', text: 'text-green-600', label: 'Active', description: 'User has full access' },
@@ -54,6 +56,8 @@ const roleConfig: Record<UserRole, { bg: string; text: string; icon: typeof Shie
   superadmin: { bg: 'bg-purple-500/10', text: 'text-purple-600', icon: Crown, description: 'Full platform access' },
   admin: { bg: 'bg-amber-500/10', text: 'text-amber-600', icon: ShieldCheck, description: 'Manage users & content' },
   organizer: { bg: 'bg-blue-500/10', text: 'text-blue-600', icon: UserCircle, description: 'Create & manage events' },
+  vendor: { bg: 'bg-orange-500/10', text: 'text-orange-600', icon: Storefront, description: 'Vendor portal account' },
+  sponsor: { bg: 'bg-pink-500/10', text: 'text-pink-600', icon: Handshake, description: 'Sponsor portal account' },
 }
 
 const statusFilters = [
@@ -67,12 +71,14 @@ const roleFilters = [
   { value: 'all', label: 'All Roles' },
   { value: 'admin', label: 'Admins' },
   { value: 'organizer', label: 'Organizers' },
+  { value: 'vendor', label: 'Vendors' },
+  { value: 'sponsor', label: 'Sponsors' },
 ] as const
 
 export function AdminUsers() {
   const [searchQuery, setSearchQuery] = useState('')
   const [statusFilter, setStatusFilter] = useState<UserStatus | 'all'>('all')
-  const [roleFilter, setRoleFilter] = useState<'all' | 'admin' | 'organizer'>('all')
+  const [roleFilter, setRoleFilter] = useState<'all' | 'admin' | 'organizer' | 'vendor' | 'sponsor'>('all')
   const [showCreateModal, setShowCreateModal] = useState(false)
   const [showRemoveModal, setShowRemoveModal] = useState(false)
   const [showSuspendModal, setShowSuspendModal] = useState(false)
@@ -86,19 +92,23 @@ export function AdminUsers() {
   const currentUser = useQuery(api.queries.auth.getCurrentUser)
   const isSuperadmin = currentUser?.role === 'superadmin'
 
-  // Pagination state
-  const [offset, setOffset] = useState(0)
+  // Pagination
   const PAGE_SIZE = 20
 
   // Get counts for stats (lightweight query)
   const userCounts = useQuery(api.admin.getUserCounts)
 
-  // Get paginated users with filters
-  const usersResult = useQuery(
+  // Get paginated users with filters (pages restart when the filters change)
+  const {
+    results: users,
+    status: usersStatus,
+    loadMore,
+  } = usePaginatedQuery(
     api.admin.listAllUsersPaginated,
     roleFilter === 'all'
-      ? { status: statusFilter === 'all' ? undefined : statusFilter, limit: PAGE_SIZE, offset }
-      : { role: roleFilter, status: statusFilter === 'all' ? undefined : statusFilter, limit: PAGE_SIZE, offset }
+      ? { status: statusFilter === 'all' ? undefined : statusFilter }
+      : { role: roleFilter, status: statusFilter === 'all' ? undefined : statusFilter },
+    { initialNumItems: PAGE_SIZE }
   )
 
   const admins = useQuery(api.admin.listAdmins)
@@ -108,11 +118,9 @@ export function AdminUsers() {
   const suspendUser = useMutation(api.moderation.suspendUser)
   const unsuspendUser = useMutation(api.moderation.unsuspendUser)
 
-  // Reset pagination when filters change
   const handleFilterChange = useCallback((type: 'role' | 'status', value: string) => {
-    setOffset(0)
     if (type === 'role') {
-      setRoleFilter(value as 'all' | 'admin' | 'organizer')
+      setRoleFilter(value as 'all' | 'admin' | 'organizer' | 'vendor' | 'sponsor')
     } else {
       setStatusFilter(value as 'all' | 'active' | 'suspended' | 'pending')
     }
@@ -130,21 +138,18 @@ export function AdminUsers() {
 
   // Filter users by search query with useMemo
   const filteredUsers = useMemo(() => {
-    if (!usersResult?.items) return []
-    if (!searchQuery.trim()) return usersResult.items
+    if (!searchQuery.trim()) return users
     const search = searchQuery.toLowerCase()
-    return usersResult.items.filter((u) =>
+    return users.filter((u) =>
       u.name?.toLowerCase().includes(search) ||
       u.email?.toLowerCase().includes(search)
     )
-  }, [usersResult, searchQuery])
+  }, [users, searchQuery])
 
   // Load more handler
   const handleLoadMore = useCallback(() => {
-    if (usersResult?.hasMore) {
-      setOffset((prev) => prev + PAGE_SIZE)
-    }
-  }, [usersResult?.hasMore])
+    loadMore(PAGE_SIZE)
+  }, [loadMore])
 
   const handleCreateAdmin = async () => {
     if (!newAdminEmail.trim() || !newAdminName.trim()) {
@@ -391,7 +396,7 @@ export function AdminUsers() {
 
       {/* Users List */}
       <div className="space-y-3">
-        {!usersResult ? (
+        {usersStatus === 'LoadingFirstPage' ? (
           <div className="space-y-3">
             {[1, 2, 3].map((i) => (
               <div key={i} className="rounded-xl border border-border bg-card p-5 animate-pulse">
@@ -545,7 +550,7 @@ export function AdminUsers() {
         )}
 
         {/* Load More Button */}
-        {usersResult?.hasMore && (
+        {usersStatus === 'CanLoadMore' && (
           <div className="flex justify-center pt-4">
             <button
               onClick={handleLoadMore}
@@ -557,11 +562,9 @@ export function AdminUsers() {
             >
               <CaretDown size={16} weight="bold" />
               Load More
-              {usersResult.totalCount && (
-                <span className="text-muted-foreground">
-                  ({filteredUsers.length} of {usersResult.totalCount})
-                </span>
-              )}
+              <span className="text-muted-foreground">
+                ({users.length} loaded)
+              </span>
             </button>
           </div>
         )}
@@ -11,11 +11,14 @@ import {
   XCircle,
   MagnifyingGlass,
   Plus,
+  UploadSimple,
   EnvelopeSimple,
   Phone,
   Globe,
   MapPin,
   Clock,
+  UserCircle,
+  PaperPlaneTilt,
 } from '@phosphor-icons/react'
 import {
   Tooltip,
@@ -31,7 +34,8 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { AddVendorModal } from '@/components/admin'
+import { AddVendorModal, DirectoryImportDialog, PortalInviteDialog } from '@/components/admin'
+import type { PortalInviteTarget } from '@/components/admin'
 
 type VendorStatus = 'pending' | 'approved' | 'rejected'
 
@@ -55,6 +59,8 @@ export function AdminVendors() {
   const [rejectReason, setRejectReason] = useState('')
   const [showRejectModal, setShowRejectModal] = useState(false)
   const [showAddModal, setShowAddModal] = useState(false)
+  const [showImportModal, setShowImportModal] = useState(false)
+  const [portalInvite, setPortalInvite] = useState<PortalInviteTarget | null>(null)
 
   // Get all vendors to calculate counts
   const allVendors = useQuery(api.vendors.listForAdmin, {})
@@ -134,17 +140,30 @@ export function AdminVendors() {
             Review and manage vendor applications
           </p>
         </div>
-        <button
-          onClick={() => setShowAddModal(true)}
-          className={cn(
-            'flex items-center gap-2 px-4 py-2 rounded-lg',
-            'bg-primary text-primary-foreground font-medium text-sm',
-            'hover:bg-primary/90 transition-colors cursor-pointer'
-          )}
-        >
-          <Plus size={18} weight="bold" />
-          Add Vendor
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowImportModal(true)}
+            className={cn(
+              'flex items-center gap-2 px-4 py-2 rounded-lg',
+              'border border-border font-medium text-sm',
+              'hover:bg-muted transition-colors cursor-pointer'
+            )}
+          >
+            <UploadSimple size={18} weight="bold" />
+            Import
+          </button>
+          <button
+            onClick={() => setShowAddModal(true)}
+            className={cn(
+              'flex items-center gap-2 px-4 py-2 rounded-lg',
+              'bg-primary text-primary-foreground font-medium text-sm',
+              'hover:bg-primary/90 transition-colors cursor-pointer'
+            )}
+          >
+            <Plus size={18} weight="bold" />
+            Add Vendor
+          </button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -268,6 +287,12 @@ export function AdminVendors() {
                           >
                             {status.label}
                           </span>
+                          {vendor.userId && (
+                            <span className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full bg-primary/10 text-primary">
+                              <UserCircle size={12} weight="bold" />
+                              Portal linked
+                            </span>
+                          )}
                         </div>
                         <div className="flex items-center gap-2 text-sm text-muted-foreground">
                           <span className="capitalize">{vendor.category}</span>
@@ -368,6 +393,20 @@ export function AdminVendors() {
                         </TooltipProvider>
                       </div>
                     )}
+                    {vendor.status === 'approved' && !vendor.userId && (
+                      <button
+                        onClick={() =>
+                          setPortalInvite({ vendorId: vendor._id, name: vendor.name, email: vendor.contactEmail })
+                        }
+                        className={cn(
+                          'flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium',
+                          'bg-primary/10 text-primary hover:bg-primary hover:text-primary-foreground transition-all cursor-pointer'
+                        )}
+                      >
+                        <PaperPlaneTilt size={16} weight="bold" />
+                        Invite to portal
+                      </button>
+                    )}
                   </div>
                 </div>
 
@@ -436,6 +475,12 @@ export function AdminVendors() {
 
       {/* Add Vendor Modal */}
       <AddVendorModal open={showAddModal} onOpenChange={setShowAddModal} />
+
+      {/* Import Vendors Modal */}
+      <DirectoryImportDialog kind="vendor" open={showImportModal} onOpenChange={setShowImportModal} />
+
+      {/* Portal Invite Modal */}
+      <PortalInviteDialog target={portalInvite} onClose={() => setPortalInvite(null)} />
     </div>
   )
 }
@@ -16,8 +16,16 @@ import {
   TrendUp,
   TrendDown,
   Funnel,
+  CalendarBlank,
+  HandCoins,
+  UploadSimple,
+  DownloadSimple,
 } from '@phosphor-icons/react'
 import { cn } from '@/lib/utils'
+import { formatCurrency } from '@/lib/constants'
+import { formatDate } from '@/lib/formatters'
+import { downloadSpreadsheet, type ImportField, type Sheet } from '@/lib/spreadsheet'
+import { SpreadsheetImportDialog } from '@/components/app'
 import { toast } from 'sonner'
 import {
   Dialog,
@@ -36,6 +44,12 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 
 const BUDGET_CATEGORIES = [
   { value: 'venue', label: 'Venue & Facilities' },
@@ -57,6 +71,20 @@ const STATUS_OPTIONS = [
   { value: 'cancelled', label: 'Cancelled', color: 'bg-red-500/10 text-red-600' },
 ]
 
+// Spreadsheet columns for import and export
+const IMPORT_FIELDS: ImportField<
+  'name' | 'category' | 'estimatedAmount' | 'actualAmount' | 'currency' | 'status' | 'description' | 'notes'
+>[] = [
+  { key: 'name', label: 'Name', required: true, aliases: ['item', 'description of item', 'line item'] },
+  { key: 'category', label: 'Category', required: true, aliases: ['type'] },
+  { key: 'estimatedAmount', label: 'Estimated', required: true, aliases: ['estimate', 'budget', 'amount', 'cost'] },
+  { key: 'actualAmount', label: 'Actual', aliases: ['actual cost', 'spent'] },
+  { key: 'currency', label: 'Currency' },
+  { key: 'status', label: 'Status' },
+  { key: 'description', label: 'Description', aliases: ['details'] },
+  { key: 'notes', label: 'Notes', aliases: ['comments'] },
+]
+
 type BudgetItemForm = {
   category: string
   name: string
@@ -64,9 +92,18 @@ type BudgetItemForm = {
   estimatedAmount: string
   actualAmount: string
   status: 'planned' | 'committed' | 'paid' | 'cancelled'
+  // Empty means the event currency
+  currency: string
   notes: string
 }
 
+const PAYMENT_METHODS = [
+  { value: 'bank', label: 'Bank transfer' },
+  { value: 'card', label: 'Card' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'invoice', label: 'Invoice' },
+]
+
 const defaultForm: BudgetItemForm = {
   category: 'venue',
   name: '',
@@ -74,6 +111,7 @@ const defaultForm: BudgetItemForm = {
   estimatedAmount: '',
   actualAmount: '',
   status: 'planned',
+  currency: '',
   notes: '',
 }
 
@@ -84,6 +122,7 @@ export function EventBudgetPage() {
   const [form, setForm] = useState<BudgetItemForm>(defaultForm)
   const [categoryFilter, setCategoryFilter] = useState<string>('all')
   const [isSaving, setIsSaving] = useState(false)
+  const [showImport, setShowImport] = useState(false)
 
   const event = useQuery(
     api.events.get,
@@ -100,9 +139,12 @@ export function EventBudgetPage() {
     eventId ? { eventId: eventId as Id<'events'> } : 'skip'
   )
 
+  const currencies = useQuery(api.exchangeRates.listCurrencies)
+
   const createItem = useMutation(api.budgetItems.create)
   const updateItem = useMutation(api.budgetItems.update)
   const deleteItem = useMutation(api.budgetItems.remove)
+  const importItems = useMutation(api.budgetItems.importItems)
 
   const openAddModal = () => {
     setForm(defaultForm)
@@ -118,6 +160,7 @@ export function EventBudgetPage() {
       estimatedAmount: item.estimatedAmount.toString(),
       actualAmount: item.actualAmount?.toString() || '',
       status: item.status as BudgetItemForm['status'],
+      currency: item.currency || '',
       notes: item.notes || '',
     })
     setEditingItem(item._id)
@@ -141,6 +184,7 @@ export function EventBudgetPage() {
           estimatedAmount: parseFloat(form.estimatedAmount),
           actualAmount: form.actualAmount ? parseFloat(form.actualAmount) : undefined,
           status: form.status,
+          currency: form.currency || undefined,
           notes: form.notes.trim() || undefined,
         })
         toast.success('Budget item updated')
@@ -153,6 +197,7 @@ export function EventBudgetPage() {
           estimatedAmount: parseFloat(form.estimatedAmount),
           actualAmount: form.actualAmount ? parseFloat(form.actualAmount) : undefined,
           status: form.status,
+          currency: form.currency || undefined,
           notes: form.notes.trim() || undefined,
         })
         toast.success('Budget item added')
@@ -177,13 +222,50 @@ export function EventBudgetPage() {
     }
   }
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount)
+  // Items plus the getSummary totals, as one sheet each
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    if (!event || !budgetItems) return
+
+    const eventCurrency = event.budgetCurrency?.toUpperCase() || 'USD'
+    const sheets: Sheet[] = [
+      {
+        name: 'Budget Items',
+        rows: [
+          ['Name', 'Category', 'Status', 'Estimated', 'Actual', 'Currency', 'Paid At', 'Invoice Number', 'Description', 'Notes'],
+          ...budgetItems.map((item) => [
+            item.name,
+            BUDGET_CATEGORIES.find((c) => c.value === item.category)?.label ?? item.category,
+            item.status,
+            item.estimatedAmount,
+            item.actualAmount,
+            item.currency ?? eventCurrency,
+            item.paidAt ? new Date(item.paidAt).toISOString().slice(0, 10) : undefined,
+            item.invoiceNumber,
+            item.description,
+            item.notes,
+          ]),
+        ],
+      },
+    ]
+    if (summary) {
+      sheets.push({
+        name: 'Summary',
+        rows: [
+          ['Total', `Amount (${summary.currency})`],
+          ['Event budget', summary.eventBudget],
+          ['Total estimated', summary.totalEstimated],
+          ['Total actual', summary.totalActual],
+          ['Total committed', summary.totalCommitted],
+          ['Total paid', summary.totalPaid],
+          ['Remaining', summary.remaining],
+          ['Variance', summary.variance],
+          ['Active items', summary.itemCount],
+        ],
+      })
+    }
+
+    const slug = event.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'event'
+    downloadSpreadsheet(`${slug}-budget`, format, sheets)
   }
 
   // Loading state
@@ -225,6 +307,10 @@ export function EventBudgetPage() {
 
   const activeItems = filteredItems.filter((i) => i.status !== 'cancelled')
 
+  const eventCurrency = event.budgetCurrency?.toUpperCase() || 'USD'
+  const formCurrency = form.currency || eventCurrency
+  const currencyOptions = [...new Set([eventCurrency, formCurrency, ...(currencies ?? [])])].sort()
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -242,19 +328,63 @@ export function EventBudgetPage() {
           </div>
         </div>
 
-        <button
-          onClick={openAddModal}
-          className={cn(
-            'inline-flex items-center gap-2 px-4 py-2.5 rounded-lg',
-            'bg-primary text-primary-foreground font-medium text-sm',
-            'hover:bg-primary/90 transition-colors'
-          )}
-        >
-          <Plus size={18} weight="bold" />
-          Add Budget Item
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowImport(true)}
+            className={cn(
+              'inline-flex items-center gap-2 px-4 py-2.5 rounded-lg',
+              'border border-border text-sm font-medium',
+              'hover:bg-muted transition-colors'
+            )}
+          >
+            <UploadSimple size={18} weight="bold" />
+            Import
+          </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                disabled={budgetItems.length === 0}
+                className={cn(
+                  'inline-flex items-center gap-2 px-4 py-2.5 rounded-lg',
+                  'border border-border text-sm font-medium',
+                  'hover:bg-muted transition-colors',
+                  'disabled:opacity-50 disabled:cursor-not-allowed'
+                )}
+              >
+                <DownloadSimple size={18} weight="bold" />
+                Export
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport('csv')}>CSV</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('xlsx')}>Excel (.xlsx)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <button
+            onClick={openAddModal}
+            className={cn(
+              'inline-flex items-center gap-2 px-4 py-2.5 rounded-lg',
+              'bg-primary text-primary-foreground font-medium text-sm',
+              'hover:bg-primary/90 transition-colors'
+            )}
+          >
+            <Plus size={18} weight="bold" />
+            Add Budget Item
+          </button>
+        </div>
       </div>
 
+      <SpreadsheetImportDialog
+        title="Import Budget Items"
+        itemLabel="budget items"
+        fields={IMPORT_FIELDS}
+        open={showImport}
+        onOpenChange={setShowImport}
+        onImport={(rows, dryRun, decimalSeparator) =>
+          importItems({ eventId: event._id, rows, dryRun, decimalSeparator })
+        }
+      />
+
       {/* Summary Cards */}
       {summary && (
         <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
@@ -263,13 +393,13 @@ export function EventBudgetPage() {
               <CurrencyDollar size={16} weight="bold" />
               <span className="text-xs font-medium">Event Budget</span>
             </div>
-            <p className="text-2xl font-bold font-mono">{formatCurrency(summary.eventBudget)}</p>
+            <p className="text-2xl font-bold font-mono">{formatCurrency(summary.eventBudget, summary.currency)}</p>
             {summary.remaining !== 0 && (
               <p className={cn(
                 'text-xs mt-1',
                 summary.remaining < 0 ? 'text-red-500' : 'text-green-500'
               )}>
-                {summary.remaining > 0 ? '+' : ''}{formatCurrency(summary.remaining)} remaining
+                {summary.remaining > 0 ? '+' : ''}{formatCurrency(summary.remaining, summary.currency)} remaining
               </p>
             )}
           </div>
@@ -279,7 +409,7 @@ export function EventBudgetPage() {
               <Clock size={16} weight="bold" />
               <span className="text-xs font-medium">Total Estimated</span>
             </div>
-            <p className="text-2xl font-bold font-mono">{formatCurrency(summary.totalEstimated)}</p>
+            <p className="text-2xl font-bold font-mono">{formatCurrency(summary.totalEstimated, summary.currency)}</p>
             <p className="text-xs text-muted-foreground mt-1">
               {summary.itemCount} items
             </p>
@@ -290,9 +420,9 @@ export function EventBudgetPage() {
               <CheckCircle size={16} weight="bold" />
               <span className="text-xs font-medium">Total Paid</span>
             </div>
-            <p className="text-2xl font-bold font-mono text-green-600">{formatCurrency(summary.totalPaid)}</p>
+            <p className="text-2xl font-bold font-mono text-green-600">{formatCurrency(summary.totalPaid, summary.currency)}</p>
             <p className="text-xs text-muted-foreground mt-1">
-              {formatCurrency(summary.totalCommitted)} committed
+              {formatCurrency(summary.totalCommitted, summary.currency)} committed
             </p>
           </div>
 
@@ -309,7 +439,7 @@ export function EventBudgetPage() {
               'text-2xl font-bold font-mono',
               summary.variance > 0 ? 'text-red-500' : summary.variance < 0 ? 'text-green-500' : ''
             )}>
-              {summary.variance > 0 ? '+' : ''}{formatCurrency(summary.variance)}
+              {summary.variance > 0 ? '+' : ''}{formatCurrency(summary.variance, summary.currency)}
             </p>
             <p className="text-xs text-muted-foreground mt-1">
               {summary.variancePercent > 0 ? '+' : ''}{summary.variancePercent.toFixed(1)}% from estimate
@@ -318,6 +448,33 @@ export function EventBudgetPage() {
         </div>
       )}
 
+      {summary && summary.reporting.currency !== summary.currency && (
+        <p className="text-sm text-muted-foreground">
+          In {summary.reporting.currency}:{' '}
+          {formatCurrency(summary.reporting.totalEstimated, summary.reporting.currency)} estimated,{' '}
+          {formatCurrency(summary.reporting.totalPaid, summary.reporting.currency)} paid
+          {summary.reporting.eventBudget !== null &&
+            ` of ${formatCurrency(summary.reporting.eventBudget, summary.reporting.currency)} budget`}
+        </p>
+      )}
+
+      {summary && (summary.missingRates.length > 0 || summary.reporting.missingRates.length > 0) && (
+        <div className="flex items-start gap-2 p-3 rounded-lg border border-amber-500/30 bg-amber-500/10 text-sm text-amber-700 dark:text-amber-400">
+          <Warning size={16} weight="bold" className="mt-0.5 shrink-0" />
+          <p>
+            No exchange rate for{' '}
+            {[...new Set([...summary.missingRates, ...summary.reporting.missingRates])].join(', ')}.
+            Items needing these rates are left out of the totals until an admin adds them.
+          </p>
+        </div>
+      )}
+
+      {/* Income & Profit and Loss */}
+      <RevenueLedger eventId={event._id} eventCurrency={eventCurrency} />
+
+      {/* Vendor Payment Schedule */}
+      <PaymentSchedule eventId={event._id} eventCurrency={eventCurrency} />
+
       {/* Category Filter */}
       <div className="flex flex-wrap items-center gap-2">
         <Funnel size={16} className="text-muted-foreground" />
@@ -397,20 +554,23 @@ export function EventBudgetPage() {
                         {statusInfo?.label}
                       </span>
                     </div>
-                    <p className="text-sm text-muted-foreground">{category?.label}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {category?.label}
+                      {item.currency && item.currency !== eventCurrency && ` · ${item.currency}`}
+                    </p>
                     {item.description && (
                       <p className="text-sm text-muted-foreground mt-1 line-clamp-1">{item.description}</p>
                     )}
                   </div>
 
                   <div className="text-right">
-                    <p className="font-mono font-bold">{formatCurrency(item.estimatedAmount)}</p>
+                    <p className="font-mono font-bold">{formatCurrency(item.estimatedAmount, item.currency ?? eventCurrency)}</p>
                     {item.actualAmount !== undefined && item.actualAmount !== item.estimatedAmount && (
                       <p className={cn(
                         'text-sm font-mono',
                         variance > 0 ? 'text-red-500' : 'text-green-500'
                       )}>
-                        Actual: {formatCurrency(item.actualAmount)}
+                        Actual: {formatCurrency(item.actualAmount, item.currency ?? eventCurrency)}
                       </p>
                     )}
                   </div>
@@ -520,18 +680,37 @@ export function EventBudgetPage() {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label>Currency</Label>
+              <Select
+                value={formCurrency}
+                onValueChange={(value) => setForm({ ...form, currency: value === eventCurrency ? '' : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {currencyOptions.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code === eventCurrency ? `${code} (event currency)` : code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label>Estimated Amount *</Label>
                 <div className="relative">
-                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">{formCurrency}</span>
                   <input
                     type="number"
                     value={form.estimatedAmount}
                     onChange={(e) => setForm({ ...form, estimatedAmount: e.target.value })}
                     placeholder="0"
                     className={cn(
-                      'w-full pl-7 pr-3 py-2 rounded-lg border border-border bg-background',
+                      'w-full pl-12 pr-3 py-2 rounded-lg border border-border bg-background',
                       'focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary',
                       'text-sm'
                     )}
@@ -542,14 +721,14 @@ export function EventBudgetPage() {
               <div className="space-y-2">
                 <Label>Actual Amount</Label>
                 <div className="relative">
-                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">{formCurrency}</span>
                   <input
                     type="number"
                     value={form.actualAmount}
                     onChange={(e) => setForm({ ...form, actualAmount: e.target.value })}
                     placeholder="0"
                     className={cn(
-                      'w-full pl-7 pr-3 py-2 rounded-lg border border-border bg-background',
+                      'w-full pl-12 pr-3 py-2 rounded-lg border border-border bg-background',
                       'focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary',
                       'text-sm'
                     )}
@@ -593,3 +772,656 @@ export function EventBudgetPage() {
     </div>
   )
 }
+
+const REVENUE_SOURCES = [
+  { value: 'tickets', label: 'Tickets' },
+  { value: 'other', label: 'Other income' },
+]
+
+type RevenueForm = {
+  source: 'tickets' | 'other'
+  name: string
+  expectedAmount: string
+  receivedAmount: string
+}
+
+const defaultRevenueForm: RevenueForm = {
+  source: 'tickets',
+  name: '',
+  expectedAmount: '',
+  receivedAmount: '',
+}
+
+const inputClassName = cn(
+  'w-full px-3 py-2 rounded-lg border border-border bg-background',
+  'focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary',
+  'text-sm'
+)
+
+// Sponsorship, ticket and other income against costs, with receipts per line
+function RevenueLedger({ eventId, eventCurrency }: { eventId: Id<'events'>; eventCurrency: string }) {
+  const [showAdd, setShowAdd] = useState(false)
+  const [form, setForm] = useState<RevenueForm>(defaultRevenueForm)
+  const [receiptFor, setReceiptFor] = useState<Id<'revenueItems'> | null>(null)
+  const [receipt, setReceipt] = useState({ amount: '', receivedAt: '' })
+  const [isSaving, setIsSaving] = useState(false)
+
+  const ledger = useQuery(api.revenueItems.listByEvent, { eventId })
+  const pnl = useQuery(api.revenueItems.getProfitAndLoss, { eventId })
+  const createLine = useMutation(api.revenueItems.create)
+  const recordReceipt = useMutation(api.revenueItems.recordReceipt)
+  const trackSponsor = useMutation(api.revenueItems.trackSponsor)
+  const removeLine = useMutation(api.revenueItems.remove)
+
+  if (!ledger || !pnl) return null
+
+  const money = (amount: number, currency?: string) => formatCurrency(amount, currency ?? pnl.currency)
+  const lines = ledger.items.filter((item) => item.status !== 'cancelled')
+  const tiers = Object.entries(pnl.income.sponsorship.byTier)
+
+  const handleAdd = async () => {
+    setIsSaving(true)
+    try {
+      await createLine({
+        eventId,
+        source: form.source,
+        name: form.name.trim(),
+        expectedAmount: parseFloat(form.expectedAmount),
+        receivedAmount: form.receivedAmount ? parseFloat(form.receivedAmount) : undefined,
+      })
+      toast.success('Income line added')
+      setShowAdd(false)
+      setForm(defaultRevenueForm)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add income')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleReceipt = async () => {
+    if (!receiptFor) return
+    setIsSaving(true)
+    try {
+      await recordReceipt({
+        id: receiptFor,
+        amount: parseFloat(receipt.amount),
+        receivedAt: receipt.receivedAt ? new Date(`${receipt.receivedAt}T12:00:00`).getTime() : undefined,
+      })
+      toast.success('Payment received')
+      setReceiptFor(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to record payment')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleTrack = async (eventSponsorId: Id<'eventSponsors'>) => {
+    try {
+      await trackSponsor({ eventSponsorId })
+      toast.success('Sponsor added to income')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add sponsor')
+    }
+  }
+
+  const handleRemove = async (id: Id<'revenueItems'>) => {
+    if (!confirm('Delete this income line?')) return
+    try {
+      await removeLine({ id })
+      toast.success('Income line deleted')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete')
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-border bg-card overflow-hidden">
+      <div className="flex items-center justify-between gap-3 p-4 border-b border-border">
+        <div className="flex items-center gap-2">
+          <HandCoins size={18} weight="bold" className="text-muted-foreground" />
+          <h2 className="font-semibold">Income & Profit</h2>
+        </div>
+        <button
+          onClick={() => {
+            setForm(defaultRevenueForm)
+            setShowAdd(true)
+          }}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-border text-sm hover:bg-muted/50 transition-colors cursor-pointer"
+        >
+          <Plus size={14} weight="bold" />
+          Add Income
+        </button>
+      </div>
+
+      {/* P&L */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 p-4 border-b border-border">
+        <div>
+          <p className="text-xs text-muted-foreground">Committed income</p>
+          <p className="text-lg font-bold font-mono">{money(pnl.income.totalCommitted)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Received</p>
+          <p className="text-lg font-bold font-mono text-green-600">{money(pnl.income.totalReceived)}</p>
+          {pnl.income.outstanding > 0 && (
+            <p className="text-xs text-muted-foreground">{money(pnl.income.outstanding)} outstanding</p>
+          )}
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Projected profit</p>
+          <p className={cn('text-lg font-bold font-mono', pnl.projectedProfit < 0 && 'text-red-500')}>
+            {money(pnl.projectedProfit)}
+          </p>
+          <p className="text-xs text-muted-foreground">{pnl.projectedMargin.toFixed(1)}% margin</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Realized profit</p>
+          <p className={cn('text-lg font-bold font-mono', pnl.realizedProfit < 0 && 'text-red-500')}>
+            {money(pnl.realizedProfit)}
+          </p>
+          <p className="text-xs text-muted-foreground">Received less paid costs</p>
+        </div>
+      </div>
+
+      {(tiers.length > 0 || pnl.reporting) && (
+        <div className="px-4 py-3 border-b border-border text-xs text-muted-foreground space-y-1">
+          {tiers.length > 0 && (
+            <p>
+              Sponsorship:{' '}
+              {tiers
+                .map(([tier, totals]) => `${tier} ${money(totals.received)} of ${money(totals.committed)}`)
+                .join(' · ')}
+            </p>
+          )}
+          {pnl.reporting && (
+            <p>
+              In {pnl.reporting.currency}: projected profit{' '}
+              {formatCurrency(pnl.reporting.projectedProfit, pnl.reporting.currency)}, realized{' '}
+              {formatCurrency(pnl.reporting.realizedProfit, pnl.reporting.currency)}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Lines */}
+      {lines.length > 0 && (
+        <div className="divide-y divide-border">
+          {lines.map((line) => (
+            <div key={line._id} className="flex items-center justify-between gap-4 p-4">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{line.name}</p>
+                <p className="text-xs text-muted-foreground capitalize">
+                  {line.source}
+                  {line.tier && ` · ${line.tier}`}
+                  {line.status === 'received' && ' · Received'}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <div className="text-right">
+                  <p className="font-mono font-bold">{money(line.expectedAmount, line.currency ?? eventCurrency)}</p>
+                  {(line.receivedAmount ?? 0) > 0 && line.status !== 'received' && (
+                    <p className="text-xs font-mono text-green-600">
+                      {money(line.receivedAmount ?? 0, line.currency ?? eventCurrency)} received
+                    </p>
+                  )}
+                </div>
+                {line.status !== 'received' && (
+                  <button
+                    onClick={() => {
+                      const due = line.expectedAmount - (line.receivedAmount ?? 0)
+                      setReceipt({
+                        amount: due > 0 ? String(due) : '',
+                        receivedAt: new Date().toISOString().slice(0, 10),
+                      })
+                      setReceiptFor(line._id)
+                    }}
+                    className="px-3 py-1.5 rounded-lg border border-border text-sm hover:bg-muted/50 transition-colors cursor-pointer"
+                  >
+                    Record receipt
+                  </button>
+                )}
+                {line.source !== 'sponsorship' && (
+                  <button
+                    onClick={() => handleRemove(line._id)}
+                    className="p-2 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+                  >
+                    <Trash size={16} weight="bold" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {ledger.untrackedSponsors.length > 0 && (
+        <div className="p-4 border-t border-border bg-muted/30 space-y-2">
+          {ledger.untrackedSponsors.map((sponsor) => (
+            <div key={sponsor.eventSponsorId} className="flex items-center justify-between gap-4 text-sm">
+              <span className="text-muted-foreground">
+                {sponsor.name} ({sponsor.tier}) committed {money(sponsor.amount, eventCurrency)} but isn't in the ledger
+              </span>
+              <button
+                onClick={() => handleTrack(sponsor.eventSponsorId)}
+                className="px-3 py-1.5 rounded-lg border border-border hover:bg-muted/50 transition-colors cursor-pointer"
+              >
+                Track payments
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Add income */}
+      <Dialog open={showAdd} onOpenChange={setShowAdd}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Add Income</DialogTitle>
+            <DialogDescription>
+              Ticket sales and other income. Sponsorships are added when a sponsor is confirmed.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Source</Label>
+                <Select
+                  value={form.source}
+                  onValueChange={(value) => setForm({ ...form, source: value as RevenueForm['source'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REVENUE_SOURCES.map((source) => (
+                      <SelectItem key={source.value} value={source.value}>
+                        {source.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Name *</Label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g., Early bird tickets"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Expected ({eventCurrency}) *</Label>
+                <input
+                  type="number"
+                  value={form.expectedAmount}
+                  onChange={(e) => setForm({ ...form, expectedAmount: e.target.value })}
+                  placeholder="0"
+                  className={inputClassName}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Received so far</Label>
+                <input
+                  type="number"
+                  value={form.receivedAmount}
+                  onChange={(e) => setForm({ ...form, receivedAmount: e.target.value })}
+                  placeholder="0"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <button
+              onClick={() => setShowAdd(false)}
+              className="px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleAdd}
+              disabled={isSaving || !form.name.trim() || !form.expectedAmount}
+              className={cn(
+                'flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium',
+                'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors',
+                'disabled:opacity-50 disabled:cursor-not-allowed'
+              )}
+            >
+              {isSaving ? 'Saving...' : 'Add Income'}
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Record receipt */}
+      <Dialog open={receiptFor !== null} onOpenChange={(open) => !open && setReceiptFor(null)}>
+        <DialogContent className="sm:max-w-[380px]">
+          <DialogHeader>
+            <DialogTitle>Record Receipt</DialogTitle>
+            <DialogDescription>Add a payment received against this income line.</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4 py-4">
+            <div className="space-y-2">
+              <Label>Amount *</Label>
+              <input
+                type="number"
+                value={receipt.amount}
+                onChange={(e) => setReceipt({ ...receipt, amount: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Received on</Label>
+              <input
+                type="date"
+                value={receipt.receivedAt}
+                onChange={(e) => setReceipt({ ...receipt, receivedAt: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <button
+              onClick={() => setReceiptFor(null)}
+              className="px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleReceipt}
+              disabled={isSaving || !receipt.amount}
+              className={cn(
+                'flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium',
+                'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors',
+                'disabled:opacity-50 disabled:cursor-not-allowed'
+              )}
+            >
+              {isSaving ? 'Saving...' : 'Record'}
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+type PaymentForm = {
+  paidAt: string
+  paidMethod: string
+  invoiceNumber: string
+  receiptUrl: string
+}
+
+// Deposit and balance invoices for confirmed vendors, with overdue highlighting
+function PaymentSchedule({ eventId, eventCurrency }: { eventId: Id<'events'>; eventCurrency: string }) {
+  const [overdueOnly, setOverdueOnly] = useState(false)
+  const [payingId, setPayingId] = useState<Id<'invoices'> | null>(null)
+  const [payment, setPayment] = useState<PaymentForm>({
+    paidAt: '',
+    paidMethod: 'bank',
+    invoiceNumber: '',
+    receiptUrl: '',
+  })
+  const [isSaving, setIsSaving] = useState(false)
+
+  const schedule = useQuery(api.invoices.listByEvent, { eventId, overdueOnly })
+  const generateSchedule = useMutation(api.invoices.generateSchedule)
+  const recordPayment = useMutation(api.invoices.recordPayment)
+  const voidInvoice = useMutation(api.invoices.voidInvoice)
+
+  if (!schedule || (schedule.invoices.length === 0 && schedule.unscheduled.length === 0 && !overdueOnly)) {
+    return null
+  }
+
+  const openPayment = (invoice: (typeof schedule.invoices)[number]) => {
+    setPayment({
+      paidAt: new Date().toISOString().slice(0, 10),
+      paidMethod: 'bank',
+      invoiceNumber: invoice.invoiceNumber || '',
+      receiptUrl: '',
+    })
+    setPayingId(invoice._id)
+  }
+
+  const handleGenerate = async (eventVendorId: Id<'eventVendors'>) => {
+    try {
+      await generateSchedule({ eventVendorId })
+      toast.success('Payment schedule created')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create schedule')
+    }
+  }
+
+  const handleRecordPayment = async () => {
+    if (!payingId) return
+    setIsSaving(true)
+    try {
+      await recordPayment({
+        id: payingId,
+        paidAt: payment.paidAt ? new Date(`${payment.paidAt}T12:00:00`).getTime() : undefined,
+        paidMethod: payment.paidMethod,
+        invoiceNumber: payment.invoiceNumber.trim() || undefined,
+        receiptUrl: payment.receiptUrl.trim() || undefined,
+      })
+      toast.success('Payment recorded')
+      setPayingId(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to record payment')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleVoid = async (id: Id<'invoices'>) => {
+    if (!confirm('Void this invoice?')) return
+    try {
+      await voidInvoice({ id })
+      toast.success('Invoice voided')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to void invoice')
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-border bg-card overflow-hidden">
+      <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-border">
+        <div className="flex items-center gap-2">
+          <CalendarBlank size={18} weight="bold" className="text-muted-foreground" />
+          <h2 className="font-semibold">Vendor Payments</h2>
+          {schedule.overdueCount > 0 && (
+            <span className="px-2 py-0.5 rounded text-xs font-medium bg-red-500/10 text-red-600">
+              {schedule.overdueCount} overdue
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          {[false, true].map((value) => (
+            <button
+              key={String(value)}
+              onClick={() => setOverdueOnly(value)}
+              className={cn(
+                'px-3 py-1.5 rounded-lg text-sm font-medium transition-colors cursor-pointer',
+                overdueOnly === value
+                  ? 'bg-primary/10 text-primary'
+                  : 'text-muted-foreground hover:bg-muted'
+              )}
+            >
+              {value ? 'Overdue' : 'All'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {schedule.invoices.length === 0 ? (
+        <p className="p-4 text-sm text-muted-foreground">
+          {overdueOnly ? 'Nothing overdue.' : 'No invoices yet.'}
+        </p>
+      ) : (
+        <div className="divide-y divide-border">
+          {schedule.invoices.map((invoice) => (
+            <div key={invoice._id} className="flex items-center justify-between gap-4 p-4">
+              <div className="min-w-0">
+                <p className="font-medium truncate">
+                  {invoice.vendorName}
+                  <span className="text-muted-foreground font-normal capitalize"> · {invoice.kind}</span>
+                </p>
+                <p className={cn('text-xs', invoice.isOverdue ? 'text-red-600' : 'text-muted-foreground')}>
+                  {invoice.status === 'paid'
+                    ? `Paid ${formatDate(invoice.paidAt)}`
+                    : invoice.status === 'void'
+                      ? 'Void'
+                      : `${invoice.isOverdue ? 'Overdue since' : 'Due'} ${formatDate(invoice.dueDate)}`}
+                  {invoice.invoiceNumber && ` · #${invoice.invoiceNumber}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <p className={cn('font-mono font-bold', invoice.status === 'void' && 'line-through text-muted-foreground')}>
+                  {formatCurrency(invoice.amount, invoice.currency ?? eventCurrency)}
+                </p>
+                {invoice.status === 'pending' && (
+                  <>
+                    <button
+                      onClick={() => openPayment(invoice)}
+                      className="px-3 py-1.5 rounded-lg border border-border text-sm hover:bg-muted/50 transition-colors cursor-pointer"
+                    >
+                      Record payment
+                    </button>
+                    <button
+                      onClick={() => handleVoid(invoice._id)}
+                      className="p-2 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+                      title="Void invoice"
+                    >
+                      <Trash size={16} weight="bold" />
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!overdueOnly && schedule.unscheduled.length > 0 && (
+        <div className="p-4 border-t border-border bg-muted/30 space-y-2">
+          {schedule.unscheduled.map((engagement) => (
+            <div key={engagement.eventVendorId} className="flex items-center justify-between gap-4 text-sm">
+              <span className="text-muted-foreground">
+                {engagement.vendorName} is confirmed but has no payment schedule
+              </span>
+              <button
+                onClick={() => handleGenerate(engagement.eventVendorId)}
+                className="px-3 py-1.5 rounded-lg border border-border hover:bg-muted/50 transition-colors cursor-pointer"
+              >
+                Create schedule
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={payingId !== null} onOpenChange={(open) => !open && setPayingId(null)}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            <DialogDescription>The linked budget item is updated with these details.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Paid on</Label>
+                <input
+                  type="date"
+                  value={payment.paidAt}
+                  onChange={(e) => setPayment({ ...payment, paidAt: e.target.value })}
+                  className={cn(
+                    'w-full px-3 py-2 rounded-lg border border-border bg-background',
+                    'focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary',
+                    'text-sm'
+                  )}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Method</Label>
+                <Select
+                  value={payment.paidMethod}
+                  onValueChange={(value) => setPayment({ ...payment, paidMethod: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map((method) => (
+                      <SelectItem key={method.value} value={method.value}>
+                        {method.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Invoice Number</Label>
+              <input
+                type="text"
+                value={payment.invoiceNumber}
+                onChange={(e) => setPayment({ ...payment, invoiceNumber: e.target.value })}
+                placeholder="e.g., INV-1042"
+                className={cn(
+                  'w-full px-3 py-2 rounded-lg border border-border bg-background',
+                  'focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary',
+                  'text-sm'
+                )}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Receipt URL</Label>
+              <input
+                type="url"
+                value={payment.receiptUrl}
+                onChange={(e) => setPayment({ ...payment, receiptUrl: e.target.value })}
+                placeholder="https://"
+                className={cn(
+                  'w-full px-3 py-2 rounded-lg border border-border bg-background',
+                  'focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary',
+                  'text-sm'
+                )}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <button
+              onClick={() => setPayingId(null)}
+              className="px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleRecordPayment}
+              disabled={isSaving}
+              className={cn(
+                'flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium',
+                'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors',
+                'disabled:opacity-50 disabled:cursor-not-allowed'
+              )}
+            >
+              {isSaving ? 'Saving...' : 'Record Payment'}
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -23,6 +23,7 @@ import {
   LinkSimple,
   Receipt,
   ListChecks,
+  ShareNetwork,
 } from '@phosphor-icons/react'
 import { cn } from '@/lib/utils'
 import {
@@ -34,11 +35,13 @@ import {
 } from '@/lib/constants'
 import { toast } from 'sonner'
 import { useState } from 'react'
+import { ShareEventDialog } from '@/components/app'
 
 export function EventDetailPage() {
   const { eventId } = useParams<{ eventId: string }>()
   const navigate = useNavigate()
   const [isDeleting, setIsDeleting] = useState(false)
+  const [showShareDialog, setShowShareDialog] = useState(false)
 
   const event = useQuery(
     api.events.get,
@@ -55,6 +58,11 @@ export function EventDetailPage() {
     eventId ? { eventId: eventId as Id<'events'> } : 'skip'
   )
 
+  const myRole = useQuery(
+    api.events.getMyRole,
+    eventId ? { id: eventId as Id<'events'> } : 'skip'
+  )
+
   const deleteEvent = useMutation(api.events.remove)
 
   const handleDelete = async () => {
@@ -152,6 +160,19 @@ export function EventDetailPage() {
         </div>
 
         <div className="flex items-center gap-2 sm:ml-auto flex-wrap">
+          {myRole && (
+            <button
+              onClick={() => setShowShareDialog(true)}
+              className={cn(
+                'inline-flex items-center gap-2 px-4 py-2 rounded-lg',
+                'border border-border text-sm font-medium',
+                'hover:bg-muted transition-colors cursor-pointer'
+              )}
+            >
+              <ShareNetwork size={16} weight="bold" />
+              Share
+            </button>
+          )}
           <Link
             to={`/dashboard/events/${eventId}/tasks`}
             className={cn(
@@ -441,6 +462,14 @@ export function EventDetailPage() {
           </div>
         </div>
       </div>
+
+      <ShareEventDialog
+        eventId={event._id}
+        eventTitle={event.title}
+        canManage={myRole === 'owner'}
+        open={showShareDialog}
+        onOpenChange={setShowShareDialog}
+      />
     </div>
   )
 }
@@ -85,22 +85,29 @@ interface FormData {
   }
 }
 
-// Helper to format timestamp to date string (YYYY-MM-DD)
-function formatDateForInput(timestamp: number): string {
-  const date = new Date(timestamp)
-  return date.toISOString().split('T')[0]
-}
-
-// Helper to format timestamp to time string (HH:MM)
-function formatTimeForInput(timestamp: number): string {
-  const date = new Date(timestamp)
-  return date.toTimeString().slice(0, 5)
-}
-
-// Helper to combine date and time strings into timestamp
-function combineDateTimeToTimestamp(dateStr: string, timeStr: string): number {
-  const dateTime = new Date(`${dateStr}T${timeStr}:00`)
-  return dateTime.getTime()
+// Helper to split a timestamp into date (YYYY-MM-DD) and time (HH:MM) inputs
+// as seen in the event's time zone, so the form shows the event's local time
+function formatDateTimeForInput(timestamp: number, timeZone: string): { date: string; time: string } {
+  let parts: Intl.DateTimeFormatPart[]
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).formatToParts(new Date(timestamp))
+  } catch {
+    // Unknown zone stored on the event: fall back to the browser's
+    return formatDateTimeForInput(timestamp, Intl.DateTimeFormat().resolvedOptions().timeZone)
+  }
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? ''
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${part('hour')}:${part('minute')}`,
+  }
 }
 
 export function EventEditPage() {
@@ -146,16 +153,19 @@ export function EventEditPage() {
   // Populate form when event data loads
   useEffect(() => {
     if (event) {
+      const timezone = event.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone
+      const start = formatDateTimeForInput(event.startDate, timezone)
+      const end = event.endDate ? formatDateTimeForInput(event.endDate, timezone) : null
       setFormData({
         title: event.title || '',
         description: event.description || '',
         eventType: event.eventType || '',
         status: event.status || 'draft',
-        startDate: formatDateForInput(event.startDate),
-        startTime: formatTimeForInput(event.startDate),
-        endDate: event.endDate ? formatDateForInput(event.endDate) : '',
-        endTime: event.endDate ? formatTimeForInput(event.endDate) : '17:00',
-        timezone: event.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone,
+        startDate: start.date,
+        startTime: start.time,
+        endDate: end ? end.date : '',
+        endTime: end ? end.time : '17:00',
+        timezone,
         locationType: event.locationType || 'in-person',
         venueName: event.venueName || '',
         venueAddress: event.venueAddress || '',
@@ -209,19 +219,15 @@ export function EventEditPage() {
 
     setIsSaving(true)
     try {
-      const startTimestamp = combineDateTimeToTimestamp(formData.startDate, formData.startTime)
-      const endTimestamp = formData.endDate
-        ? combineDateTimeToTimestamp(formData.endDate, formData.endTime)
-        : undefined
-
+      // Dates and times are sent as entered; the server reads them in the event's time zone
       await updateEvent({
         id: eventId as Id<'events'>,
         title: formData.title,
         description: formData.description || undefined,
         eventType: formData.eventType || undefined,
         status: formData.status,
-        startDate: startTimestamp,
-        endDate: endTimestamp,
+        startLocal: `${formData.startDate}T${formData.startTime}`,
+        endLocal: formData.endDate ? `${formData.endDate}T${formData.endTime}` : undefined,
         timezone: formData.timezone || undefined,
         locationType: formData.locationType || undefined,
         venueName: formData.venueName || undefined,
@@ -237,8 +243,8 @@ export function EventEditPage() {
       toast.success('Event updated successfully')
       setHasChanges(false)
       navigate(`/dashboard/events/${eventId}`)
-    } catch {
-      toast.error('Failed to update event')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update event')
     } finally {
       setIsSaving(false)
     }
@@ -468,7 +474,7 @@ export function EventEditPage() {
                 className="mt-1.5"
               />
               <p className="text-xs text-muted-foreground mt-1">
-                Auto-detected from your browser
+                Start and end times are in this time zone
               </p>
             </div>
           </div>
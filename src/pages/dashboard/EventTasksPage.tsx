@@ -19,8 +19,13 @@ import {
   Funnel,
   DotsThree,
   CheckCircle,
+  UploadSimple,
+  DownloadSimple,
+  UserCircle,
 } from '@phosphor-icons/react'
 import { cn } from '@/lib/utils'
+import { downloadSpreadsheet, type ImportField, type Sheet } from '@/lib/spreadsheet'
+import { SpreadsheetImportDialog } from '@/components/app'
 import { toast } from 'sonner'
 import {
   Dialog,
@@ -74,6 +79,17 @@ const STATUS_OPTIONS = [
   { value: 'completed', label: 'Completed' },
 ]
 
+// Spreadsheet columns for import and export
+const IMPORT_FIELDS: ImportField<'title' | 'category' | 'priority' | 'status' | 'dueDate' | 'description' | 'notes'>[] = [
+  { key: 'title', label: 'Title', required: true, aliases: ['task', 'name'] },
+  { key: 'category', label: 'Category', aliases: ['type', 'workstream'] },
+  { key: 'priority', label: 'Priority' },
+  { key: 'status', label: 'Status' },
+  { key: 'dueDate', label: 'Due Date', aliases: ['due', 'deadline', 'date'] },
+  { key: 'description', label: 'Description', aliases: ['details'] },
+  { key: 'notes', label: 'Notes', aliases: ['comments'] },
+]
+
 type TaskForm = {
   title: string
   description: string
@@ -81,9 +97,13 @@ type TaskForm = {
   priority: 'low' | 'medium' | 'high' | 'urgent'
   status: 'todo' | 'in_progress' | 'blocked' | 'completed'
   dueDate: string
+  assignedTo: string
   notes: string
 }
 
+// Radix Select items can't have an empty value
+const UNASSIGNED = 'unassigned'
+
 const defaultForm: TaskForm = {
   title: '',
   description: '',
@@ -91,6 +111,7 @@ const defaultForm: TaskForm = {
   priority: 'medium',
   status: 'todo',
   dueDate: '',
+  assignedTo: UNASSIGNED,
   notes: '',
 }
 
@@ -102,6 +123,7 @@ export function EventTasksPage() {
   const [form, setForm] = useState<TaskForm>(defaultForm)
   const [statusFilter, setStatusFilter] = useState<string>('all')
   const [isSaving, setIsSaving] = useState(false)
+  const [showImport, setShowImport] = useState(false)
 
   const event = useQuery(
     api.events.get,
@@ -118,11 +140,18 @@ export function EventTasksPage() {
     eventId ? { eventId: eventId as Id<'events'> } : 'skip'
   )
 
+  const assignees = useQuery(
+    api.eventTasks.listAssignees,
+    eventId ? { eventId: eventId as Id<'events'> } : 'skip'
+  )
+
   const createTask = useMutation(api.eventTasks.create)
   const updateTask = useMutation(api.eventTasks.update)
   const deleteTask = useMutation(api.eventTasks.remove)
+  const assignTask = useMutation(api.eventTasks.assign)
   const toggleComplete = useMutation(api.eventTasks.toggleComplete)
   const createFromTemplate = useMutation(api.eventTasks.createFromTemplate)
+  const importTasks = useMutation(api.eventTasks.importTasks)
 
   const openAddModal = () => {
     setForm(defaultForm)
@@ -138,6 +167,7 @@ export function EventTasksPage() {
       priority: task.priority,
       status: task.status,
       dueDate: task.dueDate ? new Date(task.dueDate).toISOString().split('T')[0] : '',
+      assignedTo: task.assignedTo ?? UNASSIGNED,
       notes: task.notes || '',
     })
     setEditingTask(task._id)
@@ -150,6 +180,8 @@ export function EventTasksPage() {
       return
     }
 
+    const assignedTo = form.assignedTo === UNASSIGNED ? undefined : (form.assignedTo as Id<'users'>)
+
     setIsSaving(true)
     try {
       if (editingTask) {
@@ -163,6 +195,9 @@ export function EventTasksPage() {
           dueDate: form.dueDate ? new Date(form.dueDate).getTime() : undefined,
           notes: form.notes.trim() || undefined,
         })
+        if (assignedTo !== tasks?.find((task) => task._id === editingTask)?.assignedTo) {
+          await assignTask({ id: editingTask, assignedTo })
+        }
         toast.success('Task updated')
       } else {
         await createTask({
@@ -173,6 +208,7 @@ export function EventTasksPage() {
           priority: form.priority,
           status: form.status,
           dueDate: form.dueDate ? new Date(form.dueDate).getTime() : undefined,
+          assignedTo,
           notes: form.notes.trim() || undefined,
         })
         toast.success('Task added')
@@ -241,6 +277,50 @@ export function EventTasksPage() {
     return timestamp < today.getTime()
   }
 
+  // Tasks plus the getSummary totals, as one sheet each
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    if (!event || !tasks) return
+
+    const sheets: Sheet[] = [
+      {
+        name: 'Tasks',
+        rows: [
+          ['Title', 'Category', 'Priority', 'Status', 'Due Date', 'Completed At', 'Description', 'Notes'],
+          ...tasks.map((task) => [
+            task.title,
+            TASK_CATEGORIES.find((c) => c.value === task.category)?.label ?? task.category,
+            task.priority,
+            task.status,
+            task.dueDate ? new Date(task.dueDate).toISOString().slice(0, 10) : undefined,
+            task.completedAt ? new Date(task.completedAt).toISOString().slice(0, 10) : undefined,
+            task.description,
+            task.notes,
+          ]),
+        ],
+      },
+    ]
+    if (summary) {
+      sheets.push({
+        name: 'Summary',
+        rows: [
+          ['Total', 'Count'],
+          ['Tasks', summary.total],
+          ['To do', summary.byStatus.todo],
+          ['In progress', summary.byStatus.in_progress],
+          ['Blocked', summary.byStatus.blocked],
+          ['Completed', summary.byStatus.completed],
+          ['Overdue', summary.overdue],
+          ['Due this week', summary.dueThisWeek],
+          ['Urgent', summary.urgent],
+          ['Completion rate (%)', summary.completionRate],
+        ],
+      })
+    }
+
+    const slug = event.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'event'
+    downloadSpreadsheet(`${slug}-tasks`, format, sheets)
+  }
+
   // Loading state
   if (event === undefined || tasks === undefined) {
     return (
@@ -309,6 +389,37 @@ export function EventTasksPage() {
               Use Template
             </button>
           )}
+          <button
+            onClick={() => setShowImport(true)}
+            className={cn(
+              'inline-flex items-center gap-2 px-4 py-2.5 rounded-lg',
+              'border border-border text-sm font-medium',
+              'hover:bg-muted transition-colors'
+            )}
+          >
+            <UploadSimple size={18} weight="bold" />
+            Import
+          </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                disabled={tasks.length === 0}
+                className={cn(
+                  'inline-flex items-center gap-2 px-4 py-2.5 rounded-lg',
+                  'border border-border text-sm font-medium',
+                  'hover:bg-muted transition-colors',
+                  'disabled:opacity-50 disabled:cursor-not-allowed'
+                )}
+              >
+                <DownloadSimple size={18} weight="bold" />
+                Export
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport('csv')}>CSV</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('xlsx')}>Excel (.xlsx)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
           <button
             onClick={openAddModal}
             className={cn(
@@ -323,6 +434,15 @@ export function EventTasksPage() {
         </div>
       </div>
 
+      <SpreadsheetImportDialog
+        title="Import Tasks"
+        itemLabel="tasks"
+        fields={IMPORT_FIELDS}
+        open={showImport}
+        onOpenChange={setShowImport}
+        onImport={(rows, dryRun) => importTasks({ eventId: event._id, rows, dryRun })}
+      />
+
       {/* Summary Cards */}
       {summary && (
         <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
@@ -460,6 +580,7 @@ export function EventTasksPage() {
           {filteredTasks.map((task) => {
             const category = TASK_CATEGORIES.find((c) => c.value === task.category)
             const priority = PRIORITY_OPTIONS.find((p) => p.value === task.priority)
+            const assignee = assignees?.find((a) => a.userId === task.assignedTo)
             const isComplete = task.status === 'completed'
             const PriorityIcon = priority?.icon
 
@@ -525,6 +646,12 @@ export function EventTasksPage() {
                           {formatDueDate(task.dueDate)}
                         </span>
                       )}
+                      {assignee && (
+                        <span className="flex items-center gap-1">
+                          <UserCircle size={12} />
+                          {assignee.name || assignee.email}
+                        </span>
+                      )}
                     </div>
                   </div>
 
@@ -689,6 +816,26 @@ export function EventTasksPage() {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label>Assignee</Label>
+              <Select
+                value={form.assignedTo}
+                onValueChange={(value) => setForm({ ...form, assignedTo: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {assignees?.map((a) => (
+                    <SelectItem key={a.userId} value={a.userId}>
+                      {a.name || a.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="space-y-2">
               <Label>Notes</Label>
               <Textarea
@@ -0,0 +1,145 @@
+import { useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import type { Id } from '../../../convex/_generated/dataModel'
+import { ChatsCircle, Storefront, Handshake, CalendarBlank } from '@phosphor-icons/react'
+import { InquiryThread } from '@/components/inquiries'
+import { cn } from '@/lib/utils'
+import { formatRelativeTime } from '@/lib/formatters'
+import { toast } from 'sonner'
+
+const statusFilters = [
+  { value: 'all', label: 'All' },
+  { value: 'sent', label: 'Awaiting reply' },
+  { value: 'replied', label: 'Replied' },
+  { value: 'closed', label: 'Closed' },
+]
+
+export function InquiriesPage() {
+  const [status, setStatus] = useState('all')
+  const [selectedId, setSelectedId] = useState<Id<'inquiries'> | null>(null)
+  const inquiries = useQuery(api.inquiries.listMySent, { status })
+  const closeInquiry = useMutation(api.inquiries.close)
+
+  const selected = inquiries?.find((inquiry) => inquiry._id === selectedId) ?? null
+
+  const handleClose = async (inquiryId: Id<'inquiries'>) => {
+    try {
+      await closeInquiry({ inquiryId })
+      toast.success('Inquiry closed')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to close inquiry')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold font-mono">Inquiries</h1>
+        <p className="text-muted-foreground mt-1">Conversations with the vendors and sponsors you've contacted</p>
+      </div>
+
+      {/* Status filter */}
+      <div className="flex flex-wrap gap-2">
+        {statusFilters.map((filter) => (
+          <button
+            key={filter.value}
+            onClick={() => setStatus(filter.value)}
+            className={cn(
+              'px-4 py-2 rounded-lg text-sm font-medium transition-colors cursor-pointer',
+              status === filter.value
+                ? 'bg-primary text-primary-foreground'
+                : 'bg-muted text-muted-foreground hover:text-foreground'
+            )}
+          >
+            {filter.label}
+          </button>
+        ))}
+      </div>
+
+      {inquiries === undefined ? (
+        <div className="h-64 rounded-xl bg-muted/50 animate-pulse" />
+      ) : inquiries.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-border p-12 text-center">
+          <ChatsCircle size={40} weight="duotone" className="text-muted-foreground mx-auto mb-3" />
+          <p className="text-sm text-muted-foreground">
+            No inquiries yet. Contact a vendor or sponsor from the marketplace to start a conversation.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-6">
+          {/* Inquiry list */}
+          <div className="rounded-xl border border-border bg-card divide-y divide-border overflow-hidden">
+            {inquiries.map((inquiry) => {
+              const RecipientIcon = inquiry.toType === 'vendor' ? Storefront : Handshake
+              return (
+                <button
+                  key={inquiry._id}
+                  onClick={() => setSelectedId(inquiry._id)}
+                  className={cn(
+                    'w-full flex items-start gap-3 p-4 text-left transition-colors cursor-pointer',
+                    selectedId === inquiry._id ? 'bg-accent' : 'hover:bg-muted/50'
+                  )}
+                >
+                  <RecipientIcon size={18} className="text-muted-foreground mt-0.5 flex-shrink-0" />
+                  <div className="min-w-0 flex-1">
+                    <p className={cn('text-sm truncate', inquiry.hasUnread && 'font-semibold')}>
+                      {inquiry.subject}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {inquiry.recipientDetails?.name ?? 'Unknown recipient'}
+                      {inquiry.eventDetails && ` · ${inquiry.eventDetails.title}`}
+                    </p>
+                  </div>
+                  <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                    <span className="text-xs text-muted-foreground">
+                      {formatRelativeTime(inquiry.lastMessageAt ?? inquiry.createdAt)}
+                    </span>
+                    {inquiry.hasUnread && <span className="w-2 h-2 rounded-full bg-primary" />}
+                  </div>
+                </button>
+              )
+            })}
+          </div>
+
+          {/* Thread */}
+          <div className="rounded-xl border border-border bg-card p-5">
+            {selected ? (
+              <>
+                <div className="flex items-start justify-between gap-3 mb-4">
+                  <div className="min-w-0">
+                    <h2 className="font-semibold truncate">{selected.subject}</h2>
+                    <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                      {selected.recipientDetails?.name ?? 'Unknown recipient'}
+                      {selected.eventDetails && (
+                        <>
+                          <span>·</span>
+                          <CalendarBlank size={12} />
+                          {selected.eventDetails.title}
+                        </>
+                      )}
+                    </p>
+                  </div>
+                  {selected.status !== 'closed' && (
+                    <button
+                      onClick={() => handleClose(selected._id)}
+                      className="text-sm text-muted-foreground hover:text-foreground transition-colors cursor-pointer"
+                    >
+                      Close
+                    </button>
+                  )}
+                </div>
+                <InquiryThread key={selected._id} inquiryId={selected._id} />
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-12">
+                Select an inquiry to see the conversation.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
 import { useQuery, useMutation } from 'convex/react'
 import { useAuthActions } from '@convex-dev/auth/react'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import { api } from '../../../convex/_generated/api'
+import type { Id } from '../../../convex/_generated/dataModel'
 import { usePWA } from '@/hooks/use-pwa'
 import {
   User,
@@ -21,6 +22,8 @@ import {
   Sparkle,
   Lightning,
   Clock,
+  Trash,
+  Robot,
 } from '@phosphor-icons/react'
 import { cn } from '@/lib/utils'
 import { useState, useEffect } from 'react'
@@ -34,8 +37,10 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { toast } from 'sonner'
+import { InviteMembers } from '@/components/app'
 
 const organizationTypes = [
   { value: 'company', label: 'Company' },
@@ -83,7 +88,8 @@ export function SettingsPage() {
 
   const [isSaving, setIsSaving] = useState(false)
   const [hasChanges, setHasChanges] = useState(false)
-  const [activeTab, setActiveTab] = useState('profile')
+  const [searchParams] = useSearchParams()
+  const [activeTab, setActiveTab] = useState(searchParams.get('tab') || 'profile')
 
   // Profile form state
   const [formData, setFormData] = useState({
@@ -92,16 +98,7 @@ export function SettingsPage() {
     eventTypes: [] as string[],
     eventScale: '',
     experienceLevel: '',
-  })
-
-  // Notification settings (local state for now)
-  const [notifications, setNotifications] = useState({
-    emailEventUpdates: true,
-    emailVendorMessages: true,
-    emailSponsorMessages: true,
-    emailWeeklyDigest: false,
-    pushEventReminders: true,
-    pushNewMessages: true,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
   })
 
   // Load profile data
@@ -113,6 +110,7 @@ export function SettingsPage() {
         eventTypes: profile.eventTypes || [],
         eventScale: profile.eventScale || '',
         experienceLevel: profile.experienceLevel || '',
+        timezone: profile.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone,
       })
     }
   }, [profile])
@@ -144,11 +142,12 @@ export function SettingsPage() {
         eventTypes: formData.eventTypes.length > 0 ? formData.eventTypes : undefined,
         eventScale: formData.eventScale || undefined,
         experienceLevel: formData.experienceLevel || undefined,
+        timezone: formData.timezone || undefined,
       })
       toast.success('Settings saved successfully')
       setHasChanges(false)
-    } catch {
-      toast.error('Failed to save settings')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save settings')
     } finally {
       setIsSaving(false)
     }
@@ -491,6 +490,20 @@ export function SettingsPage() {
                   </SelectContent>
                 </Select>
               </div>
+
+              <div>
+                <Label htmlFor="timezone">Time Zone</Label>
+                <Input
+                  id="timezone"
+                  value={formData.timezone}
+                  onChange={(e) => handleChange('timezone', e.target.value)}
+                  placeholder="e.g., Asia/Kuala_Lumpur"
+                  className="mt-1.5"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  New events and the AI assistant use this time zone unless you pick another
+                </p>
+              </div>
             </div>
           </div>
 
@@ -503,83 +516,31 @@ export function SettingsPage() {
 
             <OrgStats />
           </div>
-        </TabsContent>
 
-        {/* Notifications Tab */}
-        <TabsContent value="notifications" className="space-y-6">
+          {/* Workspace Members */}
           <div className="rounded-xl border border-border bg-card p-6">
             <h3 className="font-semibold mb-6 flex items-center gap-2">
-              <Envelope size={18} weight="duotone" className="text-primary" />
-              Email Notifications
+              <Users size={18} weight="duotone" className="text-primary" />
+              Workspace Members
             </h3>
 
-            <div className="space-y-4">
-              <NotificationToggle
-                label="Event Updates"
-                description="Get notified when events are updated or status changes"
-                checked={notifications.emailEventUpdates}
-                onCheckedChange={(checked) =>
-                  setNotifications((prev) => ({ ...prev, emailEventUpdates: checked }))
-                }
-              />
-              <NotificationToggle
-                label="Vendor Messages"
-                description="Receive emails when vendors respond to inquiries"
-                checked={notifications.emailVendorMessages}
-                onCheckedChange={(checked) =>
-                  setNotifications((prev) => ({ ...prev, emailVendorMessages: checked }))
-                }
-              />
-              <NotificationToggle
-                label="Sponsor Messages"
-                description="Receive emails when sponsors respond to proposals"
-                checked={notifications.emailSponsorMessages}
-                onCheckedChange={(checked) =>
-                  setNotifications((prev) => ({ ...prev, emailSponsorMessages: checked }))
-                }
-              />
-              <NotificationToggle
-                label="Weekly Digest"
-                description="Get a summary of your events and activities each week"
-                checked={notifications.emailWeeklyDigest}
-                onCheckedChange={(checked) =>
-                  setNotifications((prev) => ({ ...prev, emailWeeklyDigest: checked }))
-                }
-              />
-            </div>
+            <WorkspaceMembers />
           </div>
 
+          {/* Workspace AI Assistant */}
           <div className="rounded-xl border border-border bg-card p-6">
             <h3 className="font-semibold mb-6 flex items-center gap-2">
-              <Bell size={18} weight="duotone" className="text-primary" />
-              Push Notifications
+              <Robot size={18} weight="duotone" className="text-primary" />
+              AI Assistant
             </h3>
 
-            <div className="space-y-4">
-              <NotificationToggle
-                label="Event Reminders"
-                description="Get reminded about upcoming events"
-                checked={notifications.pushEventReminders}
-                onCheckedChange={(checked) =>
-                  setNotifications((prev) => ({ ...prev, pushEventReminders: checked }))
-                }
-              />
-              <NotificationToggle
-                label="New Messages"
-                description="Get notified when you receive new messages"
-                checked={notifications.pushNewMessages}
-                onCheckedChange={(checked) =>
-                  setNotifications((prev) => ({ ...prev, pushNewMessages: checked }))
-                }
-              />
-            </div>
+            <WorkspaceAssistant />
           </div>
+        </TabsContent>
 
-          <div className="p-4 rounded-xl bg-muted/50 border border-border text-center">
-            <p className="text-sm text-muted-foreground">
-              Notification preferences are saved locally for now. Full notification system coming soon.
-            </p>
-          </div>
+        {/* Notifications Tab */}
+        <TabsContent value="notifications" className="space-y-6">
+          <NotificationSettings />
         </TabsContent>
       </Tabs>
 
@@ -628,6 +589,79 @@ function StatCard({
 }
 
 // Notification Toggle Component
+// Per-type delivery channels, saved to the server as soon as they change
+function NotificationSettings() {
+  const preferences = useQuery(api.notifications.getPreferences)
+  const updatePreferences = useMutation(api.notifications.updatePreferences)
+
+  const handleToggle = async (type: string, channel: 'inApp' | 'email', checked: boolean) => {
+    const current = preferences?.find((preference) => preference.type === type)
+    if (!current) return
+
+    try {
+      await updatePreferences({
+        preferences: [{ type, inApp: current.inApp, email: current.email, [channel]: checked }],
+      })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save notification settings')
+    }
+  }
+
+  if (preferences === undefined) {
+    return (
+      <div className="rounded-xl border border-border bg-card p-6 space-y-4 animate-pulse">
+        {[1, 2, 3].map((i) => (
+          <div key={i} className="h-10 bg-muted rounded" />
+        ))}
+      </div>
+    )
+  }
+
+  if (preferences === null) return null
+
+  return (
+    <>
+      <div className="rounded-xl border border-border bg-card p-6">
+        <h3 className="font-semibold mb-6 flex items-center gap-2">
+          <Bell size={18} weight="duotone" className="text-primary" />
+          In-App Notifications
+        </h3>
+
+        <div className="space-y-4">
+          {preferences.map((preference) => (
+            <NotificationToggle
+              key={preference.type}
+              label={preference.label}
+              description={preference.description}
+              checked={preference.inApp}
+              onCheckedChange={(checked) => handleToggle(preference.type, 'inApp', checked)}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="rounded-xl border border-border bg-card p-6">
+        <h3 className="font-semibold mb-6 flex items-center gap-2">
+          <Envelope size={18} weight="duotone" className="text-primary" />
+          Email Notifications
+        </h3>
+
+        <div className="space-y-4">
+          {preferences.map((preference) => (
+            <NotificationToggle
+              key={preference.type}
+              label={preference.label}
+              description={preference.description}
+              checked={preference.email}
+              onCheckedChange={(checked) => handleToggle(preference.type, 'email', checked)}
+            />
+          ))}
+        </div>
+      </div>
+    </>
+  )
+}
+
 function NotificationToggle({
   label,
   description,
@@ -790,3 +824,259 @@ function AIUsageStats() {
     </div>
   )
 }
+
+// Workspace Members Component - manage the active shared workspace
+function WorkspaceMembers() {
+  const user = useQuery(api.queries.auth.getCurrentUser)
+  const activeOrg = useQuery(api.organizations.getActive)
+  const members = useQuery(
+    api.organizations.listMembers,
+    activeOrg ? { organizationId: activeOrg._id } : 'skip'
+  )
+  const updateMemberRole = useMutation(api.organizations.updateMemberRole)
+  const removeMember = useMutation(api.organizations.removeMember)
+  const setReportingCurrency = useMutation(api.organizations.setReportingCurrency)
+  const currencies = useQuery(api.exchangeRates.listCurrencies)
+
+  if (activeOrg === undefined) {
+    return <div className="h-16 bg-muted/50 rounded-lg animate-pulse" />
+  }
+
+  if (activeOrg === null) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        You're in your personal workspace. Create a shared workspace from the workspace
+        switcher to plan events with your team.
+      </p>
+    )
+  }
+
+  const isOwner = activeOrg.role === 'owner'
+
+  const handleRoleChange = async (
+    memberId: Id<'organizationMembers'>,
+    newRole: 'owner' | 'editor' | 'viewer'
+  ) => {
+    try {
+      await updateMemberRole({ memberId, role: newRole })
+      toast.success('Role updated')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update role')
+    }
+  }
+
+  const reportingCurrency = activeOrg.reportingCurrency ?? 'USD'
+
+  const handleReportingCurrencyChange = async (currency: string) => {
+    try {
+      await setReportingCurrency({ id: activeOrg._id, currency })
+      toast.success('Reporting currency updated')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update reporting currency')
+    }
+  }
+
+  const handleRemove = async (memberId: Id<'organizationMembers'>, isSelf: boolean) => {
+    try {
+      await removeMember({ memberId })
+      toast.success(isSelf ? 'You left the workspace' : 'Member removed')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove member')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="divide-y divide-border">
+        {members?.map((member) => {
+          const isSelf = member.userId === user?._id
+          return (
+            <div key={member._id} className="flex items-center justify-between gap-4 py-3">
+              <div className="min-w-0">
+                <p className="font-medium text-sm truncate">
+                  {member.name || member.email || 'Unknown user'}
+                  {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                </p>
+                {member.email && (
+                  <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {isOwner ? (
+                  <Select
+                    value={member.role}
+                    onValueChange={(value) =>
+                      handleRoleChange(member._id, value as 'owner' | 'editor' | 'viewer')
+                    }
+                  >
+                    <SelectTrigger className="w-28 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="owner">Owner</SelectItem>
+                      <SelectItem value="editor">Editor</SelectItem>
+                      <SelectItem value="viewer">Viewer</SelectItem>
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <span className="text-xs text-muted-foreground capitalize">{member.role}</span>
+                )}
+                {(isOwner || isSelf) && (
+                  <button
+                    onClick={() => handleRemove(member._id, isSelf)}
+                    className="p-1.5 rounded-md text-muted-foreground hover:text-red-600 hover:bg-red-500/10 transition-colors cursor-pointer"
+                    title={isSelf ? 'Leave workspace' : 'Remove member'}
+                  >
+                    <Trash size={14} />
+                  </button>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {isOwner && (
+        <div className="pt-2">
+          <InviteMembers
+            organizationId={activeOrg._id}
+            roles={['owner', 'editor', 'viewer']}
+          />
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Owners manage members and can delete events. Editors can create and edit events,
+        budgets and tasks. Viewers have read-only access.
+      </p>
+
+      <div className="flex items-center justify-between gap-4 pt-4 border-t border-border">
+        <div>
+          <p className="font-medium text-sm">Reporting currency</p>
+          <p className="text-xs text-muted-foreground">
+            Budget totals across events are converted to this currency
+          </p>
+        </div>
+        {isOwner ? (
+          <Select value={reportingCurrency} onValueChange={handleReportingCurrencyChange}>
+            <SelectTrigger className="w-28 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[...new Set([reportingCurrency, ...(currencies ?? [])])].sort().map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <span className="text-sm text-muted-foreground">{reportingCurrency}</span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Workspace Assistant Component - pick the AI persona and add workspace instructions
+function WorkspaceAssistant() {
+  const activeOrg = useQuery(api.organizations.getActive)
+  const personas = useQuery(api.agentPersonas.list)
+  const setAgentPersona = useMutation(api.organizations.setAgentPersona)
+
+  const [instructions, setInstructions] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const savedInstructions = activeOrg?.agentInstructions ?? ''
+  useEffect(() => {
+    setInstructions(savedInstructions)
+  }, [savedInstructions])
+
+  if (activeOrg === undefined) {
+    return <div className="h-16 bg-muted/50 rounded-lg animate-pulse" />
+  }
+
+  if (activeOrg === null) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Shared workspaces can choose how the AI assistant works with their team. Your personal
+        workspace uses the default assistant.
+      </p>
+    )
+  }
+
+  const isOwner = activeOrg.role === 'owner'
+  const defaultPersona = personas?.find((p) => p.isDefault)
+  const selected = personas?.find((p) => p._id === activeOrg.agentPersonaId) ?? defaultPersona
+
+  const save = async (personaId: Id<'agentPersonas'> | undefined, text: string, message: string) => {
+    setIsSaving(true)
+    try {
+      await setAgentPersona({ id: activeOrg._id, personaId, instructions: text })
+      toast.success(message)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update AI assistant')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Label>Persona</Label>
+        {isOwner && personas && personas.length > 0 ? (
+          <Select
+            value={selected?._id ?? ''}
+            onValueChange={(value) =>
+              save(value as Id<'agentPersonas'>, savedInstructions, 'Persona updated')
+            }
+            disabled={isSaving}
+          >
+            <SelectTrigger className="mt-1.5">
+              <SelectValue placeholder="Default" />
+            </SelectTrigger>
+            <SelectContent>
+              {personas.map((persona) => (
+                <SelectItem key={persona._id} value={persona._id}>
+                  {persona.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <p className="text-sm mt-1.5">{selected?.name ?? 'Quick creator'}</p>
+        )}
+        <p className="text-xs text-muted-foreground mt-1">
+          {selected?.description ?? 'Creates events fast with short replies and sensible defaults'}
+        </p>
+      </div>
+
+      <div>
+        <Label htmlFor="agentInstructions">Workspace instructions</Label>
+        <Textarea
+          id="agentInstructions"
+          value={instructions}
+          onChange={(e) => setInstructions(e.target.value)}
+          placeholder="e.g., Quote prices in MYR and suggest halal caterers first"
+          rows={4}
+          disabled={!isOwner}
+          className="mt-1.5"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Added to the persona's prompt for everyone in this workspace
+        </p>
+      </div>
+
+      {isOwner && (
+        <button
+          onClick={() => save(activeOrg.agentPersonaId, instructions, 'Instructions saved')}
+          disabled={isSaving || instructions === savedInstructions}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+        >
+          {isSaving ? 'Saving...' : 'Save instructions'}
+        </button>
+      )}
+    </div>
+  )
+}
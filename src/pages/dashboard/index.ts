@@ -8,6 +8,7 @@ export { EventBudgetPage } from './EventBudgetPage'
 export { EventTasksPage } from './EventTasksPage'
 export { VendorsPage } from './VendorsPage'
 export { SponsorsPage } from './SponsorsPage'
+export { InquiriesPage } from './InquiriesPage'
 export { AnalyticsPage } from './AnalyticsPage'
 export { SettingsPage } from './SettingsPage'
 export { PlaygroundPage } from './PlaygroundPage'
@@ -0,0 +1,194 @@
+import { useEffect, useState } from 'react'
+import { useConvexAuth, useMutation, useQuery } from 'convex/react'
+import { useAuthActions } from '@convex-dev/auth/react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { api } from '../../../convex/_generated/api'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import { ThemeToggle } from '@/components/ui/theme-toggle'
+import { cn } from '@/lib/utils'
+import { toast } from 'sonner'
+import {
+  Buildings,
+  CalendarBlank,
+  CircleNotch,
+  Handshake,
+  Storefront,
+  WarningCircle,
+  ArrowRight,
+} from '@phosphor-icons/react'
+import { clearPendingInvite, setPendingInvite } from './pending-invite'
+
+const statusMessages = {
+  accepted: 'This invitation has already been accepted.',
+  revoked: 'This invitation has been revoked. Ask the person who invited you for a new one.',
+  expired: 'This invitation has expired. Ask the person who invited you for a new one.',
+}
+
+export function InvitePage() {
+  const { token = '' } = useParams<{ token: string }>()
+  const navigate = useNavigate()
+  const { isAuthenticated, isLoading: authLoading } = useConvexAuth()
+  const { signOut } = useAuthActions()
+
+  const invitation = useQuery(api.invitations.getByToken, token ? { token } : 'skip')
+  const user = useQuery(api.queries.auth.getCurrentUser, isAuthenticated ? {} : 'skip')
+  const accept = useMutation(api.invitations.accept)
+
+  const [isAccepting, setIsAccepting] = useState(false)
+
+  // Landing here consumes any remembered invite so AuthRedirect doesn't loop back
+  useEffect(() => {
+    clearPendingInvite()
+  }, [])
+
+  if (authLoading || invitation === undefined || (isAuthenticated && user === undefined)) {
+    return <LoadingSpinner message="Loading invitation..." fullScreen />
+  }
+
+  const handleContinue = (path: '/sign-up' | '/sign-in') => {
+    setPendingInvite(token)
+    navigate(path)
+  }
+
+  const handleSwitchAccount = async () => {
+    setPendingInvite(token)
+    await signOut()
+    navigate('/sign-in')
+  }
+
+  const handleAccept = async () => {
+    setIsAccepting(true)
+    try {
+      const result = await accept({ token })
+      toast.success('Invitation accepted')
+      let destination = '/dashboard'
+      if (result.vendorId) destination = '/vendor'
+      else if (result.sponsorId) destination = '/sponsor'
+      else if (result.eventId) destination = `/dashboard/events/${result.eventId}`
+      navigate(destination, { replace: true })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to accept invitation')
+      setIsAccepting(false)
+    }
+  }
+
+  const emailMismatch =
+    invitation && user?.email && user.email.toLowerCase() !== invitation.email
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 flex items-center justify-between h-16">
+          <Link to="/" className="font-mono text-lg font-bold">
+            <span className="text-foreground">open</span>
+            <span className="text-primary">-</span>
+            <span className="text-foreground">event</span>
+          </Link>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="max-w-md mx-auto px-4 py-16">
+        {!invitation ? (
+          <div className="text-center">
+            <WarningCircle size={40} weight="duotone" className="text-muted-foreground mx-auto mb-4" />
+            <h1 className="text-2xl font-bold mb-2">Invitation not found</h1>
+            <p className="text-muted-foreground">
+              This link is invalid or has been replaced by a newer invitation.
+            </p>
+          </div>
+        ) : invitation.status !== 'pending' ? (
+          <div className="text-center">
+            <WarningCircle size={40} weight="duotone" className="text-muted-foreground mx-auto mb-4" />
+            <h1 className="text-2xl font-bold mb-2">Invitation unavailable</h1>
+            <p className="text-muted-foreground mb-6">{statusMessages[invitation.status]}</p>
+            {isAuthenticated && (
+              <Link to="/dashboard" className="text-primary hover:underline text-sm">
+                Go to dashboard
+              </Link>
+            )}
+          </div>
+        ) : (
+          <div className="bg-card rounded-xl border border-border p-6 text-center">
+            <div className="w-14 h-14 rounded-full bg-primary/10 flex items-center justify-center mx-auto mb-4">
+              {invitation.targetType === 'organization' ? (
+                <Buildings size={28} weight="duotone" className="text-primary" />
+              ) : invitation.targetType === 'vendor' ? (
+                <Storefront size={28} weight="duotone" className="text-primary" />
+              ) : invitation.targetType === 'sponsor' ? (
+                <Handshake size={28} weight="duotone" className="text-primary" />
+              ) : (
+                <CalendarBlank size={28} weight="duotone" className="text-primary" />
+              )}
+            </div>
+            <h1 className="text-xl font-bold mb-2">Join {invitation.targetName}</h1>
+            <p className="text-sm text-muted-foreground mb-6">
+              {invitation.inviterName} invited <span className="font-medium">{invitation.email}</span>{' '}
+              {invitation.targetType === 'vendor' || invitation.targetType === 'sponsor' ? (
+                <>
+                  to manage this {invitation.targetType} on the {invitation.targetType} portal.
+                </>
+              ) : (
+                <>
+                  to this {invitation.targetType === 'organization' ? 'workspace' : 'event'} as{' '}
+                  <span className="capitalize">{invitation.role}</span>.
+                </>
+              )}
+            </p>
+
+            {!isAuthenticated ? (
+              <div className="space-y-2">
+                <button
+                  onClick={() => handleContinue('/sign-up')}
+                  className={cn(
+                    'w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium',
+                    'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors cursor-pointer'
+                  )}
+                >
+                  Create account to accept
+                  <ArrowRight size={16} />
+                </button>
+                <button
+                  onClick={() => handleContinue('/sign-in')}
+                  className="w-full px-4 py-2.5 rounded-lg text-sm font-medium border border-border hover:bg-muted transition-colors cursor-pointer"
+                >
+                  I already have an account
+                </button>
+              </div>
+            ) : emailMismatch ? (
+              <div className="space-y-4">
+                <p className="text-sm text-amber-600 bg-amber-500/10 rounded-lg p-3">
+                  You're signed in as {user?.email}. Sign in with {invitation.email} to accept
+                  this invitation.
+                </p>
+                <button
+                  onClick={handleSwitchAccount}
+                  className="w-full px-4 py-2.5 rounded-lg text-sm font-medium border border-border hover:bg-muted transition-colors cursor-pointer"
+                >
+                  Switch account
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={handleAccept}
+                disabled={isAccepting}
+                className={cn(
+                  'w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium',
+                  'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors',
+                  'disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer'
+                )}
+              >
+                {isAccepting && <CircleNotch size={16} className="animate-spin" />}
+                Accept invitation
+              </button>
+            )}
+
+            <p className="text-xs text-muted-foreground mt-4">
+              Expires {new Date(invitation.expiresAt).toLocaleDateString()}
+            </p>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
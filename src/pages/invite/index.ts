@@ -0,0 +1,2 @@
+export { InvitePage } from './InvitePage'
+export { getPendingInvite, setPendingInvite, clearPendingInvite } from './pending-invite'
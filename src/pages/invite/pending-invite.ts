@@ -0,0 +1,30 @@
+/**
+ * Remembers an invite token across sign-up / sign-in so the user lands back
+ * on the accept page once authenticated (see AuthRedirect).
+ */
+
+const STORAGE_KEY = 'open-event-pending-invite'
+
+export function getPendingInvite(): string | null {
+  try {
+    return sessionStorage.getItem(STORAGE_KEY)
+  } catch {
+    return null
+  }
+}
+
+export function setPendingInvite(token: string) {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, token)
+  } catch {
+    // Storage unavailable (private mode) - the user can reopen the email link
+  }
+}
+
+export function clearPendingInvite() {
+  try {
+    sessionStorage.removeItem(STORAGE_KEY)
+  } catch {
+    // Ignore
+  }
+}
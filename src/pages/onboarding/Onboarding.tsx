@@ -78,6 +78,7 @@ export function Onboarding() {
         goals: answers.goals,
         experienceLevel: answers.experienceLevel,
         referralSource: answers.referralSource,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       })
         .then(() => {
           navigate('/onboarding/complete', { replace: true })
@@ -0,0 +1,303 @@
+import { useMemo, useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import type { Id } from '../../../convex/_generated/dataModel'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { cn } from '@/lib/utils'
+import { applicationStatusColors, formatDate, SPONSOR_TIER } from '@/lib/constants'
+import { toast } from 'sonner'
+import { CalendarBlank, MagnifyingGlass, MapPin, Users, PaperPlaneTilt } from '@phosphor-icons/react'
+
+interface ProposalTarget {
+  eventId: Id<'events'>
+  title: string
+  sponsorBenefits?: string
+}
+
+export function SponsorEvents() {
+  const [search, setSearch] = useState('')
+  const [proposalTarget, setProposalTarget] = useState<ProposalTarget | null>(null)
+
+  const sponsor = useQuery(api.sponsorPortal.getMySponsor)
+  const events = useQuery(api.events.listPublic, {
+    seekingSponsors: true,
+    search: search.trim() || undefined,
+  })
+  const proposals = useQuery(
+    api.eventApplications.listMyApplications,
+    sponsor ? { applicantType: 'sponsor', applicantId: sponsor._id } : 'skip'
+  )
+
+  // Latest proposal status per event
+  const proposalByEvent = useMemo(() => {
+    const map = new Map<string, string>()
+    for (const proposal of proposals ?? []) {
+      if (!map.has(proposal.eventId)) map.set(proposal.eventId, proposal.status)
+    }
+    return map
+  }, [proposals])
+
+  const canPropose = sponsor?.status === 'approved'
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Find events</h1>
+        <p className="text-sm text-muted-foreground">Public events looking for sponsors.</p>
+      </div>
+
+      <div className="relative max-w-md">
+        <MagnifyingGlass size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search events..."
+          className="pl-9"
+        />
+      </div>
+
+      {!canPropose && sponsor && (
+        <div className="p-3 rounded-lg bg-amber-500/10 border border-amber-500/20 text-sm text-amber-700 dark:text-amber-400">
+          You can browse events now and send proposals once your sponsor profile is approved.
+        </div>
+      )}
+
+      {events === undefined ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {[1, 2, 3, 4].map((i) => (
+            <div key={i} className="h-40 rounded-xl bg-muted/50 animate-pulse" />
+          ))}
+        </div>
+      ) : events.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-border p-12 text-center text-sm text-muted-foreground">
+          No events are looking for sponsors right now.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {events.map((event) => {
+            const proposalStatus = proposalByEvent.get(event._id)
+            const colors = proposalStatus ? applicationStatusColors[proposalStatus] : null
+            const canResubmit =
+              !proposalStatus || proposalStatus === 'rejected' || proposalStatus === 'withdrawn'
+
+            return (
+              <div key={event._id} className="rounded-xl border border-border bg-card p-5 flex flex-col">
+                <div className="flex items-start justify-between gap-3 mb-2">
+                  <h2 className="font-semibold">{event.title}</h2>
+                  {colors && (
+                    <span className={cn('px-2 py-0.5 text-xs font-medium rounded-full flex-shrink-0', colors.bg, colors.text)}>
+                      {colors.label}
+                    </span>
+                  )}
+                </div>
+                {event.description && (
+                  <p className="text-sm text-muted-foreground line-clamp-2 mb-3">{event.description}</p>
+                )}
+                <div className="flex flex-wrap gap-3 text-xs text-muted-foreground mb-3">
+                  <span className="inline-flex items-center gap-1">
+                    <CalendarBlank size={14} />
+                    {formatDate(event.startDate)}
+                  </span>
+                  {event.venueName && (
+                    <span className="inline-flex items-center gap-1">
+                      <MapPin size={14} />
+                      {event.venueName}
+                    </span>
+                  )}
+                  {event.expectedAttendees !== undefined && (
+                    <span className="inline-flex items-center gap-1">
+                      <Users size={14} />
+                      {event.expectedAttendees} attendees
+                    </span>
+                  )}
+                </div>
+                {event.sponsorBenefits && (
+                  <p className="text-xs text-muted-foreground mb-4">
+                    <span className="font-medium text-foreground">Sponsor benefits:</span> {event.sponsorBenefits}
+                  </p>
+                )}
+                <div className="mt-auto">
+                  <button
+                    onClick={() =>
+                      setProposalTarget({
+                        eventId: event._id,
+                        title: event.title,
+                        sponsorBenefits: event.sponsorBenefits,
+                      })
+                    }
+                    disabled={!canPropose || !canResubmit}
+                    className={cn(
+                      'inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium',
+                      'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors',
+                      'disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer'
+                    )}
+                  >
+                    <PaperPlaneTilt size={16} />
+                    {canResubmit ? 'Send proposal' : 'Proposal sent'}
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {sponsor && (
+        <ProposalDialog
+          target={proposalTarget}
+          sponsorId={sponsor._id}
+          tiers={sponsor.sponsorshipTiers?.length ? sponsor.sponsorshipTiers : Object.values(SPONSOR_TIER)}
+          deliverables={sponsor.deliverablesOffered ?? []}
+          onClose={() => setProposalTarget(null)}
+        />
+      )}
+    </div>
+  )
+}
+
+function ProposalDialog({
+  target,
+  sponsorId,
+  tiers,
+  deliverables,
+  onClose,
+}: {
+  target: ProposalTarget | null
+  sponsorId: Id<'sponsors'>
+  tiers: string[]
+  deliverables: string[]
+  onClose: () => void
+}) {
+  const submit = useMutation(api.eventApplications.selfServiceSubmit)
+  const [tier, setTier] = useState('')
+  const [amount, setAmount] = useState('')
+  const [message, setMessage] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      onClose()
+      setTier('')
+      setAmount('')
+      setMessage('')
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!target) return
+    setIsSubmitting(true)
+    try {
+      await submit({
+        eventId: target.eventId,
+        applicantType: 'sponsor',
+        applicantId: sponsorId,
+        proposedTier: tier,
+        proposedBudget: amount ? Number(amount) : undefined,
+        proposedServices: deliverables.length > 0 ? deliverables : undefined,
+        message: message.trim() || undefined,
+      })
+      toast.success('Proposal sent')
+      handleOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send proposal')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={target !== null} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Sponsor {target?.title}</DialogTitle>
+          <DialogDescription>
+            {target?.sponsorBenefits || 'Propose a tier and amount. The organizer will review it with your profile.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1.5">
+              <Label>Tier</Label>
+              <Select value={tier} onValueChange={setTier}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a tier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {tiers.map((t) => (
+                    <SelectItem key={t} value={t} className="capitalize">
+                      {t}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="proposal-amount">Amount</Label>
+              <Input
+                id="proposal-amount"
+                type="number"
+                min={0}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+          {deliverables.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Includes your deliverables: {deliverables.join(', ')}
+            </p>
+          )}
+          <div className="space-y-1.5">
+            <Label htmlFor="proposal-message">Message</Label>
+            <Textarea
+              id="proposal-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="What you'd like from this partnership"
+              rows={4}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <button
+            onClick={() => handleOpenChange(false)}
+            className="px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!tier || isSubmitting}
+            className={cn(
+              'px-4 py-2 rounded-lg text-sm font-medium',
+              'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors',
+              'disabled:opacity-50 disabled:cursor-not-allowed'
+            )}
+          >
+            {isSubmitting ? 'Sending...' : 'Send proposal'}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,180 @@
+import { useQuery } from 'convex/react'
+import { Link } from 'react-router-dom'
+import { api } from '../../../convex/_generated/api'
+import { PortalInquiryRow, PortalStatCard } from '@/components/portal'
+import { cn } from '@/lib/utils'
+import {
+  applicationStatusColors,
+  formatCurrency,
+  formatDate,
+  sponsorStatusColors,
+  sponsorTierColors,
+} from '@/lib/constants'
+import {
+  Handshake,
+  PaperPlaneTilt,
+  EnvelopeSimple,
+  ArrowRight,
+  Warning,
+} from '@phosphor-icons/react'
+
+export function SponsorOverview() {
+  const sponsor = useQuery(api.sponsorPortal.getMySponsor)
+  const deals = useQuery(api.sponsorPortal.listMyDeals)
+  const inquiries = useQuery(api.sponsorPortal.listMyInquiries)
+  const proposals = useQuery(
+    api.eventApplications.listMyApplications,
+    sponsor ? { applicantType: 'sponsor', applicantId: sponsor._id } : 'skip'
+  )
+
+  if (sponsor === undefined) {
+    return <div className="h-32 rounded-xl bg-muted/50 animate-pulse" />
+  }
+
+  if (sponsor === null) {
+    return (
+      <div className="rounded-xl border border-border bg-card p-8 text-center">
+        <Warning size={40} weight="duotone" className="text-amber-500 mx-auto mb-3" />
+        <h1 className="text-lg font-semibold mb-1">No sponsor linked</h1>
+        <p className="text-sm text-muted-foreground">
+          Your account isn't linked to a sponsor yet. Ask an admin to send you a portal invitation.
+        </p>
+      </div>
+    )
+  }
+
+  const unreadCount = inquiries?.filter((i) => i.hasUnread).length ?? 0
+  const openProposals =
+    proposals?.filter((p) => p.status === 'pending' || p.status === 'under_review').length ?? 0
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">{sponsor.name}</h1>
+          <p className="text-sm text-muted-foreground capitalize">
+            {sponsor.industry} · {sponsor.status === 'approved' ? 'Approved sponsor' : `Status: ${sponsor.status}`}
+          </p>
+        </div>
+        <Link
+          to="/sponsor/events"
+          className={cn(
+            'inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium',
+            'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors'
+          )}
+        >
+          Find events
+          <ArrowRight size={16} />
+        </Link>
+      </div>
+
+      {sponsor.status !== 'approved' && (
+        <div className="p-3 rounded-lg bg-amber-500/10 border border-amber-500/20 text-sm text-amber-700 dark:text-amber-400">
+          Your sponsor profile is {sponsor.status}. You can send proposals once it's approved.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <PortalStatCard icon={Handshake} label="Deals" value={deals?.length ?? 0} />
+        <PortalStatCard icon={PaperPlaneTilt} label="Open proposals" value={openProposals} />
+        <PortalStatCard icon={EnvelopeSimple} label="Unread inquiries" value={unreadCount} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Deals */}
+        <section className="rounded-xl border border-border bg-card p-5">
+          <h2 className="font-semibold mb-4">Sponsorship deals</h2>
+          {deals && deals.length > 0 ? (
+            <div className="divide-y divide-border">
+              {deals.map((deal) => {
+                const colors = sponsorStatusColors[deal.status] || sponsorStatusColors.inquiry
+                const tierColors = deal.tier ? sponsorTierColors[deal.tier] : null
+                return (
+                  <div key={deal._id} className="flex items-center justify-between gap-3 py-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {deal.eventDetails?.title ?? 'Deleted event'}
+                      </p>
+                      {deal.eventDetails && (
+                        <p className="text-xs text-muted-foreground">
+                          {formatDate(deal.eventDetails.startDate)}
+                          {deal.amount !== undefined && ` · ${formatCurrency(deal.amount)}`}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1.5 flex-shrink-0">
+                      {deal.tier && (
+                        <span
+                          className={cn(
+                            'px-2 py-0.5 text-xs font-medium rounded-full capitalize',
+                            tierColors?.bg ?? 'bg-muted',
+                            tierColors?.text ?? 'text-muted-foreground'
+                          )}
+                        >
+                          {deal.tier}
+                        </span>
+                      )}
+                      <span className={cn('px-2 py-0.5 text-xs font-medium rounded-full capitalize', colors.bg, colors.text)}>
+                        {deal.status}
+                      </span>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No deals yet. Organizers add you when a sponsorship is agreed.
+            </p>
+          )}
+        </section>
+
+        {/* Proposals */}
+        <section className="rounded-xl border border-border bg-card p-5">
+          <h2 className="font-semibold mb-4">Proposals</h2>
+          {proposals && proposals.length > 0 ? (
+            <div className="divide-y divide-border">
+              {proposals.map((proposal) => {
+                const colors = applicationStatusColors[proposal.status]
+                return (
+                  <div key={proposal._id} className="flex items-center justify-between gap-3 py-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {proposal.eventDetails?.title ?? 'Deleted event'}
+                      </p>
+                      <p className="text-xs text-muted-foreground capitalize">
+                        {proposal.proposedTier ? `${proposal.proposedTier} · ` : ''}
+                        Sent {formatDate(proposal.createdAt)}
+                      </p>
+                    </div>
+                    <span className={cn('px-2 py-0.5 text-xs font-medium rounded-full', colors.bg, colors.text)}>
+                      {colors.label}
+                    </span>
+                  </div>
+                )
+              })}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              You haven't sent any proposals yet.
+            </p>
+          )}
+        </section>
+      </div>
+
+      {/* Inquiries */}
+      <section className="rounded-xl border border-border bg-card p-5">
+        <h2 className="font-semibold mb-4">Inquiries</h2>
+        {inquiries && inquiries.length > 0 ? (
+          <div className="divide-y divide-border">
+            {inquiries.map((inquiry) => (
+              <PortalInquiryRow key={inquiry._id} inquiry={inquiry} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No inquiries from organizers yet.</p>
+        )}
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,318 @@
+import { useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import type { Doc } from '../../../convex/_generated/dataModel'
+import { PortalField, PortalSection } from '@/components/portal'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import { cn } from '@/lib/utils'
+import { SPONSOR_TIER } from '@/lib/constants'
+import { toast } from 'sonner'
+import { FloppyDisk } from '@phosphor-icons/react'
+
+function optional(value: string) {
+  return value.trim() || undefined
+}
+
+// Comma separated input <-> string list
+function splitList(value: string) {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+function joinList(values?: string[]) {
+  return (values ?? []).join(', ')
+}
+
+export function SponsorProfile() {
+  const sponsor = useQuery(api.sponsorPortal.getMySponsor)
+
+  if (sponsor === undefined) {
+    return <div className="h-64 rounded-xl bg-muted/50 animate-pulse" />
+  }
+
+  if (sponsor === null) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Your account isn't linked to a sponsor yet.
+      </p>
+    )
+  }
+
+  // Remount the form when the record changes so the fields start from saved values
+  return <ProfileForm key={sponsor.updatedAt} sponsor={sponsor} />
+}
+
+function ProfileForm({ sponsor }: { sponsor: Doc<'sponsors'> }) {
+  const updateProfile = useMutation(api.sponsorPortal.updateProfile)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const [description, setDescription] = useState(sponsor.description ?? '')
+  const [website, setWebsite] = useState(sponsor.website ?? '')
+  const [contactName, setContactName] = useState(sponsor.contactName ?? '')
+  const [contactEmail, setContactEmail] = useState(sponsor.contactEmail ?? '')
+  const [contactPhone, setContactPhone] = useState(sponsor.contactPhone ?? '')
+
+  const [tiers, setTiers] = useState<string[]>(sponsor.sponsorshipTiers ?? [])
+  const [budgetMin, setBudgetMin] = useState(sponsor.budgetMin?.toString() ?? '')
+  const [budgetMax, setBudgetMax] = useState(sponsor.budgetMax?.toString() ?? '')
+  const [targetEventTypes, setTargetEventTypes] = useState(joinList(sponsor.targetEventTypes))
+  const [targetAudience, setTargetAudience] = useState(sponsor.targetAudience ?? '')
+  const [deliverables, setDeliverables] = useState(joinList(sponsor.deliverablesOffered))
+
+  const [brand, setBrand] = useState({
+    guidelinesUrl: sponsor.brandGuidelines?.guidelinesUrl ?? '',
+    logoUsageNotes: sponsor.brandGuidelines?.logoUsageNotes ?? '',
+    colorCodes: joinList(sponsor.brandGuidelines?.colorCodes),
+    prohibitedUsages: joinList(sponsor.brandGuidelines?.prohibitedUsages),
+  })
+  const [exclusivity, setExclusivity] = useState({
+    requiresExclusivity: sponsor.exclusivityRequirements?.requiresExclusivity ?? false,
+    competitorRestrictions: joinList(sponsor.exclusivityRequirements?.competitorRestrictions),
+    territorialScope: sponsor.exclusivityRequirements?.territorialScope ?? '',
+    notes: sponsor.exclusivityRequirements?.notes ?? '',
+  })
+
+  const toggleTier = (tier: string) =>
+    setTiers((prev) => (prev.includes(tier) ? prev.filter((t) => t !== tier) : [...prev, tier]))
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await updateProfile({
+        description: optional(description),
+        website: optional(website),
+        contactName: optional(contactName),
+        contactEmail: optional(contactEmail),
+        contactPhone: optional(contactPhone),
+        sponsorshipTiers: tiers,
+        budgetMin: budgetMin ? Number(budgetMin) : undefined,
+        budgetMax: budgetMax ? Number(budgetMax) : undefined,
+        targetEventTypes: splitList(targetEventTypes),
+        targetAudience: optional(targetAudience),
+        deliverablesOffered: splitList(deliverables),
+        brandGuidelines: {
+          guidelinesUrl: optional(brand.guidelinesUrl),
+          logoUsageNotes: optional(brand.logoUsageNotes),
+          colorCodes: splitList(brand.colorCodes),
+          prohibitedUsages: splitList(brand.prohibitedUsages),
+        },
+        exclusivityRequirements: {
+          requiresExclusivity: exclusivity.requiresExclusivity,
+          competitorRestrictions: splitList(exclusivity.competitorRestrictions),
+          territorialScope: optional(exclusivity.territorialScope),
+          notes: optional(exclusivity.notes),
+        },
+      })
+      toast.success('Profile saved')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save profile')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">Profile</h1>
+          <p className="text-sm text-muted-foreground">
+            What organizers see when they review your proposals. Name and industry are managed by admins.
+          </p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className={cn(
+            'inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium',
+            'bg-primary text-primary-foreground hover:bg-primary/90 transition-colors',
+            'disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer'
+          )}
+        >
+          <FloppyDisk size={16} />
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+
+      <PortalSection title="About">
+        <PortalField label="Description" htmlFor="description">
+          <Textarea
+            id="description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={5}
+            maxLength={5000}
+          />
+        </PortalField>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <PortalField label="Website" htmlFor="website">
+            <Input id="website" value={website} onChange={(e) => setWebsite(e.target.value)} />
+          </PortalField>
+          <PortalField label="Target audience" htmlFor="targetAudience">
+            <Input
+              id="targetAudience"
+              value={targetAudience}
+              onChange={(e) => setTargetAudience(e.target.value)}
+              placeholder="e.g. Developers, CTOs"
+            />
+          </PortalField>
+        </div>
+      </PortalSection>
+
+      <PortalSection title="Contact">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <PortalField label="Name" htmlFor="contactName">
+            <Input id="contactName" value={contactName} onChange={(e) => setContactName(e.target.value)} />
+          </PortalField>
+          <PortalField label="Email" htmlFor="contactEmail">
+            <Input
+              id="contactEmail"
+              type="email"
+              value={contactEmail}
+              onChange={(e) => setContactEmail(e.target.value)}
+            />
+          </PortalField>
+          <PortalField label="Phone" htmlFor="contactPhone">
+            <Input id="contactPhone" value={contactPhone} onChange={(e) => setContactPhone(e.target.value)} />
+          </PortalField>
+        </div>
+      </PortalSection>
+
+      <PortalSection title="Sponsorship">
+        <div className="space-y-1.5">
+          <p className="text-sm font-medium">Tiers</p>
+          <div className="flex flex-wrap gap-2">
+            {Object.values(SPONSOR_TIER).map((tier) => (
+              <button
+                key={tier}
+                onClick={() => toggleTier(tier)}
+                className={cn(
+                  'px-3 py-1.5 rounded-lg text-sm font-medium capitalize border transition-colors cursor-pointer',
+                  tiers.includes(tier)
+                    ? 'border-primary bg-primary/10 text-primary'
+                    : 'border-border text-muted-foreground hover:text-foreground'
+                )}
+              >
+                {tier}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <PortalField label="Budget from" htmlFor="budgetMin">
+            <Input
+              id="budgetMin"
+              type="number"
+              min={0}
+              value={budgetMin}
+              onChange={(e) => setBudgetMin(e.target.value)}
+            />
+          </PortalField>
+          <PortalField label="Budget up to" htmlFor="budgetMax">
+            <Input
+              id="budgetMax"
+              type="number"
+              min={0}
+              value={budgetMax}
+              onChange={(e) => setBudgetMax(e.target.value)}
+            />
+          </PortalField>
+        </div>
+        <PortalField label="Event types (comma separated)" htmlFor="targetEventTypes">
+          <Input
+            id="targetEventTypes"
+            value={targetEventTypes}
+            onChange={(e) => setTargetEventTypes(e.target.value)}
+            placeholder="conference, hackathon, meetup"
+          />
+        </PortalField>
+        <PortalField label="Deliverables offered (comma separated)" htmlFor="deliverables">
+          <Input
+            id="deliverables"
+            value={deliverables}
+            onChange={(e) => setDeliverables(e.target.value)}
+            placeholder="Logo placement, Booth space, Speaking slot"
+          />
+        </PortalField>
+      </PortalSection>
+
+      <PortalSection title="Brand guidelines">
+        <PortalField label="Guidelines URL" htmlFor="guidelinesUrl">
+          <Input
+            id="guidelinesUrl"
+            value={brand.guidelinesUrl}
+            onChange={(e) => setBrand((prev) => ({ ...prev, guidelinesUrl: e.target.value }))}
+          />
+        </PortalField>
+        <PortalField label="Logo usage" htmlFor="logoUsageNotes">
+          <Textarea
+            id="logoUsageNotes"
+            value={brand.logoUsageNotes}
+            onChange={(e) => setBrand((prev) => ({ ...prev, logoUsageNotes: e.target.value }))}
+            rows={3}
+          />
+        </PortalField>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <PortalField label="Brand colors" htmlFor="colorCodes">
+            <Input
+              id="colorCodes"
+              value={brand.colorCodes}
+              onChange={(e) => setBrand((prev) => ({ ...prev, colorCodes: e.target.value }))}
+              placeholder="#0F172A, #F97316"
+            />
+          </PortalField>
+          <PortalField label="Prohibited usages" htmlFor="prohibitedUsages">
+            <Input
+              id="prohibitedUsages"
+              value={brand.prohibitedUsages}
+              onChange={(e) => setBrand((prev) => ({ ...prev, prohibitedUsages: e.target.value }))}
+              placeholder="No recoloring, No stretching"
+            />
+          </PortalField>
+        </div>
+      </PortalSection>
+
+      <PortalSection title="Exclusivity">
+        <label className="flex items-center justify-between gap-4">
+          <span className="text-sm">
+            <span className="font-medium">Require category exclusivity</span>
+            <span className="block text-muted-foreground">No competing sponsors at the same event</span>
+          </span>
+          <Switch
+            checked={exclusivity.requiresExclusivity}
+            onCheckedChange={(checked) => setExclusivity((prev) => ({ ...prev, requiresExclusivity: checked }))}
+          />
+        </label>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <PortalField label="Competitors to exclude" htmlFor="competitorRestrictions">
+            <Input
+              id="competitorRestrictions"
+              value={exclusivity.competitorRestrictions}
+              onChange={(e) => setExclusivity((prev) => ({ ...prev, competitorRestrictions: e.target.value }))}
+            />
+          </PortalField>
+          <PortalField label="Territorial scope" htmlFor="territorialScope">
+            <Input
+              id="territorialScope"
+              value={exclusivity.territorialScope}
+              onChange={(e) => setExclusivity((prev) => ({ ...prev, territorialScope: e.target.value }))}
+              placeholder="e.g. North America"
+            />
+          </PortalField>
+        </div>
+        <PortalField label="Notes" htmlFor="exclusivityNotes">
+          <Textarea
+            id="exclusivityNotes"
+            value={exclusivity.notes}
+            onChange={(e) => setExclusivity((prev) => ({ ...prev, notes: e.target.value }))}
+            rows={3}
+          />
+        </PortalField>
+      </PortalSection>
+    </div>
+  )
+}
@@ -0,0 +1,3 @@
+export { SponsorOverview } from './SponsorOverview'
+export { SponsorProfile } from './SponsorProfile'
+export { SponsorEvents } from './SponsorEvents'
@@ -6,9 +6,26 @@ export default defineConfig({
   plugins: [react()],
   test: {
     globals: true,
-    environment: 'jsdom',
-    setupFiles: ['./src/test/setup.ts'],
-    include: ['src/**/*.{test,spec}.{js,mjs,cjs,ts,mts,cts,jsx,tsx}'],
+    projects: [
+      {
+        extends: true,
+        test: {
+          name: 'app',
+          environment: 'jsdom',
+          setupFiles: ['./src/test/setup.ts'],
+          include: ['src/**/*.{test,spec}.{js,mjs,cjs,ts,mts,cts,jsx,tsx}'],
+        },
+      },
+      {
+        // Convex functions run server-side, so test them without a DOM
+        extends: true,
+        test: {
+          name: 'convex',
+          environment: 'node',
+          include: ['convex/**/*.{test,spec}.ts'],
+        },
+      },
+    ],
     exclude: ['node_modules', 'dist', 'e2e'],
     coverage: {
       provider: 'v8',